@@ -22,9 +22,12 @@ module.exports = {
         jsx: 'react-jsx',
         esModuleInterop: true,
         allowSyntheticDefaultImports: true,
-        typeRoots: ['node_modules/@types', 'src/@types'],
-        types: ['jest', 'jest-axe', '@testing-library/jest-dom', 'node'],
-      }
+        typeRoots: ['node_modules/@types', 'src/@types', 'test/types'],
+        types: ['jest', 'jest-axe', '@testing-library/jest-dom', 'node', 'deno'],
+      },
+      // Modules shared with the edge functions import each other with a .ts
+      // extension, as Deno requires
+      diagnostics: { ignoreCodes: [5097] },
     }]
   },
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx'],
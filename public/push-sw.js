@@ -0,0 +1,39 @@
+// Web Push handlers, imported into the generated service worker
+// (vite.config.js workbox.importScripts). Payloads come from
+// supabase/functions/_shared/web-push.ts: { title, body, tag, url, data }.
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'WATHACI Connect', {
+      body: message.body || '',
+      tag: message.tag,
+      icon: '/pwa-192x192.png',
+      badge: '/pwa-192x192.png',
+      data: { ...(message.data || {}), url: message.url || '/' },
+    })
+  );
+});
+
+// Focus an open tab on the target page, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      for (const client of windows) {
+        if (client.url === target && 'focus' in client) return client.focus();
+      }
+      const open = windows.find((client) => 'navigate' in client);
+      if (open) return open.navigate(target).then((client) => client && client.focus());
+      return self.clients.openWindow(target);
+    })
+  );
+});
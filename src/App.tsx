@@ -8,6 +8,7 @@ import { AppProvider } from "@/contexts/AppContext";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { OnboardingGuard } from "@/components/OnboardingGuard";
+import { MaintenanceGate } from "@/components/MaintenanceGate";
 import { AdminGuard } from "@/components/admin/AdminGuard";
 import { AppErrorBoundary } from "@/components/AppErrorBoundary";
 import { HelmetProvider } from 'react-helmet-async';
@@ -18,6 +19,7 @@ import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
+import Unsubscribe from "./pages/Unsubscribe";
 import { SubscriptionPlans } from "./pages/SubscriptionPlans";
 import { PartnershipHub } from "./pages/PartnershipHub";
 import { ProfileReview } from "./components/ProfileReview";
@@ -31,6 +33,9 @@ import DataSafetySecurity from "./pages/DataSafetySecurity";
 import AccountDataDeletion from "./pages/AccountDataDeletion";
 import Messages from "./pages/Messages";
 import Wallet from "./pages/Wallet";
+import Orders from "./pages/Orders";
+import MyServices from "./pages/MyServices";
+import NotificationPreferences from "./pages/NotificationPreferences";
 import Donate from "./pages/Donate";
 import Install from "./pages/Install";
 import OnboardingProfile from "./pages/OnboardingProfile";
@@ -45,6 +50,12 @@ import RolesManager from "./pages/admin/RolesManager";
 import AuditLogs from "./pages/admin/AuditLogs";
 import AdminSettings from "./pages/admin/AdminSettings";
 import PaymentReconciliation from "./pages/admin/PaymentReconciliation";
+import Disputes from "./pages/admin/Disputes";
+import TaxRules from "./pages/admin/TaxRules";
+import ServiceModeration from "./pages/admin/ServiceModeration";
+import FeeSchedule from "./pages/admin/FeeSchedule";
+import EmailTemplates from "./pages/admin/EmailTemplates";
+import EmailOperations from "./pages/admin/EmailOperations";
 
 const queryClient = new QueryClient();
 
@@ -54,6 +65,7 @@ export const AppRoutes = () => (
     <Route path="/auth" element={<Auth />} />
     <Route path="/forgot-password" element={<ForgotPassword />} />
     <Route path="/reset-password" element={<ResetPassword />} />
+    <Route path="/unsubscribe" element={<Unsubscribe />} />
     <Route path="/marketplace" element={<Marketplace />} />
     <Route path="/freelancer-hub" element={<FreelancerHub />} />
     <Route path="/funding-hub" element={<FundingHub />} />
@@ -89,6 +101,21 @@ export const AppRoutes = () => (
         <Wallet />
       </ProtectedRoute>
     } />
+    <Route path="/orders" element={
+      <ProtectedRoute>
+        <Orders />
+      </ProtectedRoute>
+    } />
+    <Route path="/my-services" element={
+      <ProtectedRoute>
+        <MyServices />
+      </ProtectedRoute>
+    } />
+    <Route path="/settings/notifications" element={
+      <ProtectedRoute>
+        <NotificationPreferences />
+      </ProtectedRoute>
+    } />
     <Route path="/donate" element={<Donate />} />
     <Route path="/install" element={<Install />} />
     {/* Directory Routes */}
@@ -103,6 +130,12 @@ export const AppRoutes = () => (
     <Route path="/admin/audit-logs" element={<AdminGuard><AuditLogs /></AdminGuard>} />
     <Route path="/admin/settings" element={<AdminGuard><AdminSettings /></AdminGuard>} />
     <Route path="/admin/payments" element={<AdminGuard><PaymentReconciliation /></AdminGuard>} />
+    <Route path="/admin/disputes" element={<AdminGuard><Disputes /></AdminGuard>} />
+    <Route path="/admin/tax" element={<AdminGuard><TaxRules /></AdminGuard>} />
+    <Route path="/admin/services" element={<AdminGuard><ServiceModeration /></AdminGuard>} />
+    <Route path="/admin/fees" element={<AdminGuard><FeeSchedule /></AdminGuard>} />
+    <Route path="/admin/email-templates" element={<AdminGuard><EmailTemplates /></AdminGuard>} />
+    <Route path="/admin/email" element={<AdminGuard><EmailOperations /></AdminGuard>} />
     <Route path="*" element={<NotFound />} />
   </Routes>
 );
@@ -119,7 +152,9 @@ const App = () => (
                   <OnboardingGuard>
                     <Toaster />
                     <Sonner />
-                    <AppRoutes />
+                    <MaintenanceGate>
+                      <AppRoutes />
+                    </MaintenanceGate>
                   </OnboardingGuard>
                 </AuthProvider>
               </BrowserRouter>
@@ -4,6 +4,8 @@ import Footer from './Footer';
 import CisoAssistant from './CisoAssistant';
 import NotificationPermissionBanner from './NotificationPermissionBanner';
 import GracePeriodBanner from './GracePeriodBanner';
+import { PaymentTestModeBanner } from './PaymentTestModeBanner';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
 
 interface AppLayoutProps {
   children?: ReactNode;
@@ -11,17 +13,20 @@ interface AppLayoutProps {
 }
 
 export const AppLayout = ({ children, showFooter = true }: AppLayoutProps) => {
+  const { settings } = usePlatformSettings();
+
   return (
     <div className="min-h-screen flex w-full bg-background">
       <AppSidebar />
       <div className="flex-1 flex flex-col min-h-screen">
+        <PaymentTestModeBanner />
         <GracePeriodBanner />
         <main className="flex-1">
           {children}
         </main>
         {showFooter && <Footer />}
       </div>
-      <CisoAssistant />
+      {settings.ai_features_enabled && <CisoAssistant />}
       <NotificationPermissionBanner />
     </div>
   );
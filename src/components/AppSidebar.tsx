@@ -20,7 +20,9 @@ import {
   TrendingUp,
   Info,
   Shield,
-  FileText
+  FileText,
+  Package,
+  Briefcase
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -40,6 +42,8 @@ const mainNavItems = [
   { name: 'Funding Hub', href: '/funding-hub', icon: TrendingUp },
   { name: 'Partnership Hub', href: '/partnership-hub', icon: Handshake },
   { name: 'Resources', href: '/resources', icon: BookOpen },
+  { name: 'Orders', href: '/orders', icon: Package },
+  { name: 'My Services', href: '/my-services', icon: Briefcase },
   { name: 'Wallet', href: '/wallet', icon: CreditCard },
 ];
 
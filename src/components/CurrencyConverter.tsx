@@ -6,7 +6,7 @@ import { Label } from './ui/label';
 import { currencies } from '../data/countries';
 import { supabase } from '../lib/supabase';
 
-interface ConversionResult {
+export interface ConversionResult {
   originalAmount: number;
   originalCurrency: string;
   convertedAmount: number;
@@ -15,6 +15,11 @@ interface ConversionResult {
   exchangeRate: number;
   vatAmount: number;
   vatRate: number;
+  // Pass to checkout (fx_quote_id) so the transaction records this rate
+  quoteId: string | null;
+  rateSource: string;
+  rateFetchedAt: string;
+  expiresAt: string;
 }
 
 interface CurrencyConverterProps {
@@ -95,7 +100,7 @@ export const CurrencyConverter: React.FC<CurrencyConverterProps> = ({
             </div>
             {conversion.vatAmount > 0 && (
               <div className="flex justify-between text-sm text-gray-600">
-                <span>VAT (16%):</span>
+                <span>VAT ({Math.round(conversion.vatRate * 10000) / 100}%):</span>
                 <span>{formatCurrency(conversion.vatAmount, 'ZMW')}</span>
               </div>
             )}
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,19 +7,14 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/lib/supabase';
-import { Search, MapPin, DollarSign, Star, Loader2 } from 'lucide-react';
+import type { FreelancerMatch, FreelancerMatchRequest } from '@/lib/freelancer-match';
+import { Search, MapPin, DollarSign, Star, Loader2, History } from 'lucide-react';
 
-interface Freelancer {
-  avatar?: string;
-  name?: string;
-  title?: string;
-  match_score?: number;
-  bio?: string;
-  skills?: string[];
-  location?: string;
-  hourly_rate?: number;
-  rating?: number;
-  reviews_count?: number;
+interface SavedSearch {
+  id: string;
+  criteria: FreelancerMatchRequest;
+  results: FreelancerMatch[];
+  created_at: string;
 }
 
 export const FreelancerMatcher = () => {
@@ -26,9 +22,35 @@ export const FreelancerMatcher = () => {
   const [skills, setSkills] = useState('');
   const [budget, setBudget] = useState('');
   const [location, setLocation] = useState('');
-  const [matches, setMatches] = useState<Freelancer[]>([]);
+  const [matches, setMatches] = useState<FreelancerMatch[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [loading, setLoading] = useState(false);
 
+  const fetchSavedSearches = async () => {
+    const { data } = await supabase
+      .from('matcher_runs')
+      .select('id, criteria, results, created_at')
+      .eq('matcher', 'freelancer')
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    setSavedSearches((data || []) as unknown as SavedSearch[]);
+  };
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  const openSavedSearch = (search: SavedSearch) => {
+    setProjectRequirements(search.criteria.projectRequirements || '');
+    setSkills((search.criteria.skills || []).join(', '));
+    setBudget(search.criteria.budget ? String(search.criteria.budget) : '');
+    setLocation(search.criteria.location || '');
+    setMatches(search.results);
+    setSearched(true);
+  };
+
   const handleMatch = async () => {
     if (!projectRequirements || !skills) {
       alert('Please describe your project and required skills');
@@ -37,7 +59,7 @@ export const FreelancerMatcher = () => {
 
     setLoading(true);
     try {
-      const skillsArray = skills.split(',').map(s => s.trim());
+      const skillsArray = skills.split(',').map(s => s.trim()).filter(Boolean);
       const { data, error } = await supabase.functions.invoke('freelancer-matcher', {
         body: { 
           projectRequirements, 
@@ -49,6 +71,8 @@ export const FreelancerMatcher = () => {
 
       if (error) throw error;
       setMatches(data.matches || []);
+      setSearched(true);
+      if (data.runId) fetchSavedSearches();
     } catch (error) {
       console.error('Error matching freelancers:', error);
       alert('Error finding matches. Please try again.');
@@ -108,18 +132,43 @@ export const FreelancerMatcher = () => {
               </>
             )}
           </Button>
+
+          {savedSearches.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Recent searches
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {savedSearches.map((search) => (
+                  <Button key={search.id} variant="outline" size="sm" onClick={() => openSavedSearch(search)}>
+                    {(search.criteria.skills || []).slice(0, 3).join(', ') || 'Project search'}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {new Date(search.created_at).toLocaleDateString()}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {searched && matches.length === 0 && (
+        <p className="text-center text-muted-foreground">
+          No freelancers match these skills yet. Try broader skills or a higher budget.
+        </p>
+      )}
+
       {matches.length > 0 && (
         <div className="space-y-4">
           <h2 className="text-xl font-semibold">Matched Freelancers</h2>
-          {matches.map((freelancer: Freelancer, idx: number) => (
-            <Card key={idx}>
+          {matches.map((freelancer) => (
+            <Card key={freelancer.id}>
               <CardContent className="p-6">
                 <div className="flex items-start gap-4">
                   <Avatar className="w-16 h-16">
-                    <AvatarImage src={freelancer.avatar} alt={freelancer.name} />
+                    <AvatarImage src={freelancer.avatar || undefined} alt={freelancer.name} />
                     <AvatarFallback>{freelancer.name?.charAt(0)}</AvatarFallback>
                   </Avatar>
                   
@@ -134,32 +183,50 @@ export const FreelancerMatcher = () => {
                       </Badge>
                     </div>
                     
-                    <p className="text-gray-700 mb-3">{freelancer.bio}</p>
+                    {freelancer.bio && <p className="text-gray-700 mb-3">{freelancer.bio}</p>}
+
+                    {freelancer.reasons.length > 0 && (
+                      <ul className="text-sm text-muted-foreground list-disc pl-5 mb-3">
+                        {freelancer.reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    )}
                     
                     <div className="flex flex-wrap gap-2 mb-3">
-                      {freelancer.skills?.slice(0, 5).map((skill: string, skillIdx: number) => (
-                        <Badge key={skillIdx} variant="outline">{skill}</Badge>
+                      {freelancer.skills.slice(0, 5).map((skill) => (
+                        <Badge key={skill} variant="outline">{skill}</Badge>
                       ))}
                     </div>
                     
                     <div className="flex items-center gap-4 text-sm text-gray-600 mb-4">
-                      <div className="flex items-center gap-1">
-                        <MapPin className="w-4 h-4" />
-                        {freelancer.location}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <DollarSign className="w-4 h-4" />
-                        ZMW {freelancer.hourly_rate}/hour
-                      </div>
+                      {freelancer.location && (
+                        <div className="flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {freelancer.location}
+                        </div>
+                      )}
+                      {freelancer.rate_range && (
+                        <div className="flex items-center gap-1">
+                          <DollarSign className="w-4 h-4" />
+                          {freelancer.rate_range}
+                        </div>
+                      )}
                       <div className="flex items-center gap-1">
                         <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                        {freelancer.rating} ({freelancer.reviews_count} reviews)
+                        {freelancer.rating != null
+                          ? `${freelancer.rating} (${freelancer.reviews_count} reviews)`
+                          : 'No reviews yet'}
                       </div>
                     </div>
                     
                     <div className="flex gap-2">
-                      <Button className="flex-1">Contact Freelancer</Button>
-                      <Button variant="outline">View Profile</Button>
+                      <Button asChild className="flex-1">
+                        <Link to={`/messages?to=${freelancer.id}`}>Contact Freelancer</Link>
+                      </Button>
+                      <Button asChild variant="outline">
+                        <Link to={`/profile/${freelancer.id}`}>View Profile</Link>
+                      </Button>
                     </div>
                   </div>
                 </div>
@@ -4,11 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Textarea } from './ui/textarea';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import type { GapMatchRequest, GapMatchResponse, ProfessionalMatch } from '@/lib/professional-matcher';
 
 export const GapMatcher: React.FC = () => {
   const [gaps, setGaps] = useState('');
   const [loading, setLoading] = useState(false);
-  const [matches, setMatches] = useState<any[]>([]);
+  const [matches, setMatches] = useState<ProfessionalMatch[]>([]);
   const { user } = useAuth();
 
   const findMatches = async () => {
@@ -18,16 +19,17 @@ export const GapMatcher: React.FC = () => {
     try {
       const gapsList = gaps.split(',').map(g => g.trim()).filter(Boolean);
       
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: {
-          smeId: user.id,
-          gaps: gapsList,
-          smeDetails: user
-        }
+      const request: GapMatchRequest = {
+        type: 'gap_match',
+        smeId: user.id,
+        gaps: gapsList
+      };
+      const { data, error } = await supabase.functions.invoke<GapMatchResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
-      setMatches(data.matches || []);
+      setMatches(data?.matches || []);
     } catch (error) {
       console.error('Error finding matches:', error);
     } finally {
@@ -57,12 +59,13 @@ export const GapMatcher: React.FC = () => {
         {matches.length > 0 && (
           <div className="space-y-3">
             <h3 className="font-semibold">Recommended Professionals:</h3>
-            {matches.map((match, index) => (
-              <Card key={index} className="p-3">
+            {matches.map((match) => (
+              <Card key={match.id} className="p-3">
                 <div className="flex justify-between items-start">
                   <div>
                     <h4 className="font-medium">{match.full_name}</h4>
                     <p className="text-sm text-gray-600">{match.expertise_areas?.join(', ')}</p>
+                    {match.reasons[0] && <p className="text-xs text-gray-500">{match.reasons[0]}</p>}
                     <p className="text-xs text-green-600">Match Score: {(match.score * 100).toFixed(0)}%</p>
                   </div>
                   <Button size="sm">Contact</Button>
@@ -1,22 +1,91 @@
 import { useEntitlements } from '@/hooks/useEntitlements';
 import { Button } from '@/components/ui/button';
-import { Crown, Clock, X } from 'lucide-react';
+import { AlertTriangle, Crown, Clock, X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useState } from 'react';
 import { format, differenceInDays } from 'date-fns';
 
+// Subscription states set by the subscription-renewals job
+const LAPSED_STATUSES = ['past_due', 'grace'];
+
 export const GracePeriodBanner = () => {
   const navigate = useNavigate();
   const { entitlements, loading, inGracePeriod, hasFullAccess, isAdmin } = useEntitlements();
   const [dismissed, setDismissed] = useState(false);
 
-  // Don't show for admins, loading state, or if dismissed
-  if (loading || isAdmin || dismissed || !inGracePeriod) {
+  if (loading || isAdmin || dismissed) {
+    return null;
+  }
+
+  const subscription = entitlements?.subscription;
+  const lapsed = !!subscription && LAPSED_STATUSES.includes(subscription.status);
+  const expired = subscription?.status === 'expired' && !hasFullAccess;
+
+  if (lapsed || expired) {
+    const accessEnds = subscription?.gracePeriodEnd ? new Date(subscription.gracePeriodEnd) : null;
+    const daysLeft = accessEnds ? differenceInDays(accessEnds, new Date()) : 0;
+
+    return (
+      <div className="bg-gradient-to-r from-destructive/15 via-destructive/10 to-amber-500/10 border-b border-destructive/20">
+        <div className="container mx-auto px-4 py-3">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center justify-center w-8 h-8 rounded-full bg-destructive/20">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+              </div>
+              <div className="text-sm">
+                <span className="text-foreground font-medium">
+                  {expired
+                    ? 'Your subscription has expired.'
+                    : subscription?.status === 'grace'
+                      ? 'We could not renew your subscription.'
+                      : 'Your subscription renewal is overdue.'}
+                </span>
+                <span className="text-muted-foreground ml-2">
+                  {expired ? (
+                    <>Renew to restore premium features.</>
+                  ) : accessEnds && daysLeft > 0 ? (
+                    <>
+                      Access ends in <strong className="text-destructive">{daysLeft} days</strong>
+                      {' '}({format(accessEnds, 'MMM d, yyyy')})
+                    </>
+                  ) : accessEnds ? (
+                    <>Access ends on {format(accessEnds, 'MMMM d, yyyy')}</>
+                  ) : null}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={() => navigate('/subscription-plans')}
+                className="bg-accent hover:bg-accent/90 text-accent-foreground"
+              >
+                <Crown className="w-4 h-4 mr-1" />
+                Renew Now
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setDismissed(true)}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!inGracePeriod) {
     return null;
   }
 
   // Don't show if user has an active subscription
-  if (entitlements?.subscription?.status === 'active') {
+  if (subscription?.status === 'active') {
     return null;
   }
 
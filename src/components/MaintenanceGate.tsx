@@ -0,0 +1,44 @@
+import { useLocation } from 'react-router-dom';
+import { Wrench } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MAINTENANCE_MESSAGE } from '@/lib/platform-settings';
+
+interface MaintenanceGateProps {
+  children: React.ReactNode;
+}
+
+// Routes that stay open so admins can sign in and switch maintenance off
+const EXEMPT_ROUTES = [
+  '/auth',
+  '/forgot-password',
+  '/reset-password',
+  '/admin',
+];
+
+export function MaintenanceGate({ children }: MaintenanceGateProps) {
+  const { isAdmin } = useAuth();
+  const { settings } = usePlatformSettings();
+  const location = useLocation();
+
+  const isExemptRoute = EXEMPT_ROUTES.some(route => location.pathname.startsWith(route));
+
+  if (!settings.maintenance_mode || isAdmin || isExemptRoute) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="max-w-md w-full">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center">
+            <Wrench className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">Down for maintenance</CardTitle>
+          <CardDescription>{MAINTENANCE_MESSAGE}</CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { PriceNegotiation } from './PriceNegotiation';
+import { MilestoneList, type Milestone } from './orders/MilestoneList';
 import { MessageCircle, Clock, CheckCircle, XCircle, ArrowRight, DollarSign } from 'lucide-react';
 
 interface Negotiation {
@@ -22,6 +23,15 @@ interface Negotiation {
   platform_fee: number | null;
 }
 
+interface NegotiationOrder {
+  id: string;
+  negotiation_id: string | null;
+  status: string;
+  currency: string;
+  payment_schedule: string;
+  milestones: Milestone[];
+}
+
 interface NegotiationHistoryProps {
   serviceId?: string;
   userId?: string;
@@ -29,6 +39,7 @@ interface NegotiationHistoryProps {
 
 export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProps) => {
   const [negotiations, setNegotiations] = useState<Negotiation[]>([]);
+  const [ordersByNegotiation, setOrdersByNegotiation] = useState<Record<string, NegotiationOrder>>({});
   const [loading, setLoading] = useState(true);
   const [selectedNegotiation, setSelectedNegotiation] = useState<Negotiation | null>(null);
 
@@ -73,6 +84,25 @@ export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProp
       const { data, error } = await query;
       if (error) throw error;
       setNegotiations(data || []);
+
+      // Agreed negotiations turn into orders; pull their milestone progress
+      const agreedIds = (data || []).filter((n) => n.status === 'accepted').map((n) => n.id);
+      if (agreedIds.length) {
+        const { data: orders } = await supabase
+          .from('orders')
+          .select('id, negotiation_id, status, currency, payment_schedule, milestones:order_milestones(*)')
+          .in('negotiation_id', agreedIds)
+          .neq('status', 'cancelled');
+
+        const byNegotiation: Record<string, NegotiationOrder> = {};
+        for (const order of (orders || []) as NegotiationOrder[]) {
+          if (order.negotiation_id) {
+            order.milestones.sort((a, b) => a.position - b.position);
+            byNegotiation[order.negotiation_id] = order;
+          }
+        }
+        setOrdersByNegotiation(byNegotiation);
+      }
     } catch (error) {
       console.error('Error fetching negotiations:', error);
     } finally {
@@ -87,6 +117,7 @@ export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProp
       case 'rejected': return <XCircle className="w-4 h-4 text-red-500" />;
       case 'countered': return <MessageCircle className="w-4 h-4 text-blue-500" />;
       case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
+      case 'expired': return <XCircle className="w-4 h-4 text-muted-foreground" />;
       default: return <Clock className="w-4 h-4 text-muted-foreground" />;
     }
   };
@@ -98,6 +129,7 @@ export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProp
       case 'rejected': return 'bg-red-100 text-red-800';
       case 'countered': return 'bg-blue-100 text-blue-800';
       case 'completed': return 'bg-green-100 text-green-800';
+      case 'expired': return 'bg-muted text-muted-foreground';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -158,6 +190,15 @@ export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProp
                     Platform fee: K{negotiation.platform_fee.toLocaleString()}
                   </div>
                 )}
+
+                {ordersByNegotiation[negotiation.id]?.milestones.length > 0 && (
+                  <div className="mb-3">
+                    <MilestoneList
+                      milestones={ordersByNegotiation[negotiation.id].milestones}
+                      currency={ordersByNegotiation[negotiation.id].currency}
+                    />
+                  </div>
+                )}
                 
                 <div className="flex justify-between items-center">
                   <div className="text-xs text-muted-foreground">
@@ -180,6 +221,7 @@ export const NegotiationHistory = ({ serviceId, userId }: NegotiationHistoryProp
                           serviceTitle={negotiation.service_title}
                           providerId={negotiation.provider_id}
                           serviceId={negotiation.service_id || undefined}
+                          negotiationId={negotiation.id}
                           onNegotiationComplete={() => fetchNegotiations()}
                         />
                       </DialogContent>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, X, CheckCircle, Users, AlertCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Bell, X, CheckCircle, Users, AlertCircle, Settings } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
@@ -124,6 +125,10 @@ export const NotificationCenter: React.FC = () => {
       <SheetContent className="w-96">
         <SheetHeader>
           <SheetTitle>Notifications</SheetTitle>
+          <Link to="/settings/notifications" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <Settings className="h-4 w-4" />
+            Notification settings
+          </Link>
         </SheetHeader>
         <div className="mt-6 space-y-4">
           {notifications.length === 0 ? (
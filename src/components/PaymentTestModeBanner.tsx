@@ -1,7 +1,12 @@
+import { usePlatformSettings } from "@/hooks/usePlatformSettings";
+
 const clientToken = import.meta.env.VITE_PAYMENTS_CLIENT_TOKEN;
 
+// Shown while card payments use a Paddle test token or admins have switched
+// mobile money payments to the Lenco sandbox
 export function PaymentTestModeBanner() {
-  if (!clientToken?.startsWith("test_")) return null;
+  const { settings } = usePlatformSettings();
+  if (!clientToken?.startsWith("test_") && !settings.payment_test_mode) return null;
 
   return (
     <div className="w-full bg-orange-100 border-b border-orange-300 px-4 py-2 text-center text-sm text-orange-800">
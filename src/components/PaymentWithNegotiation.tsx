@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { MessageSquare, CreditCard, DollarSign } from 'lucide-react';
 import { LencoPayment } from './LencoPayment';
 import ZRATaxCalculator from './ZRATaxCalculator';
+import type { TaxBreakdown } from '@/lib/tax';
 import { useToast } from '@/hooks/use-toast';
 
 interface PaymentWithNegotiationProps {
@@ -23,7 +24,7 @@ export const PaymentWithNegotiation = ({
   const [proposedPrice, setProposedPrice] = useState('');
   const [showPayment, setShowPayment] = useState(false);
   const [agreed, setAgreed] = useState(false);
-  const [taxCalculation, setTaxCalculation] = useState<any>(null);
+  const [taxCalculation, setTaxCalculation] = useState<TaxBreakdown | null>(null);
   const { toast } = useToast();
 
   const handleCounterOffer = () => {
@@ -62,11 +63,12 @@ export const PaymentWithNegotiation = ({
           <div className="space-y-4">
             <ZRATaxCalculator
               amount={currentPrice}
-              transactionType="service"
+              category="service"
+              sellerId={providerId}
               onTaxCalculated={setTaxCalculation}
             />
             <LencoPayment
-              amount={taxCalculation?.netAmount?.toString() || currentPrice.toString()}
+              amount={(taxCalculation?.totalPayable ?? currentPrice).toString()}
               description={`Payment for ${serviceTitle} (incl. ZRA tax)`}
               onSuccess={() => {
                 setShowPayment(false);
@@ -87,7 +89,8 @@ export const PaymentWithNegotiation = ({
 
               <ZRATaxCalculator
                 amount={currentPrice}
-                transactionType="service"
+                category="service"
+                sellerId={providerId}
                 onTaxCalculated={setTaxCalculation}
               />
 
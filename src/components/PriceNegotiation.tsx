@@ -7,17 +7,32 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { LencoPayment } from './LencoPayment';
+import { OrderPayment } from './orders/OrderPayment';
 import ZRATaxCalculator from './ZRATaxCalculator';
+import type { TaxBreakdown, TaxLine } from '@/lib/tax';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { MessageCircle, DollarSign, CheckCircle, History, Send, Loader2 } from 'lucide-react';
+import {
+  awaitingParty,
+  formatTimeRemaining,
+  isNegotiationExpired,
+  isNegotiationOpen,
+  otherParty,
+  partyOf,
+  type NegotiationState,
+} from '@/lib/negotiation';
+import { MessageCircle, DollarSign, CheckCircle, History, Send, Loader2, Clock } from 'lucide-react';
 
 interface PriceNegotiationProps {
   initialPrice: number;
   serviceTitle: string;
   providerId: string;
   serviceId?: string;
+  // Package and add-ons the client picked; the server prices them again
+  packageId?: string | null;
+  addonIds?: string[];
+  negotiationId?: string;
   onNegotiationComplete?: (finalPrice: number) => void;
 }
 
@@ -30,11 +45,16 @@ interface NegotiationMessage {
   created_at: string;
 }
 
+type NegotiationRow = NegotiationState & { id: string };
+
 const PriceNegotiation = ({ 
   initialPrice, 
   serviceTitle, 
   providerId, 
   serviceId = 'default',
+  packageId,
+  addonIds,
+  negotiationId: existingNegotiationId,
   onNegotiationComplete 
 }: PriceNegotiationProps) => {
   const [currentPrice, setCurrentPrice] = useState(initialPrice);
@@ -43,15 +63,56 @@ const PriceNegotiation = ({
   const [status, setStatus] = useState<'negotiating' | 'agreed' | 'payment'>('negotiating');
   const [showPayment, setShowPayment] = useState(false);
   const [user, setUser] = useState<any>(null);
-  const [taxCalculation, setTaxCalculation] = useState<any>(null);
-  const [negotiationId, setNegotiationId] = useState<string | null>(null);
+  const [taxCalculation, setTaxCalculation] = useState<TaxBreakdown | null>(null);
+  const [negotiationId, setNegotiationId] = useState<string | null>(existingNegotiationId ?? null);
+  const [negotiation, setNegotiation] = useState<NegotiationRow | null>(null);
+  const [now, setNow] = useState(() => new Date());
   const [messages, setMessages] = useState<NegotiationMessage[]>([]);
   const [loading, setLoading] = useState(false);
+  const [order, setOrder] = useState<{
+    id: string;
+    agreed_price: number;
+    platform_fee: number | null;
+    tax_lines: TaxLine[];
+    tax_amount: number;
+    total_amount: number;
+    currency: string;
+    payment_schedule?: string;
+  } | null>(null);
   const { toast } = useToast();
 
   const managementFee = currentPrice * 0.03;
   const totalAmount = currentPrice + managementFee;
 
+  // Before the negotiation exists the viewer is a client answering the
+  // listing price, so it is their turn
+  const party = negotiation && user ? partyOf(negotiation, user.id) : 'client';
+  const isMyTurn = !negotiation || awaitingParty(negotiation) === party;
+  const isClosed = !!negotiation && negotiation.status !== 'accepted'
+    && (!isNegotiationOpen(negotiation) || isNegotiationExpired(negotiation, now));
+  const timeRemaining = negotiation ? formatTimeRemaining(negotiation.expires_at, now) : null;
+  const counterpartLabel = party === 'provider' ? 'Client' : 'Service Provider';
+
+  const applyNegotiation = (row: NegotiationRow) => {
+    setNegotiation(row);
+    setNegotiationId(row.id);
+    setCurrentPrice(Number(row.current_price));
+    if (row.status === 'accepted') {
+      setStatus('agreed');
+    }
+  };
+
+  // Follows the package picker until a negotiation has started
+  useEffect(() => {
+    if (!negotiation) setCurrentPrice(initialPrice);
+  }, [initialPrice, negotiation]);
+
+  // Keeps the countdown current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     const getUser = async () => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -91,11 +152,7 @@ const PriceNegotiation = ({
           filter: `id=eq.${negotiationId}`
         },
         (payload) => {
-          const updated = payload.new as any;
-          setCurrentPrice(updated.current_price);
-          if (updated.status === 'accepted') {
-            setStatus('agreed');
-          }
+          applyNegotiation(payload.new as NegotiationRow);
         }
       )
       .subscribe();
@@ -107,17 +164,21 @@ const PriceNegotiation = ({
 
   const checkExistingNegotiation = async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('negotiations')
-        .select('*')
-        .eq('service_id', serviceId)
-        .eq('client_id', userId)
-        .in('status', ['pending', 'countered'])
-        .single();
+      const query = existingNegotiationId
+        ? supabase.from('negotiations').select('*').eq('id', existingNegotiationId)
+        : supabase
+            .from('negotiations')
+            .select('*')
+            .eq('service_id', serviceId)
+            .or(`client_id.eq.${userId},provider_id.eq.${userId}`)
+            .in('status', ['pending', 'countered'])
+            .order('created_at', { ascending: false })
+            .limit(1);
+
+      const { data, error } = await query.maybeSingle();
 
       if (data && !error) {
-        setNegotiationId(data.id);
-        setCurrentPrice(data.current_price);
+        applyNegotiation(data);
         fetchMessages(data.id);
       }
     } catch (error) {
@@ -146,6 +207,8 @@ const PriceNegotiation = ({
         body: {
           action: 'create',
           serviceId,
+          packageId,
+          addonIds,
           providerId,
           serviceTitle,
           initialPrice,
@@ -156,7 +219,7 @@ const PriceNegotiation = ({
       if (error) throw error;
       const createdNegotiation = data?.data;
       if (!createdNegotiation?.id) throw new Error('Negotiation was not created');
-      setNegotiationId(createdNegotiation.id);
+      applyNegotiation(createdNegotiation);
       return createdNegotiation.id;
     } catch (error) {
       console.error('Error creating negotiation:', error);
@@ -195,14 +258,15 @@ const PriceNegotiation = ({
       });
 
       if (error) throw error;
-      
-      setCurrentPrice(price);
+      if (!data.success) throw new Error(data.error);
+
+      applyNegotiation(data.data);
       setProposedPrice('');
       setMessage('');
       
       toast({
         title: "Counter Offer Sent",
-        description: "Your price proposal has been sent to the service provider.",
+        description: `Your price proposal has been sent to the ${counterpartLabel.toLowerCase()}.`,
       });
     } catch (error) {
       console.error('Error sending counter offer:', error);
@@ -236,8 +300,9 @@ const PriceNegotiation = ({
       });
 
       if (error) throw error;
-      
-      setStatus('agreed');
+      if (!data.success) throw new Error(data.error);
+
+      applyNegotiation(data.data);
       toast({
         title: "Price Accepted",
         description: "The negotiation has been completed successfully!",
@@ -254,9 +319,32 @@ const PriceNegotiation = ({
     }
   };
 
-  const handleProceedToPayment = () => {
-    setStatus('payment');
-    setShowPayment(true);
+  const handleProceedToPayment = async () => {
+    if (!negotiationId) return;
+
+    // Payment is collected against an order so it can be held in escrow
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('negotiation-manager', {
+        body: { action: 'create_order', negotiationId }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      setOrder(data.data);
+      setStatus('payment');
+      setShowPayment(true);
+    } catch (error) {
+      console.error('Error creating order:', error);
+      toast({
+        title: "Error",
+        description: "Could not prepare the order for payment. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handlePaymentSuccess = () => {
@@ -265,7 +353,7 @@ const PriceNegotiation = ({
     onNegotiationComplete?.(currentPrice);
     toast({
       title: "Payment Successful",
-      description: "Your payment has been processed successfully!",
+      description: "Your payment is held in escrow until you accept the delivery.",
     });
   };
 
@@ -287,29 +375,32 @@ const PriceNegotiation = ({
           <CardContent>
             <div className="space-y-4 mb-6">
               <ZRATaxCalculator
-                amount={totalAmount}
-                transactionType="service"
+                amount={order ? Number(order.agreed_price) : currentPrice}
+                category="service"
+                sellerId={providerId}
+                taxLines={order?.tax_lines}
                 onTaxCalculated={setTaxCalculation}
               />
-              <div className="flex justify-between">
-                <span>Service Price:</span>
-                <span>K{currentPrice.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Management Fee (3%):</span>
-                <span>K{managementFee.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between font-bold text-lg border-t pt-2">
-                <span>Final Payment Amount:</span>
-                <span>K{taxCalculation?.netAmount?.toFixed(2) || totalAmount.toFixed(2)}</span>
-              </div>
             </div>
-            <LencoPayment
-              amount={taxCalculation?.netAmount?.toString() || totalAmount.toString()}
-              description={`Payment for ${serviceTitle} - ZRA tax compliant`}
-              onSuccess={handlePaymentSuccess}
-              onError={(error) => console.error('Payment failed:', error)}
-            />
+            {order?.payment_schedule === 'milestones' ? (
+              <div className="text-sm text-muted-foreground space-y-3">
+                <p>This order is paid per milestone. Fund each milestone from your orders page.</p>
+                <Button asChild variant="outline">
+                  <Link to="/orders">Go to Orders</Link>
+                </Button>
+              </div>
+            ) : order && (
+              <OrderPayment
+                orderId={order.id}
+                serviceTitle={serviceTitle}
+                agreedPrice={Number(order.agreed_price)}
+                platformFee={Number(order.platform_fee || 0)}
+                taxAmount={Number(order.tax_amount)}
+                totalAmount={Number(order.total_amount)}
+                currency={order.currency}
+                onSuccess={handlePaymentSuccess}
+              />
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -325,11 +416,33 @@ const PriceNegotiation = ({
               <div className="text-sm text-muted-foreground">
                 Management Fee (3%): K{managementFee.toFixed(2)} | Total: K{totalAmount.toFixed(2)}
               </div>
+              {negotiation && status === 'negotiating' && (
+                <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-sm">
+                  {isClosed ? (
+                    <Badge variant="destructive">
+                      {negotiation.status === 'rejected' ? 'Negotiation declined' : 'Negotiation expired'}
+                    </Badge>
+                  ) : (
+                    <>
+                      <Badge variant={isMyTurn ? 'default' : 'secondary'}>
+                        {isMyTurn ? 'Your turn' : `Waiting for the ${party ? otherParty(party) : 'other party'}`}
+                      </Badge>
+                      {timeRemaining && (
+                        <span className="flex items-center gap-1 text-muted-foreground">
+                          <Clock className="w-4 h-4" />
+                          Expires in {timeRemaining}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
             <ZRATaxCalculator
-              amount={totalAmount}
-              transactionType="service"
+              amount={currentPrice}
+              category="service"
+              sellerId={providerId}
               onTaxCalculated={setTaxCalculation}
             />
 
@@ -369,7 +482,7 @@ const PriceNegotiation = ({
               </div>
             )}
 
-            {status === 'negotiating' && (
+            {status === 'negotiating' && !isClosed && (
               <div className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="proposedPrice">Your Proposed Price (ZMW)</Label>
@@ -382,7 +495,7 @@ const PriceNegotiation = ({
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="message">Message to Service Provider</Label>
+                  <Label htmlFor="message">Message to {counterpartLabel}</Label>
                   <Textarea
                     id="message"
                     value={message}
@@ -394,7 +507,7 @@ const PriceNegotiation = ({
                 <div className="flex gap-2">
                   <Button 
                     onClick={handleCounterOffer} 
-                    disabled={!proposedPrice || !message || loading}
+                    disabled={!proposedPrice || !message || !isMyTurn || loading}
                   >
                     {loading ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -406,7 +519,7 @@ const PriceNegotiation = ({
                   <Button 
                     variant="outline" 
                     onClick={handleAcceptPrice}
-                    disabled={loading}
+                    disabled={!isMyTurn || loading}
                   >
                     Accept Current Price
                   </Button>
@@ -418,10 +531,18 @@ const PriceNegotiation = ({
               <div className="text-center space-y-4">
                 <CheckCircle className="w-16 h-16 text-green-500 mx-auto" />
                 <h3 className="text-xl font-bold">Price Agreed!</h3>
-                <p className="text-muted-foreground">Final amount: K{taxCalculation?.netAmount?.toFixed(2) || totalAmount.toFixed(2)}</p>
-                <Button onClick={handleProceedToPayment} className="bg-primary hover:bg-primary/90">
-                  Proceed to Payment
-                </Button>
+                <p className="text-muted-foreground">Final amount: K{(totalAmount + (taxCalculation?.addedTax || 0)).toFixed(2)}</p>
+                {party === 'provider' ? (
+                  <p className="text-sm text-muted-foreground">The client will be asked to pay to start the order.</p>
+                ) : order && !showPayment ? (
+                  <Button asChild variant="outline">
+                    <Link to="/orders">View Order</Link>
+                  </Button>
+                ) : (
+                  <Button onClick={handleProceedToPayment} disabled={loading} className="bg-primary hover:bg-primary/90">
+                    Proceed to Payment
+                  </Button>
+                )}
               </div>
             )}
           </CardContent>
@@ -2,8 +2,10 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { X, Crown, Zap } from 'lucide-react';
+import { X, Crown, Zap, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { useEntitlements } from '@/hooks/useEntitlements';
 import { getPlansForUserType, getUserTypeLabel } from '@/data/subscriptionPlans';
 import { SubscriptionCard } from '@/components/SubscriptionCard';
 
@@ -20,8 +22,63 @@ export const SubscriptionBanner = ({
 }: SubscriptionBannerProps) => {
   const [dismissed, setDismissed] = useState(false);
   const { user } = useAuth();
+  const { subscription, loading } = useEntitlements();
 
-  if (dismissed || !user) return null;
+  if (dismissed || !user || loading) return null;
+
+  // Subscribers don't need the upsell; lapsed ones are asked to renew instead
+  if (subscription && ['active', 'trialing'].includes(subscription.status)) return null;
+
+  if (subscription && ['past_due', 'grace', 'expired'].includes(subscription.status)) {
+    const accessEnds = subscription.gracePeriodEnd ? new Date(subscription.gracePeriodEnd) : null;
+
+    return (
+      <Card className="bg-gradient-to-r from-amber-50 to-red-50 border-amber-200">
+        <CardContent className={compact ? 'p-4' : 'p-6'}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <AlertTriangle className="h-5 w-5 text-amber-600" />
+              <div>
+                <p className="font-medium text-gray-900">
+                  {subscription.status === 'expired'
+                    ? `Your ${subscription.planName} subscription has expired`
+                    : `Renew your ${subscription.planName} subscription`}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {subscription.status === 'expired'
+                    ? 'Renew to restore premium features'
+                    : accessEnds
+                      ? `Premium access ends on ${format(accessEnds, 'MMM d, yyyy')}`
+                      : 'Your renewal payment is overdue'}
+                  {subscription.lastRenewalError && subscription.status !== 'expired'
+                    ? ` • Last attempt: ${subscription.lastRenewalError}`
+                    : ''}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                size="sm"
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+                onClick={() => window.location.href = '/subscription-plans'}
+              >
+                Renew Now
+              </Button>
+              {dismissible && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDismissed(true)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
 
   const plans = userType ? getPlansForUserType(userType) : [];
   const popularPlan = plans.find(plan => plan.popular);
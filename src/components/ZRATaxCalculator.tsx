@@ -1,91 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Calculator, Receipt } from 'lucide-react';
-
-interface TaxCalculation {
-  grossAmount: number;
-  taxRate: number;
-  taxAmount: number;
-  netAmount: number;
-  taxCategory: string;
-  currency: string;
-}
+import { useTaxBreakdown } from '@/hooks/useTaxRules';
+import { summarizeTaxLines, type TaxBreakdown, type TaxCategory, type TaxLine } from '@/lib/tax';
 
 interface ZRATaxCalculatorProps {
   amount: number;
-  transactionType: 'service' | 'sale' | 'payment';
+  category: TaxCategory;
   currency?: string;
-  onTaxCalculated?: (calculation: TaxCalculation) => void;
+  // The seller, whose VAT registration decides whether VAT applies
+  sellerId?: string | null;
+  // Tax already fixed on an order; shown as-is instead of recalculating
+  taxLines?: TaxLine[];
+  onTaxCalculated?: (breakdown: TaxBreakdown) => void;
 }
 
-const ZRATaxCalculator = ({ 
-  amount, 
-  transactionType, 
+const ZRATaxCalculator = ({
+  amount,
+  category,
   currency = 'ZMW',
-  onTaxCalculated 
+  sellerId,
+  taxLines,
+  onTaxCalculated
 }: ZRATaxCalculatorProps) => {
-  const [taxCalculation, setTaxCalculation] = useState<TaxCalculation | null>(null);
-
-  useEffect(() => {
-    const calculateTax = () => {
-      // ZRA tax rates (simplified)
-      const taxRates = {
-        'VAT': 0.16, // 16% VAT
-        'Income Tax': 0.35, // 35% for high earners
-        'Withholding Tax': 0.15, // 15% withholding
-        'Service Tax': 0.16 // 16% for services
-      };
-
-      let taxRate = 0;
-      let taxCategory = '';
-
-      // Determine tax based on transaction type
-      switch (transactionType) {
-        case 'service':
-          taxRate = taxRates['Service Tax'];
-          taxCategory = 'Service Tax';
-          break;
-        case 'sale':
-          taxRate = taxRates['VAT'];
-          taxCategory = 'VAT';
-          break;
-        case 'payment':
-          if (amount > 10000) { // High value payments
-            taxRate = taxRates['Withholding Tax'];
-            taxCategory = 'Withholding Tax';
-          } else {
-            taxRate = taxRates['VAT'];
-            taxCategory = 'VAT';
-          }
-          break;
-        default:
-          taxRate = taxRates['VAT'];
-          taxCategory = 'VAT';
-      }
-
-      const taxAmount = amount * taxRate;
-      const netAmount = amount - taxAmount;
+  const { breakdown: calculated } = useTaxBreakdown({ amount, category, currency, sellerId });
 
-      const calculation: TaxCalculation = {
-        grossAmount: amount,
-        taxRate,
-        taxAmount: Math.round(taxAmount * 100) / 100,
-        netAmount: Math.round(netAmount * 100) / 100,
-        taxCategory,
-        currency
-      };
-
-      setTaxCalculation(calculation);
-      onTaxCalculated?.(calculation);
-    };
+  const breakdown = useMemo(
+    () => (taxLines ? summarizeTaxLines(taxLines, amount, currency) : calculated),
+    [taxLines, amount, currency, calculated]
+  );
 
-    if (amount > 0) {
-      calculateTax();
+  useEffect(() => {
+    if (breakdown) {
+      onTaxCalculated?.(breakdown);
     }
-  }, [amount, transactionType, currency, onTaxCalculated]);
+  }, [breakdown, onTaxCalculated]);
 
-  if (!taxCalculation || amount <= 0) {
+  if (!breakdown || amount <= 0) {
     return null;
   }
 
@@ -96,27 +48,38 @@ const ZRATaxCalculator = ({
           <Calculator className="w-4 h-4" />
           ZRA Tax Calculation
           <Badge variant="secondary" className="ml-auto">
-            {taxCalculation.taxCategory}
+            {breakdown.lines.length ? breakdown.lines.map((l) => l.code).join(' + ') : 'No tax'}
           </Badge>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-2">
         <div className="flex justify-between text-sm">
-          <span>Gross Amount:</span>
-          <span className="font-medium">{currency} {taxCalculation.grossAmount.toFixed(2)}</span>
-        </div>
-        <div className="flex justify-between text-sm">
-          <span>Tax Rate:</span>
-          <span className="font-medium">{(taxCalculation.taxRate * 100).toFixed(1)}%</span>
-        </div>
-        <div className="flex justify-between text-sm text-red-600">
-          <span>Tax Amount:</span>
-          <span className="font-medium">-{currency} {taxCalculation.taxAmount.toFixed(2)}</span>
+          <span>Price:</span>
+          <span className="font-medium">{currency} {breakdown.grossAmount.toFixed(2)}</span>
         </div>
+        {breakdown.lines.map((line) => (
+          <div
+            key={line.rule_id}
+            className={`flex justify-between text-sm ${line.treatment === 'withheld' ? 'text-red-600' : ''}`}
+          >
+            <span>
+              {line.name} ({(line.rate * 100).toFixed(1)}%{line.treatment === 'withheld' ? ', withheld from seller' : ''}):
+            </span>
+            <span className="font-medium">
+              {line.treatment === 'withheld' ? '-' : '+'}{currency} {line.amount.toFixed(2)}
+            </span>
+          </div>
+        ))}
         <div className="border-t pt-2 flex justify-between font-semibold">
-          <span>Net Amount:</span>
-          <span className="text-green-600">{currency} {taxCalculation.netAmount.toFixed(2)}</span>
+          <span>You pay:</span>
+          <span>{currency} {breakdown.totalPayable.toFixed(2)}</span>
         </div>
+        {breakdown.withheldTax > 0 && (
+          <div className="flex justify-between text-sm">
+            <span>Seller receives:</span>
+            <span className="text-green-600">{currency} {(breakdown.netToSeller + breakdown.addedTax).toFixed(2)}</span>
+          </div>
+        )}
         <div className="flex items-center gap-1 text-xs text-gray-500 mt-2">
           <Receipt className="w-3 h-3" />
           <span>Compliant with ZRA regulations</span>
@@ -126,4 +89,4 @@ const ZRATaxCalculator = ({
   );
 };
 
-export default ZRATaxCalculator;
\ No newline at end of file
+export default ZRATaxCalculator;
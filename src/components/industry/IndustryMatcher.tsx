@@ -1,42 +1,84 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Target, Users, DollarSign, Handshake } from 'lucide-react';
+import { Loader2, Target, Users, DollarSign, Handshake, History } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { industries } from '@/data/onboardingOptions';
+import type { IndustryMatchItem, IndustryMatchResult, IndustryMatchRequest } from '@/lib/industry-match';
 
-interface IndustryMatch {
-  freelancers: string[];
-  funding: string[];
-  partnerships: string[];
+interface SavedSearch {
+  id: string;
+  criteria: IndustryMatchRequest;
+  results: IndustryMatchResult;
+  created_at: string;
 }
 
-interface MatchResult {
-  matches: IndustryMatch;
-  recommendations: {
-    priority: string;
-    nextSteps: string;
-    timeline: string;
-  };
-}
+// Where each kind of match is shown in full
+const itemLink = (item: IndustryMatchItem) =>
+  item.kind === 'funding' ? '/funding-hub' : item.kind === 'partner' ? null : `/profile/${item.id}`;
+
+const MatchList = ({ items, empty }: { items: IndustryMatchItem[]; empty: string }) => (
+  <div className="space-y-3">
+    {items.length === 0 && <p className="text-sm text-muted-foreground">{empty}</p>}
+    {items.map((item) => {
+      const link = itemLink(item);
+      return (
+        <div key={`${item.kind}-${item.id}`} className="space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            {link ? (
+              <Link to={link} className="font-medium hover:underline">{item.label}</Link>
+            ) : (
+              <span className="font-medium">{item.label}</span>
+            )}
+            <Badge variant="secondary">{item.score}%</Badge>
+          </div>
+          {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+          {item.reasons.length > 0 && (
+            <p className="text-xs text-muted-foreground">{item.reasons.slice(0, 2).join(' · ')}</p>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
 
 const IndustryMatcher = () => {
   const [industry, setIndustry] = useState('');
   const [userType, setUserType] = useState('');
   const [location, setLocation] = useState('');
-  const [matches, setMatches] = useState<MatchResult | null>(null);
+  const [matches, setMatches] = useState<IndustryMatchResult | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
   const [loading, setLoading] = useState(false);
 
-  const industries = [
-    'Agriculture', 'Technology', 'Manufacturing', 'Healthcare', 
-    'Education', 'Tourism', 'Mining', 'Construction', 'Finance'
-  ];
-
   const userTypes = [
     'Entrepreneur', 'Investor', 'Freelancer', 'Partnership Seeker'
   ];
 
+  const fetchSavedSearches = async () => {
+    const { data } = await supabase
+      .from('matcher_runs')
+      .select('id, criteria, results, created_at')
+      .eq('matcher', 'industry')
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    setSavedSearches((data || []) as unknown as SavedSearch[]);
+  };
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  const openSavedSearch = (search: SavedSearch) => {
+    setIndustry(search.criteria.industry);
+    setUserType(search.criteria.userType);
+    setLocation(search.criteria.location || '');
+    setMatches(search.results);
+  };
+
   const handleMatch = async () => {
     if (!industry || !userType) return;
     
@@ -48,6 +90,7 @@ const IndustryMatcher = () => {
 
       if (error) throw error;
       setMatches(data);
+      if (data.runId) fetchSavedSearches();
     } catch (error) {
       console.error('Error getting industry matches:', error);
     } finally {
@@ -72,7 +115,7 @@ const IndustryMatcher = () => {
               </SelectTrigger>
               <SelectContent>
                 {industries.map((ind) => (
-                  <SelectItem key={ind} value={ind.toLowerCase()}>
+                  <SelectItem key={ind} value={ind}>
                     {ind}
                   </SelectItem>
                 ))}
@@ -96,6 +139,20 @@ const IndustryMatcher = () => {
               {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Find Matches'}
             </Button>
           </div>
+
+          {savedSearches.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <History className="w-4 h-4 text-muted-foreground" />
+              {savedSearches.map((search) => (
+                <Button key={search.id} variant="outline" size="sm" onClick={() => openSavedSearch(search)}>
+                  {search.criteria.industry}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {new Date(search.created_at).toLocaleDateString()}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -109,13 +166,7 @@ const IndustryMatcher = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                {matches.matches.freelancers.map((freelancer, index) => (
-                  <Badge key={index} variant="secondary" className="block w-fit">
-                    {freelancer}
-                  </Badge>
-                ))}
-              </div>
+              <MatchList items={matches.matches.freelancers} empty="No freelancers list this industry yet." />
             </CardContent>
           </Card>
 
@@ -127,13 +178,7 @@ const IndustryMatcher = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                {matches.matches.funding.map((fund, index) => (
-                  <Badge key={index} variant="outline" className="block w-fit">
-                    {fund}
-                  </Badge>
-                ))}
-              </div>
+              <MatchList items={matches.matches.funding} empty="No open funding targets this industry right now." />
             </CardContent>
           </Card>
 
@@ -145,13 +190,18 @@ const IndustryMatcher = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="space-y-2">
-                {matches.matches.partnerships.map((partner, index) => (
-                  <Badge key={index} variant="default" className="block w-fit">
-                    {partner}
-                  </Badge>
-                ))}
-              </div>
+              <MatchList items={matches.matches.partnerships} empty="No partners found for this industry yet." />
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-3">
+            <CardHeader>
+              <CardTitle className="text-base">Recommended next steps</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p><span className="font-medium">Priority:</span> {matches.recommendations.priority}</p>
+              <p>{matches.recommendations.nextSteps}</p>
+              <p className="text-muted-foreground">{matches.recommendations.timeline}</p>
             </CardContent>
           </Card>
         </div>
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { MessageCircle, Send, Bot, User, X } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import type { MarketplaceAssistantRequest, MarketplaceAssistantResponse } from '@/lib/professional-matcher';
 
 interface Message {
   id: string;
@@ -52,13 +53,14 @@ const AIAssistant = ({ isOpen, onClose, context }: AIAssistantProps) => {
     setIsLoading(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: {
-          type: 'marketplace_assistant',
-          message,
-          context,
-          conversationHistory: messages.slice(-5) // Last 5 messages for context
-        }
+      const request: MarketplaceAssistantRequest = {
+        type: 'marketplace_assistant',
+        message,
+        context,
+        conversationHistory: messages.slice(-5) // Last 5 messages for context
+      };
+      const { data, error } = await supabase.functions.invoke<MarketplaceAssistantResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
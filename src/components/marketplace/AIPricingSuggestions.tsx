@@ -6,16 +6,8 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { TrendingUp, DollarSign, BarChart3, Lightbulb } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-
-interface PricingSuggestion {
-  suggestedPrice: number;
-  minPrice: number;
-  maxPrice: number;
-  marketAverage: number;
-  confidence: number;
-  factors: string[];
-  reasoning: string;
-}
+import { toast } from 'sonner';
+import type { MarketData, PricingAnalysisRequest, PricingAnalysisResponse, PricingSuggestion } from '@/lib/professional-matcher';
 
 interface AIPricingSuggestionsProps {
   productType?: string;
@@ -32,7 +24,7 @@ const AIPricingSuggestions = ({
   const [location, setLocation] = useState('Lusaka');
   const [suggestions, setSuggestions] = useState<PricingSuggestion | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [marketData, setMarketData] = useState({
+  const [marketData, setMarketData] = useState<MarketData>({
     averagePrice: 0,
     priceRange: { min: 0, max: 0 },
     competitorCount: 0
@@ -43,39 +35,27 @@ const AIPricingSuggestions = ({
     
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: {
-          type: 'pricing_analysis',
-          productType,
-          category,
-          description,
-          location
-        }
+      const request: PricingAnalysisRequest = {
+        type: 'pricing_analysis',
+        productType: productType === 'product' ? 'product' : 'service',
+        category,
+        description,
+        location
+      };
+      const { data, error } = await supabase.functions.invoke<PricingAnalysisResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
 
-      if (data?.pricing) {
-        setSuggestions(data.pricing);
-        setMarketData(data.marketData || marketData);
+      setSuggestions(data?.pricing ?? null);
+      if (data?.marketData) setMarketData(data.marketData);
+      if (data && !data.pricing) {
+        toast.info('There are no comparable listings to price against yet.');
       }
     } catch (error) {
       console.error('Pricing analysis error:', error);
-      // Fallback mock data
-      setSuggestions({
-        suggestedPrice: 1200,
-        minPrice: 800,
-        maxPrice: 1800,
-        marketAverage: 1100,
-        confidence: 0.85,
-        factors: ['Market demand', 'Service complexity', 'Location premium', 'Experience level'],
-        reasoning: 'Based on similar services in Lusaka, your pricing should be competitive while reflecting quality.'
-      });
-      setMarketData({
-        averagePrice: 1100,
-        priceRange: { min: 600, max: 2000 },
-        competitorCount: 23
-      });
+      toast.error('Pricing analysis is unavailable right now. Please try again.');
     } finally {
       setIsLoading(false);
     }
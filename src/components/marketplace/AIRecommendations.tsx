@@ -4,21 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Sparkles, TrendingUp, Users, Clock } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-
-interface Recommendation {
-  id: string;
-  type: 'product' | 'service' | 'professional';
-  title: string;
-  description: string;
-  price: number;
-  rating: number;
-  image: string;
-  reason: string;
-  confidence: number;
-}
+import type {
+  MatcherUserProfile,
+  Recommendation,
+  RecommendationsRequest,
+  RecommendationsResponse
+} from '@/lib/professional-matcher';
 
 interface AIRecommendationsProps {
-  userProfile?: any;
+  userProfile?: MatcherUserProfile | null;
   searchHistory?: string[];
   onSelectRecommendation: (recommendation: Recommendation) => void;
 }
@@ -39,47 +33,22 @@ const AIRecommendations = ({
   const fetchRecommendations = async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: {
-          type: 'marketplace_recommendations',
-          userProfile,
-          searchHistory,
-          recommendationType: activeTab
-        }
+      const request: RecommendationsRequest = {
+        type: 'marketplace_recommendations',
+        userProfile,
+        searchHistory,
+        recommendationType: activeTab
+      };
+      const { data, error } = await supabase.functions.invoke<RecommendationsResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
 
-      if (data?.recommendations) {
-        setRecommendations(data.recommendations);
-      }
+      setRecommendations(data?.recommendations ?? []);
     } catch (error) {
       console.error('Failed to fetch recommendations:', error);
-      // Fallback mock data
-      setRecommendations([
-        {
-          id: '1',
-          type: 'service',
-          title: 'Business Registration Service',
-          description: 'Complete PACRA registration with legal support',
-          price: 1500,
-          rating: 4.8,
-          image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop',
-          reason: 'Based on your business setup needs',
-          confidence: 0.92
-        },
-        {
-          id: '2',
-          type: 'professional',
-          title: 'Tax Consultant - Sarah Mwanza',
-          description: 'Expert in SME tax compliance and planning',
-          price: 250,
-          rating: 4.9,
-          image: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop',
-          reason: 'Highly rated in your area',
-          confidence: 0.88
-        }
-      ]);
+      setRecommendations([]);
     } finally {
       setIsLoading(false);
     }
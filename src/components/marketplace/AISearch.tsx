@@ -5,10 +5,11 @@ import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { Search, Sparkles, X } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import type { MarketplaceSearchRequest, MarketplaceSearchResponse, Recommendation } from '@/lib/professional-matcher';
 
 interface AISearchProps {
   onSearch: (query: string, filters: any) => void;
-  onAIRecommendations: (recommendations: any[]) => void;
+  onAIRecommendations: (recommendations: Recommendation[]) => void;
 }
 
 const AISearch = ({ onSearch, onAIRecommendations }: AISearchProps) => {
@@ -27,12 +28,13 @@ const AISearch = ({ onSearch, onAIRecommendations }: AISearchProps) => {
     
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: { 
-          query,
-          type: 'marketplace_search',
-          filters: activeFilters
-        }
+      const request: MarketplaceSearchRequest = {
+        query,
+        type: 'marketplace_search',
+        filters: activeFilters
+      };
+      const { data, error } = await supabase.functions.invoke<MarketplaceSearchResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
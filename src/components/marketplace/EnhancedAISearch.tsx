@@ -5,11 +5,12 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Search, Sparkles, X, Mic, Loader2, TrendingUp, History, Lightbulb } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import type { MarketplaceSearchRequest, MarketplaceSearchResponse, Recommendation } from '@/lib/professional-matcher';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface EnhancedAISearchProps {
   onSearch: (query: string, filters: any) => void;
-  onAIRecommendations: (recommendations: any[]) => void;
+  onAIRecommendations: (recommendations: Recommendation[]) => void;
 }
 
 const EnhancedAISearch = ({ onSearch, onAIRecommendations }: EnhancedAISearchProps) => {
@@ -57,13 +58,14 @@ const EnhancedAISearch = ({ onSearch, onAIRecommendations }: EnhancedAISearchPro
     saveSearch(query);
     
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: { 
-          query,
-          type: 'marketplace_search',
-          filters: activeFilters,
-          userId: user?.id
-        }
+      const request: MarketplaceSearchRequest = {
+        query,
+        type: 'marketplace_search',
+        filters: activeFilters,
+        userId: user?.id
+      };
+      const { data, error } = await supabase.functions.invoke<MarketplaceSearchResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
@@ -7,8 +7,10 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { ServiceProviderCard } from './ServiceProviderCard';
 import { PriceNegotiation } from '@/components/PriceNegotiation';
+import { PackagePicker, type PackageSelection } from './PackagePicker';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
+import { formatRating } from '@/lib/reviews';
 import { useToast } from '@/hooks/use-toast';
 import { Search, Filter, Grid, List, Loader2, Users, Building, BookOpen, Star, MapPin, Clock, MessageSquare } from 'lucide-react';
 
@@ -68,6 +70,7 @@ export const IntegratedMarketplace = () => {
   const [viewMode, setViewMode] = useState('grid');
   const [selectedService, setSelectedService] = useState<TransformedService | null>(null);
   const [showNegotiation, setShowNegotiation] = useState(false);
+  const [packageSelection, setPackageSelection] = useState<PackageSelection | null>(null);
   const [providerOptions, setProviderOptions] = useState<TransformedService[] | null>(null);
   const [providerOptionsContext, setProviderOptionsContext] = useState<TransformedService | null>(null);
   const [optionsLoading, setOptionsLoading] = useState(false);
@@ -282,7 +285,7 @@ export const IntegratedMarketplace = () => {
                       <p className="font-semibold truncate">{option.provider}</p>
                       <div className="flex items-center gap-1 text-sm">
                         <Star className="w-4 h-4 text-yellow-500 fill-current" />
-                        <span>{option.rating}</span>
+                        <span>{formatRating(option.rating, option.reviews) ?? 'New'}</span>
                         <span className="text-muted-foreground">({option.reviews})</span>
                       </div>
                     </div>
@@ -314,6 +317,7 @@ export const IntegratedMarketplace = () => {
           variant="outline" 
           onClick={() => {
             setSelectedService(null);
+            setPackageSelection(null);
             if (!providerOptions) setProviderOptionsContext(null);
           }}
           className="mb-6"
@@ -380,11 +384,22 @@ export const IntegratedMarketplace = () => {
                     <span className="text-muted-foreground flex items-center gap-1">
                       <Star className="w-4 h-4" /> Rating:
                     </span>
-                    <span>{selectedService.rating} ⭐ ({selectedService.reviews} reviews)</span>
+                    <span>
+                      {selectedService.reviews
+                        ? `${formatRating(selectedService.rating, selectedService.reviews)} ⭐ (${selectedService.reviews} reviews)`
+                        : 'No reviews yet'}
+                    </span>
                   </div>
-                  <div className="border-t pt-4">
-                    <div className="text-3xl font-bold text-primary mb-4">
-                      {formatPrice(selectedService)}
+                  <div className="border-t pt-4 space-y-4">
+                    <PackagePicker
+                      serviceId={selectedService.id}
+                      currency={selectedService.currency}
+                      onChange={setPackageSelection}
+                    />
+                    <div className="text-3xl font-bold text-primary">
+                      {packageSelection
+                        ? `${selectedService.currency} ${packageSelection.quote.price.toLocaleString()}`
+                        : formatPrice(selectedService)}
                     </div>
                     <div className="flex gap-2">
                       <Dialog open={showNegotiation} onOpenChange={setShowNegotiation}>
@@ -395,10 +410,12 @@ export const IntegratedMarketplace = () => {
                         </DialogTrigger>
                         <DialogContent className="max-w-2xl">
                           <PriceNegotiation
-                            initialPrice={selectedService.price}
+                            initialPrice={packageSelection?.quote.price ?? selectedService.price}
                             serviceTitle={selectedService.title}
                             providerId={selectedService.providerId}
                             serviceId={selectedService.id}
+                            packageId={packageSelection?.packageId}
+                            addonIds={packageSelection?.addonIds}
                             onNegotiationComplete={() => setShowNegotiation(false)}
                           />
                         </DialogContent>
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Check, Clock, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  formatDeliveryDays,
+  formatRevisions,
+  PACKAGE_TIER_LABELS,
+  quotePackage,
+  sortPackages,
+  type PackageQuote,
+  type ServiceAddon,
+  type ServicePackage,
+} from '@/lib/service-catalogue';
+
+export interface PackageSelection {
+  packageId: string;
+  addonIds: string[];
+  quote: PackageQuote;
+}
+
+interface PackagePickerProps {
+  serviceId: string;
+  currency: string;
+  // Called with null when the service has no packages
+  onChange: (selection: PackageSelection | null) => void;
+}
+
+const toSelection = (
+  chosen: ServicePackage | undefined,
+  availableAddons: ServiceAddon[],
+  addonIds: string[]
+): PackageSelection | null =>
+  chosen
+    ? { packageId: chosen.id, addonIds, quote: quotePackage(chosen, availableAddons, addonIds) }
+    : null;
+
+export const PackagePicker = ({ serviceId, currency, onChange }: PackagePickerProps) => {
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [addons, setAddons] = useState<ServiceAddon[]>([]);
+  const [packageId, setPackageId] = useState<string | null>(null);
+  const [addonIds, setAddonIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      const [{ data: packageRows }, { data: addonRows }] = await Promise.all([
+        supabase.from('service_packages').select('*').eq('service_id', serviceId),
+        supabase.from('service_addons').select('*').eq('service_id', serviceId).eq('is_active', true).order('position'),
+      ]);
+      const sorted = sortPackages((packageRows || []) as ServicePackage[]);
+      const available = (addonRows || []) as ServiceAddon[];
+      setPackages(sorted);
+      setAddons(available);
+      setPackageId(sorted[0]?.id ?? null);
+      setAddonIds([]);
+      onChange(toSelection(sorted[0], available, []));
+    };
+    load();
+  }, [serviceId, onChange]);
+
+  const select = (nextPackageId: string | null, nextAddonIds: string[]) => {
+    setPackageId(nextPackageId);
+    setAddonIds(nextAddonIds);
+    onChange(toSelection(packages.find((p) => p.id === nextPackageId), addons, nextAddonIds));
+  };
+
+  if (packages.length === 0) return null;
+
+  const toggleAddon = (id: string, checked: boolean) =>
+    select(packageId, checked ? [...addonIds, id] : addonIds.filter((a) => a !== id));
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={packageId ?? undefined} onValueChange={(value) => select(value, addonIds)}>
+        <TabsList className="w-full">
+          {packages.map((pkg) => (
+            <TabsTrigger key={pkg.id} value={pkg.id} className="flex-1">
+              {PACKAGE_TIER_LABELS[pkg.tier]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {packages.map((pkg) => (
+          <TabsContent key={pkg.id} value={pkg.id} className="space-y-2">
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="font-semibold">{pkg.name}</p>
+              <p className="font-bold text-primary">{currency} {Number(pkg.price).toLocaleString()}</p>
+            </div>
+            {pkg.description && <p className="text-sm text-muted-foreground">{pkg.description}</p>}
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              <span className="flex items-center gap-1"><Clock className="w-4 h-4" />{formatDeliveryDays(pkg.delivery_days)}</span>
+              <span className="flex items-center gap-1"><RefreshCw className="w-4 h-4" />{formatRevisions(pkg.revisions)}</span>
+            </div>
+            {pkg.features.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {pkg.features.map((feature) => (
+                  <li key={feature} className="flex items-center gap-2">
+                    <Check className="w-4 h-4 text-green-600" />
+                    {feature}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      {addons.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Add-ons</p>
+          {addons.map((addon) => (
+            <div key={addon.id} className="flex items-start gap-2">
+              <Checkbox
+                id={`addon-${addon.id}`}
+                checked={addonIds.includes(addon.id)}
+                onCheckedChange={(checked) => toggleAddon(addon.id, checked === true)}
+              />
+              <Label htmlFor={`addon-${addon.id}`} className="flex-1 font-normal leading-snug">
+                <span className="flex justify-between gap-2">
+                  <span>{addon.title}</span>
+                  <span className="text-muted-foreground">
+                    +{currency} {Number(addon.price).toLocaleString()}
+                    {addon.extra_delivery_days > 0 && `, +${addon.extra_delivery_days}d`}
+                  </span>
+                </span>
+                {addon.description && <span className="block text-xs text-muted-foreground">{addon.description}</span>}
+              </Label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PackagePicker;
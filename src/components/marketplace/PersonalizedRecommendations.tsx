@@ -9,22 +9,7 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface Recommendation {
-  id: string;
-  type: 'product' | 'service' | 'professional';
-  title: string;
-  description: string;
-  price: number;
-  currency: string;
-  rating: number;
-  image: string;
-  reason: string;
-  confidence: number;
-  provider?: string;
-  category?: string;
-  tags?: string[];
-}
+import type { Recommendation, RecommendationsRequest, RecommendationsResponse } from '@/lib/professional-matcher';
 
 interface UserProfile {
   account_type: string | null;
@@ -76,128 +61,27 @@ const PersonalizedRecommendations = ({ onSelectRecommendation }: PersonalizedRec
   const fetchRecommendations = async (profile?: UserProfile) => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('ai-professional-matcher', {
-        body: {
-          type: 'personalized_recommendations',
-          userProfile: profile || userProfile,
-          recommendationType: activeTab,
-          userId: user?.id
-        }
+      const request: RecommendationsRequest = {
+        type: 'personalized_recommendations',
+        userProfile: profile || userProfile,
+        recommendationType: activeTab,
+        userId: user?.id
+      };
+      const { data, error } = await supabase.functions.invoke<RecommendationsResponse>('ai-professional-matcher', {
+        body: request
       });
 
       if (error) throw error;
 
-      if (data?.recommendations) {
-        setRecommendations(data.recommendations);
-      } else {
-        // Fallback with enhanced mock data
-        setRecommendations(getMockRecommendations(profile));
-      }
+      setRecommendations(data?.recommendations ?? []);
     } catch (error) {
       console.error('Failed to fetch recommendations:', error);
-      setRecommendations(getMockRecommendations(userProfile || undefined));
+      setRecommendations([]);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const getMockRecommendations = (profile?: UserProfile): Recommendation[] => {
-    const baseRecommendations: Recommendation[] = [
-      {
-        id: '1',
-        type: 'service',
-        title: 'Business Registration & PACRA Filing',
-        description: 'Complete business registration with PACRA, including name reservation and certificate processing',
-        price: 1500,
-        currency: 'ZMW',
-        rating: 4.9,
-        image: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=400&h=300&fit=crop',
-        reason: profile?.account_type === 'sme' ? 'Essential for your business setup' : 'Popular among new businesses',
-        confidence: 0.95,
-        provider: 'Zambia Business Services',
-        category: 'Legal',
-        tags: ['Registration', 'PACRA', 'Legal']
-      },
-      {
-        id: '2',
-        type: 'professional',
-        title: 'Expert Tax Consultant',
-        description: 'Certified tax advisor specializing in SME compliance and ZRA filings',
-        price: 350,
-        currency: 'ZMW',
-        rating: 4.8,
-        image: 'https://images.unsplash.com/photo-1560250097-0b93528c311a?w=400&h=300&fit=crop',
-        reason: 'Highly rated in your area',
-        confidence: 0.88,
-        provider: 'Sarah Mwanza, CPA',
-        category: 'Accounting',
-        tags: ['Tax', 'ZRA', 'Compliance']
-      },
-      {
-        id: '3',
-        type: 'service',
-        title: 'Digital Marketing Package',
-        description: 'Complete digital presence setup including social media, SEO, and Google Business',
-        price: 2500,
-        currency: 'ZMW',
-        rating: 4.7,
-        image: 'https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=400&h=300&fit=crop',
-        reason: 'Boost your online visibility',
-        confidence: 0.82,
-        provider: 'DigiGrowth Agency',
-        category: 'Marketing',
-        tags: ['Digital', 'Social Media', 'SEO']
-      },
-      {
-        id: '4',
-        type: 'service',
-        title: 'Business Plan Development',
-        description: 'Professional business plan creation for funding applications and strategic planning',
-        price: 3000,
-        currency: 'ZMW',
-        rating: 4.9,
-        image: 'https://images.unsplash.com/photo-1454165804606-c3d57bc86b40?w=400&h=300&fit=crop',
-        reason: profile?.account_type === 'sme' ? 'Perfect for funding applications' : 'Strategic planning essential',
-        confidence: 0.90,
-        provider: 'BizPlan Pro',
-        category: 'Consulting',
-        tags: ['Business Plan', 'Strategy', 'Funding']
-      },
-      {
-        id: '5',
-        type: 'professional',
-        title: 'IT Solutions Specialist',
-        description: 'Full-stack developer and IT consultant for business automation and systems',
-        price: 500,
-        currency: 'ZMW',
-        rating: 4.6,
-        image: 'https://images.unsplash.com/photo-1519389950473-47ba0277781c?w=400&h=300&fit=crop',
-        reason: 'Automate your business processes',
-        confidence: 0.78,
-        provider: 'TechSolutions ZM',
-        category: 'IT Services',
-        tags: ['Development', 'Automation', 'Systems']
-      },
-      {
-        id: '6',
-        type: 'service',
-        title: 'Legal Compliance Audit',
-        description: 'Comprehensive review of your business legal compliance and documentation',
-        price: 2000,
-        currency: 'ZMW',
-        rating: 4.8,
-        image: 'https://images.unsplash.com/photo-1589829545856-d10d557cf95f?w=400&h=300&fit=crop',
-        reason: 'Ensure your business is fully compliant',
-        confidence: 0.85,
-        provider: 'LegalEase Zambia',
-        category: 'Legal',
-        tags: ['Legal', 'Compliance', 'Audit']
-      }
-    ];
-
-    return baseRecommendations;
-  };
-
   const getTabIcon = (tab: string) => {
     switch (tab) {
       case 'for-you': return <Target className="w-4 h-4" />;
@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Briefcase, Loader2, Pause, Play, Plus, Send } from 'lucide-react';
+import { ServiceEditor, type CatalogueService } from './ServiceEditor';
+import {
+  formatDeliveryDays,
+  PACKAGE_TIER_LABELS,
+  SERVICE_STATUS_LABELS,
+  SUBMITTABLE_STATUSES,
+  type ServiceStatus,
+} from '@/lib/service-catalogue';
+
+const getStatusColor = (service: CatalogueService) => {
+  if (service.status === 'published' && service.paused_at) return 'bg-muted text-muted-foreground';
+  switch (service.status) {
+    case 'draft': return 'bg-yellow-100 text-yellow-800';
+    case 'pending_review': return 'bg-blue-100 text-blue-800';
+    case 'published': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+export const ServiceCatalogueManager = () => {
+  const { user } = useAuth();
+  const [services, setServices] = useState<CatalogueService[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // undefined = closed, null = new service
+  const [editing, setEditing] = useState<CatalogueService | null | undefined>(undefined);
+  const [pausing, setPausing] = useState<CatalogueService | null>(null);
+  const [pauseUntil, setPauseUntil] = useState('');
+  const [pauseMessage, setPauseMessage] = useState('');
+
+  const fetchServices = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('marketplace-manager', {
+        body: { action: 'get_provider_services' },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      setServices(data.data || []);
+    } catch (error) {
+      console.error('Error fetching services:', error);
+      toast.error('Failed to load your services');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    fetchServices();
+  }, [user]);
+
+  const runAction = async (service: CatalogueService, action: string, extra: Record<string, unknown> = {}) => {
+    setBusyId(service.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('marketplace-manager', {
+        body: { action, serviceId: service.id, ...extra },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      fetchServices();
+      return true;
+    } catch (error) {
+      console.error(`Service ${action} error:`, error);
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSubmit = async (service: CatalogueService) => {
+    if (await runAction(service, 'submit_for_review')) {
+      toast.success('Submitted for review');
+    }
+  };
+
+  const handlePause = async () => {
+    if (!pausing) return;
+    const ok = await runAction(pausing, 'pause', {
+      pausedUntil: pauseUntil ? new Date(pauseUntil).toISOString() : null,
+      pauseMessage,
+    });
+    if (ok) {
+      toast.success('Service paused');
+      setPausing(null);
+    }
+  };
+
+  const openPause = (service: CatalogueService) => {
+    setPausing(service);
+    setPauseUntil('');
+    setPauseMessage('');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setEditing(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New service
+        </Button>
+      </div>
+
+      {services.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Briefcase className="w-10 h-10 mx-auto mb-3" />
+            You haven't listed any services yet
+          </CardContent>
+        </Card>
+      ) : (
+        services.map((service) => {
+          const paused = service.status === 'published' && !!service.paused_at;
+          return (
+            <Card key={service.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-lg">{service.title}</CardTitle>
+                    <p className="text-sm text-muted-foreground capitalize">{service.category}</p>
+                  </div>
+                  <Badge className={getStatusColor(service)}>
+                    {paused ? 'Paused' : SERVICE_STATUS_LABELS[service.status as ServiceStatus] || service.status}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {service.packages.length > 0 && (
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {service.packages.map((pkg) => (
+                      <Badge key={pkg.id} variant="outline">
+                        {PACKAGE_TIER_LABELS[pkg.tier]}: {service.currency} {Number(pkg.price).toLocaleString()} · {formatDeliveryDays(pkg.delivery_days)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {service.status === 'rejected' && service.moderation_note && (
+                  <p className="text-sm rounded-md bg-red-50 text-red-800 p-3">{service.moderation_note}</p>
+                )}
+                {paused && (
+                  <p className="text-sm text-muted-foreground">
+                    Hidden from the marketplace
+                    {service.paused_until && ` until ${format(new Date(service.paused_until), 'MMM d, yyyy HH:mm')}`}
+                    {service.pause_message && `: "${service.pause_message}"`}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setEditing(service)}>
+                    Edit
+                  </Button>
+                  {SUBMITTABLE_STATUSES.includes(service.status as ServiceStatus) && (
+                    <Button size="sm" onClick={() => handleSubmit(service)} disabled={busyId === service.id}>
+                      <Send className="w-4 h-4 mr-1" />
+                      Submit for review
+                    </Button>
+                  )}
+                  {service.status === 'published' && !paused && (
+                    <Button size="sm" variant="outline" onClick={() => openPause(service)} disabled={busyId === service.id}>
+                      <Pause className="w-4 h-4 mr-1" />
+                      Pause
+                    </Button>
+                  )}
+                  {paused && (
+                    <Button size="sm" onClick={() => runAction(service, 'resume')} disabled={busyId === service.id}>
+                      <Play className="w-4 h-4 mr-1" />
+                      Resume
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <Dialog open={editing !== undefined} onOpenChange={(open) => !open && setEditing(undefined)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.title}` : 'New service'}</DialogTitle>
+            <DialogDescription>
+              {editing?.status === 'published'
+                ? 'Changes to packages apply to new negotiations straight away.'
+                : 'Save a draft, then submit it for review to list it on the marketplace.'}
+            </DialogDescription>
+          </DialogHeader>
+          {editing !== undefined && (
+            <ServiceEditor
+              key={editing?.id || 'new'}
+              service={editing}
+              onSaved={() => {
+                setEditing(undefined);
+                fetchServices();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!pausing} onOpenChange={(open) => !open && setPausing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pause {pausing?.title}</DialogTitle>
+            <DialogDescription>
+              The service is hidden from the marketplace. Orders already in progress are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pause-until">Resume automatically on (optional)</Label>
+              <Input id="pause-until" type="datetime-local" value={pauseUntil} onChange={(e) => setPauseUntil(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pause-message">Message to clients (optional)</Label>
+              <Textarea
+                id="pause-message"
+                maxLength={500}
+                placeholder="Away until the 3rd, back to full capacity after"
+                value={pauseMessage}
+                onChange={(e) => setPauseMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPausing(null)}>Cancel</Button>
+            <Button onClick={handlePause} disabled={busyId === pausing?.id}>
+              {busyId === pausing?.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pause service
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ServiceCatalogueManager;
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  checkAddons,
+  checkPackages,
+  PACKAGE_TIER_LABELS,
+  PACKAGE_TIERS,
+  type PackageTier,
+  type ServiceAddon,
+  type ServiceAddonInput,
+  type ServicePackage,
+  type ServicePackageInput,
+} from '@/lib/service-catalogue';
+
+const SERVICE_CATEGORIES = [
+  'technology', 'marketing', 'design', 'business',
+  'finance', 'legal', 'consulting', 'education', 'agriculture'
+];
+
+export interface CatalogueService {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string;
+  location: string | null;
+  skills: string[] | null;
+  currency: string;
+  status: string;
+  moderation_note: string | null;
+  is_active: boolean;
+  paused_at: string | null;
+  paused_until: string | null;
+  pause_message: string | null;
+  price: number;
+  min_price: number | null;
+  max_price: number | null;
+  packages: ServicePackage[];
+  addons: ServiceAddon[];
+}
+
+interface PackageForm {
+  enabled: boolean;
+  name: string;
+  description: string;
+  price: string;
+  deliveryDays: string;
+  revisions: string;
+  features: string;
+}
+
+interface AddonForm {
+  id?: string;
+  title: string;
+  price: string;
+  extraDays: string;
+}
+
+const packageForm = (pkg?: ServicePackage): PackageForm => ({
+  enabled: !!pkg,
+  name: pkg?.name || '',
+  description: pkg?.description || '',
+  price: pkg ? String(pkg.price) : '',
+  deliveryDays: pkg ? String(pkg.delivery_days) : '',
+  revisions: pkg?.revisions == null ? '' : String(pkg.revisions),
+  features: (pkg?.features || []).join('\n'),
+});
+
+interface ServiceEditorProps {
+  service?: CatalogueService | null;
+  onSaved: () => void;
+}
+
+export const ServiceEditor = ({ service, onSaved }: ServiceEditorProps) => {
+  const [title, setTitle] = useState(service?.title || '');
+  const [description, setDescription] = useState(service?.description || '');
+  const [category, setCategory] = useState(service?.category || '');
+  const [location, setLocation] = useState(service?.location || '');
+  const [skills, setSkills] = useState((service?.skills || []).join(', '));
+  const [packages, setPackages] = useState<Record<PackageTier, PackageForm>>(() => {
+    const byTier = Object.fromEntries(PACKAGE_TIERS.map((tier) => [
+      tier,
+      packageForm(service?.packages.find((p) => p.tier === tier)),
+    ])) as Record<PackageTier, PackageForm>;
+    // New services start with a basic package
+    if (!service) byTier.basic.enabled = true;
+    return byTier;
+  });
+  const [addons, setAddons] = useState<AddonForm[]>(
+    (service?.addons || []).map((a) => ({
+      id: a.id,
+      title: a.title,
+      price: String(a.price),
+      extraDays: String(a.extra_delivery_days),
+    }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updatePackage = (tier: PackageTier, patch: Partial<PackageForm>) =>
+    setPackages((current) => ({ ...current, [tier]: { ...current[tier], ...patch } }));
+
+  const updateAddon = (index: number, patch: Partial<AddonForm>) =>
+    setAddons((current) => current.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+
+  const handleSave = async () => {
+    const packageInput: ServicePackageInput[] = PACKAGE_TIERS
+      .filter((tier) => packages[tier].enabled)
+      .map((tier) => ({
+        tier,
+        name: packages[tier].name,
+        description: packages[tier].description || null,
+        price: Number(packages[tier].price),
+        delivery_days: Number(packages[tier].deliveryDays),
+        revisions: packages[tier].revisions === '' ? null : Number(packages[tier].revisions),
+        features: packages[tier].features.split('\n').map((f) => f.trim()).filter(Boolean),
+      }));
+    const addonInput: ServiceAddonInput[] = addons.map((a) => ({
+      id: a.id,
+      title: a.title,
+      price: Number(a.price),
+      extra_delivery_days: Number(a.extraDays || 0),
+    }));
+
+    const refusal = (!title.trim() || !category ? 'A title and category are required' : null)
+      || (packageInput.length === 0 ? 'Offer at least one package' : null)
+      || checkPackages(packageInput)
+      || checkAddons(addonInput);
+    if (refusal) {
+      toast.error(refusal);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('marketplace-manager', {
+        body: {
+          action: service ? 'update' : 'create',
+          serviceId: service?.id,
+          serviceData: {
+            title: title.trim(),
+            description: description.trim() || null,
+            category,
+            location: location.trim() || null,
+            skills: skills.split(',').map((s) => s.trim()).filter(Boolean),
+          },
+          packages: packageInput,
+          addons: addonInput,
+        },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      toast.success(service ? 'Service updated' : 'Draft saved');
+      onSaved();
+    } catch (error) {
+      console.error('Service save error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not save the service');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="service-title">Title</Label>
+          <Input id="service-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {SERVICE_CATEGORIES.map((c) => (
+                <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="service-location">Location</Label>
+          <Input id="service-location" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Remote, Lusaka…" />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="service-description">Description</Label>
+          <Textarea id="service-description" rows={4} value={description} onChange={(e) => setDescription(e.target.value)} />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="service-skills">Skills (comma separated)</Label>
+          <Input id="service-skills" value={skills} onChange={(e) => setSkills(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Packages</h3>
+        {PACKAGE_TIERS.map((tier) => {
+          const form = packages[tier];
+          return (
+            <div key={tier} className="rounded-md border p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`package-${tier}`} className="font-medium">{PACKAGE_TIER_LABELS[tier]}</Label>
+                <Switch
+                  id={`package-${tier}`}
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => updatePackage(tier, { enabled })}
+                />
+              </div>
+              {form.enabled && (
+                <div className="grid gap-3 sm:grid-cols-4">
+                  <Input
+                    className="sm:col-span-4"
+                    placeholder="Package name"
+                    value={form.name}
+                    onChange={(e) => updatePackage(tier, { name: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder={`Price (${service?.currency || 'ZMW'})`}
+                    value={form.price}
+                    onChange={(e) => updatePackage(tier, { price: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="Delivery days"
+                    value={form.deliveryDays}
+                    onChange={(e) => updatePackage(tier, { deliveryDays: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Revisions (blank = unlimited)"
+                    className="sm:col-span-2"
+                    value={form.revisions}
+                    onChange={(e) => updatePackage(tier, { revisions: e.target.value })}
+                  />
+                  <Textarea
+                    className="sm:col-span-4"
+                    rows={2}
+                    placeholder="What's included, one item per line"
+                    value={form.features}
+                    onChange={(e) => updatePackage(tier, { features: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Add-ons</h3>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setAddons((current) => [...current, { title: '', price: '', extraDays: '0' }])}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add-on
+          </Button>
+        </div>
+        {addons.length === 0 && (
+          <p className="text-sm text-muted-foreground">Optional extras such as express delivery or source files.</p>
+        )}
+        {addons.map((addon, index) => (
+          <div key={addon.id || index} className="grid gap-2 grid-cols-[1fr_6rem_6rem_auto] items-center">
+            <Input placeholder="Title" value={addon.title} onChange={(e) => updateAddon(index, { title: e.target.value })} />
+            <Input type="number" min="0" placeholder="Price" value={addon.price} onChange={(e) => updateAddon(index, { price: e.target.value })} />
+            <Input type="number" min="0" placeholder="+ days" value={addon.extraDays} onChange={(e) => updateAddon(index, { extraDays: e.target.value })} />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Remove add-on"
+              onClick={() => setAddons((current) => current.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {service ? 'Save changes' : 'Save draft'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceEditor;
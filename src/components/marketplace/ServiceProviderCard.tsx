@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Star, MapPin, Clock, User, Building, BookOpen } from 'lucide-react';
+import { formatRating } from '@/lib/reviews';
 
 interface ServiceProviderCardProps {
   service: {
@@ -16,7 +17,8 @@ interface ServiceProviderCardProps {
     minPrice?: number | null;
     maxPrice?: number | null;
     currency: string;
-    rating: number;
+    // Average of verified reviews, kept in sync by the database
+    rating: number | null;
     reviews: number;
     skills: string[];
     deliveryTime: string;
@@ -28,6 +30,7 @@ interface ServiceProviderCardProps {
 }
 
 export const ServiceProviderCard = ({ service, onSelect }: ServiceProviderCardProps) => {
+  const rating = formatRating(service.rating, service.reviews);
   const minimumPrice = service.minPrice ?? service.price;
   const maximumPrice = service.maxPrice ?? service.price;
   const priceLabel = minimumPrice !== maximumPrice
@@ -109,9 +112,17 @@ export const ServiceProviderCard = ({ service, onSelect }: ServiceProviderCardPr
 
         <div className="flex items-center justify-between mb-3">
           <div className="flex items-center gap-1">
-            <Star className="w-4 h-4 text-yellow-500 fill-current" />
-            <span className="font-medium text-sm">{service.rating}</span>
-            <span className="text-gray-500 text-sm">({service.reviews})</span>
+            <Star className={`w-4 h-4 ${rating ? 'text-yellow-500 fill-current' : 'text-gray-300'}`} />
+            {rating ? (
+              <>
+                <span className="font-medium text-sm">{rating}</span>
+                <span className="text-gray-500 text-sm">
+                  ({service.reviews} {service.reviews === 1 ? 'review' : 'reviews'})
+                </span>
+              </>
+            ) : (
+              <span className="text-gray-500 text-sm">No reviews yet</span>
+            )}
           </div>
           <div className="flex items-center gap-1 text-gray-500 text-sm">
             <MapPin className="w-3 h-3" />
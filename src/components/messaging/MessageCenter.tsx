@@ -1,51 +1,86 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { MessageSquare, Send, User } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Archive, ArchiveRestore, Loader2, MessageSquare, Send, User } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
+interface Participant {
+  id: string;
+  full_name: string | null;
+  business_name: string | null;
+  avatar_url: string | null;
+}
+
+interface Thread {
+  conversation_id: string;
+  subject: string | null;
+  last_message_at: string;
+  last_message: string | null;
+  last_sender_id: string | null;
+  unread_count: number;
+  archived: boolean;
+  participants: Participant[];
+}
+
 interface Message {
   id: string;
-  subject: string;
+  conversation_id: string;
+  sender_id: string;
   content: string;
-  read: boolean;
   created_at: string;
-  sender: { id: string; full_name: string; avatar_url?: string };
-  recipient: { id: string; full_name: string; avatar_url?: string };
 }
 
+const participantName = (p?: Participant) =>
+  p?.business_name || p?.full_name || 'Unknown user';
+
 export const MessageCenter = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [threads, setThreads] = useState<Thread[]>([]);
+  const [selectedThread, setSelectedThread] = useState<Thread | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [view, setView] = useState<'inbox' | 'archived'>('inbox');
   const [showCompose, setShowCompose] = useState(false);
+  const [reply, setReply] = useState('');
   const [loading, setLoading] = useState(true);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
   const [composeForm, setComposeForm] = useState({
-    recipient_id: '',
+    recipientId: searchParams.get('to') || '',
     subject: '',
     content: ''
   });
 
+  // Deep links like /messages?to=<profile id> open the compose pane
   useEffect(() => {
-    loadMessages();
-  }, []);
+    const to = searchParams.get('to');
+    if (to) {
+      setComposeForm(prev => ({ ...prev, recipientId: to }));
+      setShowCompose(true);
+    }
+  }, [searchParams]);
 
-  const loadMessages = async () => {
+  const loadThreads = useCallback(async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
       const { data, error } = await supabase.functions.invoke('messaging-system', {
-        body: { action: 'get_messages', user_id: user.id }
+        body: { action: 'list_threads', includeArchived: view === 'archived' }
       });
 
       if (error) throw error;
-      setMessages(data.messages || []);
+      if (!data?.success) throw new Error(data?.error || 'Failed to load conversations');
+
+      const all = (data.data || []) as Thread[];
+      setThreads(view === 'archived' ? all.filter(t => t.archived) : all);
     } catch (error: any) {
       toast({
         title: "Error loading messages",
@@ -55,40 +90,185 @@ export const MessageCenter = () => {
     } finally {
       setLoading(false);
     }
+  }, [view, toast]);
+
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads]);
+
+  const openThread = async (thread: Thread) => {
+    setSelectedThread(thread);
+    setShowCompose(false);
+    setThreadLoading(true);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('messaging-system', {
+        body: { action: 'get_thread', conversationId: thread.conversation_id }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to load conversation');
+      setMessages(data.data.messages || []);
+
+      if (thread.unread_count > 0) {
+        await supabase.functions.invoke('messaging-system', {
+          body: { action: 'mark_read', conversationId: thread.conversation_id }
+        });
+        setThreads(prev => prev.map(t =>
+          t.conversation_id === thread.conversation_id ? { ...t, unread_count: 0 } : t
+        ));
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error loading conversation",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setThreadLoading(false);
+    }
   };
 
-  const sendMessage = async () => {
+  // Live updates for the open thread
+  useEffect(() => {
+    if (!selectedThread) return;
+    const conversationId = selectedThread.conversation_id;
+
+    const channel = supabase
+      .channel(`conversation-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          const incoming = payload.new as Message;
+          setMessages(prev => prev.some(m => m.id === incoming.id) ? prev : [...prev, incoming]);
+          if (incoming.sender_id !== user?.id) {
+            supabase.functions.invoke('messaging-system', {
+              body: { action: 'mark_read', conversationId }
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedThread, user?.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const sendReply = async () => {
+    if (!selectedThread || !reply.trim()) return;
+    setSending(true);
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      const { data, error } = await supabase.functions.invoke('messaging-system', {
+        body: {
+          action: 'send_message',
+          conversationId: selectedThread.conversation_id,
+          content: reply
+        }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to send message');
+
+      setMessages(prev => prev.some(m => m.id === data.data.id) ? prev : [...prev, data.data]);
+      setReply('');
+      loadThreads();
+    } catch (error: any) {
+      toast({
+        title: "Error sending message",
+        description: error.message,
+        variant: "destructive"
+      });
+    } finally {
+      setSending(false);
+    }
+  };
 
+  const startConversation = async () => {
+    if (!composeForm.recipientId || !composeForm.content.trim()) {
+      toast({
+        title: "Missing details",
+        description: "A recipient and a message are required.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setSending(true);
+
+    try {
       const { data, error } = await supabase.functions.invoke('messaging-system', {
         body: {
           action: 'send_message',
-          sender_id: user.id,
-          ...composeForm
+          recipientId: composeForm.recipientId,
+          subject: composeForm.subject,
+          content: composeForm.content
         }
       });
 
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to send message');
 
       toast({
         title: "Message sent",
         description: "Your message has been sent successfully."
       });
 
-      setComposeForm({ recipient_id: '', subject: '', content: '' });
+      setComposeForm({ recipientId: '', subject: '', content: '' });
       setShowCompose(false);
-      loadMessages();
+      if (searchParams.has('to')) {
+        searchParams.delete('to');
+        setSearchParams(searchParams, { replace: true });
+      }
+      await loadThreads();
     } catch (error: any) {
       toast({
         title: "Error sending message",
         description: error.message,
         variant: "destructive"
       });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const toggleArchive = async (thread: Thread) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('messaging-system', {
+        body: {
+          action: 'archive',
+          conversationId: thread.conversation_id,
+          archived: !thread.archived
+        }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to update conversation');
+
+      setSelectedThread(null);
+      setMessages([]);
+      loadThreads();
+    } catch (error: any) {
+      toast({
+        title: "Error updating conversation",
+        description: error.message,
+        variant: "destructive"
+      });
     }
   };
 
+  const totalUnread = threads.reduce((sum, t) => sum + Number(t.unread_count || 0), 0);
+
   if (loading) {
     return <div className="flex justify-center p-8">Loading messages...</div>;
   }
@@ -96,35 +276,56 @@ export const MessageCenter = () => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-6 h-[600px]">
       <Card className="md:col-span-1">
-        <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle className="flex items-center gap-2">
-            <MessageSquare className="h-5 w-5" />
-            Messages
-          </CardTitle>
-          <Button size="sm" onClick={() => setShowCompose(true)}>
-            Compose
-          </Button>
+        <CardHeader className="space-y-3">
+          <div className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Messages
+              {totalUnread > 0 && <Badge>{totalUnread}</Badge>}
+            </CardTitle>
+            <Button size="sm" onClick={() => { setShowCompose(true); setSelectedThread(null); }}>
+              Compose
+            </Button>
+          </div>
+          <Tabs value={view} onValueChange={(v) => { setView(v as 'inbox' | 'archived'); setSelectedThread(null); }}>
+            <TabsList className="w-full">
+              <TabsTrigger value="inbox" className="flex-1">Inbox</TabsTrigger>
+              <TabsTrigger value="archived" className="flex-1">Archived</TabsTrigger>
+            </TabsList>
+          </Tabs>
         </CardHeader>
-        <CardContent className="space-y-2 max-h-[500px] overflow-y-auto">
-          {messages.map((message) => (
+        <CardContent className="space-y-2 max-h-[470px] overflow-y-auto">
+          {threads.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {view === 'archived' ? 'No archived conversations' : 'No conversations yet'}
+            </p>
+          )}
+          {threads.map((thread) => (
             <div
-              key={message.id}
+              key={thread.conversation_id}
               className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                selectedMessage?.id === message.id
+                selectedThread?.conversation_id === thread.conversation_id
                   ? 'bg-primary/10'
                   : 'hover:bg-gray-50'
               }`}
-              onClick={() => setSelectedMessage(message)}
+              onClick={() => openThread(thread)}
             >
               <div className="flex items-center justify-between mb-1">
-                <span className="font-medium text-sm">
-                  {message.sender.full_name}
+                <span className={`text-sm ${thread.unread_count > 0 ? 'font-semibold' : 'font-medium'}`}>
+                  {thread.participants.map(participantName).join(', ') || 'Conversation'}
                 </span>
-                {!message.read && <Badge variant="secondary">New</Badge>}
+                {thread.unread_count > 0 && (
+                  <Badge variant="secondary">{thread.unread_count}</Badge>
+                )}
               </div>
-              <p className="text-sm text-gray-600 truncate">{message.subject}</p>
+              {thread.subject && (
+                <p className="text-sm text-gray-700 truncate">{thread.subject}</p>
+              )}
+              <p className="text-sm text-gray-500 truncate">
+                {thread.last_sender_id === user?.id ? 'You: ' : ''}{thread.last_message}
+              </p>
               <p className="text-xs text-gray-400">
-                {new Date(message.created_at).toLocaleDateString()}
+                {new Date(thread.last_message_at).toLocaleDateString()}
               </p>
             </div>
           ))}
@@ -132,20 +333,20 @@ export const MessageCenter = () => {
       </Card>
 
       <Card className="md:col-span-2">
-        <CardContent className="p-6">
+        <CardContent className="p-6 h-full">
           {showCompose ? (
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Compose Message</h3>
+              <h3 className="text-lg font-semibold">New Conversation</h3>
               <Input
                 placeholder="Recipient ID"
-                value={composeForm.recipient_id}
+                value={composeForm.recipientId}
                 onChange={(e) => setComposeForm(prev => ({
                   ...prev,
-                  recipient_id: e.target.value
+                  recipientId: e.target.value
                 }))}
               />
               <Input
-                placeholder="Subject"
+                placeholder="Subject (optional)"
                 value={composeForm.subject}
                 onChange={(e) => setComposeForm(prev => ({
                   ...prev,
@@ -162,8 +363,8 @@ export const MessageCenter = () => {
                 }))}
               />
               <div className="flex gap-2">
-                <Button onClick={sendMessage}>
-                  <Send className="h-4 w-4 mr-2" />
+                <Button onClick={startConversation} disabled={sending}>
+                  {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
                   Send
                 </Button>
                 <Button variant="outline" onClick={() => setShowCompose(false)}>
@@ -171,24 +372,74 @@ export const MessageCenter = () => {
                 </Button>
               </div>
             </div>
-          ) : selectedMessage ? (
-            <div className="space-y-4">
-              <div className="border-b pb-4">
-                <h3 className="text-lg font-semibold">{selectedMessage.subject}</h3>
-                <p className="text-sm text-gray-600">
-                  From: {selectedMessage.sender.full_name}
-                </p>
-                <p className="text-xs text-gray-400">
-                  {new Date(selectedMessage.created_at).toLocaleString()}
-                </p>
+          ) : selectedThread ? (
+            <div className="flex flex-col h-full">
+              <div className="border-b pb-4 flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold">
+                    {selectedThread.subject || selectedThread.participants.map(participantName).join(', ')}
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    With: {selectedThread.participants.map(participantName).join(', ')}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => toggleArchive(selectedThread)}>
+                  {selectedThread.archived ? (
+                    <><ArchiveRestore className="h-4 w-4 mr-2" />Unarchive</>
+                  ) : (
+                    <><Archive className="h-4 w-4 mr-2" />Archive</>
+                  )}
+                </Button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto py-4 space-y-3 max-h-[400px]">
+                {threadLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  messages.map((msg) => {
+                    const mine = msg.sender_id === user?.id;
+                    return (
+                      <div key={msg.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                          mine ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                        }`}>
+                          <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                          <p className={`text-xs mt-1 ${mine ? 'opacity-80' : 'text-muted-foreground'}`}>
+                            {new Date(msg.created_at).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+                <div ref={bottomRef} />
+              </div>
+
+              <div className="flex gap-2 border-t pt-4">
+                <Textarea
+                  placeholder="Write a reply..."
+                  rows={2}
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      sendReply();
+                    }
+                  }}
+                />
+                <Button onClick={sendReply} disabled={sending || !reply.trim()}>
+                  {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
               </div>
-              <div className="whitespace-pre-wrap">{selectedMessage.content}</div>
             </div>
           ) : (
             <div className="flex items-center justify-center h-full text-gray-500">
               <div className="text-center">
                 <User className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p>Select a message to view</p>
+                <p>Select a conversation to view</p>
               </div>
             </div>
           )}
@@ -196,4 +447,4 @@ export const MessageCenter = () => {
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
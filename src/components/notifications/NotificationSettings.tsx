@@ -1,32 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { Bell, BellOff, Smartphone, Mail, Zap, Calendar, MessageSquare, Briefcase, BadgeDollarSign } from 'lucide-react';
+import { Bell, BellOff, Smartphone, Mail, Zap, Calendar, MessageSquare, Briefcase, BadgeDollarSign, Moon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
 import { toast } from 'sonner';
 
+// Push and email are held between start and end in `timezone`
+type QuietHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+};
+
 interface NotificationPreferences {
   product_updates: boolean;
   funding_alerts: boolean;
   match_alerts: boolean;
   messages: boolean;
   frequency: 'instant' | 'daily' | 'weekly';
+  quiet_hours: QuietHours;
 }
 
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'Africa/Lusaka';
+
+const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: '22:00', end: '07:00', timezone: 'Africa/Lusaka' };
+
 export const NotificationSettings: React.FC = () => {
   const { user } = useAuth();
-  const { isSupported, permission, requestPermission } = usePushNotifications();
+  const { isSupported, permission, requestPermission, isDeviceRegistered, sendTestPush } = usePushNotifications();
   const [preferences, setPreferences] = useState<NotificationPreferences>({
     product_updates: true,
     funding_alerts: true,
     match_alerts: true,
     messages: true,
     frequency: 'instant',
+    quiet_hours: DEFAULT_QUIET_HOURS,
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -52,6 +67,7 @@ export const NotificationSettings: React.FC = () => {
             match_alerts: data.match_alerts ?? true,
             messages: data.messages ?? true,
             frequency: (data.frequency as 'instant' | 'daily' | 'weekly') ?? 'instant',
+            quiet_hours: { ...DEFAULT_QUIET_HOURS, ...(data.quiet_hours as Partial<QuietHours> | null) },
           });
         }
       } catch (error) {
@@ -101,6 +117,13 @@ export const NotificationSettings: React.FC = () => {
     savePreferences({ frequency: value as 'instant' | 'daily' | 'weekly' });
   };
 
+  // Quiet hours follow the timezone of the browser they were last saved from
+  const saveQuietHours = (changes: Partial<QuietHours>) => {
+    savePreferences({
+      quiet_hours: { ...preferences.quiet_hours, ...changes, timezone: browserTimezone() },
+    });
+  };
+
   // Enable push notifications
   const handleEnablePush = async () => {
     const granted = await requestPermission();
@@ -143,9 +166,16 @@ export const NotificationSettings: React.FC = () => {
               </p>
             </div>
           ) : permission === 'granted' ? (
-            <div className="flex items-center gap-3 p-4 bg-green-500/10 text-green-600 rounded-lg">
-              <Bell className="h-5 w-5" />
-              <p className="text-sm font-medium">Push notifications are enabled</p>
+            <div className="flex items-center justify-between gap-3 p-4 bg-green-500/10 text-green-600 rounded-lg">
+              <div className="flex items-center gap-3">
+                <Bell className="h-5 w-5" />
+                <p className="text-sm font-medium">Push notifications are enabled</p>
+              </div>
+              {isDeviceRegistered && (
+                <Button variant="outline" size="sm" onClick={sendTestPush}>
+                  Send test
+                </Button>
+              )}
             </div>
           ) : permission === 'denied' ? (
             <div className="flex items-center gap-3 p-4 bg-destructive/10 text-destructive rounded-lg">
@@ -323,6 +353,64 @@ export const NotificationSettings: React.FC = () => {
           </RadioGroup>
         </CardContent>
       </Card>
+
+      {/* Quiet Hours */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5" />
+            Quiet Hours
+          </CardTitle>
+          <CardDescription>
+            Hold push and email alerts during these hours. They still appear in your inbox.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="quiet-hours" className="font-medium">
+              Enable quiet hours
+            </Label>
+            <Switch
+              id="quiet-hours"
+              checked={preferences.quiet_hours.enabled}
+              onCheckedChange={(checked) => saveQuietHours({ enabled: checked })}
+              disabled={isSaving}
+            />
+          </div>
+          {preferences.quiet_hours.enabled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quiet-start">From</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  defaultValue={preferences.quiet_hours.start}
+                  onBlur={(e) => {
+                    if (e.target.value && e.target.value !== preferences.quiet_hours.start) {
+                      saveQuietHours({ start: e.target.value });
+                    }
+                  }}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quiet-end">Until</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  defaultValue={preferences.quiet_hours.end}
+                  onBlur={(e) => {
+                    if (e.target.value && e.target.value !== preferences.quiet_hours.end) {
+                      saveQuietHours({ end: e.target.value });
+                    }
+                  }}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
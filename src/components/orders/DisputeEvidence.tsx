@@ -0,0 +1,154 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { FileText, Loader2, Upload } from 'lucide-react';
+
+interface Evidence {
+  id: string;
+  uploaded_by: string;
+  file_path: string;
+  file_name: string;
+  note: string | null;
+  created_at: string;
+  signedUrl?: string;
+}
+
+interface DisputeEvidenceProps {
+  disputeId: string;
+  // Uploads are closed once the dispute is resolved, and for admins
+  canUpload?: boolean;
+  // Labels uploads by who sent them, e.g. { [clientId]: 'Client' }
+  partyLabels?: Record<string, string>;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,application/pdf';
+
+export const DisputeEvidence = ({ disputeId, canUpload = false, partyLabels = {} }: DisputeEvidenceProps) => {
+  const { user } = useAuth();
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const loadEvidence = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('dispute_evidence')
+        .select('*')
+        .eq('dispute_id', disputeId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Evidence lives in a private bucket, so links are short-lived signed URLs
+      const withUrls = await Promise.all((data || []).map(async (item) => {
+        const { data: signedData } = await supabase.storage
+          .from('dispute-evidence')
+          .createSignedUrl(item.file_path, 3600);
+        return { ...item, signedUrl: signedData?.signedUrl };
+      }));
+
+      setEvidence(withUrls);
+    } catch (error) {
+      console.error('Error loading dispute evidence:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [disputeId]);
+
+  useEffect(() => {
+    loadEvidence();
+  }, [loadEvidence]);
+
+  const handleUpload = async () => {
+    if (!file || !user) return;
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('Files must be 10MB or smaller');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const filePath = `${disputeId}/${user.id}/${Date.now()}_${safeName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('dispute-evidence')
+        .upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase.from('dispute_evidence').insert({
+        dispute_id: disputeId,
+        uploaded_by: user.id,
+        file_path: filePath,
+        file_name: file.name,
+        mime_type: file.type || null,
+        note: note.trim() || null,
+      });
+      if (insertError) throw insertError;
+
+      toast.success('Evidence uploaded');
+      setFile(null);
+      setNote('');
+      await loadEvidence();
+    } catch (error) {
+      console.error('Error uploading evidence:', error);
+      toast.error('Failed to upload evidence');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      {evidence.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No evidence uploaded yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {evidence.map((item) => (
+            <li key={item.id} className="flex items-start gap-2 text-sm">
+              <FileText className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                {item.signedUrl ? (
+                  <a href={item.signedUrl} target="_blank" rel="noopener noreferrer" className="underline break-all">
+                    {item.file_name}
+                  </a>
+                ) : (
+                  <span className="break-all">{item.file_name}</span>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {item.uploaded_by === user?.id ? 'You' : partyLabels[item.uploaded_by] || 'Other party'} •{' '}
+                  {format(new Date(item.created_at), 'MMM d, yyyy HH:mm')}
+                </p>
+                {item.note && <p className="text-xs whitespace-pre-wrap">{item.note}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload && (
+        <div className="space-y-2 pt-1">
+          <Input type="file" accept={ACCEPTED_TYPES} onChange={(e) => setFile(e.target.files?.[0] || null)} />
+          <Input placeholder="Short note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+          <Button size="sm" variant="outline" disabled={!file || uploading} onClick={handleUpload}>
+            {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Upload evidence
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputeEvidence;
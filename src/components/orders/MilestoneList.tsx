@@ -0,0 +1,148 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Calendar, ShieldCheck } from 'lucide-react';
+
+export interface Milestone {
+  id: string;
+  order_id: string;
+  position: number;
+  title: string;
+  description: string | null;
+  amount: number;
+  platform_fee: number;
+  tax_amount: number;
+  due_date: string | null;
+  status: string;
+  escrow_status: string;
+  escrow_amount: number;
+  delivery_note: string | null;
+  auto_accept_at: string | null;
+}
+
+export type MilestoneAction = 'fund' | 'deliver' | 'approve' | 'dispute';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting funding',
+  funded: 'Funded',
+  delivered: 'Delivered',
+  approved: 'Approved',
+  disputed: 'Disputed',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'funded': return 'bg-blue-100 text-blue-800';
+    case 'delivered': return 'bg-purple-100 text-purple-800';
+    case 'approved': return 'bg-green-100 text-green-800';
+    case 'disputed': return 'bg-red-100 text-red-800';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+interface MilestoneListProps {
+  milestones: Milestone[];
+  currency?: string;
+  // Which side of the order the viewer is on; omit for a read-only view
+  viewerRole?: 'client' | 'provider';
+  busyId?: string | null;
+  onAction?: (milestone: Milestone, action: MilestoneAction) => void;
+}
+
+export const MilestoneList = ({ milestones, currency = 'ZMW', viewerRole, busyId, onAction }: MilestoneListProps) => {
+  const symbol = currency === 'USD' ? '$' : 'K';
+  const approved = milestones.filter((m) => m.status === 'approved').length;
+
+  const actionsFor = (milestone: Milestone) => {
+    if (!viewerRole || !onAction) return null;
+    const busy = busyId === milestone.id;
+    const buttons: JSX.Element[] = [];
+
+    if (viewerRole === 'client' && milestone.status === 'pending') {
+      buttons.push(
+        <Button key="fund" size="sm" onClick={() => onAction(milestone, 'fund')}>Fund</Button>
+      );
+    }
+    if (viewerRole === 'provider' && milestone.status === 'funded') {
+      buttons.push(
+        <Button key="deliver" size="sm" variant="outline" onClick={() => onAction(milestone, 'deliver')}>
+          Mark delivered
+        </Button>
+      );
+    }
+    if (viewerRole === 'client' && milestone.status === 'delivered') {
+      buttons.push(
+        <Button key="approve" size="sm" disabled={busy} onClick={() => onAction(milestone, 'approve')}>
+          Approve &amp; release
+        </Button>
+      );
+    }
+    if (milestone.status === 'funded' || milestone.status === 'delivered') {
+      buttons.push(
+        <Button key="dispute" size="sm" variant="ghost" onClick={() => onAction(milestone, 'dispute')}>
+          Dispute
+        </Button>
+      );
+    }
+    return buttons.length ? <div className="flex flex-wrap gap-2 mt-2">{buttons}</div> : null;
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">
+        Milestones ({approved}/{milestones.length} approved)
+      </p>
+      {milestones.map((milestone) => (
+        <div key={milestone.id} className="rounded-md border bg-background p-3 text-sm">
+          <div className="flex justify-between items-start gap-3">
+            <div>
+              <p className="font-medium">
+                {milestone.position}. {milestone.title}
+              </p>
+              {milestone.description && (
+                <p className="text-xs text-muted-foreground">{milestone.description}</p>
+              )}
+            </div>
+            <div className="text-right shrink-0">
+              <p className="font-semibold">{symbol}{Number(milestone.amount).toFixed(2)}</p>
+              <Badge className={getStatusColor(milestone.status)}>
+                {STATUS_LABELS[milestone.status] || milestone.status}
+              </Badge>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-muted-foreground">
+            {milestone.due_date && (
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                Due {format(new Date(milestone.due_date), 'MMM d, yyyy')}
+              </span>
+            )}
+            {milestone.escrow_status === 'held' && (
+              <span className="flex items-center gap-1 text-green-700">
+                <ShieldCheck className="w-3 h-3" />
+                {symbol}{Number(milestone.escrow_amount).toFixed(2)} in escrow
+              </span>
+            )}
+            {milestone.status === 'delivered' && milestone.auto_accept_at && (
+              <span>
+                Auto-approves {formatDistanceToNow(new Date(milestone.auto_accept_at), { addSuffix: true })}
+              </span>
+            )}
+          </div>
+
+          {milestone.delivery_note && (
+            <p className="mt-2 text-xs bg-muted rounded p-2 whitespace-pre-wrap">{milestone.delivery_note}</p>
+          )}
+
+          {actionsFor(milestone)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MilestoneList;
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import type { Milestone } from './MilestoneList';
+
+interface DraftMilestone {
+  title: string;
+  description: string;
+  amount: string;
+  dueDate: string;
+}
+
+interface MilestonePlannerProps {
+  orderId: string;
+  agreedPrice: number;
+  currency?: string;
+  existing?: Milestone[];
+  onSaved?: () => void;
+}
+
+const emptyDraft = (): DraftMilestone => ({ title: '', description: '', amount: '', dueDate: '' });
+
+// Lets either side of a pending order split the agreed price into milestones.
+// Saving an empty plan reverts the order to a single payment.
+export const MilestonePlanner = ({ orderId, agreedPrice, currency = 'ZMW', existing = [], onSaved }: MilestonePlannerProps) => {
+  const [drafts, setDrafts] = useState<DraftMilestone[]>(
+    existing.length
+      ? existing.map((m) => ({
+          title: m.title,
+          description: m.description || '',
+          amount: String(m.amount),
+          dueDate: m.due_date || '',
+        }))
+      : [emptyDraft(), emptyDraft()]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const symbol = currency === 'USD' ? '$' : 'K';
+  const allocated = drafts.reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const remaining = Math.round((agreedPrice - allocated) * 100) / 100;
+
+  const update = (index: number, patch: Partial<DraftMilestone>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const save = async (milestones: DraftMilestone[]) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('order-manager', {
+        body: {
+          action: 'set_milestones',
+          orderId,
+          milestones: milestones.map((d) => ({
+            title: d.title,
+            description: d.description || undefined,
+            amount: parseFloat(d.amount),
+            dueDate: d.dueDate || undefined,
+          })),
+        },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      toast.success(milestones.length ? 'Milestone plan saved' : 'Switched back to a single payment');
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving milestones:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save milestones');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+        {drafts.map((draft, index) => (
+          <div key={index} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Milestone {index + 1}</Label>
+              {drafts.length > 2 && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            <Input
+              placeholder="Title, e.g. Draft business plan"
+              value={draft.title}
+              onChange={(e) => update(index, { title: e.target.value })}
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={draft.description}
+              onChange={(e) => update(index, { description: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                placeholder={`Amount (${symbol})`}
+                value={draft.amount}
+                onChange={(e) => update(index, { amount: e.target.value })}
+              />
+              <Input
+                type="date"
+                value={draft.dueDate}
+                onChange={(e) => update(index, { dueDate: e.target.value })}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button variant="outline" size="sm" onClick={() => setDrafts((prev) => [...prev, emptyDraft()])}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add milestone
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <span>Agreed price: {symbol}{agreedPrice.toFixed(2)}</span>
+        <span className={remaining === 0 ? 'text-green-700' : 'text-destructive'}>
+          {remaining === 0 ? 'Fully allocated' : `${symbol}${remaining.toFixed(2)} unallocated`}
+        </span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {existing.length > 0 && (
+          <Button variant="ghost" disabled={saving} onClick={() => save([])}>
+            Use single payment
+          </Button>
+        )}
+        <Button
+          disabled={saving || remaining !== 0 || drafts.some((d) => !d.title.trim())}
+          onClick={() => save(drafts)}
+        >
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save plan
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MilestonePlanner;
@@ -0,0 +1,586 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Package, ShieldCheck, Loader2 } from 'lucide-react';
+import { OrderPayment } from './OrderPayment';
+import { MilestoneList, type Milestone, type MilestoneAction } from './MilestoneList';
+import { MilestonePlanner } from './MilestonePlanner';
+import { DisputeEvidence } from './DisputeEvidence';
+import { StarRating } from '@/components/reviews/StarRating';
+import { isReviewableOrder } from '@/lib/reviews';
+import { formatRevisions, type OrderAddon } from '@/lib/service-catalogue';
+
+export interface OrderDispute {
+  id: string;
+  milestone_id: string | null;
+  status: string;
+  outcome: string | null;
+  reason: string;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+export interface OrderReview {
+  id: string;
+  rating: number;
+  review: string | null;
+  response: string | null;
+  response_at: string | null;
+  created_at: string;
+}
+
+export interface Order {
+  id: string;
+  service_id: string | null;
+  service_title: string;
+  client_id: string;
+  provider_id: string;
+  agreed_price: number;
+  platform_fee: number | null;
+  tax_amount: number;
+  withholding_amount: number;
+  total_amount: number;
+  currency: string;
+  status: string;
+  escrow_status: string;
+  escrow_amount: number;
+  delivery_deadline: string | null;
+  delivery_note: string | null;
+  delivered_at: string | null;
+  auto_accept_at: string | null;
+  payment_schedule: string;
+  package_name: string | null;
+  revisions_included: number | null;
+  addons: OrderAddon[];
+  milestones?: Milestone[];
+  disputes?: OrderDispute[];
+  reviews?: OrderReview[];
+  created_at: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Awaiting payment',
+  funded: 'Funded',
+  in_progress: 'In progress',
+  delivered: 'Delivered',
+  accepted: 'Completed',
+  disputed: 'Disputed',
+  resolved: 'Resolved',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  refund: 'Full refund to the client',
+  split: 'Payment split between both parties',
+  release: 'Payment released to the provider',
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'funded': return 'bg-blue-100 text-blue-800';
+    case 'in_progress': return 'bg-indigo-100 text-indigo-800';
+    case 'delivered': return 'bg-purple-100 text-purple-800';
+    case 'accepted': return 'bg-green-100 text-green-800';
+    case 'disputed': return 'bg-red-100 text-red-800';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
+type PromptAction = 'deliver' | 'dispute';
+type ReviewMode = 'review' | 'reply';
+
+export const OrderList = () => {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [role, setRole] = useState<'all' | 'client' | 'provider'>('all');
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<{ order: Order; milestone?: Milestone } | null>(null);
+  const [planningOrder, setPlanningOrder] = useState<Order | null>(null);
+  const [prompt, setPrompt] = useState<{ order: Order; action: PromptAction; milestone?: Milestone } | null>(null);
+  const [promptText, setPromptText] = useState('');
+  const [reviewing, setReviewing] = useState<{ order: Order; mode: ReviewMode } | null>(null);
+  const [reviewRating, setReviewRating] = useState(0);
+  const [reviewText, setReviewText] = useState('');
+  const [reviewSaving, setReviewSaving] = useState(false);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke('order-manager', {
+        body: { action: 'list_orders', role: role === 'all' ? undefined : role },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      setOrders(data.data || []);
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+      toast.error('Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [role]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchOrders();
+
+    const channel = supabase
+      .channel('orders-updates')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'orders' }, () => {
+        fetchOrders();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'order_milestones' }, () => {
+        fetchOrders();
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'disputes' }, () => {
+        fetchOrders();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchOrders]);
+
+  const runAction = async (order: Order, action: string, extra: Record<string, unknown> = {}) => {
+    setBusyId((extra.milestoneId as string) || order.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('order-manager', {
+        body: { action, orderId: order.id, ...extra },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      fetchOrders();
+      return true;
+    } catch (error) {
+      console.error(`Order ${action} error:`, error);
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePromptSubmit = async () => {
+    if (!prompt) return;
+    const ok = await runAction(
+      prompt.order,
+      prompt.milestone ? `${prompt.action}_milestone` : prompt.action,
+      {
+        ...(prompt.milestone ? { milestoneId: prompt.milestone.id } : {}),
+        ...(prompt.action === 'deliver' ? { note: promptText } : { reason: promptText }),
+      }
+    );
+    if (ok) {
+      toast.success(prompt.action === 'deliver' ? 'Delivery submitted' : 'Dispute opened');
+      setPrompt(null);
+      setPromptText('');
+    }
+  };
+
+  const openReview = (order: Order, mode: ReviewMode) => {
+    const existing = order.reviews?.[0];
+    setReviewing({ order, mode });
+    setReviewRating(existing?.rating || 0);
+    setReviewText((mode === 'review' ? existing?.review : existing?.response) || '');
+  };
+
+  const handleReviewSubmit = async () => {
+    if (!reviewing) return;
+    const existing = reviewing.order.reviews?.[0];
+    setReviewSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('review-manager', {
+        body: reviewing.mode === 'review'
+          ? { action: 'submit', orderId: reviewing.order.id, rating: reviewRating, review: reviewText }
+          : { action: 'reply', reviewId: existing?.id, response: reviewText },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      toast.success(reviewing.mode === 'review' ? 'Review saved' : 'Reply saved');
+      setReviewing(null);
+      fetchOrders();
+    } catch (error) {
+      console.error('Review error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not save the review');
+    } finally {
+      setReviewSaving(false);
+    }
+  };
+
+  const handleMilestoneAction = async (order: Order, milestone: Milestone, action: MilestoneAction) => {
+    if (action === 'fund') {
+      setPayment({ order, milestone });
+    } else if (action === 'approve') {
+      if (await runAction(order, 'approve_milestone', { milestoneId: milestone.id })) {
+        toast.success('Milestone approved, payment released');
+      }
+    } else {
+      setPrompt({ order, action, milestone });
+    }
+  };
+
+  const renderActions = (order: Order) => {
+    const isClient = order.client_id === user?.id;
+    const busy = busyId === order.id;
+    const buttons: JSX.Element[] = [];
+
+    // Finished orders, single-payment or milestone, can be reviewed
+    if (isReviewableOrder(order)) {
+      const review = order.reviews?.[0];
+      if (isClient) {
+        buttons.push(
+          <Button key="review" size="sm" variant="outline" onClick={() => openReview(order, 'review')}>
+            {review ? 'Edit review' : 'Leave a review'}
+          </Button>
+        );
+      } else if (review) {
+        buttons.push(
+          <Button key="reply" size="sm" variant="outline" onClick={() => openReview(order, 'reply')}>
+            {review.response ? 'Edit reply' : 'Reply to review'}
+          </Button>
+        );
+      }
+    }
+
+    if (order.status === 'pending') {
+      buttons.push(
+        <Button key="plan" size="sm" variant="outline" onClick={() => setPlanningOrder(order)}>
+          {order.payment_schedule === 'milestones' ? 'Edit milestones' : 'Split into milestones'}
+        </Button>
+      );
+    }
+    if (order.payment_schedule === 'milestones') {
+      // Everything else happens per milestone
+      if (order.status === 'pending') {
+        buttons.push(
+          <Button key="cancel" size="sm" variant="ghost" disabled={busy} onClick={() => runAction(order, 'cancel')}>
+            Cancel
+          </Button>
+        );
+      }
+      return buttons;
+    }
+
+    if (isClient && order.status === 'pending') {
+      buttons.push(
+        <Button key="pay" size="sm" onClick={() => setPayment({ order })}>Pay into escrow</Button>
+      );
+    }
+    if (!isClient && order.status === 'funded') {
+      buttons.push(
+        <Button key="start" size="sm" disabled={busy} onClick={() => runAction(order, 'start')}>Start work</Button>
+      );
+    }
+    if (!isClient && (order.status === 'funded' || order.status === 'in_progress')) {
+      buttons.push(
+        <Button key="deliver" size="sm" variant="outline" onClick={() => setPrompt({ order, action: 'deliver' })}>
+          Mark delivered
+        </Button>
+      );
+    }
+    if (isClient && order.status === 'delivered') {
+      buttons.push(
+        <Button
+          key="accept"
+          size="sm"
+          disabled={busy}
+          onClick={async () => {
+            if (await runAction(order, 'accept')) toast.success('Delivery accepted, payment released');
+          }}
+        >
+          Accept &amp; release payment
+        </Button>
+      );
+    }
+    if (order.status === 'in_progress' || order.status === 'delivered') {
+      buttons.push(
+        <Button key="dispute" size="sm" variant="destructive" onClick={() => setPrompt({ order, action: 'dispute' })}>
+          Dispute
+        </Button>
+      );
+    }
+    if (order.status === 'pending' || (!isClient && order.status === 'funded')) {
+      buttons.push(
+        <Button key="cancel" size="sm" variant="ghost" disabled={busy} onClick={() => runAction(order, 'cancel')}>
+          Cancel
+        </Button>
+      );
+    }
+    return buttons;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Package className="w-5 h-5" />
+          Orders
+        </CardTitle>
+        <Tabs value={role} onValueChange={(value) => setRole(value as typeof role)}>
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="client">Buying</TabsTrigger>
+            <TabsTrigger value="provider">Selling</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {orders.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No orders yet</p>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => {
+              const symbol = order.currency === 'USD' ? '$' : 'K';
+              return (
+                <div key={order.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-medium">{order.service_title}</h4>
+                      {order.package_name && (
+                        <p className="text-xs text-muted-foreground">
+                          {order.package_name} • {formatRevisions(order.revisions_included)}
+                          {order.addons?.length > 0 && ` • + ${order.addons.map((a) => a.title).join(', ')}`}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {order.client_id === user?.id ? 'You are buying' : 'You are selling'} •
+                        Ordered {format(new Date(order.created_at), 'MMM d, yyyy')}
+                      </p>
+                    </div>
+                    <Badge className={getStatusColor(order.status)}>
+                      {STATUS_LABELS[order.status] || order.status}
+                    </Badge>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                    <span>Price: <strong>{symbol}{Number(order.agreed_price).toFixed(2)}</strong></span>
+                    <span>Total paid: <strong>{symbol}{Number(order.total_amount).toFixed(2)}</strong></span>
+                    {order.escrow_status === 'held' && (
+                      <span className="flex items-center gap-1 text-green-700">
+                        <ShieldCheck className="w-4 h-4" />
+                        {symbol}{Number(order.escrow_amount).toFixed(2)} held in escrow
+                      </span>
+                    )}
+                  </div>
+
+                  {order.milestones && order.milestones.length > 0 && (
+                    <MilestoneList
+                      milestones={order.milestones}
+                      currency={order.currency}
+                      viewerRole={order.client_id === user?.id ? 'client' : 'provider'}
+                      busyId={busyId}
+                      onAction={(milestone, action) => handleMilestoneAction(order, milestone, action)}
+                    />
+                  )}
+
+                  {order.delivery_note && (
+                    <p className="text-sm bg-muted rounded p-2 whitespace-pre-wrap">{order.delivery_note}</p>
+                  )}
+
+                  {order.status === 'delivered' && order.auto_accept_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Payment releases automatically {formatDistanceToNow(new Date(order.auto_accept_at), { addSuffix: true })} unless disputed.
+                    </p>
+                  )}
+
+                  {order.disputes?.map((dispute) => {
+                    const milestone = order.milestones?.find((m) => m.id === dispute.milestone_id);
+                    return (
+                      <div key={dispute.id} className="rounded-md border border-red-200 bg-red-50/50 p-3 space-y-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-medium">
+                            Dispute{milestone ? `: ${milestone.title}` : ''}
+                          </p>
+                          <Badge variant="outline">
+                            {dispute.status === 'resolved' ? 'Resolved' : dispute.status === 'under_review' ? 'Under review' : 'Open'}
+                          </Badge>
+                        </div>
+                        <p className="text-xs whitespace-pre-wrap">{dispute.reason}</p>
+                        {dispute.status === 'resolved' ? (
+                          <p className="text-xs">
+                            <strong>{OUTCOME_LABELS[dispute.outcome || ''] || dispute.outcome}</strong>
+                            {dispute.resolution_note && ` — ${dispute.resolution_note}`}
+                          </p>
+                        ) : (
+                          <DisputeEvidence disputeId={dispute.id} canUpload />
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {order.reviews?.map((review) => (
+                    <div key={review.id} className="rounded-md border p-3 space-y-1 text-sm">
+                      <StarRating value={review.rating} />
+                      {review.review && <p className="whitespace-pre-wrap">{review.review}</p>}
+                      {review.response && (
+                        <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                          <strong>Provider reply:</strong> {review.response}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+
+                  <div className="flex flex-wrap gap-2">{renderActions(order)}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!payment} onOpenChange={(open) => !open && setPayment(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Pay into escrow</DialogTitle>
+            <DialogDescription>
+              {payment?.milestone
+                ? `Fund milestone "${payment.milestone.title}" with mobile money.`
+                : 'Pay for this order with mobile money.'}
+            </DialogDescription>
+          </DialogHeader>
+          {payment && (
+            <OrderPayment
+              orderId={payment.order.id}
+              milestoneId={payment.milestone?.id}
+              serviceTitle={payment.milestone ? payment.milestone.title : payment.order.service_title}
+              agreedPrice={Number(payment.milestone ? payment.milestone.amount : payment.order.agreed_price)}
+              platformFee={Number(payment.milestone ? payment.milestone.platform_fee : payment.order.platform_fee || 0)}
+              taxAmount={Number(payment.milestone ? payment.milestone.tax_amount : payment.order.tax_amount)}
+              totalAmount={
+                payment.milestone
+                  ? Number(payment.milestone.amount) + Number(payment.milestone.platform_fee) + Number(payment.milestone.tax_amount)
+                  : Number(payment.order.total_amount)
+              }
+              currency={payment.order.currency}
+              onSuccess={() => {
+                setPayment(null);
+                fetchOrders();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!planningOrder} onOpenChange={(open) => !open && setPlanningOrder(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Milestone plan</DialogTitle>
+            <DialogDescription>
+              Split the agreed price into milestones that are funded and approved one at a time.
+            </DialogDescription>
+          </DialogHeader>
+          {planningOrder && (
+            <MilestonePlanner
+              orderId={planningOrder.id}
+              agreedPrice={Number(planningOrder.agreed_price)}
+              currency={planningOrder.currency}
+              existing={planningOrder.milestones}
+              onSaved={() => {
+                setPlanningOrder(null);
+                fetchOrders();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!prompt} onOpenChange={(open) => !open && setPrompt(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {prompt?.action === 'deliver' ? 'Submit delivery' : 'Open a dispute'}
+              {prompt?.milestone && `: ${prompt.milestone.title}`}
+            </DialogTitle>
+            <DialogDescription>
+              {prompt?.action === 'deliver'
+                ? 'Describe what was delivered. The client can then accept or dispute it.'
+                : 'Explain the problem. Funds stay in escrow until an admin resolves the dispute; you can upload evidence once it is open.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={promptText}
+            onChange={(e) => setPromptText(e.target.value)}
+            placeholder={prompt?.action === 'deliver' ? 'Delivery notes, links, etc.' : 'What went wrong?'}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPrompt(null)}>Cancel</Button>
+            <Button
+              onClick={handlePromptSubmit}
+              disabled={!!busyId || (prompt?.action === 'dispute' && !promptText.trim())}
+            >
+              {!!busyId && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.mode === 'review' ? 'Review' : 'Reply to review'}: {reviewing?.order.service_title}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.mode === 'review'
+                ? 'Your review is shown on the service and the provider\'s profile as a verified purchase.'
+                : 'Your reply is shown publicly under the client\'s review. Leave it empty to remove it.'}
+            </DialogDescription>
+          </DialogHeader>
+          {reviewing?.mode === 'review' ? (
+            <StarRating value={reviewRating} onChange={setReviewRating} />
+          ) : (
+            reviewing?.order.reviews?.[0]?.review && (
+              <p className="text-sm bg-muted rounded p-2 whitespace-pre-wrap">{reviewing.order.reviews[0].review}</p>
+            )
+          )}
+          <Textarea
+            value={reviewText}
+            onChange={(e) => setReviewText(e.target.value)}
+            placeholder={reviewing?.mode === 'review' ? 'How did it go? (optional)' : 'Your reply'}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Cancel</Button>
+            <Button
+              onClick={handleReviewSubmit}
+              disabled={reviewSaving || (reviewing?.mode === 'review' && !reviewRating)}
+            >
+              {reviewSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default OrderList;
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, ShieldCheck } from 'lucide-react';
+
+interface OrderPaymentProps {
+  orderId: string;
+  // When set, only this milestone of the order is funded
+  milestoneId?: string;
+  serviceTitle: string;
+  agreedPrice: number;
+  platformFee: number;
+  // VAT charged by the provider, already included in totalAmount
+  taxAmount?: number;
+  totalAmount: number;
+  currency?: string;
+  onSuccess?: () => void;
+}
+
+// Rate locked in by currency-converter for a price that isn't in kwacha
+interface FxQuote {
+  quoteId: string;
+  exchangeRate: number;
+  convertedAmount: number;
+  expiresAt: string;
+}
+
+// Mobile money only collects kwacha, so other currencies are quoted into ZMW
+const requestFxQuote = async (amount: number, fromCurrency: string): Promise<FxQuote> => {
+  const { data, error } = await supabase.functions.invoke('currency-converter', {
+    body: { action: 'convert', amount, fromCurrency, toCurrency: 'ZMW', includeVat: false, quote: true },
+  });
+
+  if (error) {
+    let detail = error.message;
+    try {
+      const body = await (error as any).context?.json();
+      detail = body?.error || detail;
+    } catch {
+      // response body wasn't JSON — fall back to error.message
+    }
+    throw new Error(detail);
+  }
+  if (!data?.quoteId) throw new Error(data?.error || 'Could not get an exchange rate');
+  return data as FxQuote;
+};
+
+// Collects mobile money payment for an order. The funds are held in escrow by
+// the platform and only released to the provider once the client accepts.
+export const OrderPayment = ({
+  orderId,
+  milestoneId,
+  serviceTitle,
+  agreedPrice,
+  platformFee,
+  taxAmount = 0,
+  totalAmount,
+  currency = 'ZMW',
+  onSuccess,
+}: OrderPaymentProps) => {
+  const [phone, setPhone] = useState('');
+  const [operator, setOperator] = useState<'mtn' | 'airtel' | 'zamtel'>('mtn');
+  const [isPaying, setIsPaying] = useState(false);
+  const [otpStep, setOtpStep] = useState<{ collectionId: string; transactionId: string } | null>(null);
+  const [otpValue, setOtpValue] = useState('');
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState<string | null>(null);
+
+  const [fxQuote, setFxQuote] = useState<FxQuote | null>(null);
+
+  const symbol = currency === 'USD' ? '$' : 'K';
+  const needsFxQuote = currency !== 'ZMW';
+
+  useEffect(() => {
+    if (!needsFxQuote) return;
+    requestFxQuote(totalAmount, currency)
+      .then(setFxQuote)
+      .catch((error: Error) => toast.error(error.message));
+  }, [needsFxQuote, totalAmount, currency]);
+
+  const handlePay = async () => {
+    if (!phone) return;
+
+    setIsPaying(true);
+    try {
+      let quote = fxQuote;
+      if (needsFxQuote && (!quote || new Date(quote.expiresAt).getTime() <= Date.now())) {
+        quote = await requestFxQuote(totalAmount, currency);
+        setFxQuote(quote);
+      }
+
+      const { data, error } = await supabase.functions.invoke('lenco-payments', {
+        body: {
+          action: 'initiate',
+          ...(milestoneId ? { milestone_id: milestoneId } : { order_id: orderId }),
+          phone,
+          operator,
+          ...(quote ? { fx_quote_id: quote.quoteId } : {}),
+        },
+      });
+
+      if (error) {
+        let detail = error.message;
+        try {
+          const body = await (error as any).context?.json();
+          detail = body?.error || detail;
+        } catch {
+          // response body wasn't JSON — fall back to error.message
+        }
+        throw new Error(detail);
+      }
+      if (!data.success) throw new Error(data.error || 'Failed to initiate payment');
+
+      if (data.status === 'otp-required') {
+        setOtpStep({ collectionId: data.collection_id, transactionId: data.transaction_id });
+        toast.info('Enter the OTP sent to your phone');
+      } else if (data.status === 'successful') {
+        await confirm(data.transaction_id);
+      } else {
+        setAwaitingConfirmation(data.transaction_id);
+        toast.success('Authorize the payment on your phone, then confirm below.');
+      }
+    } catch (error) {
+      console.error('Order payment error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to initiate payment');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handleSubmitOtp = async () => {
+    if (!otpStep || !otpValue) return;
+
+    setIsPaying(true);
+    try {
+      const { error } = await supabase.functions.invoke('lenco-payments', {
+        body: {
+          action: 'submit_otp',
+          collection_id: otpStep.collectionId,
+          transaction_id: otpStep.transactionId,
+          otp: otpValue,
+        },
+      });
+      if (error) throw error;
+
+      const transactionId = otpStep.transactionId;
+      setOtpStep(null);
+      setOtpValue('');
+      await confirm(transactionId);
+    } catch (error) {
+      toast.error('OTP verification failed');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const confirm = async (transactionId: string) => {
+    setIsPaying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('lenco-payments', {
+        body: { action: 'verify', transaction_id: transactionId },
+      });
+      if (error) throw error;
+
+      if (data.transaction?.status === 'successful') {
+        setAwaitingConfirmation(null);
+        toast.success('Payment received and held in escrow');
+        onSuccess?.();
+      } else if (data.transaction?.status === 'failed') {
+        setAwaitingConfirmation(null);
+        toast.error('Payment failed. Please try again.');
+      } else {
+        setAwaitingConfirmation(transactionId);
+        toast.info('Payment is still pending. Confirm again once you have authorized it.');
+      }
+    } catch (error) {
+      console.error('Order payment verification error:', error);
+      toast.error('Failed to verify payment');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg bg-secondary p-4 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{serviceTitle}</span>
+          <span className="font-medium">{symbol}{agreedPrice.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Platform fee</span>
+          <span className="font-medium">{symbol}{platformFee.toFixed(2)}</span>
+        </div>
+        {taxAmount > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">VAT</span>
+            <span className="font-medium">{symbol}{taxAmount.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between border-t border-border pt-2 font-semibold">
+          <span>Total</span>
+          <span className="text-accent">{symbol}{totalAmount.toFixed(2)}</span>
+        </div>
+        {fxQuote && (
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Charged in kwacha at {fxQuote.exchangeRate.toFixed(4)}</span>
+            <span>K{fxQuote.convertedAmount.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-start gap-2 text-xs text-muted-foreground">
+        <ShieldCheck className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+        <p>
+          Your payment is held in escrow. The provider is paid only after you accept the delivery,
+          or automatically if you don't respond within the review window.
+        </p>
+      </div>
+
+      {otpStep ? (
+        <div className="space-y-2">
+          <Label>One-time PIN</Label>
+          <Input placeholder="OTP" value={otpValue} onChange={(e) => setOtpValue(e.target.value)} />
+          <Button className="w-full" onClick={handleSubmitOtp} disabled={isPaying || !otpValue}>
+            {isPaying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit OTP
+          </Button>
+        </div>
+      ) : awaitingConfirmation ? (
+        <Button className="w-full" onClick={() => confirm(awaitingConfirmation)} disabled={isPaying}>
+          {isPaying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          I've authorized the payment
+        </Button>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Mobile Money Provider</Label>
+            <Select value={operator} onValueChange={(value: 'mtn' | 'airtel' | 'zamtel') => setOperator(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-50">
+                <SelectItem value="mtn">MTN Mobile Money</SelectItem>
+                <SelectItem value="airtel">Airtel Money</SelectItem>
+                <SelectItem value="zamtel">Zamtel Kwacha</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Phone Number</Label>
+            <Input placeholder="09XXXXXXXX" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          </div>
+          <Button className="w-full" onClick={handlePay} disabled={isPaying || !phone}>
+            {isPaying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Pay {fxQuote ? `K${fxQuote.convertedAmount.toFixed(2)}` : `${symbol}${totalAmount.toFixed(2)}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderPayment;
@@ -21,6 +21,7 @@ import {
 } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { Loader2, CreditCard, Wallet, AlertCircle } from 'lucide-react';
+import type { TaxLine } from '@/lib/tax';
 
 interface CheckoutModalProps {
   isOpen: boolean;
@@ -47,6 +48,7 @@ export const CheckoutModal = ({
   const [isLoading, setIsLoading] = useState(false);
   const [selectedCurrency, setSelectedCurrency] = useState<'ZMW' | 'USD'>(currency);
   const [platformFee, setPlatformFee] = useState<number>(0);
+  const [taxLines, setTaxLines] = useState<TaxLine[]>([]);
   const [feeLoading, setFeeLoading] = useState(false);
   const [paymentInitiated, setPaymentInitiated] = useState(false);
   const [paymentDetails, setPaymentDetails] = useState<{
@@ -64,12 +66,15 @@ export const CheckoutModal = ({
         body: {
           action: 'get_fee',
           amount,
-          currency: selectedCurrency
+          currency: selectedCurrency,
+          // Direct service purchases are taxed by the seller's VAT status
+          ...(transactionType === 'service_purchase' && recipientId ? { recipient_id: recipientId } : {})
         }
       });
 
       if (error) throw error;
       setPlatformFee(data.platform_fee || 0);
+      setTaxLines(data.tax_lines || []);
     } catch (error) {
       console.error('Error calculating fee:', error);
       setPlatformFee(amount * 0.05); // Default 5%
@@ -163,7 +168,10 @@ export const CheckoutModal = ({
     onClose();
   };
 
-  const netAmount = amount - platformFee;
+  const addedTax = taxLines.filter((l) => l.treatment === 'added').reduce((sum, l) => sum + l.amount, 0);
+  const withheldTax = taxLines.filter((l) => l.treatment === 'withheld').reduce((sum, l) => sum + l.amount, 0);
+  const totalAmount = amount + addedTax;
+  const netAmount = amount - platformFee + addedTax - withheldTax;
   const currencySymbol = selectedCurrency === 'USD' ? '$' : 'K';
 
   return (
@@ -220,10 +228,18 @@ export const CheckoutModal = ({
                   {currencySymbol}{platformFee.toFixed(2)}
                 </span>
               </div>
+              {taxLines.filter((l) => l.treatment === 'added').map((line) => (
+                <div key={line.rule_id} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">{line.name} ({(line.rate * 100).toFixed(0)}%)</span>
+                  <span className="font-medium text-foreground">
+                    {currencySymbol}{line.amount.toFixed(2)}
+                  </span>
+                </div>
+              ))}
               <div className="border-t border-border pt-2 flex justify-between">
                 <span className="font-semibold text-foreground">Total</span>
                 <span className="font-bold text-accent">
-                  {currencySymbol}{amount.toFixed(2)}
+                  {currencySymbol}{totalAmount.toFixed(2)}
                 </span>
               </div>
               {recipientId && (
@@ -245,7 +261,7 @@ export const CheckoutModal = ({
                 </div>
               </div>
               <div className="text-sm text-muted-foreground">
-                <p>Please make a payment of <strong className="text-foreground">{currencySymbol}{amount.toFixed(2)}</strong> using your preferred payment method.</p>
+                <p>Please make a payment of <strong className="text-foreground">{currencySymbol}{totalAmount.toFixed(2)}</strong> using your preferred payment method.</p>
                 <p className="mt-2">Include the reference number above in your payment description.</p>
               </div>
             </div>
@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import {
   Select,
@@ -31,6 +32,7 @@ import {
   Wallet,
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { PlanChangeDialog, type PlanChangePayment } from './PlanChangeDialog';
 
 type Currency = 'ZMW' | 'USD';
 
@@ -51,6 +53,9 @@ interface PendingPayment {
   transactionId?: string;
   amount: number;
   currency: Currency;
+  // Set when a mobile money prompt was already sent (plan upgrades)
+  prompted?: boolean;
+  otpCollectionId?: string;
 }
 
 const toFeatureList = (features: unknown): string[] => {
@@ -76,8 +81,11 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
   const [currency, setCurrency] = useState<Currency>('ZMW');
   const [actionPlanId, setActionPlanId] = useState<string | null>(null);
   const [cancelling, setCancelling] = useState(false);
+  const [renewing, setRenewing] = useState(false);
   const [verifying, setVerifying] = useState(false);
   const [pending, setPending] = useState<PendingPayment | null>(null);
+  const [changeTarget, setChangeTarget] = useState<Plan | null>(null);
+  const [otp, setOtp] = useState('');
 
   const loadPlans = useCallback(async () => {
     setPlansLoading(true);
@@ -102,6 +110,8 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
     loadPlans();
   }, [loadPlans]);
 
+  const needsRenewal = !!subscription && ['past_due', 'grace', 'expired'].includes(subscription.status);
+
   const matching = accountType ? plans.filter((p) => p.account_type === accountType) : [];
   const visiblePlans = matching.length > 0 ? matching : plans;
 
@@ -144,6 +154,51 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
     }
   };
 
+  // Stable so the dialog does not reload its preview on every render
+  const handlePlanChangeOpen = useCallback((open: boolean) => {
+    if (!open) setChangeTarget(null);
+  }, []);
+
+  const handlePlanChanged = (payment?: PlanChangePayment) => {
+    if (payment && changeTarget) {
+      setPending({
+        planName: changeTarget.name,
+        reference: payment.reference,
+        transactionId: payment.transactionId,
+        amount: payment.amount,
+        currency: (payment.currency as Currency) || currency,
+        prompted: true,
+        otpCollectionId: payment.status === 'otp-required' ? payment.collectionId : undefined,
+      });
+    }
+    refresh();
+  };
+
+  const handleSubmitOtp = async () => {
+    if (!pending?.otpCollectionId || !otp) return;
+
+    setVerifying(true);
+    try {
+      const { error } = await supabase.functions.invoke('lenco-payments', {
+        body: {
+          action: 'submit_otp',
+          collection_id: pending.otpCollectionId,
+          transaction_id: pending.transactionId,
+          otp,
+        },
+      });
+      if (error) throw error;
+
+      setOtp('');
+      setPending({ ...pending, otpCollectionId: undefined });
+    } catch (error) {
+      console.error('OTP error:', error);
+      toast.error('OTP verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const handleVerifyPayment = async () => {
     if (!pending) return;
 
@@ -174,6 +229,41 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
     }
   };
 
+  // past_due / grace / expired subscriptions are renewed in place rather than
+  // re-subscribed, so the scheduled dunning retries stop once this is paid
+  const handleRenew = async () => {
+    if (!subscription) return;
+
+    setRenewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('lenco-subscriptions', {
+        body: { action: 'renew' },
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to renew subscription');
+
+      if (data.payment?.reference) {
+        setPending({
+          planName: subscription.planName,
+          reference: data.payment.reference,
+          transactionId: data.payment.transaction_id,
+          amount: Number(data.payment.amount) || 0,
+          currency: (data.payment.currency as Currency) || currency,
+        });
+        toast.success('Renewal created — complete payment to renew');
+      } else {
+        toast.success(data.message || 'Subscription renewed');
+        refresh();
+      }
+    } catch (error) {
+      console.error('Renew error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to renew subscription');
+    } finally {
+      setRenewing(false);
+    }
+  };
+
   const handleCancel = async () => {
     setCancelling(true);
     try {
@@ -223,6 +313,24 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
                 </div>
               )}
 
+              {needsRenewal && (
+                <div className="flex items-start gap-2 text-destructive bg-destructive/10 p-3 rounded-lg">
+                  <AlertCircle className="w-4 h-4 mt-0.5" />
+                  <div className="text-sm space-y-1">
+                    <p>
+                      {subscription.status === 'expired'
+                        ? 'This subscription has expired. Renew to restore premium features.'
+                        : subscription.gracePeriodEnd
+                          ? `Renewal payment is overdue. Access ends on ${format(new Date(subscription.gracePeriodEnd), 'MMM d, yyyy')}.`
+                          : 'Renewal payment is overdue.'}
+                    </p>
+                    {subscription.lastRenewalError && subscription.status !== 'expired' && (
+                      <p className="text-muted-foreground">Last attempt: {subscription.lastRenewalError}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {entitlements?.subscription?.cancelAtPeriodEnd && (
                 <div className="flex items-center gap-2 text-amber-600 bg-amber-50 dark:bg-amber-900/20 p-3 rounded-lg">
                   <AlertTriangle className="w-4 h-4" />
@@ -234,7 +342,24 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
               )}
             </div>
           </CardContent>
-          {!entitlements?.subscription?.cancelAtPeriodEnd && (
+          {needsRenewal ? (
+            <CardFooter>
+              <Button
+                onClick={handleRenew}
+                disabled={renewing || !!pending}
+                className="bg-accent hover:bg-accent/90 text-accent-foreground"
+              >
+                {renewing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Renewing...
+                  </>
+                ) : (
+                  'Renew Now'
+                )}
+              </Button>
+            </CardFooter>
+          ) : !entitlements?.subscription?.cancelAtPeriodEnd && (
             <CardFooter>
               <Button
                 variant="outline"
@@ -265,12 +390,14 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
               Complete Payment — {pending.planName}
             </CardTitle>
             <CardDescription className="text-muted-foreground">
-              Pay{' '}
+              {pending.prompted ? 'Approve the request for' : 'Pay'}{' '}
               <strong className="text-foreground">
                 {pending.currency === 'USD' ? '$' : 'K'}
                 {pending.amount.toFixed(2)}
               </strong>{' '}
-              using your preferred method and include the reference below.
+              {pending.prompted
+                ? 'sent to your mobile money number.'
+                : 'using your preferred method and include the reference below.'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -278,6 +405,14 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
               <p className="font-medium text-foreground">Payment Reference</p>
               <p className="text-sm font-mono text-accent break-all">{pending.reference}</p>
             </div>
+            {pending.otpCollectionId && (
+              <div className="flex gap-2">
+                <Input placeholder="One-time PIN" value={otp} onChange={(e) => setOtp(e.target.value)} />
+                <Button variant="outline" onClick={handleSubmitOtp} disabled={verifying || !otp}>
+                  Submit OTP
+                </Button>
+              </div>
+            )}
             <div className="flex items-start gap-2 text-sm text-muted-foreground bg-secondary p-3 rounded-lg">
               <AlertCircle className="w-4 h-4 mt-0.5 text-accent" />
               <p>After paying, click "Verify Payment" to activate your subscription.</p>
@@ -341,6 +476,8 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
           {visiblePlans.map((plan) => {
             const price = priceOf(plan);
             const isCurrentPlan = subscription?.planName === plan.name;
+            // Active subscribers switch plans with proration instead of re-subscribing
+            const canChange = subscription?.status === 'active' && !isCurrentPlan;
             const features = toFeatureList(plan.features);
             const busy = actionPlanId === plan.id;
 
@@ -390,7 +527,7 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
                 </CardContent>
                 <CardFooter>
                   <Button
-                    onClick={() => handleSubscribe(plan)}
+                    onClick={() => (canChange ? setChangeTarget(plan) : handleSubscribe(plan))}
                     disabled={isCurrentPlan || busy}
                     className={`w-full ${
                       isCurrentPlan
@@ -405,6 +542,8 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
                       </>
                     ) : isCurrentPlan ? (
                       'Current Plan'
+                    ) : canChange ? (
+                      `Switch to ${plan.name}`
                     ) : price === 0 ? (
                       'Activate Free Plan'
                     ) : (
@@ -417,6 +556,13 @@ export const LencoSubscriptionManager = ({ accountType }: LencoSubscriptionManag
           })}
         </div>
       )}
+
+      <PlanChangeDialog
+        plan={changeTarget}
+        currentPeriodEnd={subscription?.currentPeriodEnd}
+        onOpenChange={handlePlanChangeOpen}
+        onChanged={handlePlanChanged}
+      />
     </div>
   );
 };
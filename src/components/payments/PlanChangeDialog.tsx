@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, Loader2 } from 'lucide-react';
+
+type Operator = 'mtn' | 'airtel' | 'zamtel';
+type DowngradeMode = 'wallet_credit' | 'period_end';
+
+// Mirrors the preview returned by lenco-subscriptions `preview_change_plan`
+interface ProrationPreview {
+  direction: 'upgrade' | 'downgrade' | 'lateral';
+  currency: string;
+  currentPrice: number;
+  newPrice: number;
+  remainingFraction: number;
+  unusedCredit: number;
+  newPlanCost: number;
+  difference: number;
+  resetsPeriod: boolean;
+  newPeriodStart: string;
+  newPeriodEnd: string;
+  current_plan: { id: string; name: string };
+  new_plan: { id: string; name: string };
+  wallet_credit: number;
+  payment_method_on_file: { operator: Operator; phone_last4: string } | null;
+}
+
+export interface PlanChangePayment {
+  transactionId: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: string;
+  collectionId?: string;
+}
+
+interface PlanChangeDialogProps {
+  plan: { id: string; name: string } | null;
+  currentPeriodEnd?: string;
+  onOpenChange: (open: boolean) => void;
+  // Called once the change is recorded; `payment` is set for upgrades that
+  // are waiting on the mobile money charge
+  onChanged: (payment?: PlanChangePayment) => void;
+}
+
+export const PlanChangeDialog = ({ plan, currentPeriodEnd, onOpenChange, onChanged }: PlanChangeDialogProps) => {
+  const [preview, setPreview] = useState<ProrationPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [downgradeMode, setDowngradeMode] = useState<DowngradeMode>('period_end');
+  const [useNumberOnFile, setUseNumberOnFile] = useState(true);
+  const [phone, setPhone] = useState('');
+  const [operator, setOperator] = useState<Operator>('mtn');
+
+  const planId = plan?.id;
+
+  useEffect(() => {
+    if (!planId) {
+      setPreview(null);
+      return;
+    }
+
+    const loadPreview = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.functions.invoke('lenco-subscriptions', {
+          body: { action: 'preview_change_plan', new_plan_id: planId },
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Failed to preview plan change');
+
+        setPreview(data.preview as ProrationPreview);
+        setUseNumberOnFile(!!data.preview.payment_method_on_file);
+      } catch (error) {
+        console.error('Plan change preview error:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to preview plan change');
+        onOpenChange(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [planId, onOpenChange]);
+
+  const symbol = preview?.currency === 'USD' ? '$' : 'K';
+  const money = (value: number) => `${symbol}${Math.abs(value).toFixed(2)}`;
+  const isUpgrade = preview?.direction === 'upgrade';
+  const needsPhone = isUpgrade && !useNumberOnFile;
+
+  const handleConfirm = async () => {
+    if (!plan || !preview) return;
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('lenco-subscriptions', {
+        body: {
+          action: 'change_plan',
+          new_plan_id: plan.id,
+          ...(preview.direction === 'downgrade' ? { downgrade_mode: downgradeMode } : {}),
+          ...(needsPhone ? { phone, operator } : {}),
+        },
+      });
+
+      if (error) {
+        let detail = error.message;
+        try {
+          const body = await (error as any).context?.json();
+          detail = body?.error || detail;
+        } catch {
+          // response body wasn't JSON — fall back to error.message
+        }
+        throw new Error(detail);
+      }
+      if (!data?.success) throw new Error(data?.error || 'Failed to change plan');
+
+      toast.success(data.message || 'Plan changed');
+
+      const payment = data.payment && data.payment.status !== 'successful'
+        ? {
+          transactionId: data.payment.transaction_id,
+          reference: data.payment.reference,
+          amount: Number(data.payment.amount),
+          currency: data.payment.currency,
+          status: data.payment.status,
+          collectionId: data.payment.collection_id,
+        }
+        : undefined;
+
+      onChanged(payment);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Plan change error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change plan');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!plan} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground flex items-center gap-2">
+            {isUpgrade ? <ArrowUp className="w-5 h-5 text-accent" /> : <ArrowDown className="w-5 h-5 text-accent" />}
+            Switch to {plan?.name}
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Charges are prorated for the time left in your current billing period.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !preview ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Calculating...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-secondary p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  Unused {preview.current_plan.name} ({Math.round(preview.remainingFraction * 100)}% of period)
+                </span>
+                <span className="font-medium">-{money(preview.unusedCredit)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">
+                  {preview.new_plan.name} {preview.resetsPeriod ? '(new billing period)' : 'for the rest of the period'}
+                </span>
+                <span className="font-medium">{money(preview.newPlanCost)}</span>
+              </div>
+              <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                <span>{isUpgrade ? 'Due now' : preview.direction === 'downgrade' ? 'Credit' : 'Difference'}</span>
+                <span className="text-accent">{money(preview.difference)}</span>
+              </div>
+              {preview.resetsPeriod && (
+                <p className="text-xs text-muted-foreground">
+                  Your next renewal moves to {format(new Date(preview.newPeriodEnd), 'MMM d, yyyy')}.
+                </p>
+              )}
+            </div>
+
+            {preview.direction === 'downgrade' && (
+              <RadioGroup value={downgradeMode} onValueChange={(v) => setDowngradeMode(v as DowngradeMode)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="period_end" id="downgrade-period-end" className="mt-1" />
+                  <Label htmlFor="downgrade-period-end" className="font-normal text-foreground">
+                    Switch at the end of this period
+                    {currentPeriodEnd ? ` (${format(new Date(currentPeriodEnd), 'MMM d, yyyy')})` : ''} and keep
+                    your current features until then
+                  </Label>
+                </div>
+                {preview.wallet_credit > 0 && (
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="wallet_credit" id="downgrade-wallet-credit" className="mt-1" />
+                    <Label htmlFor="downgrade-wallet-credit" className="font-normal text-foreground">
+                      Switch now and credit {money(preview.wallet_credit)} to my wallet
+                    </Label>
+                  </div>
+                )}
+              </RadioGroup>
+            )}
+
+            {isUpgrade && (
+              <div className="space-y-3">
+                {preview.payment_method_on_file && (
+                  <RadioGroup
+                    value={useNumberOnFile ? 'on_file' : 'new'}
+                    onValueChange={(v) => setUseNumberOnFile(v === 'on_file')}
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="on_file" id="pay-on-file" />
+                      <Label htmlFor="pay-on-file" className="font-normal text-foreground">
+                        {preview.payment_method_on_file.operator.toUpperCase()} number ending{' '}
+                        {preview.payment_method_on_file.phone_last4}
+                      </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="new" id="pay-new" />
+                      <Label htmlFor="pay-new" className="font-normal text-foreground">
+                        Another mobile money number
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                )}
+
+                {needsPhone && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Provider</Label>
+                      <Select value={operator} onValueChange={(v: Operator) => setOperator(v)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="z-50">
+                          <SelectItem value="mtn">MTN Mobile Money</SelectItem>
+                          <SelectItem value="airtel">Airtel Money</SelectItem>
+                          <SelectItem value="zamtel">Zamtel Kwacha</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Phone Number</Label>
+                      <Input placeholder="09XXXXXXXX" value={phone} onChange={(e) => setPhone(e.target.value)} />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-border" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={loading || !preview || submitting || (needsPhone && !phone)}
+            className="bg-accent hover:bg-accent/90 text-accent-foreground"
+          >
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isUpgrade && preview ? `Pay ${money(preview.difference)} & upgrade` : 'Confirm change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlanChangeDialog;
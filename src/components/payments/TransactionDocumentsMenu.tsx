@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { Download, FileText, Loader2 } from 'lucide-react';
+
+interface TransactionDocumentLink {
+  id: string;
+  document_type: 'invoice' | 'receipt';
+  document_number: string;
+  issued_at: string | null;
+  url: string | null;
+}
+
+interface TransactionDocumentsMenuProps {
+  transaction: { id: string; status: string; transaction_type: string };
+  className?: string;
+}
+
+// Transaction types that get an invoice and/or receipt; see
+// supabase/functions/_shared/transaction-documents.ts
+const DOCUMENTED_TYPES = ['service_purchase', 'subscription', 'deposit'];
+
+// Invoice and receipt downloads for one successful transaction. The links
+// are fetched when the menu is opened; documents that were never issued are
+// generated on the way.
+export function TransactionDocumentsMenu({ transaction, className }: TransactionDocumentsMenuProps) {
+  const [documents, setDocuments] = useState<TransactionDocumentLink[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  if (transaction.status !== 'successful' || !DOCUMENTED_TYPES.includes(transaction.transaction_type)) {
+    return null;
+  }
+
+  const loadDocuments = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('transaction-documents', {
+        body: { action: 'get', transactionId: transaction.id },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Could not load documents');
+      setDocuments(data.data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load documents');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Signed links expire, so they are fetched again on every open
+    if (open) {
+      setDocuments(null);
+      loadDocuments();
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="ghost" className={className} title="Invoice and receipt">
+          <FileText className="w-3 h-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Documents</DropdownMenuLabel>
+        {loading || !documents ? (
+          <DropdownMenuItem disabled>
+            <Loader2 className="w-3 h-3 mr-2 animate-spin" /> Preparing...
+          </DropdownMenuItem>
+        ) : documents.length === 0 ? (
+          <DropdownMenuItem disabled>No documents for this transaction</DropdownMenuItem>
+        ) : (
+          documents.map((document) => (
+            <DropdownMenuItem
+              key={document.id}
+              disabled={!document.url}
+              onSelect={() => document.url && window.open(document.url, '_blank', 'noopener')}
+            >
+              <Download className="w-3 h-3 mr-2" />
+              <span className="capitalize">{document.document_type}</span>
+              <span className="ml-2 font-mono text-xs text-muted-foreground">{document.document_number}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -34,6 +34,7 @@ import {
 } from "lucide-react";
 import { format, differenceInDays } from "date-fns";
 import { useEntitlements } from "@/hooks/useEntitlements";
+import { TransactionDocumentsMenu } from "./TransactionDocumentsMenu";
 
 interface PaymentAccount {
   id: string;
@@ -592,6 +593,7 @@ export const WalletDashboard = () => {
                     <div className="flex items-center gap-1 justify-end">
                       {getStatusIcon(tx.status)}
                       {getStatusBadge(tx.status)}
+                      <TransactionDocumentsMenu transaction={tx} className="h-6 px-2" />
                     </div>
                   </div>
                 </div>
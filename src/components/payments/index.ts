@@ -1,4 +1,5 @@
 export { CheckoutModal } from './CheckoutModal';
 export { WalletDashboard } from './WalletDashboard';
 export { SubscriptionManager } from './SubscriptionManager';
-export { LencoSubscriptionManager } from './LencoSubscriptionManager';
\ No newline at end of file
+export { LencoSubscriptionManager } from './LencoSubscriptionManager';
+export { TransactionDocumentsMenu } from './TransactionDocumentsMenu';
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Flag, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { REVIEW_REPORT_REASONS, type ReviewReportReason, type ServiceReview } from '@/lib/reviews';
+import { StarRating } from './StarRating';
+
+const PAGE_SIZE = 10;
+
+type ProviderReview = ServiceReview & { service: { title: string } | null };
+
+interface ProviderReviewsProps {
+  providerId: string;
+}
+
+// Verified reviews across all of a provider's services, newest first
+export const ProviderReviews = ({ providerId }: ProviderReviewsProps) => {
+  const { user } = useAuth();
+  const [reporting, setReporting] = useState<ProviderReview | null>(null);
+  const [reason, setReason] = useState<ReviewReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['provider-reviews', providerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('service_reviews')
+        .select('*, service:services!inner(title, provider_id)')
+        .eq('service.provider_id', providerId)
+        .eq('is_verified_purchase', true)
+        .is('hidden_at', null)
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) throw error;
+      return (data || []) as unknown as ProviderReview[];
+    },
+  });
+
+  const handleReport = async () => {
+    if (!reporting || !reason) return;
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('review-manager', {
+        body: { action: 'report', reviewId: reporting.id, reason, details },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      toast.success('Thanks, the review has been reported to our moderators');
+      setReporting(null);
+      setReason('');
+      setDetails('');
+    } catch (error) {
+      console.error('Review report error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not report the review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (reviews.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <h2 className="text-lg font-semibold">Reviews</h2>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.map((review) => (
+          <div key={review.id} className="border-b last:border-0 pb-4 last:pb-0 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <StarRating value={review.rating} />
+                <Badge variant="outline" className="flex items-center gap-1 text-xs">
+                  <ShieldCheck className="h-3 w-3" />
+                  Verified purchase
+                </Badge>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(review.created_at), 'MMM d, yyyy')}
+              </span>
+            </div>
+            {review.service && (
+              <p className="text-xs text-muted-foreground">{review.service.title}</p>
+            )}
+            {review.review && <p className="text-sm text-foreground whitespace-pre-wrap">{review.review}</p>}
+            {review.response && (
+              <div className="ml-4 border-l-2 pl-3 text-sm">
+                <p className="text-xs font-medium text-muted-foreground">Provider reply</p>
+                <p className="whitespace-pre-wrap">{review.response}</p>
+              </div>
+            )}
+            {user && user.id !== review.reviewer_id && (
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReporting(review)}>
+                <Flag className="mr-1 h-3 w-3" />
+                Report
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!reporting} onOpenChange={(open) => !open && setReporting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report review</DialogTitle>
+            <DialogDescription>
+              Our moderators will check the review and hide it if it breaks the marketplace rules.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={reason} onValueChange={(value) => setReason(value as ReviewReportReason)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Why are you reporting it?" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(REVIEW_REPORT_REASONS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Anything else we should know? (optional)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReporting(null)}>Cancel</Button>
+            <Button onClick={handleReport} disabled={submitting || !reason}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ProviderReviews;
@@ -0,0 +1,40 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  // Makes the stars clickable
+  onChange?: (value: number) => void;
+  className?: string;
+}
+
+export const StarRating = ({ value, onChange, className }: StarRatingProps) => (
+  <div className={cn('flex items-center gap-0.5', className)} role={onChange ? 'radiogroup' : undefined}>
+    {[1, 2, 3, 4, 5].map((star) => {
+      const icon = (
+        <Star
+          className={cn(
+            onChange ? 'w-6 h-6' : 'w-4 h-4',
+            star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+          )}
+        />
+      );
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={star === value}
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          onClick={() => onChange(star)}
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
+
+export default StarRating;
@@ -17,6 +17,11 @@ export interface Entitlements {
     productId?: string;
     priceId?: string;
     cancelAtPeriodEnd?: boolean;
+    // Dunning state for lapsed renewals (past_due / grace)
+    gracePeriodEnd?: string | null;
+    renewalAttempts?: number;
+    nextRenewalAttemptAt?: string | null;
+    lastRenewalError?: string | null;
   } | null;
   limits: {
     fundingMatchesPerMonth: number;
@@ -117,6 +122,10 @@ export const useEntitlements = () => {
           productId: (entData.subscription as any).product_id,
           priceId: (entData.subscription as any).price_id,
           cancelAtPeriodEnd: (entData.subscription as any).cancel_at_period_end,
+          gracePeriodEnd: (entData.subscription as any).grace_period_end,
+          renewalAttempts: (entData.subscription as any).renewal_attempts,
+          nextRenewalAttemptAt: (entData.subscription as any).next_renewal_attempt_at,
+          lastRenewalError: (entData.subscription as any).last_renewal_error,
         } : null,
         limits: {
           fundingMatchesPerMonth: entData.limits.funding_matches_per_month,
@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  checkPlatformSetting,
+  DEFAULT_PLATFORM_SETTINGS,
+  loadPlatformSettings,
+  type PlatformSettingKey,
+  type PlatformSettings,
+} from '@/lib/platform-settings';
+
+// Current platform settings. Until they load (or when they can't be read)
+// the defaults apply, so a failed read never locks anyone out.
+export function usePlatformSettings() {
+  const query = useQuery({
+    queryKey: ['platform-settings'],
+    queryFn: () => loadPlatformSettings(supabase),
+    staleTime: 60 * 1000,
+  });
+
+  return { ...query, settings: query.data ?? DEFAULT_PLATFORM_SETTINGS };
+}
+
+export function useUpdatePlatformSetting() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ key, value }: { key: PlatformSettingKey; value: PlatformSettings[PlatformSettingKey] }) => {
+      const refusal = checkPlatformSetting(key, value);
+      if (refusal) throw new Error(refusal);
+
+      const { data, error } = await supabase.rpc('admin_update_platform_setting', {
+        p_key: key,
+        p_value: value as unknown as Json,
+      });
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) throw new Error(result.error || 'Update failed');
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['platform-settings'] });
+    },
+  });
+}
@@ -2,20 +2,28 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import { notifyNewOrder, notifyOrderStatusChange, notifyNewMessage, notifyFundingOpportunity } from './useEmailNotification';
 
 interface PushNotificationState {
   isSupported: boolean;
   permission: NotificationPermission | 'default';
   isSubscribed: boolean;
+  // This device's Web Push subscription is stored for push-dispatcher
+  isDeviceRegistered: boolean;
 }
 
+// VAPID keys are base64url; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
 export const usePushNotifications = () => {
   const { user } = useAuth();
   const [state, setState] = useState<PushNotificationState>({
     isSupported: false,
     permission: 'default',
     isSubscribed: false,
+    isDeviceRegistered: false,
   });
 
   useEffect(() => {
@@ -29,6 +37,70 @@ export const usePushNotifications = () => {
     }));
   }, []);
 
+  // Subscribes this browser to Web Push and stores the subscription, so
+  // notifications reach the device while the app is closed
+  const registerDevice = useCallback(async () => {
+    if (!user || !('PushManager' in window)) return false;
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      let subscription = await registration.pushManager.getSubscription();
+
+      if (!subscription) {
+        const { data, error } = await supabase.functions.invoke('push-dispatcher', {
+          body: { action: 'public_key' },
+        });
+        if (error || !data?.success) {
+          console.error('Push notifications are not configured:', error || data?.error);
+          return false;
+        }
+
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(data.data.publicKey),
+        });
+      }
+
+      const { endpoint, keys } = subscription.toJSON();
+      const { data: result, error } = await supabase.rpc('register_push_subscription', {
+        p_endpoint: endpoint!,
+        p_p256dh: keys!.p256dh,
+        p_auth: keys!.auth,
+        p_device_info: { userAgent: navigator.userAgent },
+      });
+      if (error) throw error;
+      if (!(result as { success: boolean }).success) return false;
+
+      setState(prev => ({ ...prev, isDeviceRegistered: true }));
+      return true;
+    } catch (error) {
+      console.error('Error registering device for push:', error);
+      return false;
+    }
+  }, [user]);
+
+  // Keep the stored subscription current whenever the user comes back
+  useEffect(() => {
+    if (state.permission === 'granted') {
+      registerDevice();
+    }
+  }, [state.permission, registerDevice]);
+
+  const sendTestPush = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('push-dispatcher', {
+      body: { action: 'test' },
+    });
+    if (error || !data?.success) {
+      toast.error('Could not send a test notification');
+      return;
+    }
+    if (data.data.sent > 0) {
+      toast.success(`Test notification sent to ${data.data.sent} device${data.data.sent === 1 ? '' : 's'}`);
+    } else {
+      toast.error('No device is registered for push notifications yet');
+    }
+  }, []);
+
   const requestPermission = useCallback(async () => {
     if (!state.isSupported) {
       toast.error('Push notifications are not supported in this browser');
@@ -94,8 +166,9 @@ export const usePushNotifications = () => {
           table: 'negotiation_messages',
           filter: `sender_id=neq.${user.id}`,
         },
-        async (payload) => {
-          // Show push notification if permission granted
+        (payload) => {
+          // Show push notification if permission granted. Email and device
+          // push come from the server's notification router.
           if (state.permission === 'granted') {
             showNotification('New Message', {
               body: 'You have a new message in your negotiation',
@@ -103,41 +176,6 @@ export const usePushNotifications = () => {
               data: { type: 'message', id: payload.new.id },
             });
           }
-          
-          // Also try to send email notification
-          try {
-            // Get the negotiation to find the recipient
-            const message = payload.new as any;
-            const { data: negotiation } = await supabase
-              .from('negotiations')
-              .select('client_id, provider_id')
-              .eq('id', message.negotiation_id)
-              .single();
-            
-            if (negotiation) {
-              const recipientId = message.sender_id === negotiation.client_id 
-                ? negotiation.provider_id 
-                : negotiation.client_id;
-              
-              // Get sender name
-              const { data: sender } = await supabase
-                .from('profiles')
-                .select('full_name, business_name')
-                .eq('id', message.sender_id)
-                .single();
-              
-              const senderName = sender?.full_name || sender?.business_name || 'Someone';
-              
-              await notifyNewMessage(
-                recipientId,
-                senderName,
-                message.message || '',
-                message.id
-              );
-            }
-          } catch (error) {
-            console.error('Error sending email notification:', error);
-          }
         }
       )
       .subscribe();
@@ -152,7 +190,7 @@ export const usePushNotifications = () => {
           schema: 'public',
           table: 'orders',
         },
-        async (payload) => {
+        (payload) => {
           const order = payload.new as any;
           
           // Only notify the provider
@@ -165,22 +203,6 @@ export const usePushNotifications = () => {
               });
             }
           }
-          
-          // Send email notification to provider
-          try {
-            await notifyNewOrder(
-              order.provider_id,
-              {
-                service: order.service_title,
-                amount: order.total_amount,
-                currency: order.currency,
-                status: order.status
-              },
-              order.id
-            );
-          } catch (error) {
-            console.error('Error sending order email:', error);
-          }
         }
       )
       .on(
@@ -190,38 +212,16 @@ export const usePushNotifications = () => {
           schema: 'public',
           table: 'orders',
         },
-        async (payload) => {
+        (payload) => {
           const order = payload.new as any;
           const isParticipant = order.client_id === user.id || order.provider_id === user.id;
           
-          if (isParticipant) {
-            if (state.permission === 'granted') {
-              showNotification('Order Updated', {
-                body: `Order "${order.service_title}" status changed to ${order.status}`,
-                tag: 'order-update',
-                data: { type: 'order', id: order.id },
-              });
-            }
-            
-            // Notify the other party via email
-            try {
-              const notifyUserId = order.client_id === user.id 
-                ? order.provider_id 
-                : order.client_id;
-              
-              await notifyOrderStatusChange(
-                notifyUserId,
-                {
-                  service: order.service_title,
-                  amount: order.total_amount,
-                  currency: order.currency,
-                  status: order.status
-                },
-                order.id
-              );
-            } catch (error) {
-              console.error('Error sending order update email:', error);
-            }
+          if (isParticipant && state.permission === 'granted') {
+            showNotification('Order Updated', {
+              body: `Order "${order.service_title}" status changed to ${order.status}`,
+              tag: 'order-update',
+              data: { type: 'order', id: order.id },
+            });
           }
         }
       )
@@ -237,7 +237,7 @@ export const usePushNotifications = () => {
           schema: 'public',
           table: 'funding_opportunities',
         },
-        async (payload) => {
+        (payload) => {
           const opportunity = payload.new as any;
           
           if (state.permission === 'granted') {
@@ -247,9 +247,6 @@ export const usePushNotifications = () => {
               data: { type: 'funding', id: opportunity.id },
             });
           }
-          
-          // Send email to users who match the opportunity criteria
-          // This is handled in a separate scheduled function for efficiency
         }
       )
       .subscribe();
@@ -267,6 +264,8 @@ export const usePushNotifications = () => {
   return {
     ...state,
     requestPermission,
+    registerDevice,
+    sendTestPush,
     showNotification,
   };
 };
@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  calculateTax,
+  loadTaxRules,
+  loadVatStatus,
+  type TaxBreakdown,
+  type TaxCategory,
+} from '@/lib/tax';
+
+// Rules in effect today. They change rarely, so a long stale time is fine.
+export function useTaxRules() {
+  return useQuery({
+    queryKey: ['tax-rules'],
+    queryFn: () => loadTaxRules(supabase),
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+interface UseTaxBreakdownOptions {
+  amount: number;
+  category: TaxCategory;
+  currency?: string;
+  // The seller whose VAT status decides whether VAT applies
+  sellerId?: string | null;
+}
+
+export function useTaxBreakdown({ amount, category, currency = 'ZMW', sellerId }: UseTaxBreakdownOptions) {
+  const { data: rules, isLoading: rulesLoading } = useTaxRules();
+  const { data: vatStatus, isLoading: statusLoading } = useQuery({
+    queryKey: ['vat-status', sellerId],
+    queryFn: () => loadVatStatus(supabase, sellerId),
+    enabled: !!sellerId,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const breakdown = useMemo<TaxBreakdown | null>(() => {
+    if (!rules || amount <= 0) return null;
+    return calculateTax(rules, { amount, currency, category, sellerVatStatus: vatStatus });
+  }, [rules, amount, currency, category, vatStatus]);
+
+  return { breakdown, isLoading: rulesLoading || (!!sellerId && statusLoading) };
+}
@@ -14,6 +14,57 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_usage_events: {
+        Row: {
+          attempt: number
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          error: string | null
+          feature: string
+          id: string
+          latency_ms: number | null
+          model: string
+          prompt_tokens: number
+          provider: string
+          status: string
+          total_tokens: number | null
+          user_id: string | null
+        }
+        Insert: {
+          attempt?: number
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          feature: string
+          id?: string
+          latency_ms?: number | null
+          model: string
+          prompt_tokens?: number
+          provider: string
+          status: string
+          total_tokens?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          attempt?: number
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          feature?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          status?: string
+          total_tokens?: number | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -133,6 +184,248 @@ export type Database = {
         }
         Relationships: []
       }
+      conversation_participants: {
+        Row: {
+          archived_at: string | null
+          conversation_id: string
+          joined_at: string
+          last_read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          conversation_id: string
+          joined_at?: string
+          last_read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          conversation_id?: string
+          joined_at?: string
+          last_read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          last_message_at: string
+          service_id: string | null
+          subject: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          last_message_at?: string
+          service_id?: string | null
+          subject?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_message_at?: string
+          service_id?: string | null
+          subject?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_evidence: {
+        Row: {
+          created_at: string
+          dispute_id: string
+          file_name: string
+          file_path: string
+          id: string
+          mime_type: string | null
+          note: string | null
+          uploaded_by: string
+        }
+        Insert: {
+          created_at?: string
+          dispute_id: string
+          file_name: string
+          file_path: string
+          id?: string
+          mime_type?: string | null
+          note?: string | null
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          dispute_id?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          mime_type?: string | null
+          note?: string | null
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      disputes: {
+        Row: {
+          client_amount: number | null
+          client_transaction_id: string | null
+          created_at: string
+          id: string
+          milestone_id: string | null
+          opened_by: string
+          order_id: string
+          outcome: string | null
+          provider_amount: number | null
+          provider_transaction_id: string | null
+          reason: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          client_amount?: number | null
+          client_transaction_id?: string | null
+          created_at?: string
+          id?: string
+          milestone_id?: string | null
+          opened_by: string
+          order_id: string
+          outcome?: string | null
+          provider_amount?: number | null
+          provider_transaction_id?: string | null
+          reason: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          client_amount?: number | null
+          client_transaction_id?: string | null
+          created_at?: string
+          id?: string
+          milestone_id?: string | null
+          opened_by?: string
+          order_id?: string
+          outcome?: string | null
+          provider_amount?: number | null
+          provider_transaction_id?: string | null
+          reason?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_client_transaction_id_fkey"
+            columns: ["client_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "order_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_provider_transaction_id_fkey"
+            columns: ["provider_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_number_sequences: {
+        Row: {
+          document_type: string
+          last_number: number
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          document_type: string
+          last_number?: number
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          document_type?: string
+          last_number?: number
+          updated_at?: string
+          year?: number
+        }
+        Relationships: []
+      }
       donations: {
         Row: {
           amount: number
@@ -472,8 +765,12 @@ export type Database = {
           funding_id: string
           id: string
           match_score: number
+          narrative_source: string
           reasons: string[] | null
+          scoring_version: string | null
           sme_id: string
+          sub_scores: Json
+          updated_at: string
         }
         Insert: {
           action_plan?: string | null
@@ -481,8 +778,12 @@ export type Database = {
           funding_id: string
           id?: string
           match_score: number
+          narrative_source?: string
           reasons?: string[] | null
+          scoring_version?: string | null
           sme_id: string
+          sub_scores?: Json
+          updated_at?: string
         }
         Update: {
           action_plan?: string | null
@@ -490,8 +791,12 @@ export type Database = {
           funding_id?: string
           id?: string
           match_score?: number
+          narrative_source?: string
           reasons?: string[] | null
+          scoring_version?: string | null
           sme_id?: string
+          sub_scores?: Json
+          updated_at?: string
         }
         Relationships: [
           {
@@ -640,6 +945,146 @@ export type Database = {
         }
         Relationships: []
       }
+      fx_quotes: {
+        Row: {
+          amount: number
+          converted_amount: number
+          created_at: string
+          expires_at: string
+          final_amount: number
+          from_currency: string
+          from_rate_history_id: string | null
+          id: string
+          rate: number
+          rate_fetched_at: string
+          source: string
+          to_currency: string
+          to_rate_history_id: string | null
+          user_id: string | null
+          vat_amount: number
+          vat_rate: number
+        }
+        Insert: {
+          amount: number
+          converted_amount: number
+          created_at?: string
+          expires_at: string
+          final_amount: number
+          from_currency: string
+          from_rate_history_id?: string | null
+          id?: string
+          rate: number
+          rate_fetched_at: string
+          source: string
+          to_currency: string
+          to_rate_history_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+          vat_rate?: number
+        }
+        Update: {
+          amount?: number
+          converted_amount?: number
+          created_at?: string
+          expires_at?: string
+          final_amount?: number
+          from_currency?: string
+          from_rate_history_id?: string | null
+          id?: string
+          rate?: number
+          rate_fetched_at?: string
+          source?: string
+          to_currency?: string
+          to_rate_history_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_quotes_from_rate_history_id_fkey"
+            columns: ["from_rate_history_id"]
+            isOneToOne: false
+            referencedRelation: "fx_rate_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fx_quotes_to_rate_history_id_fkey"
+            columns: ["to_rate_history_id"]
+            isOneToOne: false
+            referencedRelation: "fx_rate_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fx_rate_history: {
+        Row: {
+          base_currency: string
+          created_at: string
+          fetched_at: string
+          id: string
+          quote_currency: string
+          rate: number
+          source: string
+        }
+        Insert: {
+          base_currency?: string
+          created_at?: string
+          fetched_at?: string
+          id?: string
+          quote_currency: string
+          rate: number
+          source: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          fetched_at?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          source?: string
+        }
+        Relationships: []
+      }
+      fx_rates: {
+        Row: {
+          base_currency: string
+          fetched_at: string
+          history_id: string | null
+          quote_currency: string
+          rate: number
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          base_currency?: string
+          fetched_at?: string
+          history_id?: string | null
+          quote_currency: string
+          rate: number
+          source: string
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          fetched_at?: string
+          history_id?: string | null
+          quote_currency?: string
+          rate?: number
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fx_rates_history_id_fkey"
+            columns: ["history_id"]
+            isOneToOne: false
+            referencedRelation: "fx_rate_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       government_profiles: {
         Row: {
           collaboration_interests: string[]
@@ -814,6 +1259,78 @@ export type Database = {
           },
         ]
       }
+      matcher_runs: {
+        Row: {
+          created_at: string
+          criteria: Json
+          id: string
+          matcher: string
+          result_count: number
+          results: Json
+          scoring_version: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          criteria?: Json
+          id?: string
+          matcher: string
+          result_count?: number
+          results?: Json
+          scoring_version: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          criteria?: Json
+          id?: string
+          matcher?: string
+          result_count?: number
+          results?: Json
+          scoring_version?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       needs_assessments: {
         Row: {
           ai_analysis: Json | null
@@ -911,6 +1428,8 @@ export type Database = {
       }
       negotiations: {
         Row: {
+          addon_ids: string[]
+          awaiting_party: string
           client_id: string
           created_at: string
           current_price: number
@@ -918,7 +1437,10 @@ export type Database = {
           final_price: number | null
           id: string
           initial_price: number
+          last_offer_by: string | null
           notes: string | null
+          offer_count: number
+          package_id: string | null
           platform_fee: number | null
           provider_id: string
           service_id: string | null
@@ -927,6 +1449,8 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          addon_ids?: string[]
+          awaiting_party?: string
           client_id: string
           created_at?: string
           current_price: number
@@ -934,7 +1458,10 @@ export type Database = {
           final_price?: number | null
           id?: string
           initial_price: number
+          last_offer_by?: string | null
           notes?: string | null
+          offer_count?: number
+          package_id?: string | null
           platform_fee?: number | null
           provider_id: string
           service_id?: string | null
@@ -943,6 +1470,8 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          addon_ids?: string[]
+          awaiting_party?: string
           client_id?: string
           created_at?: string
           current_price?: number
@@ -950,7 +1479,10 @@ export type Database = {
           final_price?: number | null
           id?: string
           initial_price?: number
+          last_offer_by?: string | null
           notes?: string | null
+          offer_count?: number
+          package_id?: string | null
           platform_fee?: number | null
           provider_id?: string
           service_id?: string | null
@@ -966,48 +1498,82 @@ export type Database = {
             referencedRelation: "services"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "negotiations_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "service_packages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notification_logs: {
         Row: {
+          channels: string[]
           created_at: string
+          email_message_id: string | null
           email_sent: boolean | null
+          event: string | null
           id: string
           message: string | null
+          notification_id: string | null
           notification_type: string
+          push_sent: number
           related_id: string | null
           sent_at: string | null
+          skipped: Json
           title: string
           user_id: string | null
         }
         Insert: {
+          channels?: string[]
           created_at?: string
+          email_message_id?: string | null
           email_sent?: boolean | null
+          event?: string | null
           id?: string
           message?: string | null
+          notification_id?: string | null
           notification_type: string
+          push_sent?: number
           related_id?: string | null
           sent_at?: string | null
+          skipped?: Json
           title: string
           user_id?: string | null
         }
         Update: {
+          channels?: string[]
           created_at?: string
+          email_message_id?: string | null
           email_sent?: boolean | null
+          event?: string | null
           id?: string
           message?: string | null
+          notification_id?: string | null
           notification_type?: string
+          push_sent?: number
           related_id?: string | null
           sent_at?: string | null
+          skipped?: Json
           title?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notification_logs_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       notification_preferences: {
         Row: {
           frequency: string | null
           funding_alerts: boolean | null
+          last_digest_at: string | null
           match_alerts: boolean | null
           messages: boolean | null
           product_updates: boolean | null
@@ -1018,6 +1584,7 @@ export type Database = {
         Insert: {
           frequency?: string | null
           funding_alerts?: boolean | null
+          last_digest_at?: string | null
           match_alerts?: boolean | null
           messages?: boolean | null
           product_updates?: boolean | null
@@ -1028,6 +1595,7 @@ export type Database = {
         Update: {
           frequency?: string | null
           funding_alerts?: boolean | null
+          last_digest_at?: string | null
           match_alerts?: boolean | null
           messages?: boolean | null
           product_updates?: boolean | null
@@ -1079,6 +1647,7 @@ export type Database = {
           created_at: string
           data: Json | null
           id: string
+          pushed_at: string | null
           read_at: string | null
           title: string
           type: string
@@ -1089,6 +1658,7 @@ export type Database = {
           created_at?: string
           data?: Json | null
           id?: string
+          pushed_at?: string | null
           read_at?: string | null
           title: string
           type: string
@@ -1099,6 +1669,7 @@ export type Database = {
           created_at?: string
           data?: Json | null
           id?: string
+          pushed_at?: string | null
           read_at?: string | null
           title?: string
           type?: string
@@ -1142,72 +1713,231 @@ export type Database = {
           },
         ]
       }
+      order_milestones: {
+        Row: {
+          amount: number
+          approved_at: string | null
+          auto_accept_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_note: string | null
+          description: string | null
+          due_date: string | null
+          escrow_amount: number
+          escrow_status: string
+          funded_at: string | null
+          funding_transaction_id: string | null
+          id: string
+          order_id: string
+          platform_fee: number
+          position: number
+          provider_payout: number | null
+          released_at: string | null
+          status: string
+          tax_amount: number
+          tax_lines: Json
+          title: string
+          updated_at: string
+          withholding_amount: number
+        }
+        Insert: {
+          amount: number
+          approved_at?: string | null
+          auto_accept_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_note?: string | null
+          description?: string | null
+          due_date?: string | null
+          escrow_amount?: number
+          escrow_status?: string
+          funded_at?: string | null
+          funding_transaction_id?: string | null
+          id?: string
+          order_id: string
+          platform_fee?: number
+          position: number
+          provider_payout?: number | null
+          released_at?: string | null
+          status?: string
+          tax_amount?: number
+          tax_lines?: Json
+          title: string
+          updated_at?: string
+          withholding_amount?: number
+        }
+        Update: {
+          amount?: number
+          approved_at?: string | null
+          auto_accept_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_note?: string | null
+          description?: string | null
+          due_date?: string | null
+          escrow_amount?: number
+          escrow_status?: string
+          funded_at?: string | null
+          funding_transaction_id?: string | null
+          id?: string
+          order_id?: string
+          platform_fee?: number
+          position?: number
+          provider_payout?: number | null
+          released_at?: string | null
+          status?: string
+          tax_amount?: number
+          tax_lines?: Json
+          title?: string
+          updated_at?: string
+          withholding_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_milestones_funding_transaction_id_fkey"
+            columns: ["funding_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_milestones_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          accepted_at: string | null
+          addons: Json
           agreed_price: number
+          auto_accept_at: string | null
           client_id: string
           client_rating: number | null
           client_review: string | null
           completed_at: string | null
           created_at: string
           currency: string
+          delivered_at: string | null
+          delivery_days: number | null
           delivery_deadline: string | null
+          delivery_note: string | null
+          escrow_amount: number
+          escrow_status: string
+          funded_at: string | null
+          funding_transaction_id: string | null
           id: string
           negotiation_id: string | null
+          package_id: string | null
+          package_name: string | null
+          package_tier: string | null
+          payment_schedule: string
           payment_status: string | null
           platform_fee: number | null
           provider_id: string
+          provider_payout: number | null
           provider_rating: number | null
           provider_review: string | null
+          released_at: string | null
+          revisions_included: number | null
           service_id: string | null
           service_title: string
+          started_at: string | null
           status: string
+          tax_amount: number
+          tax_lines: Json
           total_amount: number
           updated_at: string
+          withholding_amount: number
         }
         Insert: {
+          accepted_at?: string | null
+          addons?: Json
           agreed_price: number
+          auto_accept_at?: string | null
           client_id: string
           client_rating?: number | null
           client_review?: string | null
           completed_at?: string | null
           created_at?: string
           currency?: string
+          delivered_at?: string | null
+          delivery_days?: number | null
           delivery_deadline?: string | null
+          delivery_note?: string | null
+          escrow_amount?: number
+          escrow_status?: string
+          funded_at?: string | null
+          funding_transaction_id?: string | null
           id?: string
           negotiation_id?: string | null
+          package_id?: string | null
+          package_name?: string | null
+          package_tier?: string | null
+          payment_schedule?: string
           payment_status?: string | null
           platform_fee?: number | null
           provider_id: string
+          provider_payout?: number | null
           provider_rating?: number | null
           provider_review?: string | null
+          released_at?: string | null
+          revisions_included?: number | null
           service_id?: string | null
           service_title: string
+          started_at?: string | null
           status?: string
+          tax_amount?: number
+          tax_lines?: Json
           total_amount: number
           updated_at?: string
+          withholding_amount?: number
         }
         Update: {
+          accepted_at?: string | null
+          addons?: Json
           agreed_price?: number
+          auto_accept_at?: string | null
           client_id?: string
           client_rating?: number | null
           client_review?: string | null
           completed_at?: string | null
           created_at?: string
           currency?: string
+          delivered_at?: string | null
+          delivery_days?: number | null
           delivery_deadline?: string | null
+          delivery_note?: string | null
+          escrow_amount?: number
+          escrow_status?: string
+          funded_at?: string | null
+          funding_transaction_id?: string | null
           id?: string
           negotiation_id?: string | null
+          package_id?: string | null
+          package_name?: string | null
+          package_tier?: string | null
+          payment_schedule?: string
           payment_status?: string | null
           platform_fee?: number | null
           provider_id?: string
+          provider_payout?: number | null
           provider_rating?: number | null
           provider_review?: string | null
+          released_at?: string | null
+          revisions_included?: number | null
           service_id?: string | null
           service_title?: string
+          started_at?: string | null
           status?: string
+          tax_amount?: number
+          tax_lines?: Json
           total_amount?: number
           updated_at?: string
+          withholding_amount?: number
         }
         Relationships: [
           {
@@ -1224,6 +1954,20 @@ export type Database = {
             referencedRelation: "services"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "orders_funding_transaction_id_fkey"
+            columns: ["funding_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "service_packages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       partners: {
@@ -1441,33 +2185,125 @@ export type Database = {
         }
         Relationships: []
       }
+      platform_fee_discounts: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          discount_percent: number
+          effective_from: string
+          effective_to: string | null
+          id: string
+          is_active: boolean
+          note: string | null
+          plan_id: string | null
+          provider_id: string | null
+          scope: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          discount_percent: number
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          note?: string | null
+          plan_id?: string | null
+          provider_id?: string | null
+          scope: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          discount_percent?: number
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          note?: string | null
+          plan_id?: string | null
+          provider_id?: string | null
+          scope?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "platform_fee_discounts_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       platform_fee_tiers: {
         Row: {
           created_at: string
+          created_by: string | null
           currency: string
+          effective_from: string
+          effective_to: string | null
           fee_percentage: number
           id: string
           is_active: boolean | null
           max_amount: number | null
           min_amount: number
+          transaction_type: string
+          updated_at: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           currency?: string
+          effective_from?: string
+          effective_to?: string | null
           fee_percentage: number
           id?: string
           is_active?: boolean | null
           max_amount?: number | null
           min_amount: number
+          transaction_type?: string
+          updated_at?: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           currency?: string
+          effective_from?: string
+          effective_to?: string | null
           fee_percentage?: number
           id?: string
           is_active?: boolean | null
           max_amount?: number | null
           min_amount?: number
+          transaction_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      platform_settings: {
+        Row: {
+          created_at: string
+          key: string
+          updated_at: string
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          created_at?: string
+          key: string
+          updated_at?: string
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          updated_at?: string
+          updated_by?: string | null
+          value?: Json
         }
         Relationships: []
       }
@@ -1682,11 +2518,16 @@ export type Database = {
         Row: {
           auth: string | null
           created_at: string
+          deactivated_at: string | null
           device_info: Json | null
           endpoint: string | null
+          failure_count: number
           fcm_token: string | null
           id: string
           is_active: boolean | null
+          last_error: string | null
+          last_failure_at: string | null
+          last_success_at: string | null
           p256dh: string | null
           provider: string
           updated_at: string
@@ -1695,11 +2536,16 @@ export type Database = {
         Insert: {
           auth?: string | null
           created_at?: string
+          deactivated_at?: string | null
           device_info?: Json | null
           endpoint?: string | null
+          failure_count?: number
           fcm_token?: string | null
           id?: string
           is_active?: boolean | null
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_success_at?: string | null
           p256dh?: string | null
           provider: string
           updated_at?: string
@@ -1708,11 +2554,16 @@ export type Database = {
         Update: {
           auth?: string | null
           created_at?: string
+          deactivated_at?: string | null
           device_info?: Json | null
           endpoint?: string | null
+          failure_count?: number
           fcm_token?: string | null
           id?: string
           is_active?: boolean | null
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_success_at?: string | null
           p256dh?: string | null
           provider?: string
           updated_at?: string
@@ -1868,10 +2719,189 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "referrals_partner_id_fkey"
-            columns: ["partner_id"]
+            foreignKeyName: "referrals_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "v_public_partners"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_addons: {
+        Row: {
+          created_at: string
+          description: string | null
+          extra_delivery_days: number
+          id: string
+          is_active: boolean
+          position: number
+          price: number
+          service_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          extra_delivery_days?: number
+          id?: string
+          is_active?: boolean
+          position?: number
+          price: number
+          service_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          extra_delivery_days?: number
+          id?: string
+          is_active?: boolean
+          position?: number
+          price?: number
+          service_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_addons_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_packages: {
+        Row: {
+          created_at: string
+          delivery_days: number
+          description: string | null
+          features: string[]
+          id: string
+          name: string
+          price: number
+          revisions: number | null
+          service_id: string
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          delivery_days: number
+          description?: string | null
+          features?: string[]
+          id?: string
+          name: string
+          price: number
+          revisions?: number | null
+          service_id: string
+          tier: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          delivery_days?: number
+          description?: string | null
+          features?: string[]
+          id?: string
+          name?: string
+          price?: number
+          revisions?: number | null
+          service_id?: string
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_packages_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_price_floors: {
+        Row: {
+          created_at: string
+          floor_price: number
+          provider_id: string
+          service_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          floor_price: number
+          provider_id: string
+          service_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          floor_price?: number
+          provider_id?: string
+          service_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_price_floors_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_review_reports_review_id_fkey"
+            columns: ["review_id"]
             isOneToOne: false
-            referencedRelation: "v_public_partners"
+            referencedRelation: "service_reviews"
             referencedColumns: ["id"]
           },
         ]
@@ -1879,6 +2909,8 @@ export type Database = {
       service_reviews: {
         Row: {
           created_at: string
+          hidden_at: string | null
+          hidden_reason: string | null
           id: string
           is_verified_purchase: boolean | null
           order_id: string | null
@@ -1892,6 +2924,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          hidden_at?: string | null
+          hidden_reason?: string | null
           id?: string
           is_verified_purchase?: boolean | null
           order_id?: string | null
@@ -1905,6 +2939,8 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          hidden_at?: string | null
+          hidden_reason?: string | null
           id?: string
           is_verified_purchase?: boolean | null
           order_id?: string | null
@@ -1938,6 +2974,7 @@ export type Database = {
           category: string
           created_at: string
           currency: string
+          delivery_days: number | null
           delivery_time: string | null
           description: string | null
           id: string
@@ -1947,15 +2984,23 @@ export type Database = {
           location: string | null
           max_price: number | null
           min_price: number | null
+          moderation_note: string | null
           orders_count: number | null
+          pause_message: string | null
+          paused_at: string | null
+          paused_until: string | null
           price: number
           price_type: string | null
           provider_id: string
           provider_type: string | null
+          published_at: string | null
           rating: number | null
           reviews_count: number | null
+          search_vector: unknown | null
           skills: string[] | null
+          status: string
           subcategory: string | null
+          submitted_at: string | null
           title: string
           updated_at: string
         }
@@ -1963,6 +3008,7 @@ export type Database = {
           category: string
           created_at?: string
           currency?: string
+          delivery_days?: number | null
           delivery_time?: string | null
           description?: string | null
           id?: string
@@ -1972,15 +3018,23 @@ export type Database = {
           location?: string | null
           max_price?: number | null
           min_price?: number | null
+          moderation_note?: string | null
           orders_count?: number | null
+          pause_message?: string | null
+          paused_at?: string | null
+          paused_until?: string | null
           price?: number
           price_type?: string | null
           provider_id: string
           provider_type?: string | null
+          published_at?: string | null
           rating?: number | null
           reviews_count?: number | null
+          search_vector?: unknown | null
           skills?: string[] | null
+          status?: string
           subcategory?: string | null
+          submitted_at?: string | null
           title: string
           updated_at?: string
         }
@@ -1988,6 +3042,7 @@ export type Database = {
           category?: string
           created_at?: string
           currency?: string
+          delivery_days?: number | null
           delivery_time?: string | null
           description?: string | null
           id?: string
@@ -1997,15 +3052,23 @@ export type Database = {
           location?: string | null
           max_price?: number | null
           min_price?: number | null
+          moderation_note?: string | null
           orders_count?: number | null
+          pause_message?: string | null
+          paused_at?: string | null
+          paused_until?: string | null
           price?: number
           price_type?: string | null
           provider_id?: string
           provider_type?: string | null
+          published_at?: string | null
           rating?: number | null
           reviews_count?: number | null
+          search_vector?: unknown | null
           skills?: string[] | null
+          status?: string
           subcategory?: string | null
+          submitted_at?: string | null
           title?: string
           updated_at?: string
         }
@@ -2131,7 +3194,9 @@ export type Database = {
           services_or_products: string
           team_size_range: string | null
           top_needs: string[]
+          tpin: string | null
           updated_at: string
+          vat_status: string
           year_established: number | null
         }
         Insert: {
@@ -2152,7 +3217,9 @@ export type Database = {
           services_or_products: string
           team_size_range?: string | null
           top_needs?: string[]
+          tpin?: string | null
           updated_at?: string
+          vat_status?: string
           year_established?: number | null
         }
         Update: {
@@ -2173,7 +3240,9 @@ export type Database = {
           services_or_products?: string
           team_size_range?: string | null
           top_needs?: string[]
+          tpin?: string | null
           updated_at?: string
+          vat_status?: string
           year_established?: number | null
         }
         Relationships: [
@@ -2214,6 +3283,107 @@ export type Database = {
           },
         ]
       }
+      subscription_plan_changes: {
+        Row: {
+          amount: number
+          applied_at: string | null
+          created_at: string
+          currency: string
+          direction: string
+          effective_at: string | null
+          failure_reason: string | null
+          from_plan_id: string | null
+          id: string
+          mode: string
+          new_period_end: string | null
+          new_period_start: string | null
+          new_plan_cost: number
+          remaining_fraction: number
+          status: string
+          subscription_id: string
+          to_plan_id: string
+          transaction_id: string | null
+          unused_credit: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          applied_at?: string | null
+          created_at?: string
+          currency: string
+          direction: string
+          effective_at?: string | null
+          failure_reason?: string | null
+          from_plan_id?: string | null
+          id?: string
+          mode: string
+          new_period_end?: string | null
+          new_period_start?: string | null
+          new_plan_cost?: number
+          remaining_fraction?: number
+          status?: string
+          subscription_id: string
+          to_plan_id: string
+          transaction_id?: string | null
+          unused_credit?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          applied_at?: string | null
+          created_at?: string
+          currency?: string
+          direction?: string
+          effective_at?: string | null
+          failure_reason?: string | null
+          from_plan_id?: string | null
+          id?: string
+          mode?: string
+          new_period_end?: string | null
+          new_period_start?: string | null
+          new_plan_cost?: number
+          remaining_fraction?: number
+          status?: string
+          subscription_id?: string
+          to_plan_id?: string
+          transaction_id?: string | null
+          unused_credit?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_plan_changes_from_plan_id_fkey"
+            columns: ["from_plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_plan_changes_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_plan_changes_to_plan_id_fkey"
+            columns: ["to_plan_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_plan_changes_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscription_plans: {
         Row: {
           account_type: string
@@ -2265,12 +3435,19 @@ export type Database = {
           current_period_end: string
           current_period_start: string
           environment: string
+          grace_period_end: string | null
           id: string
+          last_renewal_attempt_at: string | null
+          last_renewal_error: string | null
+          next_renewal_attempt_at: string | null
           paddle_customer_id: string | null
           paddle_subscription_id: string | null
+          past_due_at: string | null
           plan_id: string
           price_id: string | null
           product_id: string | null
+          renewal_attempts: number
+          renewal_reminder_sent_for: string | null
           status: Database["public"]["Enums"]["subscription_status"]
           trial_end: string | null
           updated_at: string
@@ -2284,12 +3461,19 @@ export type Database = {
           current_period_end: string
           current_period_start?: string
           environment?: string
+          grace_period_end?: string | null
           id?: string
+          last_renewal_attempt_at?: string | null
+          last_renewal_error?: string | null
+          next_renewal_attempt_at?: string | null
           paddle_customer_id?: string | null
           paddle_subscription_id?: string | null
+          past_due_at?: string | null
           plan_id: string
           price_id?: string | null
           product_id?: string | null
+          renewal_attempts?: number
+          renewal_reminder_sent_for?: string | null
           status?: Database["public"]["Enums"]["subscription_status"]
           trial_end?: string | null
           updated_at?: string
@@ -2303,12 +3487,19 @@ export type Database = {
           current_period_end?: string
           current_period_start?: string
           environment?: string
+          grace_period_end?: string | null
           id?: string
+          last_renewal_attempt_at?: string | null
+          last_renewal_error?: string | null
+          next_renewal_attempt_at?: string | null
           paddle_customer_id?: string | null
           paddle_subscription_id?: string | null
+          past_due_at?: string | null
           plan_id?: string
           price_id?: string | null
           product_id?: string | null
+          renewal_attempts?: number
+          renewal_reminder_sent_for?: string | null
           status?: Database["public"]["Enums"]["subscription_status"]
           trial_end?: string | null
           updated_at?: string
@@ -2348,66 +3539,227 @@ export type Database = {
         }
         Relationships: []
       }
+      tax_rules: {
+        Row: {
+          category: string
+          code: string
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          description: string | null
+          effective_from: string
+          effective_to: string | null
+          id: string
+          is_active: boolean
+          name: string
+          priority: number
+          rate: number
+          requires_vat_registered: boolean
+          tax_type: string
+          threshold_amount: number
+          treatment: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          code: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          description?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: number
+          rate: number
+          requires_vat_registered?: boolean
+          tax_type: string
+          threshold_amount?: number
+          treatment: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          description?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          priority?: number
+          rate?: number
+          requires_vat_registered?: boolean
+          tax_type?: string
+          threshold_amount?: number
+          treatment?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      transaction_documents: {
+        Row: {
+          created_at: string
+          currency: string
+          document_number: string
+          document_type: string
+          file_path: string | null
+          gross_amount: number
+          id: string
+          issued_at: string | null
+          issued_by: string | null
+          issued_to: string
+          net_amount: number
+          platform_fee: number
+          status: string
+          tax_amount: number
+          tax_lines: Json
+          transaction_id: string
+          updated_at: string
+          withholding_amount: number
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          document_number: string
+          document_type: string
+          file_path?: string | null
+          gross_amount: number
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          issued_to: string
+          net_amount?: number
+          platform_fee?: number
+          status?: string
+          tax_amount?: number
+          tax_lines?: Json
+          transaction_id: string
+          updated_at?: string
+          withholding_amount?: number
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          document_number?: string
+          document_type?: string
+          file_path?: string | null
+          gross_amount?: number
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          issued_to?: string
+          net_amount?: number
+          platform_fee?: number
+          status?: string
+          tax_amount?: number
+          tax_lines?: Json
+          transaction_id?: string
+          updated_at?: string
+          withholding_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_documents_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           amount: number
           created_at: string
           currency: string
           description: string | null
+          fx_quote_id: string | null
+          fx_rate: number | null
           id: string
           idempotency_key: string | null
           lenco_reference: string | null
           lenco_transaction_id: string | null
           metadata: Json | null
+          milestone_id: string | null
           net_amount: number | null
+          order_id: string | null
+          original_amount: number | null
+          original_currency: string | null
           platform_fee: number | null
           recipient_id: string | null
           service_id: string | null
           status: Database["public"]["Enums"]["payment_status"]
           subscription_id: string | null
+          tax_amount: number
+          tax_lines: Json
           transaction_type: Database["public"]["Enums"]["transaction_type"]
           updated_at: string
           user_id: string
+          withholding_amount: number
         }
         Insert: {
           amount: number
           created_at?: string
           currency?: string
           description?: string | null
+          fx_quote_id?: string | null
+          fx_rate?: number | null
           id?: string
           idempotency_key?: string | null
           lenco_reference?: string | null
           lenco_transaction_id?: string | null
           metadata?: Json | null
+          milestone_id?: string | null
           net_amount?: number | null
+          order_id?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           platform_fee?: number | null
           recipient_id?: string | null
           service_id?: string | null
           status?: Database["public"]["Enums"]["payment_status"]
           subscription_id?: string | null
+          tax_amount?: number
+          tax_lines?: Json
           transaction_type: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
           user_id: string
+          withholding_amount?: number
         }
         Update: {
           amount?: number
           created_at?: string
           currency?: string
           description?: string | null
+          fx_quote_id?: string | null
+          fx_rate?: number | null
           id?: string
           idempotency_key?: string | null
           lenco_reference?: string | null
           lenco_transaction_id?: string | null
           metadata?: Json | null
+          milestone_id?: string | null
           net_amount?: number | null
+          order_id?: string | null
+          original_amount?: number | null
+          original_currency?: string | null
           platform_fee?: number | null
           recipient_id?: string | null
           service_id?: string | null
           status?: Database["public"]["Enums"]["payment_status"]
           subscription_id?: string | null
+          tax_amount?: number
+          tax_lines?: Json
           transaction_type?: Database["public"]["Enums"]["transaction_type"]
           updated_at?: string
           user_id?: string
+          withholding_amount?: number
         }
         Relationships: [
           {
@@ -2417,6 +3769,27 @@ export type Database = {
             referencedRelation: "subscriptions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "order_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_fx_quote_id_fkey"
+            columns: ["fx_quote_id"]
+            isOneToOne: false
+            referencedRelation: "fx_quotes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -2455,38 +3828,59 @@ export type Database = {
           event_id: string
           event_type: string | null
           id: string
+          last_replayed_at: string | null
+          last_replayed_by: string | null
           payload: Json
           processed: boolean
           processed_at: string | null
           provider: string
           received_at: string
+          replay_count: number
         }
         Insert: {
           error?: string | null
           event_id: string
           event_type?: string | null
           id?: string
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
           payload?: Json
           processed?: boolean
           processed_at?: string | null
           provider: string
           received_at?: string
+          replay_count?: number
         }
         Update: {
           error?: string | null
           event_id?: string
           event_type?: string | null
           id?: string
+          last_replayed_at?: string | null
+          last_replayed_by?: string | null
           payload?: Json
           processed?: boolean
           processed_at?: string | null
           provider?: string
           received_at?: string
+          replay_count?: number
         }
         Relationships: []
       }
     }
     Views: {
+      ai_usage_daily: {
+        Row: {
+          calls: number | null
+          cost_usd: number | null
+          day: string | null
+          failed_calls: number | null
+          feature: string | null
+          total_tokens: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
       v_directory_profiles: {
         Row: {
           account_type: string | null
@@ -2528,6 +3922,8 @@ export type Database = {
           profile_photo_url: string | null
           rate_range: string | null
           rate_type: string | null
+          rating: number | null
+          reviews_count: number | null
           role_type: string | null
           services_or_programmes: string | null
           sme_sectors: string[] | null
@@ -2630,6 +4026,8 @@ export type Database = {
           profile_photo_url: string | null
           rate_range: string | null
           rate_type: string | null
+          rating: number | null
+          reviews_count: number | null
           role_type: string | null
           services_or_programmes: string | null
           sme_sectors: string[] | null
@@ -2762,6 +4160,22 @@ export type Database = {
       }
     }
     Functions: {
+      admin_add_email_suppression: {
+        Args: { p_email: string; p_note?: string; p_reason?: string }
+        Returns: Json
+      }
+      admin_email_send_stats: {
+        Args: { p_since: string }
+        Returns: Json
+      }
+      admin_fee_simulation_sample: {
+        Args: { p_limit?: number; p_since: string }
+        Returns: Json
+      }
+      admin_list_email_dlq: {
+        Args: { p_limit?: number; p_queue: string }
+        Returns: Json
+      }
       admin_list_profiles: {
         Args: { p_limit?: number }
         Returns: {
@@ -2839,6 +4253,18 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      admin_moderate_service: {
+        Args: { p_decision: string; p_note?: string; p_service_id: string }
+        Returns: Json
+      }
+      admin_purge_email_dlq: {
+        Args: { p_msg_ids?: number[]; p_queue: string }
+        Returns: Json
+      }
+      admin_remove_email_suppression: {
+        Args: { p_suppression_id: string }
+        Returns: Json
+      }
       admin_repair_wallet_transaction: {
         Args: {
           p_amount: number
@@ -2848,6 +4274,52 @@ export type Database = {
         }
         Returns: Json
       }
+      admin_requeue_email_dlq: {
+        Args: { p_msg_ids: number[]; p_queue: string }
+        Returns: Json
+      }
+      admin_resolve_dispute: {
+        Args: {
+          p_client_amount?: number
+          p_dispute_id: string
+          p_note?: string
+          p_outcome: string
+          p_provider_amount?: number
+        }
+        Returns: Json
+      }
+      admin_resolve_review_report: {
+        Args: { p_decision: string; p_note?: string; p_report_id: string }
+        Returns: Json
+      }
+      admin_review_dispute: {
+        Args: { p_dispute_id: string }
+        Returns: Json
+      }
+      admin_save_fee_discount: {
+        Args: { p_discount: Json; p_discount_id?: string }
+        Returns: Json
+      }
+      admin_save_fee_tier: {
+        Args: { p_tier: Json; p_tier_id?: string }
+        Returns: Json
+      }
+      admin_save_tax_rule: {
+        Args: { p_rule: Json; p_rule_id?: string }
+        Returns: Json
+      }
+      admin_set_vat_status: {
+        Args: { p_profile_id: string; p_tpin?: string; p_vat_status: string }
+        Returns: Json
+      }
+      admin_update_platform_setting: {
+        Args: { p_key: string; p_value: Json }
+        Returns: Json
+      }
+      advance_subscription_lifecycle: {
+        Args: { p_max_attempts?: number }
+        Returns: Json
+      }
       apply_wallet_transaction:
         | {
             Args: {
@@ -2884,10 +4356,46 @@ export type Database = {
         }
         Returns: Json
       }
+      auto_accept_delivered_orders: { Args: never; Returns: number }
       calculate_platform_fee: {
-        Args: { p_amount: number; p_currency: string }
+        Args: {
+          p_amount: number
+          p_at?: string
+          p_currency: string
+          p_provider_id?: string
+          p_transaction_type?: string
+        }
         Returns: number
       }
+      claim_transaction_document: {
+        Args: { p_document_type: string; p_transaction_id: string }
+        Returns: {
+          created_at: string
+          currency: string
+          document_number: string
+          document_type: string
+          file_path: string | null
+          gross_amount: number
+          id: string
+          issued_at: string | null
+          issued_by: string | null
+          issued_to: string
+          net_amount: number
+          platform_fee: number
+          status: string
+          tax_amount: number
+          tax_lines: Json
+          transaction_id: string
+          updated_at: string
+          withholding_amount: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "transaction_documents"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       complete_profile: {
         Args: {
           p_account_type: string
@@ -2906,6 +4414,15 @@ export type Database = {
         Args: { payload: Json; queue_name: string }
         Returns: number
       }
+      expire_negotiations: { Args: never; Returns: number }
+      fund_milestone_escrow: {
+        Args: { p_milestone_id: string; p_transaction_id: string }
+        Returns: Json
+      }
+      fund_order_escrow: {
+        Args: { p_order_id: string; p_transaction_id: string }
+        Returns: Json
+      }
       get_grace_period_end: { Args: never; Returns: string }
       get_my_profile: {
         Args: never
@@ -2984,6 +4501,10 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      get_subscription_grace_end: {
+        Args: { p_period_end: string }
+        Returns: string
+      }
       get_user_entitlements: { Args: { p_user_id: string }; Returns: Json }
       has_active_subscription: {
         Args: { check_env?: string; user_uuid: string }
@@ -2998,8 +4519,34 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { check_user_id: string }; Returns: boolean }
+      is_conversation_participant: {
+        Args: { p_conversation_id: string }
+        Returns: boolean
+      }
+      is_dispute_participant: {
+        Args: { p_dispute_id: string }
+        Returns: boolean
+      }
       is_promo_free_period: { Args: never; Returns: boolean }
+      is_transaction_party: {
+        Args: { p_transaction_id: string }
+        Returns: boolean
+      }
       jsonb_to_text_array: { Args: { p: Json }; Returns: string[] }
+      list_user_threads: {
+        Args: { p_include_archived?: boolean; p_user_id: string }
+        Returns: {
+          archived: boolean
+          conversation_id: string
+          last_message: string
+          last_message_at: string
+          last_sender_id: string
+          participants: Json
+          service_id: string
+          subject: string
+          unread_count: number
+        }[]
+      }
       move_to_dlq: {
         Args: {
           dlq_name: string
@@ -3009,6 +4556,18 @@ export type Database = {
         }
         Returns: number
       }
+      open_milestone_dispute: {
+        Args: { p_milestone_id: string; p_opened_by: string; p_reason: string }
+        Returns: Json
+      }
+      open_order_dispute: {
+        Args: { p_opened_by: string; p_order_id: string; p_reason: string }
+        Returns: Json
+      }
+      platform_setting_enabled: {
+        Args: { p_default: boolean; p_key: string }
+        Returns: boolean
+      }
       read_email_batch: {
         Args: { batch_size: number; queue_name: string; vt: number }
         Returns: {
@@ -3017,6 +4576,18 @@ export type Database = {
           read_ct: number
         }[]
       }
+      refresh_provider_rating: { Args: { p_provider_id: string }; Returns: undefined }
+      refresh_service_rating: { Args: { p_service_id: string }; Returns: undefined }
+      register_push_subscription: {
+        Args: {
+          p_auth: string
+          p_device_info?: Json
+          p_endpoint: string
+          p_p256dh: string
+        }
+        Returns: Json
+      }
+      resume_paused_services: { Args: never; Returns: number }
       revoke_admin_role: {
         Args: {
           p_role: Database["public"]["Enums"]["app_role"]
@@ -3033,6 +4604,71 @@ export type Database = {
         }
         Returns: Json
       }
+      search_services: {
+        Args: {
+          p_after_id?: string
+          p_after_key?: string
+          p_category?: string
+          p_limit?: number
+          p_location?: string
+          p_max_price?: number
+          p_min_price?: number
+          p_pattern?: string
+          p_provider_type?: string
+          p_query?: string
+          p_sort?: string
+        }
+        Returns: {
+          id: string
+          rank: number
+          sort_key: string
+        }[]
+      }
+      service_delivery_days: { Args: { p_delivery_time: string }; Returns: number }
+      service_search_facets: {
+        Args: {
+          p_category?: string
+          p_location?: string
+          p_max_price?: number
+          p_min_price?: number
+          p_pattern?: string
+          p_provider_type?: string
+          p_query?: string
+        }
+        Returns: Json
+      }
+      service_search_vector: {
+        Args: { p_description: string; p_skills: string[]; p_title: string }
+        Returns: unknown
+      }
+      settle_milestone_escrow: {
+        Args: {
+          p_client_amount: number
+          p_milestone_id: string
+          p_milestone_status: string
+          p_provider_amount: number
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      settle_order_escrow: {
+        Args: {
+          p_client_amount: number
+          p_order_id: string
+          p_order_status: string
+          p_provider_amount: number
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      sync_order_milestone_status: { Args: { p_order_id: string }; Returns: undefined }
+      transaction_amount_in: {
+        Args: {
+          p_currency: string
+          p_tx: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: number
+      }
     }
     Enums: {
       account_type_enum: "sme" | "freelancer" | "investor" | "government"
@@ -3049,6 +4685,7 @@ export type Database = {
         | "cancelled"
         | "expired"
         | "past_due"
+        | "grace"
         | "trialing"
       transaction_type:
         | "service_purchase"
@@ -3200,6 +4837,7 @@ export const Constants = {
         "cancelled",
         "expired",
         "past_due",
+        "grace",
         "trialing",
       ],
       transaction_type: [
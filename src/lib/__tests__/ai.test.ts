@@ -0,0 +1,184 @@
+import {
+  AiProviderError,
+  createMockAiProvider,
+  extractJson,
+  generateJson,
+  validateJson,
+  type AiCompletionRequest,
+  type AiProvider,
+  type JsonSchema,
+} from '../../../supabase/functions/_shared/ai';
+
+const matchSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    tier: { type: 'string', enum: ['gold', 'silver'] },
+    notes: { type: 'string', nullable: true },
+  },
+  required: ['id', 'score', 'tier'],
+};
+
+// Records ai_usage_events inserts; platform_settings is empty, so the
+// defaults (AI features on) apply unless rows are given
+const fakeSupabase = (settings: { key: string; value: unknown }[] = []) => {
+  const usage: Record<string, unknown>[] = [];
+  return {
+    usage,
+    from: (table: string) => ({
+      select: () => Promise.resolve({ data: table === 'platform_settings' ? settings : [], error: null }),
+      insert: (row: Record<string, unknown>) => {
+        usage.push(row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  };
+};
+
+// Replies with each entry in turn; an Error entry is thrown instead
+const scriptedProvider = (replies: (string | Error)[]) => {
+  const requests: AiCompletionRequest[] = [];
+  const provider: AiProvider = {
+    name: 'scripted',
+    defaultModel: 'mock',
+    complete(request) {
+      requests.push({ ...request, messages: [...request.messages] });
+      const reply = replies[Math.min(requests.length - 1, replies.length - 1)];
+      if (reply instanceof Error) return Promise.reject(reply);
+      return Promise.resolve({ content: reply, model: 'mock', usage: { promptTokens: 10, completionTokens: 5 } });
+    },
+  };
+  return { provider, requests };
+};
+
+const call = (supabase: ReturnType<typeof fakeSupabase>, provider: AiProvider, maxAttempts?: number) =>
+  generateJson<{ id: string; score: number; tier: string }>(supabase, {
+    feature: 'test.match',
+    messages: [{ role: 'user', content: 'Rank these' }],
+    schema: matchSchema,
+    provider,
+    model: 'mock',
+    maxAttempts,
+  });
+
+describe('extractJson', () => {
+  test('parses a bare JSON reply', () => {
+    expect(extractJson(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  test('finds JSON inside code fences and chatter', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": [1, 2]}\n```\nAnything else?')).toEqual({ a: [1, 2] });
+    expect(extractJson('Results: [{"id": "x"}] done')).toEqual([{ id: 'x' }]);
+  });
+
+  test('returns undefined when there is no JSON', () => {
+    expect(extractJson('I cannot help with that.')).toBeUndefined();
+    expect(extractJson('{"a": 1')).toBeUndefined();
+    expect(extractJson('{ not json }')).toBeUndefined();
+  });
+});
+
+describe('validateJson', () => {
+  test('accepts a matching value', () => {
+    expect(validateJson(matchSchema, { id: 'a', score: 80, tier: 'gold', notes: null })).toEqual([]);
+  });
+
+  test('reports missing required fields and leaves optional ones alone', () => {
+    expect(validateJson(matchSchema, { id: 'a' })).toEqual(['$.score is required', '$.tier is required']);
+  });
+
+  test('reports type, enum and range errors with their path', () => {
+    expect(validateJson(matchSchema, { id: 7, score: 101, tier: 'bronze' })).toEqual([
+      '$.id must be a string',
+      '$.score must be <= 100',
+      '$.tier must be one of gold, silver',
+    ]);
+    expect(validateJson(matchSchema, { id: 'a', score: 1.5, tier: 'gold' })).toEqual(['$.score must be an integer']);
+  });
+
+  test('checks array bounds and every item', () => {
+    const schema: JsonSchema = { type: 'array', items: { type: 'boolean' }, minItems: 1, maxItems: 2 };
+    expect(validateJson(schema, [])).toEqual(['$ must have at least 1 items']);
+    expect(validateJson(schema, [true, false, true])).toEqual(['$ must have at most 2 items']);
+    expect(validateJson(schema, [true, 'no'])).toEqual(['$[1] must be a boolean']);
+  });
+
+  test('only allows null when the schema is nullable', () => {
+    expect(validateJson({ type: 'string' }, null)).toEqual(['$ is required']);
+    expect(validateJson({ type: 'string', nullable: true }, null)).toEqual([]);
+  });
+});
+
+describe('generateJson', () => {
+  test('returns schema-valid output from the mock provider on the first attempt', async () => {
+    const supabase = fakeSupabase();
+    const result = await call(supabase, createMockAiProvider());
+
+    expect(result.attempts).toBe(1);
+    expect(result.data).not.toBeNull();
+    expect(validateJson(matchSchema, result.data)).toEqual([]);
+    expect(supabase.usage).toHaveLength(1);
+    expect(supabase.usage[0]).toMatchObject({ feature: 'test.match', status: 'success', attempt: 1, cost_usd: 0 });
+  });
+
+  test('asks again with the validation errors after invalid output', async () => {
+    const supabase = fakeSupabase();
+    const { provider, requests } = scriptedProvider([
+      'Sorry, here: {"id": "a", "score": 120}',
+      '{"id": "a", "score": 90, "tier": "gold"}',
+    ]);
+
+    const result = await call(supabase, provider);
+
+    expect(result).toMatchObject({ data: { id: 'a', score: 90, tier: 'gold' }, attempts: 2 });
+    expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 10 });
+    expect(requests[1].messages).toHaveLength(3);
+    expect(requests[1].messages[2].content).toContain('$.score must be <= 100');
+    expect(supabase.usage.map((row) => row.status)).toEqual(['invalid_output', 'success']);
+  });
+
+  test('gives up with data null once every attempt is invalid', async () => {
+    const supabase = fakeSupabase();
+    const { provider, requests } = scriptedProvider(['not json']);
+
+    const result = await call(supabase, provider, 2);
+
+    expect(result).toMatchObject({ data: null, status: 502, attempts: 2 });
+    expect(result.error).toContain('reply is not JSON');
+    expect(requests).toHaveLength(2);
+  });
+
+  test('retries a retryable provider error', async () => {
+    const supabase = fakeSupabase();
+    const { provider } = scriptedProvider([
+      new AiProviderError('AI rate limit exceeded', 429, true),
+      '{"id": "a", "score": 10, "tier": "silver"}',
+    ]);
+
+    const result = await call(supabase, provider);
+
+    expect(result).toMatchObject({ data: { tier: 'silver' }, attempts: 2 });
+    expect(supabase.usage.map((row) => row.status)).toEqual(['error', 'success']);
+  });
+
+  test('stops at a non-retryable provider error and reports the attempts made', async () => {
+    const supabase = fakeSupabase();
+    const { provider, requests } = scriptedProvider([new AiProviderError('AI credits exhausted', 402, false)]);
+
+    const result = await call(supabase, provider);
+
+    expect(result).toMatchObject({ data: null, error: 'AI credits exhausted', status: 402, attempts: 1 });
+    expect(requests).toHaveLength(1);
+  });
+
+  test('does not reach the provider while AI features are switched off', async () => {
+    const supabase = fakeSupabase([{ key: 'ai_features_enabled', value: false }]);
+    const { provider, requests } = scriptedProvider(['{}']);
+
+    const result = await call(supabase, provider);
+
+    expect(result).toMatchObject({ data: null, status: 503, attempts: 0 });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  calculatePlatformFee,
+  selectFeeTier,
+  simulateFees,
+  type FeeDiscount,
+  type FeeInput,
+  type FeeSchedule,
+  type FeeTier,
+} from '@/lib/fee-schedule';
+import { factory } from '@/test/factory';
+
+const feeTier = factory<FeeTier>({
+  id: 'tier',
+  currency: 'ZMW',
+  transaction_type: 'all',
+  min_amount: 0,
+  max_amount: null,
+  fee_percentage: 0,
+  effective_from: '2026-01-01T00:00:00Z',
+  effective_to: null,
+  is_active: true,
+});
+
+const tier = (id: string, minAmount: number, maxAmount: number | null, percent: number, overrides: Partial<FeeTier> = {}) =>
+  feeTier({ id, min_amount: minAmount, max_amount: maxAmount, fee_percentage: percent, ...overrides });
+
+const feeDiscount = factory<FeeDiscount>({
+  id: 'discount',
+  scope: 'provider',
+  provider_id: 'provider-1',
+  plan_id: null,
+  discount_percent: 0,
+  effective_from: '2026-01-01T00:00:00Z',
+  effective_to: null,
+  is_active: true,
+});
+
+const discount = (id: string, percent: number, overrides: Partial<FeeDiscount> = {}) =>
+  feeDiscount({ id, discount_percent: percent, ...overrides });
+
+// The ZMW tiers seeded with the platform fee schedule
+const zmwTiers = [
+  tier('zmw-1', 0, 500, 5),
+  tier('zmw-2', 500.01, 2000, 4),
+  tier('zmw-3', 2000.01, 10000, 3),
+  tier('zmw-4', 10000.01, null, 2.5),
+];
+
+const schedule: FeeSchedule = { tiers: zmwTiers, discounts: [] };
+
+const feeInput = factory<FeeInput>({
+  amount: 0,
+  currency: 'ZMW',
+  transactionType: 'service_purchase',
+  at: '2026-06-01T00:00:00Z',
+  fallbackPercent: 5,
+});
+
+const input = (amount: number, overrides: Partial<FeeInput> = {}) => feeInput({ amount, ...overrides });
+
+describe('calculatePlatformFee', () => {
+  test.each([
+    [0.01, 'zmw-1', 5, 0],
+    [500, 'zmw-1', 5, 25],
+    [500.01, 'zmw-2', 4, 20],
+    [2000, 'zmw-2', 4, 80],
+    [2000.01, 'zmw-3', 3, 60],
+    [10000, 'zmw-3', 3, 300],
+    [10000.01, 'zmw-4', 2.5, 250],
+    [250000, 'zmw-4', 2.5, 6250],
+  ])('charges %p at tier %s (%p%%)', (amount, tierId, percent, fee) => {
+    const quote = calculatePlatformFee(schedule, input(amount));
+
+    expect(quote.tier?.id).toBe(tierId);
+    expect(quote).toMatchObject({ percent, basePercent: percent, fee, discount: null });
+  });
+
+  test('uses the fallback rate when no tier covers the currency', () => {
+    const quote = calculatePlatformFee(schedule, input(100, { currency: 'USD', fallbackPercent: 7 }));
+    expect(quote).toMatchObject({ tier: null, percent: 7, fee: 7 });
+  });
+
+  test('takes the largest discount in effect off the fee', () => {
+    const quote = calculatePlatformFee(
+      {
+        tiers: zmwTiers,
+        discounts: [
+          discount('small', 10),
+          discount('large', 50),
+          discount('expired', 90, { effective_to: '2026-05-01T00:00:00Z' }),
+          discount('other-provider', 80, { provider_id: 'provider-2' }),
+        ],
+      },
+      input(1000, { providerId: 'provider-1' }),
+    );
+
+    expect(quote.discount?.id).toBe('large');
+    expect(quote).toMatchObject({ basePercent: 4, percent: 2, fee: 20 });
+  });
+
+  test('applies plan discounts to providers on that plan', () => {
+    const plans = { tiers: zmwTiers, discounts: [discount('pro-plan', 25, { scope: 'plan', provider_id: null, plan_id: 'pro' })] };
+
+    expect(calculatePlatformFee(plans, input(1000, { providerPlanId: 'pro' })).fee).toBe(30);
+    expect(calculatePlatformFee(plans, input(1000, { providerPlanId: 'basic' })).fee).toBe(40);
+  });
+});
+
+describe('selectFeeTier', () => {
+  test('prefers a tier for the exact transaction type over an all tier', () => {
+    const orderTier = tier('order', 0, null, 2, { transaction_type: 'order', effective_from: '2025-01-01T00:00:00Z' });
+
+    expect(selectFeeTier([...zmwTiers, orderTier], input(1000, { transactionType: 'order' }))?.id).toBe('order');
+    expect(selectFeeTier([...zmwTiers, orderTier], input(1000))?.id).toBe('zmw-2');
+  });
+
+  test('prefers the most recently effective, then the narrowest, tier', () => {
+    const replacement = tier('replacement', 0, 2000, 3.5, { effective_from: '2026-03-01T00:00:00Z' });
+    const narrow = tier('narrow', 900, 1100, 1, { effective_from: '2026-03-01T00:00:00Z' });
+
+    expect(selectFeeTier([...zmwTiers, replacement], input(1000))?.id).toBe('replacement');
+    expect(selectFeeTier([...zmwTiers, replacement, narrow], input(1000))?.id).toBe('narrow');
+  });
+
+  test('ignores inactive tiers and tiers outside their effective dates', () => {
+    const tiers = [
+      tier('inactive', 0, null, 1, { is_active: false }),
+      tier('ended', 0, null, 1, { effective_to: '2026-06-01T00:00:00Z' }),
+      tier('scheduled', 0, null, 1, { effective_from: '2026-07-01T00:00:00Z' }),
+    ];
+
+    expect(selectFeeTier(tiers, input(1000))).toBeNull();
+    expect(selectFeeTier(tiers, input(1000, { at: '2026-07-01T00:00:00Z' }))?.id).toBe('scheduled');
+  });
+});
+
+describe('simulateFees', () => {
+  test('totals what past payments would have been charged, per currency', () => {
+    const payment = (id: string, amount: number, platformFee: number, currency = 'ZMW') => ({
+      id,
+      transaction_type: 'service_purchase' as const,
+      amount,
+      currency,
+      platform_fee: platformFee,
+      provider_id: null,
+      provider_plan_id: null,
+      created_at: '2026-05-01T00:00:00Z',
+    });
+
+    const simulation = simulateFees(
+      schedule,
+      [payment('a', 400, 20), payment('b', 1000, 50), payment('c', 50, 2.5, 'USD')],
+      { at: '2026-06-01T00:00:00Z', fallbackPercent: () => 5 },
+    );
+
+    expect(simulation.rows.map((row) => row.difference)).toEqual([0, -10, 0]);
+    expect(simulation.changed).toBe(1);
+    expect(simulation.totals).toEqual([
+      { currency: 'ZMW', count: 2, actual: 70, simulated: 60, difference: -10 },
+      { currency: 'USD', count: 1, actual: 2.5, simulated: 2.5, difference: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  MIN_FUNDING_MATCH_SCORE,
+  parseFundingRange,
+  rankFundingOpportunities,
+  scoreFundingOpportunity,
+  type FundingOpportunityCandidate,
+  type FundingSmeProfile,
+} from '../../../supabase/functions/_shared/funding-match';
+import { factory } from '@/test/factory';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+const sme: FundingSmeProfile = {
+  industry: 'Agriculture',
+  sectors: ['Agribusiness'],
+  stage: 'early',
+  country: 'Zambia',
+  province: 'Lusaka',
+  city: 'Lusaka',
+  fundingRange: 'K50,001 - K200,000',
+};
+
+const opportunity = factory<FundingOpportunityCandidate>({
+  id: 'fund-1',
+  title: 'Agri Growth Grant',
+  organization: 'Zambia Agri Fund',
+  sectors: ['Farming'],
+  target_stage: ['early'],
+  region_focus: ['Zambia'],
+  amount_min: 100000,
+  amount_max: 150000,
+  currency: 'ZMW',
+  deadline: '2026-09-30',
+  eligibility_criteria: ['Registered with PACRA'],
+});
+
+const score = (opp: FundingOpportunityCandidate, profile: FundingSmeProfile = sme, toZmw: number | null = 1) =>
+  scoreFundingOpportunity(profile, opp, { toZmw, now });
+
+describe('parseFundingRange', () => {
+  test.each([
+    ['Up to K50,000', { min: 0, max: 50000 }],
+    ['K50,001 - K200,000', { min: 50001, max: 200000 }],
+    ['K20,000,000+', { min: 20000000, max: Infinity }],
+    ['K75,000', { min: 75000, max: 75000 }],
+  ])('reads %s', (range, expected) => {
+    expect(parseFundingRange(range)).toEqual(expected);
+  });
+
+  test('returns null when there is no amount', () => {
+    expect(parseFundingRange(null)).toBeNull();
+    expect(parseFundingRange('Not sure yet')).toBeNull();
+  });
+});
+
+describe('scoreFundingOpportunity', () => {
+  test('scores a full match at 100 with every criterion as a reason', () => {
+    const match = score(opportunity());
+
+    expect(match).toMatchObject({ fundingId: 'fund-1', score: 100, eligible: true });
+    expect(match.subScores.sector.reason).toBe('Targets your sector (Farming)');
+    expect(match.reasons).toHaveLength(5);
+    expect(match.actionPlan).toBe('Apply before 2026-09-30. Confirm you meet: Registered with PACRA.');
+  });
+
+  test('weights each criterion into the total', () => {
+    // sector 0.35 x 0 + stage 0.2 x 0.5 + amount 0.2 x 1 + region 0.15 x 0.8 + deadline 0.1 x 0.4
+    const match = score(opportunity({
+      sectors: ['Mining'],
+      target_stage: ['growth'],
+      region_focus: ['Southern Africa'],
+      deadline: '2026-06-04',
+    }));
+
+    expect(match.subScores.sector).toMatchObject({ score: 0, reason: 'Targets Mining' });
+    expect(match.subScores.stage.score).toBe(0.5);
+    expect(match.subScores.region.score).toBe(0.8);
+    expect(match.subScores.deadline).toMatchObject({ score: 0.4, reason: 'Closes in 3 days' });
+    expect(match.score).toBe(46);
+    expect(match.reasons).toEqual(['Ticket size fits the amount you need', 'Open to Southern Africa']);
+  });
+
+  test('treats open sectors and stages as a fit', () => {
+    const match = score(opportunity({ sectors: ['All sectors'], target_stage: [] }));
+
+    expect(match.subScores.sector).toMatchObject({ score: 1, reason: 'Open to all sectors' });
+    expect(match.subScores.stage).toMatchObject({ score: 1, reason: 'Open to businesses at any stage' });
+  });
+
+  test('gives stages more than one step away no credit', () => {
+    expect(score(opportunity({ target_stage: ['established'] })).subScores.stage.score).toBe(0);
+  });
+
+  test('scores blank profile fields as unknown and asks for them', () => {
+    const blank = { ...sme, industry: null, sectors: [], stage: null, fundingRange: null };
+    const match = score(opportunity(), blank);
+
+    expect(match.subScores.sector).toMatchObject({ score: 0.5, missing: 'profile' });
+    expect(match.subScores.stage).toMatchObject({ score: 0.5, missing: 'profile' });
+    expect(match.subScores.amount).toMatchObject({ score: 0.5, missing: 'profile' });
+    // (0.35 + 0.2 + 0.2) x 0.5 + 0.15 + 0.1
+    expect(match.score).toBe(63);
+    expect(match.actionPlan).toContain('Complete your profile (sector, stage, amount)');
+  });
+
+  test('scores blank opportunity fields as unknown', () => {
+    const match = score(opportunity({ region_focus: [], amount_min: null, amount_max: null, deadline: null }));
+
+    expect(match.subScores.region).toMatchObject({ score: 0.5, missing: 'opportunity' });
+    expect(match.subScores.amount).toMatchObject({ score: 0.5, missing: 'opportunity' });
+    expect(match.subScores.deadline).toMatchObject({ score: 0.8, reason: 'Rolling applications' });
+  });
+
+  describe('amount', () => {
+    test('converts the ticket size into kwacha', () => {
+      // $5,000-$10,000 at 26.5 overlaps K50,001-K200,000
+      expect(score(opportunity({ currency: 'USD', amount_min: 5000, amount_max: 10000 }), sme, 26.5).subScores.amount.score).toBe(1);
+      expect(score(opportunity({ currency: 'USD' }), sme, null).subScores.amount.missing).toBe('opportunity');
+    });
+
+    test('gives partial credit to a ticket that is too small', () => {
+      expect(score(opportunity({ amount_min: 0, amount_max: 25000 })).subScores.amount.score).toBe(0.35);
+    });
+
+    test('gives no credit when the minimum ticket is above the need', () => {
+      expect(score(opportunity({ amount_min: 500000, amount_max: null })).subScores.amount).toMatchObject({
+        score: 0,
+        reason: 'Minimum ticket of K500,000 is above what you need',
+      });
+    });
+  });
+
+  describe('hard rules', () => {
+    test('a passed deadline makes the opportunity ineligible', () => {
+      const match = score(opportunity({ deadline: '2026-05-31' }));
+      expect(match).toMatchObject({ eligible: false, score: 0 });
+      expect(match.actionPlan).not.toContain('Apply before');
+    });
+
+    test('a region that excludes Zambia makes the opportunity ineligible', () => {
+      expect(score(opportunity({ region_focus: ['Kenya', 'Uganda'] }))).toMatchObject({ eligible: false, score: 0 });
+    });
+
+    test('a province focus counts as local', () => {
+      expect(score(opportunity({ region_focus: ['Lusaka Province'] })).subScores.region.reason).toBe('Focused on your province');
+    });
+  });
+});
+
+describe('rankFundingOpportunities', () => {
+  test('keeps eligible matches at or above the minimum score, best first', () => {
+    const rates = new Map([['ZMW', 1], ['USD', 26.5]]);
+    const ranked = rankFundingOpportunities(sme, [
+      opportunity({ id: 'b-partial', target_stage: ['growth'], deadline: null }),
+      opportunity({ id: 'a-full' }),
+      opportunity({ id: 'c-closed', deadline: '2026-01-01' }),
+      opportunity({ id: 'd-weak', sectors: ['Mining'], target_stage: ['established'], region_focus: ['Global'], amount_min: 5000000 }),
+    ], rates, { now });
+
+    expect(ranked.map((m) => m.fundingId)).toEqual(['a-full', 'b-partial']);
+    expect(ranked.every((m) => m.score >= MIN_FUNDING_MATCH_SCORE)).toBe(true);
+  });
+
+  test('breaks ties by id and applies the limit', () => {
+    const ranked = rankFundingOpportunities(
+      sme,
+      [opportunity({ id: 'z' }), opportunity({ id: 'y' }), opportunity({ id: 'x' })],
+      new Map([['ZMW', 1]]),
+      { now, limit: 2 },
+    );
+
+    expect(ranked.map((m) => m.fundingId)).toEqual(['x', 'y']);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  fixtureFxProvider,
+  getFxRate,
+  MAX_RATE_AGE_MS,
+  refreshFxRates,
+  roundMoney,
+  type FxRateProvider,
+} from '../../../supabase/functions/_shared/fx-rates';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for fx_rates and fx_rate_history
+const fakeSupabase = (fxRates: Row[] = []) => {
+  const tables: Record<string, Row[]> = { fx_rates: fxRates, fx_rate_history: [] };
+  let nextId = 1;
+
+  return {
+    tables,
+    from(table: string) {
+      const filters: ((row: Row) => boolean)[] = [];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push((row) => row[column] === value);
+          return query;
+        },
+        in: (column: string, values: unknown[]) => {
+          filters.push((row) => values.includes(row[column]));
+          return query;
+        },
+        then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+          resolve({ data: tables[table].filter((row) => filters.every((f) => f(row))), error: null }),
+        insert: (rows: Row[]) => {
+          const inserted = rows.map((row) => ({ ...row, id: `history-${nextId++}` }));
+          tables[table].push(...inserted);
+          return { select: () => Promise.resolve({ data: inserted, error: null }) };
+        },
+        upsert: (rows: Row[]) => {
+          for (const row of rows) {
+            tables[table] = tables[table].filter(
+              (existing) => existing.base_currency !== row.base_currency || existing.quote_currency !== row.quote_currency,
+            );
+            tables[table].push(row);
+          }
+          return Promise.resolve({ error: null });
+        },
+      };
+      return query;
+    },
+  };
+};
+
+const cachedRate = (quote: string, rate: number, ageMs = 0): Row => ({
+  base_currency: 'USD',
+  quote_currency: quote,
+  rate,
+  source: 'cache',
+  fetched_at: new Date(Date.now() - ageMs).toISOString(),
+  history_id: `cached-${quote}`,
+});
+
+const countingProvider = (inner: FxRateProvider) => {
+  const provider = { ...inner, calls: 0 };
+  provider.fetchRates = (base, quotes) => {
+    provider.calls++;
+    return inner.fetchRates(base, quotes);
+  };
+  return provider;
+};
+
+const failingProvider: FxRateProvider = {
+  name: 'down',
+  fetchRates: () => Promise.reject(new Error('Rate source responded with 503')),
+};
+
+describe('fixtureFxProvider', () => {
+  test('quotes USD rates for the requested currencies', async () => {
+    await expect(fixtureFxProvider.fetchRates('USD', ['ZMW', 'EUR'])).resolves.toEqual({ ZMW: 26.5, EUR: 0.92 });
+  });
+
+  test('derives rates against another base and skips unknown currencies', async () => {
+    const rates = await fixtureFxProvider.fetchRates('ZAR', ['ZMW', 'XYZ']);
+    expect(rates.ZMW).toBeCloseTo(26.5 / 18.2, 10);
+    expect(rates).not.toHaveProperty('XYZ');
+  });
+});
+
+describe('roundMoney', () => {
+  test('rounds to cents', () => {
+    expect(roundMoney(10.005 + 0.001)).toBe(10.01);
+    expect(roundMoney(2649.9949)).toBe(2649.99);
+    expect(roundMoney(7)).toBe(7);
+  });
+});
+
+describe('refreshFxRates', () => {
+  test('records history and makes the fixture rates current', async () => {
+    const supabase = fakeSupabase();
+    const result = await refreshFxRates(supabase, fixtureFxProvider);
+
+    expect(result).toEqual({ source: 'fixture', updated: ['ZMW', 'ZAR', 'GBP', 'EUR'] });
+    expect(supabase.tables.fx_rate_history).toHaveLength(4);
+    expect(supabase.tables.fx_rates.find((row) => row.quote_currency === 'ZMW')).toMatchObject({
+      rate: 26.5,
+      source: 'fixture',
+      history_id: expect.stringMatching(/^history-/),
+    });
+  });
+
+  test('leaves the stored rates alone when the source fails', async () => {
+    const supabase = fakeSupabase([cachedRate('ZMW', 25)]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await refreshFxRates(supabase, failingProvider);
+
+    expect(result).toMatchObject({ source: 'down', updated: [], error: 'Rate source responded with 503' });
+    expect(supabase.tables.fx_rates).toEqual([cachedRate('ZMW', 25)].map((row) => ({ ...row, fetched_at: expect.any(String) })));
+    expect(supabase.tables.fx_rate_history).toHaveLength(0);
+  });
+});
+
+describe('getFxRate', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test('converts a currency to itself at 1', async () => {
+    const rate = await getFxRate(fakeSupabase(), 'ZMW', 'ZMW', failingProvider);
+    expect(rate).toMatchObject({ rate: 1, source: 'identity' });
+  });
+
+  test('fetches missing rates before converting', async () => {
+    const supabase = fakeSupabase();
+    const provider = countingProvider(fixtureFxProvider);
+
+    const rate = await getFxRate(supabase, 'USD', 'ZMW', provider);
+
+    expect(provider.calls).toBe(1);
+    expect(rate).toMatchObject({ from: 'USD', to: 'ZMW', rate: 26.5, source: 'fixture', fromRateHistoryId: null });
+    expect(rate?.toRateHistoryId).toMatch(/^history-/);
+    expect(roundMoney(100 * rate!.rate)).toBe(2650);
+  });
+
+  test('derives a cross rate from the two USD legs', async () => {
+    const rate = await getFxRate(fakeSupabase(), 'ZAR', 'ZMW', fixtureFxProvider);
+
+    expect(rate!.rate).toBeCloseTo(26.5 / 18.2, 10);
+    expect(roundMoney(1000 * rate!.rate)).toBe(1456.04);
+  });
+
+  test('uses fresh cached rates without calling the source', async () => {
+    const supabase = fakeSupabase([cachedRate('ZMW', 27), cachedRate('GBP', 0.8)]);
+    const provider = countingProvider(fixtureFxProvider);
+
+    const rate = await getFxRate(supabase, 'GBP', 'ZMW', provider);
+
+    expect(provider.calls).toBe(0);
+    expect(rate).toMatchObject({ rate: 27 / 0.8, source: 'cache', fromRateHistoryId: 'cached-GBP', toRateHistoryId: 'cached-ZMW' });
+  });
+
+  test('refreshes a stale rate', async () => {
+    const supabase = fakeSupabase([cachedRate('ZMW', 20, MAX_RATE_AGE_MS + 60_000)]);
+
+    const rate = await getFxRate(supabase, 'USD', 'ZMW', fixtureFxProvider);
+
+    expect(rate).toMatchObject({ rate: 26.5, source: 'fixture' });
+  });
+
+  test('falls back to a stale rate while the source is down', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const supabase = fakeSupabase([cachedRate('ZMW', 20, MAX_RATE_AGE_MS + 60_000)]);
+
+    const rate = await getFxRate(supabase, 'USD', 'ZMW', failingProvider);
+
+    expect(rate).toMatchObject({ rate: 20, source: 'cache' });
+  });
+
+  test('returns null when a rate was never fetched and the source is down', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(getFxRate(fakeSupabase(), 'USD', 'ZMW', failingProvider)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+import { createHmac } from 'crypto';
+import {
+  processLencoEvent,
+  timingSafeEqual,
+  verifyLencoSignature,
+} from '../../../supabase/functions/_shared/lenco-webhook';
+import { factory } from '@/test/factory';
+
+// Invoices and receipts are covered where they are rendered; here they only
+// need to be issued without error
+jest.mock('../../../supabase/functions/_shared/transaction-documents.ts', () => ({
+  issueTransactionDocuments: jest.fn(() => Promise.resolve({ documents: [] })),
+}));
+
+const SECRET = 'whsec_test';
+const body = JSON.stringify({ event: 'transaction.successful', data: { id: 'evt-1', reference: 'ref-1' } });
+const sign = (payload: string, secret = SECRET) => createHmac('sha512', secret).update(payload).digest('hex');
+
+interface Transaction {
+  id: string;
+  user_id: string;
+  recipient_id: string | null;
+  transaction_type: string;
+  status: string;
+  amount: number;
+  net_amount: number;
+  currency: string;
+  order_id: string | null;
+  milestone_id: string | null;
+  subscription_id: string | null;
+  metadata: Record<string, unknown>;
+}
+
+const transaction = factory<Transaction>({
+  id: 'tx-1',
+  user_id: 'client-1',
+  recipient_id: 'provider-1',
+  transaction_type: 'service_purchase',
+  status: 'pending',
+  amount: 1210,
+  net_amount: 1160,
+  currency: 'ZMW',
+  order_id: 'order-1',
+  milestone_id: null,
+  subscription_id: null,
+  metadata: {},
+});
+
+// The transaction found by reference, plus a record of updates and RPC calls.
+// RPCs answer from `replies` by name, succeeding by default.
+const fakeSupabase = (tx: Transaction, replies: Record<string, unknown> = {}) => {
+  const updates: Record<string, unknown>[] = [];
+  const rpcs: { fn: string; args: Record<string, unknown> }[] = [];
+  return {
+    updates,
+    rpcs,
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: () => Promise.resolve({ data: { ...tx }, error: null }) }),
+      }),
+      update: (patch: Record<string, unknown>) => {
+        updates.push(patch);
+        return { eq: () => Promise.resolve({ error: null }) };
+      },
+    }),
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      rpcs.push({ fn, args });
+      return Promise.resolve({ data: replies[fn] ?? { success: true }, error: null });
+    },
+  };
+};
+
+const successful = { event: 'transaction.successful', data: { id: 'lenco-1', reference: 'ref-1' } };
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('verifyLencoSignature', () => {
+  test('accepts the HMAC-SHA512 of the raw body', async () => {
+    expect(await verifyLencoSignature(SECRET, body, sign(body))).toBe(true);
+  });
+
+  test('ignores case and surrounding whitespace in the header', async () => {
+    expect(await verifyLencoSignature(SECRET, body, ` ${sign(body).toUpperCase()}\n`)).toBe(true);
+  });
+
+  test('rejects a signature for a different body', async () => {
+    const tampered = body.replace('ref-1', 'ref-2');
+    expect(await verifyLencoSignature(SECRET, tampered, sign(body))).toBe(false);
+  });
+
+  test('rejects a signature made with another secret', async () => {
+    expect(await verifyLencoSignature(SECRET, body, sign(body, 'whsec_other'))).toBe(false);
+  });
+
+  test.each([
+    ['a truncated signature', sign(body).slice(0, 64)],
+    ['an empty signature', ''],
+    ['a non-hex signature', 'not-a-signature'],
+  ])('rejects %s', async (_label, signature) => {
+    expect(await verifyLencoSignature(SECRET, body, signature)).toBe(false);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  test('compares whole strings', () => {
+    expect(timingSafeEqual('abc123', 'abc123')).toBe(true);
+    expect(timingSafeEqual('abc123', 'abc124')).toBe(false);
+    expect(timingSafeEqual('abc', 'abc123')).toBe(false);
+  });
+});
+
+describe('processLencoEvent escrow routing', () => {
+  test('holds an order payment in escrow instead of paying the provider', async () => {
+    const supabase = fakeSupabase(transaction());
+
+    await processLencoEvent(supabase, successful, 'lenco-1');
+
+    expect(supabase.updates[0]).toMatchObject({ status: 'successful', lenco_transaction_id: 'lenco-1' });
+    expect(supabase.rpcs).toEqual([
+      { fn: 'fund_order_escrow', args: { p_order_id: 'order-1', p_transaction_id: 'tx-1' } },
+    ]);
+  });
+
+  test('holds a milestone payment against that milestone', async () => {
+    const supabase = fakeSupabase(transaction({ milestone_id: 'milestone-2' }));
+
+    await processLencoEvent(supabase, successful, 'lenco-1');
+
+    expect(supabase.rpcs.map((call) => call.fn)).toEqual(['fund_milestone_escrow']);
+    expect(supabase.rpcs[0].args).toEqual({ p_milestone_id: 'milestone-2', p_transaction_id: 'tx-1' });
+  });
+
+  test('credits the provider directly for a purchase with no order', async () => {
+    const supabase = fakeSupabase(transaction({ order_id: null }));
+
+    await processLencoEvent(supabase, successful, 'lenco-1');
+
+    expect(supabase.rpcs).toEqual([
+      {
+        fn: 'apply_wallet_transaction',
+        args: expect.objectContaining({
+          p_user_id: 'provider-1',
+          p_amount: 1160,
+          p_transaction_type: 'service_payment',
+          p_idempotency_key: 'lenco-service-lenco-1',
+        }),
+      },
+    ]);
+  });
+
+  test('fails the event when escrow refuses the payment, so it can be replayed', async () => {
+    const supabase = fakeSupabase(transaction(), {
+      fund_order_escrow: { success: false, error: 'Funding transaction does not match the order total' },
+    });
+
+    await expect(processLencoEvent(supabase, successful, 'lenco-1'))
+      .rejects.toThrow('Escrow funding failed: Funding transaction does not match the order total');
+  });
+
+  test('skips a payment that is already successful unless replaying', async () => {
+    const supabase = fakeSupabase(transaction({ status: 'successful' }));
+
+    await processLencoEvent(supabase, successful, 'lenco-1');
+    expect(supabase.rpcs).toEqual([]);
+
+    await processLencoEvent(supabase, successful, 'lenco-1', { replay: true });
+    expect(supabase.updates).toEqual([]);
+    expect(supabase.rpcs.map((call) => call.fn)).toEqual(['fund_order_escrow']);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  MAX_MESSAGE_LENGTH,
+  checkNewThreadRecipient,
+  messageBody,
+  requireConversationParticipant,
+} from '../../../supabase/functions/_shared/messaging';
+
+type Membership = { conversation_id: string; user_id: string };
+
+// conversation_participants holding `rows`; records the filters applied
+const fakeSupabase = (rows: Membership[], error: { message: string } | null = null) => {
+  const filters: Record<string, string>[] = [];
+  return {
+    filters,
+    from: (table: string) => {
+      expect(table).toBe('conversation_participants');
+      const applied: Record<string, string> = {};
+      filters.push(applied);
+      const query = {
+        select: () => query,
+        eq: (column: string, value: string) => {
+          applied[column] = value;
+          return query;
+        },
+        maybeSingle: () => {
+          const match = rows.find((row) =>
+            Object.entries(applied).every(([column, value]) => row[column as keyof Membership] === value));
+          return Promise.resolve({ data: error ? null : match ?? null, error });
+        },
+      };
+      return query;
+    },
+  };
+};
+
+const members: Membership[] = [
+  { conversation_id: 'thread-1', user_id: 'alice' },
+  { conversation_id: 'thread-1', user_id: 'bob' },
+  { conversation_id: 'thread-2', user_id: 'carol' },
+];
+
+describe('requireConversationParticipant', () => {
+  test('lets members of the thread through', async () => {
+    const supabase = fakeSupabase(members);
+
+    await expect(requireConversationParticipant(supabase, 'thread-1', 'alice')).resolves.toBeUndefined();
+    await expect(requireConversationParticipant(supabase, 'thread-1', 'bob')).resolves.toBeUndefined();
+  });
+
+  test('checks membership of the caller in that thread', async () => {
+    const supabase = fakeSupabase(members);
+
+    await requireConversationParticipant(supabase, 'thread-1', 'alice');
+
+    expect(supabase.filters).toEqual([{ conversation_id: 'thread-1', user_id: 'alice' }]);
+  });
+
+  test('rejects someone outside the thread', async () => {
+    const supabase = fakeSupabase(members);
+
+    await expect(requireConversationParticipant(supabase, 'thread-1', 'carol'))
+      .rejects.toThrow('Not authorized for this conversation');
+  });
+
+  test('rejects a thread that does not exist', async () => {
+    await expect(requireConversationParticipant(fakeSupabase(members), 'thread-9', 'alice'))
+      .rejects.toThrow('Not authorized for this conversation');
+  });
+
+  test('requires a conversation id', async () => {
+    const supabase = fakeSupabase(members);
+
+    await expect(requireConversationParticipant(supabase, undefined, 'alice'))
+      .rejects.toThrow('conversationId is required');
+    expect(supabase.filters).toEqual([]);
+  });
+
+  test('fails closed when the lookup errors', async () => {
+    const supabase = fakeSupabase(members, { message: 'connection reset' });
+
+    await expect(requireConversationParticipant(supabase, 'thread-1', 'alice'))
+      .rejects.toEqual({ message: 'connection reset' });
+  });
+});
+
+describe('messageBody', () => {
+  test('trims the message', () => {
+    expect(messageBody('  Hello there \n')).toBe('Hello there');
+  });
+
+  test.each([
+    ['an empty message', ''],
+    ['a blank message', '   '],
+    ['a missing message', undefined],
+    ['a non-text message', { text: 'hi' }],
+  ])('rejects %s', (_label, content) => {
+    expect(() => messageBody(content)).toThrow('Message content is required');
+  });
+
+  test('accepts a message at the limit and rejects one over it', () => {
+    expect(messageBody('a'.repeat(MAX_MESSAGE_LENGTH))).toHaveLength(MAX_MESSAGE_LENGTH);
+    expect(() => messageBody('a'.repeat(MAX_MESSAGE_LENGTH + 1)))
+      .toThrow(`Message exceeds ${MAX_MESSAGE_LENGTH} characters`);
+  });
+});
+
+describe('checkNewThreadRecipient', () => {
+  test('allows messaging someone else', () => {
+    expect(() => checkNewThreadRecipient('alice', 'bob')).not.toThrow();
+  });
+
+  test('requires a recipient', () => {
+    expect(() => checkNewThreadRecipient('alice', undefined)).toThrow('recipientId is required to start a conversation');
+  });
+
+  test('rejects messaging yourself', () => {
+    expect(() => checkNewThreadRecipient('alice', 'alice')).toThrow('You cannot message yourself');
+  });
+});
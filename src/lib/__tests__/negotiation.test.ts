@@ -0,0 +1,111 @@
+import {
+  awaitingParty,
+  checkNegotiationAction,
+  formatTimeRemaining,
+  isNegotiationExpired,
+  partyOf,
+  type NegotiationState,
+} from '@/lib/negotiation';
+import { factory } from '@/test/factory';
+
+const now = new Date('2026-06-01T12:00:00Z');
+
+const negotiation = factory<NegotiationState>({
+  status: 'pending',
+  client_id: 'client-1',
+  provider_id: 'provider-1',
+  current_price: 1000,
+  awaiting_party: 'client',
+  expires_at: '2026-06-08T12:00:00Z',
+});
+
+describe('partyOf and awaitingParty', () => {
+  test('identifies the parties', () => {
+    expect(partyOf(negotiation(), 'client-1')).toBe('client');
+    expect(partyOf(negotiation(), 'provider-1')).toBe('provider');
+    expect(partyOf(negotiation(), 'someone-else')).toBeNull();
+  });
+
+  test('waits on the client when the turn was never tracked', () => {
+    expect(awaitingParty({ awaiting_party: null })).toBe('client');
+    expect(awaitingParty({ awaiting_party: 'provider' })).toBe('provider');
+  });
+});
+
+describe('isNegotiationExpired', () => {
+  test('expires at expires_at, not before', () => {
+    expect(isNegotiationExpired(negotiation({ expires_at: '2026-06-01T12:00:01Z' }), now)).toBe(false);
+    expect(isNegotiationExpired(negotiation({ expires_at: '2026-06-01T12:00:00Z' }), now)).toBe(true);
+    expect(isNegotiationExpired(negotiation({ expires_at: null }), now)).toBe(false);
+    expect(isNegotiationExpired(negotiation({ status: 'expired', expires_at: null }), now)).toBe(true);
+  });
+});
+
+describe('checkNegotiationAction', () => {
+  const check = (
+    state: NegotiationState,
+    userId: string,
+    action: 'counter_offer' | 'accept' | 'reject',
+    options: { proposedPrice?: number; floorPrice?: number | null } = {},
+  ) => checkNegotiationAction(state, userId, action, { now, ...options });
+
+  test('refuses anyone outside the negotiation', () => {
+    expect(check(negotiation(), 'someone-else', 'reject')).toBe('Not authorized for this negotiation');
+  });
+
+  test('lets only the awaited party counter or accept', () => {
+    expect(check(negotiation(), 'client-1', 'accept')).toBeNull();
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 900 })).toBeNull();
+    expect(check(negotiation(), 'provider-1', 'accept')).toBe('Waiting for the client to respond');
+    expect(check(negotiation({ status: 'countered', awaiting_party: 'provider' }), 'client-1', 'counter_offer', { proposedPrice: 950 }))
+      .toBe('Waiting for the provider to respond');
+  });
+
+  test('lets either party reject while open', () => {
+    expect(check(negotiation(), 'provider-1', 'reject')).toBeNull();
+    expect(check(negotiation(), 'client-1', 'reject')).toBeNull();
+  });
+
+  test('refuses every action once closed or expired', () => {
+    expect(check(negotiation({ status: 'accepted' }), 'client-1', 'reject')).toBe('This negotiation is already accepted');
+    expect(check(negotiation({ status: 'expired' }), 'client-1', 'accept')).toBe('This negotiation has expired');
+    expect(check(negotiation({ expires_at: '2026-06-01T11:59:59Z' }), 'client-1', 'reject')).toBe('This negotiation has expired');
+  });
+
+  test('requires a new, valid price to counter', () => {
+    expect(check(negotiation(), 'client-1', 'counter_offer')).toBe('Enter a valid price');
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 0 })).toBe('Enter a valid price');
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: NaN })).toBe('Enter a valid price');
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 1000 }))
+      .toBe('Your offer is the same as the current price; accept it instead');
+  });
+
+  test('holds client offers to the provider floor price, inclusive', () => {
+    const below = 'This offer is below the lowest price the provider accepts for this service';
+
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 799.99, floorPrice: 800 })).toBe(below);
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 800, floorPrice: 800 })).toBeNull();
+    expect(check(negotiation(), 'client-1', 'counter_offer', { proposedPrice: 500, floorPrice: null })).toBeNull();
+  });
+
+  test('does not hold the provider to their own floor', () => {
+    const state = negotiation({ status: 'countered', awaiting_party: 'provider' });
+    expect(check(state, 'provider-1', 'counter_offer', { proposedPrice: 700, floorPrice: 800 })).toBeNull();
+  });
+});
+
+describe('formatTimeRemaining', () => {
+  test.each([
+    ['2026-06-03T16:30:00Z', '2d 4h'],
+    ['2026-06-01T15:12:00Z', '3h 12m'],
+    ['2026-06-01T12:08:30Z', '8m'],
+    ['2026-06-01T12:00:20Z', '1m'],
+  ])('shows %s as %s', (expiresAt, expected) => {
+    expect(formatTimeRemaining(expiresAt, now)).toBe(expected);
+  });
+
+  test('returns null once expired or without an expiry', () => {
+    expect(formatTimeRemaining('2026-06-01T12:00:00Z', now)).toBeNull();
+    expect(formatTimeRemaining(null, now)).toBeNull();
+  });
+});
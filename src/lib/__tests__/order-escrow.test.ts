@@ -0,0 +1,165 @@
+import {
+  acceptanceSettlement,
+  disputeSettlement,
+  refundSettlement,
+  type EscrowHolding,
+} from '@/lib/escrow';
+import {
+  fundOrderEscrowForTransaction,
+  type EscrowableTransaction,
+} from '../../../supabase/functions/_shared/order-escrow';
+import { factory } from '@/test/factory';
+
+type RpcReply = { data?: unknown; error?: { message: string } | null };
+
+// Records each RPC call and answers with `reply`
+const fakeSupabase = (reply: RpcReply) => {
+  const calls: { fn: string; args: Record<string, unknown> }[] = [];
+  return {
+    calls,
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      calls.push({ fn, args });
+      return Promise.resolve({ data: null, error: null, ...reply });
+    },
+  };
+};
+
+const transaction = factory<EscrowableTransaction>({
+  id: 'tx-1',
+  transaction_type: 'service_purchase',
+  order_id: 'order-1',
+  milestone_id: null,
+});
+
+// K1,000 agreed with a K50 platform fee and K160 VAT; the provider is paid
+// the price and VAT less K150 withholding
+const holding = factory<EscrowHolding>({
+  escrow_amount: 1210,
+  provider_payout: 1010,
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fundOrderEscrowForTransaction', () => {
+  test('funds the order a service purchase pays for', async () => {
+    const supabase = fakeSupabase({ data: { success: true, status: 'funded', escrow_amount: 1210 } });
+
+    expect(await fundOrderEscrowForTransaction(supabase, transaction())).toEqual({
+      applicable: true,
+      funded: true,
+      alreadyFunded: false,
+    });
+    expect(supabase.calls).toEqual([
+      { fn: 'fund_order_escrow', args: { p_order_id: 'order-1', p_transaction_id: 'tx-1' } },
+    ]);
+  });
+
+  test('funds only the milestone a milestone payment is for', async () => {
+    const supabase = fakeSupabase({ data: { success: true, status: 'funded', escrow_amount: 400 } });
+
+    await fundOrderEscrowForTransaction(supabase, transaction({ milestone_id: 'milestone-2' }));
+
+    expect(supabase.calls).toEqual([
+      { fn: 'fund_milestone_escrow', args: { p_milestone_id: 'milestone-2', p_transaction_id: 'tx-1' } },
+    ]);
+  });
+
+  test('treats a repeat delivery of the payment as already funded', async () => {
+    const supabase = fakeSupabase({ data: { success: true, idempotent: true, status: 'funded' } });
+
+    expect(await fundOrderEscrowForTransaction(supabase, transaction())).toEqual({
+      applicable: true,
+      funded: false,
+      alreadyFunded: true,
+    });
+  });
+
+  test('ignores payments that are not for an order', async () => {
+    const supabase = fakeSupabase({});
+
+    expect(await fundOrderEscrowForTransaction(supabase, transaction({ transaction_type: 'subscription' })))
+      .toMatchObject({ applicable: false, funded: false });
+    expect(await fundOrderEscrowForTransaction(supabase, transaction({ order_id: null })))
+      .toMatchObject({ applicable: false, funded: false });
+    expect(supabase.calls).toEqual([]);
+  });
+
+  test('reports a payment the order refuses', async () => {
+    const supabase = fakeSupabase({ data: { success: false, error: 'Funding transaction does not match the order total' } });
+
+    expect(await fundOrderEscrowForTransaction(supabase, transaction())).toEqual({
+      applicable: true,
+      funded: false,
+      alreadyFunded: false,
+      error: 'Funding transaction does not match the order total',
+    });
+  });
+
+  test('reports a failed call', async () => {
+    const supabase = fakeSupabase({ error: { message: 'connection reset' } });
+
+    expect(await fundOrderEscrowForTransaction(supabase, transaction())).toMatchObject({
+      funded: false,
+      error: 'connection reset',
+    });
+  });
+});
+
+describe('acceptanceSettlement', () => {
+  test('pays the provider their payout and keeps the fee and withheld tax', () => {
+    expect(acceptanceSettlement(holding())).toEqual({ providerAmount: 1010, clientAmount: 0 });
+  });
+
+  test('never pays out more than is held', () => {
+    expect(acceptanceSettlement(holding({ escrow_amount: 900 }))).toEqual({ providerAmount: 900, clientAmount: 0 });
+  });
+
+  test('reads numeric columns returned as strings', () => {
+    expect(acceptanceSettlement(holding({ escrow_amount: '1210.00', provider_payout: '1010.00' })))
+      .toEqual({ providerAmount: 1010, clientAmount: 0 });
+  });
+});
+
+describe('refundSettlement', () => {
+  test('returns everything the client paid when the provider cancels', () => {
+    expect(refundSettlement(holding())).toEqual({ providerAmount: 0, clientAmount: 1210 });
+  });
+});
+
+describe('disputeSettlement', () => {
+  test('refunds the full escrow, platform fee included', () => {
+    expect(disputeSettlement('refund', holding())).toEqual({
+      settlement: { providerAmount: 0, clientAmount: 1210 },
+    });
+  });
+
+  test('releases what acceptance would have paid', () => {
+    expect(disputeSettlement('release', holding())).toEqual({
+      settlement: { providerAmount: 1010, clientAmount: 0 },
+    });
+  });
+
+  test('splits the amounts the admin chose', () => {
+    expect(disputeSettlement('split', holding(), { providerAmount: 600, clientAmount: 610 })).toEqual({
+      settlement: { providerAmount: 600, clientAmount: 610 },
+    });
+  });
+
+  test('requires a split to pay both parties', () => {
+    expect(disputeSettlement('split', holding(), { providerAmount: 1210 }).error).toBe('A split must pay both parties');
+    expect(disputeSettlement('split', holding(), { providerAmount: Number.NaN, clientAmount: 10 }).error)
+      .toBe('A split must pay both parties');
+  });
+
+  test('rejects a split larger than the escrow', () => {
+    expect(disputeSettlement('split', holding(), { providerAmount: 700, clientAmount: 511 }).error)
+      .toBe('The split exceeds the amount held in escrow');
+  });
+});
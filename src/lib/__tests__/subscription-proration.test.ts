@@ -0,0 +1,160 @@
+import {
+  previewProration,
+  priceIn,
+  type ProratablePlan,
+} from '../../../supabase/functions/_shared/subscription-proration';
+
+const plan = (id: string, interval: string, priceUsd: number, priceZmw: number): ProratablePlan => ({
+  id,
+  name: id,
+  billing_interval: interval,
+  price_usd: priceUsd,
+  price_zmw: priceZmw,
+});
+
+const basic = plan('basic', 'monthly', 10, 250);
+const pro = plan('pro', 'monthly', 30, 750);
+const proYearly = plan('pro-yearly', 'yearly', 300, 7500);
+
+// A 30-day June period
+const period = { periodStart: '2026-06-01T00:00:00.000Z', periodEnd: '2026-07-01T00:00:00.000Z' };
+const at = (iso: string) => new Date(iso);
+
+describe('priceIn', () => {
+  test('reads the price for the currency, ZMW unless USD', () => {
+    expect(priceIn(pro, 'USD')).toBe(30);
+    expect(priceIn(pro, 'ZMW')).toBe(750);
+    expect(priceIn(plan('free', 'monthly', 0, NaN), 'ZMW')).toBe(0);
+  });
+});
+
+describe('previewProration', () => {
+  test('charges the difference over the remaining period on an upgrade', () => {
+    const preview = previewProration({
+      currentPlan: basic,
+      newPlan: pro,
+      currency: 'ZMW',
+      ...period,
+      now: at('2026-06-16T00:00:00.000Z'),
+    });
+
+    expect(preview).toMatchObject({
+      direction: 'upgrade',
+      currentPrice: 250,
+      newPrice: 750,
+      remainingFraction: 0.5,
+      unusedCredit: 125,
+      newPlanCost: 375,
+      difference: 250,
+      resetsPeriod: false,
+      newPeriodStart: period.periodStart,
+      newPeriodEnd: period.periodEnd,
+    });
+  });
+
+  test('owes the subscriber the difference on a downgrade', () => {
+    const preview = previewProration({
+      currentPlan: pro,
+      newPlan: basic,
+      currency: 'USD',
+      ...period,
+      now: at('2026-06-21T00:00:00.000Z'),
+    });
+
+    expect(preview).toMatchObject({
+      direction: 'downgrade',
+      remainingFraction: 0.3333,
+      unusedCredit: 10,
+      newPlanCost: 3.33,
+      difference: -6.67,
+    });
+  });
+
+  test('is lateral when the price does not change', () => {
+    const preview = previewProration({
+      currentPlan: basic,
+      newPlan: plan('basic-v2', 'monthly', 10, 250),
+      currency: 'ZMW',
+      ...period,
+      now: at('2026-06-10T00:00:00.000Z'),
+    });
+
+    expect(preview).toMatchObject({ direction: 'lateral', difference: 0 });
+  });
+
+  describe('period boundaries', () => {
+    test('the whole current plan is credited at the start of the period', () => {
+      const preview = previewProration({ currentPlan: basic, newPlan: pro, currency: 'ZMW', ...period, now: at(period.periodStart) });
+      expect(preview).toMatchObject({ remainingFraction: 1, unusedCredit: 250, newPlanCost: 750, difference: 500 });
+    });
+
+    test('nothing is left to prorate at or after the end of the period', () => {
+      for (const now of [period.periodEnd, '2026-07-05T00:00:00.000Z']) {
+        const preview = previewProration({ currentPlan: basic, newPlan: pro, currency: 'ZMW', ...period, now: at(now) });
+        expect(preview).toMatchObject({ remainingFraction: 0, unusedCredit: 0, newPlanCost: 0, direction: 'lateral' });
+      }
+    });
+
+    test('a change dated before the period starts is capped at the full period', () => {
+      const preview = previewProration({
+        currentPlan: basic,
+        newPlan: pro,
+        currency: 'ZMW',
+        ...period,
+        now: at('2026-05-20T00:00:00.000Z'),
+      });
+      expect(preview.remainingFraction).toBe(1);
+    });
+
+    test('an empty period has nothing to prorate', () => {
+      const preview = previewProration({
+        currentPlan: basic,
+        newPlan: pro,
+        currency: 'ZMW',
+        periodStart: period.periodStart,
+        periodEnd: period.periodStart,
+        now: at(period.periodStart),
+      });
+      expect(preview).toMatchObject({ remainingFraction: 0, difference: 0 });
+    });
+  });
+
+  test('switching to yearly starts a new year today at the full price less the credit', () => {
+    const now = at('2026-06-16T00:00:00.000Z');
+    const preview = previewProration({ currentPlan: pro, newPlan: proYearly, currency: 'USD', ...period, now });
+
+    expect(preview).toMatchObject({
+      direction: 'upgrade',
+      resetsPeriod: true,
+      unusedCredit: 15,
+      newPlanCost: 300,
+      difference: 285,
+      newPeriodStart: now.toISOString(),
+    });
+    expect(new Date(preview.newPeriodEnd).getFullYear()).toBe(2027);
+  });
+
+  test('switching to monthly starts a new month today', () => {
+    const now = at('2026-06-16T00:00:00.000Z');
+    const preview = previewProration({
+      currentPlan: proYearly,
+      newPlan: basic,
+      currency: 'USD',
+      periodStart: '2026-01-01T00:00:00.000Z',
+      periodEnd: '2027-01-01T00:00:00.000Z',
+      now,
+    });
+
+    const expectedEnd = new Date(now);
+    expectedEnd.setMonth(expectedEnd.getMonth() + 1);
+    expect(preview).toMatchObject({
+      direction: 'downgrade',
+      resetsPeriod: true,
+      newPlanCost: 10,
+      newPeriodStart: now.toISOString(),
+      newPeriodEnd: expectedEnd.toISOString(),
+    });
+    expect(preview.unusedCredit).toBeCloseTo(300 * (199 / 365), 2);
+    expect(preview.difference).toBe(Math.round((10 - preview.unusedCredit) * 100) / 100);
+  });
+});
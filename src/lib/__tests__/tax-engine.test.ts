@@ -0,0 +1,145 @@
+import { calculateTax, scaleTaxLines, selectTaxRules, summarizeTaxLines, type TaxRule } from '@/lib/tax';
+import { factory } from '@/test/factory';
+
+const rule = factory<TaxRule>((overrides) => ({
+  id: overrides.code ?? 'rule',
+  code: 'VAT',
+  name: 'VAT',
+  tax_type: 'vat',
+  treatment: 'added',
+  category: 'all',
+  rate: 0.16,
+  threshold_amount: 0,
+  currency: null,
+  requires_vat_registered: true,
+  effective_from: '2026-01-01',
+  effective_to: null,
+  is_active: true,
+  priority: 0,
+}));
+
+// The rules seeded by the tax_rules migration
+const VAT = rule({ id: 'vat' });
+const WHT = rule({
+  id: 'wht',
+  code: 'WHT',
+  name: 'Withholding Tax',
+  tax_type: 'withholding',
+  treatment: 'withheld',
+  category: 'service',
+  rate: 0.15,
+  threshold_amount: 10000,
+  currency: 'ZMW',
+  requires_vat_registered: false,
+});
+
+const date = '2026-06-01';
+
+describe('calculateTax', () => {
+  test('adds VAT on top of the price for a registered seller', () => {
+    const tax = calculateTax([VAT, WHT], {
+      amount: 1000,
+      currency: 'ZMW',
+      category: 'service',
+      sellerVatStatus: 'registered',
+      date,
+    });
+
+    expect(tax.lines).toEqual([
+      expect.objectContaining({ code: 'VAT', treatment: 'added', rate: 0.16, taxable_amount: 1000, amount: 160 }),
+    ]);
+    expect(tax).toMatchObject({ grossAmount: 1000, addedTax: 160, withheldTax: 0, totalPayable: 1160, netToSeller: 1000 });
+  });
+
+  test('withholds tax out of the price without changing what the buyer pays', () => {
+    const tax = calculateTax([VAT, WHT], { amount: 20000, currency: 'ZMW', category: 'service', date });
+
+    expect(tax.lines.map((line) => line.code)).toEqual(['WHT']);
+    expect(tax).toMatchObject({ addedTax: 0, withheldTax: 3000, totalPayable: 20000, netToSeller: 17000 });
+  });
+
+  test('applies both treatments together', () => {
+    const tax = calculateTax([VAT, WHT], {
+      amount: 12500,
+      currency: 'ZMW',
+      category: 'service',
+      sellerVatStatus: 'registered',
+      date,
+    });
+
+    expect(tax).toMatchObject({ addedTax: 2000, withheldTax: 1875, totalPayable: 14500, netToSeller: 10625 });
+  });
+
+  test('rounds the price and every line to cents', () => {
+    const tax = calculateTax([VAT, WHT], {
+      amount: 10333.337,
+      currency: 'ZMW',
+      category: 'service',
+      sellerVatStatus: 'registered',
+      date,
+    });
+
+    expect(tax.grossAmount).toBe(10333.34);
+    expect(tax.lines.map((line) => line.amount)).toEqual([1653.33, 1550]);
+    expect(tax).toMatchObject({ addedTax: 1653.33, withheldTax: 1550, totalPayable: 11986.67, netToSeller: 8783.34 });
+  });
+});
+
+describe('selectTaxRules', () => {
+  const input = { amount: 20000, currency: 'ZMW', category: 'service' as const, sellerVatStatus: 'registered' as const, date };
+  const codes = (rules: TaxRule[]) => rules.map((r) => r.code);
+
+  test('skips VAT for sellers who are not registered or are exempt', () => {
+    expect(codes(selectTaxRules([VAT, WHT], { ...input, sellerVatStatus: 'not_registered' }))).toEqual(['WHT']);
+    expect(codes(selectTaxRules([VAT, WHT], { ...input, sellerVatStatus: null }))).toEqual(['WHT']);
+    expect(codes(selectTaxRules([rule({ requires_vat_registered: false }), WHT], { ...input, sellerVatStatus: 'exempt' })))
+      .toEqual(['WHT']);
+  });
+
+  test('applies a threshold only above it, in its own currency', () => {
+    expect(codes(selectTaxRules([WHT], { ...input, amount: 10000 }))).toEqual([]);
+    expect(codes(selectTaxRules([WHT], { ...input, amount: 10000.01 }))).toEqual(['WHT']);
+    expect(codes(selectTaxRules([WHT], { ...input, currency: 'USD' }))).toEqual([]);
+  });
+
+  test('matches the category or all categories', () => {
+    expect(codes(selectTaxRules([VAT, WHT], { ...input, category: 'sale' }))).toEqual(['VAT']);
+    expect(codes(selectTaxRules([VAT, WHT], { ...input, category: 'subscription' }))).toEqual(['VAT']);
+  });
+
+  test('uses only active rules in effect on the date', () => {
+    const ended = rule({ id: 'old', effective_to: '2026-06-01' });
+    const future = rule({ id: 'new', effective_from: '2026-06-02' });
+
+    expect(selectTaxRules([ended, future], input)).toEqual([]);
+    expect(selectTaxRules([ended], { ...input, date: '2026-05-31' })).toEqual([ended]);
+    expect(selectTaxRules([rule({ is_active: false })], input)).toEqual([]);
+  });
+
+  test('picks one rule per code: highest priority, then the latest effective', () => {
+    const old = rule({ id: 'old', rate: 0.16, effective_from: '2026-01-01' });
+    const replacement = rule({ id: 'replacement', rate: 0.17, effective_from: '2026-05-01' });
+    const override = rule({ id: 'override', rate: 0.1, effective_from: '2025-01-01', priority: 5 });
+
+    expect(selectTaxRules([replacement, old], input).map((r) => r.id)).toEqual(['replacement']);
+    expect(selectTaxRules([old, override, replacement], input).map((r) => r.id)).toEqual(['override']);
+  });
+
+  test('orders the rules by code', () => {
+    const levy = rule({ id: 'levy', code: 'LEVY', requires_vat_registered: false, tax_type: 'other' });
+    expect(codes(selectTaxRules([WHT, VAT, levy], input))).toEqual(['LEVY', 'VAT', 'WHT']);
+  });
+});
+
+describe('scaleTaxLines', () => {
+  test('splits stored lines into shares that add back up when the last is the remainder', () => {
+    const { lines } = calculateTax([VAT], { amount: 1000, currency: 'ZMW', category: 'service', sellerVatStatus: 'registered', date });
+
+    const first = scaleTaxLines(lines, 1 / 3);
+    const rest = scaleTaxLines(lines, 2 / 3);
+
+    expect(first[0]).toMatchObject({ taxable_amount: 333.33, amount: 53.33 });
+    expect(summarizeTaxLines(rest, 666.67, 'ZMW')).toMatchObject({ addedTax: 106.67, totalPayable: 773.34 });
+    expect(first[0].amount + rest[0].amount).toBeCloseTo(lines[0].amount, 10);
+  });
+});
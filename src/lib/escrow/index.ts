@@ -0,0 +1,3 @@
+// Escrow settlement rules behind /admin/disputes, the same ones order-manager
+// pays acceptances and cancellations with.
+export * from '../../../supabase/functions/_shared/escrow-settlement.ts';
@@ -0,0 +1,3 @@
+// Fee tiers and plan overrides behind the /admin/fees simulator, evaluated the
+// same way lenco-payments prices a checkout.
+export * from '../../../supabase/functions/_shared/fee-schedule.ts';
@@ -0,0 +1,3 @@
+// Contracts and scoring of the `freelancer-matcher` edge function, shared so
+// the browser shows the same sub-scores the function stored.
+export * from '../../../supabase/functions/_shared/freelancer-match.ts';
@@ -0,0 +1,3 @@
+// What IndustryMatcher sends to and gets back from `industry-matcher`, plus
+// the sector-to-taxonomy rules it scored with.
+export * from '../../../supabase/functions/_shared/industry-match.ts';
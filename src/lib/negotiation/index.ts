@@ -0,0 +1,4 @@
+// Turn-taking and expiry rules of price negotiations, shared with the
+// `negotiation-manager` edge function so the UI and the server agree on
+// whose turn it is.
+export * from '../../../supabase/functions/_shared/negotiation-rules.ts';
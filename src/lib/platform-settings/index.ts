@@ -0,0 +1,3 @@
+// Platform switches shared with the edge functions that enforce them, so the
+// browser and the server agree on defaults and on what a valid value is.
+export * from '../../../supabase/functions/_shared/platform-settings.ts';
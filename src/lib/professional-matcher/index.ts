@@ -0,0 +1,3 @@
+// Matcher types and source labels for the marketplace AI panels and the gap
+// matcher, which render whatever `ai-professional-matcher` ranked.
+export * from '../../../supabase/functions/_shared/professional-matcher.ts';
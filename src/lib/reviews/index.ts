@@ -0,0 +1,3 @@
+// Review rules shared with the `review-manager` edge function so the order
+// and profile pages only offer what the server will accept.
+export * from '../../../supabase/functions/_shared/service-reviews.ts';
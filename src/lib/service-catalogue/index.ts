@@ -0,0 +1,4 @@
+// Package, add-on and listing-state rules shared with the
+// `marketplace-manager` and `negotiation-manager` edge functions, so the
+// price shown for a package is the price the order is created at.
+export * from '../../../supabase/functions/_shared/service-catalogue.ts';
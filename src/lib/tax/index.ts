@@ -0,0 +1,3 @@
+// Tax rules engine behind ZRATaxCalculator and the /admin/tax simulator, the
+// same one lenco-payments and negotiation-manager price orders with.
+export * from '../../../supabase/functions/_shared/tax-engine.ts';
@@ -11,6 +11,7 @@ import { Loader2, Mail, Lock, User, ArrowRight, CheckCircle } from 'lucide-react
 import { z } from 'zod';
 import wathciLogo from '@/assets/wathaci-logo.png';
 import { lovable } from '@/integrations/lovable/index';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
 
 const emailSchema = z.string().email('Please enter a valid email address');
 const passwordSchema = z.string().min(6, 'Password must be at least 6 characters');
@@ -44,6 +45,7 @@ export default function Auth() {
   };
 
   const { signIn, signUp, user } = useAuth();
+  const { settings } = usePlatformSettings();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -103,6 +105,10 @@ export default function Auth() {
     e.preventDefault();
     
     if (!validateInputs(true)) return;
+    if (!settings.signup_enabled) {
+      toast.error('New signups are currently closed');
+      return;
+    }
     
     setIsLoading(true);
     const { error, session } = await signUp(email, password, fullName);
@@ -335,69 +341,75 @@ export default function Auth() {
                 </TabsContent>
                 
                 <TabsContent value="signup" className="space-y-4">
-                  <form onSubmit={handleSignUp} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="signup-name" className="text-foreground font-medium">Full Name</Label>
-                      <div className="relative">
-                        <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="signup-name"
-                          type="text"
-                          placeholder="John Doe"
-                          value={fullName}
-                          onChange={(e) => setFullName(e.target.value)}
-                          className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
-                        />
+                  {!settings.signup_enabled ? (
+                    <p className="text-center text-sm text-muted-foreground py-6">
+                      New signups are currently closed. Existing members can still sign in.
+                    </p>
+                  ) : (
+                    <form onSubmit={handleSignUp} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-name" className="text-foreground font-medium">Full Name</Label>
+                        <div className="relative">
+                          <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="signup-name"
+                            type="text"
+                            placeholder="John Doe"
+                            value={fullName}
+                            onChange={(e) => setFullName(e.target.value)}
+                            className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
+                          />
+                        </div>
                       </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="signup-email" className="text-foreground font-medium">Email</Label>
-                      <div className="relative">
-                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="signup-email"
-                          type="email"
-                          placeholder="you@example.com"
-                          value={email}
-                          onChange={(e) => setEmail(e.target.value)}
-                          className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
-                          required
-                        />
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-email" className="text-foreground font-medium">Email</Label>
+                        <div className="relative">
+                          <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="signup-email"
+                            type="email"
+                            placeholder="you@example.com"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
+                            required
+                          />
+                        </div>
                       </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="signup-password" className="text-foreground font-medium">Password</Label>
-                      <div className="relative">
-                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                        <Input
-                          id="signup-password"
-                          type="password"
-                          placeholder="••••••••"
-                          value={password}
-                          onChange={(e) => setPassword(e.target.value)}
-                          className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
-                          required
-                        />
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-password" className="text-foreground font-medium">Password</Label>
+                        <div className="relative">
+                          <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            id="signup-password"
+                            type="password"
+                            placeholder="••••••••"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="pl-10 bg-background border-input focus:border-accent focus:ring-accent"
+                            required
+                          />
+                        </div>
                       </div>
-                    </div>
-                    <Button 
-                      type="submit" 
-                      className="w-full bg-accent hover:bg-accent/90 text-accent-foreground font-semibold group" 
-                      disabled={isLoading}
-                    >
-                      {isLoading ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Creating account...
-                        </>
-                      ) : (
-                        <>
-                          Create Account
-                          <ArrowRight className="ml-2 h-4 w-4 group-hover:translate-x-1 transition-transform" />
-                        </>
-                      )}
-                    </Button>
-                  </form>
+                      <Button 
+                        type="submit" 
+                        className="w-full bg-accent hover:bg-accent/90 text-accent-foreground font-semibold group" 
+                        disabled={isLoading}
+                      >
+                        {isLoading ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Creating account...
+                          </>
+                        ) : (
+                          <>
+                            Create Account
+                            <ArrowRight className="ml-2 h-4 w-4 group-hover:translate-x-1 transition-transform" />
+                          </>
+                        )}
+                      </Button>
+                    </form>
+                  )}
                 </TabsContent>
               </Tabs>
             </CardContent>
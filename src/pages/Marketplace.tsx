@@ -12,6 +12,7 @@ import { IntegratedMarketplace } from '@/components/marketplace/IntegratedMarket
 import { ComplianceGate } from '@/components/marketplace/ComplianceGate';
 import { SubscriptionBanner } from '@/components/SubscriptionBanner';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
 import heroMarketplace from '@/assets/hero-marketplace.jpg';
 
 const Marketplace = () => {
@@ -22,6 +23,7 @@ const Marketplace = () => {
   const [aiRecommendations, setAiRecommendations] = useState<any[]>([]);
   const [cart, setCart] = useState<any[]>([]);
   const [isAIAssistantOpen, setIsAIAssistantOpen] = useState(false);
+  const { settings } = usePlatformSettings();
 
   const handleSearch = (query: string, filters: any) => {
     setSearchQuery(query);
@@ -121,11 +123,13 @@ const Marketplace = () => {
               </section>
 
               {/* Personalized Recommendations */}
-              <section>
-                <PersonalizedRecommendations
-                  onSelectRecommendation={handleSelectRecommendation}
-                />
-              </section>
+              {settings.ai_features_enabled && (
+                <section>
+                  <PersonalizedRecommendations
+                    onSelectRecommendation={handleSelectRecommendation}
+                  />
+                </section>
+              )}
             </div>
           )}
 
@@ -174,13 +178,15 @@ const Marketplace = () => {
 
         {/* Floating Action Buttons */}
         <div className="fixed bottom-6 right-6 flex flex-col gap-3 z-50">
-          <Button
-            size="lg"
-            className="rounded-full w-14 h-14 shadow-xl bg-gradient-to-br from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70"
-            onClick={() => setIsAIAssistantOpen(true)}
-          >
-            <MessageCircle className="w-6 h-6" />
-          </Button>
+          {settings.ai_features_enabled && (
+            <Button
+              size="lg"
+              className="rounded-full w-14 h-14 shadow-xl bg-gradient-to-br from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70"
+              onClick={() => setIsAIAssistantOpen(true)}
+            >
+              <MessageCircle className="w-6 h-6" />
+            </Button>
+          )}
           
           {cart.length > 0 && (
             <Button 
@@ -0,0 +1,21 @@
+import AppLayout from '@/components/AppLayout';
+import PageHero from '@/components/PageHero';
+import { ServiceCatalogueManager } from '@/components/marketplace/ServiceCatalogueManager';
+import heroImage from '@/assets/hero-marketplace.jpg';
+
+const MyServices = () => {
+  return (
+    <AppLayout>
+      <PageHero
+        title="My Services"
+        description="Set up packages and add-ons, submit listings for review and pause while you're away"
+        backgroundImage={heroImage}
+      />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <ServiceCatalogueManager />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default MyServices;
@@ -0,0 +1,21 @@
+import AppLayout from '@/components/AppLayout';
+import PageHero from '@/components/PageHero';
+import { NotificationSettings } from '@/components/notifications/NotificationSettings';
+import heroImage from '@/assets/hero-messages.jpg';
+
+const NotificationPreferences = () => {
+  return (
+    <AppLayout>
+      <PageHero
+        title="Notification Settings"
+        description="Choose what you hear about, how often, and when to stay quiet"
+        backgroundImage={heroImage}
+      />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <NotificationSettings />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default NotificationPreferences;
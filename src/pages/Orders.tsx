@@ -0,0 +1,21 @@
+import AppLayout from '@/components/AppLayout';
+import PageHero from '@/components/PageHero';
+import { OrderList } from '@/components/orders/OrderList';
+import heroImage from '@/assets/hero-wallet.jpg';
+
+const Orders = () => {
+  return (
+    <AppLayout>
+      <PageHero
+        title="My Orders"
+        description="Track escrow-protected orders from payment through delivery"
+        backgroundImage={heroImage}
+      />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <OrderList />
+      </div>
+    </AppLayout>
+  );
+};
+
+export default Orders;
@@ -1,12 +1,14 @@
 import { useParams, Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2, MapPin, Globe, Linkedin, Briefcase, Building2, TrendingUp, Landmark, ArrowLeft } from 'lucide-react';
+import { Loader2, MapPin, Globe, Linkedin, Briefcase, Building2, TrendingUp, Landmark, ArrowLeft, MessageSquare, Star } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Helmet } from 'react-helmet-async';
+import { ProviderReviews } from '@/components/reviews/ProviderReviews';
+import { formatRating } from '@/lib/reviews';
 
 export default function PublicProfile() {
   const { id } = useParams<{ id: string }>();
@@ -89,6 +91,7 @@ export default function PublicProfile() {
     profile.business_name?.trim() ||
     profile.institution_name?.trim() ||
     'Anonymous';
+  const rating = formatRating(profile.rating, profile.reviews_count);
   const initials = displayName.split(' ').map((n: string) => n[0]).join('').toUpperCase().slice(0, 2);
 
   return (
@@ -143,9 +146,21 @@ export default function PublicProfile() {
                         {profile.city}, {profile.country}
                       </Badge>
                     )}
+                    {rating && (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                        {rating} ({profile.reviews_count} {profile.reviews_count === 1 ? 'review' : 'reviews'})
+                      </Badge>
+                    )}
                   </div>
 
-                  <div className="flex gap-4">
+                  <div className="flex items-center gap-4">
+                    <Button size="sm" asChild>
+                      <Link to={`/messages?to=${profile.id}`}>
+                        <MessageSquare className="mr-2 h-4 w-4" />
+                        Send Message
+                      </Link>
+                    </Button>
                     {profile.website && (
                       <a
                         href={profile.website}
@@ -402,6 +417,8 @@ export default function PublicProfile() {
               </CardContent>
             </Card>
           )}
+
+          {profile.id && <ProviderReviews providerId={profile.id} />}
         </div>
       </div>
     </>
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, MailX, CheckCircle, AlertCircle } from 'lucide-react';
+import wathciLogo from '@/assets/wathaci-logo.png';
+
+interface UnsubscribeState {
+  email: string;
+  unsubscribed: boolean;
+}
+
+// Landing page for the unsubscribe link in notification and digest emails
+async function callUnsubscribe(action: 'lookup' | 'confirm', token: string): Promise<UnsubscribeState> {
+  const { data, error } = await supabase.functions.invoke('email-unsubscribe', {
+    body: { action, token }
+  });
+
+  if (error) {
+    let detail = error.message;
+    try {
+      const body = await (error as any).context?.json();
+      detail = body?.error || detail;
+    } catch {
+      // response body wasn't JSON — fall back to error.message
+    }
+    throw new Error(detail);
+  }
+  if (!data.success) throw new Error(data.error || 'Request failed');
+  return data.data as UnsubscribeState;
+}
+
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [state, setState] = useState<UnsubscribeState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(token ? null : 'This unsubscribe link is not valid');
+  const [checking, setChecking] = useState(!!token);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    callUnsubscribe('lookup', token)
+      .then(setState)
+      .catch((error: Error) => setLoadError(error.message))
+      .finally(() => setChecking(false));
+  }, [token]);
+
+  const handleConfirm = async () => {
+    if (!token) return;
+    setIsConfirming(true);
+    try {
+      setState(await callUnsubscribe('confirm', token));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not unsubscribe. Please try again.');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/5">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/5 p-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <Link to="/">
+            <img
+              src={wathciLogo}
+              alt="WATHACI Connect"
+              className="h-16 w-auto mx-auto"
+            />
+          </Link>
+        </div>
+
+        <Card className="border-border/50 shadow-xl bg-card">
+          <CardHeader className="space-y-1 text-center pb-2">
+            <CardTitle className="text-2xl font-display font-bold text-foreground">
+              {state?.unsubscribed ? 'You are unsubscribed' : 'Unsubscribe'}
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">
+              {state
+                ? `Email notifications for ${state.email}`
+                : 'Stop notification emails from WATHACI Connect'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="pt-4">
+            {loadError || !state ? (
+              <div className="text-center py-6">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-destructive/10 mb-4">
+                  <AlertCircle className="w-8 h-8 text-destructive" />
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {loadError || 'This unsubscribe link is not valid'}
+                </p>
+                <Button asChild variant="outline">
+                  <Link to="/settings/notifications">Manage notification settings</Link>
+                </Button>
+              </div>
+            ) : state.unsubscribed ? (
+              <div className="text-center py-6">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-4">
+                  <CheckCircle className="w-8 h-8 text-green-600" />
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  We will no longer send notification or digest emails to this address.
+                  Billing emails about your subscription will still be sent.
+                </p>
+                <Button asChild className="bg-primary hover:bg-primary/90 text-primary-foreground">
+                  <Link to="/">Go to Home</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center py-6">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
+                  <MailX className="w-8 h-8 text-primary" />
+                </div>
+                <p className="text-sm text-muted-foreground mb-4">
+                  You will stop receiving notification and digest emails. You can still see
+                  everything in your in-app notifications.
+                </p>
+                <Button
+                  onClick={handleConfirm}
+                  disabled={isConfirming}
+                  className="bg-primary hover:bg-primary/90 text-primary-foreground"
+                >
+                  {isConfirming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Unsubscribe
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,13 @@ import {
   TrendingUp,
   UserCheck,
   Landmark,
-  AlertCircle
+  AlertCircle,
+  Scale,
+  Percent,
+  Store,
+  Coins,
+  Mail,
+  MailWarning
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -65,6 +71,28 @@ const AdminDashboard = () => {
     }
   });
 
+  const { data: openDisputes } = useQuery({
+    queryKey: ['admin-open-disputes'],
+    queryFn: async () => {
+      const { count } = await supabase
+        .from('disputes')
+        .select('id', { count: 'exact', head: true })
+        .neq('status', 'resolved');
+      return count || 0;
+    }
+  });
+
+  const { data: pendingServices } = useQuery({
+    queryKey: ['admin-pending-services'],
+    queryFn: async () => {
+      const { count } = await supabase
+        .from('services')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending_review');
+      return count || 0;
+    }
+  });
+
   const trendFor = (entry?: { thisMonth: number; lastMonth: number }) => {
     if (!entry) return null;
     if (entry.lastMonth === 0) {
@@ -94,12 +122,50 @@ const AdminDashboard = () => {
       icon: FileText,
       href: '/admin/audit-logs',
     },
+    {
+      title: 'Disputes',
+      description: 'Arbitrate order disputes and settle escrow',
+      icon: Scale,
+      href: '/admin/disputes',
+      badge: openDisputes || undefined,
+    },
+    {
+      title: 'Service Moderation',
+      description: 'Review marketplace listings before they go live',
+      icon: Store,
+      href: '/admin/services',
+      badge: pendingServices || undefined,
+    },
+    {
+      title: 'Tax Rules',
+      description: 'Manage tax rates, thresholds and seller VAT status',
+      icon: Percent,
+      href: '/admin/tax',
+    },
+    {
+      title: 'Fee Schedule',
+      description: 'Schedule platform fee tiers and provider discounts',
+      icon: Coins,
+      href: '/admin/fees',
+    },
     {
       title: 'Notifications',
       description: 'Send system-wide announcements',
       icon: Bell,
       href: '/admin/notifications',
     },
+    {
+      title: 'Email Templates',
+      description: 'Preview transactional and notification emails',
+      icon: Mail,
+      href: '/admin/email-templates',
+    },
+    {
+      title: 'Email Operations',
+      description: 'Delivery rates, dead letter queues and suppressions',
+      icon: MailWarning,
+      href: '/admin/email',
+    },
     {
       title: 'Settings',
       description: 'Configure platform settings',
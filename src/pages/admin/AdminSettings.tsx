@@ -1,51 +1,70 @@
+import { useEffect, useState } from 'react';
 import { Helmet } from 'react-helmet-async';
 import { Link } from 'react-router-dom';
 import { 
   Settings, 
   ArrowLeft,
-  Bell,
-  Shield,
   Database,
   Globe,
   Palette,
-  Mail
+  Mail,
+  Percent,
+  Shield,
+  Loader2
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { usePlatformSettings, useUpdatePlatformSetting } from '@/hooks/usePlatformSettings';
+import {
+  DEFAULT_FALLBACK_FEE_PERCENT,
+  DEFAULT_ORDER_FEE_PERCENT,
+  type PlatformSettings,
+} from '@/lib/platform-settings';
+
+type SwitchKey = Exclude<keyof PlatformSettings, 'fee_overrides'>;
+
+const switches: { id: SwitchKey; label: string; description: string }[] = [
+  { id: 'maintenance_mode', label: 'Maintenance Mode', description: 'Show a maintenance page to everyone but admins and pause orders and payments' },
+  { id: 'signup_enabled', label: 'User Registration', description: 'Allow new users to register' },
+  { id: 'payment_test_mode', label: 'Payment Test Mode', description: 'Send new payments to the Lenco sandbox; no real money moves' },
+  { id: 'ai_features_enabled', label: 'AI Features', description: 'Matching, search suggestions and assistants powered by AI' },
+];
+
+const percentInput = (value: number | null) => (value == null ? '' : String(value));
 
 const AdminSettings = () => {
-  const settingsSections = [
-    {
-      title: 'Platform Settings',
-      icon: Globe,
-      settings: [
-        { id: 'maintenance', label: 'Maintenance Mode', description: 'Put the platform in maintenance mode', enabled: false },
-        { id: 'registration', label: 'User Registration', description: 'Allow new users to register', enabled: true },
-        { id: 'verification', label: 'Email Verification', description: 'Require email verification for new accounts', enabled: true },
-      ]
-    },
-    {
-      title: 'Security Settings',
-      icon: Shield,
-      settings: [
-        { id: '2fa', label: 'Two-Factor Authentication', description: 'Require 2FA for admin accounts', enabled: false },
-        { id: 'session', label: 'Session Timeout', description: 'Auto logout after 30 minutes of inactivity', enabled: true },
-        { id: 'ipblock', label: 'IP Blocking', description: 'Block suspicious IP addresses automatically', enabled: true },
-      ]
-    },
-    {
-      title: 'Notification Settings',
-      icon: Bell,
-      settings: [
-        { id: 'email_notifications', label: 'Email Notifications', description: 'Send email notifications for important events', enabled: true },
-        { id: 'admin_alerts', label: 'Admin Alerts', description: 'Receive alerts for critical system events', enabled: true },
-        { id: 'user_reports', label: 'User Reports', description: 'Get notified when users report issues', enabled: true },
-      ]
-    },
-  ];
+  const { settings, isLoading } = usePlatformSettings();
+  const updateSetting = useUpdatePlatformSetting();
+  const [orderFee, setOrderFee] = useState('');
+  const [defaultFee, setDefaultFee] = useState('');
+
+  useEffect(() => {
+    setOrderFee(percentInput(settings.fee_overrides.order_fee_percent));
+    setDefaultFee(percentInput(settings.fee_overrides.default_fee_percent));
+  }, [settings.fee_overrides.order_fee_percent, settings.fee_overrides.default_fee_percent]);
+
+  const handleToggle = (key: SwitchKey, value: boolean) => {
+    updateSetting.mutate({ key, value }, {
+      onSuccess: () => toast.success('Setting saved'),
+      onError: (error: Error) => toast.error(`Update failed: ${error.message}`),
+    });
+  };
+
+  const handleSaveFees = () => {
+    const parse = (input: string) => (input.trim() === '' ? null : Number(input));
+    updateSetting.mutate({
+      key: 'fee_overrides',
+      value: { order_fee_percent: parse(orderFee), default_fee_percent: parse(defaultFee) },
+    }, {
+      onSuccess: () => toast.success('Fee overrides saved'),
+      onError: (error: Error) => toast.error(`Update failed: ${error.message}`),
+    });
+  };
 
   return (
     <>
@@ -77,35 +96,88 @@ const AdminSettings = () => {
 
         <div className="container mx-auto px-4 py-8 max-w-4xl">
           <div className="space-y-6">
-            {settingsSections.map((section) => (
-              <Card key={section.title}>
-                <CardHeader>
-                  <div className="flex items-center gap-3">
-                    <section.icon className="h-5 w-5 text-primary" />
-                    <div>
-                      <CardTitle>{section.title}</CardTitle>
-                      <CardDescription>Manage {section.title.toLowerCase()}</CardDescription>
-                    </div>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <Globe className="h-5 w-5 text-primary" />
+                  <div>
+                    <CardTitle>Platform Settings</CardTitle>
+                    <CardDescription>Changes apply across the platform within a minute and are recorded in the audit log</CardDescription>
                   </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {section.settings.map((setting, index) => (
-                    <div key={setting.id}>
-                      <div className="flex items-center justify-between">
-                        <div className="space-y-0.5">
-                          <Label htmlFor={setting.id} className="text-base font-medium">
-                            {setting.label}
-                          </Label>
-                          <p className="text-sm text-muted-foreground">{setting.description}</p>
-                        </div>
-                        <Switch id={setting.id} defaultChecked={setting.enabled} />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {switches.map((setting, index) => (
+                  <div key={setting.id}>
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor={setting.id} className="text-base font-medium">
+                          {setting.label}
+                        </Label>
+                        <p className="text-sm text-muted-foreground">{setting.description}</p>
                       </div>
-                      {index < section.settings.length - 1 && <Separator className="mt-4" />}
+                      <Switch
+                        id={setting.id}
+                        checked={settings[setting.id]}
+                        disabled={isLoading || updateSetting.isPending}
+                        onCheckedChange={(value) => handleToggle(setting.id, value)}
+                      />
                     </div>
-                  ))}
-                </CardContent>
-              </Card>
-            ))}
+                    {index < switches.length - 1 && <Separator className="mt-4" />}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <Percent className="h-5 w-5 text-primary" />
+                  <div>
+                    <CardTitle>Fee Overrides</CardTitle>
+                    <CardDescription>
+                      Used when no tier in the fee schedule matches. Leave a field empty to use the built-in rate
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="order-fee">Negotiated orders (%)</Label>
+                    <Input
+                      id="order-fee"
+                      type="number"
+                      min="0"
+                      max="50"
+                      step="0.1"
+                      placeholder={String(DEFAULT_ORDER_FEE_PERCENT)}
+                      value={orderFee}
+                      onChange={(e) => setOrderFee(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="default-fee">Other payments (%)</Label>
+                    <Input
+                      id="default-fee"
+                      type="number"
+                      min="0"
+                      max="50"
+                      step="0.1"
+                      placeholder={String(DEFAULT_FALLBACK_FEE_PERCENT)}
+                      value={defaultFee}
+                      onChange={(e) => setDefaultFee(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button onClick={handleSaveFees} disabled={isLoading || updateSetting.isPending}>
+                    {updateSetting.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save fees
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
 
             {/* Quick Actions */}
             <Card>
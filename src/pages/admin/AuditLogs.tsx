@@ -81,6 +81,8 @@ const AuditLogs = () => {
       create: { variant: 'outline', label: 'Create' },
       update: { variant: 'secondary', label: 'Update' },
       delete: { variant: 'destructive', label: 'Delete' },
+      dispute_resolved: { variant: 'default', label: 'Dispute Resolved' },
+      webhook_replayed: { variant: 'secondary', label: 'Webhook Replayed' },
     };
     const config = variants[action] || { variant: 'outline', label: action };
     return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -132,6 +134,8 @@ const AuditLogs = () => {
                     <SelectItem value="create">Create</SelectItem>
                     <SelectItem value="update">Update</SelectItem>
                     <SelectItem value="delete">Delete</SelectItem>
+                    <SelectItem value="dispute_resolved">Dispute Resolved</SelectItem>
+                    <SelectItem value="webhook_replayed">Webhook Replayed</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -0,0 +1,434 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Scale, RefreshCw, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+import { DisputeEvidence } from '@/components/orders/DisputeEvidence';
+import { acceptanceSettlement, disputeSettlement, type EscrowHolding } from '@/lib/escrow';
+
+type Outcome = 'refund' | 'split' | 'release';
+
+interface DisputeRow {
+  id: string;
+  order_id: string;
+  milestone_id: string | null;
+  opened_by: string;
+  reason: string;
+  status: string;
+  outcome: string | null;
+  provider_amount: number | null;
+  client_amount: number | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  order: {
+    service_title: string;
+    client_id: string;
+    provider_id: string;
+    agreed_price: number;
+    provider_payout: number;
+    escrow_amount: number;
+    currency: string;
+  } | null;
+  milestone: { title: string; amount: number; provider_payout: number; escrow_amount: number } | null;
+}
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  refund: 'Full refund to client',
+  split: 'Partial split',
+  release: 'Release to provider',
+};
+
+export default function Disputes() {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>('unresolved');
+  const [selected, setSelected] = useState<DisputeRow | null>(null);
+  const [outcome, setOutcome] = useState<Outcome>('refund');
+  const [providerAmount, setProviderAmount] = useState('');
+  const [clientAmount, setClientAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: disputes, isLoading, refetch } = useQuery({
+    queryKey: ['admin-disputes', statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('disputes')
+        .select(`
+          *,
+          order:orders(service_title, client_id, provider_id, agreed_price, provider_payout, escrow_amount, currency),
+          milestone:order_milestones(title, amount, provider_payout, escrow_amount)
+        `)
+        .order('created_at', { ascending: true })
+        .limit(100);
+
+      if (statusFilter === 'unresolved') {
+        query = query.neq('status', 'resolved');
+      } else if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as DisputeRow[];
+    }
+  });
+
+  const escrowFor = (dispute: DisputeRow) =>
+    Number(dispute.milestone ? dispute.milestone.escrow_amount : dispute.order?.escrow_amount || 0);
+
+  const holdingFor = (dispute: DisputeRow): EscrowHolding => ({
+    escrow_amount: escrowFor(dispute),
+    provider_payout: Number(dispute.milestone ? dispute.milestone.provider_payout : dispute.order?.provider_payout || 0),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (disputeId: string) => {
+      const { data, error } = await supabase.rpc('admin_review_dispute', { p_dispute_id: disputeId });
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Update failed');
+      }
+    },
+    onSuccess: () => {
+      setSelected((prev) => (prev ? { ...prev, status: 'under_review' } : prev));
+      queryClient.invalidateQueries({ queryKey: ['admin-disputes'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Update failed: ${error.message}`);
+    }
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ disputeId, outcome, providerAmount, clientAmount, note }: {
+      disputeId: string;
+      outcome: Outcome;
+      providerAmount?: number;
+      clientAmount?: number;
+      note: string;
+    }) => {
+      const { data, error } = await supabase.rpc('admin_resolve_dispute', {
+        p_dispute_id: disputeId,
+        p_outcome: outcome,
+        p_provider_amount: providerAmount,
+        p_client_amount: clientAmount,
+        p_note: note || undefined
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Resolution failed');
+      }
+
+      return result;
+    },
+    onSuccess: () => {
+      toast.success('Dispute resolved and escrow settled');
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-open-disputes'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Resolution failed: ${error.message}`);
+    }
+  });
+
+  const openDispute = (dispute: DisputeRow) => {
+    setSelected(dispute);
+    setOutcome('refund');
+    setProviderAmount('');
+    setClientAmount('');
+    setNote('');
+  };
+
+  const handleResolve = () => {
+    if (!selected) return;
+
+    if (outcome === 'split') {
+      const provider = parseFloat(providerAmount);
+      const client = parseFloat(clientAmount);
+      const result = disputeSettlement(outcome, holdingFor(selected), { providerAmount: provider, clientAmount: client });
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      resolveMutation.mutate({ disputeId: selected.id, outcome, providerAmount: provider, clientAmount: client, note });
+      return;
+    }
+
+    resolveMutation.mutate({ disputeId: selected.id, outcome, note });
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case 'open':
+        return <Badge variant="destructive">Open</Badge>;
+      case 'under_review':
+        return <Badge className="bg-amber-100 text-amber-800">Under review</Badge>;
+      case 'resolved':
+        return <Badge className="bg-green-100 text-green-800">Resolved</Badge>;
+      default:
+        return <Badge variant="outline">{status}</Badge>;
+    }
+  };
+
+  const symbolFor = (dispute: DisputeRow) => (dispute.order?.currency === 'USD' ? '$' : 'K');
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Disputes</h1>
+          <p className="text-muted-foreground">
+            Review evidence and settle escrow for disputed orders and milestones
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-center">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unresolved">Unresolved</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="under_review">Under review</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Arbitration Queue
+            </CardTitle>
+            <CardDescription>Oldest disputes first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !disputes?.length ? (
+              <p className="text-center text-muted-foreground py-8">No disputes found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Opened by</TableHead>
+                    <TableHead>In escrow</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {disputes.map((dispute) => (
+                    <TableRow key={dispute.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(dispute.created_at), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{dispute.order?.service_title}</p>
+                        {dispute.milestone && (
+                          <p className="text-xs text-muted-foreground">Milestone: {dispute.milestone.title}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {dispute.opened_by === dispute.order?.client_id ? 'Client' : 'Provider'}
+                      </TableCell>
+                      <TableCell>
+                        {symbolFor(dispute)}{escrowFor(dispute).toFixed(2)}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(dispute.status)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => openDispute(dispute)}>
+                          {dispute.status === 'resolved' ? 'View' : 'Review'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {selected?.order?.service_title}
+                {selected?.milestone && `: ${selected.milestone.title}`}
+              </DialogTitle>
+              <DialogDescription>
+                Opened by the {selected?.opened_by === selected?.order?.client_id ? 'client' : 'provider'}
+                {selected && ` on ${format(new Date(selected.created_at), 'MMM d, yyyy')}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="rounded-lg bg-secondary p-4 space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Agreed price</span>
+                    <span className="font-medium">
+                      {symbolFor(selected)}
+                      {Number(selected.milestone ? selected.milestone.amount : selected.order?.agreed_price || 0).toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Release pays (after tax)</span>
+                    <span className="font-medium">
+                      {symbolFor(selected)}
+                      {acceptanceSettlement(holdingFor(selected)).providerAmount.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Held in escrow</span>
+                    <span className="font-medium">{symbolFor(selected)}{escrowFor(selected).toFixed(2)}</span>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Reason</Label>
+                  <p className="text-sm whitespace-pre-wrap">{selected.reason}</p>
+                </div>
+
+                <div className="space-y-1">
+                  <Label>Evidence</Label>
+                  <DisputeEvidence
+                    disputeId={selected.id}
+                    partyLabels={
+                      selected.order
+                        ? { [selected.order.client_id]: 'Client', [selected.order.provider_id]: 'Provider' }
+                        : {}
+                    }
+                  />
+                </div>
+
+                {selected.status === 'resolved' ? (
+                  <div className="space-y-1 text-sm">
+                    <Label>Outcome</Label>
+                    <p>
+                      {OUTCOME_LABELS[selected.outcome as Outcome] || selected.outcome}: provider{' '}
+                      {symbolFor(selected)}{Number(selected.provider_amount || 0).toFixed(2)}, client{' '}
+                      {symbolFor(selected)}{Number(selected.client_amount || 0).toFixed(2)}
+                    </p>
+                    {selected.resolution_note && <p className="text-muted-foreground">{selected.resolution_note}</p>}
+                  </div>
+                ) : (
+                  <div className="space-y-4 border-t pt-4">
+                    <div className="space-y-2">
+                      <Label>Outcome</Label>
+                      <Select value={outcome} onValueChange={(value) => setOutcome(value as Outcome)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="refund">{OUTCOME_LABELS.refund}</SelectItem>
+                          <SelectItem value="split">{OUTCOME_LABELS.split}</SelectItem>
+                          <SelectItem value="release">{OUTCOME_LABELS.release}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {outcome === 'split' && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>To provider</Label>
+                          <Input
+                            type="number"
+                            value={providerAmount}
+                            onChange={(e) => {
+                              setProviderAmount(e.target.value);
+                              const rest = escrowFor(selected) - (parseFloat(e.target.value) || 0);
+                              setClientAmount(rest > 0 ? rest.toFixed(2) : '');
+                            }}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>To client</Label>
+                          <Input type="number" value={clientAmount} onChange={(e) => setClientAmount(e.target.value)} />
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label>Resolution note</Label>
+                      <Textarea
+                        placeholder="Shown to both parties and recorded in the audit log"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {selected && selected.status !== 'resolved' && (
+              <DialogFooter>
+                {selected.status === 'open' && (
+                  <Button
+                    variant="outline"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate(selected.id)}
+                  >
+                    Mark under review
+                  </Button>
+                )}
+                <Button onClick={handleResolve} disabled={resolveMutation.isPending}>
+                  {resolveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Resolve dispute
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
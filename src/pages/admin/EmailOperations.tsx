@@ -0,0 +1,659 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Eye, Gauge, Inbox, Loader2, MailWarning, Plus, RotateCcw, ShieldOff, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow, subDays } from 'date-fns';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+
+type EmailQueue = 'transactional_emails' | 'auth_emails';
+
+type SuppressionReason = 'manual' | 'bounce' | 'complaint' | 'unsubscribe';
+
+interface TemplateStats {
+  template_name: string;
+  messages: number;
+  sent: number;
+  failed: number;
+  suppressed: number;
+  pending: number;
+  failed_attempts: number;
+  rate_limited: number;
+  failure_rate: number;
+  last_sent_at: string | null;
+}
+
+interface SendStats {
+  templates: TemplateStats[];
+  dlq: Record<EmailQueue, number>;
+}
+
+interface SendState {
+  retry_after_until: string | null;
+  batch_size: number;
+  send_delay_ms: number;
+  auth_email_ttl_minutes: number;
+  transactional_email_ttl_minutes: number;
+  updated_at: string;
+}
+
+interface DlqMessage {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  reason: string | null;
+  message: {
+    message_id?: string;
+    to?: string;
+    subject?: string;
+    text?: string;
+    label?: string;
+    queued_at?: string;
+    requeued_from?: string;
+    [key: string]: unknown;
+  };
+}
+
+interface Suppression {
+  id: string;
+  email: string;
+  reason: SuppressionReason;
+  metadata: { note?: string | null; source?: string } | null;
+  created_at: string;
+}
+
+const STATS_PERIODS = [
+  { value: '1', label: 'Last 24 hours' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+];
+
+const QUEUE_LABELS: Record<EmailQueue, string> = {
+  transactional_emails: 'Transactional',
+  auth_emails: 'Auth',
+};
+
+const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  manual: 'Manual',
+  bounce: 'Bounce',
+  complaint: 'Complaint',
+  unsubscribe: 'Unsubscribed',
+};
+
+const formatRate = (rate: number) => `${(Number(rate) * 100).toFixed(1)}%`;
+
+// Admin RPCs report failures as { success: false, error }
+const unwrapRpc = ({ data, error }: { data: unknown; error: Error | null }) => {
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string };
+  if (!result.success) {
+    throw new Error(result.error || 'Update failed');
+  }
+  return result;
+};
+
+export default function EmailOperations() {
+  const queryClient = useQueryClient();
+  const [period, setPeriod] = useState('7');
+  const [queue, setQueue] = useState<EmailQueue>('transactional_emails');
+  const [inspecting, setInspecting] = useState<DlqMessage | null>(null);
+  const [confirmPurgeAll, setConfirmPurgeAll] = useState(false);
+  const [suppressionSearch, setSuppressionSearch] = useState('');
+  const [newSuppression, setNewSuppression] = useState({ email: '', reason: 'manual' as SuppressionReason, note: '' });
+
+  const { data: stats, isLoading: statsLoading } = useQuery({
+    queryKey: ['admin-email-stats', period],
+    queryFn: async () =>
+      unwrapRpc(await supabase.rpc('admin_email_send_stats', {
+        p_since: subDays(new Date(), Number(period)).toISOString(),
+      })) as unknown as SendStats
+  });
+
+  // Polled so the backoff clears on its own once the cooldown passes
+  const { data: sendState } = useQuery({
+    queryKey: ['admin-email-send-state'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_send_state')
+        .select('*')
+        .eq('id', 1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as SendState | null;
+    },
+    refetchInterval: 30_000
+  });
+
+  const { data: dlqMessages, isLoading: dlqLoading } = useQuery({
+    queryKey: ['admin-email-dlq', queue],
+    queryFn: async () => {
+      const result = unwrapRpc(await supabase.rpc('admin_list_email_dlq', {
+        p_queue: queue,
+        p_limit: 100,
+      })) as unknown as { messages: DlqMessage[] };
+      return result.messages;
+    }
+  });
+
+  const { data: suppressions, isLoading: suppressionsLoading } = useQuery({
+    queryKey: ['admin-suppressed-emails', suppressionSearch],
+    queryFn: async () => {
+      let query = supabase
+        .from('suppressed_emails')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (suppressionSearch.trim()) {
+        query = query.ilike('email', `%${suppressionSearch.trim()}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as Suppression[];
+    }
+  });
+
+  const invalidateDlq = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-email-dlq'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-email-stats'] });
+  };
+
+  const requeueMutation = useMutation({
+    mutationFn: async (msgIds: number[]) =>
+      unwrapRpc(await supabase.rpc('admin_requeue_email_dlq', {
+        p_queue: queue,
+        p_msg_ids: msgIds,
+      })) as unknown as { requeued: number },
+    onSuccess: (result) => {
+      toast.success(`${result.requeued} message${result.requeued === 1 ? '' : 's'} requeued`);
+      setInspecting(null);
+      invalidateDlq();
+    },
+    onError: (error: Error) => {
+      toast.error(`Requeue failed: ${error.message}`);
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (msgIds: number[] | null) =>
+      unwrapRpc(await supabase.rpc('admin_purge_email_dlq', {
+        p_queue: queue,
+        p_msg_ids: msgIds ?? undefined,
+      })) as unknown as { purged: number },
+    onSuccess: (result) => {
+      toast.success(`${result.purged} message${result.purged === 1 ? '' : 's'} purged`);
+      setInspecting(null);
+      setConfirmPurgeAll(false);
+      invalidateDlq();
+    },
+    onError: (error: Error) => {
+      toast.error(`Purge failed: ${error.message}`);
+    }
+  });
+
+  const addSuppressionMutation = useMutation({
+    mutationFn: async () =>
+      unwrapRpc(await supabase.rpc('admin_add_email_suppression', {
+        p_email: newSuppression.email,
+        p_reason: newSuppression.reason,
+        p_note: newSuppression.note || undefined,
+      })),
+    onSuccess: () => {
+      toast.success('Address suppressed');
+      setNewSuppression({ email: '', reason: 'manual', note: '' });
+      queryClient.invalidateQueries({ queryKey: ['admin-suppressed-emails'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Could not suppress address: ${error.message}`);
+    }
+  });
+
+  const removeSuppressionMutation = useMutation({
+    mutationFn: async (suppression: Suppression) =>
+      unwrapRpc(await supabase.rpc('admin_remove_email_suppression', {
+        p_suppression_id: suppression.id,
+      })),
+    onSuccess: () => {
+      toast.success('Suppression removed');
+      queryClient.invalidateQueries({ queryKey: ['admin-suppressed-emails'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Could not remove suppression: ${error.message}`);
+    }
+  });
+
+  const backoffUntil = sendState?.retry_after_until ? new Date(sendState.retry_after_until) : null;
+  const backingOff = !!backoffUntil && backoffUntil > new Date();
+  const dlqBusy = requeueMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Email Operations</h1>
+            <p className="text-muted-foreground">
+              Delivery per template, the send queue backoff, dead-lettered messages and suppressed addresses.
+            </p>
+          </div>
+          <div className="w-48">
+            <Select value={period} onValueChange={setPeriod}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {STATS_PERIODS.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-2">
+                <Gauge className="w-4 h-4" /> Rate-limit backoff
+              </CardDescription>
+              <CardTitle className="text-xl">
+                {backingOff ? `Paused until ${format(backoffUntil!, 'HH:mm:ss')}` : 'Sending normally'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm text-muted-foreground">
+              {backingOff
+                ? `The provider rate limited the queue; sending resumes ${formatDistanceToNow(backoffUntil!, { addSuffix: true })}.`
+                : backoffUntil
+                  ? `Last backoff ended ${formatDistanceToNow(backoffUntil, { addSuffix: true })}.`
+                  : 'No rate limiting recorded.'}
+              {sendState && (
+                <div className="mt-2">
+                  Batches of {sendState.batch_size}, {sendState.send_delay_ms} ms apart
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          {(Object.keys(QUEUE_LABELS) as EmailQueue[]).map((q) => (
+            <Card key={q}>
+              <CardHeader className="pb-2">
+                <CardDescription className="flex items-center gap-2">
+                  <Inbox className="w-4 h-4" /> {QUEUE_LABELS[q]} dead letter queue
+                </CardDescription>
+                <CardTitle className="text-xl">
+                  {stats ? `${stats.dlq[q] ?? 0} message${stats.dlq[q] === 1 ? '' : 's'}` : '—'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                Messages that ran out of retries, expired or were refused by the provider.
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailWarning className="w-5 h-5" />
+              Delivery by template
+            </CardTitle>
+            <CardDescription>
+              Each message counts once by its latest status. Failure rate is dead-lettered, bounced and complained
+              messages over everything that finished sending.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !stats?.templates.length ? (
+              <p className="text-center text-muted-foreground py-8">No emails logged in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Template</TableHead>
+                    <TableHead className="text-right">Messages</TableHead>
+                    <TableHead className="text-right">Sent</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Suppressed</TableHead>
+                    <TableHead className="text-right">Pending</TableHead>
+                    <TableHead className="text-right">Retries</TableHead>
+                    <TableHead className="text-right">Rate limited</TableHead>
+                    <TableHead className="text-right">Failure rate</TableHead>
+                    <TableHead>Last sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.templates.map((t) => (
+                    <TableRow key={t.template_name}>
+                      <TableCell className="font-mono text-xs">{t.template_name}</TableCell>
+                      <TableCell className="text-right">{t.messages}</TableCell>
+                      <TableCell className="text-right">{t.sent}</TableCell>
+                      <TableCell className="text-right">{t.failed}</TableCell>
+                      <TableCell className="text-right">{t.suppressed}</TableCell>
+                      <TableCell className="text-right">{t.pending}</TableCell>
+                      <TableCell className="text-right">{t.failed_attempts}</TableCell>
+                      <TableCell className="text-right">{t.rate_limited}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={Number(t.failure_rate) >= 0.05 ? 'destructive' : 'secondary'}>
+                          {formatRate(t.failure_rate)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {t.last_sent_at ? format(new Date(t.last_sent_at), 'MMM d, HH:mm') : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Inbox className="w-5 h-5" />
+                  Dead letter queue
+                </CardTitle>
+                <CardDescription>
+                  Requeued messages get a fresh retry budget and expiry
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <div className="w-44">
+                  <Select value={queue} onValueChange={(v) => setQueue(v as EmailQueue)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(QUEUE_LABELS) as EmailQueue[]).map((q) => (
+                        <SelectItem key={q} value={q}>{QUEUE_LABELS[q]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={!dlqMessages?.length || dlqBusy}
+                  onClick={() => requeueMutation.mutate(dlqMessages!.map((m) => m.msg_id))}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" /> Requeue all
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={!dlqMessages?.length || dlqBusy}
+                  onClick={() => setConfirmPurgeAll(true)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" /> Purge all
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {dlqLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !dlqMessages?.length ? (
+              <p className="text-center text-muted-foreground py-8">The dead letter queue is empty</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dead-lettered</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dlqMessages.map((m) => (
+                    <TableRow key={m.msg_id}>
+                      <TableCell className="text-sm">{format(new Date(m.enqueued_at), 'MMM d, HH:mm')}</TableCell>
+                      <TableCell className="font-mono text-xs">{m.message.label || '—'}</TableCell>
+                      <TableCell className="text-sm">{m.message.to || '—'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">{m.reason || '—'}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setInspecting(m)}>
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={dlqBusy}
+                          onClick={() => requeueMutation.mutate([m.msg_id])}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={dlqBusy}
+                          onClick={() => purgeMutation.mutate([m.msg_id])}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldOff className="w-5 h-5" />
+              Suppressed addresses
+            </CardTitle>
+            <CardDescription>
+              Nothing is sent to these addresses, except billing emails to people who unsubscribed. Removing an
+              unsubscribe resumes notification emails.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 md:grid-cols-[2fr_1fr_2fr_auto] items-end">
+              <div className="space-y-2">
+                <Label htmlFor="suppression-email">Email</Label>
+                <Input
+                  id="suppression-email"
+                  type="email"
+                  value={newSuppression.email}
+                  onChange={(e) => setNewSuppression({ ...newSuppression, email: e.target.value })}
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select
+                  value={newSuppression.reason}
+                  onValueChange={(v) => setNewSuppression({ ...newSuppression, reason: v as SuppressionReason })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SUPPRESSION_REASON_LABELS) as SuppressionReason[]).map((r) => (
+                      <SelectItem key={r} value={r}>{SUPPRESSION_REASON_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suppression-note">Note</Label>
+                <Input
+                  id="suppression-note"
+                  value={newSuppression.note}
+                  onChange={(e) => setNewSuppression({ ...newSuppression, note: e.target.value })}
+                  placeholder="Why this address is suppressed"
+                />
+              </div>
+              <Button
+                onClick={() => addSuppressionMutation.mutate()}
+                disabled={!newSuppression.email.trim() || addSuppressionMutation.isPending}
+              >
+                {addSuppressionMutation.isPending
+                  ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  : <Plus className="w-4 h-4 mr-2" />}
+                Suppress
+              </Button>
+            </div>
+
+            <Input
+              value={suppressionSearch}
+              onChange={(e) => setSuppressionSearch(e.target.value)}
+              placeholder="Search suppressed addresses"
+              className="max-w-sm"
+            />
+
+            {suppressionsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !suppressions?.length ? (
+              <p className="text-center text-muted-foreground py-8">No suppressed addresses</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead>Since</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppressions.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="text-sm">{s.email}</TableCell>
+                      <TableCell>
+                        <Badge variant={s.reason === 'unsubscribe' ? 'secondary' : 'outline'}>
+                          {SUPPRESSION_REASON_LABELS[s.reason] ?? s.reason}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{s.metadata?.note || '—'}</TableCell>
+                      <TableCell className="text-sm">{format(new Date(s.created_at), 'MMM d, yyyy')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={removeSuppressionMutation.isPending}
+                          onClick={() => removeSuppressionMutation.mutate(s)}
+                        >
+                          Remove
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!inspecting} onOpenChange={(open) => !open && setInspecting(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{inspecting?.message.subject || 'Dead-lettered message'}</DialogTitle>
+              <DialogDescription>
+                {inspecting?.message.label} to {inspecting?.message.to}
+              </DialogDescription>
+            </DialogHeader>
+            {inspecting && (
+              <div className="space-y-3 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <span className="text-muted-foreground">Message ID:</span>{' '}
+                    <span className="font-mono text-xs">{inspecting.message.message_id || '—'}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Queued:</span>{' '}
+                    {inspecting.message.queued_at
+                      ? format(new Date(inspecting.message.queued_at), 'MMM d, HH:mm:ss')
+                      : '—'}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Dead-lettered:</span>{' '}
+                    {format(new Date(inspecting.enqueued_at), 'MMM d, HH:mm:ss')}
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Requeued from:</span>{' '}
+                    <span className="font-mono text-xs">{inspecting.message.requeued_from || '—'}</span>
+                  </div>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Reason:</span> {inspecting.reason || 'Not logged'}
+                </div>
+                <pre className="whitespace-pre-wrap rounded-md border bg-muted p-3 text-xs max-h-64 overflow-auto">
+                  {inspecting.message.text || JSON.stringify(inspecting.message, null, 2)}
+                </pre>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                variant="outline"
+                disabled={dlqBusy}
+                onClick={() => inspecting && purgeMutation.mutate([inspecting.msg_id])}
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Purge
+              </Button>
+              <Button disabled={dlqBusy} onClick={() => inspecting && requeueMutation.mutate([inspecting.msg_id])}>
+                <RotateCcw className="w-4 h-4 mr-2" /> Requeue
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={confirmPurgeAll} onOpenChange={setConfirmPurgeAll}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Purge the {QUEUE_LABELS[queue].toLowerCase()} dead letter queue?</DialogTitle>
+              <DialogDescription>
+                Every message in it is deleted and will not be sent. The audit log keeps who each one was for.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setConfirmPurgeAll(false)}>Cancel</Button>
+              <Button variant="destructive" disabled={purgeMutation.isPending} onClick={() => purgeMutation.mutate(null)}>
+                {purgeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Purge all
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
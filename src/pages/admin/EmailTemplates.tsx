@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Eye, Mail, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+
+// Mirrors the registry in supabase/functions/_shared/email-templates.ts
+interface EmailTemplateSummary {
+  key: string;
+  version: number;
+  name: string;
+  description: string;
+  essential: boolean;
+  sample: Record<string, unknown>;
+}
+
+interface RenderedEmail {
+  template: string;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The email-templates function reports failures as { success: false, error }
+async function invokeEmailTemplates<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('email-templates', { body });
+
+  if (error) {
+    let detail = error.message;
+    try {
+      const response = await (error as any).context?.json();
+      detail = response?.error || detail;
+    } catch {
+      // response body wasn't JSON — fall back to error.message
+    }
+    throw new Error(detail);
+  }
+  if (!data.success) throw new Error(data.error || 'Request failed');
+  return data.data as T;
+}
+
+export default function EmailTemplates() {
+  const [selected, setSelected] = useState<EmailTemplateSummary | null>(null);
+  const [variablesText, setVariablesText] = useState('');
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['admin-email-templates'],
+    queryFn: () => invokeEmailTemplates<EmailTemplateSummary[]>({ action: 'list' })
+  });
+
+  const renderMutation = useMutation({
+    mutationFn: ({ template, variables }: { template: string; variables: Record<string, unknown> }) =>
+      invokeEmailTemplates<RenderedEmail>({ action: 'render', template, variables }),
+    onSuccess: (rendered) => setPreview(rendered),
+    onError: (error: Error) => {
+      toast.error(`Render failed: ${error.message}`);
+    }
+  });
+
+  const selectTemplate = (template: EmailTemplateSummary) => {
+    setSelected(template);
+    setVariablesText(JSON.stringify(template.sample, null, 2));
+    setPreview(null);
+    renderMutation.mutate({ template: template.key, variables: template.sample });
+  };
+
+  const handleRender = () => {
+    if (!selected) return;
+
+    let variables: unknown;
+    try {
+      variables = JSON.parse(variablesText || '{}');
+    } catch {
+      toast.error('Variables must be valid JSON');
+      return;
+    }
+    if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+      toast.error('Variables must be a JSON object');
+      return;
+    }
+    renderMutation.mutate({ template: selected.key, variables: variables as Record<string, unknown> });
+  };
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Email Templates</h1>
+          <p className="text-muted-foreground">
+            Every email sent through the queue. Preview a template with its sample data or your own variables.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="w-5 h-5" />
+              Templates
+            </CardTitle>
+            <CardDescription>
+              Essential templates are still sent after a recipient unsubscribes and have no unsubscribe link
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !templates?.length ? (
+              <p className="text-center text-muted-foreground py-8">No email templates found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Preview</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.key} data-state={selected?.key === template.key ? 'selected' : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{template.name}</div>
+                        <div className="text-xs text-muted-foreground">{template.description}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{template.key}</TableCell>
+                      <TableCell>v{template.version}</TableCell>
+                      <TableCell>
+                        <Badge variant={template.essential ? 'default' : 'secondary'}>
+                          {template.essential ? 'Essential' : 'Notification'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => selectTemplate(template)}>
+                          <Eye className="w-4 h-4 mr-1" /> Preview
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Variables</CardTitle>
+                <CardDescription>
+                  JSON laid over the sample data for {selected.name}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email-template-variables">Variables</Label>
+                  <Textarea
+                    id="email-template-variables"
+                    value={variablesText}
+                    onChange={(e) => setVariablesText(e.target.value)}
+                    rows={16}
+                    className="font-mono text-xs"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleRender} disabled={renderMutation.isPending}>
+                    {renderMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Render
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setVariablesText(JSON.stringify(selected.sample, null, 2))}
+                  >
+                    Reset to sample
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {preview ? (
+                    <>Subject: <span className="font-medium text-foreground">{preview.subject}</span></>
+                  ) : (
+                    'Render the template to see it here'
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderMutation.isPending && !preview ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : preview ? (
+                  <Tabs defaultValue="html">
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="text">Plain text</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="html">
+                      <iframe
+                        title={`${preview.template} preview`}
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="w-full h-[600px] rounded-md border bg-white"
+                      />
+                    </TabsContent>
+                    <TabsContent value="text">
+                      <pre className="whitespace-pre-wrap rounded-md border bg-muted p-4 text-xs">{preview.text}</pre>
+                    </TabsContent>
+                  </Tabs>
+                ) : null}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
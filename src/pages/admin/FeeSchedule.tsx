@@ -0,0 +1,921 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Calculator, Coins, Plus, Tag, Loader2 } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+import { usePlatformSettings } from '@/hooks/usePlatformSettings';
+import { fallbackFeePercent, orderFeePercent } from '@/lib/platform-settings';
+import {
+  FEE_TRANSACTION_TYPE_LABELS,
+  FEE_TRANSACTION_TYPES,
+  simulateFees,
+  type FeeDiscount,
+  type FeeDiscountScope,
+  type FeeTier,
+  type PastFeePayment,
+} from '@/lib/fee-schedule';
+
+interface FeeTierRow extends FeeTier {
+  created_at: string;
+}
+
+interface FeeDiscountRow extends FeeDiscount {
+  note: string | null;
+  created_at: string;
+}
+
+interface TierDraft {
+  currency: string;
+  transaction_type: FeeTier['transaction_type'];
+  min_amount: string;
+  max_amount: string;
+  fee_percentage: string;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+}
+
+interface DiscountDraft {
+  scope: FeeDiscountScope;
+  provider_email: string;
+  plan_id: string;
+  discount_percent: string;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+  note: string;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (value: Date | string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+const now = () => toLocalInput(new Date());
+
+const emptyTier = (): TierDraft => ({
+  currency: 'ZMW',
+  transaction_type: 'all',
+  min_amount: '0',
+  max_amount: '',
+  fee_percentage: '',
+  effective_from: now(),
+  effective_to: '',
+  is_active: true,
+});
+
+const draftFromTier = (tier: FeeTierRow): TierDraft => ({
+  currency: tier.currency,
+  transaction_type: tier.transaction_type,
+  min_amount: String(tier.min_amount),
+  max_amount: tier.max_amount === null ? '' : String(tier.max_amount),
+  fee_percentage: String(tier.fee_percentage),
+  effective_from: toLocalInput(tier.effective_from),
+  effective_to: tier.effective_to ? toLocalInput(tier.effective_to) : '',
+  is_active: tier.is_active,
+});
+
+const emptyDiscount = (): DiscountDraft => ({
+  scope: 'provider',
+  provider_email: '',
+  plan_id: '',
+  discount_percent: '',
+  effective_from: now(),
+  effective_to: '',
+  is_active: true,
+  note: '',
+});
+
+const draftFromDiscount = (discount: FeeDiscountRow): DiscountDraft => ({
+  scope: discount.scope,
+  provider_email: '',
+  plan_id: discount.plan_id || '',
+  discount_percent: String(discount.discount_percent),
+  effective_from: toLocalInput(discount.effective_from),
+  effective_to: discount.effective_to ? toLocalInput(discount.effective_to) : '',
+  is_active: discount.is_active,
+  note: discount.note || '',
+});
+
+const SIMULATION_PERIODS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+];
+
+// Admin RPCs report failures as { success: false, error }
+const unwrapRpc = ({ data, error }: { data: unknown; error: Error | null }) => {
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string };
+  if (!result.success) {
+    throw new Error(result.error || 'Update failed');
+  }
+  return result;
+};
+
+const money = (currency: string, amount: number) =>
+  `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const signed = (currency: string, amount: number) => `${amount > 0 ? '+' : ''}${money(currency, amount)}`;
+
+export default function FeeSchedule() {
+  const queryClient = useQueryClient();
+  const { settings } = usePlatformSettings();
+  const [editingTier, setEditingTier] = useState<{ id: string | null; draft: TierDraft } | null>(null);
+  const [editingDiscount, setEditingDiscount] = useState<{ id: string | null; draft: DiscountDraft } | null>(null);
+  const [simulation, setSimulation] = useState({
+    period: '90',
+    asOf: now(),
+    includeDrafts: false,
+  });
+  const [payments, setPayments] = useState<PastFeePayment[] | null>(null);
+
+  const { data: tiers, isLoading: tiersLoading } = useQuery({
+    queryKey: ['admin-fee-tiers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('platform_fee_tiers')
+        .select('*')
+        .order('currency')
+        .order('transaction_type')
+        .order('min_amount')
+        .order('effective_from', { ascending: false });
+      if (error) throw error;
+      return data as unknown as FeeTierRow[];
+    }
+  });
+
+  const { data: discounts, isLoading: discountsLoading } = useQuery({
+    queryKey: ['admin-fee-discounts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('platform_fee_discounts')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as FeeDiscountRow[];
+    }
+  });
+
+  const { data: plans } = useQuery({
+    queryKey: ['admin-subscription-plans'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('subscription_plans')
+        .select('id, name, account_type, billing_interval')
+        .order('name');
+      if (error) throw error;
+      return data;
+    }
+  });
+
+  const providerIds = useMemo(
+    () => [...new Set((discounts || []).map((d) => d.provider_id).filter((id): id is string => !!id))],
+    [discounts]
+  );
+
+  const { data: providers } = useQuery({
+    queryKey: ['admin-fee-discount-providers', providerIds],
+    enabled: providerIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, display_name, email')
+        .in('id', providerIds);
+      if (error) throw error;
+      return new Map(data.map((p) => [p.id, p]));
+    }
+  });
+
+  const invalidateSchedule = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-fee-tiers'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-fee-discounts'] });
+  };
+
+  const saveTierMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string | null; draft: TierDraft }) =>
+      unwrapRpc(await supabase.rpc('admin_save_fee_tier', {
+        p_tier_id: id ?? undefined,
+        p_tier: {
+          currency: draft.currency,
+          transaction_type: draft.transaction_type,
+          min_amount: Number(draft.min_amount || 0),
+          max_amount: draft.max_amount === '' ? null : Number(draft.max_amount),
+          fee_percentage: Number(draft.fee_percentage),
+          effective_from: fromLocalInput(draft.effective_from),
+          effective_to: fromLocalInput(draft.effective_to),
+          is_active: draft.is_active,
+        },
+      })),
+    onSuccess: () => {
+      toast.success('Fee tier saved');
+      setEditingTier(null);
+      invalidateSchedule();
+    },
+    onError: (error: Error) => {
+      toast.error(`Save failed: ${error.message}`);
+    }
+  });
+
+  const saveDiscountMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string | null; draft: DiscountDraft }) => {
+      let providerId: string | null = null;
+      if (!id && draft.scope === 'provider') {
+        const { data: profile, error } = await supabase
+          .from('profiles')
+          .select('id')
+          .eq('email', draft.provider_email.trim().toLowerCase())
+          .maybeSingle();
+        if (error) throw error;
+        if (!profile) throw new Error('No user with that email');
+        providerId = profile.id;
+      }
+
+      // Who a discount is for can't change once it exists
+      const target = id
+        ? {}
+        : {
+            scope: draft.scope,
+            provider_id: providerId,
+            plan_id: draft.scope === 'plan' ? draft.plan_id : null,
+          };
+
+      return unwrapRpc(await supabase.rpc('admin_save_fee_discount', {
+        p_discount_id: id ?? undefined,
+        p_discount: {
+          ...target,
+          discount_percent: Number(draft.discount_percent),
+          effective_from: fromLocalInput(draft.effective_from),
+          effective_to: fromLocalInput(draft.effective_to),
+          is_active: draft.is_active,
+          note: draft.note.trim() || null,
+        },
+      }));
+    },
+    onSuccess: () => {
+      toast.success('Discount saved');
+      setEditingDiscount(null);
+      invalidateSchedule();
+    },
+    onError: (error: Error) => {
+      toast.error(`Save failed: ${error.message}`);
+    }
+  });
+
+  const endTierMutation = useMutation({
+    mutationFn: async (tier: FeeTierRow) =>
+      unwrapRpc(await supabase.rpc('admin_save_fee_tier', {
+        p_tier_id: tier.id,
+        p_tier: { effective_to: new Date().toISOString() },
+      })),
+    onSuccess: () => {
+      toast.success('Fee tier ended');
+      invalidateSchedule();
+    },
+    onError: (error: Error) => {
+      toast.error(`Update failed: ${error.message}`);
+    }
+  });
+
+  const endDiscountMutation = useMutation({
+    mutationFn: async (discount: FeeDiscountRow) =>
+      unwrapRpc(await supabase.rpc('admin_save_fee_discount', {
+        p_discount_id: discount.id,
+        p_discount: { effective_to: new Date().toISOString() },
+      })),
+    onSuccess: () => {
+      toast.success('Discount ended');
+      invalidateSchedule();
+    },
+    onError: (error: Error) => {
+      toast.error(`Update failed: ${error.message}`);
+    }
+  });
+
+  const sampleMutation = useMutation({
+    mutationFn: async (days: number) => {
+      const result = unwrapRpc(await supabase.rpc('admin_fee_simulation_sample', {
+        p_since: subDays(new Date(), days).toISOString(),
+        p_limit: 1000,
+      })) as unknown as { rows: PastFeePayment[] };
+      return result.rows;
+    },
+    onSuccess: (rows) => setPayments(rows),
+    onError: (error: Error) => {
+      toast.error(`Could not load payments: ${error.message}`);
+    }
+  });
+
+  // Disabled tiers and discounts count as a proposal when drafts are included
+  const simulated = useMemo(() => {
+    if (!payments || !tiers || !discounts) return null;
+    const asDraft = <T extends { is_active: boolean }>(rows: T[]) =>
+      simulation.includeDrafts ? rows.map((row) => ({ ...row, is_active: true })) : rows;
+
+    const result = simulateFees(
+      { tiers: asDraft(tiers), discounts: asDraft(discounts) },
+      payments,
+      {
+        at: fromLocalInput(simulation.asOf) ?? undefined,
+        fallbackPercent: (type) => (type === 'order' ? orderFeePercent(settings) : fallbackFeePercent(settings)),
+      }
+    );
+    const largest = [...result.rows]
+      .filter((row) => row.difference !== 0)
+      .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+      .slice(0, 20);
+    return { ...result, largest };
+  }, [payments, tiers, discounts, simulation.asOf, simulation.includeDrafts, settings]);
+
+  const scheduleState = (row: { is_active: boolean; effective_from: string; effective_to: string | null }) => {
+    const current = Date.now();
+    if (!row.is_active) return <Badge variant="outline">Disabled</Badge>;
+    if (new Date(row.effective_from).getTime() > current) return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
+    if (row.effective_to && new Date(row.effective_to).getTime() <= current) return <Badge variant="secondary">Ended</Badge>;
+    return <Badge className="bg-green-100 text-green-800">In effect</Badge>;
+  };
+
+  const isRunning = (row: { is_active: boolean; effective_from: string; effective_to: string | null }) =>
+    row.is_active &&
+    new Date(row.effective_from).getTime() <= Date.now() &&
+    (!row.effective_to || new Date(row.effective_to).getTime() > Date.now());
+
+  const effectiveRange = (row: { effective_from: string; effective_to: string | null }) =>
+    `${format(new Date(row.effective_from), 'MMM d, yyyy HH:mm')} – ${
+      row.effective_to ? format(new Date(row.effective_to), 'MMM d, yyyy HH:mm') : 'open'
+    }`;
+
+  const discountTarget = (discount: FeeDiscountRow) => {
+    if (discount.scope === 'plan') {
+      const plan = plans?.find((p) => p.id === discount.plan_id);
+      return plan ? `${plan.name} plan` : 'Unknown plan';
+    }
+    const provider = discount.provider_id ? providers?.get(discount.provider_id) : null;
+    return provider?.display_name || provider?.full_name || provider?.email || 'Unknown provider';
+  };
+
+  const editingDiscountRow = discounts?.find((d) => d.id === editingDiscount?.id);
+
+  const updateTier = (patch: Partial<TierDraft>) =>
+    setEditingTier((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+
+  const updateDiscount = (patch: Partial<DiscountDraft>) =>
+    setEditingDiscount((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+
+  const handleSaveTier = () => {
+    if (!editingTier) return;
+    const { draft } = editingTier;
+    const percent = Number(draft.fee_percentage);
+    const min = Number(draft.min_amount || 0);
+    if (draft.fee_percentage === '' || !Number.isFinite(percent) || percent < 0 || percent > 50) {
+      toast.error('Fee must be between 0 and 50%');
+      return;
+    }
+    if (!Number.isFinite(min) || min < 0 || (draft.max_amount !== '' && Number(draft.max_amount) < min)) {
+      toast.error('Enter an amount range with the maximum above the minimum');
+      return;
+    }
+    if (!draft.effective_from) {
+      toast.error('Choose when the tier takes effect');
+      return;
+    }
+    if (draft.effective_to && draft.effective_to <= draft.effective_from) {
+      toast.error('The end must be after the start');
+      return;
+    }
+    saveTierMutation.mutate(editingTier);
+  };
+
+  const handleSaveDiscount = () => {
+    if (!editingDiscount) return;
+    const { id, draft } = editingDiscount;
+    const percent = Number(draft.discount_percent);
+    if (!id && draft.scope === 'provider' && !draft.provider_email.trim()) {
+      toast.error('Enter the provider\'s email');
+      return;
+    }
+    if (!id && draft.scope === 'plan' && !draft.plan_id) {
+      toast.error('Choose a plan');
+      return;
+    }
+    if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      toast.error('Discount must be between 0 and 100%');
+      return;
+    }
+    if (draft.effective_to && draft.effective_to <= draft.effective_from) {
+      toast.error('The end must be after the start');
+      return;
+    }
+    saveDiscountMutation.mutate(editingDiscount);
+  };
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Fee Schedule</h1>
+            <p className="text-muted-foreground">
+              Platform fees by currency and payment type. Schedule a new tier to change a rate from a given time.
+            </p>
+          </div>
+          <Button onClick={() => setEditingTier({ id: null, draft: emptyTier() })}>
+            <Plus className="w-4 h-4 mr-2" /> New tier
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="w-5 h-5" />
+              Tiers
+            </CardTitle>
+            <CardDescription>
+              A tier for the exact payment type beats an "All payments" tier; without a tier the fee overrides in
+              Settings apply. Order fees are fixed when the order is created.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {tiersLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !tiers?.length ? (
+              <p className="text-center text-muted-foreground py-8">No fee tiers yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Effective</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tiers.map((tier) => (
+                    <TableRow key={tier.id}>
+                      <TableCell>
+                        <p className="font-medium">{FEE_TRANSACTION_TYPE_LABELS[tier.transaction_type]}</p>
+                        <p className="text-xs text-muted-foreground">{tier.currency}</p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {Number(tier.min_amount).toLocaleString()}
+                        {' – '}
+                        {tier.max_amount === null ? 'and above' : Number(tier.max_amount).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{Number(tier.fee_percentage).toFixed(2)}%</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{effectiveRange(tier)}</TableCell>
+                      <TableCell>{scheduleState(tier)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditingTier({ id: tier.id, draft: draftFromTier(tier) })}>
+                          Edit
+                        </Button>
+                        {isRunning(tier) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={endTierMutation.isPending}
+                            onClick={() => endTierMutation.mutate(tier)}
+                          >
+                            End now
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Tag className="w-5 h-5" />
+                Discounts
+              </CardTitle>
+              <CardDescription>
+                Taken off the fee for one provider or every provider on a plan. When several apply, the largest wins.
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setEditingDiscount({ id: null, draft: emptyDiscount() })}>
+              <Plus className="w-4 h-4 mr-2" /> New discount
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {discountsLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !discounts?.length ? (
+              <p className="text-center text-muted-foreground py-8">No discounts yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>For</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Effective</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discounts.map((discount) => (
+                    <TableRow key={discount.id}>
+                      <TableCell>
+                        <p className="font-medium">{discountTarget(discount)}</p>
+                        {discount.note && <p className="text-xs text-muted-foreground">{discount.note}</p>}
+                      </TableCell>
+                      <TableCell>{Number(discount.discount_percent)}% off the fee</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{effectiveRange(discount)}</TableCell>
+                      <TableCell>{scheduleState(discount)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditingDiscount({ id: discount.id, draft: draftFromDiscount(discount) })}
+                        >
+                          Edit
+                        </Button>
+                        {isRunning(discount) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={endDiscountMutation.isPending}
+                            onClick={() => endDiscountMutation.mutate(discount)}
+                          >
+                            End now
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="w-5 h-5" />
+              Simulator
+            </CardTitle>
+            <CardDescription>
+              What past payments would have been charged under the schedule as it stands at a given time. Add a
+              tier or discount disabled to try it out before it goes live.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-3 items-end">
+              <div className="space-y-2">
+                <Label>Payments from</Label>
+                <Select value={simulation.period} onValueChange={(v) => setSimulation({ ...simulation, period: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SIMULATION_PERIODS.map((p) => (
+                      <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Schedule as of</Label>
+                <Input
+                  type="datetime-local"
+                  value={simulation.asOf}
+                  onChange={(e) => setSimulation({ ...simulation, asOf: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="simulate-drafts"
+                  checked={simulation.includeDrafts}
+                  onCheckedChange={(checked) => setSimulation({ ...simulation, includeDrafts: checked })}
+                />
+                <Label htmlFor="simulate-drafts" className="font-normal">Include disabled tiers and discounts</Label>
+              </div>
+            </div>
+
+            <Button onClick={() => sampleMutation.mutate(Number(simulation.period))} disabled={sampleMutation.isPending}>
+              {sampleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {payments ? 'Reload payments' : 'Load payments'}
+            </Button>
+
+            {simulated && (
+              simulated.rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No fee-bearing payments in this period</p>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {simulated.totals.map((total) => (
+                      <div key={total.currency} className="rounded-lg bg-secondary p-4 space-y-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">{total.count} payments in {total.currency}, charged</span>
+                          <span className="font-medium">{money(total.currency, total.actual)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Under this schedule</span>
+                          <span className="font-medium">{money(total.currency, total.simulated)}</span>
+                        </div>
+                        <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                          <span>Difference</span>
+                          <span className={total.difference < 0 ? 'text-destructive' : undefined}>
+                            {signed(total.currency, total.difference)}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <p className="text-sm text-muted-foreground">
+                    {simulated.changed} of {simulated.rows.length} payments would have been charged differently
+                    {simulated.largest.length > 0 && '; the largest changes are below'}
+                  </p>
+
+                  {simulated.largest.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Charged</TableHead>
+                          <TableHead>Simulated</TableHead>
+                          <TableHead>Difference</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {simulated.largest.map(({ payment, quote, difference }) => (
+                          <TableRow key={payment.id}>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(payment.created_at), 'MMM d, yyyy')}
+                            </TableCell>
+                            <TableCell>{FEE_TRANSACTION_TYPE_LABELS[payment.transaction_type]}</TableCell>
+                            <TableCell>{money(payment.currency, Number(payment.amount))}</TableCell>
+                            <TableCell>{money(payment.currency, Number(payment.platform_fee))}</TableCell>
+                            <TableCell>
+                              {money(payment.currency, quote.fee)}
+                              <span className="text-xs text-muted-foreground"> ({quote.percent}%)</span>
+                            </TableCell>
+                            <TableCell className={difference < 0 ? 'text-destructive' : undefined}>
+                              {signed(payment.currency, difference)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!editingTier} onOpenChange={(open) => !open && setEditingTier(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingTier?.id ? 'Edit fee tier' : 'New fee tier'}</DialogTitle>
+              <DialogDescription>
+                Payments started after the change use it. Orders already created keep their fee.
+              </DialogDescription>
+            </DialogHeader>
+
+            {editingTier && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Payment type</Label>
+                  <Select
+                    value={editingTier.draft.transaction_type}
+                    onValueChange={(v) => updateTier({ transaction_type: v as FeeTier['transaction_type'] })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{FEE_TRANSACTION_TYPE_LABELS.all}</SelectItem>
+                      {FEE_TRANSACTION_TYPES.map((t) => (
+                        <SelectItem key={t} value={t}>{FEE_TRANSACTION_TYPE_LABELS[t]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Currency</Label>
+                  <Select value={editingTier.draft.currency} onValueChange={(v) => updateTier({ currency: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ZMW">ZMW</SelectItem>
+                      <SelectItem value="USD">USD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>From amount</Label>
+                  <Input type="number" value={editingTier.draft.min_amount} onChange={(e) => updateTier({ min_amount: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Up to amount</Label>
+                  <Input
+                    type="number"
+                    placeholder="No limit"
+                    value={editingTier.draft.max_amount}
+                    onChange={(e) => updateTier({ max_amount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Fee (%)</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={editingTier.draft.fee_percentage}
+                    onChange={(e) => updateTier({ fee_percentage: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch
+                    id="tier-active"
+                    checked={editingTier.draft.is_active}
+                    onCheckedChange={(checked) => updateTier({ is_active: checked })}
+                  />
+                  <Label htmlFor="tier-active" className="font-normal">Active</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective from</Label>
+                  <Input
+                    type="datetime-local"
+                    value={editingTier.draft.effective_from}
+                    onChange={(e) => updateTier({ effective_from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective to (exclusive)</Label>
+                  <Input
+                    type="datetime-local"
+                    value={editingTier.draft.effective_to}
+                    onChange={(e) => updateTier({ effective_to: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingTier(null)}>Cancel</Button>
+              <Button onClick={handleSaveTier} disabled={saveTierMutation.isPending}>
+                {saveTierMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save tier
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!editingDiscount} onOpenChange={(open) => !open && setEditingDiscount(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingDiscount?.id ? 'Edit discount' : 'New discount'}</DialogTitle>
+              <DialogDescription>
+                A percentage off the platform fee, not off the price.
+              </DialogDescription>
+            </DialogHeader>
+
+            {editingDiscount && (
+              <div className="grid grid-cols-2 gap-3">
+                {editingDiscount.id ? (
+                  <div className="space-y-2 col-span-2">
+                    <Label>For</Label>
+                    <p className="text-sm">
+                      {editingDiscountRow && discountTarget(editingDiscountRow)}
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label>For</Label>
+                      <Select
+                        value={editingDiscount.draft.scope}
+                        onValueChange={(v) => updateDiscount({ scope: v as FeeDiscountScope })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="provider">One provider</SelectItem>
+                          <SelectItem value="plan">A subscription plan</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {editingDiscount.draft.scope === 'provider' ? (
+                      <div className="space-y-2">
+                        <Label>Provider email</Label>
+                        <Input
+                          type="email"
+                          value={editingDiscount.draft.provider_email}
+                          onChange={(e) => updateDiscount({ provider_email: e.target.value })}
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label>Plan</Label>
+                        <Select value={editingDiscount.draft.plan_id} onValueChange={(v) => updateDiscount({ plan_id: v })}>
+                          <SelectTrigger><SelectValue placeholder="Choose a plan" /></SelectTrigger>
+                          <SelectContent>
+                            {plans?.map((plan) => (
+                              <SelectItem key={plan.id} value={plan.id}>
+                                {plan.name} ({plan.account_type}, {plan.billing_interval})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label>Discount (%)</Label>
+                  <Input
+                    type="number"
+                    value={editingDiscount.draft.discount_percent}
+                    onChange={(e) => updateDiscount({ discount_percent: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch
+                    id="discount-active"
+                    checked={editingDiscount.draft.is_active}
+                    onCheckedChange={(checked) => updateDiscount({ is_active: checked })}
+                  />
+                  <Label htmlFor="discount-active" className="font-normal">Active</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective from</Label>
+                  <Input
+                    type="datetime-local"
+                    value={editingDiscount.draft.effective_from}
+                    onChange={(e) => updateDiscount({ effective_from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective to (exclusive)</Label>
+                  <Input
+                    type="datetime-local"
+                    value={editingDiscount.draft.effective_to}
+                    onChange={(e) => updateDiscount({ effective_to: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label>Note</Label>
+                  <Input
+                    placeholder="Launch partner, first three months"
+                    value={editingDiscount.draft.note}
+                    onChange={(e) => updateDiscount({ note: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingDiscount(null)}>Cancel</Button>
+              <Button onClick={handleSaveDiscount} disabled={saveDiscountMutation.isPending}>
+                {saveDiscountMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save discount
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
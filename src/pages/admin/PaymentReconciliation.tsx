@@ -40,11 +40,13 @@ import {
   Wrench,
   Search,
   DollarSign,
-  ArrowUpDown
+  ArrowUpDown,
+  RotateCcw
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import AppLayout from '@/components/AppLayout';
+import { TransactionDocumentsMenu } from '@/components/payments';
 
 interface Transaction {
   id: string;
@@ -61,6 +63,16 @@ interface Transaction {
   profiles?: { full_name: string; email: string } | null;
 }
 
+interface WebhookEvent {
+  id: string;
+  event_id: string;
+  event_type: string | null;
+  error: string | null;
+  received_at: string;
+  replay_count: number;
+  last_replayed_at: string | null;
+}
+
 interface PaymentAccount {
   user_id: string;
   balance_zmw: number;
@@ -163,6 +175,53 @@ export default function PaymentReconciliation() {
     enabled: !!transactions && !!accounts
   });
 
+  // Webhook events whose processing failed and can be replayed
+  const { data: failedWebhooks } = useQuery({
+    queryKey: ['admin-failed-webhooks'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_events')
+        .select('id, event_id, event_type, error, received_at, replay_count, last_replayed_at')
+        .eq('provider', 'lenco')
+        .not('error', 'is', null)
+        .order('received_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data as WebhookEvent[];
+    }
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (webhookEventId: string) => {
+      const { data, error } = await supabase.functions.invoke('lenco-webhook-replay', {
+        body: { webhookEventId }
+      });
+
+      if (error) {
+        let detail = error.message;
+        try {
+          const body = await (error as any).context?.json();
+          detail = body?.error || detail;
+        } catch {
+          // response body wasn't JSON — fall back to error.message
+        }
+        throw new Error(detail);
+      }
+      if (!data.success) throw new Error(data.error || 'Replay failed');
+      return data;
+    },
+    onSuccess: () => {
+      toast.success('Webhook event replayed successfully');
+      queryClient.invalidateQueries({ queryKey: ['admin-failed-webhooks'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-payment-accounts'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+      queryClient.invalidateQueries({ queryKey: ['admin-failed-webhooks'] });
+    }
+  });
+
   // Admin repair mutation
   const repairMutation = useMutation({
     mutationFn: async ({ userId, amount, currency, reason }: {
@@ -424,13 +483,16 @@ export default function PaymentReconciliation() {
                         {tx.lenco_reference?.slice(0, 12) || '-'}
                       </TableCell>
                       <TableCell>
-                        <Button 
-                          size="sm" 
-                          variant="ghost"
-                          onClick={() => openRepairForUser(tx.user_id)}
-                        >
-                          <Wrench className="w-3 h-3" />
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          <Button 
+                            size="sm" 
+                            variant="ghost"
+                            onClick={() => openRepairForUser(tx.user_id)}
+                          >
+                            <Wrench className="w-3 h-3" />
+                          </Button>
+                          <TransactionDocumentsMenu transaction={tx} />
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -440,6 +502,63 @@ export default function PaymentReconciliation() {
           </CardContent>
         </Card>
 
+        {/* Failed Webhook Events */}
+        {failedWebhooks && failedWebhooks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Failed Webhook Events ({failedWebhooks.length})</CardTitle>
+              <CardDescription>
+                Lenco events that errored during processing. Replaying is safe: steps that already succeeded are skipped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead>Replays</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {failedWebhooks.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm">
+                        {format(new Date(event.received_at), 'MMM d, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{event.event_type || 'unknown'}</Badge>
+                        <p className="text-xs font-mono text-muted-foreground mt-1">{event.event_id.slice(0, 16)}</p>
+                      </TableCell>
+                      <TableCell className="text-sm text-destructive max-w-xs">{event.error}</TableCell>
+                      <TableCell className="text-sm">
+                        {event.replay_count}
+                        {event.last_replayed_at && (
+                          <p className="text-xs text-muted-foreground">
+                            Last {format(new Date(event.last_replayed_at), 'MMM d, HH:mm')}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={replayMutation.isPending}
+                          onClick={() => replayMutation.mutate(event.id)}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" /> Replay
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Repair Dialog */}
         <Dialog open={repairDialogOpen} onOpenChange={setRepairDialogOpen}>
           <DialogContent>
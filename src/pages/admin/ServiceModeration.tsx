@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Store, RefreshCw, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+import {
+  formatDeliveryDays,
+  formatRevisions,
+  PACKAGE_TIER_LABELS,
+  SERVICE_STATUS_LABELS,
+  sortPackages,
+  type ServiceAddon,
+  type ServicePackage,
+  type ServiceStatus,
+} from '@/lib/service-catalogue';
+
+type Decision = 'publish' | 'reject';
+
+interface ServiceRow {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string;
+  currency: string;
+  provider_id: string;
+  status: ServiceStatus;
+  moderation_note: string | null;
+  submitted_at: string | null;
+  created_at: string;
+  packages: ServicePackage[];
+  addons: ServiceAddon[];
+  provider?: { full_name: string | null; display_name: string | null; email: string | null } | null;
+}
+
+export default function ServiceModeration() {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>('pending_review');
+  const [selected, setSelected] = useState<ServiceRow | null>(null);
+  const [note, setNote] = useState('');
+
+  const { data: services, isLoading, refetch } = useQuery({
+    queryKey: ['admin-services', statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('services')
+        .select('id, title, description, category, currency, provider_id, status, moderation_note, submitted_at, created_at, packages:service_packages(*), addons:service_addons(*)')
+        .order('submitted_at', { ascending: true, nullsFirst: false })
+        .limit(100);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const providerIds = [...new Set(data?.map(s => s.provider_id))];
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('id, full_name, display_name, email')
+        .in('id', providerIds);
+
+      const profilesMap = new Map(profiles?.map(p => [p.id, p]));
+
+      return (data as unknown as ServiceRow[]).map(service => ({
+        ...service,
+        packages: sortPackages(service.packages || []),
+        addons: (service.addons || []).filter(a => a.is_active),
+        provider: profilesMap.get(service.provider_id) || null
+      }));
+    }
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ serviceId, decision, note }: { serviceId: string; decision: Decision; note: string }) => {
+      const { data, error } = await supabase.rpc('admin_moderate_service', {
+        p_service_id: serviceId,
+        p_decision: decision,
+        p_note: note || undefined
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Moderation failed');
+      }
+
+      return result;
+    },
+    onSuccess: (_, { decision }) => {
+      toast.success(decision === 'publish' ? 'Service published' : 'Service sent back to the provider');
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-services'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-pending-services'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Moderation failed: ${error.message}`);
+    }
+  });
+
+  const openService = (service: ServiceRow) => {
+    setSelected(service);
+    setNote('');
+  };
+
+  const handleDecision = (decision: Decision) => {
+    if (!selected) return;
+    if (decision === 'reject' && !note.trim()) {
+      toast.error('Tell the provider what needs to change');
+      return;
+    }
+    moderateMutation.mutate({ serviceId: selected.id, decision, note: note.trim() });
+  };
+
+  const getStatusBadge = (status: ServiceStatus) => {
+    switch (status) {
+      case 'pending_review':
+        return <Badge className="bg-blue-100 text-blue-800">{SERVICE_STATUS_LABELS[status]}</Badge>;
+      case 'published':
+        return <Badge className="bg-green-100 text-green-800">{SERVICE_STATUS_LABELS[status]}</Badge>;
+      case 'rejected':
+        return <Badge variant="destructive">{SERVICE_STATUS_LABELS[status]}</Badge>;
+      default:
+        return <Badge variant="outline">{SERVICE_STATUS_LABELS[status] || status}</Badge>;
+    }
+  };
+
+  const providerName = (service: ServiceRow) =>
+    service.provider?.display_name || service.provider?.full_name || service.provider?.email || 'Unknown';
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Service Moderation</h1>
+          <p className="text-muted-foreground">
+            Review marketplace listings before they go live
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-center">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending_review">In review</SelectItem>
+              <SelectItem value="rejected">Needs changes</SelectItem>
+              <SelectItem value="published">Published</SelectItem>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" onClick={() => refetch()}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Store className="w-5 h-5" />
+              Review Queue
+            </CardTitle>
+            <CardDescription>Oldest submissions first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !services?.length ? (
+              <p className="text-center text-muted-foreground py-8">No services found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Service</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Packages</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {services.map((service) => (
+                    <TableRow key={service.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {service.submitted_at ? format(new Date(service.submitted_at), 'MMM d, yyyy HH:mm') : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{service.title}</p>
+                        <p className="text-xs text-muted-foreground capitalize">{service.category}</p>
+                      </TableCell>
+                      <TableCell>{providerName(service)}</TableCell>
+                      <TableCell>{service.packages.length}</TableCell>
+                      <TableCell>{getStatusBadge(service.status)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => openService(service)}>
+                          {service.status === 'pending_review' ? 'Review' : 'View'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{selected?.title}</DialogTitle>
+              <DialogDescription>
+                {selected && `By ${providerName(selected)}, in ${selected.category}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            {selected && (
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label>Description</Label>
+                  <p className="text-sm whitespace-pre-wrap">{selected.description || '—'}</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Packages</Label>
+                  {selected.packages.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No packages; listed at a single price</p>
+                  ) : (
+                    selected.packages.map((pkg) => (
+                      <div key={pkg.id} className="rounded-lg bg-secondary p-3 text-sm space-y-1">
+                        <div className="flex justify-between">
+                          <span className="font-medium">{PACKAGE_TIER_LABELS[pkg.tier]}: {pkg.name}</span>
+                          <span className="font-medium">{selected.currency} {Number(pkg.price).toLocaleString()}</span>
+                        </div>
+                        <p className="text-muted-foreground">
+                          {formatDeliveryDays(pkg.delivery_days)} · {formatRevisions(pkg.revisions)}
+                        </p>
+                        {pkg.features.length > 0 && <p>{pkg.features.join(' · ')}</p>}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {selected.addons.length > 0 && (
+                  <div className="space-y-1">
+                    <Label>Add-ons</Label>
+                    {selected.addons.map((addon) => (
+                      <p key={addon.id} className="text-sm">
+                        {addon.title}: +{selected.currency} {Number(addon.price).toLocaleString()}
+                        {addon.extra_delivery_days > 0 && `, +${addon.extra_delivery_days} days`}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {selected.status === 'pending_review' ? (
+                  <div className="space-y-2 border-t pt-4">
+                    <Label>Note to the provider</Label>
+                    <Textarea
+                      placeholder="Required when sending back; recorded in the audit log"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  </div>
+                ) : selected.moderation_note && (
+                  <div className="space-y-1 text-sm">
+                    <Label>Moderation note</Label>
+                    <p className="text-muted-foreground">{selected.moderation_note}</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {selected?.status === 'pending_review' && (
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDecision('reject')}
+                  disabled={moderateMutation.isPending}
+                >
+                  Send back
+                </Button>
+                <Button onClick={() => handleDecision('publish')} disabled={moderateMutation.isPending}>
+                  {moderateMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Publish
+                </Button>
+              </DialogFooter>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
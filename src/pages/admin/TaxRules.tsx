@@ -0,0 +1,645 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Calculator, Percent, Plus, Building2, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import AppLayout from '@/components/AppLayout';
+import {
+  calculateTax,
+  TAX_CATEGORIES,
+  type TaxCategory,
+  type TaxRule,
+  type VatStatus,
+} from '@/lib/tax';
+
+interface TaxRuleRow extends TaxRule {
+  description: string | null;
+  created_at: string;
+}
+
+interface RuleDraft {
+  code: string;
+  name: string;
+  tax_type: TaxRule['tax_type'];
+  treatment: TaxRule['treatment'];
+  category: TaxRule['category'];
+  rate: string;
+  threshold_amount: string;
+  currency: string;
+  requires_vat_registered: boolean;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+  priority: string;
+  description: string;
+}
+
+interface SmeTaxRow {
+  profile_id: string;
+  business_name: string;
+  vat_status: VatStatus;
+  tpin: string | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyDraft = (): RuleDraft => ({
+  code: '',
+  name: '',
+  tax_type: 'vat',
+  treatment: 'added',
+  category: 'all',
+  rate: '',
+  threshold_amount: '0',
+  currency: '',
+  requires_vat_registered: false,
+  effective_from: today(),
+  effective_to: '',
+  is_active: true,
+  priority: '0',
+  description: '',
+});
+
+const draftFromRule = (rule: TaxRuleRow): RuleDraft => ({
+  code: rule.code,
+  name: rule.name,
+  tax_type: rule.tax_type,
+  treatment: rule.treatment,
+  category: rule.category,
+  rate: String(Number(rule.rate) * 100),
+  threshold_amount: String(rule.threshold_amount),
+  currency: rule.currency || '',
+  requires_vat_registered: rule.requires_vat_registered,
+  effective_from: rule.effective_from,
+  effective_to: rule.effective_to || '',
+  is_active: rule.is_active,
+  priority: String(rule.priority),
+  description: rule.description || '',
+});
+
+const VAT_STATUS_LABELS: Record<VatStatus, string> = {
+  not_registered: 'Not registered',
+  registered: 'VAT registered',
+  exempt: 'Exempt',
+};
+
+// Admin RPCs report failures as { success: false, error }
+const unwrapRpc = ({ data, error }: { data: unknown; error: Error | null }) => {
+  if (error) throw error;
+
+  const result = data as { success: boolean; error?: string };
+  if (!result.success) {
+    throw new Error(result.error || 'Update failed');
+  }
+  return result;
+};
+
+export default function TaxRules() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<{ id: string | null; draft: RuleDraft } | null>(null);
+  const [simulation, setSimulation] = useState({
+    amount: '15000',
+    currency: 'ZMW',
+    category: 'service' as TaxCategory,
+    vatStatus: 'registered' as VatStatus,
+    date: today(),
+  });
+  const [smeSearch, setSmeSearch] = useState('');
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ['admin-tax-rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tax_rules')
+        .select('*')
+        .order('code')
+        .order('effective_from', { ascending: false });
+      if (error) throw error;
+      return data as unknown as TaxRuleRow[];
+    }
+  });
+
+  const { data: smes, isFetching: smesLoading } = useQuery({
+    queryKey: ['admin-sme-vat-status', smeSearch],
+    queryFn: async () => {
+      let query = supabase
+        .from('sme_profiles')
+        .select('profile_id, business_name, vat_status, tpin')
+        .order('business_name')
+        .limit(25);
+
+      query = smeSearch.trim()
+        ? query.ilike('business_name', `%${smeSearch.trim()}%`)
+        : query.neq('vat_status', 'not_registered');
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as unknown as SmeTaxRow[];
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string | null; draft: RuleDraft }) =>
+      unwrapRpc(await supabase.rpc('admin_save_tax_rule', {
+        p_rule_id: id ?? undefined,
+        p_rule: {
+          code: draft.code.trim(),
+          name: draft.name.trim(),
+          tax_type: draft.tax_type,
+          treatment: draft.treatment,
+          category: draft.category,
+          rate: Number(draft.rate) / 100,
+          threshold_amount: Number(draft.threshold_amount || 0),
+          currency: draft.currency || null,
+          requires_vat_registered: draft.requires_vat_registered,
+          effective_from: draft.effective_from,
+          effective_to: draft.effective_to || null,
+          is_active: draft.is_active,
+          priority: Number(draft.priority || 0),
+          description: draft.description.trim() || null,
+        },
+      })),
+    onSuccess: () => {
+      toast.success('Tax rule saved');
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['admin-tax-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-rules'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Save failed: ${error.message}`);
+    }
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async (rule: TaxRuleRow) =>
+      unwrapRpc(await supabase.rpc('admin_save_tax_rule', { p_rule_id: rule.id, p_rule: { effective_to: today() } })),
+    onSuccess: () => {
+      toast.success('Tax rule ended');
+      queryClient.invalidateQueries({ queryKey: ['admin-tax-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['tax-rules'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Update failed: ${error.message}`);
+    }
+  });
+
+  const vatMutation = useMutation({
+    mutationFn: async ({ profileId, status }: { profileId: string; status: VatStatus }) =>
+      unwrapRpc(await supabase.rpc('admin_set_vat_status', { p_profile_id: profileId, p_vat_status: status })),
+    onSuccess: () => {
+      toast.success('VAT status updated');
+      queryClient.invalidateQueries({ queryKey: ['admin-sme-vat-status'] });
+      queryClient.invalidateQueries({ queryKey: ['vat-status'] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Update failed: ${error.message}`);
+    }
+  });
+
+  const simulated = useMemo(() => {
+    const amount = parseFloat(simulation.amount);
+    if (!rules || !(amount > 0)) return null;
+    return calculateTax(rules, {
+      amount,
+      currency: simulation.currency,
+      category: simulation.category,
+      sellerVatStatus: simulation.vatStatus,
+      date: simulation.date,
+    });
+  }, [rules, simulation]);
+
+  const ruleState = (rule: TaxRuleRow) => {
+    const day = today();
+    if (!rule.is_active) return <Badge variant="outline">Disabled</Badge>;
+    if (rule.effective_from > day) return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
+    if (rule.effective_to && rule.effective_to <= day) return <Badge variant="secondary">Ended</Badge>;
+    return <Badge className="bg-green-100 text-green-800">In effect</Badge>;
+  };
+
+  const updateDraft = (patch: Partial<RuleDraft>) =>
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+
+  const handleSave = () => {
+    if (!editing) return;
+    const { draft } = editing;
+    const rate = Number(draft.rate);
+    if (!draft.code.trim() || !draft.name.trim()) {
+      toast.error('Enter a code and a name');
+      return;
+    }
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+      toast.error('Rate must be between 0 and 100%');
+      return;
+    }
+    if (draft.effective_to && draft.effective_to <= draft.effective_from) {
+      toast.error('The end date must be after the start date');
+      return;
+    }
+    saveMutation.mutate(editing);
+  };
+
+  return (
+    <AppLayout>
+      <div className="container py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Tax Rules</h1>
+            <p className="text-muted-foreground">
+              Rates applied to orders and payments. End a rule and add a new one to change a rate from a given date.
+            </p>
+          </div>
+          <Button onClick={() => setEditing({ id: null, draft: emptyDraft() })}>
+            <Plus className="w-4 h-4 mr-2" /> New rule
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="w-5 h-5" />
+              Rules
+            </CardTitle>
+            <CardDescription>Added taxes are charged to the buyer; withheld taxes are deducted from the seller</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : !rules?.length ? (
+              <p className="text-center text-muted-foreground py-8">No tax rules yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead>Threshold</TableHead>
+                    <TableHead>Effective</TableHead>
+                    <TableHead>State</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>
+                        <p className="font-medium">{rule.code} — {rule.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {rule.treatment === 'added' ? 'Added to price' : 'Withheld from seller'}
+                          {rule.requires_vat_registered ? ' · VAT-registered sellers only' : ''}
+                        </p>
+                      </TableCell>
+                      <TableCell className="capitalize">{rule.category}</TableCell>
+                      <TableCell>{(Number(rule.rate) * 100).toFixed(2)}%</TableCell>
+                      <TableCell>
+                        {Number(rule.threshold_amount) > 0
+                          ? `> ${rule.currency || ''} ${Number(rule.threshold_amount).toLocaleString()}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(rule.effective_from), 'MMM d, yyyy')}
+                        {' – '}
+                        {rule.effective_to ? format(new Date(rule.effective_to), 'MMM d, yyyy') : 'open'}
+                      </TableCell>
+                      <TableCell>{ruleState(rule)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditing({ id: rule.id, draft: draftFromRule(rule) })}>
+                          Edit
+                        </Button>
+                        {rule.is_active && (!rule.effective_to || rule.effective_to > today()) && rule.effective_from < today() && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={endMutation.isPending}
+                            onClick={() => endMutation.mutate(rule)}
+                          >
+                            End today
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calculator className="w-5 h-5" />
+                Simulator
+              </CardTitle>
+              <CardDescription>Preview the tax lines a payment would get</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Amount</Label>
+                  <Input
+                    type="number"
+                    value={simulation.amount}
+                    onChange={(e) => setSimulation({ ...simulation, amount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Currency</Label>
+                  <Select value={simulation.currency} onValueChange={(v) => setSimulation({ ...simulation, currency: v })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ZMW">ZMW</SelectItem>
+                      <SelectItem value="USD">USD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={simulation.category}
+                    onValueChange={(v) => setSimulation({ ...simulation, category: v as TaxCategory })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {TAX_CATEGORIES.map((c) => (
+                        <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Seller</Label>
+                  <Select
+                    value={simulation.vatStatus}
+                    onValueChange={(v) => setSimulation({ ...simulation, vatStatus: v as VatStatus })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(VAT_STATUS_LABELS) as VatStatus[]).map((s) => (
+                        <SelectItem key={s} value={s}>{VAT_STATUS_LABELS[s]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label>Date</Label>
+                  <Input
+                    type="date"
+                    value={simulation.date}
+                    onChange={(e) => setSimulation({ ...simulation, date: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {simulated && (
+                <div className="rounded-lg bg-secondary p-4 space-y-2 text-sm">
+                  {simulated.lines.length === 0 && (
+                    <p className="text-muted-foreground">No rules apply</p>
+                  )}
+                  {simulated.lines.map((line) => (
+                    <div key={line.rule_id} className="flex justify-between">
+                      <span className="text-muted-foreground">
+                        {line.name} ({(line.rate * 100).toFixed(2)}%, {line.treatment})
+                      </span>
+                      <span className="font-medium">{simulated.currency} {line.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between border-t border-border pt-2 font-semibold">
+                    <span>Buyer pays</span>
+                    <span>{simulated.currency} {simulated.totalPayable.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Seller receives (before platform fee)</span>
+                    <span className="font-medium">
+                      {simulated.currency} {(simulated.netToSeller + simulated.addedTax).toFixed(2)}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="w-5 h-5" />
+                Seller VAT status
+              </CardTitle>
+              <CardDescription>Only VAT-registered sellers charge VAT; exempt sellers never do</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                placeholder="Search businesses by name"
+                value={smeSearch}
+                onChange={(e) => setSmeSearch(e.target.value)}
+              />
+              {smesLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : !smes?.length ? (
+                <p className="text-center text-sm text-muted-foreground py-4">
+                  {smeSearch ? 'No matching businesses' : 'No registered or exempt sellers yet'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {smes.map((sme) => (
+                    <div key={sme.profile_id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                      <div>
+                        <p className="text-sm font-medium">{sme.business_name}</p>
+                        {sme.tpin && <p className="text-xs text-muted-foreground">TPIN {sme.tpin}</p>}
+                      </div>
+                      <Select
+                        value={sme.vat_status}
+                        disabled={vatMutation.isPending}
+                        onValueChange={(v) => vatMutation.mutate({ profileId: sme.profile_id, status: v as VatStatus })}
+                      >
+                        <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(VAT_STATUS_LABELS) as VatStatus[]).map((s) => (
+                            <SelectItem key={s} value={s}>{VAT_STATUS_LABELS[s]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing?.id ? 'Edit tax rule' : 'New tax rule'}</DialogTitle>
+              <DialogDescription>
+                Changes apply to orders priced from now on. Orders already created keep their tax.
+              </DialogDescription>
+            </DialogHeader>
+
+            {editing && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Code</Label>
+                  <Input value={editing.draft.code} onChange={(e) => updateDraft({ code: e.target.value })} placeholder="VAT" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input value={editing.draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select value={editing.draft.tax_type} onValueChange={(v) => updateDraft({ tax_type: v as TaxRule['tax_type'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="vat">VAT</SelectItem>
+                      <SelectItem value="withholding">Withholding</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Treatment</Label>
+                  <Select value={editing.draft.treatment} onValueChange={(v) => updateDraft({ treatment: v as TaxRule['treatment'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="added">Added to price</SelectItem>
+                      <SelectItem value="withheld">Withheld from seller</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={editing.draft.category} onValueChange={(v) => updateDraft({ category: v as TaxRule['category'] })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      {TAX_CATEGORIES.map((c) => (
+                        <SelectItem key={c} value={c} className="capitalize">{c}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Rate (%)</Label>
+                  <Input type="number" value={editing.draft.rate} onChange={(e) => updateDraft({ rate: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Applies above</Label>
+                  <Input
+                    type="number"
+                    value={editing.draft.threshold_amount}
+                    onChange={(e) => updateDraft({ threshold_amount: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Currency</Label>
+                  <Select
+                    value={editing.draft.currency || 'any'}
+                    onValueChange={(v) => updateDraft({ currency: v === 'any' ? '' : v })}
+                  >
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any</SelectItem>
+                      <SelectItem value="ZMW">ZMW</SelectItem>
+                      <SelectItem value="USD">USD</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective from</Label>
+                  <Input
+                    type="date"
+                    value={editing.draft.effective_from}
+                    onChange={(e) => updateDraft({ effective_from: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Effective to (exclusive)</Label>
+                  <Input
+                    type="date"
+                    value={editing.draft.effective_to}
+                    onChange={(e) => updateDraft({ effective_to: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Input type="number" value={editing.draft.priority} onChange={(e) => updateDraft({ priority: e.target.value })} />
+                </div>
+                <div className="flex flex-col justify-end gap-3 pb-1">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="rule-vat-registered"
+                      checked={editing.draft.requires_vat_registered}
+                      onCheckedChange={(checked) => updateDraft({ requires_vat_registered: checked })}
+                    />
+                    <Label htmlFor="rule-vat-registered" className="font-normal">VAT-registered sellers only</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="rule-active"
+                      checked={editing.draft.is_active}
+                      onCheckedChange={(checked) => updateDraft({ is_active: checked })}
+                    />
+                    <Label htmlFor="rule-active" className="font-normal">Active</Label>
+                  </div>
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label>Description</Label>
+                  <Textarea
+                    rows={2}
+                    value={editing.draft.description}
+                    onChange={(e) => updateDraft({ description: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save rule
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,13 @@
+// Test fixtures: a row or input with sensible defaults that each test
+// overrides only where it matters, e.g.
+//
+//   const opportunity = factory<FundingOpportunityCandidate>({ id: 'fund-1', ... });
+//   opportunity({ deadline: '2026-01-01' });
+//
+// Defaults may be computed from the overrides, for ids derived from a code.
+export function factory<T extends object>(defaults: T | ((overrides: Partial<T>) => T)) {
+  return (overrides: Partial<T> = {}): T => ({
+    ...(typeof defaults === 'function' ? defaults(overrides) : defaults),
+    ...overrides,
+  });
+}
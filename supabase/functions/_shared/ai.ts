@@ -0,0 +1,492 @@
+// LLM access for every AI edge function.
+//
+// Providers are adapters behind one interface, chosen with AI_PROVIDER:
+//   lovable (default) -- the Lovable AI gateway (LOVABLE_API_KEY)
+//   openai            -- any OpenAI-compatible endpoint (OPENAI_API_KEY,
+//                        OPENAI_BASE_URL)
+//   mock              -- deterministic local output, no network. Structured
+//                        requests get a value generated from their schema, so
+//                        every AI function can be exercised offline.
+// AI_MODEL overrides the provider's default model.
+//
+// generateJson() validates the model's output against a schema and asks again
+// with the validation errors when it does not match; callers get `data: null`
+// rather than a guess when every attempt fails. Provider errors that are
+// worth retrying (rate limits, 5xx, timeouts) are retried with backoff.
+// Every attempt is recorded in ai_usage_events with its tokens and estimated
+// cost, per user and feature. While admins have AI features switched off in
+// platform_settings, calls fail with status 503 without reaching a provider.
+
+import { AI_DISABLED_MESSAGE, loadPlatformSettings } from './platform-settings.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface AiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export type JsonSchema = (
+  | { type: 'string'; enum?: string[]; maxLength?: number }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[] }
+) & { nullable?: boolean; description?: string };
+
+export interface AiCompletionRequest {
+  model: string;
+  messages: AiMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object; the schema is passed along for providers (and the
+  // mock) that can use it
+  schema?: JsonSchema;
+  timeoutMs?: number;
+}
+
+export interface AiUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiCompletion {
+  content: string;
+  model: string;
+  usage: AiUsage;
+}
+
+export class AiProviderError extends Error {
+  constructor(message: string, public status: number, public retryable: boolean) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+export interface AiProvider {
+  name: string;
+  defaultModel: string;
+  complete(request: AiCompletionRequest): Promise<AiCompletion>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Rough token count for providers that do not report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// --------------------------------------------------------------------------
+// Providers
+// --------------------------------------------------------------------------
+
+export function createOpenAiCompatibleProvider(config: {
+  name: string;
+  url: string;
+  apiKey: string | undefined;
+  defaultModel: string;
+}): AiProvider {
+  return {
+    name: config.name,
+    defaultModel: config.defaultModel,
+    async complete(request) {
+      if (!config.apiKey) {
+        throw new AiProviderError(`AI provider ${config.name} is not configured`, 503, false);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      let response: Response;
+      try {
+        response = await fetch(config.url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            ...(request.schema ? { response_format: { type: 'json_object' } } : {}),
+          }),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        const timedOut = error instanceof DOMException && error.name === 'AbortError';
+        throw new AiProviderError(timedOut ? 'AI request timed out' : `AI request failed: ${error}`, 504, true);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        console.error(`AI provider ${config.name} error [${response.status}]:`, detail.slice(0, 500));
+        const message = response.status === 429
+          ? 'AI rate limit exceeded'
+          : response.status === 402
+            ? 'AI credits exhausted'
+            : `AI provider error: ${response.status}`;
+        throw new AiProviderError(message, response.status, response.status === 429 || response.status >= 500);
+      }
+
+      const data = await response.json();
+      const content: string = data.choices?.[0]?.message?.content ?? '';
+      const promptText = request.messages.map((m) => m.content).join('\n');
+
+      return {
+        content,
+        model: data.model || request.model,
+        usage: {
+          promptTokens: Number(data.usage?.prompt_tokens ?? estimateTokens(promptText)),
+          completionTokens: Number(data.usage?.completion_tokens ?? estimateTokens(content)),
+        },
+      };
+    },
+  };
+}
+
+// FNV-1a, so the same prompt always gets the same mock output
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const UUID_RE = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+// `ids` are the UUIDs found in the prompt: id fields pick one of them, so
+// functions that only accept candidates they sent still get results
+function mockValue(schema: JsonSchema, seed: number, path: string, ids: string[]): unknown {
+  const n = hashString(`${seed}:${path}`);
+  const key = path.split('.').pop()!.replace(/\[\d+\]$/, '');
+  switch (schema.type) {
+    case 'string':
+      if (schema.enum?.length) return schema.enum[n % schema.enum.length];
+      if (/(^|_)id$/.test(key) && ids.length) return ids[n % ids.length];
+      return `mock ${key} ${n % 1000}`;
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 100;
+      const value = min + (n % 1000) / 1000 * (max - min);
+      return schema.type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+    case 'boolean':
+      return n % 2 === 0;
+    case 'array': {
+      const min = schema.minItems ?? 1;
+      const max = Math.max(min, Math.min(schema.maxItems ?? 3, 3));
+      return Array.from({ length: min + (n % (max - min + 1)) }, (_, i) => mockValue(schema.items, seed, `${path}[${i}]`, ids));
+    }
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, child]) => [key, mockValue(child, seed, `${path}.${key}`, ids)]),
+      );
+  }
+}
+
+export function createMockAiProvider(): AiProvider {
+  return {
+    name: 'mock',
+    defaultModel: 'mock',
+    complete(request) {
+      const prompt = request.messages.map((m) => `${m.role}:${m.content}`).join('\n');
+      const seed = hashString(prompt);
+      const lastUser = [...request.messages].reverse().find((m) => m.role === 'user')?.content || '';
+      const ids = [...new Set(prompt.match(UUID_RE) || [])];
+      const content = request.schema
+        ? JSON.stringify(mockValue(request.schema, seed, '$', ids))
+        : `[mock] ${lastUser.slice(0, 120)}`;
+
+      return Promise.resolve({
+        content,
+        model: 'mock',
+        usage: { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(content) },
+      });
+    },
+  };
+}
+
+export function resolveAiProvider(): AiProvider {
+  switch (Deno.env.get('AI_PROVIDER') || 'lovable') {
+    case 'mock':
+      return createMockAiProvider();
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        name: 'openai',
+        url: `${(Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1').replace(/\/$/, '')}/chat/completions`,
+        apiKey: Deno.env.get('OPENAI_API_KEY'),
+        defaultModel: 'gpt-4o-mini',
+      });
+    default:
+      return createOpenAiCompatibleProvider({
+        name: 'lovable',
+        url: 'https://ai.gateway.lovable.dev/v1/chat/completions',
+        apiKey: Deno.env.get('LOVABLE_API_KEY'),
+        defaultModel: 'google/gemini-2.5-flash',
+      });
+  }
+}
+
+// --------------------------------------------------------------------------
+// Schema validation
+// --------------------------------------------------------------------------
+
+// Errors of `value` against `schema`; empty when it matches
+export function validateJson(schema: JsonSchema, value: unknown, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is required`];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`];
+      if (schema.maxLength && value.length > schema.maxLength) return [`${path} must be at most ${schema.maxLength} characters`];
+      return [];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be <= ${schema.maximum}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      if (schema.minItems !== undefined && value.length < schema.minItems) return [`${path} must have at least ${schema.minItems} items`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return [`${path} must have at most ${schema.maxItems} items`];
+      return value.flatMap((item, i) => validateJson(schema.items, item, `${path}[${i}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, child]) => {
+        if (!(key in record) || record[key] === undefined) {
+          return schema.required?.includes(key) ? [`${path}.${key} is required`] : [];
+        }
+        return validateJson(child, record[key], `${path}.${key}`);
+      });
+    }
+  }
+}
+
+// The JSON value in a model reply, tolerating code fences and chatter
+// around it. Returns undefined when there is none.
+export function extractJson(content: string): unknown {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to searching for the outermost object or array
+  }
+
+  const starts = [trimmed.indexOf('{'), trimmed.indexOf('[')].filter((i) => i >= 0);
+  if (!starts.length) return undefined;
+  const start = Math.min(...starts);
+  const end = trimmed.lastIndexOf(trimmed[start] === '{' ? '}' : ']');
+  if (end <= start) return undefined;
+
+  try {
+    return JSON.parse(trimmed.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+// --------------------------------------------------------------------------
+// Accounting
+// --------------------------------------------------------------------------
+
+// USD per million tokens, input / output
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'google/gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'google/gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'google/gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'mock': { input: 0, output: 0 },
+};
+
+export function estimateCostUsd(model: string, usage: AiUsage): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return Math.round((usage.promptTokens * price.input + usage.completionTokens * price.output)) / 1_000_000;
+}
+
+interface UsageEvent {
+  feature: string;
+  userId?: string | null;
+  provider: string;
+  model: string;
+  usage: AiUsage;
+  status: 'success' | 'invalid_output' | 'error';
+  attempt: number;
+  latencyMs: number;
+  error?: string;
+}
+
+async function recordUsage(supabase: SupabaseClientLike, event: UsageEvent): Promise<void> {
+  const { error } = await supabase.from('ai_usage_events').insert({
+    user_id: event.userId || null,
+    feature: event.feature,
+    provider: event.provider,
+    model: event.model,
+    prompt_tokens: event.usage.promptTokens,
+    completion_tokens: event.usage.completionTokens,
+    cost_usd: estimateCostUsd(event.model, event.usage),
+    status: event.status,
+    attempt: event.attempt,
+    latency_ms: event.latencyMs,
+    error: event.error?.slice(0, 500) || null,
+  });
+
+  if (error) {
+    console.error('Failed to record AI usage:', error);
+  }
+}
+
+// --------------------------------------------------------------------------
+// Calls
+// --------------------------------------------------------------------------
+
+export interface AiCallOptions {
+  // Recorded with the usage, e.g. 'sme-matching.match_funding'
+  feature: string;
+  userId?: string | null;
+  messages: AiMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  provider?: AiProvider;
+  model?: string;
+}
+
+export interface AiResult<T> {
+  data: T | null;
+  error?: string;
+  // HTTP status worth passing on when the call failed (429, 402, 503, ...)
+  status?: number;
+  usage: AiUsage;
+  costUsd: number;
+  attempts: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function run<T>(
+  supabase: SupabaseClientLike,
+  options: AiCallOptions,
+  schema: JsonSchema | undefined,
+  accept: (content: string) => { value: T } | { errors: string[] },
+): Promise<AiResult<T>> {
+  const total: AiUsage = { promptTokens: 0, completionTokens: 0 };
+  const settings = await loadPlatformSettings(supabase).catch(() => null);
+  if (settings && !settings.ai_features_enabled) {
+    return { data: null, error: AI_DISABLED_MESSAGE, status: 503, usage: total, costUsd: 0, attempts: 0 };
+  }
+
+  const provider = options.provider || resolveAiProvider();
+  const model = options.model || Deno.env.get('AI_MODEL') || provider.defaultModel;
+  const maxAttempts = options.maxAttempts ?? 3;
+  const messages = [...options.messages];
+  let costUsd = 0;
+  let lastError = 'AI request failed';
+  let lastStatus: number | undefined;
+  let attempts = 0;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    attempts = attempt;
+    const startedAt = Date.now();
+    try {
+      const completion = await provider.complete({
+        model,
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        schema,
+        timeoutMs: options.timeoutMs,
+      });
+
+      total.promptTokens += completion.usage.promptTokens;
+      total.completionTokens += completion.usage.completionTokens;
+      costUsd += estimateCostUsd(completion.model, completion.usage);
+
+      const result = accept(completion.content);
+      const invalid = 'errors' in result;
+      await recordUsage(supabase, {
+        feature: options.feature,
+        userId: options.userId,
+        provider: provider.name,
+        model: completion.model,
+        usage: completion.usage,
+        status: invalid ? 'invalid_output' : 'success',
+        attempt,
+        latencyMs: Date.now() - startedAt,
+        error: invalid ? result.errors.slice(0, 5).join('; ') : undefined,
+      });
+
+      if (!invalid) {
+        return { data: result.value, usage: total, costUsd, attempts: attempt };
+      }
+
+      // Show the model what was wrong and ask again
+      lastError = `AI returned invalid output: ${result.errors.slice(0, 3).join('; ')}`;
+      lastStatus = 502;
+      messages.push(
+        { role: 'assistant', content: completion.content.slice(0, 4000) },
+        {
+          role: 'user',
+          content: `That reply was not valid: ${result.errors.slice(0, 10).join('; ')}. Reply again with only the corrected JSON.`,
+        },
+      );
+    } catch (error) {
+      const providerError = error instanceof AiProviderError ? error : null;
+      lastError = error instanceof Error ? error.message : 'AI request failed';
+      lastStatus = providerError?.status ?? 500;
+
+      await recordUsage(supabase, {
+        feature: options.feature,
+        userId: options.userId,
+        provider: provider.name,
+        model,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        status: 'error',
+        attempt,
+        latencyMs: Date.now() - startedAt,
+        error: lastError,
+      });
+
+      if (!providerError?.retryable) break;
+      if (attempt < maxAttempts) await sleep(500 * 2 ** (attempt - 1));
+    }
+  }
+
+  return { data: null, error: lastError, status: lastStatus, usage: total, costUsd, attempts };
+}
+
+// A JSON value matching `schema`, or `data: null` with the reason
+export function generateJson<T>(
+  supabase: SupabaseClientLike,
+  options: AiCallOptions & { schema: JsonSchema },
+): Promise<AiResult<T>> {
+  return run<T>(supabase, options, options.schema, (content) => {
+    const value = extractJson(content);
+    if (value === undefined) return { errors: ['reply is not JSON'] };
+    const errors = validateJson(options.schema, value);
+    return errors.length ? { errors } : { value: value as T };
+  });
+}
+
+// Free text, e.g. a chat reply
+export function generateText(supabase: SupabaseClientLike, options: AiCallOptions): Promise<AiResult<string>> {
+  return run<string>(supabase, options, undefined, (content) =>
+    content.trim() ? { value: content.trim() } : { errors: ['reply is empty'] });
+}
@@ -0,0 +1,337 @@
+// Registry of every email the platform sends through the pgmq email queue.
+//
+// A template has a key (stored as template_name in email_send_log), a
+// version that is bumped whenever its wording changes, typed variables and
+// sample values for previews in /admin/email-templates. Rendering produces
+// the subject, HTML and a plain-text alternative inside the standard layout.
+// Non-essential templates carry the recipient's unsubscribe link; essential
+// ones (billing) still go out after an unsubscribe and omit it.
+//
+// Callers never build HTML: they pass a key and variables to
+// enqueueTemplatedEmail (transactional-email.ts). Values are plain text and
+// escaped here.
+//
+// Keep this free of Deno and browser globals so it renders the same in the
+// email-templates preview endpoint and in the queue helpers.
+
+export interface DigestItem {
+  title: string;
+  detail: string;
+}
+
+export interface EmailTemplateVariables {
+  notification: {
+    title: string;
+    body: string;
+    // In-app path the button opens, e.g. /orders
+    path: string;
+  };
+  notification_digest: {
+    frequency: 'daily' | 'weekly';
+    unreadTotal: number;
+    unread: DigestItem[];
+    fundingMatches: DigestItem[];
+    professionalMatches: DigestItem[];
+    deadlines: DigestItem[];
+  };
+  subscription_renewal_reminder: {
+    planName: string;
+    renewsOn: string;
+    // Formatted amount; null for free plans
+    price: string | null;
+    // Set when a mobile money number is on file for automatic renewal
+    phoneLast4: string | null;
+    chargeOn: string | null;
+  };
+  subscription_renewal_prompt: {
+    amount: string;
+    phoneLast4: string;
+  };
+  subscription_renewal_failed: {
+    attempt: number;
+    maxAttempts: number;
+    error: string;
+    nextAttemptOn: string | null;
+  };
+  subscription_past_due: {
+    periodEndedOn: string;
+    accessUntil: string;
+  };
+  subscription_grace: {
+    accessUntil: string;
+  };
+  subscription_expired: Record<string, never>;
+}
+
+export type EmailTemplateKey = keyof EmailTemplateVariables;
+
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  // `url` may be an in-app path
+  cta?: { label: string; url: string };
+}
+
+export interface EmailTemplate<K extends EmailTemplateKey> {
+  key: K;
+  version: number;
+  name: string;
+  description: string;
+  essential: boolean;
+  content: (variables: EmailTemplateVariables[K]) => EmailContent;
+  sample: EmailTemplateVariables[K];
+}
+
+export interface EmailLinks {
+  appUrl: string;
+  // Omitted for essential templates
+  unsubscribeUrl?: string | null;
+}
+
+export interface RenderedEmail {
+  template: EmailTemplateKey;
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const PLANS_PATH = '/subscription-plans';
+const SETTINGS_PATH = '/settings/notifications';
+
+const digestSection = (paragraphs: string[], heading: string, items: DigestItem[], more = 0) => {
+  if (!items.length) return;
+  paragraphs.push(heading);
+  for (const item of items) paragraphs.push(`- ${item.title}: ${item.detail}`);
+  if (more > 0) paragraphs.push(`...and ${more} more.`);
+};
+
+export const EMAIL_TEMPLATES: { [K in EmailTemplateKey]: EmailTemplate<K> } = {
+  notification: {
+    key: 'notification',
+    version: 1,
+    name: 'Notification',
+    description: 'Instant email for a routed notification event (orders, messages, matches, funding).',
+    essential: false,
+    content: (v) => ({
+      subject: v.title,
+      heading: v.title,
+      paragraphs: [v.body],
+      cta: { label: 'Open WATHACI Connect', url: v.path || '/' },
+    }),
+    sample: {
+      title: 'Order delivered',
+      body: '"Logo design" was delivered. Review it within 3 days or payment is released automatically.',
+      path: '/orders',
+    },
+  },
+  notification_digest: {
+    key: 'notification_digest',
+    version: 1,
+    name: 'Notification digest',
+    description: 'Daily or weekly summary for users who turned off instant emails.',
+    essential: false,
+    content: (v) => {
+      const subject = v.frequency === 'daily' ? 'Your daily WATHACI digest' : 'Your weekly WATHACI digest';
+      const paragraphs = [`Here is what happened on WATHACI Connect ${v.frequency === 'daily' ? 'today' : 'this week'}.`];
+      digestSection(paragraphs, `Unread notifications (${v.unreadTotal})`, v.unread, v.unreadTotal - v.unread.length);
+      digestSection(paragraphs, 'New funding matches', v.fundingMatches);
+      digestSection(paragraphs, 'New matches', v.professionalMatches);
+      digestSection(paragraphs, 'Deadlines coming up', v.deadlines);
+      return { subject, heading: subject, paragraphs, cta: { label: 'Open WATHACI Connect', url: '/' } };
+    },
+    sample: {
+      frequency: 'weekly',
+      unreadTotal: 3,
+      unread: [
+        { title: 'New counter offer', detail: 'You have a counter offer of K1500.00 for "Bookkeeping". It is your turn to respond.' },
+        { title: 'Payment received', detail: 'A client paid K800.00 for Logo design.' },
+      ],
+      fundingMatches: [{ title: 'Youth Enterprise Fund', detail: 'CEEC - 86% match' }],
+      professionalMatches: [{ title: 'Mwila Accounting', detail: '78% match - Monthly bookkeeping' }],
+      deadlines: [{ title: 'Agro Innovation Grant', detail: 'Zambia Agri Fund - closes 24 October' }],
+    },
+  },
+  subscription_renewal_reminder: {
+    key: 'subscription_renewal_reminder',
+    version: 1,
+    name: 'Renewal reminder',
+    description: 'Sent ahead of current_period_end, once per period.',
+    essential: true,
+    content: (v) => ({
+      subject: `Your ${v.planName} subscription renews on ${v.renewsOn}`,
+      heading: `Your ${v.planName} subscription renews on ${v.renewsOn}`,
+      paragraphs: v.price === null
+        ? ['Your free plan will renew automatically. No action is needed.']
+        : v.phoneLast4
+          ? [
+            `We will request ${v.price} from your mobile money number ending ${v.phoneLast4} on ${v.chargeOn || v.renewsOn}.`,
+            'Approve the prompt on your phone when it arrives to keep your subscription active.',
+          ]
+          : [
+            `Your renewal of ${v.price} is due on ${v.renewsOn}.`,
+            'We do not have a mobile money number on file for automatic renewal, so please renew from your subscription page.',
+          ],
+      cta: { label: 'Manage subscription', url: PLANS_PATH },
+    }),
+    sample: { planName: 'Professional', renewsOn: '1 November 2026', price: 'K250.00', phoneLast4: '4821', chargeOn: '31 October 2026' },
+  },
+  subscription_renewal_prompt: {
+    key: 'subscription_renewal_prompt',
+    version: 1,
+    name: 'Renewal payment prompt',
+    description: 'A renewal collection was started; the subscriber has to approve it on their phone.',
+    essential: true,
+    content: (v) => ({
+      subject: 'Approve your subscription renewal',
+      heading: 'Approve your subscription renewal',
+      paragraphs: [
+        `We have sent a ${v.amount} payment request to your mobile money number ending ${v.phoneLast4}.`,
+        'Approve it on your phone to renew your subscription.',
+      ],
+      cta: { label: 'Manage subscription', url: PLANS_PATH },
+    }),
+    sample: { amount: 'K250.00', phoneLast4: '4821' },
+  },
+  subscription_renewal_failed: {
+    key: 'subscription_renewal_failed',
+    version: 1,
+    name: 'Renewal failed',
+    description: 'A scheduled renewal collection failed.',
+    essential: true,
+    content: (v) => ({
+      subject: 'We could not renew your subscription',
+      heading: 'We could not renew your subscription',
+      paragraphs: [
+        `Renewal attempt ${v.attempt} of ${v.maxAttempts} failed: ${v.error}.`,
+        v.nextAttemptOn
+          ? `We will try again on ${v.nextAttemptOn}. You can also renew now from your subscription page.`
+          : 'Please renew from your subscription page to keep your access.',
+      ],
+      cta: { label: 'Renew now', url: PLANS_PATH },
+    }),
+    sample: { attempt: 1, maxAttempts: 3, error: 'Insufficient funds', nextAttemptOn: '3 November 2026' },
+  },
+  subscription_past_due: {
+    key: 'subscription_past_due',
+    version: 1,
+    name: 'Subscription past due',
+    description: 'The period ended without a renewal payment.',
+    essential: true,
+    content: (v) => ({
+      subject: 'Your subscription payment is overdue',
+      heading: 'Your subscription payment is overdue',
+      paragraphs: [
+        `Your subscription period ended on ${v.periodEndedOn} and we have not received the renewal payment yet.`,
+        `We will retry the charge over the next few days. Your access continues until ${v.accessUntil}.`,
+      ],
+      cta: { label: 'Renew now', url: PLANS_PATH },
+    }),
+    sample: { periodEndedOn: '1 November 2026', accessUntil: '8 November 2026' },
+  },
+  subscription_grace: {
+    key: 'subscription_grace',
+    version: 1,
+    name: 'Subscription grace period',
+    description: 'Renewal retries are exhausted; access ends at grace_period_end.',
+    essential: true,
+    content: (v) => ({
+      subject: 'Action needed: renew your subscription',
+      heading: 'Action needed: renew your subscription',
+      paragraphs: [
+        'We could not collect your subscription renewal after several attempts.',
+        `Your premium access ends on ${v.accessUntil} unless you renew before then.`,
+      ],
+      cta: { label: 'Renew now', url: PLANS_PATH },
+    }),
+    sample: { accessUntil: '8 November 2026' },
+  },
+  subscription_expired: {
+    key: 'subscription_expired',
+    version: 1,
+    name: 'Subscription expired',
+    description: 'The grace period ended without payment.',
+    essential: true,
+    content: () => ({
+      subject: 'Your subscription has expired',
+      heading: 'Your subscription has expired',
+      paragraphs: [
+        'Your subscription has expired and premium features are no longer available on your account.',
+        'You can renew at any time to restore access.',
+      ],
+      cta: { label: 'Renew subscription', url: PLANS_PATH },
+    }),
+    sample: {},
+  },
+};
+
+export const isEmailTemplateKey = (key: string): key is EmailTemplateKey =>
+  Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, key);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const absolute = (url: string, appUrl: string) => (url.startsWith('/') ? `${appUrl}${url}` : url);
+
+// The branded layout every template renders into
+function renderLayout(content: EmailContent, footerLinks: { label: string; url: string }[]): { html: string; text: string } {
+  const body = content.paragraphs.map((p) => `<p style="color:#333;line-height:1.6">${escapeHtml(p)}</p>`).join('');
+  const button = content.cta
+    ? `<a href="${escapeHtml(content.cta.url)}" style="display:inline-block;background-color:#f97316;color:#ffffff;padding:12px 24px;text-decoration:none;border-radius:6px;font-weight:bold;margin-top:16px">${escapeHtml(content.cta.label)}</a>`
+    : '';
+  const links = footerLinks
+    .map((link) => `<a href="${escapeHtml(link.url)}" style="color:#666">${escapeHtml(link.label)}</a>`)
+    .join(' &middot; ');
+
+  const html = `
+    <div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;max-width:600px;margin:0 auto;background-color:#ffffff">
+      <div style="background:linear-gradient(135deg,#1e3a5f 0%,#2d5a87 100%);padding:32px;text-align:center">
+        <h1 style="color:#ffffff;margin:0;font-size:24px">WATHACI Connect</h1>
+      </div>
+      <div style="padding:32px">
+        <h2 style="color:#1e3a5f;margin-top:0">${escapeHtml(content.heading)}</h2>
+        ${body}
+        ${button}
+      </div>
+      <div style="background-color:#f4f4f4;padding:24px;text-align:center;color:#666;font-size:12px">
+        <p>Need help? Contact us at support@wathaci.com</p>
+        ${links ? `<p>${links}</p>` : ''}
+      </div>
+    </div>
+  `;
+
+  const text = [
+    content.heading,
+    '',
+    ...content.paragraphs,
+    ...(content.cta ? ['', `${content.cta.label}: ${content.cta.url}`] : []),
+    '',
+    '--',
+    'Need help? Contact us at support@wathaci.com',
+    ...footerLinks.map((link) => `${link.label}: ${link.url}`),
+  ].join('\n');
+
+  return { html, text };
+}
+
+export function renderEmailTemplate<K extends EmailTemplateKey>(
+  key: K,
+  variables: EmailTemplateVariables[K],
+  links: EmailLinks,
+): RenderedEmail {
+  const template = EMAIL_TEMPLATES[key] as EmailTemplate<K>;
+  const content = template.content(variables);
+  if (content.cta) content.cta = { ...content.cta, url: absolute(content.cta.url, links.appUrl) };
+
+  const footerLinks = [{ label: 'Notification settings', url: `${links.appUrl}${SETTINGS_PATH}` }];
+  if (!template.essential && links.unsubscribeUrl) {
+    footerLinks.push({ label: 'Unsubscribe', url: links.unsubscribeUrl });
+  }
+
+  return { template: key, version: template.version, subject: content.subject, ...renderLayout(content, footerLinks) };
+}
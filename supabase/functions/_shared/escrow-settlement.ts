@@ -0,0 +1,63 @@
+// How the escrow held for an order (or one milestone of it) is divided when
+// it settles. order-manager pays acceptances and provider cancellations with
+// these amounts through settle_order_escrow / settle_milestone_escrow, and
+// /admin/disputes checks a resolution against disputeSettlement before
+// admin_resolve_dispute, which applies the same rules in SQL.
+//
+// The browser imports this through src/lib/escrow, so keep it free of Deno
+// and browser globals.
+
+export type DisputeOutcome = 'refund' | 'split' | 'release';
+
+export interface EscrowHolding {
+  // What the client paid in: the agreed price, platform fee and any VAT
+  escrow_amount: number | string;
+  // What acceptance pays the provider: the agreed price plus any VAT they
+  // charged, less withholding tax
+  provider_payout: number | string;
+}
+
+export interface EscrowSettlement {
+  providerAmount: number;
+  clientAmount: number;
+}
+
+export type DisputeSettlementResult =
+  | { settlement: EscrowSettlement; error?: undefined }
+  | { settlement?: undefined; error: string };
+
+// Acceptance (or approval) pays the provider their payout; the platform fee
+// and withheld tax stay in escrow for the platform
+export function acceptanceSettlement(holding: EscrowHolding): EscrowSettlement {
+  return {
+    providerAmount: Math.min(Number(holding.provider_payout), Number(holding.escrow_amount)),
+    clientAmount: 0,
+  };
+}
+
+// Everything the client paid goes back, platform fee included
+export function refundSettlement(holding: EscrowHolding): EscrowSettlement {
+  return { providerAmount: 0, clientAmount: Number(holding.escrow_amount) };
+}
+
+// An admin's ruling on a dispute: a refund or release settles as above; a
+// split pays each side the amount given, which must both be positive and
+// together fit within the escrow
+export function disputeSettlement(
+  outcome: DisputeOutcome,
+  holding: EscrowHolding,
+  split: Partial<EscrowSettlement> = {},
+): DisputeSettlementResult {
+  if (outcome === 'refund') return { settlement: refundSettlement(holding) };
+  if (outcome === 'release') return { settlement: acceptanceSettlement(holding) };
+
+  const providerAmount = split.providerAmount ?? 0;
+  const clientAmount = split.clientAmount ?? 0;
+  if (!(providerAmount > 0) || !(clientAmount > 0)) {
+    return { error: 'A split must pay both parties' };
+  }
+  if (providerAmount + clientAmount > Number(holding.escrow_amount)) {
+    return { error: 'The split exceeds the amount held in escrow' };
+  }
+  return { settlement: { providerAmount, clientAmount } };
+}
@@ -0,0 +1,266 @@
+// Platform fees from the admin-managed schedule: `platform_fee_tiers` and
+// `platform_fee_discounts`, edited in /admin/fees.
+//
+// lenco-payments prices direct service purchases and negotiation-manager
+// prices orders with calculatePlatformFee, and the /admin/fees simulator runs
+// the same function over past payments, so a proposed schedule shows exactly
+// what it would have charged. calculate_platform_fee in SQL mirrors it.
+//
+// A tier for the exact transaction type beats an 'all' tier; among those the
+// most recently effective, then the narrowest, wins. Without a tier the
+// caller's fallback rate applies (see platform-settings.ts). The provider's
+// largest discount, by provider or by their subscription plan, then comes
+// off the fee.
+//
+// The browser imports this through src/lib/fee-schedule, so keep it free of
+// Deno and browser globals.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export type FeeTransactionType = 'service_purchase' | 'order';
+export type FeeDiscountScope = 'provider' | 'plan';
+
+export interface FeeTier {
+  id: string;
+  currency: string;
+  // 'all' applies to every transaction type
+  transaction_type: FeeTransactionType | 'all';
+  min_amount: number;
+  max_amount: number | null;
+  fee_percentage: number;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+}
+
+export interface FeeDiscount {
+  id: string;
+  scope: FeeDiscountScope;
+  provider_id: string | null;
+  plan_id: string | null;
+  // Off the fee, not off the amount
+  discount_percent: number;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+}
+
+export interface FeeSchedule {
+  tiers: FeeTier[];
+  discounts: FeeDiscount[];
+}
+
+export interface FeeInput {
+  amount: number;
+  currency: string;
+  transactionType: FeeTransactionType;
+  // The seller, whose discounts apply
+  providerId?: string | null;
+  providerPlanId?: string | null;
+  // Defaults to now; tiers and discounts are chosen by their effective dates
+  at?: Date | string;
+  // Percentage charged when no tier matches
+  fallbackPercent: number;
+}
+
+export interface FeeQuote {
+  fee: number;
+  // Rate charged after the discount
+  percent: number;
+  // Rate before the discount
+  basePercent: number;
+  tier: FeeTier | null;
+  discount: FeeDiscount | null;
+}
+
+export const FEE_TRANSACTION_TYPES: FeeTransactionType[] = ['service_purchase', 'order'];
+
+export const FEE_TRANSACTION_TYPE_LABELS: Record<FeeTransactionType | 'all', string> = {
+  all: 'All payments',
+  service_purchase: 'Direct service purchases',
+  order: 'Negotiated orders',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toTime = (value: Date | string | undefined) => (value ? new Date(value) : new Date()).getTime();
+
+const inEffect = (row: { is_active: boolean; effective_from: string; effective_to: string | null }, at: number) =>
+  row.is_active &&
+  toTime(row.effective_from) <= at &&
+  (!row.effective_to || toTime(row.effective_to) > at);
+
+export function selectFeeTier(tiers: FeeTier[], input: FeeInput): FeeTier | null {
+  const at = toTime(input.at);
+  let best: FeeTier | null = null;
+
+  for (const tier of tiers) {
+    if (!inEffect(tier, at)) continue;
+    if (tier.currency !== input.currency) continue;
+    if (tier.transaction_type !== 'all' && tier.transaction_type !== input.transactionType) continue;
+    if (input.amount < Number(tier.min_amount)) continue;
+    if (tier.max_amount !== null && input.amount > Number(tier.max_amount)) continue;
+
+    if (!best) {
+      best = tier;
+      continue;
+    }
+    const specific = tier.transaction_type === input.transactionType;
+    const bestSpecific = best.transaction_type === input.transactionType;
+    if (specific !== bestSpecific) {
+      if (specific) best = tier;
+      continue;
+    }
+    const from = toTime(tier.effective_from);
+    const bestFrom = toTime(best.effective_from);
+    if (from > bestFrom || (from === bestFrom && Number(tier.min_amount) > Number(best.min_amount))) {
+      best = tier;
+    }
+  }
+
+  return best;
+}
+
+export function selectFeeDiscount(discounts: FeeDiscount[], input: FeeInput): FeeDiscount | null {
+  const at = toTime(input.at);
+  let best: FeeDiscount | null = null;
+
+  for (const discount of discounts) {
+    if (!inEffect(discount, at)) continue;
+    const applies = discount.scope === 'provider'
+      ? !!input.providerId && discount.provider_id === input.providerId
+      : !!input.providerPlanId && discount.plan_id === input.providerPlanId;
+    if (!applies) continue;
+    if (!best || Number(discount.discount_percent) > Number(best.discount_percent)) {
+      best = discount;
+    }
+  }
+
+  return best;
+}
+
+export function calculatePlatformFee(schedule: FeeSchedule, input: FeeInput): FeeQuote {
+  const tier = selectFeeTier(schedule.tiers, input);
+  const discount = selectFeeDiscount(schedule.discounts, input);
+  const basePercent = tier ? Number(tier.fee_percentage) : input.fallbackPercent;
+  const percent = discount ? basePercent * (1 - Number(discount.discount_percent) / 100) : basePercent;
+
+  return {
+    fee: round2(input.amount * (percent / 100)),
+    percent: round2(percent),
+    basePercent,
+    tier,
+    discount,
+  };
+}
+
+// A past fee-bearing payment, as admin_fee_simulation_sample returns it
+export interface PastFeePayment {
+  id: string;
+  transaction_type: FeeTransactionType;
+  amount: number;
+  currency: string;
+  platform_fee: number;
+  provider_id: string | null;
+  provider_plan_id: string | null;
+  created_at: string;
+}
+
+export interface FeeSimulationRow {
+  payment: PastFeePayment;
+  quote: FeeQuote;
+  difference: number;
+}
+
+export interface FeeSimulationTotals {
+  currency: string;
+  count: number;
+  actual: number;
+  simulated: number;
+  difference: number;
+}
+
+export interface FeeSimulation {
+  rows: FeeSimulationRow[];
+  totals: FeeSimulationTotals[];
+  changed: number;
+}
+
+// What `payments` would have been charged under `schedule` as it stands at
+// `at`. The fallback rate may differ by transaction type.
+export function simulateFees(
+  schedule: FeeSchedule,
+  payments: PastFeePayment[],
+  options: { at?: Date | string; fallbackPercent: (type: FeeTransactionType) => number },
+): FeeSimulation {
+  const totals = new Map<string, FeeSimulationTotals>();
+  let changed = 0;
+
+  const rows = payments.map((payment) => {
+    const quote = calculatePlatformFee(schedule, {
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      transactionType: payment.transaction_type,
+      providerId: payment.provider_id,
+      providerPlanId: payment.provider_plan_id,
+      at: options.at,
+      fallbackPercent: options.fallbackPercent(payment.transaction_type),
+    });
+    const actual = Number(payment.platform_fee || 0);
+    const difference = round2(quote.fee - actual);
+    if (difference !== 0) changed++;
+
+    const total = totals.get(payment.currency) ||
+      { currency: payment.currency, count: 0, actual: 0, simulated: 0, difference: 0 };
+    total.count++;
+    total.actual = round2(total.actual + actual);
+    total.simulated = round2(total.simulated + quote.fee);
+    total.difference = round2(total.simulated - total.actual);
+    totals.set(payment.currency, total);
+
+    return { payment, quote, difference };
+  });
+
+  return { rows, totals: [...totals.values()], changed };
+}
+
+// Tiers and discounts in effect now or scheduled to start later
+export async function loadFeeSchedule(supabase: SupabaseClientLike): Promise<FeeSchedule> {
+  const now = new Date().toISOString();
+  const [tiers, discounts] = await Promise.all([
+    supabase
+      .from('platform_fee_tiers')
+      .select('id, currency, transaction_type, min_amount, max_amount, fee_percentage, effective_from, effective_to, is_active')
+      .eq('is_active', true)
+      .or(`effective_to.is.null,effective_to.gt.${now}`),
+    supabase
+      .from('platform_fee_discounts')
+      .select('id, scope, provider_id, plan_id, discount_percent, effective_from, effective_to, is_active')
+      .eq('is_active', true)
+      .or(`effective_to.is.null,effective_to.gt.${now}`),
+  ]);
+
+  if (tiers.error) throw tiers.error;
+  if (discounts.error) throw discounts.error;
+  return { tiers: tiers.data || [], discounts: discounts.data || [] };
+}
+
+// The plan of a seller's current subscription, for plan discounts
+export async function loadProviderPlanId(
+  supabase: SupabaseClientLike,
+  providerId: string | null | undefined,
+): Promise<string | null> {
+  if (!providerId) return null;
+
+  const { data } = await supabase
+    .from('subscriptions')
+    .select('plan_id')
+    .eq('user_id', providerId)
+    .in('status', ['active', 'trialing'])
+    .order('current_period_end', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.plan_id ?? null;
+}
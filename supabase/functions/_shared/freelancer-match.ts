@@ -0,0 +1,426 @@
+// Rule-based ranking of freelancers for a project, used by the
+// `freelancer-matcher` and `industry-matcher` edge functions. A score is the
+// weighted sum of five criteria that are returned and stored with the
+// result, so a client can see why a freelancer ranked where they did.
+//
+// Skills are compared against the `freelancerSkills` taxonomy the profiles
+// are built from, so 'React' on a request matches a freelancer listed under
+// 'Web Design & Development'. The browser imports the types through
+// src/lib/freelancer-match, so keep this module free of Deno and browser
+// globals.
+
+import { freelancerSkills } from './onboarding-taxonomy.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export const FREELANCER_SCORING_VERSION = 'rules-v1';
+
+export type FreelancerCriterion = 'skills' | 'rate' | 'availability' | 'reviews' | 'location';
+
+export const FREELANCER_CRITERIA_WEIGHTS: Record<FreelancerCriterion, number> = {
+  skills: 0.45,
+  rate: 0.2,
+  availability: 0.15,
+  reviews: 0.1,
+  location: 0.1,
+};
+
+const UNKNOWN_SCORE = 0.5;
+
+// Budgets are per hour; a day is counted as eight hours
+const HOURS_PER_DAY = 8;
+
+export interface FreelancerMatchRequest {
+  projectRequirements?: string | null;
+  skills?: string[] | null;
+  // ZMW per hour
+  budget?: number | null;
+  location?: string | null;
+  // One of `industries`; used when no skills are given
+  industry?: string | null;
+}
+
+export interface FreelancerCandidate {
+  id: string;
+  name: string | null;
+  title: string | null;
+  bio: string | null;
+  avatar: string | null;
+  city: string | null;
+  primary_skills: string[];
+  services_offered: string | null;
+  // Skills listed on the freelancer's marketplace services
+  service_skills: string[];
+  preferred_industries: string[];
+  experience_level: string | null;
+  availability: string | null;
+  work_mode: string | null;
+  rate_type: string | null;
+  rate_range: string | null;
+  // Average over the freelancer's services, null without reviews
+  rating: number | null;
+  reviews_count: number;
+}
+
+export interface FreelancerSubScore {
+  score: number;
+  reason: string;
+  // Set when the criterion could not be checked because one side is blank
+  missing?: 'request' | 'freelancer';
+}
+
+export type FreelancerSubScores = Record<FreelancerCriterion, FreelancerSubScore>;
+
+export interface FreelancerMatch {
+  id: string;
+  name: string;
+  title: string | null;
+  avatar: string | null;
+  bio: string | null;
+  skills: string[];
+  location: string | null;
+  rate_range: string | null;
+  // Lowest rate in ZMW per hour, when the freelancer charges by time
+  hourly_rate: number | null;
+  rating: number | null;
+  reviews_count: number;
+  availability: string | null;
+  experience_level: string | null;
+  // 0-100
+  match_score: number;
+  sub_scores: FreelancerSubScores;
+  reasons: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// --------------------------------------------------------------------------
+// Skills
+// --------------------------------------------------------------------------
+
+type FreelancerSkill = typeof freelancerSkills[number];
+
+// Words and phrases clients use for each taxonomy skill
+const SKILL_KEYWORDS: Record<FreelancerSkill, string[]> = {
+  'Accounting & Finance': ['accounting', 'accountant', 'bookkeeping', 'finance', 'financial', 'quickbooks', 'sage', 'payroll'],
+  'Legal Services': ['legal', 'law', 'lawyer', 'contract', 'contracts', 'compliance'],
+  'IT & Software Development': ['software', 'developer', 'programming', 'python', 'java', 'javascript', 'typescript', 'node', 'backend', 'api', 'database'],
+  'Web Design & Development': ['web', 'website', 'wordpress', 'html', 'css', 'react', 'frontend', 'ecommerce', 'shopify'],
+  'Graphic Design': ['graphic', 'designer', 'logo', 'branding', 'illustrator', 'photoshop', 'figma'],
+  'Digital Marketing': ['marketing', 'ads', 'advertising', 'campaign', 'campaigns'],
+  'Content Writing': ['content', 'writing', 'writer', 'copywriting', 'blog', 'copy'],
+  'Translation Services': ['translation', 'translator', 'interpreter', 'bemba', 'nyanja', 'tonga', 'lozi', 'french', 'portuguese'],
+  'Video Production': ['video', 'videography', 'film', 'editing', 'animation'],
+  'Photography': ['photography', 'photographer', 'photo', 'photos'],
+  'Project Management': ['project management', 'project manager', 'pmp', 'agile', 'scrum', 'prince2'],
+  'Human Resources': ['hr', 'human resources', 'recruitment', 'recruiting', 'hiring'],
+  'Business Consulting': ['consulting', 'consultant', 'strategy', 'business plan', 'advisory'],
+  'Tax Advisory': ['tax', 'zra', 'vat', 'tpin'],
+  'Audit Services': ['audit', 'auditing', 'assurance'],
+  'Architecture': ['architecture', 'architect', 'building design'],
+  'Engineering': ['engineering', 'engineer', 'civil', 'electrical', 'mechanical', 'structural'],
+  'Research & Analysis': ['research', 'analysis', 'analyst', 'survey', 'analytics', 'feasibility'],
+  'Data Entry': ['data entry', 'typing', 'transcription'],
+  'Virtual Assistance': ['virtual assistant', 'assistant', 'admin', 'scheduling'],
+  'Social Media Management': ['social media', 'facebook', 'instagram', 'tiktok', 'linkedin'],
+  'SEO/SEM': ['seo', 'sem', 'search engine', 'google ads'],
+  'Mobile App Development': ['mobile', 'android', 'ios', 'flutter', 'react native', 'app'],
+  'Cybersecurity': ['cybersecurity', 'security', 'penetration', 'pentest', 'iso 27001'],
+  'Cloud Services': ['cloud', 'aws', 'azure', 'gcp', 'devops', 'hosting'],
+};
+
+// ' word word ' so phrases can be found on word boundaries
+const normalize = (value: string) => ` ${value.toLowerCase().replace(/[^a-z0-9+#]+/g, ' ').trim()} `;
+
+const mentions = (text: string, phrase: string) => {
+  const needle = normalize(phrase);
+  return needle.trim().length > 1 && text.includes(needle);
+};
+
+// Taxonomy skills a free-text term refers to
+export function skillCategories(term: string): FreelancerSkill[] {
+  const text = normalize(term);
+  return freelancerSkills.filter((skill) =>
+    normalize(skill) === text || SKILL_KEYWORDS[skill].some((keyword) => mentions(text, keyword)));
+}
+
+function requestedSkills(request: FreelancerMatchRequest): string[] {
+  const skills = (request.skills || []).map((s) => s.trim()).filter(Boolean);
+  if (skills.length) return skills;
+  // Nothing listed: fall back on the skills the description refers to
+  return request.projectRequirements ? skillCategories(request.projectRequirements) : [];
+}
+
+function scoreSkills(request: FreelancerMatchRequest, candidate: FreelancerCandidate): FreelancerSubScore {
+  const requested = requestedSkills(request);
+
+  if (!requested.length) {
+    if (!request.industry) {
+      return { score: UNKNOWN_SCORE, reason: 'No skills specified', missing: 'request' };
+    }
+    return candidate.preferred_industries.includes(request.industry)
+      ? { score: 1, reason: `Works with ${request.industry} businesses` }
+      : { score: 0.3, reason: `Does not list ${request.industry} among preferred industries` };
+  }
+
+  const listed = [...candidate.primary_skills, ...candidate.service_skills];
+  const listedText = normalize(listed.join(' | '));
+  const profileText = normalize([candidate.title, candidate.services_offered, candidate.bio].filter(Boolean).join(' '));
+  const listedCategories = new Set(listed.flatMap(skillCategories));
+
+  const covered: string[] = [];
+  const total = requested.reduce((sum, skill) => {
+    // Listed as a skill, or under the same taxonomy skill
+    if (mentions(listedText, skill) || skillCategories(skill).some((c) => listedCategories.has(c))) {
+      covered.push(skill);
+      return sum + 1;
+    }
+    // Only mentioned in the profile text
+    if (mentions(profileText, skill)) {
+      covered.push(skill);
+      return sum + 0.6;
+    }
+    return sum;
+  }, 0);
+
+  if (!covered.length) {
+    return { score: 0, reason: `No listed skills match ${requested.slice(0, 3).join(', ')}` };
+  }
+  return {
+    score: round2(total / requested.length),
+    reason: covered.length === requested.length
+      ? `Covers all requested skills (${covered.slice(0, 3).join(', ')})`
+      : `Covers ${covered.length} of ${requested.length} requested skills (${covered.slice(0, 3).join(', ')})`,
+  };
+}
+
+// --------------------------------------------------------------------------
+// Rate
+// --------------------------------------------------------------------------
+
+// 'K150 - K300/hr', 'K1,000+/hr', 'K500 - K1,500/day' -> ZMW per hour. Null
+// for project-based rates, which cannot be compared with an hourly budget.
+export function parseHourlyRate(rateType: string | null, rateRange: string | null): { min: number; max: number } | null {
+  if (!rateRange) return null;
+  const perDay = rateType === 'daily' || /\/day/i.test(rateRange);
+  const perHour = rateType === 'hourly' || /\/hr/i.test(rateRange);
+  if (!perDay && !perHour) return null;
+
+  const amounts = [...rateRange.matchAll(/K?\s*([\d,]+(?:\.\d+)?)/gi)]
+    .map((m) => Number(m[1].replace(/,/g, '')))
+    .filter((n) => Number.isFinite(n) && n > 0)
+    .map((n) => (perDay ? n / HOURS_PER_DAY : n));
+  if (!amounts.length) return null;
+
+  if (/\+/.test(rateRange)) return { min: amounts[0], max: Infinity };
+  return { min: amounts[0], max: amounts[1] ?? amounts[0] };
+}
+
+const formatRate = (value: number) => `K${Math.round(value).toLocaleString('en-US')}/hr`;
+
+function scoreRate(request: FreelancerMatchRequest, candidate: FreelancerCandidate): FreelancerSubScore {
+  const budget = request.budget;
+  if (budget == null || !Number.isFinite(budget) || budget <= 0) {
+    return { score: UNKNOWN_SCORE, reason: 'No budget given', missing: 'request' };
+  }
+
+  const rate = parseHourlyRate(candidate.rate_type, candidate.rate_range);
+  if (!rate) {
+    return {
+      score: UNKNOWN_SCORE,
+      reason: candidate.rate_range ? `Charges ${candidate.rate_range}` : 'Rate not listed',
+      missing: 'freelancer',
+    };
+  }
+
+  if (budget >= rate.max) return { score: 1, reason: `Rate of ${candidate.rate_range} is within your budget` };
+  if (budget >= rate.min) return { score: 0.8, reason: `Your budget covers the lower end of ${candidate.rate_range}` };
+  // Slightly over budget still leaves room to negotiate
+  const ratio = budget / rate.min;
+  return {
+    score: ratio >= 0.75 ? round2((ratio - 0.75) * 1.6) : 0,
+    reason: `Rates start at ${formatRate(rate.min)}, above your ${formatRate(budget)} budget`,
+  };
+}
+
+// --------------------------------------------------------------------------
+// Availability, reviews, location
+// --------------------------------------------------------------------------
+
+function scoreAvailability(candidate: FreelancerCandidate): FreelancerSubScore {
+  switch (candidate.availability) {
+    case 'available': return { score: 1, reason: 'Available for new projects' };
+    case 'limited': return { score: 0.5, reason: 'Limited availability' };
+    case 'unavailable': return { score: 0, reason: 'Not taking new work' };
+    default: return { score: UNKNOWN_SCORE, reason: 'Availability not stated', missing: 'freelancer' };
+  }
+}
+
+// Ratings are pulled towards PRIOR_RATING until there are enough reviews to
+// trust them, so one five-star review does not outrank a long track record
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEWS = 3;
+
+function scoreReviews(candidate: FreelancerCandidate): FreelancerSubScore {
+  if (candidate.rating == null || !candidate.reviews_count) {
+    return { score: UNKNOWN_SCORE, reason: 'No reviews yet', missing: 'freelancer' };
+  }
+  const weighted = (candidate.rating * candidate.reviews_count + PRIOR_RATING * PRIOR_REVIEWS)
+    / (candidate.reviews_count + PRIOR_REVIEWS);
+  return {
+    score: round2(Math.min(Math.max((weighted - 1) / 4, 0), 1)),
+    reason: `Rated ${candidate.rating.toFixed(1)} from ${candidate.reviews_count} review${candidate.reviews_count === 1 ? '' : 's'}`,
+  };
+}
+
+function scoreLocation(request: FreelancerMatchRequest, candidate: FreelancerCandidate): FreelancerSubScore {
+  const wanted = request.location?.trim();
+  if (!wanted) return { score: 1, reason: 'Any location' };
+
+  if (candidate.city && normalize(candidate.city).includes(normalize(wanted).trim())) {
+    return { score: 1, reason: `Based in ${candidate.city}` };
+  }
+  if (candidate.work_mode === 'remote') return { score: 0.8, reason: 'Works remotely' };
+  if (!candidate.city) return { score: UNKNOWN_SCORE, reason: 'Location not stated', missing: 'freelancer' };
+  return candidate.work_mode === 'hybrid'
+    ? { score: 0.5, reason: `Based in ${candidate.city}, works hybrid` }
+    : { score: 0.2, reason: `Based in ${candidate.city}` };
+}
+
+// --------------------------------------------------------------------------
+// Score
+// --------------------------------------------------------------------------
+
+export function scoreFreelancer(request: FreelancerMatchRequest, candidate: FreelancerCandidate): FreelancerMatch {
+  const subScores: FreelancerSubScores = {
+    skills: scoreSkills(request, candidate),
+    rate: scoreRate(request, candidate),
+    availability: scoreAvailability(candidate),
+    reviews: scoreReviews(candidate),
+    location: scoreLocation(request, candidate),
+  };
+  const criteria = Object.keys(FREELANCER_CRITERIA_WEIGHTS) as FreelancerCriterion[];
+  const weighted = criteria.reduce((sum, c) => sum + FREELANCER_CRITERIA_WEIGHTS[c] * subScores[c].score, 0);
+  const rate = parseHourlyRate(candidate.rate_type, candidate.rate_range);
+
+  return {
+    id: candidate.id,
+    name: candidate.name || 'Freelancer',
+    title: candidate.title,
+    avatar: candidate.avatar,
+    bio: candidate.bio || candidate.services_offered,
+    skills: candidate.primary_skills,
+    location: candidate.city,
+    rate_range: candidate.rate_range,
+    hourly_rate: rate ? Math.round(rate.min) : null,
+    rating: candidate.rating,
+    reviews_count: candidate.reviews_count,
+    availability: candidate.availability,
+    experience_level: candidate.experience_level,
+    match_score: Math.round(weighted * 100),
+    sub_scores: subScores,
+    // Strongest criteria first
+    reasons: criteria.filter((c) => subScores[c].score >= 0.8 && !subScores[c].missing).map((c) => subScores[c].reason),
+  };
+}
+
+// Best matches first. Freelancers who cover none of the requested skills or
+// are not taking work are left out.
+export function rankFreelancers(
+  request: FreelancerMatchRequest,
+  candidates: FreelancerCandidate[],
+  options: { limit?: number } = {},
+): FreelancerMatch[] {
+  return candidates
+    .map((candidate) => scoreFreelancer(request, candidate))
+    .filter((m) => m.sub_scores.skills.score > 0 && m.sub_scores.availability.score > 0)
+    .sort((a, b) => b.match_score - a.match_score || a.id.localeCompare(b.id))
+    .slice(0, options.limit ?? 10);
+}
+
+// --------------------------------------------------------------------------
+// Candidates
+// --------------------------------------------------------------------------
+
+// Most recently updated profiles considered per search
+const MAX_CANDIDATES = 500;
+// Ids per `.in()` filter, to keep request URLs short
+const ID_CHUNK = 100;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Freelancer profiles with their directory card and the ratings of their
+// marketplace services. `industry` keeps freelancers who list it among their
+// preferred industries.
+export async function loadFreelancerCandidates(
+  supabase: SupabaseClientLike,
+  options: { industry?: string | null } = {},
+): Promise<FreelancerCandidate[]> {
+  let query = supabase
+    .from('freelancer_profiles')
+    .select('profile_id, professional_title, primary_skills, services_offered, preferred_industries, experience_level, availability, work_mode, rate_type, rate_range')
+    .order('updated_at', { ascending: false })
+    .limit(MAX_CANDIDATES);
+  if (options.industry) query = query.contains('preferred_industries', [options.industry]);
+
+  const { data: profiles, error } = await query;
+  if (error) throw error;
+  if (!profiles?.length) return [];
+
+  // deno-lint-ignore no-explicit-any
+  const cards = new Map<string, any>();
+  const ratings = new Map<string, { total: number; count: number; skills: string[] }>();
+
+  for (const ids of chunk(profiles.map((p: { profile_id: string }) => p.profile_id), ID_CHUNK)) {
+    const [{ data: directory }, { data: services }] = await Promise.all([
+      supabase
+        .from('v_directory_profiles')
+        .select('id, display_name, full_name, profile_photo_url, bio, city')
+        .in('id', ids),
+      supabase
+        .from('services')
+        .select('provider_id, rating, reviews_count, skills')
+        .in('provider_id', ids)
+        .eq('is_active', true),
+    ]);
+
+    for (const card of directory || []) cards.set(card.id, card);
+    for (const service of services || []) {
+      const entry = ratings.get(service.provider_id) || { total: 0, count: 0, skills: [] };
+      const count = service.reviews_count || 0;
+      if (service.rating != null && count > 0) {
+        entry.total += Number(service.rating) * count;
+        entry.count += count;
+      }
+      entry.skills.push(...(service.skills || []));
+      ratings.set(service.provider_id, entry);
+    }
+  }
+
+  // deno-lint-ignore no-explicit-any
+  return profiles.map((p: any): FreelancerCandidate => {
+    const card = cards.get(p.profile_id);
+    const rating = ratings.get(p.profile_id);
+    return {
+      id: p.profile_id,
+      name: card?.display_name || card?.full_name || null,
+      title: p.professional_title,
+      bio: card?.bio || null,
+      avatar: card?.profile_photo_url || null,
+      city: card?.city || null,
+      primary_skills: p.primary_skills || [],
+      services_offered: p.services_offered,
+      service_skills: [...new Set(rating?.skills || [])],
+      preferred_industries: p.preferred_industries || [],
+      experience_level: p.experience_level,
+      availability: p.availability,
+      work_mode: p.work_mode,
+      rate_type: p.rate_type,
+      rate_range: p.rate_range,
+      rating: rating?.count ? Math.round((rating.total / rating.count) * 10) / 10 : null,
+      reviews_count: rating?.count || 0,
+    };
+  });
+}
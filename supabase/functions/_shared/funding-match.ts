@@ -0,0 +1,311 @@
+// Rule-based scoring of an SME against funding opportunities, used by the
+// `sme-matching` edge function. Every score is the weighted sum of five
+// criteria that are stored with the match, so an SME can see why an
+// opportunity scored what it did and gets the same score every time.
+//
+// A criterion neither side says anything about scores UNKNOWN_SCORE rather
+// than counting for or against the match.
+
+export const FUNDING_SCORING_VERSION = 'rules-v1';
+
+export type FundingCriterion = 'sector' | 'stage' | 'region' | 'amount' | 'deadline';
+
+export const FUNDING_CRITERIA_WEIGHTS: Record<FundingCriterion, number> = {
+  sector: 0.35,
+  stage: 0.2,
+  amount: 0.2,
+  region: 0.15,
+  deadline: 0.1,
+};
+
+// Below this an opportunity is not stored as a match
+export const MIN_FUNDING_MATCH_SCORE = 40;
+
+const UNKNOWN_SCORE = 0.5;
+
+export const BUSINESS_STAGES = ['idea', 'early', 'growth', 'established'];
+
+export interface FundingSmeProfile {
+  industry: string | null;
+  sectors: string[];
+  stage: string | null;
+  country: string | null;
+  province: string | null;
+  city: string | null;
+  // sme_profiles.funding_range, e.g. 'K50,001 - K200,000'
+  fundingRange: string | null;
+}
+
+export interface FundingOpportunityCandidate {
+  id: string;
+  title: string;
+  organization: string;
+  sectors: string[] | null;
+  target_stage: string[] | null;
+  region_focus: string[] | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  currency: string | null;
+  deadline: string | null;
+  eligibility_criteria: string[] | null;
+}
+
+export interface FundingSubScore {
+  score: number;
+  reason: string;
+  // Set when the criterion could not be checked because one side is blank
+  missing?: 'profile' | 'opportunity';
+}
+
+export type FundingSubScores = Record<FundingCriterion, FundingSubScore>;
+
+export interface FundingMatchScore {
+  fundingId: string;
+  // 0-100
+  score: number;
+  subScores: FundingSubScores;
+  // False when a hard rule excludes the opportunity (deadline passed,
+  // region that excludes Zambia)
+  eligible: boolean;
+  reasons: string[];
+  actionPlan: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// --------------------------------------------------------------------------
+// Sector
+// --------------------------------------------------------------------------
+
+const SECTOR_STOP_WORDS = new Set(['and', 'the', 'services', 'other', 'sector', 'industry', 'general']);
+
+// Words that name the same sector in the opportunity and profile vocabularies
+const SECTOR_ALIASES: Record<string, string[]> = {
+  agriculture: ['agribusiness', 'agritech', 'farming', 'food', 'agro'],
+  technology: ['tech', 'ict', 'digital', 'software', 'information', 'telecommunications'],
+  fintech: ['financial', 'finance', 'banking'],
+  energy: ['renewable', 'clean', 'solar', 'climate', 'utilities'],
+  healthcare: ['health', 'pharmaceuticals', 'medical'],
+  education: ['training', 'edtech', 'skills'],
+  tourism: ['hospitality', 'travel'],
+  manufacturing: ['industrial', 'processing', 'textiles'],
+  mining: ['extractives', 'resources'],
+  retail: ['wholesale', 'trade', 'commerce'],
+  logistics: ['transportation', 'transport', 'supply'],
+};
+
+const ALIAS_ROOT = new Map(
+  Object.entries(SECTOR_ALIASES).flatMap(([root, aliases]) =>
+    [root, ...aliases].map((alias): [string, string] => [alias, root])),
+);
+
+function sectorTerms(values: (string | null | undefined)[]): Set<string> {
+  const words = values
+    .filter((v): v is string => typeof v === 'string')
+    .join(' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !SECTOR_STOP_WORDS.has(w));
+  return new Set(words.map((w) => ALIAS_ROOT.get(w) || w));
+}
+
+const OPEN_SECTORS = ['all', 'any', 'agnostic', 'various', 'multi'];
+
+function scoreSector(sme: FundingSmeProfile, opp: FundingOpportunityCandidate): FundingSubScore {
+  const oppSectors = (opp.sectors || []).filter(Boolean);
+  if (!oppSectors.length || oppSectors.some((s) => OPEN_SECTORS.some((o) => s.toLowerCase().includes(o)))) {
+    return { score: 1, reason: 'Open to all sectors' };
+  }
+
+  const smeTerms = sectorTerms([sme.industry, ...sme.sectors]);
+  if (!smeTerms.size) {
+    return { score: UNKNOWN_SCORE, reason: 'Add your industry to your profile to check sector fit', missing: 'profile' };
+  }
+
+  const matched = oppSectors.filter((s) => [...sectorTerms([s])].some((t) => smeTerms.has(t)));
+  if (!matched.length) {
+    return { score: 0, reason: `Targets ${oppSectors.slice(0, 3).join(', ')}` };
+  }
+  return { score: 1, reason: `Targets your sector (${matched.slice(0, 2).join(', ')})` };
+}
+
+// --------------------------------------------------------------------------
+// Stage
+// --------------------------------------------------------------------------
+
+function scoreStage(sme: FundingSmeProfile, opp: FundingOpportunityCandidate): FundingSubScore {
+  const targets = (opp.target_stage || []).map((s) => s.toLowerCase()).filter((s) => BUSINESS_STAGES.includes(s));
+  if (!targets.length) {
+    return { score: 1, reason: 'Open to businesses at any stage' };
+  }
+
+  const stage = sme.stage?.toLowerCase();
+  if (!stage || !BUSINESS_STAGES.includes(stage)) {
+    return { score: UNKNOWN_SCORE, reason: 'Add your business stage to your profile to check stage fit', missing: 'profile' };
+  }
+  if (targets.includes(stage)) {
+    return { score: 1, reason: `Funds ${stage}-stage businesses` };
+  }
+
+  const distance = Math.min(...targets.map((t) => Math.abs(BUSINESS_STAGES.indexOf(t) - BUSINESS_STAGES.indexOf(stage))));
+  return distance === 1
+    ? { score: 0.5, reason: `Aimed at ${targets.join('/')} businesses, one stage from yours` }
+    : { score: 0, reason: `Aimed at ${targets.join('/')} businesses` };
+}
+
+// --------------------------------------------------------------------------
+// Region
+// --------------------------------------------------------------------------
+
+// Region names that include a Zambian business without naming Zambia
+const WIDER_REGIONS = ['africa', 'sub-saharan', 'southern africa', 'sadc', 'comesa', 'global', 'international', 'worldwide', 'emerging markets', 'developing countries'];
+
+function scoreRegion(sme: FundingSmeProfile, opp: FundingOpportunityCandidate): FundingSubScore {
+  const regions = (opp.region_focus || []).map((r) => r.toLowerCase().trim()).filter(Boolean);
+  if (!regions.length) {
+    return { score: UNKNOWN_SCORE, reason: 'Region not stated; check the eligibility criteria', missing: 'opportunity' };
+  }
+
+  const local = [sme.province, sme.city].filter((v): v is string => !!v).map((v) => v.toLowerCase());
+  const country = (sme.country || 'Zambia').toLowerCase();
+
+  if (regions.some((r) => local.some((l) => r.includes(l)))) {
+    return { score: 1, reason: 'Focused on your province' };
+  }
+  if (regions.some((r) => r.includes(country))) {
+    return { score: 1, reason: `Open to businesses in ${sme.country || 'Zambia'}` };
+  }
+  if (regions.some((r) => WIDER_REGIONS.some((w) => r.includes(w)))) {
+    return { score: 0.8, reason: `Open to ${opp.region_focus!.slice(0, 2).join(', ')}` };
+  }
+  return { score: 0, reason: `Limited to ${opp.region_focus!.slice(0, 3).join(', ')}` };
+}
+
+// --------------------------------------------------------------------------
+// Amount
+// --------------------------------------------------------------------------
+
+// 'Up to K50,000', 'K50,001 - K200,000', 'K20,000,000+' -> ZMW bounds
+export function parseFundingRange(range: string | null | undefined): { min: number; max: number } | null {
+  if (!range) return null;
+  const amounts = [...range.matchAll(/K?\s*([\d,]+(?:\.\d+)?)/gi)]
+    .map((m) => Number(m[1].replace(/,/g, '')))
+    .filter((n) => Number.isFinite(n) && n > 0);
+  if (!amounts.length) return null;
+
+  if (/up to/i.test(range)) return { min: 0, max: amounts[0] };
+  if (range.trim().endsWith('+')) return { min: amounts[0], max: Infinity };
+  return amounts.length >= 2 ? { min: amounts[0], max: amounts[1] } : { min: amounts[0], max: amounts[0] };
+}
+
+const formatZmw = (value: number) => `K${Math.round(value).toLocaleString('en-US')}`;
+
+// `toZmw` converts one unit of the opportunity's currency into ZMW; null when
+// no rate is available
+function scoreAmount(sme: FundingSmeProfile, opp: FundingOpportunityCandidate, toZmw: number | null): FundingSubScore {
+  const need = parseFundingRange(sme.fundingRange);
+  if (!need) {
+    return { score: UNKNOWN_SCORE, reason: 'Add the amount you need to your profile to check ticket size', missing: 'profile' };
+  }
+  if ((opp.amount_min == null && opp.amount_max == null) || toZmw == null) {
+    return { score: UNKNOWN_SCORE, reason: 'Funding amount not stated', missing: 'opportunity' };
+  }
+
+  const offerMin = (opp.amount_min ?? 0) * toZmw;
+  const offerMax = opp.amount_max != null ? opp.amount_max * toZmw : Infinity;
+
+  if (offerMin <= need.max && offerMax >= need.min) {
+    return { score: 1, reason: 'Ticket size fits the amount you need' };
+  }
+  if (offerMax < need.min) {
+    // Too small: partial credit for covering part of the need
+    return {
+      score: round2(Math.min(offerMax / need.min, 1) * 0.7),
+      reason: `Offers up to ${formatZmw(offerMax)}, less than the ${formatZmw(need.min)}+ you need`,
+    };
+  }
+  return { score: 0, reason: `Minimum ticket of ${formatZmw(offerMin)} is above what you need` };
+}
+
+// --------------------------------------------------------------------------
+// Deadline
+// --------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function scoreDeadline(opp: FundingOpportunityCandidate, now: Date): FundingSubScore {
+  if (!opp.deadline) {
+    return { score: 0.8, reason: 'Rolling applications' };
+  }
+
+  const days = Math.floor((new Date(opp.deadline).getTime() - now.getTime()) / DAY_MS);
+  if (days < 0) return { score: 0, reason: 'Deadline has passed' };
+  if (days < 7) return { score: 0.4, reason: `Closes in ${days} day${days === 1 ? '' : 's'}` };
+  if (days < 30) return { score: 0.8, reason: `Closes in ${days} days` };
+  return { score: 1, reason: `Closes ${opp.deadline.slice(0, 10)}` };
+}
+
+// --------------------------------------------------------------------------
+// Score
+// --------------------------------------------------------------------------
+
+export function scoreFundingOpportunity(
+  sme: FundingSmeProfile,
+  opp: FundingOpportunityCandidate,
+  options: { toZmw: number | null; now?: Date },
+): FundingMatchScore {
+  const now = options.now || new Date();
+  const subScores: FundingSubScores = {
+    sector: scoreSector(sme, opp),
+    stage: scoreStage(sme, opp),
+    region: scoreRegion(sme, opp),
+    amount: scoreAmount(sme, opp, options.toZmw),
+    deadline: scoreDeadline(opp, now),
+  };
+
+  const weighted = (Object.keys(FUNDING_CRITERIA_WEIGHTS) as FundingCriterion[])
+    .reduce((sum, c) => sum + FUNDING_CRITERIA_WEIGHTS[c] * subScores[c].score, 0);
+  const eligible = subScores.deadline.score > 0 && subScores.region.score > 0;
+
+  return {
+    fundingId: opp.id,
+    score: eligible ? Math.round(weighted * 100) : 0,
+    subScores,
+    eligible,
+    // Strongest criteria first
+    reasons: (Object.keys(FUNDING_CRITERIA_WEIGHTS) as FundingCriterion[])
+      .filter((c) => subScores[c].score >= 0.8)
+      .map((c) => subScores[c].reason),
+    actionPlan: fundingActionPlan(opp, subScores),
+  };
+}
+
+// Next steps that follow from the sub-scores; the AI narrative replaces this
+// when it is available
+export function fundingActionPlan(opp: FundingOpportunityCandidate, subScores: FundingSubScores): string {
+  const steps: string[] = [];
+  if (opp.deadline && subScores.deadline.score > 0) steps.push(`Apply before ${opp.deadline.slice(0, 10)}.`);
+  if (opp.eligibility_criteria?.length) steps.push(`Confirm you meet: ${opp.eligibility_criteria.slice(0, 3).join('; ')}.`);
+
+  const unknown = (Object.keys(subScores) as FundingCriterion[]).filter((c) => subScores[c].missing === 'profile');
+  if (unknown.length) steps.push(`Complete your profile (${unknown.join(', ')}) for a more precise score.`);
+
+  return steps.join(' ') || `Review the ${opp.organization} application requirements.`;
+}
+
+// Scored, eligible matches at or above MIN_FUNDING_MATCH_SCORE, best first
+export function rankFundingOpportunities(
+  sme: FundingSmeProfile,
+  opportunities: FundingOpportunityCandidate[],
+  rates: Map<string, number>,
+  options: { limit?: number; now?: Date } = {},
+): FundingMatchScore[] {
+  return opportunities
+    .map((opp) => scoreFundingOpportunity(sme, opp, {
+      toZmw: rates.get((opp.currency || 'USD').toUpperCase()) ?? null,
+      now: options.now,
+    }))
+    .filter((m) => m.eligible && m.score >= MIN_FUNDING_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.fundingId.localeCompare(b.fundingId))
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,225 @@
+// Exchange rates for the `currency-converter` edge function (and anything else
+// that needs to price in another currency).
+//
+// Rates are stored against USD in fx_rates; every fetch is also appended to
+// fx_rate_history. A pair such as ZAR -> ZMW is derived from its two USD legs,
+// so only one rate per currency needs to be kept fresh.
+//
+// The rate source is pluggable: FX_RATE_PROVIDER=fixture uses the static
+// fixture below (local development and tests), anything else fetches from an
+// open.er-api.com compatible endpoint (FX_RATE_API_URL).
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export const FX_BASE_CURRENCY = 'USD';
+
+// Currencies our users pay in, to and from ZMW
+export const SUPPORTED_CURRENCIES = ['ZMW', 'USD', 'ZAR', 'GBP', 'EUR'];
+
+// A cached rate older than this is refreshed before it is used
+export const MAX_RATE_AGE_MS = 6 * 60 * 60 * 1000;
+
+export interface FxRateProvider {
+  name: string;
+  // Units of each quote currency per one unit of `base`
+  fetchRates(base: string, quotes: string[]): Promise<Record<string, number>>;
+}
+
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number;
+  source: string;
+  // Oldest fetch time of the legs the rate was derived from
+  fetchedAt: string;
+  fromRateHistoryId: string | null;
+  toRateHistoryId: string | null;
+}
+
+export interface FxRefreshResult {
+  source: string;
+  updated: string[];
+  error?: string;
+}
+
+const FIXTURE_RATES: Record<string, number> = {
+  USD: 1,
+  ZMW: 26.5,
+  ZAR: 18.2,
+  GBP: 0.79,
+  EUR: 0.92,
+};
+
+export const fixtureFxProvider: FxRateProvider = {
+  name: 'fixture',
+  fetchRates(base, quotes) {
+    const baseRate = FIXTURE_RATES[base];
+    const rates: Record<string, number> = {};
+    for (const quote of quotes) {
+      if (baseRate && FIXTURE_RATES[quote]) {
+        rates[quote] = FIXTURE_RATES[quote] / baseRate;
+      }
+    }
+    return Promise.resolve(rates);
+  },
+};
+
+export function createHttpFxProvider(
+  apiUrl = Deno.env.get('FX_RATE_API_URL') || 'https://open.er-api.com/v6/latest',
+): FxRateProvider {
+  return {
+    name: new URL(apiUrl).hostname,
+    async fetchRates(base, quotes) {
+      const response = await fetch(`${apiUrl.replace(/\/$/, '')}/${base}`);
+      if (!response.ok) {
+        throw new Error(`Rate source responded with ${response.status}`);
+      }
+
+      const body = await response.json();
+      const source = body?.rates || body?.conversion_rates || {};
+      const rates: Record<string, number> = {};
+      for (const quote of quotes) {
+        const value = Number(source[quote]);
+        if (Number.isFinite(value) && value > 0) rates[quote] = value;
+      }
+      return rates;
+    },
+  };
+}
+
+export function resolveFxProvider(): FxRateProvider {
+  return Deno.env.get('FX_RATE_PROVIDER') === 'fixture' ? fixtureFxProvider : createHttpFxProvider();
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Fetches the USD rate for every supported currency, appends them to the
+// history and makes them current
+export async function refreshFxRates(
+  supabase: SupabaseClientLike,
+  provider: FxRateProvider = resolveFxProvider(),
+): Promise<FxRefreshResult> {
+  const quotes = SUPPORTED_CURRENCIES.filter((c) => c !== FX_BASE_CURRENCY);
+
+  let rates: Record<string, number>;
+  try {
+    rates = await provider.fetchRates(FX_BASE_CURRENCY, quotes);
+  } catch (error) {
+    console.error(`FX rate fetch from ${provider.name} failed:`, error);
+    return { source: provider.name, updated: [], error: error instanceof Error ? error.message : 'Rate fetch failed' };
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const rows = Object.entries(rates).map(([quote, rate]) => ({
+    base_currency: FX_BASE_CURRENCY,
+    quote_currency: quote,
+    rate,
+    source: provider.name,
+    fetched_at: fetchedAt,
+  }));
+
+  if (rows.length === 0) {
+    return { source: provider.name, updated: [], error: 'Rate source returned no supported currencies' };
+  }
+
+  const { data: history, error: historyError } = await supabase
+    .from('fx_rate_history')
+    .insert(rows)
+    .select('id, quote_currency');
+
+  if (historyError) {
+    console.error('Failed to record FX rate history:', historyError);
+    return { source: provider.name, updated: [], error: 'Failed to record FX rates' };
+  }
+
+  const historyIds = new Map<string, string>(
+    (history || []).map((h: { id: string; quote_currency: string }) => [h.quote_currency, h.id]),
+  );
+
+  const { error: upsertError } = await supabase
+    .from('fx_rates')
+    .upsert(
+      rows.map((row) => ({ ...row, history_id: historyIds.get(row.quote_currency) ?? null })),
+      { onConflict: 'base_currency,quote_currency' },
+    );
+
+  if (upsertError) {
+    console.error('Failed to update current FX rates:', upsertError);
+    return { source: provider.name, updated: [], error: 'Failed to update FX rates' };
+  }
+
+  return { source: provider.name, updated: rows.map((r) => r.quote_currency) };
+}
+
+interface StoredRate {
+  quote_currency: string;
+  rate: number;
+  source: string;
+  fetched_at: string;
+  history_id: string | null;
+}
+
+async function loadLegs(supabase: SupabaseClientLike, currencies: string[]): Promise<Map<string, StoredRate>> {
+  const { data, error } = await supabase
+    .from('fx_rates')
+    .select('quote_currency, rate, source, fetched_at, history_id')
+    .eq('base_currency', FX_BASE_CURRENCY)
+    .in('quote_currency', currencies);
+
+  if (error) {
+    console.error('Failed to load FX rates:', error);
+  }
+  return new Map((data || []).map((row: StoredRate) => [row.quote_currency, row]));
+}
+
+// The rate to convert `from` into `to`. Stale or missing legs are refreshed
+// first; if the source is unavailable a stale cached rate is still used.
+export async function getFxRate(
+  supabase: SupabaseClientLike,
+  from: string,
+  to: string,
+  provider?: FxRateProvider,
+): Promise<FxRate | null> {
+  const now = new Date().toISOString();
+  if (from === to) {
+    return { from, to, rate: 1, source: 'identity', fetchedAt: now, fromRateHistoryId: null, toRateHistoryId: null };
+  }
+
+  const legs = [from, to].filter((c) => c !== FX_BASE_CURRENCY);
+  let stored = await loadLegs(supabase, legs);
+
+  const needsRefresh = legs.some((c) => {
+    const row = stored.get(c);
+    return !row || Date.now() - new Date(row.fetched_at).getTime() > MAX_RATE_AGE_MS;
+  });
+
+  if (needsRefresh) {
+    const refreshed = await refreshFxRates(supabase, provider);
+    if (!refreshed.error) {
+      stored = await loadLegs(supabase, legs);
+    }
+  }
+
+  const leg = (currency: string) => currency === FX_BASE_CURRENCY
+    ? { rate: 1, source: FX_BASE_CURRENCY, fetched_at: now, history_id: null }
+    : stored.get(currency);
+
+  const fromLeg = leg(from);
+  const toLeg = leg(to);
+  if (!fromLeg || !toLeg) return null;
+
+  const sources = [...new Set([fromLeg.source, toLeg.source].filter((s) => s !== FX_BASE_CURRENCY))];
+
+  return {
+    from,
+    to,
+    rate: Number(toLeg.rate) / Number(fromLeg.rate),
+    source: sources.join('+') || FX_BASE_CURRENCY,
+    fetchedAt: new Date(Math.min(new Date(fromLeg.fetched_at).getTime(), new Date(toLeg.fetched_at).getTime())).toISOString(),
+    fromRateHistoryId: fromLeg.history_id,
+    toRateHistoryId: toLeg.history_id,
+  };
+}
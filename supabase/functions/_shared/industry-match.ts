@@ -0,0 +1,151 @@
+// Request/response contracts of the `industry-matcher` edge function and the
+// rules it uses to tie free-text sectors (investor sectors, mandate areas,
+// partner descriptions) back to the `industries` taxonomy.
+//
+// The browser imports the types through src/lib/industry-match, so keep this
+// module free of Deno and browser globals.
+
+import { industries } from './onboarding-taxonomy.ts';
+
+export const INDUSTRY_SCORING_VERSION = 'rules-v1';
+
+export type Industry = typeof industries[number];
+
+export type IndustryUserType = 'entrepreneur' | 'investor' | 'freelancer' | 'partnership seeker';
+
+export const INDUSTRY_USER_TYPES: IndustryUserType[] = ['entrepreneur', 'investor', 'freelancer', 'partnership seeker'];
+
+export interface IndustryMatchRequest {
+  industry: string;
+  userType: IndustryUserType;
+  location?: string | null;
+  requirements?: string | null;
+}
+
+export type IndustryMatchKind = 'freelancer' | 'funding' | 'partner' | 'investor' | 'institution' | 'sme';
+
+export interface IndustryMatchItem {
+  id: string;
+  kind: IndustryMatchKind;
+  label: string;
+  detail: string | null;
+  // 0-100
+  score: number;
+  reasons: string[];
+  // Funding only: application deadline
+  deadline?: string | null;
+}
+
+export interface IndustryRecommendations {
+  priority: string;
+  nextSteps: string;
+  timeline: string;
+}
+
+export interface IndustryMatchResult {
+  industry: Industry;
+  matches: {
+    freelancers: IndustryMatchItem[];
+    funding: IndustryMatchItem[];
+    partnerships: IndustryMatchItem[];
+  };
+  recommendations: IndustryRecommendations;
+  scoringVersion: string;
+}
+
+// Who is worth partnering with depends on who is asking
+export const PARTNER_KINDS: Record<IndustryUserType, IndustryMatchKind[]> = {
+  entrepreneur: ['investor', 'institution', 'partner'],
+  investor: ['sme', 'investor'],
+  freelancer: ['sme', 'partner'],
+  'partnership seeker': ['partner', 'institution', 'sme'],
+};
+
+// Words other vocabularies use for each industry
+const INDUSTRY_KEYWORDS: Record<Industry, string[]> = {
+  'Agriculture & Agribusiness': ['agriculture', 'agribusiness', 'agritech', 'farming', 'agro', 'food'],
+  'Mining & Extractives': ['mining', 'extractives', 'minerals', 'resources'],
+  'Manufacturing': ['manufacturing', 'industrial', 'processing'],
+  'Construction & Real Estate': ['construction', 'real estate', 'infrastructure', 'property'],
+  'Retail & Wholesale Trade': ['retail', 'wholesale', 'trade', 'e commerce', 'ecommerce'],
+  'Transportation & Logistics': ['transport', 'transportation', 'logistics', 'supply chain'],
+  'Information Technology': ['technology', 'tech', 'ict', 'digital', 'software', 'innovation'],
+  'Financial Services': ['finance', 'financial', 'fintech', 'banking'],
+  'Healthcare & Pharmaceuticals': ['health', 'healthcare', 'pharmaceuticals', 'medical'],
+  'Education & Training': ['education', 'training', 'skills', 'edtech'],
+  'Tourism & Hospitality': ['tourism', 'hospitality', 'travel'],
+  'Energy & Utilities': ['energy', 'utilities', 'renewable', 'solar', 'clean energy'],
+  'Telecommunications': ['telecommunications', 'telecom'],
+  'Professional Services': ['professional services', 'consulting', 'advisory', 'legal', 'accounting'],
+  'Media & Entertainment': ['media', 'entertainment', 'creative'],
+  'Food & Beverage': ['food', 'beverage', 'beverages'],
+  'Textiles & Fashion': ['textiles', 'fashion', 'apparel', 'garments'],
+  'Environmental Services': ['environmental', 'environment', 'waste', 'recycling', 'climate'],
+  'Security Services': ['security'],
+  'Other': [],
+};
+
+// Sector lists that take any industry
+const OPEN_SECTOR_PHRASES = ['sector agnostic', 'all sectors', 'any sector', 'multi sector'];
+
+const normalize = (value: string) => ` ${value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const mentions = (text: string, phrase: string) => text.includes(normalize(phrase));
+
+// 'agriculture', 'finance', 'Information Technology' -> taxonomy entry
+export function canonicalIndustry(value: string | null | undefined): Industry | null {
+  if (!value?.trim()) return null;
+  const text = normalize(value);
+  return industries.find((i) => normalize(i) === text)
+    || industries.find((i) => INDUSTRY_KEYWORDS[i].some((k) => mentions(text, k)))
+    || null;
+}
+
+// 1 when `values` name the industry, 0.6 when they are open to any sector,
+// 0 otherwise
+export function industryFit(values: (string | null | undefined)[], industry: Industry): number {
+  const text = normalize(values.filter((v): v is string => typeof v === 'string').join(' | '));
+  if (mentions(text, industry) || INDUSTRY_KEYWORDS[industry].some((k) => mentions(text, k))) return 1;
+  if (OPEN_SECTOR_PHRASES.some((p) => mentions(text, p))) return 0.6;
+  return 0;
+}
+
+export function industryRecommendations(
+  request: IndustryMatchRequest,
+  industry: Industry,
+  matches: IndustryMatchResult['matches'],
+): IndustryRecommendations {
+  const { freelancers, funding, partnerships } = matches;
+  const topFunding = funding[0];
+  const topPartner = partnerships[0];
+  const topFreelancer = freelancers[0];
+
+  let priority: string;
+  switch (request.userType) {
+    case 'entrepreneur':
+      priority = topFunding ? 'Secure funding' : topPartner ? 'Build partnerships' : 'Complete your business profile';
+      break;
+    case 'investor':
+      priority = topPartner ? `Review ${industry} businesses` : 'Broaden your sector focus';
+      break;
+    case 'freelancer':
+      priority = topPartner ? `Pitch to ${industry} businesses` : 'Showcase your sector experience';
+      break;
+    default:
+      priority = topPartner ? 'Reach out to partners' : 'Publish your partnership offer';
+  }
+
+  const steps = [
+    topFunding && `Check the eligibility criteria for ${topFunding.label}.`,
+    topPartner && `Contact ${topPartner.label}.`,
+    topFreelancer && request.userType !== 'freelancer' && `Shortlist ${topFreelancer.label} for sector expertise.`,
+  ].filter((s): s is string => !!s);
+
+  const deadlines = funding.map((f) => f.deadline).filter((d): d is string => !!d).sort();
+
+  return {
+    priority,
+    nextSteps: steps.join(' ') || `Add ${industry} to your profile so matches can find you.`,
+    timeline: deadlines.length ? `First funding deadline: ${deadlines[0].slice(0, 10)}` : 'Start within the next 2-4 weeks',
+  };
+}
@@ -0,0 +1,83 @@
+// Thin client for the Lenco collections API, shared by lenco-payments (user
+// initiated checkouts) and subscription-renewals (scheduled renewal charges).
+
+export type MobileMoneyOperator = "mtn" | "airtel" | "zamtel";
+
+// Lenco's collections API lives under /access/v2. The old hardcoded /access/v1
+// path returns {"success":false,"message":"Not Found"}, which surfaced in the app
+// as "Edge function returned a non 2xx status code" when funding a wallet.
+//
+// In test mode (the payment_test_mode platform setting) calls go to Lenco's
+// sandbox, configured with LENCO_SANDBOX_BASE_URL and LENCO_SANDBOX_API_TOKEN.
+export function resolveLencoApiUrl(testMode = false): string {
+  const configured = testMode
+    ? Deno.env.get("LENCO_SANDBOX_BASE_URL") || "https://sandbox.lenco.co"
+    : Deno.env.get("LENCO_BASE_URL") || "https://api.lenco.co";
+  const raw = configured.replace(/\/+$/, "");
+  if (/\/access\/v\d+$/.test(raw)) return raw;
+  if (/\/access$/.test(raw)) return `${raw}/v2`;
+  return `${raw}/access/v2`;
+}
+
+export function resolveLencoApiToken(testMode = false): string | undefined {
+  return Deno.env.get(testMode ? "LENCO_SANDBOX_API_TOKEN" : "LENCO_API_TOKEN");
+}
+
+// Lenco expects a local Zambian MSISDN in 0XXXXXXXXX form.
+export function normalizeZambianPhone(phone: string): string {
+  return phone.replace(/[^\d]/g, "").replace(/^260/, "0").replace(/^(?!0)/, "0");
+}
+
+export interface MobileMoneyCollectionRequest {
+  amount: number;
+  currency: string;
+  reference: string;
+  phone: string;
+  operator: MobileMoneyOperator;
+  testMode?: boolean;
+}
+
+export interface MobileMoneyCollectionResult {
+  ok: boolean;
+  // 'otp-required' | 'pay-offline' | 'pending' | 'successful' | 'failed'
+  status?: string;
+  collectionId?: string;
+  // deno-lint-ignore no-explicit-any
+  raw: any;
+  error?: string;
+}
+
+export async function createMobileMoneyCollection(
+  request: MobileMoneyCollectionRequest,
+): Promise<MobileMoneyCollectionResult> {
+  const lencoResponse = await fetch(`${resolveLencoApiUrl(request.testMode)}/collections/mobile-money`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${resolveLencoApiToken(request.testMode)}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      amount: request.amount.toString(),
+      currency: request.currency,
+      reference: request.reference,
+      phone: normalizeZambianPhone(request.phone),
+      operator: request.operator,
+      country: "zm",
+      bearer: "merchant",
+    }),
+  });
+
+  const lencoData = await lencoResponse.json().catch(() => null);
+
+  // Lenco can answer HTTP 200 with { status: false, message } — treat that as a failure too.
+  if (!lencoResponse.ok || !lencoData || lencoData.status === false || !lencoData.data) {
+    return { ok: false, raw: lencoData, error: lencoData?.message };
+  }
+
+  return {
+    ok: true,
+    status: lencoData.data?.status,
+    collectionId: lencoData.data?.id,
+    raw: lencoData,
+  };
+}
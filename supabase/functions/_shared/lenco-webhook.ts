@@ -0,0 +1,302 @@
+// Lenco webhook handling shared by the public `lenco-webhook` endpoint and the
+// admin-only `lenco-webhook-replay` function.
+//
+// Every side effect below is idempotent: wallet movements carry an
+// idempotency key derived from the event id, escrow funding and subscription
+// activation are guarded in the database, and invoice/receipt numbers are
+// claimed once per transaction. That is what makes it safe for an admin to
+// replay an event whose first run failed half-way through.
+
+import { activateSubscriptionForTransaction } from "./subscription-activation.ts";
+import { fundOrderEscrowForTransaction } from "./order-escrow.ts";
+import { issueTransactionDocuments } from "./transaction-documents.ts";
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface LencoWebhookPayload {
+  event: string;
+  // deno-lint-ignore no-explicit-any
+  data: any;
+}
+
+export interface ProcessOptions {
+  // Replays re-run the downstream steps even when the transaction status was
+  // already updated by the failed first attempt
+  replay?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+// Compares every byte regardless of where the first mismatch is, so response
+// timing does not leak how much of a forged signature was correct. The length
+// of an HMAC digest is public, so returning early on a length mismatch is fine.
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.length !== bBytes.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i];
+  }
+  return diff === 0;
+}
+
+export async function verifyLencoSignature(secret: string, payload: string, signature: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-512" },
+      false,
+      ["sign"]
+    );
+
+    const signatureBuffer = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+
+    const computedSignature = Array.from(new Uint8Array(signatureBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+
+    return timingSafeEqual(signature.trim().toLowerCase(), computedSignature);
+  } catch {
+    return false;
+  }
+}
+
+export function lencoEventId(payload: LencoWebhookPayload): string {
+  const { event, data } = payload;
+  return data?.id || data?.reference || `${event}-${Date.now()}`;
+}
+
+// Throws when a step fails so the caller can record the error on the
+// webhook_events row and the event becomes eligible for replay.
+export async function processLencoEvent(
+  supabase: SupabaseClientLike,
+  payload: LencoWebhookPayload,
+  eventId: string,
+  options: ProcessOptions = {},
+): Promise<void> {
+  const { event, data } = payload;
+
+  const applyWallet = async (params: Record<string, unknown>, label: string) => {
+    const { data: result, error } = await supabase.rpc('apply_wallet_transaction', params);
+    if (error) throw new Error(`${label} failed: ${error.message}`);
+    if (result && result.success === false) throw new Error(`${label} failed: ${result.error}`);
+    return result;
+  };
+
+  switch (event) {
+    case 'transaction.successful': {
+      const { reference, id: lencoTransactionId } = data;
+
+      // Find transaction by reference
+      const { data: transaction, error: findError } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('lenco_reference', reference)
+        .single();
+
+      if (findError || !transaction) {
+        console.log(`Transaction not found for reference: ${reference}`);
+        break;
+      }
+
+      // Check if already processed (idempotency at transaction level)
+      if (transaction.status === 'successful' && !options.replay) {
+        console.log(`Transaction ${transaction.id} already successful, skipping`);
+        break;
+      }
+
+      if (transaction.status !== 'successful') {
+        const { error: updateError } = await supabase
+          .from('transactions')
+          .update({
+            status: 'successful',
+            lenco_transaction_id: lencoTransactionId,
+            metadata: {
+              ...transaction.metadata,
+              completed_at: new Date().toISOString(),
+              lenco_data: data
+            }
+          })
+          .eq('id', transaction.id);
+
+        if (updateError) throw new Error(`Transaction update failed: ${updateError.message}`);
+        transaction.status = 'successful';
+      }
+
+      // Use atomic wallet transaction function for deposits
+      if (transaction.transaction_type === 'deposit') {
+        const walletResult = await applyWallet({
+          p_user_id: transaction.user_id,
+          p_amount: transaction.amount,
+          p_currency: transaction.currency,
+          p_transaction_type: 'deposit',
+          p_description: 'Wallet top-up via Lenco',
+          p_idempotency_key: `lenco-${eventId}`,
+          p_provider: 'lenco',
+          p_provider_reference: reference,
+          p_metadata: { lenco_transaction_id: lencoTransactionId }
+        }, 'Wallet deposit');
+        console.log('Wallet transaction result:', walletResult);
+      }
+
+      // Service purchases tied to an order are held in escrow; the provider
+      // is only paid once the client accepts (see order-manager).
+      const escrow = await fundOrderEscrowForTransaction(supabase, transaction);
+      if (escrow.error) {
+        throw new Error(`Escrow funding failed: ${escrow.error}`);
+      }
+
+      // Legacy purchases without an order have nothing to hold against, so
+      // the recipient is still credited atomically
+      if (!escrow.applicable && transaction.transaction_type === 'service_purchase' && transaction.recipient_id) {
+        await applyWallet({
+          p_user_id: transaction.recipient_id,
+          p_amount: transaction.net_amount,
+          p_currency: transaction.currency,
+          p_transaction_type: 'service_payment',
+          p_description: 'Service payment received',
+          p_idempotency_key: `lenco-service-${eventId}`,
+          p_provider: 'lenco',
+          p_provider_reference: reference
+        }, 'Service credit');
+      }
+
+      // If this is a subscription payment, activate subscription (idempotent)
+      const activation = await activateSubscriptionForTransaction(supabase, transaction);
+      if (activation.error) {
+        throw new Error(`Subscription activation failed: ${activation.error}`);
+      }
+
+      // Invoice and receipt for the payer and provider
+      const issued = await issueTransactionDocuments(supabase, transaction);
+      if (issued.error) {
+        throw new Error(`Document issue failed: ${issued.error}`);
+      }
+
+      console.log(`Transaction ${transaction.id} marked as successful`);
+      break;
+    }
+
+    case 'transaction.failed': {
+      const { reference, reason } = data;
+
+      const { data: transaction } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('lenco_reference', reference)
+        .single();
+
+      if (transaction && transaction.status !== 'failed') {
+        await supabase
+          .from('transactions')
+          .update({
+            status: 'failed',
+            metadata: {
+              ...transaction.metadata,
+              failed_at: new Date().toISOString(),
+              failure_reason: reason
+            }
+          })
+          .eq('id', transaction.id);
+
+        console.log(`Transaction ${transaction.id} marked as failed: ${reason}`);
+      }
+      break;
+    }
+
+    case 'payout.successful': {
+      const { reference, id: lencoTransactionId } = data;
+
+      const { data: transaction } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('lenco_reference', reference)
+        .single();
+
+      if (transaction && transaction.status !== 'successful') {
+        await supabase
+          .from('transactions')
+          .update({
+            status: 'successful',
+            lenco_transaction_id: lencoTransactionId,
+            metadata: {
+              ...transaction.metadata,
+              payout_completed_at: new Date().toISOString()
+            }
+          })
+          .eq('id', transaction.id);
+
+        // Clear pending balance atomically
+        const pendingField = transaction.currency === 'USD' ? 'pending_balance_usd' : 'pending_balance_zmw';
+
+        const { data: account } = await supabase
+          .from('payment_accounts')
+          .select('*')
+          .eq('user_id', transaction.user_id)
+          .single();
+
+        if (account) {
+          await supabase
+            .from('payment_accounts')
+            .update({
+              [pendingField]: Math.max(0, account[pendingField] - transaction.amount)
+            })
+            .eq('user_id', transaction.user_id);
+        }
+
+        console.log(`Payout ${transaction.id} completed`);
+      }
+      break;
+    }
+
+    case 'payout.failed': {
+      const { reference, reason } = data;
+
+      const { data: transaction } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('lenco_reference', reference)
+        .single();
+
+      if (!transaction || (transaction.status === 'failed' && !options.replay)) {
+        break;
+      }
+
+      if (transaction.status !== 'failed') {
+        await supabase
+          .from('transactions')
+          .update({
+            status: 'failed',
+            metadata: {
+              ...transaction.metadata,
+              payout_failed_at: new Date().toISOString(),
+              failure_reason: reason
+            }
+          })
+          .eq('id', transaction.id);
+      }
+
+      // Return funds to available balance atomically using RPC
+      await applyWallet({
+        p_user_id: transaction.user_id,
+        p_amount: transaction.amount,
+        p_currency: transaction.currency,
+        p_transaction_type: 'refund',
+        p_description: 'Payout failed - funds returned',
+        p_idempotency_key: `lenco-payout-failed-${eventId}`,
+        p_provider: 'lenco',
+        p_provider_reference: reference
+      }, 'Payout refund');
+
+      console.log(`Payout ${transaction.id} failed, funds returned`);
+      break;
+    }
+
+    default:
+      console.log(`Unhandled webhook event: ${event}`);
+  }
+}
@@ -0,0 +1,123 @@
+// Request/response contracts of the `marketplace-manager` `search` action and
+// the mapping onto the `search_services` / `service_search_facets` database
+// functions.
+//
+// Pages are keyset-paginated: the cursor is the (sort_key, id) of the last
+// row of the previous page, so pages stay stable while services are added.
+
+import { createSearchPattern } from './search.ts';
+
+export const MARKETPLACE_SORTS = ['relevance', 'price_asc', 'price_desc', 'rating', 'newest', 'delivery'] as const;
+
+export type MarketplaceSort = typeof MARKETPLACE_SORTS[number];
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export interface MarketplaceSearchFilters {
+  category?: string | null;
+  providerType?: string | null;
+  location?: string | null;
+  minPrice?: number | null;
+  maxPrice?: number | null;
+}
+
+export interface MarketplaceSearchRequest {
+  query?: string | null;
+  filters?: MarketplaceSearchFilters | null;
+  sort?: MarketplaceSort | null;
+  cursor?: string | null;
+  limit?: number | null;
+}
+
+export interface MarketplaceService {
+  id: string;
+  title: string;
+  description: string | null;
+  provider: string;
+  providerId: string;
+  providerAvatar: string | null;
+  providerType: string;
+  category: string;
+  subcategory: string | null;
+  skills: string[];
+  location: string | null;
+  deliveryTime: string | null;
+  deliveryDays: number | null;
+  // Null until the service has been reviewed
+  rating: number | null;
+  reviews: number;
+  currency: string;
+  price: number;
+  minPrice: number | null;
+  maxPrice: number | null;
+  image: string | null;
+  // Full-text rank; 0 without a query
+  rank: number;
+}
+
+export interface MarketplaceFacets {
+  total: number;
+  category: Record<string, number>;
+  provider_type: Record<string, number>;
+  location: Record<string, number>;
+  price: { min: number | null; max: number | null };
+}
+
+export interface MarketplaceSearchResponse {
+  data: MarketplaceService[];
+  facets: MarketplaceFacets;
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+}
+
+interface SearchCursor {
+  key: string;
+  id: string;
+}
+
+// The cursor is tied to the sort it was issued for
+export function encodeSearchCursor(sort: MarketplaceSort, cursor: SearchCursor): string {
+  return btoa(JSON.stringify({ s: sort, k: cursor.key, i: cursor.id }));
+}
+
+export function decodeSearchCursor(sort: MarketplaceSort, value: string | null | undefined): SearchCursor | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(atob(value));
+    if (parsed?.s !== sort || typeof parsed.k !== 'string' || typeof parsed.i !== 'string') return null;
+    return { key: parsed.k, id: parsed.i };
+  } catch {
+    return null;
+  }
+}
+
+export const isMarketplaceSort = (value: unknown): value is MarketplaceSort =>
+  typeof value === 'string' && (MARKETPLACE_SORTS as readonly string[]).includes(value);
+
+const filterValue = (value: string | null | undefined) =>
+  value && value.trim() && value !== 'all' ? value.trim() : null;
+
+const priceValue = (value: number | null | undefined) =>
+  value != null && Number.isFinite(Number(value)) && Number(value) >= 0 ? Number(value) : null;
+
+// Arguments shared by `search_services` and `service_search_facets`
+export function searchFilterParams(request: MarketplaceSearchRequest) {
+  const query = request.query?.trim().slice(0, 200) || null;
+  const filters = request.filters || {};
+  const location = filterValue(filters.location);
+  return {
+    p_query: query,
+    p_pattern: query ? createSearchPattern(query) : null,
+    p_category: filterValue(filters.category),
+    p_provider_type: filterValue(filters.providerType),
+    p_location: location ? createSearchPattern(location) : null,
+    p_min_price: priceValue(filters.minPrice),
+    p_max_price: priceValue(filters.maxPrice),
+  };
+}
+
+export function searchLimit(limit: number | null | undefined): number {
+  const value = Math.floor(Number(limit) || DEFAULT_SEARCH_LIMIT);
+  return Math.min(Math.max(value, 1), MAX_SEARCH_LIMIT);
+}
@@ -0,0 +1,43 @@
+// Thread access and message rules for the messaging-system edge function.
+// It runs with the service role, so these checks stand in for the RLS
+// policies on conversations, conversation_participants and messages.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export const MAX_MESSAGE_LENGTH = 5000;
+
+// Throws unless `userId` belongs to the conversation
+export async function requireConversationParticipant(
+  supabase: SupabaseClientLike,
+  conversationId: string | undefined,
+  userId: string,
+): Promise<void> {
+  if (!conversationId) throw new Error('conversationId is required');
+
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select('conversation_id')
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('Not authorized for this conversation');
+}
+
+// The trimmed message body; throws when it is empty or too long
+export function messageBody(content: unknown): string {
+  const body = typeof content === 'string' ? content.trim() : '';
+  if (!body) throw new Error('Message content is required');
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(`Message exceeds ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  return body;
+}
+
+// Throws unless `recipientId` can be sent a new thread by `senderId`
+export function checkNewThreadRecipient(senderId: string, recipientId: string | undefined): void {
+  if (!recipientId) throw new Error('recipientId is required to start a conversation');
+  if (recipientId === senderId) throw new Error('You cannot message yourself');
+}
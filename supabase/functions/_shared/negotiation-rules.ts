@@ -0,0 +1,102 @@
+// State machine of a price negotiation, enforced by the `negotiation-manager`
+// edge function and read by PriceNegotiation to show whose turn it is.
+//
+// The listing price counts as the provider's opening offer, so a new
+// negotiation waits on the client. Parties then alternate: only the party
+// being waited on may counter or accept, and a counter hands the turn to the
+// other side. Either party may reject while the negotiation is open. Nothing
+// can happen once `expires_at` has passed; the expiry sweep then marks the
+// negotiation expired.
+//
+// The browser imports this through src/lib/negotiation, so keep it free of
+// Deno and browser globals.
+
+export type NegotiationStatus = 'pending' | 'countered' | 'accepted' | 'rejected' | 'expired';
+export type NegotiationParty = 'client' | 'provider';
+export type NegotiationAction = 'counter_offer' | 'accept' | 'reject';
+
+export const OPEN_NEGOTIATION_STATUSES: NegotiationStatus[] = ['pending', 'countered'];
+
+// How long the parties have to agree, from the moment the negotiation starts
+export const NEGOTIATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface NegotiationState {
+  status: string;
+  client_id: string;
+  provider_id: string;
+  current_price: number;
+  awaiting_party: string | null;
+  expires_at: string | null;
+}
+
+export function partyOf(negotiation: Pick<NegotiationState, 'client_id' | 'provider_id'>, userId: string): NegotiationParty | null {
+  if (negotiation.client_id === userId) return 'client';
+  if (negotiation.provider_id === userId) return 'provider';
+  return null;
+}
+
+export const otherParty = (party: NegotiationParty): NegotiationParty => (party === 'client' ? 'provider' : 'client');
+
+export function isNegotiationOpen(negotiation: Pick<NegotiationState, 'status'>): boolean {
+  return OPEN_NEGOTIATION_STATUSES.includes(negotiation.status as NegotiationStatus);
+}
+
+export function isNegotiationExpired(negotiation: Pick<NegotiationState, 'status' | 'expires_at'>, now = new Date()): boolean {
+  if (negotiation.status === 'expired') return true;
+  return !!negotiation.expires_at && new Date(negotiation.expires_at).getTime() <= now.getTime();
+}
+
+// The party expected to act next. Rows created before turns were tracked
+// have no awaiting_party; they are treated as waiting on the client.
+export function awaitingParty(negotiation: Pick<NegotiationState, 'awaiting_party'>): NegotiationParty {
+  return negotiation.awaiting_party === 'provider' ? 'provider' : 'client';
+}
+
+// Why `userId` may not take `action` now, or null when they may.
+// `floorPrice` is the provider's lowest acceptable price for the service.
+export function checkNegotiationAction(
+  negotiation: NegotiationState,
+  userId: string,
+  action: NegotiationAction,
+  options: { proposedPrice?: number; floorPrice?: number | null; now?: Date } = {},
+): string | null {
+  const party = partyOf(negotiation, userId);
+  if (!party) return 'Not authorized for this negotiation';
+
+  if (!isNegotiationOpen(negotiation)) {
+    return negotiation.status === 'expired' ? 'This negotiation has expired' : `This negotiation is already ${negotiation.status}`;
+  }
+  if (isNegotiationExpired(negotiation, options.now)) return 'This negotiation has expired';
+
+  if (action === 'reject') return null;
+
+  if (awaitingParty(negotiation) !== party) {
+    return `Waiting for the ${otherParty(party)} to respond`;
+  }
+
+  if (action === 'counter_offer') {
+    const price = options.proposedPrice;
+    if (price === undefined || !Number.isFinite(price) || price <= 0) return 'Enter a valid price';
+    if (price === Number(negotiation.current_price)) return 'Your offer is the same as the current price; accept it instead';
+    if (party === 'client' && options.floorPrice != null && price < Number(options.floorPrice)) {
+      return 'This offer is below the lowest price the provider accepts for this service';
+    }
+  }
+
+  return null;
+}
+
+// '2d 4h', '3h 12m', '8m' -- time left before `expiresAt`, or null when it
+// has passed
+export function formatTimeRemaining(expiresAt: string | null, now = new Date()): string | null {
+  if (!expiresAt) return null;
+  const ms = new Date(expiresAt).getTime() - now.getTime();
+  if (ms <= 0) return null;
+
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${Math.max(minutes, 1)}m`;
+}
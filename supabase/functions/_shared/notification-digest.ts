@@ -0,0 +1,162 @@
+// Daily and weekly digest emails for users whose notification_preferences
+// frequency is not 'instant'. The notification router holds their per-event
+// emails back (see notification-router.ts); the digest sums up what they
+// missed since the previous one:
+//   - unread in-app notifications
+//   - new funding matches scoring at least DIGEST_MIN_MATCH_SCORE
+//   - new SME <-> professional matches, from either side
+//   - deadlines in the next DIGEST_DEADLINE_DAYS days on opportunities they
+//     matched or have an unsubmitted application for
+//
+// Digests go out at DIGEST_HOUR_UTC, weekly ones on Mondays. digestSlot()
+// gives the latest send time that has passed, so a run that is late or
+// repeated sends each user at most one digest per slot.
+//
+// Server only: used by the notification-digests function.
+
+import type { DigestItem } from './email-templates.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export type DigestSkipReason = 'no_email' | 'suppressed' | 'unsubscribed' | 'empty';
+
+export interface DigestContent {
+  unread: DigestItem[];
+  unreadTotal: number;
+  fundingMatches: DigestItem[];
+  professionalMatches: DigestItem[];
+  deadlines: DigestItem[];
+}
+
+// 08:00 in Lusaka
+export const DIGEST_HOUR_UTC = 6;
+export const DIGEST_MIN_MATCH_SCORE = 70;
+export const DIGEST_DEADLINE_DAYS = 7;
+const ITEMS_PER_SECTION = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DIGEST_PERIOD_DAYS: Record<DigestFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+export function digestSlot(frequency: DigestFrequency, now: Date = new Date()): Date {
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DIGEST_HOUR_UTC));
+  if (slot > now) slot.setUTCDate(slot.getUTCDate() - 1);
+  if (frequency === 'weekly') {
+    // Back to Monday
+    slot.setUTCDate(slot.getUTCDate() - ((slot.getUTCDay() + 6) % 7));
+  }
+  return slot;
+}
+
+export const digestIsEmpty = (content: DigestContent) =>
+  content.unreadTotal === 0 &&
+  content.fundingMatches.length === 0 &&
+  content.professionalMatches.length === 0 &&
+  content.deadlines.length === 0;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', timeZone: 'Africa/Lusaka' });
+
+export async function loadDigestContent(
+  supabase: SupabaseClientLike,
+  userId: string,
+  since: Date,
+  now: Date = new Date(),
+): Promise<DigestContent> {
+  const sinceIso = since.toISOString();
+
+  const [unread, fundingMatches, professionalMatches, matchedFunding, draftApplications] = await Promise.all([
+    supabase
+      .from('notifications')
+      .select('title, body', { count: 'exact' })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .gt('created_at', sinceIso)
+      .order('created_at', { ascending: false })
+      .limit(ITEMS_PER_SECTION),
+    supabase
+      .from('funding_matches')
+      .select('match_score, funding:funding_opportunities(title, organization, deadline)')
+      .eq('sme_id', userId)
+      .gte('match_score', DIGEST_MIN_MATCH_SCORE)
+      .gt('created_at', sinceIso)
+      .order('match_score', { ascending: false })
+      .limit(ITEMS_PER_SECTION),
+    supabase
+      .from('sme_professional_matches')
+      .select('sme_id, professional_id, match_score, recommended_scope')
+      .or(`sme_id.eq.${userId},professional_id.eq.${userId}`)
+      .gt('created_at', sinceIso)
+      .order('match_score', { ascending: false })
+      .limit(ITEMS_PER_SECTION),
+    supabase.from('funding_matches').select('funding_id').eq('sme_id', userId).limit(200),
+    supabase.from('funding_applications').select('opportunity_id').eq('user_id', userId).is('submitted_at', null),
+  ]);
+
+  for (const result of [unread, fundingMatches, professionalMatches, matchedFunding, draftApplications]) {
+    if (result.error) throw result.error;
+  }
+
+  // Name the other side of each professional match
+  const counterpartIds = (professionalMatches.data || []).map((m: { sme_id: string; professional_id: string }) =>
+    m.sme_id === userId ? m.professional_id : m.sme_id
+  );
+  const names = new Map<string, string>();
+  if (counterpartIds.length) {
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, full_name, business_name')
+      .in('id', counterpartIds);
+    for (const p of profiles || []) names.set(p.id, p.business_name || p.full_name || 'A WATHACI member');
+  }
+
+  const opportunityIds = [
+    ...new Set<string>([
+      ...(matchedFunding.data || []).map((m: { funding_id: string }) => m.funding_id),
+      ...(draftApplications.data || []).map((a: { opportunity_id: string }) => a.opportunity_id),
+    ]),
+  ];
+  let deadlines: DigestItem[] = [];
+  if (opportunityIds.length) {
+    const { data, error } = await supabase
+      .from('funding_opportunities')
+      .select('title, organization, deadline')
+      .in('id', opportunityIds)
+      .eq('is_active', true)
+      .gte('deadline', now.toISOString())
+      .lte('deadline', new Date(now.getTime() + DIGEST_DEADLINE_DAYS * DAY_MS).toISOString())
+      .order('deadline', { ascending: true })
+      .limit(ITEMS_PER_SECTION);
+    if (error) throw error;
+    deadlines = (data || []).map((o: { title: string; organization: string; deadline: string }) => ({
+      title: o.title,
+      detail: `${o.organization} - closes ${formatDate(o.deadline)}`,
+    }));
+  }
+
+  return {
+    unread: (unread.data || []).map((n: { title: string; body: string }) => ({ title: n.title, detail: n.body })),
+    unreadTotal: unread.count ?? 0,
+    fundingMatches: (fundingMatches.data || [])
+      .filter((m: { funding: unknown }) => m.funding)
+      .map((m: { match_score: number; funding: { title: string; organization: string } }) => ({
+        title: m.funding.title,
+        detail: `${m.funding.organization} - ${Math.round(Number(m.match_score))}% match`,
+      })),
+    professionalMatches: (professionalMatches.data || []).map(
+      (m: { sme_id: string; professional_id: string; match_score: number; recommended_scope: string | null }) => {
+        const other = m.sme_id === userId ? m.professional_id : m.sme_id;
+        return {
+          title: names.get(other) || 'A WATHACI member',
+          detail: [`${Math.round(Number(m.match_score))}% match`, m.recommended_scope].filter(Boolean).join(' - '),
+        };
+      },
+    ),
+    deadlines,
+  };
+}
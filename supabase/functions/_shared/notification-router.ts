@@ -0,0 +1,392 @@
+// Routes notification events to their channels: the in-app inbox
+// (`notifications`), email through the transactional queue, and Web Push.
+//
+// Each event kind has a notifications.type, the notification_preferences
+// column that can switch it off (none for orders and account mail, which the
+// user cannot opt out of) and the channels it uses by default. The in-app
+// inbox always gets the event; email and push are dropped when the user
+// opted out of the category or it is their quiet hours, and email also waits
+// for the digest unless frequency is 'instant'.
+//
+// Every routed event writes one notification_logs row listing the channels
+// it reached and the reason each other channel was skipped.
+//
+// Server only: email and push read their configuration from Deno.env.
+
+import { enqueueTemplatedEmail } from './transactional-email.ts';
+import { loadVapidKeys, pushMessageForNotification, sendToUser, type VapidKeys } from './web-push.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+export type NotificationType = 'funding' | 'match' | 'system' | 'message' | 'order';
+export type NotificationCategory = 'product_updates' | 'funding_alerts' | 'match_alerts' | 'messages';
+
+export type NotificationEventKind =
+  | 'message_received'
+  | 'negotiation_update'
+  | 'order_update'
+  | 'review_update'
+  | 'funding_opportunity'
+  | 'match_found'
+  | 'product_update'
+  | 'account';
+
+export type SkipReason =
+  | 'opted_out'
+  | 'quiet_hours'
+  | 'digest'
+  | 'no_email'
+  | 'suppressed'
+  | 'unsubscribed'
+  | 'no_device'
+  | 'not_configured'
+  | 'failed';
+
+export interface NotificationEvent {
+  kind: NotificationEventKind;
+  userId: string;
+  title: string;
+  body: string;
+  // In-app path the notification opens; defaults by type (see web-push.ts)
+  url?: string;
+  // The order, message or opportunity this is about, for notification_logs
+  relatedId?: string;
+  data?: Record<string, unknown>;
+  // Narrows the kind's default channels
+  channels?: NotificationChannel[];
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  // 'HH:MM', local to `timezone`; may wrap past midnight
+  start?: string;
+  end?: string;
+  timezone?: string;
+}
+
+export interface NotificationPreferences {
+  product_updates: boolean;
+  funding_alerts: boolean;
+  match_alerts: boolean;
+  messages: boolean;
+  frequency: 'instant' | 'daily' | 'weekly';
+  quiet_hours: QuietHours;
+}
+
+export interface DeliveryPlan {
+  channels: NotificationChannel[];
+  skipped: Partial<Record<NotificationChannel, SkipReason>>;
+}
+
+export interface RouteResult extends DeliveryPlan {
+  notificationId: string | null;
+  pushSent: number;
+  emailMessageId: string | null;
+}
+
+interface EventDefinition {
+  type: NotificationType;
+  category: NotificationCategory | null;
+  channels: NotificationChannel[];
+}
+
+const ALL_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+export const NOTIFICATION_EVENTS: Record<NotificationEventKind, EventDefinition> = {
+  message_received: { type: 'message', category: 'messages', channels: ALL_CHANNELS },
+  negotiation_update: { type: 'message', category: 'messages', channels: ALL_CHANNELS },
+  order_update: { type: 'order', category: null, channels: ALL_CHANNELS },
+  review_update: { type: 'order', category: null, channels: ['in_app', 'push'] },
+  funding_opportunity: { type: 'funding', category: 'funding_alerts', channels: ALL_CHANNELS },
+  match_found: { type: 'match', category: 'match_alerts', channels: ALL_CHANNELS },
+  product_update: { type: 'system', category: 'product_updates', channels: ['in_app', 'email'] },
+  account: { type: 'system', category: null, channels: ['in_app', 'email'] },
+};
+
+// For notifications other code inserted directly, which carry only a type
+const TYPE_CATEGORIES: Record<string, NotificationCategory | null> = {
+  message: 'messages',
+  funding: 'funding_alerts',
+  match: 'match_alerts',
+  order: null,
+  system: null,
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  product_updates: true,
+  funding_alerts: true,
+  match_alerts: true,
+  messages: true,
+  frequency: 'instant',
+  quiet_hours: { enabled: false },
+};
+
+const DEFAULT_TIMEZONE = 'Africa/Lusaka';
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toMinutes = (value: string | undefined) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+const localMinutes = (at: Date, timezone: string) => {
+  const format = (timeZone: string) =>
+    new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(at);
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = format(timezone);
+  } catch {
+    // Unknown IANA name
+    parts = format(DEFAULT_TIMEZONE);
+  }
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return part('hour') * 60 + part('minute');
+};
+
+export function isQuietTime(quietHours: QuietHours | null | undefined, at: Date = new Date()): boolean {
+  if (!quietHours?.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = localMinutes(at, quietHours.timezone || DEFAULT_TIMEZONE);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// Which of `channels` an event in `category` may use right now
+export function planDelivery(
+  channels: NotificationChannel[],
+  category: NotificationCategory | null,
+  preferences: NotificationPreferences,
+  at: Date = new Date(),
+): DeliveryPlan {
+  const plan: DeliveryPlan = { channels: [], skipped: {} };
+  const quiet = isQuietTime(preferences.quiet_hours, at);
+
+  for (const channel of channels) {
+    if (channel === 'in_app') {
+      plan.channels.push(channel);
+    } else if (category && preferences[category] === false) {
+      plan.skipped[channel] = 'opted_out';
+    } else if (channel === 'email' && preferences.frequency !== 'instant') {
+      plan.skipped[channel] = 'digest';
+    } else if (quiet) {
+      plan.skipped[channel] = 'quiet_hours';
+    } else {
+      plan.channels.push(channel);
+    }
+  }
+
+  return plan;
+}
+
+export async function loadNotificationPreferences(
+  supabase: SupabaseClientLike,
+  userId: string,
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('product_updates, funding_alerts, match_alerts, messages, frequency, quiet_hours')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  return {
+    product_updates: data.product_updates ?? true,
+    funding_alerts: data.funding_alerts ?? true,
+    match_alerts: data.match_alerts ?? true,
+    messages: data.messages ?? true,
+    frequency: data.frequency ?? 'instant',
+    quiet_hours: data.quiet_hours ?? { enabled: false },
+  };
+}
+
+// Moves `channel` from the delivered channels to the skipped ones
+const skip = (result: DeliveryPlan, channel: NotificationChannel, reason: SkipReason) => {
+  result.channels = result.channels.filter((c) => c !== channel);
+  result.skipped[channel] = reason;
+};
+
+// Sends to the user's devices; returns how many received it
+async function deliverPush(
+  supabase: SupabaseClientLike,
+  userId: string,
+  notification: { id: string; title: string; body: string; type: string; data?: Record<string, unknown> | null },
+  result: DeliveryPlan,
+  vapid: VapidKeys | null,
+): Promise<number> {
+  const drop = (reason: SkipReason) => skip(result, 'push', reason);
+
+  if (!vapid) {
+    drop('not_configured');
+    return 0;
+  }
+
+  try {
+    const summary = await sendToUser(supabase, userId, pushMessageForNotification(notification), vapid);
+    if (summary.sent === 0) drop(summary.failed > 0 ? 'failed' : 'no_device');
+    return summary.sent;
+  } catch (error) {
+    console.error('Push delivery failed:', error);
+    drop('failed');
+    return 0;
+  }
+}
+
+async function writeLog(
+  supabase: SupabaseClientLike,
+  entry: {
+    userId: string;
+    type: string;
+    event: NotificationEventKind | null;
+    title: string;
+    body: string;
+    relatedId?: string;
+    result: RouteResult;
+  },
+) {
+  const { result } = entry;
+  const { error } = await supabase.from('notification_logs').insert({
+    user_id: entry.userId,
+    notification_type: entry.type,
+    event: entry.event,
+    title: entry.title,
+    message: entry.body,
+    notification_id: result.notificationId,
+    channels: result.channels,
+    skipped: result.skipped,
+    push_sent: result.pushSent,
+    email_sent: result.channels.includes('email'),
+    email_message_id: result.emailMessageId,
+    related_id: entry.relatedId && UUID_RE.test(entry.relatedId) ? entry.relatedId : null,
+    sent_at: result.channels.length ? new Date().toISOString() : null,
+  });
+  if (error) console.error('Notification log error:', error);
+}
+
+export async function routeNotification(
+  supabase: SupabaseClientLike,
+  event: NotificationEvent,
+  vapid: VapidKeys | null = loadVapidKeys(),
+): Promise<RouteResult> {
+  const definition = NOTIFICATION_EVENTS[event.kind];
+  if (!definition) throw new Error(`Unknown notification event: ${event.kind}`);
+
+  const requested = event.channels
+    ? definition.channels.filter((channel) => event.channels!.includes(channel))
+    : definition.channels;
+  const preferences = await loadNotificationPreferences(supabase, event.userId);
+  const result: RouteResult = {
+    ...planDelivery(requested, definition.category, preferences),
+    notificationId: null,
+    pushSent: 0,
+    emailMessageId: null,
+  };
+
+  const data = { ...(event.data || {}), ...(event.url ? { url: event.url } : {}), event: event.kind };
+  const notification = { id: crypto.randomUUID(), title: event.title, body: event.body, type: definition.type, data };
+
+  if (result.channels.includes('in_app')) {
+    // pushed_at is set up front: this function does the pushing, not the
+    // notifications insert trigger
+    const { error } = await supabase.from('notifications').insert({
+      ...notification,
+      user_id: event.userId,
+      pushed_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+    result.notificationId = notification.id;
+  }
+
+  if (result.channels.includes('push')) {
+    result.pushSent = await deliverPush(supabase, event.userId, notification, result, vapid);
+  }
+
+  if (result.channels.includes('email')) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', event.userId)
+      .maybeSingle();
+
+    if (!profile?.email) {
+      skip(result, 'email', 'no_email');
+    } else {
+      const path = event.url || pushMessageForNotification(notification).url || '/';
+      const queued = await enqueueTemplatedEmail(supabase, {
+        to: profile.email,
+        template: 'notification',
+        variables: { title: event.title, body: event.body, path },
+        idempotencyKey: `notification:${notification.id}`,
+      });
+      if (queued.queued) {
+        result.emailMessageId = queued.messageId;
+      } else {
+        skip(result, 'email', queued.skipped ?? 'failed');
+      }
+    }
+  }
+
+  await writeLog(supabase, {
+    userId: event.userId,
+    type: definition.type,
+    event: event.kind,
+    title: event.title,
+    body: event.body,
+    relatedId: event.relatedId,
+    result,
+  });
+
+  return result;
+}
+
+// Pushes a notification some other code inserted straight into
+// `notifications`, if the recipient's preferences allow it. pushed_at is
+// stamped first, so a repeated dispatch of the same row does nothing and
+// returns null.
+export async function routeStoredNotification(
+  supabase: SupabaseClientLike,
+  notificationId: string,
+  vapid: VapidKeys | null = loadVapidKeys(),
+): Promise<RouteResult | null> {
+  const { data: notification, error } = await supabase
+    .from('notifications')
+    .update({ pushed_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .is('pushed_at', null)
+    .select('id, user_id, title, body, type, data')
+    .maybeSingle();
+  if (error) throw error;
+  if (!notification) return null;
+
+  const preferences = await loadNotificationPreferences(supabase, notification.user_id);
+  const result: RouteResult = {
+    ...planDelivery(['in_app', 'push'], TYPE_CATEGORIES[notification.type] ?? null, preferences),
+    notificationId: notification.id,
+    pushSent: 0,
+    emailMessageId: null,
+  };
+
+  if (result.channels.includes('push')) {
+    result.pushSent = await deliverPush(supabase, notification.user_id, notification, result, vapid);
+  }
+
+  await writeLog(supabase, {
+    userId: notification.user_id,
+    type: notification.type,
+    event: null,
+    title: notification.title,
+    body: notification.body,
+    relatedId: notification.data?.order_id || notification.data?.negotiation_id || notification.data?.conversation_id,
+    result,
+  });
+
+  return result;
+}
@@ -0,0 +1,100 @@
+// Profile taxonomies shared by the onboarding forms and the matchers that
+// rank profiles against them (`freelancer-matcher`, `industry-matcher`).
+//
+// The browser imports these through src/data/onboardingOptions, so keep this
+// module free of Deno and browser globals.
+
+export const industries = [
+  'Agriculture & Agribusiness',
+  'Mining & Extractives',
+  'Manufacturing',
+  'Construction & Real Estate',
+  'Retail & Wholesale Trade',
+  'Transportation & Logistics',
+  'Information Technology',
+  'Financial Services',
+  'Healthcare & Pharmaceuticals',
+  'Education & Training',
+  'Tourism & Hospitality',
+  'Energy & Utilities',
+  'Telecommunications',
+  'Professional Services',
+  'Media & Entertainment',
+  'Food & Beverage',
+  'Textiles & Fashion',
+  'Environmental Services',
+  'Security Services',
+  'Other'
+] as const;
+
+// Freelancer options
+export const freelancerSkills = [
+  'Accounting & Finance',
+  'Legal Services',
+  'IT & Software Development',
+  'Web Design & Development',
+  'Graphic Design',
+  'Digital Marketing',
+  'Content Writing',
+  'Translation Services',
+  'Video Production',
+  'Photography',
+  'Project Management',
+  'Human Resources',
+  'Business Consulting',
+  'Tax Advisory',
+  'Audit Services',
+  'Architecture',
+  'Engineering',
+  'Research & Analysis',
+  'Data Entry',
+  'Virtual Assistance',
+  'Social Media Management',
+  'SEO/SEM',
+  'Mobile App Development',
+  'Cybersecurity',
+  'Cloud Services'
+] as const;
+
+export const experienceLevels = [
+  { value: 'junior', label: 'Junior', description: '0-2 years experience' },
+  { value: 'mid', label: 'Mid-Level', description: '3-5 years experience' },
+  { value: 'senior', label: 'Senior', description: '6-10 years experience' },
+  { value: 'expert', label: 'Expert', description: '10+ years experience' }
+] as const;
+
+export const availabilityOptions = [
+  { value: 'available', label: 'Available', description: 'Ready for new projects' },
+  { value: 'limited', label: 'Limited', description: 'Partially available' },
+  { value: 'unavailable', label: 'Unavailable', description: 'Not taking new work' }
+] as const;
+
+export const rateTypes = [
+  { value: 'hourly', label: 'Hourly Rate' },
+  { value: 'daily', label: 'Daily Rate' },
+  { value: 'project', label: 'Project-based' }
+] as const;
+
+export const rateRanges = {
+  hourly: [
+    'K50 - K150/hr',
+    'K150 - K300/hr',
+    'K300 - K500/hr',
+    'K500 - K1,000/hr',
+    'K1,000+/hr'
+  ],
+  daily: [
+    'K500 - K1,500/day',
+    'K1,500 - K3,000/day',
+    'K3,000 - K5,000/day',
+    'K5,000 - K10,000/day',
+    'K10,000+/day'
+  ],
+  project: [
+    'K1,000 - K5,000',
+    'K5,000 - K20,000',
+    'K20,000 - K50,000',
+    'K50,000 - K100,000',
+    'K100,000+'
+  ]
+} as const;
@@ -0,0 +1,63 @@
+// Shared, idempotent escrow funding used by both the Lenco webhook (primary
+// path) and the manual `verify` action in lenco-payments (safety net).
+//
+// Given a successful service_purchase transaction that references an order
+// (or one milestone of it), move the order or milestone to 'funded' and record
+// the amount held in escrow. Nothing is credited to the provider here —
+// release happens later through settle_order_escrow / settle_milestone_escrow
+// once the client accepts or the auto-accept window lapses. The fund_*
+// functions only act on unfunded rows, so a second call (webhook + manual
+// verify arriving close together) is a no-op.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface EscrowableTransaction {
+  id?: string;
+  transaction_type?: string | null;
+  order_id?: string | null;
+  milestone_id?: string | null;
+}
+
+export interface EscrowFundingResult {
+  applicable: boolean;
+  funded: boolean;
+  alreadyFunded: boolean;
+  error?: string;
+}
+
+export async function fundOrderEscrowForTransaction(
+  supabase: SupabaseClientLike,
+  transaction: EscrowableTransaction,
+): Promise<EscrowFundingResult> {
+  if (transaction?.transaction_type !== 'service_purchase' || !transaction?.order_id || !transaction?.id) {
+    return { applicable: false, funded: false, alreadyFunded: false };
+  }
+
+  const target = transaction.milestone_id ? `Milestone ${transaction.milestone_id}` : `Order ${transaction.order_id}`;
+  const { data, error } = transaction.milestone_id
+    ? await supabase.rpc('fund_milestone_escrow', {
+        p_milestone_id: transaction.milestone_id,
+        p_transaction_id: transaction.id,
+      })
+    : await supabase.rpc('fund_order_escrow', {
+        p_order_id: transaction.order_id,
+        p_transaction_id: transaction.id,
+      });
+
+  if (error || !data?.success) {
+    const message = error?.message || data?.error || 'Unknown error';
+    console.error('Escrow funding error:', message);
+    return { applicable: true, funded: false, alreadyFunded: false, error: message };
+  }
+
+  const alreadyFunded = data.idempotent === true;
+
+  if (alreadyFunded) {
+    console.log(`${target} already funded — no change`);
+  } else {
+    console.log(`${target} funded, ${data.escrow_amount} held in escrow`);
+  }
+
+  return { applicable: true, funded: !alreadyFunded, alreadyFunded };
+}
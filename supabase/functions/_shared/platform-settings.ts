@@ -0,0 +1,121 @@
+// Platform-wide switches from the `platform_settings` table, changed by
+// admins in /admin/settings through `admin_update_platform_setting`.
+//
+// Every key has a fixed shape. A missing row or a value of the wrong shape
+// reads as the default below, so a bad write can't take the platform down.
+// Edge functions use loadPlatformSettings() and checkMaintenance() to
+// enforce them; the browser reads them through usePlatformSettings.
+//
+// The browser imports this through src/lib/platform-settings, so keep it free
+// of Deno and browser globals.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+// Rates used when no fee override is set
+export const DEFAULT_ORDER_FEE_PERCENT = 3;
+export const DEFAULT_FALLBACK_FEE_PERCENT = 5;
+
+export interface FeeOverrides {
+  // Fee on negotiated orders when no order fee tier matches, in percent of
+  // the agreed price
+  order_fee_percent: number | null;
+  // Fee when no platform_fee_tiers row matches a payment
+  default_fee_percent: number | null;
+}
+
+export interface PlatformSettings {
+  maintenance_mode: boolean;
+  signup_enabled: boolean;
+  payment_test_mode: boolean;
+  ai_features_enabled: boolean;
+  fee_overrides: FeeOverrides;
+}
+
+export type PlatformSettingKey = keyof PlatformSettings;
+
+export const DEFAULT_PLATFORM_SETTINGS: PlatformSettings = {
+  maintenance_mode: false,
+  signup_enabled: true,
+  payment_test_mode: false,
+  ai_features_enabled: true,
+  fee_overrides: { order_fee_percent: null, default_fee_percent: null },
+};
+
+export const PLATFORM_SETTING_KEYS = Object.keys(DEFAULT_PLATFORM_SETTINGS) as PlatformSettingKey[];
+
+export const MAINTENANCE_MESSAGE = 'The platform is down for maintenance. Please try again shortly.';
+export const AI_DISABLED_MESSAGE = 'AI features are turned off';
+
+const isPercent = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 50;
+
+const readFeeOverrides = (value: unknown): FeeOverrides => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    order_fee_percent: isPercent(raw.order_fee_percent) ? raw.order_fee_percent : null,
+    default_fee_percent: isPercent(raw.default_fee_percent) ? raw.default_fee_percent : null,
+  };
+};
+
+export function parsePlatformSettings(rows: { key: string; value: unknown }[]): PlatformSettings {
+  const settings: PlatformSettings = {
+    ...DEFAULT_PLATFORM_SETTINGS,
+    fee_overrides: { ...DEFAULT_PLATFORM_SETTINGS.fee_overrides },
+  };
+  for (const { key, value } of rows) {
+    if (key === 'fee_overrides') {
+      settings.fee_overrides = readFeeOverrides(value);
+    } else if (key in settings && typeof value === 'boolean') {
+      (settings as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  return settings;
+}
+
+// Returns why `value` can't be stored under `key`, or null when it can.
+// Mirrors the checks in admin_update_platform_setting.
+export function checkPlatformSetting(key: string, value: unknown): string | null {
+  if (!(PLATFORM_SETTING_KEYS as string[]).includes(key)) return 'Unknown setting';
+  if (key !== 'fee_overrides') {
+    return typeof value === 'boolean' ? null : `${key} must be true or false`;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Fee overrides take order_fee_percent and default_fee_percent';
+  }
+  for (const [field, percent] of Object.entries(value)) {
+    if (field !== 'order_fee_percent' && field !== 'default_fee_percent') {
+      return 'Fee overrides take order_fee_percent and default_fee_percent';
+    }
+    if (percent !== null && !isPercent(percent)) return `${field} must be a percentage from 0 to 50`;
+  }
+  return null;
+}
+
+export async function loadPlatformSettings(supabase: SupabaseClientLike): Promise<PlatformSettings> {
+  const { data, error } = await supabase.from('platform_settings').select('key, value');
+  if (error) throw error;
+  return parsePlatformSettings(data || []);
+}
+
+export const orderFeePercent = (settings: PlatformSettings) =>
+  settings.fee_overrides.order_fee_percent ?? DEFAULT_ORDER_FEE_PERCENT;
+
+export const fallbackFeePercent = (settings: PlatformSettings) =>
+  settings.fee_overrides.default_fee_percent ?? DEFAULT_FALLBACK_FEE_PERCENT;
+
+// The message to refuse a change with while in maintenance, or null when the
+// user may go ahead. Admins keep working so they can fix things.
+export async function checkMaintenance(
+  supabase: SupabaseClientLike,
+  userId: string | null | undefined,
+  settings?: PlatformSettings,
+): Promise<string | null> {
+  const current = settings ?? await loadPlatformSettings(supabase);
+  if (!current.maintenance_mode) return null;
+  if (userId) {
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+    if (isAdmin) return null;
+  }
+  return MAINTENANCE_MESSAGE;
+}
@@ -0,0 +1,377 @@
+// Request/response contracts of the `ai-professional-matcher` edge function
+// and the deterministic ranking it falls back on.
+//
+// The browser imports the types through src/lib/professional-matcher, so keep
+// this module free of Deno and browser globals. Every result the function
+// returns points at a real `services` row or directory profile: the model
+// only re-orders candidates ranked here and explains the order; it never
+// invents listings.
+
+export type MatcherType =
+  | 'pricing_analysis'
+  | 'marketplace_assistant'
+  | 'marketplace_recommendations'
+  | 'personalized_recommendations'
+  | 'marketplace_search'
+  | 'gap_match';
+
+// Where a response came from: 'ai' when the model ranked or wrote it,
+// 'fallback' when the deterministic ranking was used
+export type MatcherSource = 'ai' | 'fallback';
+
+export interface MatcherUserProfile {
+  account_type?: string | null;
+  business_name?: string | null;
+  industry_sector?: string | null;
+  preferred_sectors?: string[] | null;
+  city?: string | null;
+  skills?: string[] | null;
+}
+
+export interface PricingAnalysisRequest {
+  type: 'pricing_analysis';
+  productType?: 'product' | 'service';
+  category?: string;
+  description: string;
+  location?: string;
+}
+
+export interface MarketplaceAssistantRequest {
+  type: 'marketplace_assistant';
+  message: string;
+  // Where the assistant was opened; other fields the client sends are ignored
+  context?: { page?: string; userQuery?: string };
+  conversationHistory?: { type: 'user' | 'assistant'; content: string }[];
+}
+
+export interface RecommendationsRequest {
+  type: 'marketplace_recommendations' | 'personalized_recommendations';
+  userProfile?: MatcherUserProfile | null;
+  searchHistory?: string[];
+  recommendationType?: string;
+  userId?: string;
+}
+
+export interface MarketplaceSearchRequest {
+  type: 'marketplace_search';
+  query: string;
+  filters?: string[];
+  userId?: string;
+}
+
+// GapMatcher predates the `type` field and sends only the gaps
+export interface GapMatchRequest {
+  type?: 'gap_match';
+  gaps: string[];
+  smeId?: string;
+}
+
+export type MatcherRequest =
+  | PricingAnalysisRequest
+  | MarketplaceAssistantRequest
+  | RecommendationsRequest
+  | MarketplaceSearchRequest
+  | GapMatchRequest;
+
+export interface Recommendation {
+  id: string;
+  type: 'product' | 'service' | 'professional';
+  title: string;
+  description: string;
+  price: number;
+  currency: string;
+  rating: number;
+  image: string;
+  reason: string;
+  confidence: number;
+  provider?: string;
+  category?: string;
+  tags?: string[];
+}
+
+export interface PricingSuggestion {
+  suggestedPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  marketAverage: number;
+  confidence: number;
+  factors: string[];
+  reasoning: string;
+}
+
+export interface MarketData {
+  averagePrice: number;
+  priceRange: { min: number; max: number };
+  competitorCount: number;
+}
+
+export interface ProfessionalMatch {
+  id: string;
+  full_name: string;
+  professional_title: string | null;
+  expertise_areas: string[];
+  city: string | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface PricingAnalysisResponse {
+  source: MatcherSource;
+  pricing: PricingSuggestion | null;
+  marketData: MarketData;
+}
+
+export interface MarketplaceAssistantResponse {
+  source: MatcherSource;
+  response: string;
+  suggestions: string[];
+  recommendations: Recommendation[];
+}
+
+export interface RecommendationsResponse {
+  source: MatcherSource;
+  recommendations: Recommendation[];
+}
+
+export interface MarketplaceSearchResponse {
+  source: MatcherSource;
+  recommendations: Recommendation[];
+  suggestions: string[];
+  insight: string;
+}
+
+export interface GapMatchResponse {
+  source: MatcherSource;
+  matches: ProfessionalMatch[];
+}
+
+export interface MatcherResponses {
+  pricing_analysis: PricingAnalysisResponse;
+  marketplace_assistant: MarketplaceAssistantResponse;
+  marketplace_recommendations: RecommendationsResponse;
+  personalized_recommendations: RecommendationsResponse;
+  marketplace_search: MarketplaceSearchResponse;
+  gap_match: GapMatchResponse;
+}
+
+// --------------------------------------------------------------------------
+// Candidates
+// --------------------------------------------------------------------------
+
+export interface ServiceCandidate {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string;
+  subcategory: string | null;
+  skills: string[] | null;
+  location: string | null;
+  price: number;
+  currency: string;
+  images: string[] | null;
+  is_featured: boolean | null;
+  orders_count: number | null;
+  provider_id: string;
+  provider_type: string | null;
+  provider_name?: string | null;
+  created_at: string;
+  // From service_reviews
+  review_average: number;
+  review_count: number;
+}
+
+export interface ProfessionalCandidate {
+  id: string;
+  full_name: string | null;
+  display_name: string | null;
+  professional_title: string | null;
+  primary_skills: string[] | null;
+  industry: string | null;
+  bio: string | null;
+  freelancer_services: string | null;
+  city: string | null;
+  experience_level: string | null;
+}
+
+export interface RankedService {
+  candidate: ServiceCandidate;
+  score: number;
+  matchedTerms: string[];
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'me', 'my',
+  'need', 'of', 'on', 'or', 'our', 'the', 'to', 'want', 'we', 'with', 'you', 'your', 'help', 'find', 'looking',
+]);
+
+export function tokenize(...values: (string | string[] | null | undefined)[]): string[] {
+  const words = values
+    .flatMap((v) => (Array.isArray(v) ? v : [v]))
+    .filter((v): v is string => typeof v === 'string')
+    .join(' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+  return [...new Set(words)];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Rating pulled towards the platform prior until a service has a few
+// reviews, so one 5-star review does not outrank fifty 4.8s
+const PRIOR_RATING = 3.5;
+const PRIOR_WEIGHT = 3;
+
+export function bayesianRating(average: number, count: number): number {
+  return (average * count + PRIOR_RATING * PRIOR_WEIGHT) / (count + PRIOR_WEIGHT);
+}
+
+// Relevance (term overlap) dominates; quality and popularity break ties.
+// Without terms, e.g. cold-start recommendations, only quality counts.
+export function scoreService(candidate: ServiceCandidate, terms: string[]): RankedService {
+  const text = new Set(tokenize(
+    candidate.title,
+    candidate.description,
+    candidate.category,
+    candidate.subcategory,
+    candidate.skills,
+  ));
+  const titleWords = new Set(tokenize(candidate.title, candidate.category));
+  const matchedTerms = terms.filter((t) => text.has(t));
+
+  const relevance = terms.length
+    ? (matchedTerms.length + matchedTerms.filter((t) => titleWords.has(t)).length * 0.5) / (terms.length * 1.5)
+    : 0;
+  const quality = bayesianRating(candidate.review_average, candidate.review_count) / 5;
+  const popularity = Math.min(Math.log10(1 + (candidate.orders_count || 0)) / 2, 1);
+  const featured = candidate.is_featured ? 0.05 : 0;
+
+  const score = terms.length
+    ? relevance * 0.7 + quality * 0.2 + popularity * 0.1 + featured
+    : quality * 0.7 + popularity * 0.3 + featured;
+
+  return { candidate, score: round2(Math.min(score, 1)), matchedTerms };
+}
+
+export function rankServices(candidates: ServiceCandidate[], terms: string[], limit = 10): RankedService[] {
+  return candidates
+    .map((c) => scoreService(c, terms))
+    .filter((r) => terms.length === 0 || r.matchedTerms.length > 0)
+    .sort((a, b) => b.score - a.score || a.candidate.id.localeCompare(b.candidate.id))
+    .slice(0, limit);
+}
+
+export function fallbackReason(ranked: RankedService): string {
+  const { candidate, matchedTerms } = ranked;
+  if (matchedTerms.length) {
+    return `Matches ${matchedTerms.slice(0, 3).join(', ')}`;
+  }
+  if (candidate.review_count > 0) {
+    return `Rated ${candidate.review_average.toFixed(1)} from ${candidate.review_count} review${candidate.review_count === 1 ? '' : 's'}`;
+  }
+  return candidate.is_featured ? 'Featured on the marketplace' : `Popular in ${candidate.category}`;
+}
+
+export function toRecommendation(ranked: RankedService, reason = fallbackReason(ranked)): Recommendation {
+  const { candidate } = ranked;
+  return {
+    id: candidate.id,
+    type: candidate.provider_type === 'product' ? 'product' : 'service',
+    title: candidate.title,
+    description: candidate.description || '',
+    price: Number(candidate.price),
+    currency: candidate.currency,
+    rating: round2(candidate.review_average),
+    image: candidate.images?.[0] || '',
+    reason,
+    confidence: ranked.score,
+    provider: candidate.provider_name || undefined,
+    category: candidate.category,
+    tags: (candidate.skills || []).slice(0, 5),
+  };
+}
+
+export function rankProfessionals(candidates: ProfessionalCandidate[], gaps: string[], limit = 10): ProfessionalMatch[] {
+  const gapTerms = gaps.map((gap) => ({ gap, terms: tokenize(gap) })).filter((g) => g.terms.length);
+
+  return candidates
+    .map((candidate) => {
+      const text = new Set(tokenize(
+        candidate.professional_title,
+        candidate.primary_skills,
+        candidate.industry,
+        candidate.bio,
+        candidate.freelancer_services,
+      ));
+      // Share of gaps the professional covers at least one term of
+      const covered = gapTerms.filter((g) => g.terms.some((t) => text.has(t)));
+      const termHits = gapTerms.reduce((n, g) => n + g.terms.filter((t) => text.has(t)).length, 0);
+      const totalTerms = gapTerms.reduce((n, g) => n + g.terms.length, 0) || 1;
+      const score = gapTerms.length
+        ? (covered.length / gapTerms.length) * 0.7 + (termHits / totalTerms) * 0.3
+        : 0;
+
+      return {
+        id: candidate.id,
+        full_name: candidate.display_name || candidate.full_name || 'Professional',
+        professional_title: candidate.professional_title,
+        expertise_areas: candidate.primary_skills || [],
+        city: candidate.city,
+        score: round2(score),
+        reasons: covered.map((g) => `Covers "${g.gap}"`),
+      };
+    })
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
+
+// --------------------------------------------------------------------------
+// Pricing
+// --------------------------------------------------------------------------
+
+const quantile = (sorted: number[], q: number) => {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export interface PriceStats extends MarketData {
+  median: number;
+  lowerQuartile: number;
+  upperQuartile: number;
+}
+
+export function priceStats(prices: number[]): PriceStats {
+  const sorted = prices.filter((p) => Number.isFinite(p) && p > 0).sort((a, b) => a - b);
+  const average = sorted.length ? sorted.reduce((s, p) => s + p, 0) / sorted.length : 0;
+
+  return {
+    averagePrice: round2(average),
+    priceRange: { min: sorted[0] || 0, max: sorted[sorted.length - 1] || 0 },
+    competitorCount: sorted.length,
+    median: round2(quantile(sorted, 0.5)),
+    lowerQuartile: round2(quantile(sorted, 0.25)),
+    upperQuartile: round2(quantile(sorted, 0.75)),
+  };
+}
+
+// Suggests the middle of the market: the median, with the interquartile
+// range as the band. Confidence grows with the number of comparable listings.
+export function fallbackPricing(stats: PriceStats, category?: string): PricingSuggestion | null {
+  if (stats.competitorCount === 0) return null;
+
+  const where = category ? ` in ${category}` : '';
+  return {
+    suggestedPrice: Math.round(stats.median),
+    minPrice: Math.round(stats.lowerQuartile),
+    maxPrice: Math.round(stats.upperQuartile),
+    marketAverage: Math.round(stats.averagePrice),
+    confidence: round2(Math.min(0.4 + stats.competitorCount * 0.05, 0.9)),
+    factors: ['Comparable listings', 'Market median', 'Price spread'],
+    reasoning: `Based on ${stats.competitorCount} comparable listing${stats.competitorCount === 1 ? '' : 's'}${where}, ` +
+      `half are priced between ${Math.round(stats.lowerQuartile)} and ${Math.round(stats.upperQuartile)}.`,
+  };
+}
@@ -0,0 +1,175 @@
+// Packages, add-ons and listing states of marketplace services, validated by
+// the `marketplace-manager` edge function and priced by `negotiation-manager`
+// when a client picks a package.
+//
+// A service is offered as up to three packages (basic / standard / premium)
+// plus optional add-ons; what the client pays is the package price plus the
+// add-ons they tick, and delivery takes the package's days plus each add-on's
+// extra days. Listings move draft -> pending_review -> published (or
+// rejected, back to the provider), and a published listing can be paused.
+//
+// The browser imports this through src/lib/service-catalogue, so keep it free
+// of Deno and browser globals.
+
+export const PACKAGE_TIERS = ['basic', 'standard', 'premium'] as const;
+export type PackageTier = typeof PACKAGE_TIERS[number];
+
+export const PACKAGE_TIER_LABELS: Record<PackageTier, string> = {
+  basic: 'Basic',
+  standard: 'Standard',
+  premium: 'Premium',
+};
+
+export type ServiceStatus = 'draft' | 'pending_review' | 'published' | 'rejected';
+
+export const SERVICE_STATUS_LABELS: Record<ServiceStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'In review',
+  published: 'Published',
+  rejected: 'Needs changes',
+};
+
+// Statuses the provider may submit for review from
+export const SUBMITTABLE_STATUSES: ServiceStatus[] = ['draft', 'rejected'];
+
+export const MAX_ADDONS = 10;
+
+export interface ServicePackage {
+  id: string;
+  service_id: string;
+  tier: PackageTier;
+  name: string;
+  description: string | null;
+  price: number;
+  delivery_days: number;
+  // null means unlimited
+  revisions: number | null;
+  features: string[];
+}
+
+export interface ServiceAddon {
+  id: string;
+  service_id: string;
+  title: string;
+  description: string | null;
+  price: number;
+  extra_delivery_days: number;
+  position: number;
+  is_active: boolean;
+}
+
+export type ServicePackageInput = Pick<ServicePackage, 'tier' | 'name' | 'price' | 'delivery_days' | 'revisions'> &
+  Partial<Pick<ServicePackage, 'description' | 'features'>>;
+
+export type ServiceAddonInput = Pick<ServiceAddon, 'title' | 'price'> &
+  Partial<Pick<ServiceAddon, 'id' | 'description' | 'extra_delivery_days'>>;
+
+// Copy of an add-on stored on the order
+export interface OrderAddon {
+  id: string;
+  title: string;
+  price: number;
+  extra_delivery_days: number;
+}
+
+export interface PackageQuote {
+  price: number;
+  deliveryDays: number;
+  revisions: number | null;
+  addons: OrderAddon[];
+}
+
+export const isPackageTier = (value: unknown): value is PackageTier =>
+  typeof value === 'string' && (PACKAGE_TIERS as readonly string[]).includes(value);
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// Returns why the packages can't be saved, or null when they can. Higher
+// tiers must not cost less than lower ones.
+export function checkPackages(packages: unknown): string | null {
+  if (!Array.isArray(packages)) return 'Packages must be a list';
+  if (packages.length > PACKAGE_TIERS.length) return `A service has at most ${PACKAGE_TIERS.length} packages`;
+
+  const seen = new Set<string>();
+  for (const pkg of packages as Partial<ServicePackageInput>[]) {
+    if (!isPackageTier(pkg?.tier)) return 'Each package needs a tier: basic, standard or premium';
+    if (seen.has(pkg.tier)) return `Only one ${PACKAGE_TIER_LABELS[pkg.tier]} package is allowed`;
+    seen.add(pkg.tier);
+
+    const label = PACKAGE_TIER_LABELS[pkg.tier];
+    if (typeof pkg.name !== 'string' || !pkg.name.trim() || pkg.name.trim().length > 80) {
+      return `${label} package needs a name of up to 80 characters`;
+    }
+    if (!(Number(pkg.price) > 0)) return `${label} package needs a price above zero`;
+    if (!isWholeNumber(pkg.delivery_days, 1, 365)) return `${label} package delivery must be 1 to 365 days`;
+    if (pkg.revisions != null && !isWholeNumber(pkg.revisions, 0, 100)) {
+      return `${label} package revisions must be 0 to 100, or unlimited`;
+    }
+    if (pkg.features != null && (!Array.isArray(pkg.features) || pkg.features.length > 10)) {
+      return `${label} package can list up to 10 features`;
+    }
+  }
+
+  const sorted = sortPackages(packages as ServicePackageInput[]);
+  for (let i = 1; i < sorted.length; i++) {
+    if (Number(sorted[i].price) < Number(sorted[i - 1].price)) {
+      return `${PACKAGE_TIER_LABELS[sorted[i].tier]} package can't cost less than ${PACKAGE_TIER_LABELS[sorted[i - 1].tier]}`;
+    }
+  }
+  return null;
+}
+
+export function checkAddons(addons: unknown): string | null {
+  if (!Array.isArray(addons)) return 'Add-ons must be a list';
+  if (addons.length > MAX_ADDONS) return `A service has at most ${MAX_ADDONS} add-ons`;
+
+  for (const addon of addons as Partial<ServiceAddonInput>[]) {
+    if (typeof addon?.title !== 'string' || !addon.title.trim() || addon.title.trim().length > 80) {
+      return 'Each add-on needs a title of up to 80 characters';
+    }
+    if (!(Number(addon.price) >= 0)) return `Add-on "${addon.title}" needs a price`;
+    if (addon.extra_delivery_days != null && !isWholeNumber(addon.extra_delivery_days, 0, 90)) {
+      return `Add-on "${addon.title}" can add 0 to 90 days`;
+    }
+  }
+  return null;
+}
+
+export const sortPackages = <T extends { tier: PackageTier }>(packages: T[]): T[] =>
+  [...packages].sort((a, b) => PACKAGE_TIERS.indexOf(a.tier) - PACKAGE_TIERS.indexOf(b.tier));
+
+// What the client pays and waits for with a package and add-ons. Unknown or
+// inactive add-on ids are refused rather than dropped, so the price the
+// client saw is the price they get. `allowInactive` is for add-ons already
+// agreed on, which the provider may have withdrawn since.
+export function quotePackage(
+  pkg: Pick<ServicePackage, 'price' | 'delivery_days' | 'revisions'>,
+  addons: ServiceAddon[],
+  addonIds: string[] = [],
+  options: { allowInactive?: boolean } = {},
+): PackageQuote {
+  const chosen = [...new Set(addonIds)].map((id) => {
+    const addon = addons.find((a) => a.id === id && (a.is_active || options.allowInactive));
+    if (!addon) throw new Error('One of the chosen add-ons is no longer available');
+    return addon;
+  });
+
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+  return {
+    price: round2(Number(pkg.price) + chosen.reduce((sum, a) => sum + Number(a.price), 0)),
+    deliveryDays: pkg.delivery_days + chosen.reduce((sum, a) => sum + a.extra_delivery_days, 0),
+    revisions: pkg.revisions,
+    addons: chosen.map((a) => ({
+      id: a.id,
+      title: a.title,
+      price: Number(a.price),
+      extra_delivery_days: a.extra_delivery_days,
+    })),
+  };
+}
+
+export const formatRevisions = (revisions: number | null) =>
+  revisions == null ? 'Unlimited revisions' : `${revisions} revision${revisions === 1 ? '' : 's'}`;
+
+export const formatDeliveryDays = (days: number) => `${days} day${days === 1 ? '' : 's'} delivery`;
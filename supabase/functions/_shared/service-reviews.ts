@@ -0,0 +1,61 @@
+// Rules for service reviews, enforced by the `review-manager` edge function
+// (and, for verified purchases, by the database) and read by the order and
+// profile pages to decide what to offer.
+//
+// Only the client of a finished order can review its service, once per
+// order; submitting again edits that review. The provider of the service
+// may reply. Anyone signed in can report a review, once.
+//
+// The browser imports this through src/lib/reviews, so keep it free of Deno
+// and browser globals.
+
+// Order statuses that count as a completed purchase
+export const REVIEWABLE_ORDER_STATUSES = ['accepted', 'completed'];
+
+export const MAX_REVIEW_LENGTH = 2000;
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export const REVIEW_REPORT_REASONS = {
+  spam: 'Spam or advertising',
+  offensive: 'Offensive or abusive',
+  fake: 'Not a genuine review',
+  conflict_of_interest: 'Written by someone involved',
+  other: 'Something else',
+} as const;
+
+export type ReviewReportReason = keyof typeof REVIEW_REPORT_REASONS;
+
+export interface ServiceReview {
+  id: string;
+  service_id: string;
+  order_id: string | null;
+  reviewer_id: string;
+  rating: number;
+  review: string | null;
+  response: string | null;
+  response_at: string | null;
+  is_verified_purchase: boolean;
+  created_at: string;
+}
+
+export const isReviewableOrder = (order: { status: string; service_id?: string | null }) =>
+  !!order.service_id && REVIEWABLE_ORDER_STATUSES.includes(order.status);
+
+export const isReviewReportReason = (value: unknown): value is ReviewReportReason =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(REVIEW_REPORT_REASONS, value);
+
+// Returns why the review can't be saved, or null when it can
+export function checkReviewInput(rating: unknown, review: unknown): string | null {
+  if (!Number.isInteger(rating) || (rating as number) < 1 || (rating as number) > 5) {
+    return 'Rating must be a whole number from 1 to 5';
+  }
+  if (review != null && typeof review !== 'string') return 'Review must be text';
+  if (typeof review === 'string' && review.trim().length > MAX_REVIEW_LENGTH) {
+    return `Review exceeds ${MAX_REVIEW_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Average shown next to a review count; null when there is nothing to show
+export const formatRating = (rating: number | null | undefined, count: number | null | undefined) =>
+  count && rating != null ? Number(rating).toFixed(1) : null;
@@ -5,6 +5,16 @@
 // subscription_id, flip the linked subscription to 'active' unless it already
 // is. The `.neq('status', 'active')` guard makes concurrent calls (webhook +
 // manual verify arriving close together) a no-op for whichever runs second.
+//
+// Renewal payments (see subscription-renewal.ts) carry the period they pay for
+// in metadata. Those move the subscription onto the new period and clear the
+// dunning state; the `current_period_end < renewal_period_end` guard plays the
+// same role as the status guard above.
+//
+// Upgrade payments and renewals onto a scheduled downgrade also carry a
+// plan_change_id, which is applied through applyPlanChange.
+
+import { applyPlanChange } from "./subscription-plan-change.ts";
 
 // deno-lint-ignore no-explicit-any
 type SupabaseClientLike = any;
@@ -13,6 +23,8 @@ export interface ActivatableTransaction {
   id?: string;
   transaction_type?: string | null;
   subscription_id?: string | null;
+  // deno-lint-ignore no-explicit-any
+  metadata?: Record<string, any> | null;
 }
 
 export interface ActivationResult {
@@ -30,12 +42,41 @@ export async function activateSubscriptionForTransaction(
     return { applicable: false, activated: false, alreadyActive: false };
   }
 
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .update({ status: 'active' })
-    .eq('id', transaction.subscription_id)
-    .neq('status', 'active')
-    .select('id');
+  const renewalStart = transaction.metadata?.renewal_period_start;
+  const renewalEnd = transaction.metadata?.renewal_period_end;
+  const planChangeId = transaction.metadata?.plan_change_id;
+
+  // Prorated upgrade: the subscription is already active, only the plan moves
+  if (planChangeId && !renewalEnd) {
+    const change = await applyPlanChange(supabase, planChangeId);
+    if (change.error) {
+      return { applicable: true, activated: false, alreadyActive: false, error: change.error };
+    }
+    return { applicable: true, activated: change.applied, alreadyActive: !change.applied };
+  }
+
+  const { data, error } = renewalEnd
+    ? await supabase
+      .from('subscriptions')
+      .update({
+        status: 'active',
+        current_period_start: renewalStart,
+        current_period_end: renewalEnd,
+        renewal_attempts: 0,
+        next_renewal_attempt_at: null,
+        last_renewal_error: null,
+        past_due_at: null,
+        grace_period_end: null,
+      })
+      .eq('id', transaction.subscription_id)
+      .lt('current_period_end', renewalEnd)
+      .select('id')
+    : await supabase
+      .from('subscriptions')
+      .update({ status: 'active' })
+      .eq('id', transaction.subscription_id)
+      .neq('status', 'active')
+      .select('id');
 
   if (error) {
     console.error('Subscription activation error:', error);
@@ -44,8 +85,15 @@ export async function activateSubscriptionForTransaction(
 
   const activated = Array.isArray(data) && data.length > 0;
 
+  if (planChangeId) {
+    const change = await applyPlanChange(supabase, planChangeId);
+    if (change.error) {
+      return { applicable: true, activated, alreadyActive: !activated, error: change.error };
+    }
+  }
+
   if (activated) {
-    console.log(`Subscription ${transaction.subscription_id} activated`);
+    console.log(`Subscription ${transaction.subscription_id} activated${renewalEnd ? ` until ${renewalEnd}` : ''}`);
   } else {
     console.log(`Subscription ${transaction.subscription_id} already active — no change`);
   }
@@ -0,0 +1,136 @@
+// Applies recorded plan changes (see subscription_plan_changes) to the
+// subscription. Shared by lenco-subscriptions (changes that take effect
+// immediately), subscription activation (upgrades, once the prorated payment
+// succeeds) and renewals (downgrades scheduled for the period end).
+//
+// The `status = 'pending'` guard on the change row makes applying idempotent:
+// the webhook and manual verify can both deliver the same upgrade payment.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface PlanChangeResult {
+  applied: boolean;
+  error?: string;
+}
+
+export async function applyPlanChange(
+  supabase: SupabaseClientLike,
+  planChangeId: string,
+): Promise<PlanChangeResult> {
+  const { data: change, error } = await supabase
+    .from('subscription_plan_changes')
+    .update({ status: 'applied', applied_at: new Date().toISOString() })
+    .eq('id', planChangeId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Plan change update error:', error);
+    return { applied: false, error: error.message };
+  }
+  if (!change) {
+    console.log(`Plan change ${planChangeId} is not pending — no change`);
+    return { applied: false };
+  }
+
+  const update: Record<string, unknown> = { plan_id: change.to_plan_id };
+  if (change.new_period_start && change.new_period_end) {
+    update.current_period_start = change.new_period_start;
+    update.current_period_end = change.new_period_end;
+  }
+
+  const { error: subError } = await supabase
+    .from('subscriptions')
+    .update(update)
+    .eq('id', change.subscription_id);
+
+  if (subError) {
+    console.error('Subscription plan update error:', subError);
+    // Put the change back so a retry (e.g. a webhook replay) can apply it
+    await supabase
+      .from('subscription_plan_changes')
+      .update({ status: 'pending', applied_at: null })
+      .eq('id', planChangeId);
+    return { applied: false, error: subError.message };
+  }
+
+  console.log(`Plan change ${planChangeId} applied to subscription ${change.subscription_id}`);
+  return { applied: true };
+}
+
+export interface ScheduledPlanChange {
+  id: string;
+  to_plan_id: string;
+  to_plan: {
+    name: string;
+    billing_interval: string;
+    price_usd: number;
+    price_zmw: number;
+  } | null;
+}
+
+// A downgrade waiting for the end of the current period, if any
+export async function findScheduledPlanChange(
+  supabase: SupabaseClientLike,
+  subscriptionId: string,
+): Promise<ScheduledPlanChange | null> {
+  const { data } = await supabase
+    .from('subscription_plan_changes')
+    .select('id, to_plan_id, to_plan:subscription_plans!subscription_plan_changes_to_plan_id_fkey(name, billing_interval, price_usd, price_zmw)')
+    .eq('subscription_id', subscriptionId)
+    .eq('status', 'pending')
+    .eq('mode', 'period_end')
+    .maybeSingle();
+
+  return data || null;
+}
+
+export interface BillingPeriod {
+  id: string;
+  currency: string;
+  current_period_start: string;
+}
+
+// What the subscriber has actually paid towards the current period and not
+// yet had back: the payment that opened it (the first charge, or a renewal
+// whose metadata names this period), any upgrade charges since, less wallet
+// credits already given for downgrades. A downgrade credit never exceeds it.
+export async function collectedForPeriod(
+  supabase: SupabaseClientLike,
+  subscription: BillingPeriod,
+): Promise<number> {
+  const periodStart = new Date(subscription.current_period_start).getTime();
+
+  const { data: payments } = await supabase
+    .from('transactions')
+    .select('amount, metadata, created_at')
+    .eq('subscription_id', subscription.id)
+    .eq('transaction_type', 'subscription')
+    .eq('status', 'successful')
+    .eq('currency', subscription.currency);
+
+  const paid = (payments || [])
+    .filter((tx: { metadata: Record<string, unknown> | null; created_at: string }) => {
+      const renewalStart = tx.metadata?.renewal_period_start;
+      return renewalStart
+        ? new Date(renewalStart as string).getTime() === periodStart
+        : new Date(tx.created_at).getTime() >= periodStart;
+    })
+    .reduce((sum: number, tx: { amount: number }) => sum + Number(tx.amount), 0);
+
+  const { data: credits } = await supabase
+    .from('subscription_plan_changes')
+    .select('amount')
+    .eq('subscription_id', subscription.id)
+    .eq('direction', 'downgrade')
+    .eq('mode', 'wallet_credit')
+    .eq('status', 'applied')
+    .gte('created_at', subscription.current_period_start);
+
+  const credited = (credits || [])
+    .reduce((sum: number, change: { amount: number }) => sum + Math.abs(Number(change.amount)), 0);
+
+  return Math.max(0, Math.round((paid - credited) * 100) / 100);
+}
@@ -0,0 +1,94 @@
+// Proration for mid-cycle plan changes in lenco-subscriptions.
+//
+// The unused part of the current period is worth `current price × remaining
+// fraction`. Switching to a plan with the same billing interval costs the new
+// price over that same remaining fraction, so the subscriber pays (upgrade)
+// or is owed (downgrade) the difference and the renewal date is unchanged.
+// Switching between monthly and yearly starts a fresh period today at the
+// full new price, less the unused credit.
+
+export type PlanChangeDirection = 'upgrade' | 'downgrade' | 'lateral';
+
+export interface ProratablePlan {
+  id: string;
+  name: string;
+  billing_interval: string;
+  price_usd: number;
+  price_zmw: number;
+}
+
+export interface ProrationInput {
+  currentPlan: ProratablePlan;
+  newPlan: ProratablePlan;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  now?: Date;
+}
+
+export interface ProrationPreview {
+  direction: PlanChangeDirection;
+  currency: string;
+  currentPrice: number;
+  newPrice: number;
+  // Share of the current period still to run, 0..1
+  remainingFraction: number;
+  unusedCredit: number;
+  newPlanCost: number;
+  // Positive: to collect on upgrade. Negative: owed to the subscriber.
+  difference: number;
+  resetsPeriod: boolean;
+  newPeriodStart: string;
+  newPeriodEnd: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const priceIn = (plan: ProratablePlan, currency: string) =>
+  Number(currency === 'USD' ? plan.price_usd : plan.price_zmw) || 0;
+
+export function previewProration(input: ProrationInput): ProrationPreview {
+  const now = input.now ?? new Date();
+  const start = new Date(input.periodStart).getTime();
+  const end = new Date(input.periodEnd).getTime();
+  const length = end - start;
+
+  const remainingFraction = length > 0
+    ? Math.min(1, Math.max(0, (end - now.getTime()) / length))
+    : 0;
+
+  const currentPrice = priceIn(input.currentPlan, input.currency);
+  const newPrice = priceIn(input.newPlan, input.currency);
+  const resetsPeriod = input.currentPlan.billing_interval !== input.newPlan.billing_interval;
+
+  const unusedCredit = round2(currentPrice * remainingFraction);
+  const newPlanCost = round2(resetsPeriod ? newPrice : newPrice * remainingFraction);
+  const difference = round2(newPlanCost - unusedCredit);
+
+  let newPeriodStart = input.periodStart;
+  let newPeriodEnd = input.periodEnd;
+  if (resetsPeriod) {
+    const periodEnd = new Date(now);
+    if (input.newPlan.billing_interval === 'yearly') {
+      periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+    } else {
+      periodEnd.setMonth(periodEnd.getMonth() + 1);
+    }
+    newPeriodStart = now.toISOString();
+    newPeriodEnd = periodEnd.toISOString();
+  }
+
+  return {
+    direction: difference > 0 ? 'upgrade' : difference < 0 ? 'downgrade' : 'lateral',
+    currency: input.currency,
+    currentPrice,
+    newPrice,
+    remainingFraction: Math.round(remainingFraction * 10000) / 10000,
+    unusedCredit,
+    newPlanCost,
+    difference,
+    resetsPeriod,
+    newPeriodStart,
+    newPeriodEnd,
+  };
+}
@@ -0,0 +1,226 @@
+// Renewal charges for Lenco (mobile money) subscriptions, shared by the
+// scheduled `subscription-renewals` function and the manual `renew` action in
+// lenco-subscriptions.
+//
+// A renewal is an ordinary 'subscription' transaction whose metadata carries
+// the period it pays for (renewal_period_start / renewal_period_end). When the
+// payment succeeds, activateSubscriptionForTransaction moves the subscription
+// onto that period, so the webhook and manual verify paths need no changes.
+
+import { createMobileMoneyCollection, type MobileMoneyOperator } from "./lenco-api.ts";
+import { findScheduledPlanChange } from "./subscription-plan-change.ts";
+import { loadPlatformSettings } from "./platform-settings.ts";
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Collection attempts relative to current_period_end: one the day before the
+// period ends so a renewal is seamless, then retries while past_due. Once all
+// have been tried, advance_subscription_lifecycle moves the subscription to
+// 'grace'.
+export const RENEWAL_ATTEMPT_OFFSETS_DAYS = [-1, 1, 3];
+
+// How long before current_period_end the reminder email goes out
+export const RENEWAL_REMINDER_DAYS = 3;
+
+export interface RenewableSubscription {
+  id: string;
+  user_id: string;
+  status: string;
+  currency: string | null;
+  current_period_end: string;
+}
+
+export interface RenewalPlan {
+  name: string;
+  billing_interval: string;
+  price_usd: number;
+  price_zmw: number;
+}
+
+export interface PaymentMethod {
+  phone: string;
+  operator: MobileMoneyOperator;
+}
+
+export interface RenewalChargeResult {
+  // deno-lint-ignore no-explicit-any
+  transaction: any | null;
+  reference: string | null;
+  amount: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
+  // Lenco collection status when a mobile money prompt was sent
+  collectionStatus?: string;
+  error?: string;
+}
+
+export function renewalAttemptAt(periodEnd: string, attemptIndex: number): string | null {
+  const offset = RENEWAL_ATTEMPT_OFFSETS_DAYS[attemptIndex];
+  if (offset === undefined) return null;
+  return new Date(new Date(periodEnd).getTime() + offset * DAY_MS).toISOString();
+}
+
+export function planPrice(plan: RenewalPlan, currency: string): number {
+  return Number(currency === 'USD' ? plan.price_usd : plan.price_zmw) || 0;
+}
+
+// Renewals continue from the end of the lapsed period so a late payment does
+// not earn extra days; an expired subscription starts a fresh period today.
+export function nextRenewalPeriod(subscription: RenewableSubscription, plan: RenewalPlan) {
+  const periodEnd = new Date(subscription.current_period_end);
+  const start = subscription.status === 'expired' || subscription.status === 'cancelled'
+    ? new Date()
+    : periodEnd;
+
+  const end = new Date(start);
+  if (plan.billing_interval === 'yearly') {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+// The plan the next period is billed at: the current one, unless a downgrade
+// was scheduled for the period end
+export async function resolveRenewalPlan(
+  supabase: SupabaseClientLike,
+  subscriptionId: string,
+  currentPlan: RenewalPlan,
+): Promise<{ plan: RenewalPlan; planChangeId: string | null }> {
+  const scheduled = await findScheduledPlanChange(supabase, subscriptionId);
+  if (scheduled?.to_plan) {
+    return { plan: scheduled.to_plan, planChangeId: scheduled.id };
+  }
+  return { plan: currentPlan, planChangeId: null };
+}
+
+// The number and operator used for the most recent successful payment on
+// this subscription, if it was paid by mobile money
+export async function findPaymentMethod(
+  supabase: SupabaseClientLike,
+  subscriptionId: string,
+): Promise<PaymentMethod | null> {
+  const { data } = await supabase
+    .from('transactions')
+    .select('metadata')
+    .eq('subscription_id', subscriptionId)
+    .eq('transaction_type', 'subscription')
+    .eq('status', 'successful')
+    .order('created_at', { ascending: false })
+    .limit(5);
+
+  for (const row of data || []) {
+    const phone = row.metadata?.phone;
+    const operator = row.metadata?.operator;
+    if (phone && operator) return { phone, operator };
+  }
+  return null;
+}
+
+// Creates the pending renewal transaction and, when a payment method is
+// given, pushes a mobile money prompt to the subscriber's phone. Without one
+// the caller hands the reference to the user to pay manually.
+export async function createRenewalCharge(
+  supabase: SupabaseClientLike,
+  subscription: RenewableSubscription,
+  plan: RenewalPlan,
+  options: {
+    paymentMethod?: PaymentMethod | null;
+    attempt?: number;
+    source: 'scheduled' | 'manual';
+    planChangeId?: string | null;
+  },
+): Promise<RenewalChargeResult> {
+  const currency = subscription.currency || 'ZMW';
+  const amount = planPrice(plan, currency);
+  const period = nextRenewalPeriod(subscription, plan);
+  const reference = `SUB-${subscription.id.substring(0, 8)}-R${Date.now()}`;
+  const paymentMethod = options.paymentMethod || null;
+
+  const base = { amount, currency, periodStart: period.start, periodEnd: period.end };
+  const { payment_test_mode: testMode } = await loadPlatformSettings(supabase);
+
+  const { data: transaction, error: txError } = await supabase
+    .from('transactions')
+    .insert({
+      user_id: subscription.user_id,
+      transaction_type: 'subscription',
+      amount,
+      currency,
+      platform_fee: 0,
+      net_amount: amount,
+      status: 'pending',
+      lenco_reference: reference,
+      subscription_id: subscription.id,
+      description: `Subscription renewal: ${plan.name}`,
+      metadata: {
+        initiated_at: new Date().toISOString(),
+        renewal: true,
+        renewal_source: options.source,
+        renewal_attempt: options.attempt ?? null,
+        renewal_period_start: period.start,
+        renewal_period_end: period.end,
+        plan_change_id: options.planChangeId ?? null,
+        phone: paymentMethod?.phone ?? null,
+        operator: paymentMethod?.operator ?? null,
+        test_mode: testMode,
+      },
+    })
+    .select()
+    .single();
+
+  if (txError || !transaction) {
+    console.error('Failed to create renewal transaction:', txError);
+    return { ...base, transaction: null, reference: null, error: 'Failed to create renewal transaction' };
+  }
+
+  if (!paymentMethod) {
+    return { ...base, transaction, reference };
+  }
+
+  const collection = await createMobileMoneyCollection({
+    amount,
+    currency,
+    reference,
+    phone: paymentMethod.phone,
+    operator: paymentMethod.operator,
+    testMode,
+  });
+
+  if (!collection.ok) {
+    await supabase
+      .from('transactions')
+      .update({ status: 'failed', metadata: { ...transaction.metadata, lenco_error: collection.raw } })
+      .eq('id', transaction.id);
+
+    return {
+      ...base,
+      transaction,
+      reference,
+      error: collection.error || 'The mobile money provider rejected the renewal charge',
+    };
+  }
+
+  await supabase
+    .from('transactions')
+    .update({
+      lenco_transaction_id: collection.collectionId,
+      status: collection.status === 'successful' ? 'successful' : collection.status === 'failed' ? 'failed' : 'pending',
+      metadata: { ...transaction.metadata, lenco_status: collection.status },
+    })
+    .eq('id', transaction.id);
+
+  return {
+    ...base,
+    transaction: { ...transaction, status: collection.status === 'successful' ? 'successful' : transaction.status },
+    reference,
+    collectionStatus: collection.status,
+    error: collection.status === 'failed' ? 'The mobile money charge failed' : undefined,
+  };
+}
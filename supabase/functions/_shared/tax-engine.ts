@@ -0,0 +1,185 @@
+// Tax calculation from the admin-managed `tax_rules` table.
+//
+// Shared by the browser (ZRATaxCalculator, the /admin/tax simulator) and the
+// payment edge functions (negotiation-manager prices orders, lenco-payments
+// prices direct service purchases, currency-converter adds VAT to kwacha
+// conversions), so the tax shown is the tax stored on `orders` and
+// `transactions`. Keep this module free of Deno and browser
+// globals — both bundlers import it.
+//
+// Two kinds of line come out of a rule:
+//   added    -- charged on top of the price to the buyer (VAT). Paid to the
+//               seller with the escrow release; they remit it.
+//   withheld -- deducted from what the seller receives (withholding tax). The
+//               platform keeps it for remittance to ZRA.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export type TaxCategory = 'service' | 'sale' | 'subscription';
+export type TaxTreatment = 'added' | 'withheld';
+export type VatStatus = 'not_registered' | 'registered' | 'exempt';
+
+export interface TaxRule {
+  id: string;
+  code: string;
+  name: string;
+  tax_type: 'vat' | 'withholding' | 'other';
+  treatment: TaxTreatment;
+  // 'all' applies to every category
+  category: TaxCategory | 'all';
+  rate: number;
+  // The rule applies when the amount exceeds this, in `currency` when set
+  threshold_amount: number;
+  currency: string | null;
+  requires_vat_registered: boolean;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+  priority: number;
+}
+
+export interface TaxInput {
+  amount: number;
+  currency: string;
+  category: TaxCategory;
+  sellerVatStatus?: VatStatus | null;
+  // Defaults to today; rules are chosen by their effective dates
+  date?: Date | string;
+}
+
+export interface TaxLine {
+  rule_id: string;
+  code: string;
+  name: string;
+  tax_type: TaxRule['tax_type'];
+  treatment: TaxTreatment;
+  rate: number;
+  taxable_amount: number;
+  amount: number;
+}
+
+export interface TaxBreakdown {
+  currency: string;
+  grossAmount: number;
+  lines: TaxLine[];
+  // Charged to the buyer on top of grossAmount
+  addedTax: number;
+  // Deducted from the seller's payout
+  withheldTax: number;
+  totalPayable: number;
+  netToSeller: number;
+}
+
+export const TAX_CATEGORIES: TaxCategory[] = ['service', 'sale', 'subscription'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateString = (date: Date | string | undefined) =>
+  (date ? new Date(date) : new Date()).toISOString().slice(0, 10);
+
+// The rules that apply to one amount. When several rules share a code (an
+// old rate and its replacement), the highest priority, then the most
+// recently effective, wins.
+export function selectTaxRules(rules: TaxRule[], input: TaxInput): TaxRule[] {
+  const day = toDateString(input.date);
+  const sellerStatus = input.sellerVatStatus || 'not_registered';
+
+  const applicable = rules.filter((rule) => {
+    if (!rule.is_active) return false;
+    if (rule.effective_from > day) return false;
+    if (rule.effective_to && rule.effective_to <= day) return false;
+    if (rule.category !== 'all' && rule.category !== input.category) return false;
+    if (rule.currency && rule.currency !== input.currency) return false;
+    if (input.amount <= Number(rule.threshold_amount || 0)) return false;
+    if (rule.tax_type === 'vat' && sellerStatus === 'exempt') return false;
+    if (rule.requires_vat_registered && sellerStatus !== 'registered') return false;
+    return true;
+  });
+
+  const byCode = new Map<string, TaxRule>();
+  for (const rule of applicable) {
+    const current = byCode.get(rule.code);
+    if (
+      !current ||
+      rule.priority > current.priority ||
+      (rule.priority === current.priority && rule.effective_from > current.effective_from)
+    ) {
+      byCode.set(rule.code, rule);
+    }
+  }
+
+  return [...byCode.values()].sort((a, b) => a.code.localeCompare(b.code));
+}
+
+export function calculateTax(rules: TaxRule[], input: TaxInput): TaxBreakdown {
+  const grossAmount = round2(input.amount);
+  const lines: TaxLine[] = selectTaxRules(rules, input).map((rule) => ({
+    rule_id: rule.id,
+    code: rule.code,
+    name: rule.name,
+    tax_type: rule.tax_type,
+    treatment: rule.treatment,
+    rate: Number(rule.rate),
+    taxable_amount: grossAmount,
+    amount: round2(grossAmount * Number(rule.rate)),
+  }));
+
+  return summarizeTaxLines(lines, grossAmount, input.currency);
+}
+
+export function summarizeTaxLines(lines: TaxLine[], grossAmount: number, currency: string): TaxBreakdown {
+  const sum = (treatment: TaxTreatment) =>
+    round2(lines.filter((l) => l.treatment === treatment).reduce((total, l) => total + Number(l.amount), 0));
+
+  const addedTax = sum('added');
+  const withheldTax = sum('withheld');
+
+  return {
+    currency,
+    grossAmount,
+    lines,
+    addedTax,
+    withheldTax,
+    totalPayable: round2(grossAmount + addedTax),
+    netToSeller: round2(grossAmount - withheldTax),
+  };
+}
+
+// A share of stored lines, e.g. one milestone of an order. Pass the exact
+// remainder for the last share so the parts add back up to the whole.
+export function scaleTaxLines(lines: TaxLine[], fraction: number): TaxLine[] {
+  return lines.map((line) => ({
+    ...line,
+    taxable_amount: round2(line.taxable_amount * fraction),
+    amount: round2(line.amount * fraction),
+  }));
+}
+
+// Rules in effect on `date` (today by default)
+export async function loadTaxRules(supabase: SupabaseClientLike, date?: Date | string): Promise<TaxRule[]> {
+  const day = toDateString(date);
+  const { data, error } = await supabase
+    .from('tax_rules')
+    .select('id, code, name, tax_type, treatment, category, rate, threshold_amount, currency, requires_vat_registered, effective_from, effective_to, is_active, priority')
+    .eq('is_active', true)
+    .lte('effective_from', day)
+    .or(`effective_to.is.null,effective_to.gt.${day}`);
+
+  if (error) throw error;
+  return (data || []) as TaxRule[];
+}
+
+// VAT status of a seller from their SME profile; anyone without one is
+// treated as not registered
+export async function loadVatStatus(supabase: SupabaseClientLike, profileId: string | null | undefined): Promise<VatStatus> {
+  if (!profileId) return 'not_registered';
+
+  const { data } = await supabase
+    .from('sme_profiles')
+    .select('vat_status')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  return (data?.vat_status as VatStatus) || 'not_registered';
+}
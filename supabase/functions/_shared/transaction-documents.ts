@@ -0,0 +1,341 @@
+// Invoices and receipts for successful payments, issued by the Lenco webhook
+// (primary path) and on demand by the `transaction-documents` function when a
+// user downloads one that was never issued.
+//
+// Which documents a payment gets:
+//   service_purchase -- an invoice from the provider to the client (a tax
+//                       invoice when the provider is VAT registered) and a
+//                       receipt for the payment
+//   subscription     -- an invoice from the platform and a receipt
+//   deposit          -- a receipt only; nothing was sold
+//
+// Numbers come from claim_transaction_document, which returns the existing
+// row when a document was already claimed, so calling this twice for the same
+// transaction re-uploads at most a missing file and never burns a number.
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'https://esm.sh/pdf-lib@1.17.1';
+import type { TaxLine } from './tax-engine.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export const TRANSACTION_DOCUMENTS_BUCKET = 'transaction-documents';
+
+export type TransactionDocumentType = 'invoice' | 'receipt';
+
+export interface DocumentTransaction {
+  id: string;
+  user_id: string;
+  recipient_id?: string | null;
+  order_id?: string | null;
+  transaction_type: string;
+  status: string;
+  amount: number;
+  currency: string;
+  platform_fee?: number | null;
+  description?: string | null;
+  lenco_reference?: string | null;
+  created_at: string;
+  // deno-lint-ignore no-explicit-any
+  metadata?: Record<string, any> | null;
+}
+
+export interface TransactionDocument {
+  id: string;
+  transaction_id: string;
+  document_type: TransactionDocumentType;
+  document_number: string;
+  issued_to: string;
+  issued_by: string | null;
+  currency: string;
+  gross_amount: number;
+  platform_fee: number;
+  tax_amount: number;
+  withholding_amount: number;
+  net_amount: number;
+  tax_lines: TaxLine[];
+  file_path: string | null;
+  status: 'pending' | 'issued';
+  issued_at: string | null;
+}
+
+export interface IssueDocumentsResult {
+  documents: TransactionDocument[];
+  error?: string;
+}
+
+interface BusinessDetails {
+  name: string;
+  businessName: string | null;
+  tpin: string | null;
+  vatRegistered: boolean;
+  registrationNumber: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export function documentTypesFor(transaction: Pick<DocumentTransaction, 'transaction_type'>): TransactionDocumentType[] {
+  switch (transaction.transaction_type) {
+    case 'service_purchase':
+    case 'subscription':
+      return ['invoice', 'receipt'];
+    case 'deposit':
+      return ['receipt'];
+    default:
+      return [];
+  }
+}
+
+// The platform's own details, used when it is the seller
+function platformDetails(): BusinessDetails {
+  return {
+    name: Deno.env.get('PLATFORM_LEGAL_NAME') || 'Wathaci Connect',
+    businessName: null,
+    tpin: Deno.env.get('PLATFORM_TPIN') || null,
+    vatRegistered: !!Deno.env.get('PLATFORM_TPIN'),
+    registrationNumber: Deno.env.get('PLATFORM_REGISTRATION_NUMBER') || null,
+    email: Deno.env.get('PLATFORM_BILLING_EMAIL') || null,
+    phone: null,
+    address: Deno.env.get('PLATFORM_ADDRESS') || 'Lusaka, Zambia',
+  };
+}
+
+async function loadBusinessDetails(supabase: SupabaseClientLike, profileId: string): Promise<BusinessDetails> {
+  const [{ data: profile }, { data: sme }] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('full_name, business_name, email, phone, address, city, country, registration_number')
+      .eq('id', profileId)
+      .maybeSingle(),
+    supabase
+      .from('sme_profiles')
+      .select('business_name, tpin, vat_status, registration_number')
+      .eq('profile_id', profileId)
+      .maybeSingle(),
+  ]);
+
+  const address = [profile?.address, profile?.city, profile?.country].filter(Boolean).join(', ');
+
+  return {
+    name: profile?.full_name || profile?.email || 'Customer',
+    businessName: sme?.business_name || profile?.business_name || null,
+    tpin: sme?.tpin || null,
+    vatRegistered: sme?.vat_status === 'registered',
+    registrationNumber: sme?.registration_number || profile?.registration_number || null,
+    email: profile?.email || null,
+    phone: profile?.phone || null,
+    address: address || null,
+  };
+}
+
+// The standard PDF fonts only cover Latin-1
+const pdfText = (value: string) =>
+  value
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '');
+
+const money = (currency: string, value: number) =>
+  `${currency} ${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface RenderInput {
+  document: TransactionDocument;
+  transaction: DocumentTransaction;
+  seller: BusinessDetails;
+  buyer: BusinessDetails;
+}
+
+export async function renderTransactionDocument({ document, transaction, seller, buyer }: RenderInput): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const page: PDFPage = pdf.addPage([595.28, 841.89]); // A4
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  const left = 50;
+  const right = 545;
+  let y = 790;
+
+  const text = (value: string, x: number, options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {}) => {
+    page.drawText(pdfText(value), { x, y, size: options.size ?? 10, font: options.font ?? regular, color: options.color });
+  };
+  const textRight = (value: string, options: { font?: PDFFont; size?: number } = {}) => {
+    const font = options.font ?? regular;
+    const size = options.size ?? 10;
+    page.drawText(pdfText(value), { x: right - font.widthOfTextAtSize(pdfText(value), size), y, size, font });
+  };
+  const rule = () => {
+    page.drawLine({ start: { x: left, y: y + 4 }, end: { x: right, y: y + 4 }, thickness: 0.5, color: muted });
+  };
+
+  const isInvoice = document.document_type === 'invoice';
+  const title = isInvoice ? (seller.vatRegistered ? 'TAX INVOICE' : 'INVOICE') : 'RECEIPT';
+  const issuedAt = new Date(document.issued_at || Date.now()).toISOString().slice(0, 10);
+  // Orders carry the platform fee on top of the price; direct purchases
+  // deduct it from the seller
+  const feePaidByBuyer = !!transaction.order_id && transaction.transaction_type === 'service_purchase';
+  const fee = Number(document.platform_fee || 0);
+  const addedTax = Number(document.tax_amount || 0);
+  const withheld = Number(document.withholding_amount || 0);
+  const gross = Number(document.gross_amount);
+
+  text(title, left, { font: bold, size: 20 });
+  textRight(document.document_number, { font: bold, size: 12 });
+  y -= 18;
+  textRight(`Date: ${issuedAt}`);
+  y -= 14;
+  if (transaction.lenco_reference) {
+    textRight(`Payment ref: ${transaction.lenco_reference}`);
+    y -= 14;
+  }
+
+  // Parties
+  y -= 16;
+  const partyBlock = (label: string, party: BusinessDetails, x: number, startY: number) => {
+    y = startY;
+    text(label, x, { font: bold, size: 9, color: muted });
+    y -= 14;
+    text(party.businessName || party.name, x, { font: bold });
+    y -= 13;
+    if (party.businessName) { text(party.name, x); y -= 13; }
+    if (party.tpin) { text(`TPIN: ${party.tpin}`, x); y -= 13; }
+    if (party.registrationNumber) { text(`Reg. no: ${party.registrationNumber}`, x); y -= 13; }
+    if (party.address) { text(party.address, x); y -= 13; }
+    if (party.email) { text(party.email, x); y -= 13; }
+    if (party.phone) { text(party.phone, x); y -= 13; }
+    return y;
+  };
+  const top = y;
+  const afterSeller = partyBlock(isInvoice ? 'FROM' : 'RECEIVED BY', seller, left, top);
+  const afterBuyer = partyBlock(isInvoice ? 'BILLED TO' : 'RECEIVED FROM', buyer, 320, top);
+  y = Math.min(afterSeller, afterBuyer) - 20;
+
+  // Lines
+  text('Description', left, { font: bold });
+  textRight('Amount', { font: bold });
+  y -= 8;
+  rule();
+  y -= 14;
+
+  const row = (label: string, value: string, font: PDFFont = regular) => {
+    text(label, left, { font });
+    textRight(value, { font });
+    y -= 16;
+  };
+
+  const description = transaction.description || transaction.transaction_type.replace('_', ' ');
+  const itemAmount = gross - addedTax - (feePaidByBuyer ? fee : 0);
+  row(description, money(document.currency, itemAmount));
+  if (feePaidByBuyer && fee > 0) {
+    row('Platform service fee', money(document.currency, fee));
+  }
+  for (const line of (document.tax_lines || []).filter((l) => l.treatment === 'added')) {
+    row(`${line.name} (${(Number(line.rate) * 100).toFixed(1)}%)`, money(document.currency, line.amount));
+  }
+  y += 2;
+  rule();
+  y -= 14;
+  row(isInvoice ? 'Total due' : 'Total paid', money(document.currency, gross), bold);
+
+  // What the seller is left with; only meaningful when a provider sold
+  if (document.issued_by) {
+    y -= 10;
+    text('SELLER SETTLEMENT', left, { font: bold, size: 9, color: muted });
+    y -= 16;
+    row('Amount paid by client', money(document.currency, gross));
+    if (fee > 0) row('Platform fee', `-${money(document.currency, fee)}`);
+    for (const line of (document.tax_lines || []).filter((l) => l.treatment === 'withheld')) {
+      row(`${line.name} withheld (${(Number(line.rate) * 100).toFixed(1)}%)`, `-${money(document.currency, line.amount)}`);
+    }
+    if (withheld > 0 && !(document.tax_lines || []).some((l) => l.treatment === 'withheld')) {
+      row('Withholding tax', `-${money(document.currency, withheld)}`);
+    }
+    y += 2;
+    rule();
+    y -= 14;
+    row('Net to seller', money(document.currency, document.net_amount), bold);
+  }
+
+  if (!isInvoice) {
+    y -= 10;
+    const method = transaction.metadata?.operator
+      ? `Mobile money (${String(transaction.metadata.operator).toUpperCase()})`
+      : 'Lenco';
+    text(`Paid via ${method} on ${new Date(transaction.created_at).toISOString().slice(0, 10)}`, left, { color: muted });
+    y -= 14;
+  }
+
+  y = 60;
+  text(`Issued through ${platformDetails().name}. Amounts in ${document.currency}.`, left, { size: 8, color: muted });
+
+  return await pdf.save();
+}
+
+// Issues every document the transaction should have. Returns an error
+// instead of throwing so the webhook can decide whether to fail the event.
+export async function issueTransactionDocuments(
+  supabase: SupabaseClientLike,
+  transaction: DocumentTransaction,
+): Promise<IssueDocumentsResult> {
+  const types = documentTypesFor(transaction);
+  if (transaction.status !== 'successful' || types.length === 0) {
+    return { documents: [] };
+  }
+
+  const documents: TransactionDocument[] = [];
+  let parties: { seller: BusinessDetails; buyer: BusinessDetails } | null = null;
+
+  try {
+    for (const type of types) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_transaction_document', {
+        p_transaction_id: transaction.id,
+        p_document_type: type,
+      });
+      if (claimError) throw new Error(claimError.message);
+
+      const document = claimed as TransactionDocument;
+      if (document.status === 'issued' && document.file_path) {
+        documents.push(document);
+        continue;
+      }
+
+      if (!parties) {
+        const buyer = await loadBusinessDetails(supabase, transaction.user_id);
+        const seller = transaction.recipient_id
+          ? await loadBusinessDetails(supabase, transaction.recipient_id)
+          : platformDetails();
+        parties = { seller, buyer };
+      }
+
+      const issuedAt = new Date().toISOString();
+      const bytes = await renderTransactionDocument({
+        document: { ...document, issued_at: issuedAt },
+        transaction,
+        ...parties,
+      });
+
+      const filePath = `${transaction.id}/${document.document_number}.pdf`;
+      const { error: uploadError } = await supabase.storage
+        .from(TRANSACTION_DOCUMENTS_BUCKET)
+        .upload(filePath, bytes, { contentType: 'application/pdf', upsert: true });
+      if (uploadError) throw new Error(`Upload of ${document.document_number} failed: ${uploadError.message}`);
+
+      const { data: issued, error: updateError } = await supabase
+        .from('transaction_documents')
+        .update({ status: 'issued', file_path: filePath, issued_at: issuedAt })
+        .eq('id', document.id)
+        .select('*')
+        .single();
+      if (updateError) throw new Error(updateError.message);
+
+      documents.push(issued as TransactionDocument);
+    }
+  } catch (error) {
+    console.error(`Issuing documents for transaction ${transaction.id} failed:`, error);
+    return { documents, error: error instanceof Error ? error.message : 'Document issue failed' };
+  }
+
+  return { documents };
+}
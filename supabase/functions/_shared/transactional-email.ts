@@ -0,0 +1,153 @@
+// Enqueues a templated email on the pgmq 'transactional_emails' queue. The
+// process-email-queue function drains it, retries on rate limits and
+// dead-letters messages it cannot send.
+//
+// Callers name a template from email-templates.ts and pass its variables;
+// rendering, the unsubscribe link and suppression happen here. Addresses in
+// suppressed_emails are skipped, except that an unsubscribe does not stop
+// essential (billing) templates.
+//
+// idempotencyKey should be stable for "the same email about the same thing"
+// (e.g. `renewal-reminder:<subscription>:<period end>`) so a cron run that is
+// retried does not send the reminder twice.
+
+import {
+  EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  type EmailTemplateKey,
+  type EmailTemplateVariables,
+} from './email-templates.ts';
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface TemplatedEmail<K extends EmailTemplateKey> {
+  to: string;
+  template: K;
+  variables: EmailTemplateVariables[K];
+  idempotencyKey: string;
+}
+
+export interface EnqueueResult {
+  queued: boolean;
+  messageId: string;
+  // Not queued because the address is suppressed or unsubscribed
+  skipped?: 'suppressed' | 'unsubscribed';
+  error?: string;
+}
+
+const DEFAULT_FROM = 'WATHACI Connect <notifications@wathaci.com>';
+const DEFAULT_SENDER_DOMAIN = 'wathaci.com';
+
+export const appUrl = () => Deno.env.get('APP_URL') || 'https://wathaci.com';
+
+export const unsubscribeUrl = (token: string) => `${appUrl()}/unsubscribe?token=${encodeURIComponent(token)}`;
+
+const randomToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '');
+};
+
+// Skipped sends are logged so /admin/email counts them per template
+async function logSkipped(
+  supabase: SupabaseClientLike,
+  messageId: string,
+  template: EmailTemplateKey,
+  to: string,
+  reason: 'suppressed' | 'unsubscribed',
+): Promise<void> {
+  const { error } = await supabase.from('email_send_log').insert({
+    message_id: messageId,
+    template_name: template,
+    recipient_email: to,
+    status: 'suppressed',
+    error_message: reason,
+  });
+  if (error) console.error('Failed to log skipped email:', { template, error });
+}
+
+// The address's email_unsubscribe_tokens row, created on first use
+async function unsubscribeTokenFor(
+  supabase: SupabaseClientLike,
+  email: string,
+): Promise<{ token: string; used_at: string | null }> {
+  const { data: existing, error } = await supabase
+    .from('email_unsubscribe_tokens')
+    .select('token, used_at')
+    .eq('email', email)
+    .maybeSingle();
+  if (error) throw error;
+  if (existing) return existing;
+
+  const { error: insertError } = await supabase
+    .from('email_unsubscribe_tokens')
+    .upsert({ email, token: randomToken() }, { onConflict: 'email', ignoreDuplicates: true });
+  if (insertError) throw insertError;
+
+  // Read back in case a concurrent send created it first
+  const { data: created, error: readError } = await supabase
+    .from('email_unsubscribe_tokens')
+    .select('token, used_at')
+    .eq('email', email)
+    .single();
+  if (readError) throw readError;
+  return created;
+}
+
+export async function enqueueTemplatedEmail<K extends EmailTemplateKey>(
+  supabase: SupabaseClientLike,
+  email: TemplatedEmail<K>,
+): Promise<EnqueueResult> {
+  const messageId = crypto.randomUUID();
+  const template = EMAIL_TEMPLATES[email.template];
+  const to = email.to.trim().toLowerCase();
+
+  try {
+    const { data: suppression } = await supabase
+      .from('suppressed_emails')
+      .select('reason')
+      .eq('email', to)
+      .maybeSingle();
+    if (suppression && (suppression.reason !== 'unsubscribe' || !template.essential)) {
+      await logSkipped(supabase, messageId, email.template, to, 'suppressed');
+      return { queued: false, messageId, skipped: 'suppressed' };
+    }
+
+    const unsubscribe = await unsubscribeTokenFor(supabase, to);
+    if (unsubscribe.used_at && !template.essential) {
+      await logSkipped(supabase, messageId, email.template, to, 'unsubscribed');
+      return { queued: false, messageId, skipped: 'unsubscribed' };
+    }
+
+    const rendered = renderEmailTemplate(email.template, email.variables, {
+      appUrl: appUrl(),
+      unsubscribeUrl: unsubscribeUrl(unsubscribe.token),
+    });
+
+    const { error } = await supabase.rpc('enqueue_email', {
+      queue_name: 'transactional_emails',
+      payload: {
+        message_id: messageId,
+        to,
+        from: Deno.env.get('EMAIL_FROM') || DEFAULT_FROM,
+        sender_domain: Deno.env.get('EMAIL_SENDER_DOMAIN') || DEFAULT_SENDER_DOMAIN,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        purpose: 'transactional',
+        // Shows up as template_name in email_send_log
+        label: rendered.template,
+        template_version: rendered.version,
+        idempotency_key: email.idempotencyKey,
+        unsubscribe_token: template.essential ? undefined : unsubscribe.token,
+        queued_at: new Date().toISOString(),
+      },
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Failed to enqueue email:', { template: email.template, error });
+    return { queued: false, messageId, error: (error as { message?: string })?.message || String(error) };
+  }
+
+  return { queued: true, messageId };
+}
@@ -0,0 +1,277 @@
+// Web Push delivery to the browsers and phones in `push_subscriptions`.
+//
+// Messages are signed with VAPID (RFC 8292) and encrypted with aes128gcm
+// (RFC 8291) using WebCrypto only, so no Node crypto shims are needed. The
+// keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url, uncompressed
+// P-256 point and private scalar) and VAPID_SUBJECT (a mailto: or https: URL).
+//
+// sendToUser() fans a message out to every active webpush subscription of a
+// user; notification-router.ts decides which notifications get pushed. A 404
+// or 410 from the push service means the subscription is gone for good, so it
+// is deactivated; other failures are counted and the subscription is kept.
+//
+// Server only: the service worker side lives in public/push-sw.js.
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClientLike = any;
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface WebPushSubscription {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushResult {
+  status: number;
+  ok: boolean;
+  // The push service no longer knows the subscription
+  gone: boolean;
+  error?: string;
+}
+
+export interface DispatchSummary {
+  sent: number;
+  failed: number;
+  deactivated: number;
+  skipped: number;
+}
+
+// How long the push service keeps an undelivered message
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+// Where a tap on the notification opens, by notification type
+const NOTIFICATION_URLS: Record<string, string> = {
+  message: '/messages',
+  order: '/orders',
+  funding: '/funding-hub',
+  match: '/marketplace',
+  system: '/',
+};
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replaceAll('-', '+').replaceAll('_', '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export function loadVapidKeys(): VapidKeys | null {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:support@wathaci.com',
+  };
+}
+
+// ES256 JWT for the push service's origin; WebCrypto already returns the raw
+// r || s signature JOSE expects
+async function vapidAuthorization(endpoint: string, vapid: VapidKeys): Promise<string> {
+  const publicBytes = base64UrlDecode(vapid.publicKey);
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicBytes.slice(1, 33)),
+      y: base64UrlEncode(publicBytes.slice(33, 65)),
+      ext: true,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign'],
+  );
+
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_SECONDS,
+    sub: vapid.subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+  const signature = new Uint8Array(
+    await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(unsigned)),
+  );
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, bits: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, bits));
+}
+
+// RFC 8291: one aes128gcm record keyed from an ephemeral ECDH exchange with
+// the subscription's p256dh key and its auth secret
+async function encryptPayload(subscription: WebPushSubscription, payload: Uint8Array): Promise<Uint8Array> {
+  const clientPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  const serverKeys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const serverPublic = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+  const clientKey = await crypto.subtle.importKey('raw', clientPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: clientKey }, serverKeys.privateKey, 256),
+  );
+
+  const ikm = await hkdf(
+    authSecret,
+    sharedSecret,
+    concat(encoder.encode('WebPush: info\0'), clientPublic, serverPublic),
+    256,
+  );
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 128);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 96);
+
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  // 0x02 marks the last (and only) record
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(payload, new Uint8Array([2]))),
+  );
+
+  const header = new Uint8Array(16 + 4 + 1 + serverPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublic.length;
+  header.set(serverPublic, 21);
+
+  return concat(header, ciphertext);
+}
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  message: PushMessage,
+  vapid: VapidKeys,
+): Promise<PushResult> {
+  try {
+    const body = await encryptPayload(subscription, encoder.encode(JSON.stringify(message)));
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(PUSH_TTL_SECONDS),
+        Urgency: 'high',
+      },
+      body,
+    });
+
+    const ok = response.status >= 200 && response.status < 300;
+    const error = ok ? undefined : (await response.text()).slice(0, 500) || response.statusText;
+    return { status: response.status, ok, gone: response.status === 404 || response.status === 410, error };
+  } catch (error) {
+    return { status: 0, ok: false, gone: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function pushMessageForNotification(notification: {
+  id: string;
+  title: string;
+  body: string;
+  type: string;
+  data?: Record<string, unknown> | null;
+}): PushMessage {
+  const data = notification.data || {};
+  return {
+    title: notification.title,
+    body: notification.body,
+    tag: notification.id,
+    url: typeof data.url === 'string' ? data.url : NOTIFICATION_URLS[notification.type] || '/',
+    data: { ...data, notification_id: notification.id, type: notification.type },
+  };
+}
+
+// Sends `message` to every active webpush subscription of `userId`
+export async function sendToUser(
+  supabase: SupabaseClientLike,
+  userId: string,
+  message: PushMessage,
+  vapid: VapidKeys,
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { sent: 0, failed: 0, deactivated: 0, skipped: 0 };
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, provider, endpoint, p256dh, auth, failure_count')
+    .eq('user_id', userId)
+    .eq('is_active', true);
+  if (error) throw error;
+
+  for (const subscription of subscriptions || []) {
+    // FCM registration tokens need the FCM API, not Web Push
+    if (subscription.provider !== 'webpush' || !subscription.endpoint || !subscription.p256dh || !subscription.auth) {
+      summary.skipped++;
+      continue;
+    }
+
+    const result = await sendWebPush(subscription, message, vapid);
+    const now = new Date().toISOString();
+
+    if (result.ok) {
+      summary.sent++;
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_success_at: now, failure_count: 0, last_error: null })
+        .eq('id', subscription.id);
+    } else if (result.gone) {
+      summary.deactivated++;
+      await supabase
+        .from('push_subscriptions')
+        .update({ is_active: false, deactivated_at: now, last_failure_at: now, last_error: `${result.status} ${result.error || ''}`.trim() })
+        .eq('id', subscription.id);
+    } else {
+      summary.failed++;
+      console.error(`Push to subscription ${subscription.id} failed:`, result.status, result.error);
+      await supabase
+        .from('push_subscriptions')
+        .update({
+          last_failure_at: now,
+          failure_count: Number(subscription.failure_count || 0) + 1,
+          last_error: `${result.status} ${result.error || ''}`.trim(),
+        })
+        .eq('id', subscription.id);
+    }
+  }
+
+  return summary;
+}
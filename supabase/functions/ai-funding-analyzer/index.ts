@@ -1,11 +1,33 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const stringList = (minItems = 1): JsonSchema => ({ type: 'array', items: { type: 'string' }, minItems });
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    matchScore: { type: 'number', minimum: 0, maximum: 100 },
+    successProbability: { type: 'number', minimum: 0, maximum: 100 },
+    strengthAreas: stringList(),
+    improvementAreas: stringList(),
+    recommendations: stringList(),
+    requiredDocuments: stringList(),
+    timelineEstimate: { type: 'string' },
+    riskFactors: stringList(0),
+    competitiveAdvantages: stringList(0)
+  },
+  required: [
+    'matchScore', 'successProbability', 'strengthAreas', 'improvementAreas', 'recommendations',
+    'requiredDocuments', 'timelineEstimate', 'riskFactors', 'competitiveAdvantages'
+  ]
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,7 +36,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const authHeader = req.headers.get('Authorization');
@@ -83,71 +104,17 @@ Provide a comprehensive analysis in JSON format with:
 
 Return ONLY valid JSON, no markdown.`;
 
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7
-      })
+    const result = await generateJson<{ matchScore: number } & Record<string, unknown>>(supabase, {
+      feature: 'ai-funding-analyzer',
+      userId: user.id,
+      messages: [{ role: 'user', content: prompt }],
+      schema: ANALYSIS_SCHEMA,
+      temperature: 0.7
     });
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', errorText);
-      throw new Error('AI analysis failed');
-    }
-
-    const aiData = await aiResponse.json();
-    const analysisText = aiData.choices[0]?.message?.content || '';
-    
-    // Parse JSON from response
-    let analysis;
-    try {
-      // Remove any markdown code blocks if present
-      const cleanedText = analysisText.replace(/```json\n?|\n?```/g, '').trim();
-      analysis = JSON.parse(cleanedText);
-    } catch (e) {
-      console.error('Failed to parse AI response:', analysisText);
-      // Provide fallback analysis
-      analysis = {
-        matchScore: 75,
-        successProbability: 65,
-        strengthAreas: [
-          'Business is operational and generating revenue',
-          'Clear understanding of market needs',
-          'Located in an emerging market with growth potential',
-          'Demonstrated commitment to business development'
-        ],
-        improvementAreas: [
-          'Complete financial documentation',
-          'Develop detailed business plan',
-          'Establish impact measurement framework',
-          'Build strategic partnerships'
-        ],
-        recommendations: [
-          'Prepare audited financial statements for the last 3 years',
-          'Develop a comprehensive 5-year business plan',
-          'Create detailed impact metrics aligned with SDGs',
-          'Obtain letters of support from stakeholders',
-          'Complete all required compliance documentation'
-        ],
-        requiredDocuments: [
-          'Business registration certificate',
-          'Tax compliance certificates',
-          'Financial statements',
-          'Business plan',
-          'ID documents of directors'
-        ],
-        timelineEstimate: '4-6 weeks',
-        riskFactors: ['Incomplete documentation', 'Market competition'],
-        competitiveAdvantages: ['Local market knowledge', 'Operational experience']
-      };
-    }
+    // No made-up analysis when the model cannot produce one
+    if (!result.data) throw new Error(`AI analysis failed: ${result.error}`);
+    const analysis = result.data;
 
     // Save analysis to database if opportunity specific
     if (opportunityId) {
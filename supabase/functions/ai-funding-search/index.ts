@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,6 +26,44 @@ interface FundingOpportunity {
   confidence_score: number;
 }
 
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const OPPORTUNITIES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    opportunities: {
+      type: 'array',
+      maxItems: 15,
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          organization: { type: 'string' },
+          funding_type: {
+            type: 'string',
+            enum: ['grant', 'loan', 'equity', 'competition', 'accelerator', 'technical_assistance']
+          },
+          summary: { type: 'string' },
+          eligibility_criteria: stringList,
+          sectors: stringList,
+          target_stage: { type: 'array', items: { type: 'string', enum: ['idea', 'early', 'growth', 'established'] } },
+          amount_display: { type: 'string' },
+          amount_min: { type: 'number', minimum: 0, nullable: true },
+          amount_max: { type: 'number', minimum: 0, nullable: true },
+          deadline: { type: 'string', nullable: true },
+          region_focus: stringList,
+          requirements: { type: 'string' },
+          application_url: { type: 'string' },
+          source_url: { type: 'string' },
+          confidence_score: { type: 'number', minimum: 0, maximum: 1 }
+        },
+        required: ['title', 'organization', 'funding_type', 'summary', 'application_url', 'confidence_score']
+      }
+    }
+  },
+  required: ['opportunities']
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -33,7 +72,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const { action, forceRefresh } = await req.json();
@@ -109,40 +147,17 @@ Focus on opportunities that:
 - Have clear eligibility criteria
 - Come from reputable organizations
 
-Return ONLY a valid JSON array of 15 opportunities. No markdown, no explanation.`;
+Return ONLY a JSON object of the form {"opportunities": [...]} with 15 opportunities. No markdown, no explanation.`;
 
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [{ role: 'user', content: searchPrompt }],
-            temperature: 0.7
-          })
+        const result = await generateJson<{ opportunities: FundingOpportunity[] }>(supabase, {
+          feature: 'ai-funding-search',
+          messages: [{ role: 'user', content: searchPrompt }],
+          schema: OPPORTUNITIES_SCHEMA,
+          temperature: 0.7
         });
 
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error('AI search failed:', aiResponse.status, errorText);
-          throw new Error('AI search failed');
-        }
-
-        const aiData = await aiResponse.json();
-        const responseText = aiData.choices[0]?.message?.content || '';
-        console.log('AI Response received, parsing...');
-
-        let opportunities: FundingOpportunity[];
-        try {
-          const cleanedText = responseText.replace(/```json\n?|\n?```/g, '').trim();
-          opportunities = JSON.parse(cleanedText);
-        } catch (parseError) {
-          console.error('Failed to parse AI response:', parseError);
-          console.error('Response text:', responseText.substring(0, 500));
-          throw new Error('Failed to parse funding opportunities');
-        }
+        if (!result.data) throw new Error(`AI search failed: ${result.error}`);
+        const opportunities = result.data.opportunities;
 
         // Validate and store opportunities
         const now = new Date().toISOString();
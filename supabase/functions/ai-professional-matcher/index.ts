@@ -0,0 +1,544 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
+import {
+  fallbackPricing,
+  fallbackReason,
+  priceStats,
+  rankProfessionals,
+  rankServices,
+  tokenize,
+  toRecommendation,
+  type GapMatchRequest,
+  type GapMatchResponse,
+  type MarketplaceAssistantRequest,
+  type MarketplaceAssistantResponse,
+  type MarketplaceSearchRequest,
+  type MarketplaceSearchResponse,
+  type MatcherRequest,
+  type PricingAnalysisRequest,
+  type PricingAnalysisResponse,
+  type ProfessionalCandidate,
+  type RankedService,
+  type RecommendationsRequest,
+  type RecommendationsResponse,
+  type ServiceCandidate
+} from "../_shared/professional-matcher.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// The deterministic ranking is returned if the model takes longer than this
+const AI_TIMEOUT_MS = 12000;
+
+// Candidate pool loaded per request, and how many of the best are shown to
+// the model for re-ranking
+const CANDIDATE_LIMIT = 300;
+const RERANK_LIMIT = 15;
+const RESULT_LIMIT = 8;
+const MAX_TEXT_LENGTH = 2000;
+
+const DEFAULT_SUGGESTIONS = [
+  'Find business registration services',
+  'Compare accounting services',
+  'Show top rated providers'
+];
+
+// deno-lint-ignore no-explicit-any
+type SupabaseClient = any;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const clip = (value: unknown, length = MAX_TEXT_LENGTH) =>
+  typeof value === 'string' ? value.slice(0, length) : '';
+
+// Each prompt spells out its JSON shape; `validate` checks the content
+// against the candidates (known ids, sane numbers)
+const OBJECT_SCHEMA: JsonSchema = { type: 'object', properties: {} };
+
+// Asks the model for a JSON object. Returns null when the call fails or
+// times out, or the output does not pass `validate`; the caller then answers
+// from the deterministic ranking. One attempt only: the fallback is already
+// a complete answer, so a retry would only make the user wait.
+async function askModel<T>(
+  supabase: SupabaseClient,
+  usage: { feature: string; userId: string | null },
+  prompt: string,
+  validate: (value: unknown) => T | null
+): Promise<T | null> {
+  const result = await generateJson<unknown>(supabase, {
+    feature: `ai-professional-matcher.${usage.feature}`,
+    userId: usage.userId,
+    messages: [
+      { role: 'system', content: 'You are the WATHACI marketplace assistant for Zambian SMEs. Reply with a single JSON object and nothing else.' },
+      { role: 'user', content: prompt }
+    ],
+    schema: OBJECT_SCHEMA,
+    temperature: 0.3,
+    maxAttempts: 1,
+    timeoutMs: AI_TIMEOUT_MS
+  });
+
+  if (result.data === null) {
+    console.error('AI call failed, using deterministic ranking:', result.error);
+    return null;
+  }
+  return validate(result.data);
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+// --------------------------------------------------------------------------
+// Data
+// --------------------------------------------------------------------------
+
+async function loadServiceCandidates(
+  supabase: SupabaseClient,
+  options: { category?: string; excludeProviderId?: string | null } = {}
+): Promise<ServiceCandidate[]> {
+  let query = supabase
+    .from('services')
+    .select('id, title, description, category, subcategory, skills, location, price, currency, images, is_featured, orders_count, provider_id, provider_type, created_at')
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(CANDIDATE_LIMIT);
+
+  if (options.category) query = query.eq('category', options.category);
+  if (options.excludeProviderId) query = query.neq('provider_id', options.excludeProviderId);
+
+  const { data: services, error } = await query;
+  if (error) throw error;
+  if (!services?.length) return [];
+
+  const serviceIds = services.map((s: { id: string }) => s.id);
+  const providerIds = [...new Set(services.map((s: { provider_id: string }) => s.provider_id))];
+
+  const [{ data: reviews }, { data: providers }] = await Promise.all([
+    supabase.from('service_reviews').select('service_id, rating').in('service_id', serviceIds),
+    supabase.from('v_directory_profiles').select('id, full_name, display_name, business_name').in('id', providerIds)
+  ]);
+
+  const ratings = new Map<string, { total: number; count: number }>();
+  for (const review of reviews || []) {
+    const entry = ratings.get(review.service_id) || { total: 0, count: 0 };
+    entry.total += Number(review.rating);
+    entry.count += 1;
+    ratings.set(review.service_id, entry);
+  }
+
+  const names = new Map<string, string>(
+    (providers || []).map((p: { id: string; business_name: string | null; display_name: string | null; full_name: string | null }) =>
+      [p.id, p.business_name || p.display_name || p.full_name || '']
+    )
+  );
+
+  return services.map((service: Omit<ServiceCandidate, 'review_average' | 'review_count'>) => {
+    const rating = ratings.get(service.id);
+    return {
+      ...service,
+      provider_name: names.get(service.provider_id) || null,
+      review_average: rating ? rating.total / rating.count : 0,
+      review_count: rating?.count || 0
+    };
+  });
+}
+
+// A couple of recent review texts per service, so the model's reasons can
+// quote what buyers said rather than guess
+async function loadReviewSnippets(supabase: SupabaseClient, serviceIds: string[]): Promise<Map<string, string[]>> {
+  const snippets = new Map<string, string[]>();
+  if (!serviceIds.length) return snippets;
+
+  const { data } = await supabase
+    .from('service_reviews')
+    .select('service_id, review')
+    .in('service_id', serviceIds)
+    .not('review', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(serviceIds.length * 5);
+
+  for (const row of data || []) {
+    const list = snippets.get(row.service_id) || [];
+    if (list.length < 2) list.push(clip(row.review, 200));
+    snippets.set(row.service_id, list);
+  }
+  return snippets;
+}
+
+function describeCandidates(ranked: RankedService[], snippets: Map<string, string[]>): string {
+  return JSON.stringify(ranked.map(({ candidate }) => ({
+    id: candidate.id,
+    title: candidate.title,
+    category: candidate.category,
+    price: `${candidate.currency} ${candidate.price}`,
+    rating: candidate.review_count ? `${candidate.review_average.toFixed(1)} (${candidate.review_count} reviews)` : 'no reviews',
+    description: clip(candidate.description, 300),
+    reviews: snippets.get(candidate.id) || []
+  })));
+}
+
+// Lets the model re-order the top candidates and say why. Only ids from the
+// candidate list are accepted; anything the model leaves out keeps its
+// deterministic position after the ones it ranked.
+async function rerank(
+  supabase: SupabaseClient,
+  ranked: RankedService[],
+  intent: string,
+  usage: { feature: string; userId: string | null }
+): Promise<{ ranked: RankedService[]; reasons: Map<string, string>; source: 'ai' | 'fallback' }> {
+  const pool = ranked.slice(0, RERANK_LIMIT);
+  const fallback = { ranked, reasons: new Map<string, string>(), source: 'fallback' as const };
+  if (pool.length < 2) return fallback;
+
+  const snippets = await loadReviewSnippets(supabase, pool.map((r) => r.candidate.id));
+  const ids = new Set(pool.map((r) => r.candidate.id));
+
+  const result = await askModel(
+    supabase,
+    usage,
+    `${intent}
+
+Candidate services (only these exist):
+${describeCandidates(pool, snippets)}
+
+Order the candidates from best to worst fit. Return {"ranked":[{"id":"<candidate id>","reason":"<one sentence, max 20 words, based only on the candidate data>"}]}. Use only ids from the list; leave out poor fits.`,
+    (value) => {
+      const list = (value as { ranked?: unknown })?.ranked;
+      if (!Array.isArray(list)) return null;
+      const valid = list.filter((r) => r && ids.has(r.id) && typeof r.reason === 'string');
+      return valid.length ? valid as { id: string; reason: string }[] : null;
+    }
+  );
+
+  if (!result) return fallback;
+
+  const byId = new Map(ranked.map((r) => [r.candidate.id, r]));
+  const seen = new Set<string>();
+  const ordered: RankedService[] = [];
+  for (const { id } of result) {
+    if (!seen.has(id)) {
+      seen.add(id);
+      ordered.push(byId.get(id)!);
+    }
+  }
+  for (const r of ranked) {
+    if (!seen.has(r.candidate.id)) ordered.push(r);
+  }
+
+  return { ranked: ordered, reasons: new Map(result.map((r) => [r.id, clip(r.reason, 200)])), source: 'ai' };
+}
+
+// --------------------------------------------------------------------------
+// Handlers, one per request type
+// --------------------------------------------------------------------------
+
+async function pricingAnalysis(
+  supabase: SupabaseClient,
+  body: PricingAnalysisRequest,
+  userId: string | null
+): Promise<PricingAnalysisResponse> {
+  const description = clip(body.description);
+  if (!description.trim()) throw new Error('description is required');
+
+  const terms = tokenize(description, body.category);
+  let comparables = await loadServiceCandidates(supabase, { category: body.category });
+  // Too few listings in the category: compare against similar listings anywhere
+  if (comparables.length < 3) {
+    comparables = rankServices(await loadServiceCandidates(supabase), terms, 50).map((r) => r.candidate);
+  }
+  comparables = comparables.filter((c) => c.currency === 'ZMW');
+
+  const stats = priceStats(comparables.map((c) => Number(c.price)));
+  const marketData = { averagePrice: stats.averagePrice, priceRange: stats.priceRange, competitorCount: stats.competitorCount };
+  const pricing = fallbackPricing(stats, body.category);
+
+  if (!pricing) {
+    return { source: 'fallback', pricing: null, marketData };
+  }
+
+  const advice = await askModel(
+    supabase,
+    { feature: body.type, userId },
+    `A seller in ${clip(body.location, 100) || 'Zambia'} is pricing a ${body.productType || 'service'}${body.category ? ` in ${clip(body.category, 100)}` : ''}:
+"${description}"
+
+Comparable ZMW listings: ${stats.competitorCount}, median ${stats.median}, lower quartile ${stats.lowerQuartile}, upper quartile ${stats.upperQuartile}, range ${stats.priceRange.min}-${stats.priceRange.max}.
+
+Suggest a price within the range and explain it. Return {"suggestedPrice":<number>,"factors":["<3-5 short factors>"],"reasoning":"<two sentences>"}.`,
+    (value) => {
+      const v = value as { suggestedPrice?: unknown; factors?: unknown; reasoning?: unknown };
+      const price = Number(v?.suggestedPrice);
+      if (!Number.isFinite(price) || !isStringArray(v?.factors) || typeof v?.reasoning !== 'string') return null;
+      return { suggestedPrice: price, factors: v.factors.slice(0, 5), reasoning: clip(v.reasoning, 500) };
+    }
+  );
+
+  if (!advice) {
+    return { source: 'fallback', pricing, marketData };
+  }
+
+  // The model only moves the price within the observed market
+  const suggestedPrice = Math.round(Math.min(Math.max(advice.suggestedPrice, stats.priceRange.min), stats.priceRange.max));
+  return {
+    source: 'ai',
+    pricing: { ...pricing, suggestedPrice, factors: advice.factors, reasoning: advice.reasoning },
+    marketData
+  };
+}
+
+async function marketplaceAssistant(
+  supabase: SupabaseClient,
+  body: MarketplaceAssistantRequest,
+  userId: string | null
+): Promise<MarketplaceAssistantResponse> {
+  const message = clip(body.message, 1000);
+  if (!message.trim()) throw new Error('message is required');
+
+  const ranked = rankServices(await loadServiceCandidates(supabase), tokenize(message), RERANK_LIMIT);
+  const snippets = await loadReviewSnippets(supabase, ranked.map((r) => r.candidate.id));
+  const ids = new Set(ranked.map((r) => r.candidate.id));
+  const history = (body.conversationHistory || [])
+    .slice(-5)
+    .map((m) => `${m.type === 'user' ? 'User' : 'Assistant'}: ${clip(m.content, 500)}`)
+    .join('\n');
+
+  const reply = await askModel(
+    supabase,
+    { feature: body.type, userId },
+    `${body.context?.page ? `The user is on the ${clip(body.context.page, 50)} page.\n` : ''}${history ? `Conversation so far:\n${history}\n` : ''}User: ${message}
+
+Marketplace services that match the question (only these exist; do not mention any others):
+${describeCandidates(ranked, snippets)}
+
+Answer the user helpfully in under 120 words, referring to the services above by title where relevant. Return {"response":"<answer>","recommended_ids":["<ids of services you referred to>"],"suggestions":["<3 short follow-up questions>"]}.`,
+    (value) => {
+      const v = value as { response?: unknown; recommended_ids?: unknown; suggestions?: unknown };
+      if (typeof v?.response !== 'string' || !v.response.trim()) return null;
+      return {
+        response: clip(v.response),
+        recommendedIds: isStringArray(v.recommended_ids) ? v.recommended_ids.filter((id) => ids.has(id)) : [],
+        suggestions: isStringArray(v.suggestions) ? v.suggestions.slice(0, 3).map((s) => clip(s, 100)) : DEFAULT_SUGGESTIONS
+      };
+    }
+  );
+
+  if (reply) {
+    const byId = new Map(ranked.map((r) => [r.candidate.id, r]));
+    return {
+      source: 'ai',
+      response: reply.response,
+      suggestions: reply.suggestions,
+      recommendations: reply.recommendedIds.map((id) => toRecommendation(byId.get(id)!))
+    };
+  }
+
+  const top = ranked.slice(0, 3);
+  return {
+    source: 'fallback',
+    response: top.length
+      ? `Here are services on the marketplace that match your question:\n${top
+        .map((r) => `• ${r.candidate.title} (${r.candidate.currency} ${Number(r.candidate.price).toLocaleString()}) — ${fallbackReason(r)}`)
+        .join('\n')}`
+      : 'I couldn\'t find a marketplace service for that yet. Try describing the kind of help you need, for example "bookkeeping" or "business registration".',
+    suggestions: DEFAULT_SUGGESTIONS,
+    recommendations: top.map((r) => toRecommendation(r))
+  };
+}
+
+async function recommendations(
+  supabase: SupabaseClient,
+  body: RecommendationsRequest,
+  userId: string | null
+): Promise<RecommendationsResponse> {
+  const candidates = await loadServiceCandidates(supabase, { excludeProviderId: userId });
+  const profile = body.userProfile || {};
+
+  // Trending and new are plain orderings; the model has nothing to add
+  if (body.recommendationType === 'trending' || body.recommendationType === 'new') {
+    const ranked = rankServices(candidates, [], CANDIDATE_LIMIT);
+    if (body.recommendationType === 'new') {
+      ranked.sort((a, b) => b.candidate.created_at.localeCompare(a.candidate.created_at));
+    } else {
+      ranked.sort((a, b) => (b.candidate.orders_count || 0) - (a.candidate.orders_count || 0) || b.score - a.score);
+    }
+    return {
+      source: 'fallback',
+      recommendations: ranked.slice(0, RESULT_LIMIT).map((r) => toRecommendation(
+        r,
+        body.recommendationType === 'new' ? 'Recently listed' : `${r.candidate.orders_count || 0} orders so far`
+      ))
+    };
+  }
+
+  const terms = body.recommendationType === 'similar'
+    ? tokenize(body.searchHistory || [])
+    : tokenize(profile.industry_sector, profile.preferred_sectors, profile.skills, body.searchHistory || []);
+
+  let ranked = rankServices(candidates, terms, RERANK_LIMIT * 2);
+  if (!ranked.length) ranked = rankServices(candidates, [], RERANK_LIMIT * 2);
+
+  const intent = `Recommend marketplace services for a ${profile.account_type || 'business'} user` +
+    `${profile.industry_sector ? ` in ${clip(profile.industry_sector, 100)}` : ''}` +
+    `${profile.skills?.length ? ` with skills ${clip(profile.skills.join(', '), 200)}` : ''}` +
+    `${body.searchHistory?.length ? ` who recently searched for ${clip(body.searchHistory.slice(-5).join(', '), 200)}` : ''}.`;
+
+  const result = await rerank(supabase, ranked, intent, { feature: body.type, userId });
+  return {
+    source: result.source,
+    recommendations: result.ranked
+      .slice(0, RESULT_LIMIT)
+      .map((r) => toRecommendation(r, result.reasons.get(r.candidate.id)))
+  };
+}
+
+async function marketplaceSearch(
+  supabase: SupabaseClient,
+  body: MarketplaceSearchRequest,
+  userId: string | null
+): Promise<MarketplaceSearchResponse> {
+  const query = clip(body.query, 200);
+  if (!query.trim()) throw new Error('query is required');
+
+  const filters = (body.filters || []).map((f) => f.toLowerCase());
+  let candidates = await loadServiceCandidates(supabase);
+  if (filters.length) {
+    candidates = candidates.filter((c) => filters.includes(c.category.toLowerCase()));
+  }
+
+  const ranked = rankServices(candidates, tokenize(query), RERANK_LIMIT * 2);
+  const result = await rerank(supabase, ranked, `A user searched the marketplace for "${query}".`, { feature: body.type, userId });
+  const results = result.ranked.slice(0, RESULT_LIMIT);
+
+  // Follow-up searches built from the categories and skills of the results
+  const related = [...new Set(results.flatMap((r) => [r.candidate.category, ...(r.candidate.skills || [])]))]
+    .filter((s) => s && !query.toLowerCase().includes(s.toLowerCase()))
+    .slice(0, 3);
+
+  const categories = [...new Set(results.map((r) => r.candidate.category))];
+  return {
+    source: result.source,
+    recommendations: results.map((r) => toRecommendation(r, result.reasons.get(r.candidate.id))),
+    suggestions: related.length ? related.map((s) => `${query} ${s}`.slice(0, 100)) : [`${query} in Lusaka`],
+    insight: results.length
+      ? `Found ${results.length} service${results.length === 1 ? '' : 's'} for "${query}"${categories.length ? ` in ${categories.slice(0, 3).join(', ')}` : ''}.`
+      : `No services match "${query}" yet. Try a broader term or remove filters.`
+  };
+}
+
+async function gapMatch(supabase: SupabaseClient, body: GapMatchRequest, userId: string | null): Promise<GapMatchResponse> {
+  const gaps = (body.gaps || []).filter((g) => typeof g === 'string' && g.trim()).slice(0, 10).map((g) => clip(g, 200));
+  if (!gaps.length) throw new Error('gaps are required');
+
+  let query = supabase
+    .from('v_directory_profiles')
+    .select('id, full_name, display_name, professional_title, primary_skills, industry, bio, freelancer_services, city, experience_level')
+    .in('account_type', ['professional', 'freelancer'])
+    .limit(CANDIDATE_LIMIT);
+  if (userId) query = query.neq('id', userId);
+
+  const { data: professionals, error } = await query;
+  if (error) throw error;
+
+  const candidates = (professionals || []) as ProfessionalCandidate[];
+  const ranked = rankProfessionals(candidates, gaps, RERANK_LIMIT);
+  if (ranked.length < 2) {
+    return { source: 'fallback', matches: ranked.slice(0, RESULT_LIMIT) };
+  }
+
+  const ids = new Set(ranked.map((m) => m.id));
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  const result = await askModel(
+    supabase,
+    { feature: 'gap_match', userId },
+    `An SME needs help with: ${JSON.stringify(gaps)}
+
+Candidate professionals (only these exist):
+${JSON.stringify(ranked.map((m) => {
+  const c = byId.get(m.id)!;
+  return { id: m.id, title: c.professional_title, skills: c.primary_skills, industry: c.industry, services: clip(c.freelancer_services, 300), bio: clip(c.bio, 300) };
+}))}
+
+Order them from best to worst fit. Return {"ranked":[{"id":"<id>","reason":"<one sentence naming the gap they cover>"}]}. Use only ids from the list.`,
+    (value) => {
+      const list = (value as { ranked?: unknown })?.ranked;
+      if (!Array.isArray(list)) return null;
+      const valid = list.filter((r) => r && ids.has(r.id) && typeof r.reason === 'string');
+      return valid.length ? valid as { id: string; reason: string }[] : null;
+    }
+  );
+
+  if (!result) {
+    return { source: 'fallback', matches: ranked.slice(0, RESULT_LIMIT) };
+  }
+
+  const matchById = new Map(ranked.map((m) => [m.id, m]));
+  const ordered = [...new Set(result.map((r) => r.id))].map((id) => ({
+    ...matchById.get(id)!,
+    reasons: [clip(result.find((r) => r.id === id)!.reason, 200), ...matchById.get(id)!.reasons]
+  }));
+  for (const m of ranked) {
+    if (!ordered.some((o) => o.id === m.id)) ordered.push(m);
+  }
+  return { source: 'ai', matches: ordered.slice(0, RESULT_LIMIT) };
+}
+
+// Marketplace AI: pricing help, the assistant, recommendations, search and
+// professional matching. See _shared/professional-matcher.ts for the
+// contract of each request type.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The marketplace can be browsed signed out; a signed-in user only
+    // changes which results are excluded (their own listings)
+    let userId: string | null = null;
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (token) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      userId = user?.id ?? null;
+    }
+
+    const body: MatcherRequest = await req.json();
+    const type = body.type || ('gaps' in body ? 'gap_match' : undefined);
+    console.log('Professional matcher request:', type, 'user:', userId);
+
+    switch (type) {
+      case 'pricing_analysis':
+        return jsonResponse(await pricingAnalysis(supabase, body as PricingAnalysisRequest, userId));
+
+      case 'marketplace_assistant':
+        return jsonResponse(await marketplaceAssistant(supabase, body as MarketplaceAssistantRequest, userId));
+
+      case 'marketplace_recommendations':
+      case 'personalized_recommendations':
+        return jsonResponse(await recommendations(supabase, body as RecommendationsRequest, userId));
+
+      case 'marketplace_search':
+        return jsonResponse(await marketplaceSearch(supabase, body as MarketplaceSearchRequest, userId));
+
+      case 'gap_match':
+        if (!userId) return jsonResponse({ error: 'Authorization required' }, 401);
+        return jsonResponse(await gapMatch(supabase, body as GapMatchRequest, userId));
+
+      default:
+        return jsonResponse({ error: `Unknown type: ${type}` }, 400);
+    }
+  } catch (error: unknown) {
+    console.error('Professional matcher error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: message }, 400);
+  }
+});
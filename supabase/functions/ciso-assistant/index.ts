@@ -1,13 +1,13 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateText, type AiMessage } from "../_shared/ai.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-
 const CISO_SYSTEM_PROMPT = `You are Ciso, the friendly AI assistant for WATHACI Connect - Zambia's premier business services ecosystem. Your name "Ciso" is inspired by the Zambian spirit of community and support.
 
 ## About WATHACI Connect
@@ -98,48 +98,37 @@ serve(async (req) => {
       (msg: any) => msg && typeof msg.type === 'string' && typeof msg.content === 'string'
     );
 
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ 
-          response: "I'm having trouble connecting right now. Please try again later or contact support@wathaci.com for assistance.",
-          error: 'API key not configured'
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    // Ciso also answers signed-out visitors; usage is attributed when possible
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
 
     // Build messages array with conversation history (using sanitized inputs)
-    const messages = [
+    const messages: AiMessage[] = [
       { role: 'system', content: CISO_SYSTEM_PROMPT },
-      ...limitedHistory.map((msg: { type: string; content: string }) => ({
+      ...limitedHistory.map((msg: { type: string; content: string }): AiMessage => ({
         role: msg.type === 'user' ? 'user' : 'assistant',
         content: String(msg.content).slice(0, 2000) // Limit each message length
       })),
       { role: 'user', content: sanitizedMessage }
     ];
 
-    console.log('Calling Lovable AI with message:', message);
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages,
-        max_tokens: 1024,
-        temperature: 0.7,
-      }),
+    const result = await generateText(supabase, {
+      feature: 'ciso-assistant',
+      userId: user?.id,
+      messages,
+      maxTokens: 1024,
+      temperature: 0.7,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Lovable AI error:', response.status, errorText);
-      
-      if (response.status === 429) {
+    if (result.data === null) {
+      if (result.status === 429) {
         return new Response(
           JSON.stringify({ 
             response: "I'm receiving many requests right now. Please wait a moment and try again.",
@@ -149,7 +138,7 @@ serve(async (req) => {
         );
       }
       
-      if (response.status === 402) {
+      if (result.status === 402) {
         return new Response(
           JSON.stringify({ 
             response: "There's a temporary service issue. Please try again later or contact support@wathaci.com.",
@@ -159,11 +148,10 @@ serve(async (req) => {
         );
       }
 
-      throw new Error(`AI gateway error: ${response.status}`);
+      throw new Error(result.error);
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || "I apologize, but I couldn't process your request. Please try again.";
+    const aiResponse = result.data;
 
     console.log('Ciso response generated successfully');
 
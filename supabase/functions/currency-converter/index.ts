@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getFxRate, refreshFxRates, roundMoney, SUPPORTED_CURRENCIES } from "../_shared/fx-rates.ts";
+import { calculateTax, loadTaxRules } from "../_shared/tax-engine.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How long a quoted rate can be honoured at checkout
+const QUOTE_TTL_MS = 30 * 60 * 1000;
+
+interface ConvertRequest {
+  action?: "convert" | "refresh" | "rates";
+  amount?: number;
+  fromCurrency?: string;
+  toCurrency?: string;
+  includeVat?: boolean;
+  // Record the conversion as a quote that can be paid at checkout
+  quote?: boolean;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const body: ConvertRequest = await req.json().catch(() => ({}));
+    const action = body.action || "convert";
+
+    switch (action) {
+      case "refresh": {
+        // Called hourly by the 'fx-rates-refresh' cron job
+        if (token !== supabaseServiceKey) {
+          return jsonResponse({ error: "Forbidden" }, 403);
+        }
+
+        const result = await refreshFxRates(supabase);
+        console.log("FX rate refresh", result);
+        return jsonResponse({ success: !result.error, ...result }, result.error ? 502 : 200);
+      }
+
+      case "rates": {
+        const { data: rates, error } = await supabase
+          .from("fx_rates")
+          .select("base_currency, quote_currency, rate, source, fetched_at")
+          .order("quote_currency");
+
+        if (error) throw error;
+        return jsonResponse({ success: true, rates });
+      }
+
+      case "convert": {
+        const amount = Number(body.amount);
+        const fromCurrency = (body.fromCurrency || "").toUpperCase();
+        const toCurrency = (body.toCurrency || "ZMW").toUpperCase();
+
+        if (!Number.isFinite(amount) || amount <= 0) {
+          return jsonResponse({ error: "Invalid amount" }, 400);
+        }
+
+        if (!SUPPORTED_CURRENCIES.includes(fromCurrency) || !SUPPORTED_CURRENCIES.includes(toCurrency)) {
+          return jsonResponse(
+            { error: `Supported currencies are ${SUPPORTED_CURRENCIES.join(", ")}` },
+            400,
+          );
+        }
+
+        const rate = await getFxRate(supabase, fromCurrency, toCurrency);
+        if (!rate) {
+          return jsonResponse({ error: `No exchange rate available for ${fromCurrency} to ${toCurrency}` }, 503);
+        }
+
+        const convertedAmount = roundMoney(amount * rate.rate);
+        // VAT on a kwacha price, as a VAT-registered provider would charge it
+        // under the current tax rules
+        let vatRate = 0;
+        let vatAmount = 0;
+        if (toCurrency === "ZMW" && body.includeVat !== false) {
+          const tax = calculateTax(await loadTaxRules(supabase), {
+            amount: convertedAmount,
+            currency: toCurrency,
+            category: "service",
+            sellerVatStatus: "registered",
+          });
+          const vatLines = tax.lines.filter((line) => line.tax_type === "vat" && line.treatment === "added");
+          vatRate = vatLines.reduce((total, line) => total + line.rate, 0);
+          vatAmount = roundMoney(vatLines.reduce((total, line) => total + line.amount, 0));
+        }
+        const finalAmount = roundMoney(convertedAmount + vatAmount);
+        const expiresAt = new Date(Date.now() + QUOTE_TTL_MS).toISOString();
+
+        // Conversions work signed out too, but only a signed-in checkout gets
+        // a stored quote that lenco-payments will honour
+        let quote: { id: string } | null = null;
+        if (body.quote) {
+          const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+          if (!user) {
+            return jsonResponse({ error: "Sign in to lock in an exchange rate" }, 401);
+          }
+
+          const { data: quoteRow, error: quoteError } = await supabase
+            .from("fx_quotes")
+            .insert({
+              user_id: user.id,
+              from_currency: fromCurrency,
+              to_currency: toCurrency,
+              amount,
+              rate: rate.rate,
+              converted_amount: convertedAmount,
+              vat_rate: vatRate,
+              vat_amount: vatAmount,
+              final_amount: finalAmount,
+              from_rate_history_id: rate.fromRateHistoryId,
+              to_rate_history_id: rate.toRateHistoryId,
+              source: rate.source,
+              rate_fetched_at: rate.fetchedAt,
+              expires_at: expiresAt,
+            })
+            .select("id")
+            .single();
+
+          if (quoteError) throw quoteError;
+          quote = quoteRow;
+        }
+
+        return jsonResponse({
+          originalAmount: amount,
+          originalCurrency: fromCurrency,
+          convertedAmount,
+          finalAmount,
+          targetCurrency: toCurrency,
+          exchangeRate: rate.rate,
+          vatAmount,
+          vatRate,
+          quoteId: quote?.id ?? null,
+          rateSource: rate.source,
+          rateFetchedAt: rate.fetchedAt,
+          expiresAt,
+        });
+      }
+
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error: unknown) {
+    console.error("Currency converter error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
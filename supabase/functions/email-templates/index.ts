@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  EMAIL_TEMPLATES,
+  isEmailTemplateKey,
+  renderEmailTemplate,
+  type EmailTemplateKey,
+} from "../_shared/email-templates.ts";
+import { appUrl, unsubscribeUrl } from "../_shared/transactional-email.ts";
+
+// Admin preview of the email template registry. `list` returns every
+// template with its sample variables; `render` renders one with the given
+// variables laid over the sample, exactly as the queue would send it.
+// Nothing is enqueued.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return jsonResponse({ success: false, error: 'Authorization required' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Invalid or expired token' }, 401);
+    }
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) {
+      return jsonResponse({ success: false, error: 'Forbidden' }, 403);
+    }
+
+    const { action, template, variables } = await req.json();
+
+    switch (action) {
+      case 'list': {
+        const templates = Object.values(EMAIL_TEMPLATES).map((t) => ({
+          key: t.key,
+          version: t.version,
+          name: t.name,
+          description: t.description,
+          essential: t.essential,
+          sample: t.sample,
+        }));
+        return jsonResponse({ success: true, data: templates });
+      }
+
+      case 'render': {
+        if (!template || !isEmailTemplateKey(template)) {
+          throw new Error(`Unknown email template: ${template}`);
+        }
+        if (variables !== undefined && (typeof variables !== 'object' || variables === null || Array.isArray(variables))) {
+          throw new Error('variables must be an object');
+        }
+
+        const key: EmailTemplateKey = template;
+        const merged = { ...EMAIL_TEMPLATES[key].sample, ...(variables || {}) };
+        const rendered = renderEmailTemplate(key, merged, {
+          appUrl: appUrl(),
+          unsubscribeUrl: unsubscribeUrl('preview'),
+        });
+        return jsonResponse({ success: true, data: rendered });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Error in email-templates function:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 400);
+  }
+});
@@ -0,0 +1,90 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Handles the unsubscribe link in non-essential emails (/unsubscribe?token=).
+// The token is the only credential: `lookup` shows which address it belongs
+// to, `confirm` marks it used and adds the address to suppressed_emails.
+// Essential (billing) emails still go out afterwards; see
+// transactional-email.ts.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// j***@example.com
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split('@');
+  return `${local.slice(0, 1)}***@${domain}`;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { action, token } = await req.json();
+    if (!token || typeof token !== 'string') {
+      throw new Error('token is required');
+    }
+
+    const { data: row, error: loadError } = await supabase
+      .from('email_unsubscribe_tokens')
+      .select('id, email, used_at')
+      .eq('token', token)
+      .maybeSingle();
+    if (loadError) throw loadError;
+    if (!row) {
+      return jsonResponse({ success: false, error: 'This unsubscribe link is not valid' }, 404);
+    }
+
+    switch (action) {
+      case 'lookup':
+        return jsonResponse({
+          success: true,
+          data: { email: maskEmail(row.email), unsubscribed: !!row.used_at },
+        });
+
+      case 'confirm': {
+        if (!row.used_at) {
+          const { error: updateError } = await supabase
+            .from('email_unsubscribe_tokens')
+            .update({ used_at: new Date().toISOString() })
+            .eq('id', row.id);
+          if (updateError) throw updateError;
+
+          // A bounce or complaint suppression already there takes precedence
+          const { error: suppressError } = await supabase
+            .from('suppressed_emails')
+            .upsert(
+              { email: row.email, reason: 'unsubscribe', metadata: { source: 'unsubscribe_link' } },
+              { onConflict: 'email', ignoreDuplicates: true }
+            );
+          if (suppressError) throw suppressError;
+
+          console.log('Unsubscribed email address via link:', maskEmail(row.email));
+        }
+
+        return jsonResponse({ success: true, data: { email: maskEmail(row.email), unsubscribed: true } });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Error in email-unsubscribe function:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 400);
+  }
+});
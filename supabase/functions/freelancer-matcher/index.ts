@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  FREELANCER_SCORING_VERSION,
+  loadFreelancerCandidates,
+  rankFreelancers,
+  type FreelancerMatchRequest
+} from "../_shared/freelancer-match.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MATCH_LIMIT = 10;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Signed-out visitors can search; only signed-in searches are saved
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
+
+    const { projectRequirements, skills, budget, location } = await req.json();
+
+    const request: FreelancerMatchRequest = {
+      projectRequirements: typeof projectRequirements === 'string' ? projectRequirements.slice(0, 2000) : null,
+      skills: Array.isArray(skills) ? skills.filter((s: unknown) => typeof s === 'string').slice(0, 20) : [],
+      budget: Number.isFinite(Number(budget)) && Number(budget) > 0 ? Number(budget) : null,
+      location: typeof location === 'string' ? location.slice(0, 100) : null
+    };
+    if (!request.skills!.length && !request.projectRequirements?.trim()) {
+      throw new Error('Describe your project or list the skills you need');
+    }
+    console.log('Freelancer matcher - skills:', request.skills, 'budget:', request.budget);
+
+    const candidates = await loadFreelancerCandidates(supabase);
+    const matches = rankFreelancers(request, candidates, { limit: MATCH_LIMIT });
+
+    let runId: string | null = null;
+    if (user) {
+      const { data: run, error } = await supabase
+        .from('matcher_runs')
+        .insert({
+          user_id: user.id,
+          matcher: 'freelancer',
+          criteria: request,
+          results: matches,
+          result_count: matches.length,
+          scoring_version: FREELANCER_SCORING_VERSION
+        })
+        .select('id')
+        .single();
+
+      if (error) console.error('Error saving freelancer matches:', error);
+      runId = run?.id ?? null;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      matches,
+      runId,
+      scoringVersion: FREELANCER_SCORING_VERSION
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    console.error('Freelancer matcher error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
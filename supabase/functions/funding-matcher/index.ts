@@ -1,11 +1,40 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface RankedOpportunity {
+  id: string;
+  match_score: number;
+  description: string;
+  reasoning: string;
+}
+
+const MATCHES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    matches: {
+      type: 'array',
+      maxItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          match_score: { type: 'number', minimum: 0, maximum: 100 },
+          description: { type: 'string' },
+          reasoning: { type: 'string' }
+        },
+        required: ['id', 'match_score', 'description', 'reasoning']
+      }
+    }
+  },
+  required: ['matches']
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,7 +43,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     const { businessProfile, fundingNeeds } = await req.json();
@@ -55,6 +83,7 @@ FUNDING NEEDS:
 AVAILABLE OPPORTUNITIES:
 ${opportunities.map((o, i) => `
 ${i + 1}. ${o.title}
+   - ID: ${o.id}
    - Organization: ${o.organization}
    - Amount: ${o.amount_display || `$${o.amount_min} - $${o.amount_max}`}
    - Category: ${o.category}
@@ -63,67 +92,38 @@ ${i + 1}. ${o.title}
    - Eligibility: ${o.eligibility_criteria?.join(', ') || 'Various'}
 `).join('\n')}
 
-Return a JSON array of matched opportunities (top 5), each with:
-- id: the opportunity ID from the list (index + 1)
-- title: opportunity title
-- provider: organization name
+Return the matched opportunities (top 5), each with:
+- id: the opportunity ID from the list
 - match_score: 0-100 score
 - description: why this is a good match
-- max_amount: funding amount available
-- funding_type: type of funding
-- application_deadline: deadline if known
 - reasoning: detailed explanation of match
 
-Return ONLY valid JSON array, no markdown.`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.5
-      })
+Return ONLY a JSON object of the form {"matches": [...]}, no markdown.`;
+
+    const result = await generateJson<{ matches: RankedOpportunity[] }>(supabase, {
+      feature: 'funding-matcher',
+      messages: [{ role: 'user', content: prompt }],
+      schema: MATCHES_SCHEMA,
+      temperature: 0.5
     });
 
-    if (!aiResponse.ok) {
-      throw new Error('AI matching failed');
-    }
+    if (!result.data) throw new Error(`AI matching failed: ${result.error}`);
 
-    const aiData = await aiResponse.json();
-    const matchText = aiData.choices[0]?.message?.content || '';
-
-    let matches;
-    try {
-      const cleanedText = matchText.replace(/```json\n?|\n?```/g, '').trim();
-      matches = JSON.parse(cleanedText);
-    } catch (e) {
-      console.error('Failed to parse AI matches:', matchText);
-      // Return top opportunities as fallback
-      matches = opportunities.slice(0, 5).map((opp, i) => ({
+    // Listing details come from the opportunity itself, not the model
+    const enrichedMatches = result.data.matches.flatMap((match) => {
+      const opp = opportunities.find(o => o.id === match.id);
+      if (!opp) return [];
+      return [{
         id: opp.id,
         title: opp.title,
         provider: opp.organization,
-        match_score: 90 - i * 5,
-        description: opp.description,
+        match_score: match.match_score,
+        description: match.description,
         max_amount: opp.amount_display,
         funding_type: opp.funding_type,
         application_deadline: opp.deadline,
-        reasoning: 'Based on your business profile and funding needs'
-      }));
-    }
-
-    // Map AI matches to actual opportunity data
-    const enrichedMatches = matches.map((match: any) => {
-      const opp = opportunities.find(o => o.id === match.id || o.title === match.title);
-      return {
-        ...match,
-        id: opp?.id || match.id,
-        application_deadline: opp?.deadline || match.application_deadline
-      };
+        reasoning: match.reasoning
+      }];
     });
 
     return new Response(JSON.stringify({ success: true, matches: enrichedMatches }), {
@@ -0,0 +1,223 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getFxRate } from "../_shared/fx-rates.ts";
+import { rankFundingOpportunities, type FundingOpportunityCandidate } from "../_shared/funding-match.ts";
+import { loadFreelancerCandidates, rankFreelancers } from "../_shared/freelancer-match.ts";
+import {
+  canonicalIndustry,
+  industryFit,
+  industryRecommendations,
+  INDUSTRY_SCORING_VERSION,
+  INDUSTRY_USER_TYPES,
+  PARTNER_KINDS,
+  type Industry,
+  type IndustryMatchItem,
+  type IndustryMatchKind,
+  type IndustryMatchRequest,
+  type IndustryMatchResult
+} from "../_shared/industry-match.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const FREELANCER_LIMIT = 5;
+const FUNDING_LIMIT = 5;
+const PARTNERSHIP_LIMIT = 8;
+
+// Directory account type behind each kind of partnership match
+const ACCOUNT_TYPES: Partial<Record<IndustryMatchKind, string>> = {
+  investor: 'investor',
+  institution: 'government',
+  sme: 'sme'
+};
+
+// Sector fit counts most; a complete or verified profile is a better lead
+const partnerScore = (fit: number, trusted: boolean) => Math.round((fit * 0.8 + (trusted ? 0.2 : 0)) * 100);
+
+const fitReason = (fit: number, industry: Industry) => (fit === 1 ? `Focuses on ${industry}` : 'Open to all sectors');
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Signed-out visitors can search; only signed-in searches are saved
+    const authHeader = req.headers.get('Authorization');
+    const { data: { user } } = authHeader
+      ? await supabase.auth.getUser(authHeader.replace('Bearer ', ''))
+      : { data: { user: null } };
+
+    const body = await req.json();
+    const request: IndustryMatchRequest = {
+      industry: String(body.industry || ''),
+      userType: body.userType,
+      location: typeof body.location === 'string' ? body.location.slice(0, 100) : null,
+      requirements: typeof body.requirements === 'string' ? body.requirements.slice(0, 2000) : null
+    };
+
+    const industry = canonicalIndustry(request.industry);
+    if (!industry) throw new Error(`Unknown industry: ${request.industry}`);
+    if (!INDUSTRY_USER_TYPES.includes(request.userType)) throw new Error(`Unknown user type: ${request.userType}`);
+    console.log('Industry matcher - industry:', industry, 'user type:', request.userType);
+
+    // Freelancers who serve the industry
+    const freelancers = rankFreelancers(
+      { industry, location: request.location, projectRequirements: request.requirements },
+      await loadFreelancerCandidates(supabase, { industry }),
+      { limit: FREELANCER_LIMIT }
+    ).map((m): IndustryMatchItem => ({
+      id: m.id,
+      kind: 'freelancer',
+      label: m.name,
+      detail: m.title,
+      score: m.match_score,
+      reasons: m.reasons
+    }));
+
+    // Funding open to the industry, scored like an SME in it
+    const { data: opportunities, error: oppError } = await supabase
+      .from('funding_opportunities')
+      .select('id, title, organization, sectors, target_stage, region_focus, amount_min, amount_max, currency, deadline, eligibility_criteria')
+      .eq('is_active', true);
+
+    if (oppError) throw oppError;
+
+    const rates = new Map<string, number>();
+    const currencies = new Set((opportunities || []).map((o) => (o.currency || 'USD').toUpperCase()));
+    for (const currency of currencies) {
+      const fx = await getFxRate(supabase, currency, 'ZMW');
+      if (fx) rates.set(currency, fx.rate);
+    }
+
+    const oppById = new Map((opportunities || []).map((o) => [o.id, o]));
+    const funding = rankFundingOpportunities(
+      {
+        industry,
+        sectors: [],
+        stage: null,
+        country: 'Zambia',
+        province: request.location || null,
+        city: request.location || null,
+        fundingRange: null
+      },
+      (opportunities || []) as FundingOpportunityCandidate[],
+      rates,
+      { limit: FUNDING_LIMIT }
+    ).map((m): IndustryMatchItem => {
+      const opp = oppById.get(m.fundingId)!;
+      return {
+        id: opp.id,
+        kind: 'funding',
+        label: opp.title,
+        detail: opp.organization,
+        score: m.score,
+        reasons: m.reasons,
+        deadline: opp.deadline
+      };
+    });
+
+    // Partnerships: who is worth approaching depends on who is asking
+    const kinds = PARTNER_KINDS[request.userType];
+    const partnerships: IndustryMatchItem[] = [];
+
+    if (kinds.includes('partner')) {
+      const { data: partners, error } = await supabase
+        .from('partners')
+        .select('id, company_name, description, partnership_type, is_verified')
+        .eq('is_active', true);
+
+      if (error) throw error;
+      for (const partner of partners || []) {
+        const fit = industryFit([partner.company_name, partner.description, partner.partnership_type], industry);
+        if (!fit) continue;
+        partnerships.push({
+          id: partner.id,
+          kind: 'partner',
+          label: partner.company_name,
+          detail: partner.partnership_type,
+          score: partnerScore(fit, !!partner.is_verified),
+          reasons: [fitReason(fit, industry), ...(partner.is_verified ? ['Verified partner'] : [])]
+        });
+      }
+    }
+
+    const directoryKinds = kinds.filter((k) => ACCOUNT_TYPES[k]);
+    if (directoryKinds.length) {
+      const { data: profiles, error } = await supabase
+        .from('v_directory_profiles')
+        .select('id, account_type, display_name, business_name, institution_name, industry, sme_sectors, investor_sectors, investor_type, mandate_areas, services_or_programmes, is_profile_complete')
+        .in('account_type', directoryKinds.map((k) => ACCOUNT_TYPES[k]!))
+        .neq('id', user?.id ?? '00000000-0000-0000-0000-000000000000')
+        .limit(500);
+
+      if (error) throw error;
+      for (const profile of profiles || []) {
+        const kind = directoryKinds.find((k) => ACCOUNT_TYPES[k] === profile.account_type)!;
+        const fit = industryFit(
+          kind === 'investor'
+            ? profile.investor_sectors || []
+            : kind === 'institution'
+              ? [...(profile.mandate_areas || []), profile.services_or_programmes]
+              : [profile.industry, ...(profile.sme_sectors || [])],
+          industry
+        );
+        if (!fit) continue;
+        partnerships.push({
+          id: profile.id,
+          kind,
+          label: profile.business_name || profile.institution_name || profile.display_name || 'Member',
+          detail: kind === 'investor' ? profile.investor_type : kind === 'sme' ? profile.industry : 'Government institution',
+          score: partnerScore(fit, !!profile.is_profile_complete),
+          reasons: [fitReason(fit, industry), ...(profile.is_profile_complete ? ['Complete profile'] : [])]
+        });
+      }
+    }
+
+    partnerships.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+    const matches = { freelancers, funding, partnerships: partnerships.slice(0, PARTNERSHIP_LIMIT) };
+
+    const result: IndustryMatchResult = {
+      industry,
+      matches,
+      recommendations: industryRecommendations(request, industry, matches),
+      scoringVersion: INDUSTRY_SCORING_VERSION
+    };
+
+    let runId: string | null = null;
+    if (user) {
+      const { data: run, error } = await supabase
+        .from('matcher_runs')
+        .insert({
+          user_id: user.id,
+          matcher: 'industry',
+          criteria: { ...request, industry },
+          results: result,
+          result_count: freelancers.length + funding.length + matches.partnerships.length,
+          scoring_version: INDUSTRY_SCORING_VERSION
+        })
+        .select('id')
+        .single();
+
+      if (error) console.error('Error saving industry matches:', error);
+      runId = run?.id ?? null;
+    }
+
+    return new Response(JSON.stringify({ success: true, ...result, runId }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    console.error('Industry matcher error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
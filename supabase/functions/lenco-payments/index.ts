@@ -1,24 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { activateSubscriptionForTransaction } from "../_shared/subscription-activation.ts";
+import { fundOrderEscrowForTransaction } from "../_shared/order-escrow.ts";
+import { issueTransactionDocuments } from "../_shared/transaction-documents.ts";
+import { createMobileMoneyCollection, resolveLencoApiToken, resolveLencoApiUrl } from "../_shared/lenco-api.ts";
+import { calculateTax, loadTaxRules, loadVatStatus, scaleTaxLines, type TaxBreakdown, type TaxLine } from "../_shared/tax-engine.ts";
+import { roundMoney } from "../_shared/fx-rates.ts";
+import { checkMaintenance, fallbackFeePercent, loadPlatformSettings } from "../_shared/platform-settings.ts";
+import { calculatePlatformFee, loadFeeSchedule, loadProviderPlanId } from "../_shared/fee-schedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Lenco's collections API lives under /access/v2. The old hardcoded /access/v1
-// path returns {"success":false,"message":"Not Found"}, which surfaced in the app
-// as "Edge function returned a non 2xx status code" when funding a wallet.
-function resolveLencoApiUrl(): string {
-  const raw = (Deno.env.get("LENCO_BASE_URL") || "https://api.lenco.co").replace(/\/+$/, "");
-  if (/\/access\/v\d+$/.test(raw)) return raw;
-  if (/\/access$/.test(raw)) return `${raw}/v2`;
-  return `${raw}/access/v2`;
-}
-
-const LENCO_API_URL = resolveLencoApiUrl();
-
 interface PaymentRequest {
   action: "initiate" | "verify" | "get_fee" | "request_payout" | "submit_otp";
   amount?: number;
@@ -34,6 +29,9 @@ interface PaymentRequest {
   operator?: "mtn" | "airtel" | "zamtel";
   otp?: string;
   collection_id?: string;
+  order_id?: string;
+  milestone_id?: string;
+  fx_quote_id?: string;
 }
 
 serve(async (req) => {
@@ -45,7 +43,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lencoApiToken = Deno.env.get("LENCO_API_TOKEN")!;
 
     // Get user from auth header
     const authHeader = req.headers.get("Authorization");
@@ -77,18 +74,135 @@ serve(async (req) => {
 
     console.log(`Processing payment action: ${action} for user: ${user.id}`);
 
+    // New payments and payouts wait out maintenance; payments already under
+    // way can still be verified
+    const settings = await loadPlatformSettings(supabase);
+    if (action === "initiate" || action === "request_payout") {
+      const closed = await checkMaintenance(supabase, user.id, settings);
+      if (closed) {
+        return new Response(JSON.stringify({ error: closed }), {
+          status: 503,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
     switch (action) {
       case "initiate": {
-        const {
+        const { phone, operator, milestone_id, fx_quote_id } = body;
+        let {
+          order_id,
           amount,
           currency = "ZMW",
           description,
           recipient_id,
           transaction_type = "service_purchase",
-          phone,
-          operator,
         } = body;
 
+        // Paying for an order (or one of its milestones): the order, not the
+        // client, decides the amount, and the funds are held in escrow until
+        // the client accepts delivery.
+        let milestone: {
+          id: string;
+          order_id: string;
+          title: string;
+          amount: number;
+          platform_fee: number;
+          tax_lines: TaxLine[];
+          tax_amount: number;
+          withholding_amount: number;
+          status: string;
+          escrow_status: string;
+        } | null = null;
+
+        if (milestone_id) {
+          const { data: milestoneRow } = await supabase
+            .from("order_milestones")
+            .select("id, order_id, title, amount, platform_fee, tax_lines, tax_amount, withholding_amount, status, escrow_status")
+            .eq("id", milestone_id)
+            .maybeSingle();
+
+          if (!milestoneRow) {
+            return new Response(JSON.stringify({ error: "Milestone not found" }), {
+              status: 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          if (milestoneRow.status !== "pending" || milestoneRow.escrow_status !== "unfunded") {
+            return new Response(JSON.stringify({ error: "Milestone has already been funded" }), {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          milestone = milestoneRow;
+          order_id = milestoneRow.order_id;
+        }
+
+        let order: {
+          id: string;
+          client_id: string;
+          provider_id: string;
+          service_id: string | null;
+          service_title: string;
+          agreed_price: number;
+          platform_fee: number | null;
+          total_amount: number;
+          tax_lines: TaxLine[];
+          tax_amount: number;
+          withholding_amount: number;
+          currency: string;
+          status: string;
+          escrow_status: string;
+          payment_schedule: string;
+        } | null = null;
+
+        if (order_id) {
+          const { data: orderRow, error: orderError } = await supabase
+            .from("orders")
+            .select("id, client_id, provider_id, service_id, service_title, agreed_price, platform_fee, total_amount, tax_lines, tax_amount, withholding_amount, currency, status, escrow_status, payment_schedule")
+            .eq("id", order_id)
+            .maybeSingle();
+
+          if (orderError || !orderRow || orderRow.client_id !== user.id) {
+            return new Response(JSON.stringify({ error: "Order not found" }), {
+              status: 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          if (milestone) {
+            if (orderRow.payment_schedule !== "milestones" || !["pending", "in_progress"].includes(orderRow.status)) {
+              return new Response(JSON.stringify({ error: "Order is not accepting milestone payments" }), {
+                status: 409,
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              });
+            }
+          } else if (orderRow.payment_schedule === "milestones") {
+            return new Response(JSON.stringify({ error: "This order is paid per milestone" }), {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          } else if (orderRow.status !== "pending" || orderRow.escrow_status !== "unfunded") {
+            return new Response(JSON.stringify({ error: "Order has already been funded" }), {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          order = orderRow;
+          amount = milestone
+            ? Number(milestone.amount) + Number(milestone.platform_fee) + Number(milestone.tax_amount)
+            : Number(orderRow.total_amount);
+          currency = orderRow.currency;
+          recipient_id = orderRow.provider_id;
+          transaction_type = "service_purchase";
+          description = description || (milestone
+            ? `Escrow payment: ${orderRow.service_title} — ${milestone.title}`
+            : `Escrow payment: ${orderRow.service_title}`);
+        }
+
         if (!amount || amount <= 0) {
           return new Response(JSON.stringify({ error: "Invalid amount" }), {
             status: 400,
@@ -103,14 +217,95 @@ serve(async (req) => {
           );
         }
 
-        // Calculate platform fee using the database function
-        const { data: feeData } = await supabase.rpc("calculate_platform_fee", {
-          p_amount: amount,
-          p_currency: currency,
-        });
+        // Order fees were fixed when the order was created; anything else is
+        // priced from the fee schedule
+        let platformFee = 0;
+        if (milestone) {
+          platformFee = Number(milestone.platform_fee);
+        } else if (order) {
+          platformFee = Number(order.platform_fee || 0);
+        } else if (transaction_type !== "deposit") {
+          platformFee = calculatePlatformFee(await loadFeeSchedule(supabase), {
+            amount,
+            currency,
+            transactionType: "service_purchase",
+            providerId: recipient_id,
+            providerPlanId: await loadProviderPlanId(supabase, recipient_id),
+            fallbackPercent: fallbackFeePercent(settings),
+          }).fee;
+        }
+        // Tax was fixed on the order when it was priced; a direct service
+        // purchase is taxed here, with any VAT added on top of the price
+        let tax: { lines: TaxLine[]; addedTax: number; withheldTax: number } = { lines: [], addedTax: 0, withheldTax: 0 };
+        if (milestone) {
+          tax = { lines: milestone.tax_lines, addedTax: Number(milestone.tax_amount), withheldTax: Number(milestone.withholding_amount) };
+        } else if (order) {
+          tax = { lines: order.tax_lines, addedTax: Number(order.tax_amount), withheldTax: Number(order.withholding_amount) };
+        } else if (transaction_type === "service_purchase" && recipient_id) {
+          tax = calculateTax(await loadTaxRules(supabase), {
+            amount,
+            currency,
+            category: "service",
+            sellerVatStatus: await loadVatStatus(supabase, recipient_id),
+          });
+        }
+
+        let netAmount = milestone
+          ? Number(milestone.amount)
+          : order ? Number(order.agreed_price) : amount - platformFee + tax.addedTax - tax.withheldTax;
+
+        if (!order && tax.addedTax > 0) {
+          amount += tax.addedTax;
+        }
 
-        const platformFee = transaction_type === "deposit" ? 0 : feeData || amount * 0.05;
-        const netAmount = amount - platformFee;
+        // A price in another currency is collected in the quoted currency. The
+        // quote has to be for exactly this amount, and everything recorded on
+        // the transaction is converted at its rate so the charge can be audited
+        let fxQuote: { id: string; rate: number; amount: number; from_currency: string } | null = null;
+        if (fx_quote_id) {
+          const { data: quoteRow } = await supabase
+            .from("fx_quotes")
+            .select("id, user_id, from_currency, to_currency, amount, rate, converted_amount, vat_amount, expires_at")
+            .eq("id", fx_quote_id)
+            .maybeSingle();
+
+          if (!quoteRow || quoteRow.user_id !== user.id) {
+            return new Response(JSON.stringify({ error: "Exchange rate quote not found" }), {
+              status: 404,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          if (
+            quoteRow.from_currency !== currency ||
+            Math.abs(Number(quoteRow.amount) - amount) > 0.01 ||
+            Number(quoteRow.vat_amount) > 0
+          ) {
+            return new Response(JSON.stringify({ error: "Exchange rate quote does not match this payment" }), {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          if (new Date(quoteRow.expires_at).getTime() < Date.now()) {
+            return new Response(JSON.stringify({ error: "Exchange rate quote has expired. Refresh the price and try again." }), {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            });
+          }
+
+          const rate = Number(quoteRow.rate);
+          fxQuote = quoteRow;
+          amount = Number(quoteRow.converted_amount);
+          currency = quoteRow.to_currency;
+          platformFee = roundMoney(platformFee * rate);
+          netAmount = roundMoney(netAmount * rate);
+          tax = {
+            lines: scaleTaxLines(tax.lines, rate),
+            addedTax: roundMoney(tax.addedTax * rate),
+            withheldTax: roundMoney(tax.withheldTax * rate),
+          };
+        }
 
         // Generate unique reference
         const reference = `WATHACI-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`;
@@ -121,6 +316,9 @@ serve(async (req) => {
           .insert({
             user_id: user.id,
             recipient_id: recipient_id || null,
+            service_id: order?.service_id || null,
+            order_id: order?.id || null,
+            milestone_id: milestone?.id || null,
             transaction_type,
             amount,
             currency,
@@ -129,11 +327,19 @@ serve(async (req) => {
             status: "pending",
             lenco_reference: reference,
             description,
+            tax_lines: tax.lines,
+            tax_amount: tax.addedTax,
+            withholding_amount: tax.withheldTax,
+            fx_quote_id: fxQuote?.id || null,
+            fx_rate: fxQuote?.rate ?? null,
+            original_amount: fxQuote?.amount ?? null,
+            original_currency: fxQuote?.from_currency || null,
             metadata: {
               initiated_at: new Date().toISOString(),
               ip_address: req.headers.get("x-forwarded-for") || "unknown",
               phone,
               operator,
+              test_mode: settings.payment_test_mode,
             },
           })
           .select()
@@ -147,30 +353,16 @@ serve(async (req) => {
           });
         }
 
-        // Lenco expects a local Zambian MSISDN in 0XXXXXXXXX form.
-        const normalizedPhone = phone.replace(/[^\d]/g, "").replace(/^260/, "0").replace(/^(?!0)/, "0");
-
-        const lencoResponse = await fetch(`${LENCO_API_URL}/collections/mobile-money`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${lencoApiToken}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            amount: amount.toString(),
-            currency,
-            reference,
-            phone: normalizedPhone,
-            operator,
-            country: "zm",
-            bearer: "merchant",
-          }),
+        const collection = await createMobileMoneyCollection({
+          amount,
+          currency,
+          reference,
+          phone,
+          operator,
+          testMode: settings.payment_test_mode,
         });
-
-        const lencoData = await lencoResponse.json().catch(() => null);
-
-        // Lenco can answer HTTP 200 with { status: false, message } — treat that as a failure too.
-        const lencoFailed = !lencoResponse.ok || !lencoData || lencoData.status === false || !lencoData.data;
+        const lencoData = collection.raw;
+        const lencoFailed = !collection.ok;
 
         if (lencoFailed) {
           console.error("Lenco collection error:", lencoData);
@@ -189,8 +381,8 @@ serve(async (req) => {
           );
         }
 
-        const collectionStatus = lencoData.data?.status; // 'otp-required' | 'pay-offline' | 'pending' | 'successful' | 'failed'
-        const collectionId = lencoData.data?.id;
+        const collectionStatus = collection.status;
+        const collectionId = collection.collectionId;
 
         await supabase
           .from("transactions")
@@ -202,6 +394,11 @@ serve(async (req) => {
           })
           .eq("id", transaction.id);
 
+        // Rare, but some collections settle synchronously
+        if (collectionStatus === "successful") {
+          await fundOrderEscrowForTransaction(supabase, transaction);
+        }
+
         return new Response(
           JSON.stringify({
             success: true,
@@ -211,6 +408,8 @@ serve(async (req) => {
             currency,
             platform_fee: platformFee,
             net_amount: netAmount,
+            tax_amount: tax.addedTax,
+            tax_lines: tax.lines,
             status: collectionStatus,
             collection_id: collectionId,
             message:
@@ -261,10 +460,12 @@ serve(async (req) => {
         }
 
         // If transaction has Lenco transaction ID, verify with Lenco
+        // against the Lenco environment the payment was made in
         if (transaction.lenco_transaction_id) {
-          const lencoVerify = await fetch(`${LENCO_API_URL}/transactions/${transaction.lenco_transaction_id}`, {
+          const testMode = transaction.metadata?.test_mode === true;
+          const lencoVerify = await fetch(`${resolveLencoApiUrl(testMode)}/transactions/${transaction.lenco_transaction_id}`, {
             headers: {
-              Authorization: `Bearer ${lencoApiToken}`,
+              Authorization: `Bearer ${resolveLencoApiToken(testMode)}`,
             },
           });
 
@@ -290,16 +491,26 @@ serve(async (req) => {
         // subscription, but it can be delayed or never fire. If the payment is
         // confirmed successful, make sure the linked subscription is active.
         // This is idempotent — a no-op when the webhook already handled it.
+        // The same applies to escrow funding for order payments.
         let subscriptionActivated = false;
+        let orderFunded = false;
         if (transaction.status === "successful") {
           const activation = await activateSubscriptionForTransaction(supabase, transaction);
           subscriptionActivated = activation.activated;
+
+          const escrow = await fundOrderEscrowForTransaction(supabase, transaction);
+          orderFunded = escrow.funded || escrow.alreadyFunded;
+
+          // Documents are also issued on first download, so a failure here
+          // only needs logging
+          await issueTransactionDocuments(supabase, transaction);
         }
 
         return new Response(
           JSON.stringify({
             success: true,
             subscription_activated: subscriptionActivated,
+            order_funded: orderFunded,
             transaction: {
               id: transaction.id,
               reference: transaction.lenco_reference,
@@ -328,10 +539,21 @@ serve(async (req) => {
           });
         }
 
-        const otpResponse = await fetch(`${LENCO_API_URL}/collections/mobile-money/${collection_id}/otp`, {
+        // The OTP goes to the Lenco environment the collection was opened in
+        let testMode = settings.payment_test_mode;
+        if (transaction_id) {
+          const { data: pending } = await supabase
+            .from("transactions")
+            .select("metadata")
+            .eq("id", transaction_id)
+            .maybeSingle();
+          if (pending) testMode = pending.metadata?.test_mode === true;
+        }
+
+        const otpResponse = await fetch(`${resolveLencoApiUrl(testMode)}/collections/mobile-money/${collection_id}/otp`, {
           method: "POST",
           headers: {
-            Authorization: `Bearer ${lencoApiToken}`,
+            Authorization: `Bearer ${resolveLencoApiToken(testMode)}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({ otp }),
@@ -361,7 +583,7 @@ serve(async (req) => {
       }
 
       case "get_fee": {
-        const { amount, currency = "ZMW" } = body;
+        const { amount, currency = "ZMW", recipient_id } = body;
 
         if (!amount || amount <= 0) {
           return new Response(JSON.stringify({ error: "Invalid amount" }), {
@@ -370,23 +592,26 @@ serve(async (req) => {
           });
         }
 
-        const { data: feeData } = await supabase.rpc("calculate_platform_fee", {
-          p_amount: amount,
-          p_currency: currency,
+        const quote = calculatePlatformFee(await loadFeeSchedule(supabase), {
+          amount,
+          currency,
+          transactionType: "service_purchase",
+          providerId: recipient_id,
+          providerPlanId: await loadProviderPlanId(supabase, recipient_id),
+          fallbackPercent: fallbackFeePercent(settings),
         });
+        const fee = quote.fee;
 
-        const fee = feeData || amount * 0.05;
-
-        // Get fee tier for transparency
-        const { data: tier } = await supabase
-          .from("platform_fee_tiers")
-          .select("fee_percentage")
-          .eq("currency", currency)
-          .eq("is_active", true)
-          .gte("min_amount", amount)
-          .order("min_amount", { ascending: true })
-          .limit(1)
-          .single();
+        // Tax on a direct service purchase, as initiate will charge it
+        let tax: TaxBreakdown | null = null;
+        if (recipient_id) {
+          tax = calculateTax(await loadTaxRules(supabase), {
+            amount,
+            currency,
+            category: "service",
+            sellerVatStatus: await loadVatStatus(supabase, recipient_id),
+          });
+        }
 
         return new Response(
           JSON.stringify({
@@ -394,8 +619,11 @@ serve(async (req) => {
             amount,
             currency,
             platform_fee: fee,
-            fee_percentage: tier?.fee_percentage || 5,
+            fee_percentage: quote.percent,
             net_amount: amount - fee,
+            tax_amount: tax?.addedTax ?? 0,
+            tax_lines: tax?.lines ?? [],
+            total_amount: tax?.totalPayable ?? amount,
           }),
           { headers: { ...corsHeaders, "Content-Type": "application/json" } },
         );
@@ -1,5 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createMobileMoneyCollection } from "../_shared/lenco-api.ts";
+import { applyPlanChange, collectedForPeriod } from "../_shared/subscription-plan-change.ts";
+import { previewProration } from "../_shared/subscription-proration.ts";
+import {
+  createRenewalCharge,
+  findPaymentMethod,
+  nextRenewalPeriod,
+  planPrice,
+  resolveRenewalPlan
+} from "../_shared/subscription-renewal.ts";
+import { checkMaintenance, loadPlatformSettings } from "../_shared/platform-settings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,12 +18,20 @@ const corsHeaders = {
 };
 
 interface SubscriptionRequest {
-  action: 'subscribe' | 'cancel' | 'change_plan' | 'get_plans' | 'get_subscription';
+  action: 'subscribe' | 'cancel' | 'change_plan' | 'preview_change_plan' | 'get_plans' | 'get_subscription' | 'renew';
   plan_id?: string;
   currency?: string;
   new_plan_id?: string;
+  // Downgrades: credit the unused difference now, or switch at renewal
+  downgrade_mode?: 'wallet_credit' | 'period_end';
+  phone?: string;
+  operator?: 'mtn' | 'airtel' | 'zamtel';
 }
 
+// Mobile money prompts expire within minutes; until then a pending upgrade
+// blocks further plan changes so its payment cannot land on a stale change
+const PENDING_UPGRADE_HOLD_MS = 15 * 60 * 1000;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -50,6 +69,18 @@ serve(async (req) => {
 
     console.log(`Processing subscription action: ${action} for user: ${user.id}`);
 
+    // Anything that takes a payment waits out maintenance
+    const settings = await loadPlatformSettings(supabase);
+    if (action === 'subscribe' || action === 'change_plan' || action === 'renew') {
+      const closed = await checkMaintenance(supabase, user.id, settings);
+      if (closed) {
+        return new Response(
+          JSON.stringify({ error: closed }),
+          { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     switch (action) {
       case 'get_plans': {
         const { data: plans, error } = await supabase
@@ -79,7 +110,7 @@ serve(async (req) => {
             plan:subscription_plans(*)
           `)
           .eq('user_id', user.id)
-          .in('status', ['active', 'trialing', 'past_due'])
+          .in('status', ['active', 'trialing', 'past_due', 'grace'])
           .order('created_at', { ascending: false })
           .limit(1)
           .single();
@@ -238,7 +269,7 @@ serve(async (req) => {
           .from('subscriptions')
           .select('*')
           .eq('user_id', user.id)
-          .in('status', ['active', 'trialing', 'past_due'])
+          .in('status', ['active', 'trialing', 'past_due', 'grace'])
           .single();
 
         if (subError || !subscription) {
@@ -274,9 +305,10 @@ serve(async (req) => {
         );
       }
 
+      case 'preview_change_plan':
       case 'change_plan': {
-        const { new_plan_id, currency = 'ZMW' } = body;
-        
+        const { new_plan_id, downgrade_mode = 'period_end', phone, operator } = body;
+
         if (!new_plan_id) {
           return new Response(
             JSON.stringify({ error: 'New plan ID required' }),
@@ -287,18 +319,33 @@ serve(async (req) => {
         // Get current subscription
         const { data: currentSub, error: subError } = await supabase
           .from('subscriptions')
-          .select('*')
+          .select('*, plan:subscription_plans(*)')
           .eq('user_id', user.id)
           .in('status', ['active', 'trialing'])
           .single();
 
-        if (subError || !currentSub) {
+        if (subError || !currentSub || !currentSub.plan) {
           return new Response(
             JSON.stringify({ error: 'No active subscription found' }),
             { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
+        // Nothing has been paid on a trial yet, so there is nothing to prorate
+        if (currentSub.status !== 'active') {
+          return new Response(
+            JSON.stringify({ error: 'Complete payment for your current plan before changing plans' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (currentSub.plan_id === new_plan_id) {
+          return new Response(
+            JSON.stringify({ error: 'You are already on this plan' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
         // Get new plan
         const { data: newPlan, error: planError } = await supabase
           .from('subscription_plans')
@@ -314,29 +361,386 @@ serve(async (req) => {
           );
         }
 
-        // Update subscription with new plan
-        const { error: updateError } = await supabase
-          .from('subscriptions')
-          .update({
-            plan_id: new_plan_id,
-            currency
+        // Prices are prorated in the currency the subscription is billed in
+        const currency = currentSub.currency || 'ZMW';
+        const preview = previewProration({
+          currentPlan: currentSub.plan,
+          newPlan,
+          currency,
+          periodStart: currentSub.current_period_start,
+          periodEnd: currentSub.current_period_end,
+        });
+
+        if (action === 'preview_change_plan') {
+          const paymentMethod = preview.direction === 'upgrade'
+            ? await findPaymentMethod(supabase, currentSub.id)
+            : null;
+          const walletCredit = preview.direction === 'downgrade'
+            ? Math.min(Math.abs(preview.difference), await collectedForPeriod(supabase, { ...currentSub, currency }))
+            : 0;
+          return new Response(
+            JSON.stringify({
+              success: true,
+              preview: {
+                ...preview,
+                current_plan: { id: currentSub.plan.id, name: currentSub.plan.name },
+                new_plan: { id: newPlan.id, name: newPlan.name },
+                // What a switch-now downgrade would credit, capped at what was paid this period
+                wallet_credit: walletCredit,
+                // Lets the client offer the number on file for the upgrade charge
+                payment_method_on_file: paymentMethod
+                  ? { operator: paymentMethod.operator, phone_last4: paymentMethod.phone.slice(-4) }
+                  : null
+              }
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (preview.direction === 'downgrade' && !['wallet_credit', 'period_end'].includes(downgrade_mode)) {
+          return new Response(
+            JSON.stringify({ error: 'Downgrade mode must be wallet_credit or period_end' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // A wallet credit only hands back what was paid for this period
+        let credit = 0;
+        if (preview.direction === 'downgrade' && downgrade_mode === 'wallet_credit') {
+          const collected = await collectedForPeriod(supabase, { ...currentSub, currency });
+          if (collected <= 0) {
+            return new Response(
+              JSON.stringify({ error: 'No payment for the current period to credit. Choose to switch at renewal instead.' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          credit = Math.min(Math.abs(preview.difference), collected);
+        }
+
+        // A newer request replaces an earlier pending change, except an upgrade
+        // whose payment prompt may still be approved on the subscriber's phone
+        const { data: pendingChange } = await supabase
+          .from('subscription_plan_changes')
+          .select('id, direction, created_at')
+          .eq('subscription_id', currentSub.id)
+          .eq('status', 'pending')
+          .maybeSingle();
+
+        if (pendingChange) {
+          const age = Date.now() - new Date(pendingChange.created_at).getTime();
+          if (pendingChange.direction === 'upgrade' && age < PENDING_UPGRADE_HOLD_MS) {
+            return new Response(
+              JSON.stringify({ error: 'A plan upgrade is awaiting payment. Approve or decline it on your phone first.' }),
+              { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          await supabase
+            .from('subscription_plan_changes')
+            .update({ status: 'cancelled' })
+            .eq('id', pendingChange.id)
+            .eq('status', 'pending');
+        }
+
+        const mode = preview.direction === 'downgrade' ? downgrade_mode : 'immediate';
+        const takesEffectNow = mode !== 'period_end';
+
+        const { data: change, error: changeError } = await supabase
+          .from('subscription_plan_changes')
+          .insert({
+            subscription_id: currentSub.id,
+            user_id: user.id,
+            from_plan_id: currentSub.plan_id,
+            to_plan_id: newPlan.id,
+            direction: preview.direction,
+            mode,
+            currency,
+            remaining_fraction: preview.remainingFraction,
+            unused_credit: preview.unusedCredit,
+            new_plan_cost: preview.newPlanCost,
+            amount: !takesEffectNow ? 0 : preview.direction === 'downgrade' ? -credit : preview.difference,
+            new_period_start: takesEffectNow && preview.resetsPeriod ? preview.newPeriodStart : null,
+            new_period_end: takesEffectNow && preview.resetsPeriod ? preview.newPeriodEnd : null,
+            effective_at: takesEffectNow ? null : currentSub.current_period_end
           })
-          .eq('id', currentSub.id);
+          .select()
+          .single();
 
-        if (updateError) {
+        if (changeError || !change) {
+          console.error('Error recording plan change:', changeError);
           return new Response(
             JSON.stringify({ error: 'Failed to change plan' }),
             { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
           );
         }
 
-        // If upgrading, may need to process payment difference
-        // For now, plan change takes effect at next billing cycle
+        if (mode === 'period_end') {
+          return new Response(
+            JSON.stringify({
+              success: true,
+              change,
+              preview,
+              message: `Your plan will change to ${newPlan.name} on ${new Date(currentSub.current_period_end).toDateString()}.`
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        if (preview.direction === 'downgrade') {
+          // Credit the unused difference before switching, so a failed credit
+          // leaves the subscriber on the plan they paid for
+          const { data: walletResult, error: walletError } = await supabase.rpc('apply_wallet_transaction', {
+            p_user_id: user.id,
+            p_amount: credit,
+            p_currency: currency,
+            p_transaction_type: 'refund',
+            p_description: `Plan change credit: ${currentSub.plan.name} → ${newPlan.name}`,
+            p_idempotency_key: `plan-change-credit-${change.id}`,
+            p_provider: 'subscription',
+            p_provider_reference: null,
+            p_metadata: { subscription_id: currentSub.id, plan_change_id: change.id }
+          });
+
+          if (walletError || walletResult?.success === false) {
+            const reason = walletError?.message || walletResult?.error || 'Wallet credit failed';
+            console.error('Plan change credit error:', reason);
+            await supabase
+              .from('subscription_plan_changes')
+              .update({ status: 'failed', failure_reason: reason })
+              .eq('id', change.id);
+            return new Response(
+              JSON.stringify({ error: 'Failed to credit your wallet for the downgrade' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          await supabase
+            .from('subscription_plan_changes')
+            .update({ transaction_id: walletResult?.transaction_id || null })
+            .eq('id', change.id);
+        }
+
+        if (preview.direction !== 'upgrade') {
+          const applied = await applyPlanChange(supabase, change.id);
+          if (applied.error) {
+            return new Response(
+              JSON.stringify({ error: 'Failed to change plan' }),
+              { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              change,
+              preview,
+              new_plan: newPlan,
+              message: preview.direction === 'downgrade'
+                ? `Plan changed to ${newPlan.name}. ${currency === 'USD' ? '$' : 'K'}${credit.toFixed(2)} was credited to your wallet.`
+                : `Plan changed to ${newPlan.name}.`
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Upgrade: collect the prorated difference; the plan switches when the
+        // payment succeeds (see _shared/subscription-activation.ts)
+        const paymentMethod = phone && operator
+          ? { phone, operator }
+          : await findPaymentMethod(supabase, currentSub.id);
+
+        const failChange = async (reason: string) => {
+          await supabase
+            .from('subscription_plan_changes')
+            .update({ status: 'failed', failure_reason: reason })
+            .eq('id', change.id);
+        };
+
+        if (!paymentMethod) {
+          await failChange('No mobile money number provided');
+          return new Response(
+            JSON.stringify({ error: 'Mobile money phone number and operator (mtn/airtel/zamtel) are required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const reference = `SUB-${currentSub.id.substring(0, 8)}-U${Date.now()}`;
+        const { data: transaction, error: txError } = await supabase
+          .from('transactions')
+          .insert({
+            user_id: user.id,
+            transaction_type: 'subscription',
+            amount: preview.difference,
+            currency,
+            platform_fee: 0,
+            net_amount: preview.difference,
+            status: 'pending',
+            lenco_reference: reference,
+            subscription_id: currentSub.id,
+            description: `Plan upgrade: ${currentSub.plan.name} → ${newPlan.name}`,
+            metadata: {
+              initiated_at: new Date().toISOString(),
+              plan_change_id: change.id,
+              phone: paymentMethod.phone,
+              operator: paymentMethod.operator,
+              test_mode: settings.payment_test_mode
+            }
+          })
+          .select()
+          .single();
+
+        if (txError || !transaction) {
+          console.error('Error creating upgrade transaction:', txError);
+          await failChange('Failed to create transaction');
+          return new Response(
+            JSON.stringify({ error: 'Failed to create payment for the upgrade' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        await supabase
+          .from('subscription_plan_changes')
+          .update({ transaction_id: transaction.id })
+          .eq('id', change.id);
+
+        const collection = await createMobileMoneyCollection({
+          amount: preview.difference,
+          currency,
+          reference,
+          phone: paymentMethod.phone,
+          operator: paymentMethod.operator,
+          testMode: settings.payment_test_mode
+        });
+
+        if (!collection.ok) {
+          console.error('Lenco collection error:', collection.raw);
+          await supabase
+            .from('transactions')
+            .update({ status: 'failed', metadata: { ...transaction.metadata, lenco_error: collection.raw } })
+            .eq('id', transaction.id);
+          await failChange(collection.error || 'Collection rejected');
+          return new Response(
+            JSON.stringify({
+              error: collection.error ||
+                'Payment could not be initiated with the mobile money provider. Check the phone number and operator and try again.'
+            }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const txStatus = collection.status === 'successful' ? 'successful' : collection.status === 'failed' ? 'failed' : 'pending';
+        await supabase
+          .from('transactions')
+          .update({
+            lenco_transaction_id: collection.collectionId,
+            status: txStatus,
+            metadata: { ...transaction.metadata, lenco_status: collection.status }
+          })
+          .eq('id', transaction.id);
+
+        // Rare, but some collections settle synchronously
+        if (txStatus === 'successful') {
+          await applyPlanChange(supabase, change.id);
+        }
+
         return new Response(
-          JSON.stringify({ 
-            success: true, 
-            message: `Plan changed to ${newPlan.name}. Changes take effect on next billing cycle.`,
-            new_plan: newPlan
+          JSON.stringify({
+            success: true,
+            change,
+            preview,
+            payment: {
+              transaction_id: transaction.id,
+              reference,
+              amount: preview.difference,
+              currency,
+              status: collection.status,
+              collection_id: collection.collectionId
+            },
+            message: collection.status === 'otp-required'
+              ? 'Enter the OTP sent to your phone to complete the upgrade.'
+              : txStatus === 'successful'
+                ? `Plan changed to ${newPlan.name}.`
+                : `Approve the payment request on your phone to upgrade to ${newPlan.name}.`
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      case 'renew': {
+        // Pay for a lapsed subscription now instead of waiting for the next
+        // scheduled collection attempt (see subscription-renewals)
+        const { phone, operator } = body;
+
+        const { data: subscription, error: subError } = await supabase
+          .from('subscriptions')
+          .select('*, plan:subscription_plans(*)')
+          .eq('user_id', user.id)
+          .in('status', ['past_due', 'grace', 'expired'])
+          .is('paddle_subscription_id', null)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (subError || !subscription || !subscription.plan) {
+          return new Response(
+            JSON.stringify({ error: 'No subscription awaiting renewal' }),
+            { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const currency = subscription.currency || 'ZMW';
+        const { plan, planChangeId } = await resolveRenewalPlan(supabase, subscription.id, subscription.plan);
+
+        if (planPrice(plan, currency) === 0) {
+          const period = nextRenewalPeriod(subscription, plan);
+          await supabase
+            .from('subscriptions')
+            .update({
+              status: 'active',
+              current_period_start: period.start,
+              current_period_end: period.end,
+              renewal_attempts: 0,
+              next_renewal_attempt_at: null,
+              last_renewal_error: null,
+              past_due_at: null,
+              grace_period_end: null
+            })
+            .eq('id', subscription.id);
+          if (planChangeId) await applyPlanChange(supabase, planChangeId);
+
+          return new Response(
+            JSON.stringify({ success: true, message: 'Subscription renewed successfully (free plan)' }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const charge = await createRenewalCharge(supabase, subscription, plan, {
+          paymentMethod: phone && operator ? { phone, operator } : null,
+          source: 'manual',
+          planChangeId
+        });
+
+        if (charge.error) {
+          return new Response(
+            JSON.stringify({ error: charge.error }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            subscription,
+            payment: {
+              transaction_id: charge.transaction?.id,
+              reference: charge.reference,
+              amount: charge.amount,
+              currency: charge.currency,
+              status: charge.collectionStatus || 'pending',
+              period_end: charge.periodEnd
+            },
+            message: charge.collectionStatus
+              ? 'Approve the payment request on your phone to renew your subscription.'
+              : 'Renewal created. Please complete payment to renew.'
           }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
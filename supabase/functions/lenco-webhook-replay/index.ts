@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { processLencoEvent, type LencoWebhookPayload } from "../_shared/lenco-webhook.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Admin tool: re-run a stored Lenco webhook event whose first processing
+// attempt failed. The handlers are idempotent, so steps that did succeed the
+// first time are no-ops on replay.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization required');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+    if (!isAdmin) throw new Error('Unauthorized: Admin access required');
+
+    const { webhookEventId } = await req.json();
+    if (!webhookEventId) throw new Error('webhookEventId is required');
+
+    const { data: webhookEvent, error: loadError } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', webhookEventId)
+      .eq('provider', 'lenco')
+      .maybeSingle();
+
+    if (loadError) throw loadError;
+    if (!webhookEvent) throw new Error('Webhook event not found');
+    if (!webhookEvent.error) throw new Error('Only events that failed processing can be replayed');
+
+    console.log('Replaying webhook event:', webhookEvent.event_id, 'by admin:', user.id);
+
+    let replayError: string | null = null;
+    try {
+      await processLencoEvent(
+        supabase,
+        webhookEvent.payload as LencoWebhookPayload,
+        webhookEvent.event_id,
+        { replay: true }
+      );
+    } catch (processingError) {
+      console.error('Replay failed:', processingError);
+      replayError = processingError instanceof Error ? processingError.message : 'Unknown error';
+    }
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('webhook_events')
+      .update({
+        processed: !replayError,
+        processed_at: replayError ? webhookEvent.processed_at : now,
+        error: replayError,
+        replay_count: (webhookEvent.replay_count || 0) + 1,
+        last_replayed_at: now,
+        last_replayed_by: user.id
+      })
+      .eq('id', webhookEvent.id);
+    if (updateError) console.error('Webhook event update error:', updateError);
+
+    await supabase.from('audit_logs').insert({
+      actor_id: user.id,
+      action: 'webhook_replayed',
+      entity: 'webhook_events',
+      entity_id: webhookEvent.id,
+      before: { error: webhookEvent.error, replay_count: webhookEvent.replay_count || 0 },
+      after: { processed: !replayError, error: replayError },
+      metadata: { provider: 'lenco', event_id: webhookEvent.event_id, event_type: webhookEvent.event_type }
+    });
+
+    if (replayError) throw new Error(`Replay failed: ${replayError}`);
+
+    return new Response(JSON.stringify({ success: true, data: { id: webhookEvent.id, processed: true } }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    console.error('Webhook replay error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
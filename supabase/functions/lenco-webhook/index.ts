@@ -1,39 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-import { activateSubscriptionForTransaction } from "../_shared/subscription-activation.ts";
+import {
+  lencoEventId,
+  processLencoEvent,
+  verifyLencoSignature,
+  type LencoWebhookPayload,
+} from "../_shared/lenco-webhook.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-lenco-signature',
 };
 
-async function verifySignature(secret: string, payload: string, signature: string): Promise<boolean> {
-  try {
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      "raw",
-      encoder.encode(secret),
-      { name: "HMAC", hash: "SHA-512" },
-      false,
-      ["sign"]
-    );
-    
-    const signatureBuffer = await crypto.subtle.sign(
-      "HMAC",
-      key,
-      encoder.encode(payload)
-    );
-    
-    const computedSignature = Array.from(new Uint8Array(signatureBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-
-    return signature === computedSignature;
-  } catch {
-    return false;
-  }
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -43,7 +21,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const webhookSecret = Deno.env.get('LENCO_WEBHOOK_SECRET')!;
+    const webhookSecret = Deno.env.get('LENCO_WEBHOOK_SECRET');
 
     // Get signature from header
     const signature = req.headers.get('x-lenco-signature');
@@ -51,21 +29,25 @@ serve(async (req) => {
 
     console.log('Webhook received:', rawBody.substring(0, 200));
 
-    // Verify webhook signature
-    if (signature && webhookSecret) {
-      const isValid = await verifySignature(webhookSecret, rawBody, signature);
+    // Verify webhook signature. Once a secret is configured every request
+    // must carry a valid signature; an unsigned POST could otherwise credit
+    // wallets.
+    if (webhookSecret) {
+      const isValid = signature ? await verifyLencoSignature(webhookSecret, rawBody, signature) : false;
       if (!isValid) {
-        console.warn('Invalid webhook signature');
+        console.warn(signature ? 'Invalid webhook signature' : 'Missing webhook signature');
         return new Response(JSON.stringify({ error: 'Invalid signature' }), {
           status: 401,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
+    } else {
+      console.warn('LENCO_WEBHOOK_SECRET is not set; webhook signature not verified');
     }
 
-    const payload = JSON.parse(rawBody);
-    const { event, data } = payload;
-    const eventId = data?.id || data?.reference || `${event}-${Date.now()}`;
+    const payload: LencoWebhookPayload = JSON.parse(rawBody);
+    const { event } = payload;
+    const eventId = lencoEventId(payload);
 
     console.log(`Processing webhook event: ${event}, eventId: ${eventId}`);
 
@@ -111,215 +93,7 @@ serve(async (req) => {
     }
 
     try {
-      switch (event) {
-        case 'transaction.successful': {
-          const { reference, id: lencoTransactionId, amount, currency } = data;
-          
-          // Find transaction by reference
-          const { data: transaction, error: findError } = await supabase
-            .from('transactions')
-            .select('*')
-            .eq('lenco_reference', reference)
-            .single();
-
-          if (findError || !transaction) {
-            console.log(`Transaction not found for reference: ${reference}`);
-            break;
-          }
-
-          // Check if already processed (idempotency at transaction level)
-          if (transaction.status === 'successful') {
-            console.log(`Transaction ${transaction.id} already successful, skipping`);
-            break;
-          }
-
-          // Update transaction status
-          await supabase
-            .from('transactions')
-            .update({
-              status: 'successful',
-              lenco_transaction_id: lencoTransactionId,
-              metadata: {
-                ...transaction.metadata,
-                completed_at: new Date().toISOString(),
-                lenco_data: data
-              }
-            })
-            .eq('id', transaction.id);
-
-          // Use atomic wallet transaction function for deposits
-          if (transaction.transaction_type === 'deposit') {
-            const { data: walletResult, error: walletError } = await supabase.rpc(
-              'apply_wallet_transaction',
-              {
-                p_user_id: transaction.user_id,
-                p_amount: transaction.amount,
-                p_currency: transaction.currency,
-                p_transaction_type: 'deposit',
-                p_description: 'Wallet top-up via Lenco',
-                p_idempotency_key: `lenco-${eventId}`,
-                p_provider: 'lenco',
-                p_provider_reference: reference,
-                p_metadata: { lenco_transaction_id: lencoTransactionId }
-              }
-            );
-
-            if (walletError) {
-              console.error('Wallet transaction error:', walletError);
-            } else {
-              console.log('Wallet transaction result:', walletResult);
-            }
-          }
-
-          // If this is a service purchase, credit recipient atomically
-          if (transaction.transaction_type === 'service_purchase' && transaction.recipient_id) {
-            const { error: creditError } = await supabase.rpc(
-              'apply_wallet_transaction',
-              {
-                p_user_id: transaction.recipient_id,
-                p_amount: transaction.net_amount,
-                p_currency: transaction.currency,
-                p_transaction_type: 'service_payment',
-                p_description: 'Service payment received',
-                p_idempotency_key: `lenco-service-${eventId}`,
-                p_provider: 'lenco',
-                p_provider_reference: reference
-              }
-            );
-
-            if (creditError) {
-              console.error('Service credit error:', creditError);
-            }
-          }
-
-          // If this is a subscription payment, activate subscription (idempotent)
-          await activateSubscriptionForTransaction(supabase, transaction);
-
-          console.log(`Transaction ${transaction.id} marked as successful`);
-          break;
-        }
-
-        case 'transaction.failed': {
-          const { reference, reason } = data;
-          
-          const { data: transaction } = await supabase
-            .from('transactions')
-            .select('*')
-            .eq('lenco_reference', reference)
-            .single();
-
-          if (transaction && transaction.status !== 'failed') {
-            await supabase
-              .from('transactions')
-              .update({
-                status: 'failed',
-                metadata: {
-                  ...transaction.metadata,
-                  failed_at: new Date().toISOString(),
-                  failure_reason: reason
-                }
-              })
-              .eq('id', transaction.id);
-
-            console.log(`Transaction ${transaction.id} marked as failed: ${reason}`);
-          }
-          break;
-        }
-
-        case 'payout.successful': {
-          const { reference, id: lencoTransactionId } = data;
-          
-          const { data: transaction } = await supabase
-            .from('transactions')
-            .select('*')
-            .eq('lenco_reference', reference)
-            .single();
-
-          if (transaction && transaction.status !== 'successful') {
-            await supabase
-              .from('transactions')
-              .update({
-                status: 'successful',
-                lenco_transaction_id: lencoTransactionId,
-                metadata: {
-                  ...transaction.metadata,
-                  payout_completed_at: new Date().toISOString()
-                }
-              })
-              .eq('id', transaction.id);
-
-            // Clear pending balance atomically
-            const pendingField = transaction.currency === 'USD' ? 'pending_balance_usd' : 'pending_balance_zmw';
-            
-            const { data: account } = await supabase
-              .from('payment_accounts')
-              .select('*')
-              .eq('user_id', transaction.user_id)
-              .single();
-
-            if (account) {
-              await supabase
-                .from('payment_accounts')
-                .update({
-                  [pendingField]: Math.max(0, (account as any)[pendingField] - transaction.amount)
-                })
-                .eq('user_id', transaction.user_id);
-            }
-
-            console.log(`Payout ${transaction.id} completed`);
-          }
-          break;
-        }
-
-        case 'payout.failed': {
-          const { reference, reason } = data;
-          
-          const { data: transaction } = await supabase
-            .from('transactions')
-            .select('*')
-            .eq('lenco_reference', reference)
-            .single();
-
-          if (transaction && transaction.status !== 'failed') {
-            await supabase
-              .from('transactions')
-              .update({
-                status: 'failed',
-                metadata: {
-                  ...transaction.metadata,
-                  payout_failed_at: new Date().toISOString(),
-                  failure_reason: reason
-                }
-              })
-              .eq('id', transaction.id);
-
-            // Return funds to available balance atomically using RPC
-            const { error: refundError } = await supabase.rpc(
-              'apply_wallet_transaction',
-              {
-                p_user_id: transaction.user_id,
-                p_amount: transaction.amount,
-                p_currency: transaction.currency,
-                p_transaction_type: 'refund',
-                p_description: 'Payout failed - funds returned',
-                p_idempotency_key: `lenco-payout-failed-${eventId}`,
-                p_provider: 'lenco',
-                p_provider_reference: reference
-              }
-            );
-
-            if (refundError) {
-              console.error('Refund error:', refundError);
-            }
-
-            console.log(`Payout ${transaction.id} failed, funds returned`);
-          }
-          break;
-        }
-
-        default:
-          console.log(`Unhandled webhook event: ${event}`);
-      }
+      await processLencoEvent(supabase, payload, eventId);
 
       // Mark webhook event as processed
       await supabase
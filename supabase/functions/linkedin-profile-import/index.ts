@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -49,6 +50,30 @@ const ROLE_SHAPES: Record<AccountType, string> = {
 }`,
 };
 
+const nullableString: JsonSchema = { type: 'string', nullable: true };
+
+// The role fields differ per account type and are described in the prompt;
+// the schema only pins the envelope
+const IMPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    base: {
+      type: 'object',
+      properties: {
+        full_name: nullableString,
+        display_name: nullableString,
+        city: nullableString,
+        country: nullableString,
+        bio: nullableString,
+        website_url: nullableString,
+      },
+    },
+    role: { type: 'object', properties: {} },
+    notes: nullableString,
+  },
+  required: ['base', 'role'],
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -87,11 +112,6 @@ serve(async (req) => {
       }, 400);
     }
 
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    if (!lovableApiKey) {
-      return json({ error: 'AI is not configured for this project.' }, 500);
-    }
-
     const prompt = `You are helping a user of WATHACI Connect (a Zambian business platform) turn their LinkedIn profile text into a structured platform profile.
 
 LinkedIn URL: ${linkedinUrl || 'not provided'}
@@ -118,43 +138,29 @@ Return JSON with exactly this shape:
   "notes": string (one short sentence about what could not be inferred)
 }`;
 
-    const aiRes = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${lovableApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You extract structured profile data from LinkedIn text. Respond with JSON only.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      }),
+    const result = await generateJson<Record<string, unknown>>(supabase, {
+      feature: 'linkedin-profile-import',
+      userId: user.id,
+      messages: [
+        { role: 'system', content: 'You extract structured profile data from LinkedIn text. Respond with JSON only.' },
+        { role: 'user', content: prompt },
+      ],
+      schema: IMPORT_SCHEMA,
     });
 
-    if (!aiRes.ok) {
-      const detail = await aiRes.text();
-      console.error(`AI gateway error [${aiRes.status}]: ${detail}`);
-      if (aiRes.status === 429) {
+    if (!result.data) {
+      if (result.status === 429) {
         return json({ error: 'AI is busy right now. Please try again in a moment.' }, 429);
       }
-      if (aiRes.status === 402) {
+      if (result.status === 402) {
         return json({ error: 'AI credits are exhausted. Please top up in workspace settings.' }, 402);
       }
-      return json({ error: 'Could not read that LinkedIn text.', details: detail }, aiRes.status);
-    }
-
-    const aiJson = await aiRes.json();
-    const content = aiJson?.choices?.[0]?.message?.content ?? '{}';
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(content);
-    } catch {
-      console.error('Unparseable AI content:', content);
-      return json({ error: 'Could not structure that LinkedIn text. Try pasting a bit more.' }, 502);
+      if (result.status === 503) {
+        return json({ error: 'AI is not configured for this project.' }, 500);
+      }
+      return json({ error: 'Could not structure that LinkedIn text. Try pasting a bit more.', details: result.error }, 502);
     }
+    const parsed = result.data;
 
     // Persist the LinkedIn URL right away so it is never lost.
     if (linkedinUrl) {
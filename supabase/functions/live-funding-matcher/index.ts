@@ -16,7 +16,7 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { action, sector, opportunityId } = await req.json();
+    const { action, sector, opportunityId, professionalId } = await req.json();
     console.log('Live funding matcher action:', action);
 
     switch (action) {
@@ -97,7 +97,7 @@ serve(async (req) => {
         );
         if (authError || !user) throw new Error('Unauthorized');
 
-        const { professionalId } = await req.json();
+        if (!professionalId) throw new Error('professionalId is required');
 
         // Create a negotiation for funding assistance service
         const { data: negotiation, error } = await supabase
@@ -1,11 +1,45 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  isMarketplaceSort,
+  searchFilterParams,
+  searchLimit,
+  type MarketplaceService,
+  type MarketplaceSort
+} from "../_shared/marketplace-search.ts";
+import {
+  checkAddons,
+  checkPackages,
+  sortPackages,
+  SUBMITTABLE_STATUSES,
+  type ServiceAddon,
+  type ServiceAddonInput,
+  type ServicePackageInput
+} from "../_shared/service-catalogue.ts";
+import { checkMaintenance } from "../_shared/platform-settings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Listing fields a provider may set; status, rating and the like are managed
+// by moderation and the database
+const SERVICE_FIELDS = [
+  'title', 'description', 'category', 'subcategory', 'price', 'currency', 'price_type',
+  'min_price', 'max_price', 'delivery_time', 'location', 'skills', 'images', 'provider_type'
+];
+
+// Actions that keep working during maintenance
+const READ_ACTIONS = ['search', 'get_service', 'get_provider_services'];
+
+const serviceFields = (input: Record<string, unknown> | null | undefined) =>
+  Object.fromEntries(Object.entries(input || {}).filter(([key]) => SERVICE_FIELDS.includes(key)));
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -17,104 +51,326 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { action, filters, serviceData, serviceId } = await req.json();
-    console.log('Marketplace manager action:', action, 'filters:', filters);
+    const {
+      action, query, filters, sort, cursor, limit, serviceData, serviceId, packages, addons, pausedUntil, pauseMessage
+    } = await req.json();
+    console.log('Marketplace manager action:', action, 'query:', query, 'filters:', filters);
 
-    switch (action) {
-      case 'search': {
-        let query = supabase
-          .from('services')
-          .select(`
-            *,
-            provider:profiles!services_provider_id_fkey(
-              id, full_name, business_name, avatar_url, rating, reviews_count
-            )
-          `)
-          .eq('is_active', true);
-
-        if (filters?.category && filters.category !== 'all') {
-          query = query.eq('category', filters.category);
-        }
-        if (filters?.providerType && filters.providerType !== 'all') {
-          query = query.eq('provider_type', filters.providerType);
-        }
-        if (filters?.location && filters.location !== 'all') {
-          query = query.ilike('location', `%${filters.location}%`);
-        }
-        if (filters?.minPrice) {
-          query = query.gte('price', filters.minPrice);
+    const authHeader = req.headers.get('Authorization');
+
+    const requireUser = async () => {
+      if (!authHeader) throw new Error('Authorization required');
+
+      const { data: { user }, error: authError } = await supabase.auth.getUser(
+        authHeader.replace('Bearer ', '')
+      );
+      if (authError || !user) throw new Error('Unauthorized');
+      return user;
+    };
+
+    // Browsing works signed out
+    const optionalUser = async () => {
+      if (!authHeader) return null;
+      const { data: { user } } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+      return user;
+    };
+
+    const loadOwnService = async (userId: string) => {
+      if (!serviceId) throw new Error('serviceId is required');
+
+      const { data, error } = await supabase
+        .from('services')
+        .select('*')
+        .eq('id', serviceId)
+        .eq('provider_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error('Service not found');
+      return data;
+    };
+
+    // Replaces the packages and add-ons when they are part of the request.
+    // Add-ons are withdrawn rather than deleted so open negotiations that
+    // picked them can still become orders.
+    const saveCatalogue = async (id: string) => {
+      if (packages !== undefined) {
+        const refusal = checkPackages(packages);
+        if (refusal) throw new Error(refusal);
+
+        const rows = (packages as ServicePackageInput[]).map((pkg) => ({
+          service_id: id,
+          tier: pkg.tier,
+          name: pkg.name.trim(),
+          description: pkg.description?.trim() || null,
+          price: Number(pkg.price),
+          delivery_days: pkg.delivery_days,
+          revisions: pkg.revisions ?? null,
+          features: (pkg.features || []).map((f) => String(f).trim()).filter(Boolean)
+        }));
+
+        const tiers = rows.map((row) => row.tier);
+        let removal = supabase.from('service_packages').delete().eq('service_id', id);
+        if (tiers.length) removal = removal.not('tier', 'in', `(${tiers.join(',')})`);
+        const { error: deleteError } = await removal;
+        if (deleteError) throw deleteError;
+
+        if (rows.length) {
+          const { error } = await supabase.from('service_packages').upsert(rows, { onConflict: 'service_id,tier' });
+          if (error) throw error;
         }
-        if (filters?.maxPrice) {
-          query = query.lte('price', filters.maxPrice);
+      }
+
+      if (addons !== undefined) {
+        const refusal = checkAddons(addons);
+        if (refusal) throw new Error(refusal);
+
+        const input = (addons as ServiceAddonInput[]).map((addon) => ({
+          ...addon,
+          id: addon.id && UUID_RE.test(addon.id) ? addon.id : undefined
+        }));
+        const keep = input.map((addon) => addon.id).filter(Boolean) as string[];
+        let withdrawal = supabase.from('service_addons').update({ is_active: false }).eq('service_id', id);
+        if (keep.length) withdrawal = withdrawal.not('id', 'in', `(${keep.join(',')})`);
+        const { error: withdrawError } = await withdrawal;
+        if (withdrawError) throw withdrawError;
+
+        for (const [position, addon] of input.entries()) {
+          const row = {
+            title: addon.title.trim(),
+            description: addon.description?.trim() || null,
+            price: Number(addon.price),
+            extra_delivery_days: addon.extra_delivery_days ?? 0,
+            position,
+            is_active: true
+          };
+          const { error } = addon.id
+            ? await supabase.from('service_addons').update(row).eq('id', addon.id).eq('service_id', id)
+            : await supabase.from('service_addons').insert({ ...row, service_id: id });
+          if (error) throw error;
         }
+      }
+    };
+
+    if (!READ_ACTIONS.includes(action)) {
+      const closed = await checkMaintenance(supabase, (await optionalUser())?.id);
+      if (closed) {
+        return new Response(JSON.stringify({ success: false, error: closed }), {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    switch (action) {
+      case 'search': {
+        const searchSort: MarketplaceSort = isMarketplaceSort(sort) ? sort : 'relevance';
+        const pageSize = searchLimit(limit);
+        const after = decodeSearchCursor(searchSort, cursor);
+        if (cursor && !after) throw new Error('Invalid or expired search cursor');
+
+        const params = searchFilterParams({ query, filters });
 
-        const { data, error } = await query.order('is_featured', { ascending: false }).order('rating', { ascending: false });
+        // One extra row tells us whether there is a next page
+        const [{ data: hits, error }, { data: facets, error: facetsError }] = await Promise.all([
+          supabase.rpc('search_services', {
+            ...params,
+            p_sort: searchSort,
+            p_after_key: after?.key ?? null,
+            p_after_id: after?.id ?? null,
+            p_limit: pageSize + 1
+          }),
+          supabase.rpc('service_search_facets', params)
+        ]);
 
         if (error) throw error;
+        if (facetsError) throw facetsError;
 
-        // Transform data for frontend
-        const services = (data || []).map((s: any) => ({
-          id: s.id,
-          title: s.title,
-          description: s.description,
-          provider: s.provider?.business_name || s.provider?.full_name || 'Provider',
-          providerType: s.provider_type,
-          category: s.category,
-          skills: s.skills || [],
-          location: s.location || 'Zambia',
-          deliveryTime: s.delivery_time || '3-5 days',
-          rating: s.rating || 4.5,
-          reviews: s.reviews_count || 0,
-          currency: s.currency || 'K',
-          price: s.price,
-          image: s.images?.[0] || 'https://images.unsplash.com/photo-1454165804606-c3d57bc86b40?w=400'
-        }));
+        const page = (hits || []).slice(0, pageSize) as { id: string; rank: number; sort_key: string }[];
+        const last = page[page.length - 1];
+        const nextCursor = (hits || []).length > pageSize && last
+          ? encodeSearchCursor(searchSort, { key: last.sort_key, id: last.id })
+          : null;
+
+        // deno-lint-ignore no-explicit-any
+        let rows: any[] = [];
+        // deno-lint-ignore no-explicit-any
+        let providers: any[] = [];
+        if (page.length) {
+          const { data, error: rowsError } = await supabase
+            .from('services')
+            .select('id, title, description, provider_id, provider_type, category, subcategory, skills, location, delivery_time, delivery_days, rating, reviews_count, currency, price, min_price, max_price, images')
+            .in('id', page.map((hit) => hit.id));
+
+          if (rowsError) throw rowsError;
+          rows = data || [];
+
+          const { data: profiles } = await supabase
+            .from('profiles')
+            .select('id, display_name, full_name, business_name, avatar_url, profile_image_url')
+            .in('id', [...new Set(rows.map((row) => row.provider_id))]);
+          providers = profiles || [];
+        }
+
+        const rowById = new Map(rows.map((row) => [row.id, row]));
+        const providerById = new Map(providers.map((p) => [p.id, p]));
 
-        return new Response(JSON.stringify({ success: true, data: services }), {
+        // Same order as the search; only real listing data, no placeholders
+        const services: MarketplaceService[] = page.flatMap((hit) => {
+          const s = rowById.get(hit.id);
+          if (!s) return [];
+          const provider = providerById.get(s.provider_id);
+          return [{
+            id: s.id,
+            title: s.title,
+            description: s.description,
+            provider: provider?.business_name || provider?.display_name || provider?.full_name || 'Service Provider',
+            providerId: s.provider_id,
+            providerAvatar: provider?.profile_image_url || provider?.avatar_url || null,
+            providerType: s.provider_type || 'freelancer',
+            category: s.category,
+            subcategory: s.subcategory,
+            skills: s.skills || [],
+            location: s.location,
+            deliveryTime: s.delivery_time,
+            deliveryDays: s.delivery_days,
+            rating: s.reviews_count ? Number(s.rating) : null,
+            reviews: s.reviews_count || 0,
+            currency: s.currency,
+            price: Number(s.price),
+            minPrice: s.min_price,
+            maxPrice: s.max_price,
+            image: s.images?.[0] || null,
+            rank: hit.rank
+          }];
+        });
+
+        return new Response(JSON.stringify({ success: true, data: services, facets, nextCursor }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
 
-      case 'create': {
-        const authHeader = req.headers.get('Authorization');
-        if (!authHeader) {
-          throw new Error('Authorization required');
+      case 'get_service': {
+        if (!serviceId) throw new Error('serviceId is required');
+        const user = await optionalUser();
+
+        const { data: service, error } = await supabase
+          .from('services')
+          .select('*, packages:service_packages(*), addons:service_addons(*)')
+          .eq('id', serviceId)
+          .maybeSingle();
+
+        if (error) throw error;
+        // Unlisted services are only visible to their provider
+        if (!service || (!service.is_active && service.provider_id !== user?.id)) {
+          throw new Error('Service not found');
         }
 
-        const { data: { user }, error: authError } = await supabase.auth.getUser(
-          authHeader.replace('Bearer ', '')
-        );
-        if (authError || !user) throw new Error('Unauthorized');
+        service.packages = sortPackages(service.packages || []);
+        service.addons = (service.addons || [])
+          .filter((a: ServiceAddon) => a.is_active)
+          .sort((a: ServiceAddon, b: ServiceAddon) => a.position - b.position);
+
+        return new Response(JSON.stringify({ success: true, data: service }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // New services start as drafts; submit_for_review sends them to moderation
+      case 'create': {
+        const user = await requireUser();
+        const fields = serviceFields(serviceData);
+        if (!fields.title || !fields.category) throw new Error('A title and category are required');
 
         const { data, error } = await supabase
           .from('services')
           .insert({
-            ...serviceData,
-            provider_id: user.id
+            ...fields,
+            provider_id: user.id,
+            status: 'draft'
           })
           .select()
           .single();
 
         if (error) throw error;
+        await saveCatalogue(data.id);
         return new Response(JSON.stringify({ success: true, data }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
 
       case 'update': {
-        const authHeader = req.headers.get('Authorization');
-        if (!authHeader) throw new Error('Authorization required');
+        const user = await requireUser();
+        const service = await loadOwnService(user.id);
+        const fields = serviceFields(serviceData);
+
+        let data = service;
+        if (Object.keys(fields).length) {
+          const { data: updated, error } = await supabase
+            .from('services')
+            .update(fields)
+            .eq('id', service.id)
+            .select()
+            .single();
+
+          if (error) throw error;
+          data = updated;
+        }
+
+        await saveCatalogue(service.id);
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'submit_for_review': {
+        const user = await requireUser();
+        const service = await loadOwnService(user.id);
+
+        const { count } = await supabase
+          .from('service_packages')
+          .select('id', { count: 'exact', head: true })
+          .eq('service_id', service.id);
 
-        const { data: { user }, error: authError } = await supabase.auth.getUser(
-          authHeader.replace('Bearer ', '')
-        );
-        if (authError || !user) throw new Error('Unauthorized');
+        if (!service.description?.trim()) throw new Error('Add a description before submitting');
+        if (!count && !(Number(service.price) > 0)) throw new Error('Add at least one package or a price before submitting');
 
         const { data, error } = await supabase
           .from('services')
-          .update(serviceData)
-          .eq('id', serviceId)
-          .eq('provider_id', user.id)
+          .update({ status: 'pending_review', submitted_at: new Date().toISOString() })
+          .eq('id', service.id)
+          .in('status', SUBMITTABLE_STATUSES)
+          .select()
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) throw new Error('Only drafts and services that need changes can be submitted');
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Vacation mode: the listing disappears from the marketplace until
+      // resumed, or until `pausedUntil` when given
+      case 'pause': {
+        const user = await requireUser();
+        const service = await loadOwnService(user.id);
+
+        const until = pausedUntil ? new Date(pausedUntil) : null;
+        if (until && (Number.isNaN(until.getTime()) || until.getTime() <= Date.now())) {
+          throw new Error('The pause must end in the future');
+        }
+        const messageText = typeof pauseMessage === 'string' ? pauseMessage.trim() : '';
+        if (messageText.length > 500) throw new Error('Pause message exceeds 500 characters');
+
+        const { data, error } = await supabase
+          .from('services')
+          .update({
+            paused_at: service.paused_at || new Date().toISOString(),
+            paused_until: until?.toISOString() ?? null,
+            pause_message: messageText || null
+          })
+          .eq('id', service.id)
           .select()
           .single();
 
@@ -124,22 +380,39 @@ serve(async (req) => {
         });
       }
 
-      case 'get_provider_services': {
-        const authHeader = req.headers.get('Authorization');
-        if (!authHeader) throw new Error('Authorization required');
+      case 'resume': {
+        const user = await requireUser();
+        const service = await loadOwnService(user.id);
+
+        const { data, error } = await supabase
+          .from('services')
+          .update({ paused_at: null, paused_until: null, pause_message: null })
+          .eq('id', service.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
 
-        const { data: { user }, error: authError } = await supabase.auth.getUser(
-          authHeader.replace('Bearer ', '')
-        );
-        if (authError || !user) throw new Error('Unauthorized');
+      case 'get_provider_services': {
+        const user = await requireUser();
 
         const { data, error } = await supabase
           .from('services')
-          .select('*')
+          .select('*, packages:service_packages(*), addons:service_addons(*)')
           .eq('provider_id', user.id)
           .order('created_at', { ascending: false });
 
         if (error) throw error;
+        for (const service of data || []) {
+          service.packages = sortPackages(service.packages || []);
+          service.addons = (service.addons || [])
+            .filter((a: ServiceAddon) => a.is_active)
+            .sort((a: ServiceAddon, b: ServiceAddon) => a.position - b.position);
+        }
         return new Response(JSON.stringify({ success: true, data }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
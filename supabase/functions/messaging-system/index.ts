@@ -0,0 +1,208 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { routeNotification } from "../_shared/notification-router.ts";
+import { checkNewThreadRecipient, messageBody, requireConversationParticipant } from "../_shared/messaging.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization required');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { action, conversationId, recipientId, subject, content, serviceId, includeArchived, archived } = await req.json();
+    console.log('Messaging action:', action, 'user:', user.id);
+
+    // Verify the caller belongs to the thread before touching it
+    const requireParticipant = (id: string | undefined) => requireConversationParticipant(supabase, id, user.id);
+
+    switch (action) {
+      case 'list_threads': {
+        const { data, error } = await supabase.rpc('list_user_threads', {
+          p_user_id: user.id,
+          p_include_archived: !!includeArchived
+        });
+
+        if (error) throw error;
+
+        const threads = data || [];
+        const unreadTotal = threads.reduce((sum: number, t: any) => sum + Number(t.unread_count || 0), 0);
+
+        return new Response(JSON.stringify({ success: true, data: threads, unreadTotal }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'get_thread': {
+        await requireParticipant(conversationId);
+
+        const { data: conversation, error: convError } = await supabase
+          .from('conversations')
+          .select(`
+            *,
+            participants:conversation_participants(
+              user_id, last_read_at, archived_at,
+              profile:profiles(id, full_name, business_name, avatar_url)
+            )
+          `)
+          .eq('id', conversationId)
+          .single();
+
+        if (convError) throw convError;
+
+        const { data: messages, error: msgError } = await supabase
+          .from('messages')
+          .select('id, conversation_id, sender_id, content, created_at')
+          .eq('conversation_id', conversationId)
+          .order('created_at', { ascending: true });
+
+        if (msgError) throw msgError;
+
+        return new Response(JSON.stringify({ success: true, data: { conversation, messages: messages || [] } }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'send_message': {
+        const body = messageBody(content);
+
+        let threadId = conversationId as string | undefined;
+
+        if (threadId) {
+          await requireParticipant(threadId);
+        } else {
+          // Starting a new thread requires a recipient
+          checkNewThreadRecipient(user.id, recipientId);
+
+          const { data: recipient, error: recipientError } = await supabase
+            .from('profiles')
+            .select('id')
+            .eq('id', recipientId)
+            .maybeSingle();
+
+          if (recipientError) throw recipientError;
+          if (!recipient) throw new Error('Recipient not found');
+
+          const { data: conversation, error: convError } = await supabase
+            .from('conversations')
+            .insert({
+              subject: subject || null,
+              created_by: user.id,
+              service_id: serviceId || null
+            })
+            .select()
+            .single();
+
+          if (convError) throw convError;
+
+          const { error: partError } = await supabase
+            .from('conversation_participants')
+            .insert([
+              { conversation_id: conversation.id, user_id: user.id, last_read_at: new Date().toISOString() },
+              { conversation_id: conversation.id, user_id: recipientId }
+            ]);
+
+          if (partError) throw partError;
+          threadId = conversation.id;
+        }
+
+        const { data: message, error: msgError } = await supabase
+          .from('messages')
+          .insert({
+            conversation_id: threadId,
+            sender_id: user.id,
+            content: body
+          })
+          .select()
+          .single();
+
+        if (msgError) throw msgError;
+
+        // Notify everyone else in the thread
+        const { data: others } = await supabase
+          .from('conversation_participants')
+          .select('user_id')
+          .eq('conversation_id', threadId)
+          .neq('user_id', user.id);
+
+        for (const p of (others || []) as { user_id: string }[]) {
+          try {
+            await routeNotification(supabase, {
+              kind: 'message_received',
+              userId: p.user_id,
+              title: 'New message',
+              body: body.length > 120 ? `${body.slice(0, 117)}...` : body,
+              relatedId: message.id,
+              data: { conversation_id: threadId, sender_id: user.id }
+            });
+          } catch (notifyError) {
+            console.error('Message notification error:', notifyError);
+          }
+        }
+
+        return new Response(JSON.stringify({ success: true, data: message, conversationId: threadId }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'mark_read': {
+        await requireParticipant(conversationId);
+
+        const { error } = await supabase
+          .from('conversation_participants')
+          .update({ last_read_at: new Date().toISOString() })
+          .eq('conversation_id', conversationId)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'archive': {
+        await requireParticipant(conversationId);
+
+        // Archiving is per participant; pass archived: false to restore
+        const { error } = await supabase
+          .from('conversation_participants')
+          .update({ archived_at: archived === false ? null : new Date().toISOString() })
+          .eq('conversation_id', conversationId)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Messaging error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
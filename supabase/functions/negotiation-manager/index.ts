@@ -1,11 +1,34 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { calculateTax, loadTaxRules, loadVatStatus } from "../_shared/tax-engine.ts";
+import { routeNotification } from "../_shared/notification-router.ts";
+import {
+  awaitingParty,
+  checkNegotiationAction,
+  NEGOTIATION_TTL_MS,
+  OPEN_NEGOTIATION_STATUSES,
+  otherParty,
+  partyOf,
+  type NegotiationAction,
+  type NegotiationState
+} from "../_shared/negotiation-rules.ts";
+import { quotePackage, sortPackages, type ServiceAddon, type ServicePackage } from "../_shared/service-catalogue.ts";
+import { checkMaintenance, loadPlatformSettings, orderFeePercent } from "../_shared/platform-settings.ts";
+import { calculatePlatformFee, loadFeeSchedule, loadProviderPlanId } from "../_shared/fee-schedule.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Delivery window for orders that don't come from a package
+const DEFAULT_DELIVERY_DAYS = 14;
+
+// Actions that keep working during maintenance
+const READ_ACTIONS = ['get_messages', 'get_user_negotiations'];
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -26,23 +49,161 @@ serve(async (req) => {
     );
     if (authError || !user) throw new Error('Unauthorized');
 
-    const { action, negotiationId, serviceId, providerId, initialPrice, serviceTitle, proposedPrice, message } = await req.json();
+    const {
+      action, negotiationId, serviceId, providerId, initialPrice, serviceTitle, proposedPrice, floorPrice, message, packageId, addonIds
+    } = await req.json();
     console.log('Negotiation action:', action, 'user:', user.id);
 
+    const settings = await loadPlatformSettings(supabase);
+    if (!READ_ACTIONS.includes(action)) {
+      const closed = await checkMaintenance(supabase, user.id, settings);
+      if (closed) {
+        return new Response(JSON.stringify({ success: false, error: closed }), {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+    // Order fees come from the fee schedule, falling back to the order fee
+    const orderFee = async (price: number, orderProviderId: string) =>
+      calculatePlatformFee(await loadFeeSchedule(supabase), {
+        amount: Number(price),
+        currency: 'ZMW',
+        transactionType: 'order',
+        providerId: orderProviderId,
+        providerPlanId: await loadProviderPlanId(supabase, orderProviderId),
+        fallbackPercent: orderFeePercent(settings)
+      }).fee;
+
+    // Loads the negotiation and checks `action` against the rules
+    const loadForAction = async (negotiationAction: NegotiationAction, price?: number) => {
+      const { data: negotiation, error } = await supabase
+        .from('negotiations')
+        .select('*')
+        .eq('id', negotiationId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!negotiation) throw new Error('Negotiation not found');
+
+      let floor: number | null = null;
+      if (negotiationAction === 'counter_offer' && negotiation.service_id) {
+        const { data } = await supabase
+          .from('service_price_floors')
+          .select('floor_price')
+          .eq('service_id', negotiation.service_id)
+          .maybeSingle();
+        floor = data ? Number(data.floor_price) : null;
+      }
+
+      const refusal = checkNegotiationAction(negotiation as NegotiationState, user.id, negotiationAction, {
+        proposedPrice: price,
+        floorPrice: floor
+      });
+      if (refusal) throw new Error(refusal);
+      return negotiation;
+    };
+
+    // Guarded transition: only applies if nobody else moved the negotiation
+    // on in the meantime (same turn, still open)
+    const transition = async (negotiation: NegotiationState & { id: string }, patch: Record<string, unknown>) => {
+      const { data, error } = await supabase
+        .from('negotiations')
+        .update(patch)
+        .eq('id', negotiation.id)
+        .eq('awaiting_party', awaitingParty(negotiation))
+        .in('status', OPEN_NEGOTIATION_STATUSES)
+        .gt('expires_at', new Date().toISOString())
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error('The negotiation changed in the meantime; refresh and try again');
+      return data;
+    };
+
+    const notify = async (userId: string, title: string, body: string) => {
+      try {
+        await routeNotification(supabase, {
+          kind: 'negotiation_update',
+          userId,
+          title,
+          body,
+          relatedId: negotiationId,
+          data: { negotiation_id: negotiationId }
+        });
+      } catch (error) {
+        console.error('Negotiation notification error:', error);
+      }
+    };
+
     switch (action) {
       case 'create': {
-        // Create new negotiation
+        // The listing sets the provider and opening price when there is one
+        const { data: service } = serviceId && UUID_RE.test(serviceId)
+          ? await supabase
+            .from('services')
+            .select('id, provider_id, title, price, is_active, pause_message, packages:service_packages(*), addons:service_addons(*)')
+            .eq('id', serviceId)
+            .maybeSingle()
+          : { data: null };
+
+        if (service && !service.is_active) {
+          throw new Error(service.pause_message || 'This service is not taking new orders right now');
+        }
+
+        // With packages the opening price is the chosen package (the basic
+        // one when none was picked) plus the chosen add-ons
+        const packages = sortPackages((service?.packages || []) as ServicePackage[]);
+        const chosenPackage = packageId ? packages.find((p) => p.id === packageId) : packages[0];
+        if (packageId && !chosenPackage) throw new Error('That package is no longer offered');
+        const chosenAddonIds: string[] = Array.isArray(addonIds) ? addonIds.map(String) : [];
+        if (chosenAddonIds.length && !chosenPackage) throw new Error('Add-ons need a package');
+        const quote = chosenPackage
+          ? quotePackage(chosenPackage, (service?.addons || []) as ServiceAddon[], chosenAddonIds)
+          : null;
+
+        const negotiationProviderId = service?.provider_id || providerId;
+        const openingPrice = Number(quote?.price ?? service?.price ?? initialPrice);
+        if (!negotiationProviderId) throw new Error('providerId is required');
+        if (!Number.isFinite(openingPrice) || openingPrice <= 0) throw new Error('A valid initial price is required');
+        if (negotiationProviderId === user.id) throw new Error('You cannot negotiate on your own service');
+
+        // One open negotiation per client and service
+        if (service) {
+          const { data: existing } = await supabase
+            .from('negotiations')
+            .select('*')
+            .eq('service_id', service.id)
+            .eq('client_id', user.id)
+            .in('status', OPEN_NEGOTIATION_STATUSES)
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle();
+
+          if (existing) {
+            return new Response(JSON.stringify({ success: true, data: existing }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+          }
+        }
+
+        // The listing price is the provider's opening offer, so the client
+        // moves first
         const { data: negotiation, error } = await supabase
           .from('negotiations')
           .insert({
-            service_id: serviceId,
-            provider_id: providerId,
+            service_id: service?.id ?? null,
+            package_id: chosenPackage?.id ?? null,
+            addon_ids: quote?.addons.map((a) => a.id) ?? [],
+            provider_id: negotiationProviderId,
             client_id: user.id,
-            service_title: serviceTitle,
-            initial_price: initialPrice,
-            current_price: initialPrice,
+            service_title: service?.title || serviceTitle,
+            initial_price: openingPrice,
+            current_price: openingPrice,
             status: 'pending',
-            expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
+            awaiting_party: 'client',
+            last_offer_by: negotiationProviderId,
+            expires_at: new Date(Date.now() + NEGOTIATION_TTL_MS).toISOString()
           })
           .select()
           .single();
@@ -54,7 +215,7 @@ serve(async (req) => {
           negotiation_id: negotiation.id,
           sender_id: user.id,
           message: message || 'Started negotiation',
-          proposed_price: initialPrice,
+          proposed_price: openingPrice,
           message_type: 'message'
         });
 
@@ -64,70 +225,51 @@ serve(async (req) => {
       }
 
       case 'counter_offer': {
-        // Update negotiation with counter offer
-        const { data: negotiation, error: fetchError } = await supabase
-          .from('negotiations')
-          .select('*')
-          .eq('id', negotiationId)
-          .single();
-
-        if (fetchError) throw fetchError;
-
-        // Verify user is participant
-        if (negotiation.provider_id !== user.id && negotiation.client_id !== user.id) {
-          throw new Error('Not authorized for this negotiation');
-        }
-
-        // Update negotiation
-        const { error: updateError } = await supabase
-          .from('negotiations')
-          .update({
-            current_price: proposedPrice,
-            status: 'countered'
-          })
-          .eq('id', negotiationId);
-
-        if (updateError) throw updateError;
+        const price = Number(proposedPrice);
+        const negotiation = await loadForAction('counter_offer', price);
+        const party = partyOf(negotiation, user.id)!;
+
+        const updated = await transition(negotiation, {
+          current_price: price,
+          status: 'countered',
+          awaiting_party: otherParty(party),
+          last_offer_by: user.id,
+          offer_count: (negotiation.offer_count || 0) + 1
+        });
 
         // Add message
         await supabase.from('negotiation_messages').insert({
           negotiation_id: negotiationId,
           sender_id: user.id,
-          message: message || `Counter offer: K${proposedPrice}`,
-          proposed_price: proposedPrice,
+          message: message || `Counter offer: K${price}`,
+          proposed_price: price,
           message_type: 'counter_offer'
         });
 
-        return new Response(JSON.stringify({ success: true }), {
+        await notify(
+          party === 'client' ? negotiation.provider_id : negotiation.client_id,
+          'New counter offer',
+          `You have a counter offer of K${price.toFixed(2)} for "${negotiation.service_title}". It is your turn to respond.`
+        );
+
+        return new Response(JSON.stringify({ success: true, data: updated }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
 
       case 'accept': {
-        const { data: negotiation, error: fetchError } = await supabase
-          .from('negotiations')
-          .select('*')
-          .eq('id', negotiationId)
-          .single();
-
-        if (fetchError) throw fetchError;
-
-        if (negotiation.provider_id !== user.id && negotiation.client_id !== user.id) {
-          throw new Error('Not authorized');
-        }
+        // Only the party being waited on can accept, i.e. never the one who
+        // made the offer on the table
+        const negotiation = await loadForAction('accept');
+        const party = partyOf(negotiation, user.id)!;
 
-        const platformFee = negotiation.current_price * 0.03;
+        const platformFee = await orderFee(negotiation.current_price, negotiation.provider_id);
 
-        const { error: updateError } = await supabase
-          .from('negotiations')
-          .update({
-            status: 'accepted',
-            final_price: negotiation.current_price,
-            platform_fee: platformFee
-          })
-          .eq('id', negotiationId);
-
-        if (updateError) throw updateError;
+        const updated = await transition(negotiation, {
+          status: 'accepted',
+          final_price: negotiation.current_price,
+          platform_fee: platformFee
+        });
 
         // Add acceptance message
         await supabase.from('negotiation_messages').insert({
@@ -138,8 +280,15 @@ serve(async (req) => {
           message_type: 'acceptance'
         });
 
+        await notify(
+          party === 'client' ? negotiation.provider_id : negotiation.client_id,
+          'Price agreed',
+          `The price of K${Number(negotiation.current_price).toFixed(2)} for "${negotiation.service_title}" was accepted.`
+        );
+
         return new Response(JSON.stringify({ 
           success: true, 
+          data: updated,
           finalPrice: negotiation.current_price,
           platformFee 
         }), {
@@ -148,12 +297,19 @@ serve(async (req) => {
       }
 
       case 'reject': {
-        const { error } = await supabase
+        const negotiation = await loadForAction('reject');
+        const party = partyOf(negotiation, user.id)!;
+
+        const { data: updated, error } = await supabase
           .from('negotiations')
           .update({ status: 'rejected' })
-          .eq('id', negotiationId);
+          .eq('id', negotiationId)
+          .in('status', OPEN_NEGOTIATION_STATUSES)
+          .select()
+          .maybeSingle();
 
         if (error) throw error;
+        if (!updated) throw new Error('The negotiation changed in the meantime; refresh and try again');
 
         await supabase.from('negotiation_messages').insert({
           negotiation_id: negotiationId,
@@ -162,7 +318,48 @@ serve(async (req) => {
           message_type: 'rejection'
         });
 
-        return new Response(JSON.stringify({ success: true }), {
+        await notify(
+          party === 'client' ? negotiation.provider_id : negotiation.client_id,
+          'Negotiation declined',
+          `The negotiation for "${negotiation.service_title}" was declined.`
+        );
+
+        return new Response(JSON.stringify({ success: true, data: updated }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'set_floor_price': {
+        // Lowest price the provider accepts; null removes it
+        const { data: service, error: serviceError } = await supabase
+          .from('services')
+          .select('id, provider_id')
+          .eq('id', serviceId)
+          .eq('provider_id', user.id)
+          .maybeSingle();
+
+        if (serviceError) throw serviceError;
+        if (!service) throw new Error('Service not found');
+
+        if (floorPrice === null || floorPrice === undefined || floorPrice === '') {
+          const { error } = await supabase.from('service_price_floors').delete().eq('service_id', service.id);
+          if (error) throw error;
+          return new Response(JSON.stringify({ success: true, data: null }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const floor = Number(floorPrice);
+        if (!Number.isFinite(floor) || floor < 0) throw new Error('Enter a valid floor price');
+
+        const { data, error } = await supabase
+          .from('service_price_floors')
+          .upsert({ service_id: service.id, provider_id: user.id, floor_price: floor }, { onConflict: 'service_id' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true, data }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
@@ -207,12 +404,46 @@ serve(async (req) => {
           .select('*')
           .eq('id', negotiationId)
           .eq('status', 'accepted')
+          .eq('client_id', user.id)
           .single();
 
         if (fetchError) throw fetchError;
 
-        const platformFee = negotiation.final_price * 0.03;
-        const totalAmount = negotiation.final_price + platformFee;
+        // Reuse the unpaid order if the client comes back to pay later
+        const { data: existingOrder } = await supabase
+          .from('orders')
+          .select('*')
+          .eq('negotiation_id', negotiationId)
+          .eq('status', 'pending')
+          .maybeSingle();
+
+        if (existingOrder) {
+          return new Response(JSON.stringify({ success: true, data: existingOrder }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // The package and add-ons were priced into the negotiation; the order
+        // keeps a copy of what they include
+        const { data: chosenPackage } = negotiation.package_id
+          ? await supabase.from('service_packages').select('*').eq('id', negotiation.package_id).maybeSingle()
+          : { data: null };
+        const { data: chosenAddons } = chosenPackage && negotiation.addon_ids?.length
+          ? await supabase.from('service_addons').select('*').in('id', negotiation.addon_ids)
+          : { data: [] };
+        const quote = chosenPackage
+          ? quotePackage(chosenPackage, (chosenAddons || []) as ServiceAddon[], negotiation.addon_ids, { allowInactive: true })
+          : null;
+        const deliveryDays = quote?.deliveryDays ?? DEFAULT_DELIVERY_DAYS;
+
+        const platformFee = await orderFee(negotiation.final_price, negotiation.provider_id);
+        const tax = calculateTax(await loadTaxRules(supabase), {
+          amount: Number(negotiation.final_price),
+          currency: 'ZMW',
+          category: 'service',
+          sellerVatStatus: await loadVatStatus(supabase, negotiation.provider_id)
+        });
+        const totalAmount = negotiation.final_price + platformFee + tax.addedTax;
 
         const { data: order, error } = await supabase
           .from('orders')
@@ -225,9 +456,18 @@ serve(async (req) => {
             agreed_price: negotiation.final_price,
             platform_fee: platformFee,
             total_amount: totalAmount,
+            tax_lines: tax.lines,
+            tax_amount: tax.addedTax,
+            withholding_amount: tax.withheldTax,
             currency: 'ZMW',
             status: 'pending',
-            delivery_deadline: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString()
+            package_id: chosenPackage?.id ?? null,
+            package_tier: chosenPackage?.tier ?? null,
+            package_name: chosenPackage?.name ?? null,
+            revisions_included: quote?.revisions ?? null,
+            delivery_days: quote ? deliveryDays : null,
+            addons: quote?.addons ?? [],
+            delivery_deadline: new Date(Date.now() + deliveryDays * 24 * 60 * 60 * 1000).toISOString()
           })
           .select()
           .single();
@@ -0,0 +1,153 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  digestIsEmpty,
+  digestSlot,
+  DIGEST_PERIOD_DAYS,
+  loadDigestContent,
+  type DigestFrequency,
+  type DigestSkipReason,
+} from '../_shared/notification-digest.ts'
+import { enqueueTemplatedEmail } from '../_shared/transactional-email.ts'
+
+// Hourly digest run, triggered by the 'notification-digests' pg_cron job.
+// Users due a daily or weekly digest (last_digest_at before the current
+// slot) get one 'notification_digest' email through the transactional queue,
+// unless their address is suppressed or they used their unsubscribe link
+// (checked when enqueueing). Every user handled gets last_digest_at stamped
+// and a notification_logs row, sent or not.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_DIGESTS_PER_RUN = 200
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+function parseJwtClaims(token: string): Record<string, unknown> | null {
+  const parts = token.split('.')
+  if (parts.length < 2) {
+    return null
+  }
+
+  try {
+    const payload = parts[1]
+      .replaceAll('-', '+')
+      .replaceAll('_', '/')
+      .padEnd(Math.ceil(parts[1].length / 4) * 4, '=')
+
+    return JSON.parse(atob(payload)) as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing required environment variables')
+    return jsonResponse({ error: 'Server configuration error' }, 500)
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return jsonResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  // Emails every digest subscriber, so only the cron job (service role) may call it
+  const claims = parseJwtClaims(authHeader.slice('Bearer '.length).trim())
+  if (claims?.role !== 'service_role') {
+    return jsonResponse({ error: 'Forbidden' }, 403)
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+  const now = new Date()
+
+  const sendDigest = async (
+    userId: string,
+    frequency: DigestFrequency,
+    since: Date,
+    slot: Date,
+  ): Promise<{ messageId?: string; skipped?: DigestSkipReason; subject: string; items: number }> => {
+    const subject = `${frequency === 'daily' ? 'Daily' : 'Weekly'} digest`
+
+    const { data: profile } = await supabase.from('profiles').select('email').eq('id', userId).maybeSingle()
+    const email = profile?.email?.trim().toLowerCase()
+    if (!email) return { skipped: 'no_email', subject, items: 0 }
+
+    const content = await loadDigestContent(supabase, userId, since, now)
+    const items = content.unreadTotal + content.fundingMatches.length +
+      content.professionalMatches.length + content.deadlines.length
+    if (digestIsEmpty(content)) return { skipped: 'empty', subject, items }
+
+    const queued = await enqueueTemplatedEmail(supabase, {
+      to: email,
+      template: 'notification_digest',
+      variables: { frequency, ...content },
+      idempotencyKey: `digest:${userId}:${slot.toISOString()}`,
+    })
+    if (queued.skipped) return { skipped: queued.skipped, subject, items }
+    if (!queued.queued) throw new Error(queued.error || 'Failed to enqueue digest')
+
+    return { messageId: queued.messageId, subject, items }
+  }
+
+  const summary = { sent: 0, skipped: {} as Record<string, number>, errors: 0 }
+  let remaining = MAX_DIGESTS_PER_RUN
+
+  for (const frequency of ['daily', 'weekly'] as DigestFrequency[]) {
+    if (remaining <= 0) break
+    const slot = digestSlot(frequency, now)
+
+    const { data: due, error: dueError } = await supabase
+      .from('notification_preferences')
+      .select('user_id, last_digest_at')
+      .eq('frequency', frequency)
+      .or(`last_digest_at.is.null,last_digest_at.lt.${slot.toISOString()}`)
+      .order('last_digest_at', { ascending: true, nullsFirst: true })
+      .limit(remaining)
+    if (dueError) {
+      console.error(`Failed to load ${frequency} digest subscribers:`, dueError)
+      return jsonResponse({ error: 'Failed to load digest subscribers' }, 500)
+    }
+
+    for (const prefs of due || []) {
+      remaining--
+      const since = prefs.last_digest_at
+        ? new Date(prefs.last_digest_at)
+        : new Date(slot.getTime() - DIGEST_PERIOD_DAYS[frequency] * DAY_MS)
+
+      try {
+        const result = await sendDigest(prefs.user_id, frequency, since, slot)
+
+        await supabase
+          .from('notification_preferences')
+          .update({ last_digest_at: now.toISOString() })
+          .eq('user_id', prefs.user_id)
+
+        await supabase.from('notification_logs').insert({
+          user_id: prefs.user_id,
+          notification_type: 'system',
+          event: `digest_${frequency}`,
+          title: result.subject,
+          message: `${result.items} item${result.items === 1 ? '' : 's'} since ${since.toISOString()}`,
+          channels: result.messageId ? ['email'] : [],
+          skipped: result.skipped ? { email: result.skipped } : {},
+          email_sent: !!result.messageId,
+          email_message_id: result.messageId ?? null,
+          sent_at: result.messageId ? now.toISOString() : null,
+        })
+
+        if (result.messageId) summary.sent++
+        else summary.skipped[result.skipped!] = (summary.skipped[result.skipped!] || 0) + 1
+      } catch (error) {
+        // last_digest_at is left alone so the next run retries
+        summary.errors++
+        console.error(`Digest for user ${prefs.user_id} failed:`, error)
+      }
+    }
+  }
+
+  console.log('Notification digest run complete', summary)
+  return jsonResponse({ success: true, ...summary })
+})
@@ -0,0 +1,528 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scaleTaxLines, type TaxLine } from "../_shared/tax-engine.ts";
+import { acceptanceSettlement, refundSettlement } from "../_shared/escrow-settlement.ts";
+import { checkMaintenance } from "../_shared/platform-settings.ts";
+import { routeNotification } from "../_shared/notification-router.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How long a client has to review a delivery before escrow is released
+// automatically by the auto_accept_delivered_orders cron job.
+const AUTO_ACCEPT_DAYS = Number(Deno.env.get('ORDER_AUTO_ACCEPT_DAYS') || 5);
+const MAX_NOTE_LENGTH = 2000;
+const MAX_MILESTONES = 20;
+
+// Actions that keep working during maintenance
+const READ_ACTIONS = ['list_orders', 'get_order'];
+
+interface MilestoneInput {
+  title?: string;
+  description?: string;
+  amount?: number | string;
+  dueDate?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization required');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { action, orderId, milestoneId, milestones, role, note, reason } = await req.json();
+    console.log('Order action:', action, 'user:', user.id);
+
+    if (!READ_ACTIONS.includes(action)) {
+      const closed = await checkMaintenance(supabase, user.id);
+      if (closed) {
+        return new Response(JSON.stringify({ success: false, error: closed }), {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Load an order the caller takes part in, optionally as a specific side
+    const loadOrder = async (side?: 'client' | 'provider') => {
+      if (!orderId) throw new Error('orderId is required');
+
+      const { data: order, error } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!order || (order.client_id !== user.id && order.provider_id !== user.id)) {
+        throw new Error('Order not found');
+      }
+      if (side === 'client' && order.client_id !== user.id) {
+        throw new Error('Only the client can perform this action');
+      }
+      if (side === 'provider' && order.provider_id !== user.id) {
+        throw new Error('Only the provider can perform this action');
+      }
+      return order;
+    };
+
+    const loadMilestone = async (side?: 'client' | 'provider') => {
+      if (!milestoneId) throw new Error('milestoneId is required');
+
+      const { data: milestone, error } = await supabase
+        .from('order_milestones')
+        .select('*, order:orders(*)')
+        .eq('id', milestoneId)
+        .maybeSingle();
+
+      if (error) throw error;
+      const order = milestone?.order;
+      if (!milestone || !order || (order.client_id !== user.id && order.provider_id !== user.id)) {
+        throw new Error('Milestone not found');
+      }
+      if (side === 'client' && order.client_id !== user.id) {
+        throw new Error('Only the client can perform this action');
+      }
+      if (side === 'provider' && order.provider_id !== user.id) {
+        throw new Error('Only the provider can perform this action');
+      }
+      return { milestone, order };
+    };
+
+    const transitionMilestone = async (from: string[], patch: Record<string, unknown>) => {
+      const { data, error } = await supabase
+        .from('order_milestones')
+        .update(patch)
+        .eq('id', milestoneId)
+        .in('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error(`Milestone must be ${from.join(' or ')} for this action`);
+      return data;
+    };
+
+    // Milestone orders are driven entirely through the milestone actions
+    const requireSinglePayment = (order: { payment_schedule?: string }) => {
+      if (order.payment_schedule === 'milestones') {
+        throw new Error('This order is paid per milestone; use the milestone actions instead');
+      }
+    };
+
+    // Guarded transition: the status filter makes concurrent requests race
+    // safely, only one of them will match the expected current state.
+    const transition = async (from: string[], patch: Record<string, unknown>) => {
+      const { data, error } = await supabase
+        .from('orders')
+        .update(patch)
+        .eq('id', orderId)
+        .in('status', from)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error(`Order must be ${from.join(' or ')} for this action`);
+      return data;
+    };
+
+    const notify = async (userId: string, title: string, body: string, relatedOrderId = orderId) => {
+      try {
+        await routeNotification(supabase, {
+          kind: 'order_update',
+          userId,
+          title,
+          body,
+          relatedId: relatedOrderId,
+          data: { order_id: relatedOrderId, milestone_id: milestoneId || undefined }
+        });
+      } catch (error) {
+        console.error('Order notification error:', error);
+      }
+    };
+
+    const settle = async (providerAmount: number, clientAmount: number, status: string, settleReason: string) => {
+      const { data, error } = await supabase.rpc('settle_order_escrow', {
+        p_order_id: orderId,
+        p_provider_amount: providerAmount,
+        p_client_amount: clientAmount,
+        p_order_status: status,
+        p_reason: settleReason
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Escrow settlement failed');
+      return data;
+    };
+
+    switch (action) {
+      case 'list_orders': {
+        let query = supabase
+          .from('orders')
+          .select('*, milestones:order_milestones(*), disputes(id, milestone_id, status, outcome, reason, resolution_note, created_at), reviews:service_reviews(id, rating, review, response, response_at, created_at)')
+          .order('created_at', { ascending: false });
+
+        if (role === 'client') {
+          query = query.eq('client_id', user.id);
+        } else if (role === 'provider') {
+          query = query.eq('provider_id', user.id);
+        } else {
+          query = query.or(`client_id.eq.${user.id},provider_id.eq.${user.id}`);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        for (const order of data || []) {
+          order.milestones?.sort((a: { position: number }, b: { position: number }) => a.position - b.position);
+        }
+
+        return new Response(JSON.stringify({ success: true, data: data || [] }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'get_order': {
+        const order = await loadOrder();
+        const { data: orderMilestones } = await supabase
+          .from('order_milestones')
+          .select('*')
+          .eq('order_id', orderId)
+          .order('position', { ascending: true });
+        order.milestones = orderMilestones || [];
+        return new Response(JSON.stringify({ success: true, data: order }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'start': {
+        const order = await loadOrder('provider');
+        requireSinglePayment(order);
+        const data = await transition(['funded'], {
+          status: 'in_progress',
+          started_at: new Date().toISOString()
+        });
+
+        await notify(order.client_id, 'Work started', `Work has started on "${order.service_title}".`);
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'deliver': {
+        const order = await loadOrder('provider');
+        requireSinglePayment(order);
+        const deliveryNote = typeof note === 'string' ? note.trim() : '';
+        if (deliveryNote.length > MAX_NOTE_LENGTH) {
+          throw new Error(`Delivery note exceeds ${MAX_NOTE_LENGTH} characters`);
+        }
+
+        const now = Date.now();
+        const data = await transition(['funded', 'in_progress'], {
+          status: 'delivered',
+          delivered_at: new Date(now).toISOString(),
+          delivery_note: deliveryNote || null,
+          auto_accept_at: new Date(now + AUTO_ACCEPT_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        });
+
+        await notify(
+          order.client_id,
+          'Order delivered',
+          `"${order.service_title}" was delivered. Review it within ${AUTO_ACCEPT_DAYS} days or payment is released automatically.`
+        );
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'accept': {
+        const order = await loadOrder('client');
+        requireSinglePayment(order);
+        if (order.status !== 'delivered') {
+          throw new Error('Order must be delivered for this action');
+        }
+
+        const { providerAmount, clientAmount } = acceptanceSettlement(order);
+        const data = await settle(providerAmount, clientAmount, 'accepted', 'client_accepted');
+
+        await notify(
+          order.provider_id,
+          'Payment released',
+          `The client accepted "${order.service_title}". Funds are now in your wallet.`
+        );
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'dispute': {
+        const order = await loadOrder();
+        requireSinglePayment(order);
+        const disputeReason = typeof reason === 'string' ? reason.trim() : '';
+        if (!disputeReason) throw new Error('A reason is required to open a dispute');
+
+        if (disputeReason.length > MAX_NOTE_LENGTH) {
+          throw new Error(`Reason exceeds ${MAX_NOTE_LENGTH} characters`);
+        }
+
+        // Freezes the escrow and records the dispute in one transaction
+        const { data: opened, error: openError } = await supabase.rpc('open_order_dispute', {
+          p_order_id: order.id,
+          p_opened_by: user.id,
+          p_reason: disputeReason
+        });
+        if (openError) throw openError;
+        if (!opened?.success) throw new Error(opened?.error || 'Failed to open dispute');
+        const { order: data, dispute } = opened;
+
+        const counterpart = order.client_id === user.id ? order.provider_id : order.client_id;
+        await notify(counterpart, 'Order disputed', `A dispute was opened on "${order.service_title}".`);
+        return new Response(JSON.stringify({ success: true, data: { ...data, dispute } }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'cancel': {
+        const order = await loadOrder();
+
+        if (order.status === 'pending') {
+          // Nothing has been paid yet, either side may walk away
+          const data = await transition(['pending'], { status: 'cancelled' });
+          await supabase
+            .from('order_milestones')
+            .update({ status: 'cancelled' })
+            .eq('order_id', orderId)
+            .eq('status', 'pending');
+          const counterpart = order.client_id === user.id ? order.provider_id : order.client_id;
+          await notify(counterpart, 'Order cancelled', `"${order.service_title}" was cancelled.`);
+          return new Response(JSON.stringify({ success: true, data }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Once funded, only the provider can back out before starting, and
+        // the client gets the full escrowed amount back
+        if (order.status !== 'funded' || order.provider_id !== user.id) {
+          throw new Error('This order can no longer be cancelled');
+        }
+
+        const { providerAmount, clientAmount } = refundSettlement(order);
+        const data = await settle(providerAmount, clientAmount, 'refunded', 'provider_cancelled');
+        await notify(
+          order.client_id,
+          'Order refunded',
+          `The provider cancelled "${order.service_title}". Your payment was refunded to your wallet.`
+        );
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'set_milestones': {
+        const order = await loadOrder();
+        if (order.status !== 'pending' || order.escrow_status !== 'unfunded') {
+          throw new Error('Milestones can only be changed before any payment is made');
+        }
+
+        const { count: fundedCount, error: countError } = await supabase
+          .from('order_milestones')
+          .select('id', { count: 'exact', head: true })
+          .eq('order_id', orderId)
+          .neq('escrow_status', 'unfunded');
+
+        if (countError) throw countError;
+        if (fundedCount) throw new Error('Milestones can only be changed before any payment is made');
+
+        const input: MilestoneInput[] = Array.isArray(milestones) ? milestones : [];
+        if (input.length > MAX_MILESTONES) {
+          throw new Error(`An order can have at most ${MAX_MILESTONES} milestones`);
+        }
+
+        const agreedPrice = Number(order.agreed_price);
+        const orderFee = Number(order.platform_fee || 0);
+        const orderTax = Number(order.tax_amount || 0);
+        const orderWithholding = Number(order.withholding_amount || 0);
+        const orderTaxLines: TaxLine[] = order.tax_lines || [];
+        const rows = input.map((m, index) => {
+          const title = typeof m.title === 'string' ? m.title.trim() : '';
+          const amount = round2(Number(m.amount));
+          if (!title) throw new Error(`Milestone ${index + 1} needs a title`);
+          if (!Number.isFinite(amount) || amount <= 0) {
+            throw new Error(`Milestone ${index + 1} needs a positive amount`);
+          }
+          return {
+            order_id: orderId,
+            position: index + 1,
+            title,
+            description: m.description?.trim() || null,
+            amount,
+            platform_fee: round2(orderFee * (amount / agreedPrice)),
+            tax_lines: scaleTaxLines(orderTaxLines, amount / agreedPrice),
+            tax_amount: round2(orderTax * (amount / agreedPrice)),
+            withholding_amount: round2(orderWithholding * (amount / agreedPrice)),
+            due_date: m.dueDate || null
+          };
+        });
+
+        if (rows.length === 1) throw new Error('Split the order into at least two milestones');
+
+        if (rows.length) {
+          const total = round2(rows.reduce((sum, r) => sum + r.amount, 0));
+          if (Math.abs(total - agreedPrice) > 0.01) {
+            throw new Error(`Milestone amounts must add up to the agreed price (${agreedPrice.toFixed(2)})`);
+          }
+          // The last milestone absorbs any fee and tax rounding so the totals stay exact
+          const earlier = rows.slice(0, -1);
+          const last = rows[rows.length - 1];
+          const feeSoFar = earlier.reduce((sum, r) => sum + r.platform_fee, 0);
+          last.platform_fee = round2(orderFee - feeSoFar);
+          last.tax_amount = round2(orderTax - earlier.reduce((sum, r) => sum + r.tax_amount, 0));
+          last.withholding_amount = round2(orderWithholding - earlier.reduce((sum, r) => sum + r.withholding_amount, 0));
+          last.tax_lines = orderTaxLines.map((line, i) => ({
+            ...line,
+            taxable_amount: round2(line.taxable_amount - earlier.reduce((sum, r) => sum + r.tax_lines[i].taxable_amount, 0)),
+            amount: round2(line.amount - earlier.reduce((sum, r) => sum + r.tax_lines[i].amount, 0))
+          }));
+        }
+
+        const { error: deleteError } = await supabase
+          .from('order_milestones')
+          .delete()
+          .eq('order_id', orderId);
+        if (deleteError) throw deleteError;
+
+        let created: unknown[] = [];
+        if (rows.length) {
+          const { data, error } = await supabase.from('order_milestones').insert(rows).select();
+          if (error) throw error;
+          created = data || [];
+        }
+
+        const { error: scheduleError } = await supabase
+          .from('orders')
+          .update({ payment_schedule: rows.length ? 'milestones' : 'single' })
+          .eq('id', orderId);
+        if (scheduleError) throw scheduleError;
+
+        const counterpart = order.client_id === user.id ? order.provider_id : order.client_id;
+        await notify(
+          counterpart,
+          'Payment plan updated',
+          rows.length
+            ? `"${order.service_title}" is now split into ${rows.length} milestones.`
+            : `"${order.service_title}" is back to a single payment.`
+        );
+        return new Response(JSON.stringify({ success: true, data: created }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'deliver_milestone': {
+        const { milestone, order } = await loadMilestone('provider');
+        const deliveryNote = typeof note === 'string' ? note.trim() : '';
+        if (deliveryNote.length > MAX_NOTE_LENGTH) {
+          throw new Error(`Delivery note exceeds ${MAX_NOTE_LENGTH} characters`);
+        }
+
+        const now = Date.now();
+        const data = await transitionMilestone(['funded'], {
+          status: 'delivered',
+          delivered_at: new Date(now).toISOString(),
+          delivery_note: deliveryNote || null,
+          auto_accept_at: new Date(now + AUTO_ACCEPT_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        });
+
+        await notify(
+          order.client_id,
+          'Milestone delivered',
+          `"${milestone.title}" on "${order.service_title}" was delivered. Review it within ${AUTO_ACCEPT_DAYS} days or payment is released automatically.`,
+          order.id
+        );
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'approve_milestone': {
+        const { milestone, order } = await loadMilestone('client');
+        if (milestone.status !== 'delivered') {
+          throw new Error('Milestone must be delivered for this action');
+        }
+
+        const { providerAmount, clientAmount } = acceptanceSettlement(milestone);
+        const { data, error } = await supabase.rpc('settle_milestone_escrow', {
+          p_milestone_id: milestoneId,
+          p_provider_amount: providerAmount,
+          p_client_amount: clientAmount,
+          p_milestone_status: 'approved',
+          p_reason: 'client_approved'
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Escrow settlement failed');
+
+        await notify(
+          order.provider_id,
+          'Milestone payment released',
+          `The client approved "${milestone.title}". Funds are now in your wallet.`,
+          order.id
+        );
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'dispute_milestone': {
+        const { milestone, order } = await loadMilestone();
+        const disputeReason = typeof reason === 'string' ? reason.trim() : '';
+        if (!disputeReason) throw new Error('A reason is required to open a dispute');
+
+        if (disputeReason.length > MAX_NOTE_LENGTH) {
+          throw new Error(`Reason exceeds ${MAX_NOTE_LENGTH} characters`);
+        }
+
+        const { data: opened, error: openError } = await supabase.rpc('open_milestone_dispute', {
+          p_milestone_id: milestone.id,
+          p_opened_by: user.id,
+          p_reason: disputeReason
+        });
+        if (openError) throw openError;
+        if (!opened?.success) throw new Error(opened?.error || 'Failed to open dispute');
+        const { milestone: data, dispute } = opened;
+
+        const counterpart = order.client_id === user.id ? order.provider_id : order.client_id;
+        await notify(counterpart, 'Milestone disputed', `A dispute was opened on "${milestone.title}".`, order.id);
+        return new Response(JSON.stringify({ success: true, data: { ...data, dispute } }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Order error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
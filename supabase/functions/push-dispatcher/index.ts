@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadVapidKeys, sendToUser } from "../_shared/web-push.ts";
+import { routeStoredNotification } from "../_shared/notification-router.ts";
+
+// Web Push for `notifications` rows. Actions:
+//   public_key -- the VAPID key browsers subscribe with (no auth)
+//   dispatch   -- push one notification to its user's devices if their
+//                 preferences allow; called by the notifications insert
+//                 trigger with the service role key
+//   test       -- push a test message to the caller's own devices
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { action, notificationId } = await req.json();
+    const vapid = loadVapidKeys();
+
+    if (action === 'public_key') {
+      if (!vapid) return jsonResponse({ success: false, error: 'Push notifications are not configured' }, 503);
+      return jsonResponse({ success: true, data: { publicKey: vapid.publicKey } });
+    }
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      throw new Error('Authorization required');
+    }
+    if (!vapid) {
+      console.error('VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY are not set');
+      return jsonResponse({ success: false, error: 'Push notifications are not configured' }, 503);
+    }
+
+    switch (action) {
+      case 'dispatch': {
+        // Only the database trigger sends on behalf of other users
+        if (token !== supabaseKey) {
+          return jsonResponse({ success: false, error: 'Forbidden' }, 403);
+        }
+        if (!notificationId) throw new Error('notificationId is required');
+
+        const result = await routeStoredNotification(supabase, notificationId, vapid);
+        console.log('Push dispatch', notificationId, result ?? 'already pushed');
+        return jsonResponse({ success: true, data: result });
+      }
+
+      case 'test': {
+        const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+        if (authError || !user) throw new Error('Unauthorized');
+
+        const summary = await sendToUser(supabase, user.id, {
+          title: 'Notifications are on',
+          body: 'This is how updates from WATHACI Connect will reach this device.',
+          tag: 'push-test',
+          url: '/',
+        }, vapid);
+        return jsonResponse({ success: true, data: summary });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Push dispatcher error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ success: false, error: message }, 400);
+  }
+});
@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  checkReviewInput,
+  isReviewableOrder,
+  isReviewReportReason,
+  MAX_REPORT_DETAILS_LENGTH,
+  MAX_REVIEW_LENGTH
+} from "../_shared/service-reviews.ts";
+import { checkMaintenance } from "../_shared/platform-settings.ts";
+import { routeNotification } from "../_shared/notification-router.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization required');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { action, orderId, reviewId, rating, review, response, reason, details } = await req.json();
+    console.log('Review action:', action, 'user:', user.id);
+
+    const closed = await checkMaintenance(supabase, user.id);
+    if (closed) {
+      return new Response(JSON.stringify({ success: false, error: closed }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    const loadReview = async () => {
+      if (!reviewId) throw new Error('reviewId is required');
+
+      const { data, error } = await supabase
+        .from('service_reviews')
+        .select('*, service:services(id, title, provider_id)')
+        .eq('id', reviewId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || (data.hidden_at && data.reviewer_id !== user.id)) throw new Error('Review not found');
+      return data;
+    };
+
+    const notify = async (userId: string, title: string, body: string, data: Record<string, string>) => {
+      try {
+        await routeNotification(supabase, {
+          kind: 'review_update',
+          userId,
+          title,
+          body,
+          relatedId: data.order_id,
+          data
+        });
+      } catch (error) {
+        console.error('Review notification error:', error);
+      }
+    };
+
+    switch (action) {
+      // Create or edit the review of a completed order
+      case 'submit': {
+        if (!orderId) throw new Error('orderId is required');
+        const refusal = checkReviewInput(rating, review);
+        if (refusal) throw new Error(refusal);
+
+        const { data: order, error: orderError } = await supabase
+          .from('orders')
+          .select('id, client_id, provider_id, service_id, service_title, status')
+          .eq('id', orderId)
+          .maybeSingle();
+
+        if (orderError) throw orderError;
+        if (!order || order.client_id !== user.id) throw new Error('Order not found');
+        if (!isReviewableOrder(order)) {
+          throw new Error('Only completed marketplace orders can be reviewed');
+        }
+
+        const text = typeof review === 'string' && review.trim() ? review.trim() : null;
+        const { data: existing } = await supabase
+          .from('service_reviews')
+          .select('id')
+          .eq('order_id', order.id)
+          .maybeSingle();
+
+        const { data, error } = existing
+          ? await supabase
+            .from('service_reviews')
+            .update({ rating, review: text })
+            .eq('id', existing.id)
+            .select()
+            .single()
+          : await supabase
+            .from('service_reviews')
+            .insert({
+              service_id: order.service_id,
+              order_id: order.id,
+              reviewer_id: user.id,
+              rating,
+              review: text
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        if (!existing) {
+          await notify(
+            order.provider_id,
+            'New review',
+            `Your client left a ${rating}-star review for "${order.service_title}".`,
+            { order_id: order.id, review_id: data.id }
+          );
+        }
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // The provider's public reply; an empty reply removes it
+      case 'reply': {
+        const existing = await loadReview();
+        if (existing.service?.provider_id !== user.id) {
+          throw new Error('Only the provider of this service can reply');
+        }
+
+        const text = typeof response === 'string' ? response.trim() : '';
+        if (text.length > MAX_REVIEW_LENGTH) {
+          throw new Error(`Reply exceeds ${MAX_REVIEW_LENGTH} characters`);
+        }
+
+        const { data, error } = await supabase
+          .from('service_reviews')
+          .update({ response: text || null, response_at: text ? new Date().toISOString() : null })
+          .eq('id', existing.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        if (text && !existing.response) {
+          await notify(
+            existing.reviewer_id,
+            'The provider replied to your review',
+            `You have a reply on your review of "${existing.service?.title}".`,
+            { order_id: existing.order_id, review_id: existing.id }
+          );
+        }
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      case 'report': {
+        const existing = await loadReview();
+        if (existing.reviewer_id === user.id) throw new Error('You cannot report your own review');
+        if (!isReviewReportReason(reason)) throw new Error('Choose a reason for the report');
+
+        const note = typeof details === 'string' && details.trim() ? details.trim() : null;
+        if (note && note.length > MAX_REPORT_DETAILS_LENGTH) {
+          throw new Error(`Details exceed ${MAX_REPORT_DETAILS_LENGTH} characters`);
+        }
+
+        const { data, error } = await supabase
+          .from('service_review_reports')
+          .insert({ review_id: existing.id, reporter_id: user.id, reason, details: note })
+          .select()
+          .single();
+
+        if (error?.code === '23505') throw new Error('You have already reported this review');
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Review error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -1,11 +1,76 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { generateJson, type JsonSchema } from "../_shared/ai.ts";
+import { getFxRate } from "../_shared/fx-rates.ts";
+import {
+  FUNDING_SCORING_VERSION,
+  rankFundingOpportunities,
+  type FundingOpportunityCandidate,
+  type FundingSmeProfile
+} from "../_shared/funding-match.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface FundingNarrative {
+  funding_id: string;
+  action_plan: string;
+}
+
+interface ProfessionalMatch {
+  professional_id: string;
+  match_score: number;
+  reasons: string[];
+  recommended_scope: string;
+}
+
+const reasonsSchema: JsonSchema = { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 };
+
+// How many of the best funding matches get an AI-written action plan
+const NARRATIVE_LIMIT = 5;
+
+const FUNDING_NARRATIVES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    narratives: {
+      type: 'array',
+      maxItems: NARRATIVE_LIMIT,
+      items: {
+        type: 'object',
+        properties: {
+          funding_id: { type: 'string' },
+          action_plan: { type: 'string', maxLength: 600 }
+        },
+        required: ['funding_id', 'action_plan']
+      }
+    }
+  },
+  required: ['narratives']
+};
+
+const PROFESSIONAL_MATCHES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    matches: {
+      type: 'array',
+      maxItems: 8,
+      items: {
+        type: 'object',
+        properties: {
+          professional_id: { type: 'string' },
+          match_score: { type: 'number', minimum: 0, maximum: 100 },
+          reasons: reasonsSchema,
+          recommended_scope: { type: 'string' }
+        },
+        required: ['professional_id', 'match_score', 'reasons', 'recommended_scope']
+      }
+    }
+  },
+  required: ['matches']
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,7 +79,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Validate JWT - require authentication for all SME matching operations
@@ -36,7 +100,7 @@ serve(async (req) => {
       );
     }
 
-    const { action, smeId } = await req.json();
+    const { action, smeId, narrative = true } = await req.json();
     
     // Validate input
     if (!action || typeof action !== 'string') {
@@ -61,7 +125,7 @@ serve(async (req) => {
         const { data: profile, error: profileError } = await supabase
           .from('profiles')
           .select('*')
-          .eq('id', smeId)
+          .eq('id', targetSmeId)
           .single();
 
         if (profileError || !profile) {
@@ -72,15 +136,16 @@ serve(async (req) => {
         const { data: smeProfile } = await supabase
           .from('sme_profiles')
           .select('*')
-          .eq('profile_id', smeId)
-          .single();
+          .eq('profile_id', targetSmeId)
+          .maybeSingle();
 
         // Get active funding opportunities
-        const { data: opportunities } = await supabase
+        const { data: opportunities, error: opportunitiesError } = await supabase
           .from('funding_opportunities')
-          .select('*')
-          .eq('is_active', true)
-          .order('confidence_score', { ascending: false });
+          .select('id, title, organization, funding_type, amount_display, sectors, target_stage, region_focus, amount_min, amount_max, currency, deadline, eligibility_criteria, application_url')
+          .eq('is_active', true);
+
+        if (opportunitiesError) throw opportunitiesError;
 
         if (!opportunities || opportunities.length === 0) {
           return new Response(JSON.stringify({ 
@@ -92,120 +157,95 @@ serve(async (req) => {
           });
         }
 
-        // Build SME context for matching
-        const smeContext = {
+        const sme: FundingSmeProfile = {
           industry: smeProfile?.industry || profile.industry_sector,
-          stage: smeProfile?.business_stage || profile.funding_stage || 'early',
-          location: profile.city || 'Zambia',
-          country: profile.country || 'Zambia',
-          needs: smeProfile?.top_needs || profile.gaps_identified || [],
           sectors: smeProfile?.sectors_of_interest || profile.sectors || [],
-          fundingNeeded: smeProfile?.funding_needed || profile.funding_needed,
-          fundingRange: smeProfile?.funding_range,
-          teamSize: smeProfile?.team_size_range,
-          revenueRange: smeProfile?.monthly_revenue_range,
-          services: smeProfile?.services_or_products || profile.description
+          stage: smeProfile?.business_stage || profile.funding_stage,
+          country: profile.country,
+          province: profile.province,
+          city: profile.city,
+          fundingRange: smeProfile?.funding_range || null
         };
 
-        // Use AI to match and score opportunities
-        const matchPrompt = `You are a funding matching expert. Match this SME to available funding opportunities and score each match.
-
-SME PROFILE:
-- Industry: ${smeContext.industry}
-- Business Stage: ${smeContext.stage}
-- Location: ${smeContext.location}, ${smeContext.country}
-- Key Needs: ${JSON.stringify(smeContext.needs)}
-- Sectors: ${JSON.stringify(smeContext.sectors)}
-- Funding Needed: ${smeContext.fundingNeeded ? 'Yes' : 'Unknown'}
-- Funding Range: ${smeContext.fundingRange || 'Not specified'}
-- Team Size: ${smeContext.teamSize || 'Not specified'}
-- Revenue: ${smeContext.revenueRange || 'Not specified'}
-- Products/Services: ${smeContext.services || 'Not specified'}
-
-AVAILABLE FUNDING OPPORTUNITIES:
-${opportunities.map((o, i) => `
-${i + 1}. ID: ${o.id}
-   Title: ${o.title}
-   Organization: ${o.organization}
-   Type: ${o.funding_type}
-   Amount: ${o.amount_display}
-   Sectors: ${o.sectors?.join(', ') || 'Various'}
-   Target Stage: ${o.target_stage?.join(', ') || 'All stages'}
-   Eligibility: ${o.eligibility_criteria?.join('; ') || 'See application'}
-   Region: ${o.region_focus?.join(', ') || 'Africa'}
-`).join('\n')}
-
-For each opportunity, calculate a match score (0-100) and provide:
-1. funding_id: The opportunity ID
-2. match_score: 0-100 based on eligibility fit, sector alignment, stage match, location eligibility
-3. reasons: Array of 3-5 specific reasons why this is a good match
-4. action_plan: 2-3 specific next steps for the SME to apply
-
-Return JSON array of TOP 10 matches, sorted by match_score descending. Only include opportunities with match_score >= 40.
-
-Return ONLY valid JSON array. No markdown.`;
-
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [{ role: 'user', content: matchPrompt }],
-            temperature: 0.4
-          })
-        });
-
-        if (!aiResponse.ok) {
-          throw new Error('AI matching failed');
+        // Ticket sizes are compared in ZMW, the currency of funding_range
+        const rates = new Map<string, number>();
+        const currencies = new Set(opportunities.map((o) => (o.currency || 'USD').toUpperCase()));
+        for (const currency of currencies) {
+          const fx = await getFxRate(supabase, currency, 'ZMW');
+          if (fx) rates.set(currency, fx.rate);
         }
 
-        const aiData = await aiResponse.json();
-        const responseText = aiData.choices[0]?.message?.content || '';
-
-        let matches;
-        try {
-          const cleanedText = responseText.replace(/```json\n?|\n?```/g, '').trim();
-          matches = JSON.parse(cleanedText);
-        } catch (e) {
-          console.error('Failed to parse AI matches:', e);
-          // Fallback: return top opportunities by confidence
-          matches = opportunities.slice(0, 5).map((opp, i) => ({
-            funding_id: opp.id,
-            match_score: 85 - i * 5,
-            reasons: ['Located in eligible region', 'Sector alignment', 'Stage match'],
-            action_plan: 'Review eligibility criteria and prepare application documents.'
-          }));
+        const scored = rankFundingOpportunities(sme, opportunities as FundingOpportunityCandidate[], rates);
+        const byId = new Map(opportunities.map((o) => [o.id, o]));
+
+        // The model only writes the action plan for the top matches; scores
+        // and reasons stay rule-based
+        const narratives = new Map<string, string>();
+        if (narrative && scored.length) {
+          const top = scored.slice(0, NARRATIVE_LIMIT);
+          const result = await generateJson<{ narratives: FundingNarrative[] }>(supabase, {
+            feature: 'sme-matching.funding_narrative',
+            userId: user.id,
+            messages: [{
+              role: 'user',
+              content: `You advise Zambian SMEs on funding applications. For each opportunity below, write a short action plan (2-3 concrete next steps, max 80 words) for this SME. Do not restate or change the score.
+
+SME: industry ${sme.industry || 'not specified'}, stage ${sme.stage || 'not specified'}, needs ${sme.fundingRange || 'an unspecified amount'}, based in ${[sme.city, sme.province, sme.country].filter(Boolean).join(', ') || 'Zambia'}.
+
+OPPORTUNITIES:
+${JSON.stringify(top.map((m) => ({
+  funding_id: m.fundingId,
+  title: byId.get(m.fundingId)!.title,
+  organization: byId.get(m.fundingId)!.organization,
+  eligibility: byId.get(m.fundingId)!.eligibility_criteria,
+  deadline: byId.get(m.fundingId)!.deadline,
+  assessment: Object.fromEntries(Object.entries(m.subScores).map(([k, v]) => [k, v.reason]))
+})))}
+
+Return ONLY a JSON object of the form {"narratives": [{"funding_id": "...", "action_plan": "..."}]}.`
+            }],
+            schema: FUNDING_NARRATIVES_SCHEMA,
+            temperature: 0.4,
+            maxAttempts: 2
+          });
+
+          for (const n of result.data?.narratives || []) {
+            if (top.some((m) => m.fundingId === n.funding_id)) narratives.set(n.funding_id, n.action_plan);
+          }
         }
 
-        // Store matches in database
+        // Store matches in database, replacing this SME's earlier matches
         const now = new Date().toISOString();
-        for (const match of matches) {
+        const rows = scored.map((match) => ({
+          funding_id: match.fundingId,
+          sme_id: targetSmeId,
+          match_score: match.score,
+          sub_scores: match.subScores,
+          reasons: match.reasons,
+          action_plan: narratives.get(match.fundingId) || match.actionPlan,
+          narrative_source: narratives.has(match.fundingId) ? 'ai' : 'rules',
+          scoring_version: FUNDING_SCORING_VERSION,
+          updated_at: now
+        }));
+
+        if (rows.length) {
           const { error } = await supabase
             .from('funding_matches')
-            .upsert({
-              funding_id: match.funding_id,
-              sme_id: smeId,
-              match_score: match.match_score,
-              reasons: match.reasons || [],
-              action_plan: match.action_plan || ''
-            }, {
-              onConflict: 'funding_id,sme_id'
-            });
-
-          if (error) {
-            console.error('Error storing match:', error);
-          }
+            .upsert(rows, { onConflict: 'funding_id,sme_id' });
+          if (error) throw error;
         }
 
+        let stale = supabase.from('funding_matches').delete().eq('sme_id', targetSmeId);
+        if (rows.length) stale = stale.not('funding_id', 'in', `(${rows.map((r) => r.funding_id).join(',')})`);
+        const { error: staleError } = await stale;
+        if (staleError) console.error('Error removing outdated matches:', staleError);
+
         // Enrich matches with opportunity details
-        const enrichedMatches = matches.map((match: any) => {
-          const opp = opportunities.find(o => o.id === match.funding_id);
+        const enrichedMatches = rows.map((row) => {
+          const opp = byId.get(row.funding_id)!;
           return {
-            ...match,
-            opportunity: opp ? {
+            ...row,
+            opportunity: {
               id: opp.id,
               title: opp.title,
               organization: opp.organization,
@@ -213,9 +253,9 @@ Return ONLY valid JSON array. No markdown.`;
               amount_display: opp.amount_display,
               deadline: opp.deadline,
               application_url: opp.application_url
-            } : null
+            }
           };
-        }).filter((m: any) => m.opportunity);
+        });
 
         return new Response(JSON.stringify({ 
           success: true, 
@@ -313,43 +353,20 @@ Match professionals to the SME's needs. For each match provide:
 3. reasons: Array of 3 specific reasons why this professional can help
 4. recommended_scope: Specific deliverables they could provide (1-2 sentences)
 
-Return JSON array of TOP 8 matches with match_score >= 50, sorted descending.
-Return ONLY valid JSON array. No markdown.`;
-
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [{ role: 'user', content: matchPrompt }],
-            temperature: 0.4
-          })
+Return the TOP 8 matches with match_score >= 50, sorted descending.
+Return ONLY a JSON object of the form {"matches": [...]}. No markdown.`;
+
+        const result = await generateJson<{ matches: ProfessionalMatch[] }>(supabase, {
+          feature: 'sme-matching.match_professionals',
+          userId: user.id,
+          messages: [{ role: 'user', content: matchPrompt }],
+          schema: PROFESSIONAL_MATCHES_SCHEMA,
+          temperature: 0.4
         });
 
-        if (!aiResponse.ok) {
-          throw new Error('AI professional matching failed');
-        }
+        if (!result.data) throw new Error(`AI professional matching failed: ${result.error}`);
 
-        const aiData = await aiResponse.json();
-        const responseText = aiData.choices[0]?.message?.content || '';
-
-        let matches;
-        try {
-          const cleanedText = responseText.replace(/```json\n?|\n?```/g, '').trim();
-          matches = JSON.parse(cleanedText);
-        } catch (e) {
-          console.error('Failed to parse AI professional matches:', e);
-          // Fallback
-          matches = freelancers.slice(0, 5).map((f, i) => ({
-            professional_id: f.profile_id,
-            match_score: 80 - i * 5,
-            reasons: ['Relevant skills', 'Available', 'Experience match'],
-            recommended_scope: 'General consulting services'
-          }));
-        }
+        const matches = result.data.matches.filter((m) => freelancers.some((f) => f.profile_id === m.professional_id));
 
         // Store matches
         for (const match of matches) {
@@ -367,7 +384,7 @@ Return ONLY valid JSON array. No markdown.`;
         }
 
         // Enrich with profile details
-        const enrichedMatches = matches.map((match: any) => {
+        const enrichedMatches = matches.map((match) => {
           const freelancer = freelancers.find(f => f.profile_id === match.professional_id);
           return {
             ...match,
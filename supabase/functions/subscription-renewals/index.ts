@@ -0,0 +1,276 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { activateSubscriptionForTransaction } from '../_shared/subscription-activation.ts'
+import {
+  createRenewalCharge,
+  findPaymentMethod,
+  planPrice,
+  nextRenewalPeriod,
+  renewalAttemptAt,
+  resolveRenewalPlan,
+  RENEWAL_ATTEMPT_OFFSETS_DAYS,
+  RENEWAL_REMINDER_DAYS,
+} from '../_shared/subscription-renewal.ts'
+import { applyPlanChange } from '../_shared/subscription-plan-change.ts'
+import { enqueueTemplatedEmail } from '../_shared/transactional-email.ts'
+import type { EmailTemplateKey, EmailTemplateVariables } from '../_shared/email-templates.ts'
+
+// Hourly renewal run for Lenco (mobile money) subscriptions, triggered by the
+// 'subscription-renewals' pg_cron job. Each run:
+//   1. advances the lifecycle (active -> past_due -> grace -> expired)
+//   2. emails renewal reminders ahead of current_period_end
+//   3. starts mobile money collections that are due on the dunning schedule
+// Every step is keyed so that a repeated or overlapping run is harmless.
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 50
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+function parseJwtClaims(token: string): Record<string, unknown> | null {
+  const parts = token.split('.')
+  if (parts.length < 2) {
+    return null
+  }
+
+  try {
+    const payload = parts[1]
+      .replaceAll('-', '+')
+      .replaceAll('_', '/')
+      .padEnd(Math.ceil(parts[1].length / 4) * 4, '=')
+
+    return JSON.parse(atob(payload)) as Record<string, unknown>
+  } catch {
+    return null
+  }
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency === 'USD' ? '$' : 'K'}${amount.toFixed(2)}`
+
+Deno.serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('Missing required environment variables')
+    return jsonResponse({ error: 'Server configuration error' }, 500)
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader?.startsWith('Bearer ')) {
+    return jsonResponse({ error: 'Unauthorized' }, 401)
+  }
+
+  // Charges subscribers, so only the cron job (service role) may call it
+  const claims = parseJwtClaims(authHeader.slice('Bearer '.length).trim())
+  if (claims?.role !== 'service_role') {
+    return jsonResponse({ error: 'Forbidden' }, 403)
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+  const now = new Date()
+
+  const emailOf = async (userId: string): Promise<string | null> => {
+    const { data } = await supabase.from('profiles').select('email').eq('id', userId).maybeSingle()
+    return data?.email || null
+  }
+
+  const notify = async <K extends EmailTemplateKey>(
+    userId: string,
+    template: K,
+    idempotencyKey: string,
+    variables: EmailTemplateVariables[K],
+  ) => {
+    const to = await emailOf(userId)
+    if (!to) {
+      console.warn(`No email on file for user ${userId}; skipping ${template}`)
+      return
+    }
+    await enqueueTemplatedEmail(supabase, { to, template, variables, idempotencyKey })
+  }
+
+  const summary = { transitions: {} as Record<string, string[]>, reminders: 0, attempts: 0, extended: 0, errors: 0 }
+
+  // 1. Lifecycle transitions
+  const { data: transitions, error: lifecycleError } = await supabase.rpc('advance_subscription_lifecycle', {
+    p_max_attempts: RENEWAL_ATTEMPT_OFFSETS_DAYS.length,
+  })
+  if (lifecycleError) {
+    console.error('Failed to advance subscription lifecycle:', lifecycleError)
+    return jsonResponse({ error: 'Failed to advance subscription lifecycle' }, 500)
+  }
+  summary.transitions = transitions || {}
+
+  const lifecycleIds = [
+    ...(transitions?.past_due || []),
+    ...(transitions?.grace || []),
+    ...(transitions?.expired || []),
+  ]
+  if (lifecycleIds.length > 0) {
+    const { data: moved } = await supabase
+      .from('subscriptions')
+      .select('id, user_id, status, current_period_end, grace_period_end, last_renewal_error')
+      .in('id', lifecycleIds)
+
+    for (const sub of moved || []) {
+      const key = `subscription-${sub.status}:${sub.id}:${sub.current_period_end}`
+      if (sub.status === 'past_due') {
+        await notify(sub.user_id, 'subscription_past_due', key, {
+          periodEndedOn: formatDate(sub.current_period_end),
+          accessUntil: formatDate(sub.grace_period_end),
+        })
+      } else if (sub.status === 'grace') {
+        await notify(sub.user_id, 'subscription_grace', key, { accessUntil: formatDate(sub.grace_period_end) })
+      } else if (sub.status === 'expired') {
+        await notify(sub.user_id, 'subscription_expired', key, {})
+      }
+    }
+  }
+
+  // 2. Renewal reminders, once per period
+  const reminderHorizon = new Date(now.getTime() + RENEWAL_REMINDER_DAYS * DAY_MS).toISOString()
+  const { data: upcoming, error: upcomingError } = await supabase
+    .from('subscriptions')
+    .select('id, user_id, status, currency, current_period_end, renewal_reminder_sent_for, plan:subscription_plans(name, billing_interval, price_usd, price_zmw)')
+    .eq('status', 'active')
+    .eq('cancel_at_period_end', false)
+    .is('paddle_subscription_id', null)
+    .gt('current_period_end', now.toISOString())
+    .lte('current_period_end', reminderHorizon)
+    .limit(BATCH_SIZE)
+
+  if (upcomingError) console.error('Failed to load upcoming renewals:', upcomingError)
+
+  for (const sub of upcoming || []) {
+    if (sub.renewal_reminder_sent_for && new Date(sub.renewal_reminder_sent_for).getTime() === new Date(sub.current_period_end).getTime()) {
+      continue
+    }
+    if (!sub.plan) continue
+
+    const { plan } = await resolveRenewalPlan(supabase, sub.id, sub.plan)
+    const currency = sub.currency || 'ZMW'
+    const price = planPrice(plan, currency)
+    const paymentMethod = price > 0 ? await findPaymentMethod(supabase, sub.id) : null
+
+    await notify(sub.user_id, 'subscription_renewal_reminder', `renewal-reminder:${sub.id}:${sub.current_period_end}`, {
+      planName: plan.name,
+      renewsOn: formatDate(sub.current_period_end),
+      price: price === 0 ? null : formatAmount(price, currency),
+      phoneLast4: paymentMethod ? paymentMethod.phone.slice(-4) : null,
+      chargeOn: paymentMethod ? formatDate(renewalAttemptAt(sub.current_period_end, 0)!) : null,
+    })
+
+    // Schedule the first collection attempt alongside the reminder
+    await supabase
+      .from('subscriptions')
+      .update({
+        renewal_reminder_sent_for: sub.current_period_end,
+        renewal_attempts: 0,
+        next_renewal_attempt_at: renewalAttemptAt(sub.current_period_end, 0),
+        last_renewal_error: null,
+      })
+      .eq('id', sub.id)
+    summary.reminders++
+  }
+
+  // 3. Collection attempts that are due
+  const { data: due, error: dueError } = await supabase
+    .from('subscriptions')
+    .select('id, user_id, status, currency, current_period_end, renewal_attempts, plan:subscription_plans(name, billing_interval, price_usd, price_zmw)')
+    .in('status', ['active', 'past_due'])
+    .eq('cancel_at_period_end', false)
+    .is('paddle_subscription_id', null)
+    .not('next_renewal_attempt_at', 'is', null)
+    .lte('next_renewal_attempt_at', now.toISOString())
+    .limit(BATCH_SIZE)
+
+  if (dueError) console.error('Failed to load due renewals:', dueError)
+
+  for (const sub of due || []) {
+    if (!sub.plan) continue
+    const attempt = (sub.renewal_attempts || 0) + 1
+    const currency = sub.currency || 'ZMW'
+    const { plan, planChangeId } = await resolveRenewalPlan(supabase, sub.id, sub.plan)
+
+    // Free plans have nothing to collect
+    if (planPrice(plan, currency) === 0) {
+      const period = nextRenewalPeriod(sub, plan)
+      await supabase
+        .from('subscriptions')
+        .update({
+          status: 'active',
+          current_period_start: period.start,
+          current_period_end: period.end,
+          renewal_attempts: 0,
+          next_renewal_attempt_at: null,
+          last_renewal_error: null,
+          past_due_at: null,
+          grace_period_end: null,
+        })
+        .eq('id', sub.id)
+        .eq('current_period_end', sub.current_period_end)
+      if (planChangeId) await applyPlanChange(supabase, planChangeId)
+      summary.extended++
+      continue
+    }
+
+    // Claim the attempt before charging so an overlapping run skips it
+    const { data: claimed } = await supabase
+      .from('subscriptions')
+      .update({
+        renewal_attempts: attempt,
+        last_renewal_attempt_at: now.toISOString(),
+        next_renewal_attempt_at: renewalAttemptAt(sub.current_period_end, attempt),
+      })
+      .eq('id', sub.id)
+      .eq('renewal_attempts', sub.renewal_attempts || 0)
+      .select('id')
+    if (!claimed || claimed.length === 0) continue
+
+    const paymentMethod = await findPaymentMethod(supabase, sub.id)
+    let chargeError: string | undefined
+
+    if (!paymentMethod) {
+      chargeError = 'No mobile money number on file'
+    } else {
+      const charge = await createRenewalCharge(supabase, sub, plan, {
+        paymentMethod,
+        attempt,
+        source: 'scheduled',
+        planChangeId,
+      })
+      chargeError = charge.error
+
+      if (charge.transaction?.status === 'successful') {
+        await activateSubscriptionForTransaction(supabase, charge.transaction)
+      } else if (!chargeError) {
+        await notify(sub.user_id, 'subscription_renewal_prompt', `renewal-prompt:${charge.transaction.id}`, {
+          amount: formatAmount(charge.amount, charge.currency),
+          phoneLast4: paymentMethod.phone.slice(-4),
+        })
+      }
+    }
+
+    summary.attempts++
+
+    if (chargeError) {
+      summary.errors++
+      await supabase.from('subscriptions').update({ last_renewal_error: chargeError }).eq('id', sub.id)
+
+      const nextAttempt = renewalAttemptAt(sub.current_period_end, attempt)
+      await notify(sub.user_id, 'subscription_renewal_failed', `renewal-failed:${sub.id}:${sub.current_period_end}:${attempt}`, {
+        attempt,
+        maxAttempts: RENEWAL_ATTEMPT_OFFSETS_DAYS.length,
+        error: chargeError,
+        nextAttemptOn: nextAttempt ? formatDate(nextAttempt) : null,
+      })
+    }
+  }
+
+  console.log('Subscription renewal run complete', summary)
+  return jsonResponse({ success: true, ...summary })
+})
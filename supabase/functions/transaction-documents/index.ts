@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  issueTransactionDocuments,
+  TRANSACTION_DOCUMENTS_BUCKET,
+  type TransactionDocument
+} from "../_shared/transaction-documents.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How long a download link stays valid
+const SIGNED_URL_TTL_SECONDS = 3600;
+
+// Invoice and receipt downloads for the payer, the provider and admins.
+// Documents are normally issued by the Lenco webhook; anything missing for a
+// successful transaction (an older payment, a failed first attempt) is
+// issued here before the links are returned.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Authorization required');
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+    if (authError || !user) throw new Error('Unauthorized');
+
+    const { action, transactionId } = await req.json();
+
+    switch (action) {
+      case 'get': {
+        if (!transactionId) throw new Error('transactionId is required');
+
+        const { data: transaction, error } = await supabase
+          .from('transactions')
+          .select('*')
+          .eq('id', transactionId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        const isParty = transaction && (transaction.user_id === user.id || transaction.recipient_id === user.id);
+        if (!transaction || !isParty) {
+          const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+          if (!transaction || !isAdmin) throw new Error('Transaction not found');
+        }
+
+        if (transaction.status !== 'successful') {
+          throw new Error('Invoices and receipts are issued once the payment succeeds');
+        }
+
+        const result = await issueTransactionDocuments(supabase, transaction);
+        if (result.error) throw new Error(result.error);
+
+        const data = await Promise.all(result.documents.map(async (document: TransactionDocument) => {
+          const { data: signed } = await supabase.storage
+            .from(TRANSACTION_DOCUMENTS_BUCKET)
+            .createSignedUrl(document.file_path!, SIGNED_URL_TTL_SECONDS, { download: `${document.document_number}.pdf` });
+
+          return {
+            id: document.id,
+            document_type: document.document_type,
+            document_number: document.document_number,
+            issued_at: document.issued_at,
+            url: signed?.signedUrl ?? null
+          };
+        }));
+
+        return new Response(JSON.stringify({ success: true, data }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+  } catch (error: unknown) {
+    console.error('Transaction documents error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ success: false, error: message }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,209 @@
+-- ============================================
+-- THREADED MESSAGING: conversations, participants and messages
+-- Backs the messaging-system edge function and the /messages route.
+-- ============================================
+
+-- ============================================
+-- 1. CONVERSATIONS - one row per thread
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject text,
+  created_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  service_id uuid REFERENCES public.services(id) ON DELETE SET NULL,
+  last_message_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================
+-- 2. CONVERSATION_PARTICIPANTS - membership, read cursor and archive flag
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.conversation_participants (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at timestamptz,
+  archived_at timestamptz,
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+-- ============================================
+-- 3. MESSAGES - individual messages within a thread
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 5000),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Whether the caller belongs to the conversation, used by the RLS policies
+-- below. SECURITY DEFINER so the policy on conversation_participants can
+-- consult the same table without recursing into itself; it only ever answers
+-- for auth.uid(), so it cannot be called to probe other users' threads.
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants
+    WHERE conversation_id = p_conversation_id
+      AND user_id = auth.uid()
+  )
+$$;
+
+-- Conversations RLS policies
+CREATE POLICY "Participants can view conversations"
+ON public.conversations FOR SELECT
+USING (public.is_conversation_participant(id));
+
+-- Participants RLS policies
+CREATE POLICY "Participants can view thread members"
+ON public.conversation_participants FOR SELECT
+USING (public.is_conversation_participant(conversation_id));
+
+-- No client UPDATE policy: mark-read and archive go through messaging-system
+-- with the service role, so a member cannot move their row to another thread
+
+-- Messages RLS policies
+CREATE POLICY "Participants can view messages"
+ON public.messages FOR SELECT
+USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages"
+ON public.messages FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND public.is_conversation_participant(conversation_id)
+);
+
+-- ============================================
+-- 4. INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user ON public.conversation_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created ON public.messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message ON public.conversations(last_message_at DESC);
+
+-- ============================================
+-- 5. TRIGGERS
+-- ============================================
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the thread ordering current and resurface archived threads when a
+-- new message arrives.
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET archived_at = NULL
+  WHERE conversation_id = NEW.conversation_id
+    AND archived_at IS NOT NULL;
+
+  -- The sender has implicitly read everything up to their own message
+  UPDATE public.conversation_participants
+  SET last_read_at = NEW.created_at
+  WHERE conversation_id = NEW.conversation_id
+    AND user_id = NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_message();
+
+-- ============================================
+-- 6. THREAD LISTING WITH UNREAD COUNTS
+-- ============================================
+CREATE OR REPLACE FUNCTION public.list_user_threads(
+  p_user_id uuid,
+  p_include_archived boolean DEFAULT false
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  subject text,
+  service_id uuid,
+  last_message_at timestamptz,
+  last_message text,
+  last_sender_id uuid,
+  unread_count bigint,
+  archived boolean,
+  participants jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.subject,
+    c.service_id,
+    c.last_message_at,
+    lm.content,
+    lm.sender_id,
+    (
+      SELECT count(*)
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND m.sender_id <> p_user_id
+        AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+    ),
+    me.archived_at IS NOT NULL,
+    (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'full_name', p.full_name,
+        'business_name', p.business_name,
+        'avatar_url', p.avatar_url
+      )), '[]'::jsonb)
+      FROM public.conversation_participants cp
+      JOIN public.profiles p ON p.id = cp.user_id
+      WHERE cp.conversation_id = c.id
+        AND cp.user_id <> p_user_id
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.sender_id
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) lm ON true
+  WHERE me.user_id = p_user_id
+    AND (p_include_archived OR me.archived_at IS NULL)
+  ORDER BY c.last_message_at DESC
+$$;
+
+-- Only the edge function (service role) lists threads on a user's behalf
+REVOKE EXECUTE ON FUNCTION public.list_user_threads(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_user_threads(uuid, boolean) TO service_role;
+
+-- ============================================
+-- 7. ENABLE REALTIME
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
@@ -0,0 +1,263 @@
+-- ============================================
+-- ESCROW-BACKED ORDER LIFECYCLE
+-- A service purchase no longer credits the provider the moment Lenco confirms
+-- the collection. The funds are held against the order and only released to
+-- the provider's wallet (via apply_wallet_transaction) once the client accepts
+-- the delivery or the auto-accept window passes.
+--
+-- Order states: pending -> funded -> in_progress -> delivered -> accepted
+--                                   \-> disputed (from in_progress/delivered)
+--               pending -> cancelled, funded -> refunded
+-- ============================================
+
+-- ============================================
+-- 1. ORDER ESCROW COLUMNS
+-- ============================================
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS escrow_status text NOT NULL DEFAULT 'unfunded'
+    CHECK (escrow_status IN ('unfunded', 'held', 'released', 'refunded', 'split')),
+  ADD COLUMN IF NOT EXISTS escrow_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS funding_transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS funded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivered_at timestamptz,
+  ADD COLUMN IF NOT EXISTS delivery_note text,
+  ADD COLUMN IF NOT EXISTS auto_accept_at timestamptz,
+  ADD COLUMN IF NOT EXISTS accepted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS released_at timestamptz;
+
+-- Link ledger rows back to the order they fund or settle
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_order_id ON public.transactions(order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_auto_accept ON public.orders(auto_accept_at)
+  WHERE status = 'delivered';
+
+-- Status changes now go through the order-manager edge function so that a
+-- participant cannot mark their own order accepted/refunded directly.
+DROP POLICY IF EXISTS "Participants can update orders" ON public.orders;
+
+-- ============================================
+-- 2. FUND ESCROW
+-- Called once the Lenco collection for an order succeeds (webhook or manual
+-- verify). Idempotent: only a pending order moves to funded.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.fund_order_escrow(
+  p_order_id uuid,
+  p_transaction_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_tx record;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF v_order.escrow_status <> 'unfunded' THEN
+    RETURN jsonb_build_object('success', true, 'idempotent', true, 'status', v_order.status);
+  END IF;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'successful' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction is not successful');
+  END IF;
+
+  IF v_tx.user_id <> v_order.client_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not belong to the client');
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'funded',
+      payment_status = 'paid',
+      escrow_status = 'held',
+      escrow_amount = v_tx.amount,
+      funding_transaction_id = v_tx.id,
+      funded_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true, 'status', 'funded', 'escrow_amount', v_tx.amount);
+END;
+$$;
+
+-- ============================================
+-- 3. SETTLE ESCROW
+-- Pays the held funds out through apply_wallet_transaction: the provider
+-- share as a service_payment and any client share as a refund. Amounts are
+-- in the order currency and must not exceed what is held. Idempotency keys
+-- are derived from the order id so a retried settlement never pays twice.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.settle_order_escrow(
+  p_order_id uuid,
+  p_provider_amount numeric,
+  p_client_amount numeric,
+  p_order_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_result jsonb;
+  v_escrow_status text;
+  v_provider_tx uuid;
+  v_client_tx uuid;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF v_order.escrow_status <> 'held' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order has no funds held in escrow');
+  END IF;
+
+  IF COALESCE(p_provider_amount, 0) < 0 OR COALESCE(p_client_amount, 0) < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settlement amounts cannot be negative');
+  END IF;
+
+  IF COALESCE(p_provider_amount, 0) + COALESCE(p_client_amount, 0) > v_order.escrow_amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settlement exceeds escrowed amount');
+  END IF;
+
+  IF COALESCE(p_provider_amount, 0) > 0 THEN
+    v_result := public.apply_wallet_transaction(
+      v_order.provider_id,
+      p_provider_amount,
+      v_order.currency,
+      'service_payment',
+      'Escrow release: ' || v_order.service_title,
+      'escrow-release-' || p_order_id,
+      'escrow',
+      NULL,
+      jsonb_build_object('order_id', p_order_id, 'reason', p_reason)
+    );
+    IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION 'Escrow release failed: %', v_result->>'error';
+    END IF;
+    v_provider_tx := (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  IF COALESCE(p_client_amount, 0) > 0 THEN
+    v_result := public.apply_wallet_transaction(
+      v_order.client_id,
+      p_client_amount,
+      v_order.currency,
+      'refund',
+      'Escrow refund: ' || v_order.service_title,
+      'escrow-refund-' || p_order_id,
+      'escrow',
+      NULL,
+      jsonb_build_object('order_id', p_order_id, 'reason', p_reason)
+    );
+    IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION 'Escrow refund failed: %', v_result->>'error';
+    END IF;
+    v_client_tx := (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  UPDATE public.transactions
+  SET order_id = p_order_id
+  WHERE id IN (v_provider_tx, v_client_tx);
+
+  v_escrow_status := CASE
+    WHEN COALESCE(p_client_amount, 0) = 0 THEN 'released'
+    WHEN COALESCE(p_provider_amount, 0) = 0 THEN 'refunded'
+    ELSE 'split'
+  END;
+
+  UPDATE public.orders
+  SET status = p_order_status,
+      escrow_status = v_escrow_status,
+      payment_status = CASE WHEN v_escrow_status = 'refunded' THEN 'refunded' ELSE payment_status END,
+      released_at = now(),
+      accepted_at = CASE WHEN p_order_status = 'accepted' THEN now() ELSE accepted_at END,
+      completed_at = now(),
+      auto_accept_at = NULL
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'escrow_status', v_escrow_status,
+    'provider_transaction_id', v_provider_tx,
+    'client_transaction_id', v_client_tx
+  );
+END;
+$$;
+
+-- ============================================
+-- 4. AUTO-ACCEPT SWEEP
+-- Releases escrow for delivered orders whose review window has lapsed
+-- without the client accepting or disputing.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.auto_accept_delivered_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_result jsonb;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id, agreed_price, escrow_amount
+    FROM public.orders
+    WHERE status = 'delivered'
+      AND escrow_status = 'held'
+      AND auto_accept_at IS NOT NULL
+      AND auto_accept_at <= now()
+    ORDER BY auto_accept_at
+    LIMIT 200
+  LOOP
+    BEGIN
+      v_result := public.settle_order_escrow(
+        v_order.id,
+        LEAST(v_order.agreed_price, v_order.escrow_amount),
+        0,
+        'accepted',
+        'auto_accept'
+      );
+      IF COALESCE((v_result->>'success')::boolean, false) THEN
+        v_count := v_count + 1;
+      ELSE
+        RAISE WARNING 'Auto-accept skipped order %: %', v_order.id, v_result->>'error';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-accept failed for order %: %', v_order.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Escrow movements are only ever triggered by edge functions or cron
+REVOKE EXECUTE ON FUNCTION public.fund_order_escrow(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.fund_order_escrow(uuid, uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.settle_order_escrow(uuid, numeric, numeric, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_order_escrow(uuid, numeric, numeric, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.auto_accept_delivered_orders() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.auto_accept_delivered_orders() TO service_role;
+
+-- ============================================
+-- 5. CRON JOB
+-- To revert: SELECT cron.unschedule('auto-accept-delivered-orders');
+-- ============================================
+SELECT cron.schedule(
+  'auto-accept-delivered-orders',
+  '*/15 * * * *',
+  $$SELECT public.auto_accept_delivered_orders()$$
+);
+
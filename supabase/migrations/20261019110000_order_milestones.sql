@@ -0,0 +1,378 @@
+-- ============================================
+-- MILESTONE PAYMENTS
+-- Large orders (e.g. consulting engagements started from the funding hub)
+-- can split the agreed price into named milestones. Each milestone is funded
+-- into escrow, delivered and approved on its own; the parent order tracks the
+-- overall progress.
+--
+-- Milestone states: pending -> funded -> delivered -> approved
+--                                     \-> disputed
+--                   pending -> cancelled, funded -> refunded
+-- ============================================
+
+-- ============================================
+-- 1. PAYMENT SCHEDULE ON ORDERS
+-- ============================================
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS payment_schedule text NOT NULL DEFAULT 'single'
+    CHECK (payment_schedule IN ('single', 'milestones'));
+
+-- ============================================
+-- 2. ORDER_MILESTONES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.order_milestones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  platform_fee numeric NOT NULL DEFAULT 0,
+  due_date date,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'funded', 'delivered', 'approved', 'disputed', 'cancelled', 'refunded')),
+  escrow_status text NOT NULL DEFAULT 'unfunded'
+    CHECK (escrow_status IN ('unfunded', 'held', 'released', 'refunded', 'split')),
+  escrow_amount numeric NOT NULL DEFAULT 0,
+  funding_transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  funded_at timestamptz,
+  delivered_at timestamptz,
+  delivery_note text,
+  auto_accept_at timestamptz,
+  approved_at timestamptz,
+  released_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (order_id, position)
+);
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS milestone_id uuid REFERENCES public.order_milestones(id) ON DELETE SET NULL;
+
+ALTER TABLE public.order_milestones ENABLE ROW LEVEL SECURITY;
+
+-- Milestones are written by the order-manager edge function only
+CREATE POLICY "Order participants can view milestones"
+ON public.order_milestones FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_id
+      AND (o.client_id = auth.uid() OR o.provider_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Admins can view all milestones"
+ON public.order_milestones FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_order_milestones_order ON public.order_milestones(order_id, position);
+CREATE INDEX IF NOT EXISTS idx_order_milestones_auto_accept ON public.order_milestones(auto_accept_at)
+  WHERE status = 'delivered';
+CREATE INDEX IF NOT EXISTS idx_transactions_milestone_id ON public.transactions(milestone_id);
+
+CREATE TRIGGER update_order_milestones_updated_at
+  BEFORE UPDATE ON public.order_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 3. ROLL MILESTONE PROGRESS UP TO THE ORDER
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_order_milestone_status(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total integer;
+  v_approved integer;
+  v_funded integer;
+  v_started integer;
+  v_disputed integer;
+  v_held numeric;
+BEGIN
+  SELECT
+    count(*) FILTER (WHERE status NOT IN ('cancelled', 'refunded')),
+    count(*) FILTER (WHERE status = 'approved'),
+    count(*) FILTER (WHERE escrow_status <> 'unfunded' AND status NOT IN ('cancelled', 'refunded')),
+    count(*) FILTER (WHERE status IN ('funded', 'delivered', 'approved', 'disputed')),
+    count(*) FILTER (WHERE status = 'disputed'),
+    COALESCE(sum(escrow_amount) FILTER (WHERE escrow_status = 'held'), 0)
+  INTO v_total, v_approved, v_funded, v_started, v_disputed, v_held
+  FROM public.order_milestones
+  WHERE order_id = p_order_id;
+
+  UPDATE public.orders
+  SET status = CASE
+        WHEN v_total > 0 AND v_approved = v_total THEN 'accepted'
+        WHEN v_disputed > 0 THEN 'disputed'
+        WHEN v_started > 0 THEN 'in_progress'
+        ELSE status
+      END,
+      payment_status = CASE
+        WHEN v_total > 0 AND v_funded = v_total THEN 'paid'
+        WHEN v_funded > 0 THEN 'partially_paid'
+        ELSE payment_status
+      END,
+      escrow_amount = v_held,
+      funded_at = COALESCE(funded_at, CASE WHEN v_funded > 0 THEN now() END),
+      accepted_at = CASE WHEN v_total > 0 AND v_approved = v_total THEN now() ELSE accepted_at END,
+      completed_at = CASE WHEN v_total > 0 AND v_approved = v_total THEN now() ELSE completed_at END
+  WHERE id = p_order_id
+    AND payment_schedule = 'milestones';
+END;
+$$;
+
+-- ============================================
+-- 4. FUND MILESTONE ESCROW
+-- ============================================
+CREATE OR REPLACE FUNCTION public.fund_milestone_escrow(
+  p_milestone_id uuid,
+  p_transaction_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone record;
+  v_client_id uuid;
+  v_tx record;
+BEGIN
+  SELECT * INTO v_milestone FROM public.order_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone not found');
+  END IF;
+
+  IF v_milestone.escrow_status <> 'unfunded' THEN
+    RETURN jsonb_build_object('success', true, 'idempotent', true, 'status', v_milestone.status);
+  END IF;
+
+  IF v_milestone.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone is no longer awaiting funding');
+  END IF;
+
+  SELECT client_id INTO v_client_id FROM public.orders WHERE id = v_milestone.order_id;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'successful' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction is not successful');
+  END IF;
+
+  IF v_tx.user_id <> v_client_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not belong to the client');
+  END IF;
+
+  UPDATE public.order_milestones
+  SET status = 'funded',
+      escrow_status = 'held',
+      escrow_amount = v_tx.amount,
+      funding_transaction_id = v_tx.id,
+      funded_at = now()
+  WHERE id = p_milestone_id;
+
+  PERFORM public.sync_order_milestone_status(v_milestone.order_id);
+
+  RETURN jsonb_build_object('success', true, 'status', 'funded', 'escrow_amount', v_tx.amount);
+END;
+$$;
+
+-- ============================================
+-- 5. SETTLE MILESTONE ESCROW
+-- Same ledger movements as settle_order_escrow, scoped to one milestone.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.settle_milestone_escrow(
+  p_milestone_id uuid,
+  p_provider_amount numeric,
+  p_client_amount numeric,
+  p_milestone_status text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone record;
+  v_order record;
+  v_result jsonb;
+  v_escrow_status text;
+  v_provider_tx uuid;
+  v_client_tx uuid;
+BEGIN
+  SELECT * INTO v_milestone FROM public.order_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone not found');
+  END IF;
+
+  IF v_milestone.escrow_status <> 'held' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone has no funds held in escrow');
+  END IF;
+
+  IF COALESCE(p_provider_amount, 0) < 0 OR COALESCE(p_client_amount, 0) < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settlement amounts cannot be negative');
+  END IF;
+
+  IF COALESCE(p_provider_amount, 0) + COALESCE(p_client_amount, 0) > v_milestone.escrow_amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Settlement exceeds escrowed amount');
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_milestone.order_id;
+
+  IF COALESCE(p_provider_amount, 0) > 0 THEN
+    v_result := public.apply_wallet_transaction(
+      v_order.provider_id,
+      p_provider_amount,
+      v_order.currency,
+      'service_payment',
+      'Milestone release: ' || v_milestone.title,
+      'escrow-release-milestone-' || p_milestone_id,
+      'escrow',
+      NULL,
+      jsonb_build_object('order_id', v_order.id, 'milestone_id', p_milestone_id, 'reason', p_reason)
+    );
+    IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION 'Milestone release failed: %', v_result->>'error';
+    END IF;
+    v_provider_tx := (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  IF COALESCE(p_client_amount, 0) > 0 THEN
+    v_result := public.apply_wallet_transaction(
+      v_order.client_id,
+      p_client_amount,
+      v_order.currency,
+      'refund',
+      'Milestone refund: ' || v_milestone.title,
+      'escrow-refund-milestone-' || p_milestone_id,
+      'escrow',
+      NULL,
+      jsonb_build_object('order_id', v_order.id, 'milestone_id', p_milestone_id, 'reason', p_reason)
+    );
+    IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION 'Milestone refund failed: %', v_result->>'error';
+    END IF;
+    v_client_tx := (v_result->>'transaction_id')::uuid;
+  END IF;
+
+  UPDATE public.transactions
+  SET order_id = v_order.id,
+      milestone_id = p_milestone_id
+  WHERE id IN (v_provider_tx, v_client_tx);
+
+  v_escrow_status := CASE
+    WHEN COALESCE(p_client_amount, 0) = 0 THEN 'released'
+    WHEN COALESCE(p_provider_amount, 0) = 0 THEN 'refunded'
+    ELSE 'split'
+  END;
+
+  UPDATE public.order_milestones
+  SET status = p_milestone_status,
+      escrow_status = v_escrow_status,
+      released_at = now(),
+      approved_at = CASE WHEN p_milestone_status = 'approved' THEN now() ELSE approved_at END,
+      auto_accept_at = NULL
+  WHERE id = p_milestone_id;
+
+  PERFORM public.sync_order_milestone_status(v_order.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'escrow_status', v_escrow_status,
+    'provider_transaction_id', v_provider_tx,
+    'client_transaction_id', v_client_tx
+  );
+END;
+$$;
+
+-- ============================================
+-- 6. AUTO-ACCEPT SWEEP - now covers delivered milestones too
+-- ============================================
+CREATE OR REPLACE FUNCTION public.auto_accept_delivered_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_milestone record;
+  v_result jsonb;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id, agreed_price, escrow_amount
+    FROM public.orders
+    WHERE status = 'delivered'
+      AND payment_schedule = 'single'
+      AND escrow_status = 'held'
+      AND auto_accept_at IS NOT NULL
+      AND auto_accept_at <= now()
+    ORDER BY auto_accept_at
+    LIMIT 200
+  LOOP
+    BEGIN
+      v_result := public.settle_order_escrow(
+        v_order.id,
+        LEAST(v_order.agreed_price, v_order.escrow_amount),
+        0,
+        'accepted',
+        'auto_accept'
+      );
+      IF COALESCE((v_result->>'success')::boolean, false) THEN
+        v_count := v_count + 1;
+      ELSE
+        RAISE WARNING 'Auto-accept skipped order %: %', v_order.id, v_result->>'error';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-accept failed for order %: %', v_order.id, SQLERRM;
+    END;
+  END LOOP;
+
+  FOR v_milestone IN
+    SELECT id, amount, escrow_amount
+    FROM public.order_milestones
+    WHERE status = 'delivered'
+      AND escrow_status = 'held'
+      AND auto_accept_at IS NOT NULL
+      AND auto_accept_at <= now()
+    ORDER BY auto_accept_at
+    LIMIT 200
+  LOOP
+    BEGIN
+      v_result := public.settle_milestone_escrow(
+        v_milestone.id,
+        LEAST(v_milestone.amount, v_milestone.escrow_amount),
+        0,
+        'approved',
+        'auto_accept'
+      );
+      IF COALESCE((v_result->>'success')::boolean, false) THEN
+        v_count := v_count + 1;
+      ELSE
+        RAISE WARNING 'Auto-accept skipped milestone %: %', v_milestone.id, v_result->>'error';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-accept failed for milestone %: %', v_milestone.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_order_milestone_status(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sync_order_milestone_status(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.fund_milestone_escrow(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.fund_milestone_escrow(uuid, uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.settle_milestone_escrow(uuid, numeric, numeric, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_milestone_escrow(uuid, numeric, numeric, text, text) TO service_role;
+
+-- ============================================
+-- 7. ENABLE REALTIME
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_milestones;
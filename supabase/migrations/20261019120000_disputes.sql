@@ -0,0 +1,351 @@
+-- ============================================
+-- DISPUTE RESOLUTION
+-- Either party to a funded order (or milestone) can open a dispute and attach
+-- evidence. Opening a dispute moves the order/milestone to 'disputed', which
+-- clears the auto-accept clock and blocks accept/approve, so the escrowed
+-- funds stay frozen until an admin arbitrates.
+--
+-- Dispute states: open -> under_review -> resolved
+-- Outcomes:       refund  - full escrow back to the client
+--                 split   - admin-chosen amounts to each side
+--                 release - agreed price to the provider (as on acceptance)
+-- ============================================
+
+-- ============================================
+-- 1. DISPUTES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  milestone_id uuid REFERENCES public.order_milestones(id) ON DELETE CASCADE,
+  -- The escrow funding payment under dispute
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  opened_by uuid NOT NULL,
+  reason text NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 2000),
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'under_review', 'resolved')),
+  outcome text CHECK (outcome IN ('refund', 'split', 'release')),
+  provider_amount numeric,
+  client_amount numeric,
+  provider_transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  client_transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  resolution_note text,
+  resolved_by uuid,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one unresolved dispute per order / milestone
+CREATE UNIQUE INDEX IF NOT EXISTS idx_disputes_one_open
+  ON public.disputes(order_id, COALESCE(milestone_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_disputes_status ON public.disputes(status, created_at);
+
+CREATE TRIGGER update_disputes_updated_at
+  BEFORE UPDATE ON public.disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the caller is a party to the disputed order, used by the table and
+-- storage policies. Takes text so storage folder names can be passed without
+-- a failing cast, and only answers for auth.uid() so it cannot be called to
+-- probe other users' disputes.
+CREATE OR REPLACE FUNCTION public.is_dispute_participant(p_dispute_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.disputes d
+    JOIN public.orders o ON o.id = d.order_id
+    WHERE d.id::text = p_dispute_id
+      AND auth.uid() IN (o.client_id, o.provider_id)
+  )
+$$;
+
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+
+-- Disputes are opened by the order-manager edge function and resolved
+-- through admin_resolve_dispute
+CREATE POLICY "Participants can view their disputes"
+ON public.disputes FOR SELECT
+USING (public.is_dispute_participant(id::text));
+
+CREATE POLICY "Admins can view all disputes"
+ON public.disputes FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- No UPDATE policy: admins resolve through admin_resolve_dispute, which also
+-- settles the escrow
+
+-- ============================================
+-- 2. EVIDENCE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.dispute_evidence (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id uuid NOT NULL REFERENCES public.disputes(id) ON DELETE CASCADE,
+  uploaded_by uuid NOT NULL,
+  file_path text NOT NULL,
+  file_name text NOT NULL,
+  mime_type text,
+  note text CHECK (note IS NULL OR char_length(note) <= 1000),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute ON public.dispute_evidence(dispute_id, created_at);
+
+ALTER TABLE public.dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view dispute evidence"
+ON public.dispute_evidence FOR SELECT
+USING (public.is_dispute_participant(dispute_id::text));
+
+CREATE POLICY "Admins can view all dispute evidence"
+ON public.dispute_evidence FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Participants can add evidence to unresolved disputes"
+ON public.dispute_evidence FOR INSERT
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND public.is_dispute_participant(dispute_id::text)
+  AND EXISTS (
+    SELECT 1 FROM public.disputes d
+    WHERE d.id = dispute_id AND d.status <> 'resolved'
+  )
+);
+
+-- ============================================
+-- 3. EVIDENCE STORAGE
+-- Files are stored as {dispute_id}/{user_id}/{filename}
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('dispute-evidence', 'dispute-evidence', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+CREATE POLICY "Dispute participants can upload evidence"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'dispute-evidence'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND public.is_dispute_participant((storage.foldername(name))[1])
+);
+
+CREATE POLICY "Dispute participants and admins can read evidence"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'dispute-evidence'
+  AND (
+    public.is_dispute_participant((storage.foldername(name))[1])
+    OR public.has_role(auth.uid(), 'admin')
+  )
+);
+
+-- ============================================
+-- 4. ADMIN RESOLUTION
+-- Settles the frozen escrow through settle_order_escrow /
+-- settle_milestone_escrow (which post the wallet entries via
+-- apply_wallet_transaction) and records the decision in audit_logs.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_provider_amount numeric DEFAULT NULL,
+  p_client_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_dispute record;
+  v_order record;
+  v_milestone record;
+  v_escrow numeric;
+  v_base numeric;
+  v_provider numeric;
+  v_client numeric;
+  v_result jsonb;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_outcome NOT IN ('refund', 'split', 'release') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Outcome must be refund, split or release');
+  END IF;
+
+  SELECT * INTO v_dispute FROM public.disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status = 'resolved' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dispute is already resolved');
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_dispute.order_id;
+
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    SELECT * INTO v_milestone FROM public.order_milestones WHERE id = v_dispute.milestone_id;
+    v_escrow := v_milestone.escrow_amount;
+    v_base := v_milestone.amount;
+  ELSE
+    v_escrow := v_order.escrow_amount;
+    v_base := v_order.agreed_price;
+  END IF;
+
+  -- A release pays what acceptance would have; a refund returns everything
+  -- the client paid, platform fee included
+  IF p_outcome = 'refund' THEN
+    v_provider := 0;
+    v_client := v_escrow;
+  ELSIF p_outcome = 'release' THEN
+    v_provider := LEAST(v_base, v_escrow);
+    v_client := 0;
+  ELSE
+    v_provider := COALESCE(p_provider_amount, 0);
+    v_client := COALESCE(p_client_amount, 0);
+    IF v_provider <= 0 OR v_client <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A split must pay both parties');
+    END IF;
+  END IF;
+
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    v_result := public.settle_milestone_escrow(
+      v_dispute.milestone_id,
+      v_provider,
+      v_client,
+      CASE WHEN p_outcome = 'refund' THEN 'refunded' ELSE 'approved' END,
+      'dispute_' || p_outcome
+    );
+  ELSE
+    v_result := public.settle_order_escrow(
+      v_order.id,
+      v_provider,
+      v_client,
+      CASE p_outcome WHEN 'refund' THEN 'refunded' WHEN 'release' THEN 'accepted' ELSE 'resolved' END,
+      'dispute_' || p_outcome
+    );
+  END IF;
+
+  IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+    RETURN v_result;
+  END IF;
+
+  -- sync_order_milestone_status keeps an order 'disputed' when nothing else
+  -- has started; settle it here once no milestone is disputed any more
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    UPDATE public.orders o
+    SET status = CASE
+          WHEN EXISTS (SELECT 1 FROM public.order_milestones m WHERE m.order_id = o.id AND m.status = 'pending')
+            THEN 'pending'
+          ELSE 'refunded'
+        END
+    WHERE o.id = v_order.id
+      AND o.status = 'disputed'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.order_milestones m WHERE m.order_id = o.id AND m.status = 'disputed'
+      );
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      provider_amount = v_provider,
+      client_amount = v_client,
+      provider_transaction_id = (v_result->>'provider_transaction_id')::uuid,
+      client_transaction_id = (v_result->>'client_transaction_id')::uuid,
+      resolution_note = p_note,
+      resolved_by = v_actor_id,
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'dispute_resolved',
+    'disputes',
+    p_dispute_id::text,
+    jsonb_build_object('status', v_dispute.status, 'escrow_amount', v_escrow),
+    jsonb_build_object(
+      'status', 'resolved',
+      'outcome', p_outcome,
+      'provider_amount', v_provider,
+      'client_amount', v_client
+    ),
+    jsonb_build_object(
+      'order_id', v_order.id,
+      'milestone_id', v_dispute.milestone_id,
+      'note', p_note,
+      'result', v_result
+    )
+  );
+
+  RETURN v_result || jsonb_build_object('outcome', p_outcome, 'provider_amount', v_provider, 'client_amount', v_client);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_resolve_dispute(uuid, text, numeric, numeric, text) TO authenticated;
+
+-- Moves an open dispute to 'under_review' so the parties see an admin has
+-- picked it up
+CREATE OR REPLACE FUNCTION public.admin_review_dispute(p_dispute_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_dispute public.disputes;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'under_review'
+  WHERE id = p_dispute_id
+    AND status = 'open'
+  RETURNING * INTO v_dispute;
+
+  IF v_dispute.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only open disputes can be put under review');
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'dispute_under_review',
+    'disputes',
+    v_dispute.id::text,
+    jsonb_build_object('status', 'open'),
+    jsonb_build_object('status', 'under_review'),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_review_dispute(uuid) TO authenticated;
+
+-- ============================================
+-- 5. ENABLE REALTIME
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE public.disputes;
@@ -0,0 +1,22 @@
+-- ============================================
+-- WEBHOOK EVENT REPLAY
+-- Finance can re-run a Lenco webhook event whose processing failed (the
+-- `error` column is set) from the payment reconciliation page. Replays go
+-- through the lenco-webhook-replay edge function, which re-uses the same
+-- idempotent handlers as the live webhook and records each attempt here and
+-- in audit_logs.
+-- ============================================
+
+ALTER TABLE public.webhook_events
+  ADD COLUMN IF NOT EXISTS replay_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_replayed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_replayed_by uuid;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_errored
+  ON public.webhook_events(received_at DESC)
+  WHERE error IS NOT NULL;
+
+-- Writes stay service-role only; admins may read the event log
+CREATE POLICY "Admins can view webhook events"
+ON public.webhook_events FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
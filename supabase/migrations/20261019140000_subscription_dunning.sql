@@ -0,0 +1,338 @@
+-- ============================================
+-- SUBSCRIPTION RENEWAL & DUNNING
+-- Lenco (mobile money) subscriptions have no provider-side billing, so the
+-- `subscription-renewals` edge function renews them on a schedule:
+--
+--   active   -- reminder email RENEWAL_REMINDER_DAYS before current_period_end,
+--               first collection attempt the day before it ends
+--   past_due -- period ended without payment; collection is retried on the
+--               dunning schedule and the subscriber keeps access
+--   grace    -- retries exhausted; access continues until grace_period_end
+--   expired  -- grace_period_end passed without payment
+--
+-- A successful renewal payment moves the subscription straight back to
+-- 'active' (see _shared/subscription-activation.ts). Paddle subscriptions are
+-- billed by Paddle and left alone.
+-- ============================================
+
+-- Not referenced outside function bodies below: a new enum value cannot be
+-- used in the transaction that adds it
+ALTER TYPE public.subscription_status ADD VALUE IF NOT EXISTS 'grace' AFTER 'past_due';
+
+-- ============================================
+-- 1. DUNNING STATE
+-- ============================================
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS renewal_reminder_sent_for timestamptz,
+  ADD COLUMN IF NOT EXISTS renewal_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_renewal_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_renewal_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_renewal_error text,
+  ADD COLUMN IF NOT EXISTS past_due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS grace_period_end timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_next_renewal
+  ON public.subscriptions(next_renewal_attempt_at)
+  WHERE next_renewal_attempt_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_period_end
+  ON public.subscriptions(status, current_period_end);
+
+-- A lapsed subscription keeps access for 10 days after its period ends, and
+-- never loses it before the platform-wide grace period (get_grace_period_end)
+-- is over
+CREATE OR REPLACE FUNCTION public.get_subscription_grace_end(p_period_end timestamptz)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(p_period_end + interval '10 days', public.get_grace_period_end())
+$$;
+
+-- ============================================
+-- 2. LIFECYCLE TRANSITIONS
+-- Run by subscription-renewals before it sends reminders and charges.
+-- Returns the ids moved into each state so the caller can notify them.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.advance_subscription_lifecycle(p_max_attempts integer DEFAULT 3)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cancelled uuid[];
+  v_past_due uuid[];
+  v_grace uuid[];
+  v_expired uuid[];
+BEGIN
+  -- Cancellations requested during the period take effect at its end
+  WITH moved AS (
+    UPDATE public.subscriptions
+    SET status = 'cancelled',
+        next_renewal_attempt_at = NULL
+    WHERE status IN ('active', 'trialing', 'past_due')
+      AND cancel_at_period_end = true
+      AND current_period_end <= now()
+      AND paddle_subscription_id IS NULL
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_cancelled FROM moved;
+
+  -- Unpaid trials end with their period; there is nothing to renew
+  UPDATE public.subscriptions
+  SET status = 'expired'
+  WHERE status = 'trialing'
+    AND current_period_end <= now()
+    AND paddle_subscription_id IS NULL;
+
+  WITH moved AS (
+    UPDATE public.subscriptions
+    SET status = 'past_due',
+        past_due_at = now(),
+        grace_period_end = public.get_subscription_grace_end(current_period_end),
+        -- Periods that ended before a reminder went out are retried right away
+        next_renewal_attempt_at = COALESCE(next_renewal_attempt_at, now())
+    WHERE status = 'active'
+      AND current_period_end <= now()
+      AND paddle_subscription_id IS NULL
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_past_due FROM moved;
+
+  -- Give the last prompt a day to be approved before giving up on retries
+  WITH moved AS (
+    UPDATE public.subscriptions
+    SET status = 'grace',
+        next_renewal_attempt_at = NULL
+    WHERE status = 'past_due'
+      AND renewal_attempts >= p_max_attempts
+      AND (last_renewal_attempt_at IS NULL OR last_renewal_attempt_at <= now() - interval '1 day')
+      AND COALESCE(grace_period_end, 'infinity'::timestamptz) > now()
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_grace FROM moved;
+
+  WITH moved AS (
+    UPDATE public.subscriptions
+    SET status = 'expired',
+        next_renewal_attempt_at = NULL
+    WHERE status IN ('past_due', 'grace')
+      AND COALESCE(grace_period_end, public.get_subscription_grace_end(current_period_end)) <= now()
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_expired FROM moved;
+
+  RETURN jsonb_build_object(
+    'cancelled', to_jsonb(v_cancelled),
+    'past_due', to_jsonb(v_past_due),
+    'grace', to_jsonb(v_grace),
+    'expired', to_jsonb(v_expired)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_subscription_lifecycle(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.advance_subscription_lifecycle(integer) TO service_role;
+
+-- ============================================
+-- 3. ENTITLEMENTS
+-- past_due and grace subscriptions keep access until their grace_period_end.
+-- get_user_entitlements also reports an expired subscription so the app can
+-- prompt the user to renew it.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.has_full_access(p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_is_admin boolean;
+  v_in_grace_period boolean;
+  v_has_active_subscription boolean;
+BEGIN
+  -- Temporary promotion: August 2026 is free for everyone.
+  IF public.is_promo_free_period() THEN RETURN true; END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role = 'admin'::public.app_role
+  ) INTO v_is_admin;
+  IF v_is_admin THEN RETURN true; END IF;
+
+  v_in_grace_period := now() < public.get_grace_period_end();
+  IF v_in_grace_period THEN RETURN true; END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+      AND (
+        (status IN ('active', 'trialing') AND current_period_end > now())
+        OR (
+          status IN ('past_due', 'grace')
+          AND COALESCE(grace_period_end, public.get_subscription_grace_end(current_period_end)) > now()
+        )
+      )
+  ) INTO v_has_active_subscription;
+
+  RETURN v_has_active_subscription;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_user_entitlements(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_is_admin boolean;
+  v_in_grace_period boolean;
+  v_promo_free boolean;
+  v_subscription record;
+  v_has_subscription boolean;
+  v_sub_grace_end timestamptz;
+  v_sub_access boolean := false;
+  v_full boolean;
+  v_result jsonb;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role = 'admin'::public.app_role
+  ) INTO v_is_admin;
+
+  v_in_grace_period := now() < public.get_grace_period_end();
+  v_promo_free := public.is_promo_free_period();
+
+  SELECT s.*, sp.features, sp.name as plan_name
+  INTO v_subscription
+  FROM public.subscriptions s
+  LEFT JOIN public.subscription_plans sp ON s.plan_id = sp.id
+  WHERE s.user_id = p_user_id
+    AND s.status IN ('active', 'trialing', 'past_due', 'grace', 'expired')
+  ORDER BY
+    CASE WHEN s.status::text = 'expired' THEN 1 ELSE 0 END,
+    CASE WHEN s.environment = 'live' THEN 0 ELSE 1 END,
+    s.created_at DESC
+  LIMIT 1;
+  -- FOUND rather than `v_subscription IS NOT NULL`, which is false as soon as
+  -- any column of the row is null
+  v_has_subscription := FOUND;
+
+  IF v_has_subscription THEN
+    IF v_subscription.status::text IN ('past_due', 'grace') THEN
+      v_sub_grace_end := COALESCE(
+        v_subscription.grace_period_end,
+        public.get_subscription_grace_end(v_subscription.current_period_end)
+      );
+      v_sub_access := v_sub_grace_end > now();
+    ELSIF v_subscription.status::text IN ('active', 'trialing') THEN
+      v_sub_access := v_subscription.current_period_end > now();
+    END IF;
+  END IF;
+
+  v_full := v_promo_free
+         OR v_is_admin
+         OR v_in_grace_period
+         OR v_sub_access;
+
+  v_result := jsonb_build_object(
+    'has_full_access', v_full,
+    'is_admin', v_is_admin,
+    'in_grace_period', v_in_grace_period,
+    'grace_period_end', public.get_grace_period_end(),
+    'promo_free_period', v_promo_free,
+    'promo_free_period_end', '2026-08-31 23:59:59+00'::timestamptz,
+    'subscription', CASE
+      WHEN v_has_subscription THEN jsonb_build_object(
+        'id', v_subscription.id,
+        'status', v_subscription.status,
+        'plan_name', COALESCE(v_subscription.plan_name, v_subscription.product_id),
+        'current_period_end', v_subscription.current_period_end,
+        'features', COALESCE(v_subscription.features, '[]'::jsonb),
+        'environment', v_subscription.environment,
+        'product_id', v_subscription.product_id,
+        'price_id', v_subscription.price_id,
+        'cancel_at_period_end', v_subscription.cancel_at_period_end,
+        'grace_period_end', v_sub_grace_end,
+        'renewal_attempts', v_subscription.renewal_attempts,
+        'next_renewal_attempt_at', v_subscription.next_renewal_attempt_at,
+        'last_renewal_error', v_subscription.last_renewal_error
+      )
+      ELSE NULL
+    END,
+    'limits', CASE
+      WHEN v_full THEN jsonb_build_object(
+        'funding_matches_per_month', -1,
+        'contact_requests_per_week', -1,
+        'ai_analysis_enabled', true,
+        'document_uploads_enabled', true,
+        'premium_analytics', true
+      )
+      ELSE jsonb_build_object(
+        'funding_matches_per_month', 3,
+        'contact_requests_per_week', 5,
+        'ai_analysis_enabled', false,
+        'document_uploads_enabled', false,
+        'premium_analytics', false
+      )
+    END
+  );
+
+  RETURN v_result;
+END;
+$function$;
+
+-- ============================================
+-- 4. CRON JOB
+-- Runs subscription-renewals hourly through invoke_edge_function, which
+-- calls an edge function with the service_role key.
+-- The functions URL and the key are project-specific, so they are read from
+-- vault at call time rather than written into the migration. Setup tooling
+-- stores them per project:
+--   SELECT vault.create_secret('https://<ref>.supabase.co/functions/v1', 'edge_functions_url');
+--   SELECT vault.create_secret('<service_role key>', 'edge_functions_service_role_key');
+-- Until both exist (e.g. on a local stack) calls are skipped with a notice.
+-- To revert: SELECT cron.unschedule('subscription-renewals');
+-- ============================================
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(
+  p_function text,
+  p_body jsonb DEFAULT '{}'::jsonb
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url text;
+  v_key text;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'edge_functions_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'edge_functions_service_role_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE NOTICE 'Edge function % not called: edge_functions_url or edge_functions_service_role_key is not in vault', p_function;
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(v_url, '/') || '/' || p_function,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body := p_body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.invoke_edge_function(text, jsonb) TO service_role;
+
+SELECT cron.schedule(
+  'subscription-renewals',
+  '0 * * * *',
+  $$SELECT public.invoke_edge_function('subscription-renewals')$$
+);
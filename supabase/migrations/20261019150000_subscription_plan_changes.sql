@@ -0,0 +1,64 @@
+-- ============================================
+-- PRORATED PLAN CHANGES
+-- lenco-subscriptions `change_plan` prorates against the current period
+-- (see _shared/subscription-proration.ts) and records each change here:
+--
+--   upgrade   -- 'immediate': the prorated difference is collected by mobile
+--                money; the plan switches when that payment succeeds
+--   downgrade -- 'wallet_credit': switches now and credits the unused
+--                difference to the wallet
+--             -- 'period_end': switches at the next renewal
+--   lateral   -- same cost; switches now
+--
+-- At most one change per subscription can be pending at a time.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.subscription_plan_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  from_plan_id uuid REFERENCES public.subscription_plans(id) ON DELETE SET NULL,
+  to_plan_id uuid NOT NULL REFERENCES public.subscription_plans(id) ON DELETE CASCADE,
+  direction text NOT NULL CHECK (direction IN ('upgrade', 'downgrade', 'lateral')),
+  mode text NOT NULL CHECK (mode IN ('immediate', 'wallet_credit', 'period_end')),
+  currency text NOT NULL,
+  remaining_fraction numeric NOT NULL DEFAULT 0,
+  unused_credit numeric NOT NULL DEFAULT 0,
+  new_plan_cost numeric NOT NULL DEFAULT 0,
+  -- Positive: collected from the subscriber. Negative: credited to them.
+  amount numeric NOT NULL DEFAULT 0,
+  -- Set when switching between monthly and yearly, which starts a new period
+  new_period_start timestamptz,
+  new_period_end timestamptz,
+  -- The upgrade payment, or the wallet credit for a downgrade
+  transaction_id uuid REFERENCES public.transactions(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'applied', 'cancelled', 'failed')),
+  effective_at timestamptz,
+  applied_at timestamptz,
+  failure_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_plan_changes_one_pending
+  ON public.subscription_plan_changes(subscription_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_subscription_plan_changes_user
+  ON public.subscription_plan_changes(user_id, created_at DESC);
+
+CREATE TRIGGER update_subscription_plan_changes_updated_at
+  BEFORE UPDATE ON public.subscription_plan_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.subscription_plan_changes ENABLE ROW LEVEL SECURITY;
+
+-- Changes are only written by the lenco-subscriptions edge function
+CREATE POLICY "Users can view their own plan changes"
+ON public.subscription_plan_changes FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all plan changes"
+ON public.subscription_plan_changes FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,135 @@
+-- ============================================
+-- FX RATES
+-- Exchange rates used by the `currency-converter` edge function.
+--
+--   fx_rates        -- the current rate for each currency, quoted against
+--                      USD (1 USD = rate units of quote_currency). Cross pairs
+--                      such as ZAR -> ZMW are derived from the two USD legs.
+--   fx_rate_history -- append-only log of every rate fetched, so a past
+--                      conversion can be traced to the exact rate it used
+--   fx_quotes       -- each conversion shown to a user. A checkout passes the
+--                      quote id to lenco-payments, which copies the rate onto
+--                      the transaction.
+--
+-- Rates are refreshed hourly by cron and on demand when the cached rate is
+-- older than the converter's staleness limit (see _shared/fx-rates.ts).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.fx_rate_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency text NOT NULL DEFAULT 'USD',
+  quote_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  source text NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rate_history_pair
+  ON public.fx_rate_history(base_currency, quote_currency, fetched_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  base_currency text NOT NULL DEFAULT 'USD',
+  quote_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  source text NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  -- The history row this rate was copied from
+  history_id uuid REFERENCES public.fx_rate_history(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (base_currency, quote_currency)
+);
+
+CREATE TRIGGER update_fx_rates_updated_at
+  BEFORE UPDATE ON public.fx_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.fx_quotes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  amount numeric NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  converted_amount numeric NOT NULL,
+  vat_rate numeric NOT NULL DEFAULT 0,
+  vat_amount numeric NOT NULL DEFAULT 0,
+  final_amount numeric NOT NULL,
+  -- The USD legs the rate was derived from (null for a USD side)
+  from_rate_history_id uuid REFERENCES public.fx_rate_history(id) ON DELETE SET NULL,
+  to_rate_history_id uuid REFERENCES public.fx_rate_history(id) ON DELETE SET NULL,
+  source text NOT NULL,
+  rate_fetched_at timestamptz NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_quotes_user
+  ON public.fx_quotes(user_id, created_at DESC);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_rate_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fx_quotes ENABLE ROW LEVEL SECURITY;
+
+-- Rates are public reference data; all writes go through the edge function
+CREATE POLICY "Anyone can view FX rates"
+ON public.fx_rates FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view FX rate history"
+ON public.fx_rate_history FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can view their own FX quotes"
+ON public.fx_quotes FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all FX quotes"
+ON public.fx_quotes FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- Seed rates so conversions work before the first refresh. Marked 'seed' so
+-- they are replaced by the first successful provider fetch.
+-- ============================================
+
+WITH seeded AS (
+  INSERT INTO public.fx_rate_history (base_currency, quote_currency, rate, source, fetched_at)
+  VALUES
+    ('USD', 'ZMW', 26.50, 'seed', now() - interval '1 day'),
+    ('USD', 'ZAR', 18.20, 'seed', now() - interval '1 day'),
+    ('USD', 'GBP', 0.79, 'seed', now() - interval '1 day'),
+    ('USD', 'EUR', 0.92, 'seed', now() - interval '1 day')
+  RETURNING id, base_currency, quote_currency, rate, source, fetched_at
+)
+INSERT INTO public.fx_rates (base_currency, quote_currency, rate, source, fetched_at, history_id)
+SELECT base_currency, quote_currency, rate, source, fetched_at, id FROM seeded
+ON CONFLICT (base_currency, quote_currency) DO NOTHING;
+
+-- ============================================
+-- Rate used by each transaction, for auditing the price shown at checkout
+-- ============================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS fx_quote_id uuid REFERENCES public.fx_quotes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS fx_rate numeric,
+  ADD COLUMN IF NOT EXISTS original_amount numeric,
+  ADD COLUMN IF NOT EXISTS original_currency text;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_fx_quote
+  ON public.transactions(fx_quote_id)
+  WHERE fx_quote_id IS NOT NULL;
+
+-- ============================================
+-- Hourly refresh
+-- invoke_edge_function reads the functions URL and key from vault (see
+-- 20261019140000_subscription_dunning.sql).
+-- To revert: SELECT cron.unschedule('fx-rates-refresh');
+-- ============================================
+
+SELECT cron.schedule(
+  'fx-rates-refresh',
+  '15 * * * *',
+  $$SELECT public.invoke_edge_function('currency-converter', '{"action": "refresh"}'::jsonb)$$
+);
@@ -0,0 +1,493 @@
+-- ============================================
+-- TAX RULES
+-- Replaces the rates hardcoded in ZRATaxCalculator with rules finance can
+-- manage from /admin/tax. Rules are effective-dated: to change a rate, end
+-- the old rule and add a new one from the date it takes effect, so past
+-- orders can still be explained.
+--
+-- The calculator lives in supabase/functions/_shared/tax-engine.ts and is
+-- used by both the UI and the payment edge functions. The resulting tax
+-- lines are stored on orders, order_milestones and transactions.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  name text NOT NULL,
+  tax_type text NOT NULL CHECK (tax_type IN ('vat', 'withholding', 'other')),
+  -- 'added': charged to the buyer on top of the price
+  -- 'withheld': deducted from the seller's payout
+  treatment text NOT NULL CHECK (treatment IN ('added', 'withheld')),
+  category text NOT NULL DEFAULT 'all'
+    CHECK (category IN ('all', 'service', 'sale', 'subscription')),
+  rate numeric NOT NULL CHECK (rate >= 0 AND rate <= 1),
+  -- Applies only when the amount exceeds the threshold (in `currency` when set)
+  threshold_amount numeric NOT NULL DEFAULT 0 CHECK (threshold_amount >= 0),
+  currency text,
+  requires_vat_registered boolean NOT NULL DEFAULT false,
+  effective_from date NOT NULL DEFAULT CURRENT_DATE,
+  effective_to date,
+  is_active boolean NOT NULL DEFAULT true,
+  priority integer NOT NULL DEFAULT 0,
+  description text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_effective
+  ON public.tax_rules(effective_from, effective_to)
+  WHERE is_active;
+
+CREATE TRIGGER update_tax_rules_updated_at
+  BEFORE UPDATE ON public.tax_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+-- Rules are shown to buyers at checkout; changes go through admin_save_tax_rule
+CREATE POLICY "Anyone can view tax rules"
+ON public.tax_rules FOR SELECT
+USING (true);
+
+-- Seed with the rates ZRATaxCalculator used to apply. VAT is now only charged
+-- by VAT-registered sellers.
+INSERT INTO public.tax_rules (code, name, tax_type, treatment, category, rate, threshold_amount, currency, requires_vat_registered, effective_from, description)
+VALUES
+  ('VAT', 'VAT', 'vat', 'added', 'all', 0.16, 0, NULL, true, DATE '2026-01-01',
+   'Standard rated VAT, charged by VAT-registered sellers'),
+  ('WHT', 'Withholding Tax', 'withholding', 'withheld', 'service', 0.15, 10000, 'ZMW', false, DATE '2026-01-01',
+   'Withheld from service payments above K10,000');
+
+-- ============================================
+-- SELLER VAT STATUS
+-- Set by finance (admin_set_vat_status); sellers cannot change it themselves.
+-- ============================================
+
+ALTER TABLE public.sme_profiles
+  ADD COLUMN IF NOT EXISTS vat_status text NOT NULL DEFAULT 'not_registered'
+    CHECK (vat_status IN ('not_registered', 'registered', 'exempt')),
+  ADD COLUMN IF NOT EXISTS tpin text;
+
+CREATE OR REPLACE FUNCTION public.protect_sme_vat_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.vat_status := 'not_registered';
+  ELSE
+    NEW.vat_status := OLD.vat_status;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_sme_vat_status
+  BEFORE INSERT OR UPDATE ON public.sme_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_sme_vat_status();
+
+-- ============================================
+-- TAX ON ORDERS AND TRANSACTIONS
+-- tax_amount is added tax (paid by the client), withholding_amount is
+-- withheld from the provider. provider_payout is what an accepted order or
+-- milestone releases to the provider.
+-- ============================================
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS provider_payout numeric
+    GENERATED ALWAYS AS (agreed_price + tax_amount - withholding_amount) STORED;
+
+ALTER TABLE public.order_milestones
+  ADD COLUMN IF NOT EXISTS tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount numeric NOT NULL DEFAULT 0;
+
+ALTER TABLE public.order_milestones
+  ADD COLUMN IF NOT EXISTS provider_payout numeric
+    GENERATED ALWAYS AS (amount + tax_amount - withholding_amount) STORED;
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS tax_lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount numeric NOT NULL DEFAULT 0;
+
+-- ============================================
+-- ADMIN RPCs
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.admin_save_tax_rule(
+  p_rule jsonb,
+  p_rule_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_before jsonb;
+  v_rule public.tax_rules;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_rule_id IS NULL THEN
+    INSERT INTO public.tax_rules (
+      code, name, tax_type, treatment, category, rate, threshold_amount, currency,
+      requires_vat_registered, effective_from, effective_to, is_active, priority, description, created_by
+    )
+    VALUES (
+      upper(p_rule->>'code'),
+      p_rule->>'name',
+      p_rule->>'tax_type',
+      p_rule->>'treatment',
+      COALESCE(p_rule->>'category', 'all'),
+      (p_rule->>'rate')::numeric,
+      COALESCE((p_rule->>'threshold_amount')::numeric, 0),
+      NULLIF(p_rule->>'currency', ''),
+      COALESCE((p_rule->>'requires_vat_registered')::boolean, false),
+      COALESCE((p_rule->>'effective_from')::date, CURRENT_DATE),
+      (p_rule->>'effective_to')::date,
+      COALESCE((p_rule->>'is_active')::boolean, true),
+      COALESCE((p_rule->>'priority')::integer, 0),
+      p_rule->>'description',
+      v_actor_id
+    )
+    RETURNING * INTO v_rule;
+  ELSE
+    SELECT to_jsonb(r) INTO v_before FROM public.tax_rules r WHERE id = p_rule_id FOR UPDATE;
+    IF v_before IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Tax rule not found');
+    END IF;
+
+    -- Only keys present in p_rule are changed
+    UPDATE public.tax_rules
+    SET code = CASE WHEN p_rule ? 'code' THEN upper(p_rule->>'code') ELSE code END,
+        name = CASE WHEN p_rule ? 'name' THEN p_rule->>'name' ELSE name END,
+        tax_type = CASE WHEN p_rule ? 'tax_type' THEN p_rule->>'tax_type' ELSE tax_type END,
+        treatment = CASE WHEN p_rule ? 'treatment' THEN p_rule->>'treatment' ELSE treatment END,
+        category = CASE WHEN p_rule ? 'category' THEN p_rule->>'category' ELSE category END,
+        rate = CASE WHEN p_rule ? 'rate' THEN (p_rule->>'rate')::numeric ELSE rate END,
+        threshold_amount = CASE WHEN p_rule ? 'threshold_amount' THEN (p_rule->>'threshold_amount')::numeric ELSE threshold_amount END,
+        currency = CASE WHEN p_rule ? 'currency' THEN NULLIF(p_rule->>'currency', '') ELSE currency END,
+        requires_vat_registered = CASE WHEN p_rule ? 'requires_vat_registered' THEN (p_rule->>'requires_vat_registered')::boolean ELSE requires_vat_registered END,
+        effective_from = CASE WHEN p_rule ? 'effective_from' THEN (p_rule->>'effective_from')::date ELSE effective_from END,
+        effective_to = CASE WHEN p_rule ? 'effective_to' THEN (p_rule->>'effective_to')::date ELSE effective_to END,
+        is_active = CASE WHEN p_rule ? 'is_active' THEN (p_rule->>'is_active')::boolean ELSE is_active END,
+        priority = CASE WHEN p_rule ? 'priority' THEN (p_rule->>'priority')::integer ELSE priority END,
+        description = CASE WHEN p_rule ? 'description' THEN p_rule->>'description' ELSE description END
+    WHERE id = p_rule_id
+    RETURNING * INTO v_rule;
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    CASE WHEN p_rule_id IS NULL THEN 'tax_rule_created' ELSE 'tax_rule_updated' END,
+    'tax_rules',
+    v_rule.id::text,
+    v_before,
+    to_jsonb(v_rule),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true, 'rule', to_jsonb(v_rule));
+EXCEPTION
+  WHEN check_violation OR not_null_violation OR invalid_text_representation THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid tax rule: ' || SQLERRM);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_vat_status(
+  p_profile_id uuid,
+  p_vat_status text,
+  p_tpin text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_before record;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_vat_status NOT IN ('not_registered', 'registered', 'exempt') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'VAT status must be not_registered, registered or exempt');
+  END IF;
+
+  SELECT vat_status, tpin INTO v_before FROM public.sme_profiles WHERE profile_id = p_profile_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'SME profile not found');
+  END IF;
+
+  UPDATE public.sme_profiles
+  SET vat_status = p_vat_status,
+      tpin = COALESCE(p_tpin, tpin)
+  WHERE profile_id = p_profile_id;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'vat_status_changed',
+    'sme_profiles',
+    p_profile_id::text,
+    jsonb_build_object('vat_status', v_before.vat_status, 'tpin', v_before.tpin),
+    jsonb_build_object('vat_status', p_vat_status, 'tpin', COALESCE(p_tpin, v_before.tpin)),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_save_tax_rule(jsonb, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_vat_status(uuid, text, text) TO authenticated;
+
+-- ============================================
+-- ESCROW RELEASE PAYS provider_payout
+-- Accepting (or releasing in a dispute) now pays the provider the agreed
+-- price plus the VAT they charged, less tax withheld.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.auto_accept_delivered_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_milestone record;
+  v_result jsonb;
+  v_count integer := 0;
+BEGIN
+  FOR v_order IN
+    SELECT id, provider_payout, escrow_amount
+    FROM public.orders
+    WHERE status = 'delivered'
+      AND payment_schedule = 'single'
+      AND escrow_status = 'held'
+      AND auto_accept_at IS NOT NULL
+      AND auto_accept_at <= now()
+    ORDER BY auto_accept_at
+    LIMIT 200
+  LOOP
+    BEGIN
+      v_result := public.settle_order_escrow(
+        v_order.id,
+        LEAST(v_order.provider_payout, v_order.escrow_amount),
+        0,
+        'accepted',
+        'auto_accept'
+      );
+      IF COALESCE((v_result->>'success')::boolean, false) THEN
+        v_count := v_count + 1;
+      ELSE
+        RAISE WARNING 'Auto-accept skipped order %: %', v_order.id, v_result->>'error';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-accept failed for order %: %', v_order.id, SQLERRM;
+    END;
+  END LOOP;
+
+  FOR v_milestone IN
+    SELECT id, provider_payout, escrow_amount
+    FROM public.order_milestones
+    WHERE status = 'delivered'
+      AND escrow_status = 'held'
+      AND auto_accept_at IS NOT NULL
+      AND auto_accept_at <= now()
+    ORDER BY auto_accept_at
+    LIMIT 200
+  LOOP
+    BEGIN
+      v_result := public.settle_milestone_escrow(
+        v_milestone.id,
+        LEAST(v_milestone.provider_payout, v_milestone.escrow_amount),
+        0,
+        'approved',
+        'auto_accept'
+      );
+      IF COALESCE((v_result->>'success')::boolean, false) THEN
+        v_count := v_count + 1;
+      ELSE
+        RAISE WARNING 'Auto-accept skipped milestone %: %', v_milestone.id, v_result->>'error';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Auto-accept failed for milestone %: %', v_milestone.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.admin_resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_provider_amount numeric DEFAULT NULL,
+  p_client_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_dispute record;
+  v_order record;
+  v_milestone record;
+  v_escrow numeric;
+  v_base numeric;
+  v_provider numeric;
+  v_client numeric;
+  v_result jsonb;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_outcome NOT IN ('refund', 'split', 'release') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Outcome must be refund, split or release');
+  END IF;
+
+  SELECT * INTO v_dispute FROM public.disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dispute not found');
+  END IF;
+
+  IF v_dispute.status = 'resolved' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Dispute is already resolved');
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = v_dispute.order_id;
+
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    SELECT * INTO v_milestone FROM public.order_milestones WHERE id = v_dispute.milestone_id;
+    v_escrow := v_milestone.escrow_amount;
+    v_base := v_milestone.provider_payout;
+  ELSE
+    v_escrow := v_order.escrow_amount;
+    v_base := v_order.provider_payout;
+  END IF;
+
+  -- A release pays what acceptance would have; a refund returns everything
+  -- the client paid, platform fee included
+  IF p_outcome = 'refund' THEN
+    v_provider := 0;
+    v_client := v_escrow;
+  ELSIF p_outcome = 'release' THEN
+    v_provider := LEAST(v_base, v_escrow);
+    v_client := 0;
+  ELSE
+    v_provider := COALESCE(p_provider_amount, 0);
+    v_client := COALESCE(p_client_amount, 0);
+    IF v_provider <= 0 OR v_client <= 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'A split must pay both parties');
+    END IF;
+  END IF;
+
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    v_result := public.settle_milestone_escrow(
+      v_dispute.milestone_id,
+      v_provider,
+      v_client,
+      CASE WHEN p_outcome = 'refund' THEN 'refunded' ELSE 'approved' END,
+      'dispute_' || p_outcome
+    );
+  ELSE
+    v_result := public.settle_order_escrow(
+      v_order.id,
+      v_provider,
+      v_client,
+      CASE p_outcome WHEN 'refund' THEN 'refunded' WHEN 'release' THEN 'accepted' ELSE 'resolved' END,
+      'dispute_' || p_outcome
+    );
+  END IF;
+
+  IF NOT COALESCE((v_result->>'success')::boolean, false) THEN
+    RETURN v_result;
+  END IF;
+
+  -- sync_order_milestone_status keeps an order 'disputed' when nothing else
+  -- has started; settle it here once no milestone is disputed any more
+  IF v_dispute.milestone_id IS NOT NULL THEN
+    UPDATE public.orders o
+    SET status = CASE
+          WHEN EXISTS (SELECT 1 FROM public.order_milestones m WHERE m.order_id = o.id AND m.status = 'pending')
+            THEN 'pending'
+          ELSE 'refunded'
+        END
+    WHERE o.id = v_order.id
+      AND o.status = 'disputed'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.order_milestones m WHERE m.order_id = o.id AND m.status = 'disputed'
+      );
+  END IF;
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      provider_amount = v_provider,
+      client_amount = v_client,
+      provider_transaction_id = (v_result->>'provider_transaction_id')::uuid,
+      client_transaction_id = (v_result->>'client_transaction_id')::uuid,
+      resolution_note = p_note,
+      resolved_by = v_actor_id,
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'dispute_resolved',
+    'disputes',
+    p_dispute_id::text,
+    jsonb_build_object('status', v_dispute.status, 'escrow_amount', v_escrow),
+    jsonb_build_object(
+      'status', 'resolved',
+      'outcome', p_outcome,
+      'provider_amount', v_provider,
+      'client_amount', v_client
+    ),
+    jsonb_build_object(
+      'order_id', v_order.id,
+      'milestone_id', v_dispute.milestone_id,
+      'note', p_note,
+      'result', v_result
+    )
+  );
+
+  RETURN v_result || jsonb_build_object('outcome', p_outcome, 'provider_amount', v_provider, 'client_amount', v_client);
+END;
+$$;
@@ -0,0 +1,188 @@
+-- ============================================
+-- TRANSACTION DOCUMENTS
+-- Invoices and receipts issued when a payment succeeds. Numbers are
+-- sequential per document type and year (INV-2026-000001, RCT-2026-000001)
+-- as ZRA expects, the PDF lives in the private 'transaction-documents'
+-- bucket and the row keeps a snapshot of the amounts it shows.
+-- ============================================
+
+-- ============================================
+-- 1. NUMBER SEQUENCES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.document_number_sequences (
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'receipt')),
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_type, year)
+);
+
+ALTER TABLE public.document_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view document number sequences"
+ON public.document_number_sequences FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 2. DOCUMENTS
+-- issued_by is the seller (NULL when the platform itself sold, e.g. a
+-- subscription); issued_to is the payer. net_amount is what the seller is
+-- left with: the amount paid less the platform fee and withholding tax.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.transaction_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'receipt')),
+  document_number TEXT NOT NULL UNIQUE,
+  issued_to UUID NOT NULL,
+  issued_by UUID,
+  currency TEXT NOT NULL,
+  gross_amount NUMERIC(12,2) NOT NULL,
+  platform_fee NUMERIC(12,2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  withholding_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  file_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'issued')),
+  issued_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (transaction_id, document_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_documents_issued_to ON public.transaction_documents(issued_to);
+CREATE INDEX IF NOT EXISTS idx_transaction_documents_issued_by ON public.transaction_documents(issued_by);
+
+ALTER TABLE public.transaction_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_transaction_documents_updated_at
+BEFORE UPDATE ON public.transaction_documents
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the caller paid or received the transaction. Takes text so storage
+-- folder names can be passed without a failing cast, and only answers for
+-- auth.uid() so it cannot be called to probe other users' payments.
+CREATE OR REPLACE FUNCTION public.is_transaction_party(p_transaction_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.transactions t
+    WHERE t.id::text = p_transaction_id
+      AND auth.uid() IN (t.user_id, t.recipient_id)
+  );
+$$;
+
+CREATE POLICY "Transaction parties and admins can view documents"
+ON public.transaction_documents FOR SELECT
+USING (
+  public.is_transaction_party(transaction_id::text)
+  OR public.has_role(auth.uid(), 'admin')
+);
+
+-- Writes only happen through the edge functions (service role)
+
+-- ============================================
+-- 3. NUMBER ALLOCATION
+-- Returns the document for a transaction, creating it with the next number
+-- when there is none yet. Serialised per transaction so a webhook and a
+-- download racing each other cannot burn two numbers for one document.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_transaction_document(
+  p_transaction_id uuid,
+  p_document_type text
+)
+RETURNS public.transaction_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_document public.transaction_documents;
+  v_tx public.transactions;
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_number integer;
+BEGIN
+  IF p_document_type NOT IN ('invoice', 'receipt') THEN
+    RAISE EXCEPTION 'Unknown document type %', p_document_type;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('transaction_document:' || p_transaction_id::text));
+
+  SELECT * INTO v_document
+  FROM public.transaction_documents
+  WHERE transaction_id = p_transaction_id AND document_type = p_document_type;
+
+  IF FOUND THEN
+    RETURN v_document;
+  END IF;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id;
+  END IF;
+  IF v_tx.status <> 'successful' THEN
+    RAISE EXCEPTION 'Documents are only issued for successful transactions';
+  END IF;
+
+  INSERT INTO public.document_number_sequences (document_type, year, last_number)
+  VALUES (p_document_type, v_year, 1)
+  ON CONFLICT (document_type, year) DO UPDATE
+    SET last_number = document_number_sequences.last_number + 1,
+        updated_at = now()
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO public.transaction_documents (
+    transaction_id, document_type, document_number, issued_to, issued_by,
+    currency, gross_amount, platform_fee, tax_amount, withholding_amount,
+    net_amount, tax_lines
+  ) VALUES (
+    v_tx.id,
+    p_document_type,
+    CASE p_document_type WHEN 'invoice' THEN 'INV' ELSE 'RCT' END
+      || '-' || v_year || '-' || lpad(v_number::text, 6, '0'),
+    v_tx.user_id,
+    v_tx.recipient_id,
+    v_tx.currency,
+    v_tx.amount,
+    COALESCE(v_tx.platform_fee, 0),
+    COALESCE(v_tx.tax_amount, 0),
+    COALESCE(v_tx.withholding_amount, 0),
+    v_tx.amount - COALESCE(v_tx.platform_fee, 0) - COALESCE(v_tx.withholding_amount, 0),
+    COALESCE(v_tx.tax_lines, '[]'::jsonb)
+  )
+  RETURNING * INTO v_document;
+
+  RETURN v_document;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_transaction_document(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_transaction_document(uuid, text) TO service_role;
+
+-- ============================================
+-- 4. STORAGE
+-- Files are stored as <transaction_id>/<document_number>.pdf and only
+-- uploaded by the service role.
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('transaction-documents', 'transaction-documents', false, 5242880, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['application/pdf'];
+
+CREATE POLICY "Transaction parties and admins can read documents"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'transaction-documents'
+  AND (
+    public.is_transaction_party((storage.foldername(name))[1])
+    OR public.has_role(auth.uid(), 'admin')
+  )
+);
@@ -0,0 +1,52 @@
+-- ============================================
+-- AI USAGE
+-- One row per model call made through supabase/functions/_shared/ai.ts,
+-- including retries and failed attempts, with the tokens used and an
+-- estimated cost in USD. Written by edge functions with the service role.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER GENERATED ALWAYS AS (prompt_tokens + completion_tokens) STORED,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL CHECK (status IN ('success', 'invalid_output', 'error')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  latency_ms INTEGER,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_user ON public.ai_usage_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_feature ON public.ai_usage_events(feature, created_at DESC);
+
+ALTER TABLE public.ai_usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage"
+ON public.ai_usage_events FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all AI usage"
+ON public.ai_usage_events FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- DAILY TOTALS
+-- ============================================
+CREATE OR REPLACE VIEW public.ai_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  feature,
+  date_trunc('day', created_at)::date AS day,
+  COUNT(*) AS calls,
+  COUNT(*) FILTER (WHERE status <> 'success') AS failed_calls,
+  SUM(total_tokens) AS total_tokens,
+  SUM(cost_usd) AS cost_usd
+FROM public.ai_usage_events
+GROUP BY user_id, feature, date_trunc('day', created_at)::date;
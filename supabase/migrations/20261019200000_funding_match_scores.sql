@@ -0,0 +1,26 @@
+-- ============================================
+-- FUNDING MATCH SUB-SCORES
+-- funding_matches are scored by rules (supabase/functions/_shared/
+-- funding-match.ts) instead of by the model. Each match keeps the score and
+-- reason of every criterion (sector, stage, region, amount, deadline), the
+-- version of the rules that produced it, and whether the action plan was
+-- written by the model or by the rules.
+-- ============================================
+
+ALTER TABLE public.funding_matches
+  ADD COLUMN IF NOT EXISTS sub_scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS scoring_version TEXT,
+  ADD COLUMN IF NOT EXISTS narrative_source TEXT NOT NULL DEFAULT 'rules'
+    CHECK (narrative_source IN ('rules', 'ai')),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Matches stored before the rules existed carry model-made or placeholder
+-- scores; drop them so they are not shown as if they were comparable
+DELETE FROM public.funding_matches WHERE scoring_version IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_funding_matches_sme_score
+ON public.funding_matches(sme_id, match_score DESC);
+
+CREATE TRIGGER update_funding_matches_updated_at
+BEFORE UPDATE ON public.funding_matches
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
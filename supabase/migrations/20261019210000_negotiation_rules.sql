@@ -0,0 +1,122 @@
+-- ============================================
+-- NEGOTIATION RULES
+-- negotiation-manager now enforces turn-taking, expiry and the provider's
+-- floor price (see supabase/functions/_shared/negotiation-rules.ts). Direct
+-- writes to negotiations are closed so the rules cannot be bypassed, and a
+-- cron sweep expires negotiations past their deadline and tells both
+-- parties.
+-- ============================================
+
+-- ============================================
+-- 1. TURNS
+-- awaiting_party is the side expected to counter or accept next. The
+-- listing price is the provider's opening offer, so open negotiations wait
+-- on the client until the client has countered.
+-- ============================================
+ALTER TABLE public.negotiations
+  ADD COLUMN IF NOT EXISTS awaiting_party TEXT CHECK (awaiting_party IN ('client', 'provider')),
+  ADD COLUMN IF NOT EXISTS last_offer_by UUID,
+  ADD COLUMN IF NOT EXISTS offer_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.negotiations n
+SET awaiting_party = CASE
+      WHEN last_message.sender_id = n.client_id THEN 'provider'
+      ELSE 'client'
+    END,
+    last_offer_by = COALESCE(last_message.sender_id, n.provider_id)
+FROM (
+  SELECT DISTINCT ON (negotiation_id) negotiation_id, sender_id
+  FROM public.negotiation_messages
+  WHERE message_type = 'counter_offer'
+  ORDER BY negotiation_id, created_at DESC
+) last_message
+WHERE last_message.negotiation_id = n.id
+  AND n.awaiting_party IS NULL;
+
+UPDATE public.negotiations
+SET awaiting_party = 'client', last_offer_by = provider_id
+WHERE awaiting_party IS NULL;
+
+ALTER TABLE public.negotiations ALTER COLUMN awaiting_party SET DEFAULT 'client';
+ALTER TABLE public.negotiations ALTER COLUMN awaiting_party SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_negotiations_open_expiry
+ON public.negotiations(expires_at)
+WHERE status IN ('pending', 'countered');
+
+-- Offers, acceptance and rejection go through negotiation-manager
+DROP POLICY IF EXISTS "Clients can create negotiations" ON public.negotiations;
+DROP POLICY IF EXISTS "Participants can update negotiations" ON public.negotiations;
+
+-- ============================================
+-- 2. FLOOR PRICES
+-- The lowest price a provider accepts for a service. Kept out of services,
+-- which anyone can read, so clients cannot see it.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.service_price_floors (
+  service_id UUID PRIMARY KEY REFERENCES public.services(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL,
+  floor_price NUMERIC(12,2) NOT NULL CHECK (floor_price >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.service_price_floors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Providers can view their floor prices"
+ON public.service_price_floors FOR SELECT
+USING (auth.uid() = provider_id);
+
+CREATE TRIGGER update_service_price_floors_updated_at
+BEFORE UPDATE ON public.service_price_floors
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 3. EXPIRY SWEEP
+-- ============================================
+CREATE OR REPLACE FUNCTION public.expire_negotiations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH expired AS (
+    UPDATE public.negotiations
+    SET status = 'expired'
+    WHERE status IN ('pending', 'countered')
+      AND expires_at IS NOT NULL
+      AND expires_at <= now()
+    RETURNING id, client_id, provider_id, service_title, current_price
+  ), notified AS (
+    INSERT INTO public.notifications (user_id, title, body, type, data)
+    SELECT party.user_id,
+           'Negotiation expired',
+           format('The negotiation for "%s" expired without an agreement. The last offer was K%s.',
+                  e.service_title, to_char(e.current_price, 'FM999999990.00')),
+           'message',
+           jsonb_build_object('negotiation_id', e.id)
+    FROM expired e
+    CROSS JOIN LATERAL (VALUES (e.client_id), (e.provider_id)) AS party(user_id)
+    RETURNING 1
+  )
+  SELECT count(*) INTO v_count FROM expired;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_negotiations() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_negotiations() TO service_role;
+
+-- ============================================
+-- 4. CRON JOB
+-- To revert: SELECT cron.unschedule('expire-negotiations');
+-- ============================================
+SELECT cron.schedule(
+  'expire-negotiations',
+  '*/15 * * * *',
+  $$SELECT public.expire_negotiations()$$
+);
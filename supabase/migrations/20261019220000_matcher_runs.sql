@@ -0,0 +1,30 @@
+-- ============================================
+-- MATCHER RUNS
+-- One row per search made with the freelancer or industry matcher by a
+-- signed-in user: what they asked for and the ranked results, with each
+-- result's sub-scores, so the search can be reopened later. Written by the
+-- `freelancer-matcher` and `industry-matcher` edge functions.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.matcher_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  matcher TEXT NOT NULL CHECK (matcher IN ('freelancer', 'industry')),
+  criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  result_count INTEGER NOT NULL DEFAULT 0,
+  scoring_version TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_matcher_runs_user ON public.matcher_runs(user_id, matcher, created_at DESC);
+
+ALTER TABLE public.matcher_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own matcher runs"
+ON public.matcher_runs FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own matcher runs"
+ON public.matcher_runs FOR DELETE
+USING (auth.uid() = user_id);
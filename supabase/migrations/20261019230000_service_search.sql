@@ -0,0 +1,180 @@
+-- ============================================
+-- SERVICE SEARCH
+-- Full-text search over marketplace services for the `marketplace-manager`
+-- `search` action: a weighted search vector (title > skills > description),
+-- a numeric delivery time to sort on, a keyset-paginated search function and
+-- facet counts for the filters.
+-- ============================================
+
+-- Title outranks skills, which outrank the description
+CREATE OR REPLACE FUNCTION public.service_search_vector(p_title TEXT, p_description TEXT, p_skills TEXT[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(array_to_string(p_skills, ' '), '')), 'B')
+      || setweight(to_tsvector('english', coalesce(p_description, '')), 'C')
+$$;
+
+-- '3-5 days' -> 3, '2 weeks' -> 14, '48 hours' -> 2; NULL when there is no
+-- number to go on ('Varies')
+CREATE OR REPLACE FUNCTION public.service_delivery_days(p_delivery_time TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN n IS NULL THEN NULL
+    WHEN p_delivery_time ~* 'hour' THEN GREATEST(CEIL(n / 24.0)::INTEGER, 1)
+    WHEN p_delivery_time ~* 'week' THEN n * 7
+    WHEN p_delivery_time ~* 'month' THEN n * 30
+    ELSE n
+  END
+  FROM (SELECT substring(p_delivery_time FROM '(\d+)')::INTEGER AS n) parsed
+$$;
+
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (public.service_search_vector(title, description, skills)) STORED,
+  ADD COLUMN IF NOT EXISTS delivery_days INTEGER
+    GENERATED ALWAYS AS (public.service_delivery_days(delivery_time)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_services_search_vector ON public.services USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_services_active_category ON public.services(category) WHERE is_active = true;
+
+-- ============================================
+-- SEARCH
+-- Returns one page of matching service ids, best first. `p_pattern` is an
+-- ILIKE pattern on the title so partial words still match; `p_location` is
+-- an ILIKE pattern too. Callers build both with escapeLikePattern.
+--
+-- Every sort is turned into a single ascending key, so the next page starts
+-- after the last row's (sort_key, id) whatever the sort.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.search_services(
+  p_query TEXT DEFAULT NULL,
+  p_pattern TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_provider_type TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_after_key TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, rank REAL, sort_key TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT CASE WHEN coalesce(trim(p_query), '') = '' THEN NULL
+                ELSE websearch_to_tsquery('english', p_query) END AS tsq
+  ),
+  matched AS (
+    SELECT s.id, s.price, s.rating, s.reviews_count, s.created_at, s.delivery_days, s.is_featured,
+           CASE WHEN q.tsq IS NULL THEN 0 ELSE ts_rank_cd(s.search_vector, q.tsq) END::REAL AS rank
+    FROM public.services s, q
+    WHERE s.is_active = true
+      AND (
+        q.tsq IS NULL
+        OR s.search_vector @@ q.tsq
+        OR (p_pattern IS NOT NULL AND s.title ILIKE p_pattern)
+      )
+      AND (p_category IS NULL OR s.category = p_category)
+      AND (p_provider_type IS NULL OR coalesce(s.provider_type, 'freelancer') = p_provider_type)
+      AND (p_location IS NULL OR s.location ILIKE p_location)
+      AND (p_min_price IS NULL OR s.price >= p_min_price)
+      AND (p_max_price IS NULL OR s.price <= p_max_price)
+  ),
+  keyed AS (
+    SELECT m.id, m.rank,
+      CASE p_sort
+        WHEN 'price_asc' THEN m.price
+        WHEN 'price_desc' THEN -m.price
+        -- Rating first, then how many reviews back it up
+        WHEN 'rating' THEN -(coalesce(m.rating, 0) * 100000 + LEAST(coalesce(m.reviews_count, 0), 99999))
+        WHEN 'newest' THEN -EXTRACT(EPOCH FROM m.created_at)::NUMERIC
+        -- Services without a delivery time go last
+        WHEN 'delivery' THEN coalesce(m.delivery_days, 100000)::NUMERIC
+        -- Relevance; featured and well-rated services break ties
+        ELSE -(m.rank::NUMERIC * 100 + CASE WHEN m.is_featured THEN 1 ELSE 0 END + coalesce(m.rating, 0) / 10)
+      END AS sort_key
+    FROM matched m
+  )
+  SELECT k.id, k.rank, k.sort_key::TEXT
+  FROM keyed k
+  WHERE p_after_key IS NULL OR (k.sort_key, k.id) > (p_after_key::NUMERIC, p_after_id)
+  ORDER BY k.sort_key, k.id
+  LIMIT LEAST(GREATEST(coalesce(p_limit, 20), 1), 50)
+$$;
+
+-- ============================================
+-- FACETS
+-- Counts per category, provider type and location for the same search.
+-- Each facet ignores its own filter, so picking a category still shows how
+-- many results the other categories would have.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.service_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_pattern TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_provider_type TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT CASE WHEN coalesce(trim(p_query), '') = '' THEN NULL
+                ELSE websearch_to_tsquery('english', p_query) END AS tsq
+  ),
+  base AS (
+    SELECT s.category,
+           coalesce(s.provider_type, 'freelancer') AS provider_type,
+           s.location,
+           s.price,
+           (p_category IS NULL OR s.category = p_category) AS in_category,
+           (p_provider_type IS NULL OR coalesce(s.provider_type, 'freelancer') = p_provider_type) AS in_provider_type,
+           (p_location IS NULL OR s.location ILIKE p_location) AS in_location
+    FROM public.services s, q
+    WHERE s.is_active = true
+      AND (
+        q.tsq IS NULL
+        OR s.search_vector @@ q.tsq
+        OR (p_pattern IS NOT NULL AND s.title ILIKE p_pattern)
+      )
+      AND (p_min_price IS NULL OR s.price >= p_min_price)
+      AND (p_max_price IS NULL OR s.price <= p_max_price)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM base WHERE in_category AND in_provider_type AND in_location),
+    'category', (
+      SELECT coalesce(jsonb_object_agg(category, n), '{}'::jsonb)
+      FROM (SELECT category, count(*) AS n FROM base WHERE in_provider_type AND in_location GROUP BY category) c
+    ),
+    'provider_type', (
+      SELECT coalesce(jsonb_object_agg(provider_type, n), '{}'::jsonb)
+      FROM (SELECT provider_type, count(*) AS n FROM base WHERE in_category AND in_location GROUP BY provider_type) p
+    ),
+    'location', (
+      SELECT coalesce(jsonb_object_agg(location, n), '{}'::jsonb)
+      FROM (
+        SELECT location, count(*) AS n FROM base
+        WHERE in_category AND in_provider_type AND location IS NOT NULL
+        GROUP BY location ORDER BY count(*) DESC LIMIT 20
+      ) l
+    ),
+    'price', (
+      SELECT jsonb_build_object('min', min(price), 'max', max(price))
+      FROM base WHERE in_category AND in_provider_type AND in_location
+    )
+  )
+$$;
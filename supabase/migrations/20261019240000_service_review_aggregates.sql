@@ -0,0 +1,375 @@
+-- ============================================
+-- SERVICE REVIEW AGGREGATES
+-- Reviews can only be left by the client of a finished order for that
+-- service, one per order. services.rating / reviews_count and
+-- profiles.rating / reviews_count are kept in sync by triggers, counting
+-- verified reviews that have not been hidden by moderation.
+--
+-- Reviews are written through the `review-manager` edge function: clients
+-- submit, providers reply (response / response_at) and anyone signed in can
+-- report abuse. Admins settle reports with admin_resolve_review_report.
+-- ============================================
+
+-- ============================================
+-- 1. EXISTING REVIEWS
+-- Only reviews tied to a finished order of the reviewer count as verified;
+-- when an order was reviewed twice the earliest review keeps the order.
+-- ============================================
+ALTER TABLE public.service_reviews
+  ADD COLUMN IF NOT EXISTS hidden_at timestamptz,
+  ADD COLUMN IF NOT EXISTS hidden_reason text;
+
+UPDATE public.service_reviews r
+SET order_id = NULL
+WHERE r.order_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.service_reviews earlier
+    WHERE earlier.order_id = r.order_id
+      AND (earlier.created_at, earlier.id) < (r.created_at, r.id)
+  );
+
+UPDATE public.service_reviews r
+SET is_verified_purchase = EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = r.order_id
+    AND o.client_id = r.reviewer_id
+    AND o.service_id = r.service_id
+    AND o.status IN ('accepted', 'completed')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_reviews_order
+  ON public.service_reviews(order_id) WHERE order_id IS NOT NULL;
+
+-- ============================================
+-- 2. VERIFIED PURCHASE ENFORCEMENT
+-- New reviews must name a finished order the reviewer paid for. Who and what
+-- a review is about never changes afterwards.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_verified_service_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.order_id IS NULL THEN
+      RAISE EXCEPTION 'Reviews must reference a completed order';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.orders o
+      WHERE o.id = NEW.order_id
+        AND o.client_id = NEW.reviewer_id
+        AND o.service_id = NEW.service_id
+        AND o.status IN ('accepted', 'completed')
+    ) THEN
+      RAISE EXCEPTION 'Only the client of a completed order can review this service';
+    END IF;
+
+    NEW.is_verified_purchase := true;
+    NEW.response := NULL;
+    NEW.response_at := NULL;
+    NEW.hidden_at := NULL;
+    NEW.hidden_reason := NULL;
+  ELSE
+    IF NEW.service_id IS DISTINCT FROM OLD.service_id
+      OR NEW.order_id IS DISTINCT FROM OLD.order_id
+      OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id THEN
+      RAISE EXCEPTION 'A review cannot be moved to another order, service or reviewer';
+    END IF;
+
+    NEW.is_verified_purchase := OLD.is_verified_purchase;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_verified_service_review ON public.service_reviews;
+CREATE TRIGGER enforce_verified_service_review
+  BEFORE INSERT OR UPDATE ON public.service_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_verified_service_review();
+
+-- ============================================
+-- 3. RATING AGGREGATES
+-- ============================================
+CREATE OR REPLACE FUNCTION public.refresh_provider_rating(p_provider_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles p
+  SET rating = agg.rating,
+      reviews_count = agg.reviews_count
+  FROM (
+    SELECT COALESCE(ROUND(AVG(r.rating)::numeric, 2), 0) AS rating,
+           count(r.id)::integer AS reviews_count
+    FROM public.service_reviews r
+    JOIN public.services s ON s.id = r.service_id
+    WHERE s.provider_id = p_provider_id
+      AND r.is_verified_purchase
+      AND r.hidden_at IS NULL
+  ) agg
+  WHERE p.id = p_provider_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_service_rating(p_service_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_provider_id uuid;
+BEGIN
+  UPDATE public.services s
+  SET rating = agg.rating,
+      reviews_count = agg.reviews_count
+  FROM (
+    SELECT COALESCE(ROUND(AVG(r.rating)::numeric, 2), 0) AS rating,
+           count(r.id)::integer AS reviews_count
+    FROM public.service_reviews r
+    WHERE r.service_id = p_service_id
+      AND r.is_verified_purchase
+      AND r.hidden_at IS NULL
+  ) agg
+  WHERE s.id = p_service_id
+  RETURNING s.provider_id INTO v_provider_id;
+
+  IF v_provider_id IS NOT NULL THEN
+    PERFORM public.refresh_provider_rating(v_provider_id);
+  END IF;
+END;
+$$;
+
+-- Keeps the aggregates current and mirrors the review onto the order
+CREATE OR REPLACE FUNCTION public.sync_service_review_aggregates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_service_rating(OLD.service_id);
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.refresh_service_rating(NEW.service_id);
+
+  IF NEW.order_id IS NOT NULL THEN
+    UPDATE public.orders
+    SET client_rating = NEW.rating,
+        client_review = NEW.review
+    WHERE id = NEW.order_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_service_review_aggregates ON public.service_reviews;
+CREATE TRIGGER sync_service_review_aggregates
+  AFTER INSERT OR UPDATE OF rating, review, hidden_at OR DELETE ON public.service_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_service_review_aggregates();
+
+-- Reviews cascade away with their service; the provider total still has to drop
+CREATE OR REPLACE FUNCTION public.refresh_provider_rating_on_service_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_provider_rating(OLD.provider_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_provider_rating_on_service_delete ON public.services;
+CREATE TRIGGER refresh_provider_rating_on_service_delete
+  AFTER DELETE ON public.services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_provider_rating_on_service_delete();
+
+REVOKE EXECUTE ON FUNCTION public.refresh_service_rating(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.refresh_provider_rating(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_service_rating(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_provider_rating(uuid) TO service_role;
+
+-- Backfill every service and provider
+SELECT public.refresh_service_rating(id) FROM public.services;
+SELECT public.refresh_provider_rating(p.id)
+FROM public.profiles p
+WHERE p.reviews_count > 0 OR p.rating > 0;
+
+-- ============================================
+-- 4. REVIEW POLICIES
+-- Writes go through review-manager; hidden reviews are only visible to their
+-- author and admins.
+-- ============================================
+DROP POLICY IF EXISTS "Anyone can view reviews" ON public.service_reviews;
+DROP POLICY IF EXISTS "Users can create reviews" ON public.service_reviews;
+DROP POLICY IF EXISTS "Reviewers can update their own reviews" ON public.service_reviews;
+
+CREATE POLICY "Anyone can view visible reviews"
+ON public.service_reviews FOR SELECT
+USING (hidden_at IS NULL);
+
+CREATE POLICY "Reviewers can view their own reviews"
+ON public.service_reviews FOR SELECT
+USING (auth.uid() = reviewer_id);
+
+CREATE POLICY "Admins can view all reviews"
+ON public.service_reviews FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 5. ABUSE REPORTS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.service_review_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id uuid NOT NULL REFERENCES public.service_reviews(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL,
+  reason text NOT NULL
+    CHECK (reason IN ('spam', 'offensive', 'fake', 'conflict_of_interest', 'other')),
+  details text CHECK (details IS NULL OR char_length(details) <= 1000),
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolution_note text,
+  resolved_by uuid,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (review_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_review_reports_status
+  ON public.service_review_reports(status, created_at);
+
+CREATE TRIGGER update_service_review_reports_updated_at
+  BEFORE UPDATE ON public.service_review_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.service_review_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are filed by review-manager and settled through
+-- admin_resolve_review_report
+CREATE POLICY "Reporters can view their reports"
+ON public.service_review_reports FOR SELECT
+USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Admins can view all review reports"
+ON public.service_review_reports FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Settles every open report on the review. 'hide' takes the review out of
+-- listings and aggregates, 'restore' puts a hidden review back, 'dismiss'
+-- leaves it as it is.
+CREATE OR REPLACE FUNCTION public.admin_resolve_review_report(
+  p_report_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_report record;
+  v_review record;
+  v_resolved integer;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_decision NOT IN ('hide', 'restore', 'dismiss') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Decision must be hide, restore or dismiss');
+  END IF;
+
+  SELECT * INTO v_report FROM public.service_review_reports WHERE id = p_report_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Report not found');
+  END IF;
+
+  SELECT * INTO v_review FROM public.service_reviews WHERE id = v_report.review_id FOR UPDATE;
+
+  IF p_decision = 'hide' THEN
+    UPDATE public.service_reviews
+    SET hidden_at = COALESCE(hidden_at, now()),
+        hidden_reason = COALESCE(p_note, v_report.reason)
+    WHERE id = v_review.id;
+  ELSIF p_decision = 'restore' THEN
+    UPDATE public.service_reviews
+    SET hidden_at = NULL,
+        hidden_reason = NULL
+    WHERE id = v_review.id;
+  END IF;
+
+  UPDATE public.service_review_reports
+  SET status = CASE WHEN p_decision = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+      resolution_note = p_note,
+      resolved_by = v_actor_id,
+      resolved_at = now()
+  WHERE review_id = v_review.id
+    AND (status = 'open' OR id = p_report_id);
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'review_report_resolved',
+    'service_reviews',
+    v_review.id::text,
+    jsonb_build_object('hidden_at', v_review.hidden_at),
+    jsonb_build_object('decision', p_decision),
+    jsonb_build_object('report_id', p_report_id, 'reports_resolved', v_resolved, 'note', p_note)
+  );
+
+  RETURN jsonb_build_object('success', true, 'review_id', v_review.id, 'reports_resolved', v_resolved);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_resolve_review_report(uuid, text, text) TO authenticated;
+
+-- ============================================
+-- 6. PROFILE VIEWS
+-- Expose the provider aggregates on the directory and public profile.
+-- ============================================
+CREATE OR REPLACE VIEW public.v_directory_profiles WITH (security_invoker = on) AS
+SELECT p.id, p.display_name, p.full_name, p.bio,
+  p.avatar_url AS profile_photo_url,
+  COALESCE(p.account_type, p.role_type) AS account_type,
+  COALESCE(p.role_type, p.account_type) AS role_type,
+  p.city, p.country, p.is_profile_complete, p.profile_completed, p.onboarding_step, p.created_at,
+  p.linkedin_url AS linkedin, p.website_url AS website,
+  sp.business_name, sp.industry, sp.business_stage,
+  sp.services_or_products AS sme_services, sp.areas_served, sp.top_needs,
+  sp.team_size_range, sp.funding_needed, sp.sectors_of_interest AS sme_sectors,
+  fp.professional_title, fp.primary_skills, fp.experience_level, fp.availability,
+  fp.work_mode, fp.rate_type, fp.rate_range,
+  fp.services_offered AS freelancer_services, fp.preferred_industries, fp.languages, fp.certifications,
+  ip.investor_type, ip.ticket_size_range, ip.sectors_of_interest AS investor_sectors,
+  ip.investment_stage_focus, ip.geo_focus, ip.thesis, ip.investment_preferences,
+  gp.institution_name, gp.institution_type, gp.department_or_unit, gp.contact_person_title,
+  gp.mandate_areas, gp.services_or_programmes, gp.collaboration_interests,
+  p.rating, p.reviews_count
+FROM public.profiles p
+  LEFT JOIN public.sme_profiles sp ON sp.profile_id = p.id
+  LEFT JOIN public.freelancer_profiles fp ON fp.profile_id = p.id
+  LEFT JOIN public.investor_profiles ip ON ip.profile_id = p.id
+  LEFT JOIN public.government_profiles gp ON gp.profile_id = p.id
+WHERE COALESCE(p.account_type, p.role_type) IS NOT NULL;
+
+CREATE OR REPLACE VIEW public.v_public_profiles WITH (security_invoker = on) AS
+SELECT * FROM public.v_directory_profiles;
@@ -0,0 +1,318 @@
+-- ============================================
+-- SERVICE CATALOGUE
+-- Providers sell a service as up to three packages (basic / standard /
+-- premium), each with its own price, delivery time and number of revisions,
+-- plus optional paid add-ons. A service starts as a draft, is submitted for
+-- review and is listed once an admin publishes it. Providers can pause a
+-- listing (vacation mode), optionally until a date.
+--
+-- services.is_active stays the "listed" flag every marketplace query already
+-- filters on; it is now derived from the moderation status and the pause.
+-- services.price / min_price / max_price / delivery_time follow the packages
+-- so cards, search and sorting keep working unchanged.
+--
+-- Catalogue writes go through the `marketplace-manager` edge function.
+-- ============================================
+
+-- ============================================
+-- 1. MODERATION STATUS AND PAUSE
+-- ============================================
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'pending_review', 'published', 'rejected')),
+  ADD COLUMN IF NOT EXISTS moderation_note text,
+  ADD COLUMN IF NOT EXISTS submitted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paused_at timestamptz,
+  ADD COLUMN IF NOT EXISTS paused_until timestamptz,
+  ADD COLUMN IF NOT EXISTS pause_message text CHECK (pause_message IS NULL OR char_length(pause_message) <= 500);
+
+-- Listings that were live stay live; ones switched off count as paused
+UPDATE public.services
+SET status = 'published',
+    published_at = COALESCE(published_at, created_at),
+    paused_at = CASE WHEN is_active IS DISTINCT FROM true THEN now() END;
+
+CREATE INDEX IF NOT EXISTS idx_services_status ON public.services(status, submitted_at);
+
+CREATE OR REPLACE FUNCTION public.derive_service_is_active()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_active := NEW.status = 'published' AND NEW.paused_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS derive_service_is_active ON public.services;
+CREATE TRIGGER derive_service_is_active
+  BEFORE INSERT OR UPDATE ON public.services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.derive_service_is_active();
+
+-- Providers can still see their drafts, paused and rejected listings
+CREATE POLICY "Service providers can view their own services"
+ON public.services FOR SELECT
+USING (auth.uid() = provider_id);
+
+CREATE POLICY "Admins can view all services"
+ON public.services FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Direct writes would skip moderation; deleting stays allowed
+DROP POLICY IF EXISTS "Service providers can insert their own services" ON public.services;
+DROP POLICY IF EXISTS "Service providers can update their own services" ON public.services;
+
+-- ============================================
+-- 2. PACKAGES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.service_packages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  tier text NOT NULL CHECK (tier IN ('basic', 'standard', 'premium')),
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description text CHECK (description IS NULL OR char_length(description) <= 1000),
+  price numeric NOT NULL CHECK (price > 0),
+  delivery_days integer NOT NULL CHECK (delivery_days BETWEEN 1 AND 365),
+  -- NULL means unlimited revisions
+  revisions integer CHECK (revisions IS NULL OR revisions >= 0),
+  features text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (service_id, tier)
+);
+
+CREATE TRIGGER update_service_packages_updated_at
+  BEFORE UPDATE ON public.service_packages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.service_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view packages of listed services"
+ON public.service_packages FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.services s WHERE s.id = service_id AND s.is_active = true));
+
+CREATE POLICY "Service providers can view their own packages"
+ON public.service_packages FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.services s WHERE s.id = service_id AND s.provider_id = auth.uid()));
+
+CREATE POLICY "Admins can view all packages"
+ON public.service_packages FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 3. ADD-ONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.service_addons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id uuid NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(title) BETWEEN 1 AND 80),
+  description text CHECK (description IS NULL OR char_length(description) <= 500),
+  price numeric NOT NULL CHECK (price >= 0),
+  extra_delivery_days integer NOT NULL DEFAULT 0 CHECK (extra_delivery_days BETWEEN 0 AND 90),
+  position integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_addons_service ON public.service_addons(service_id, position);
+
+CREATE TRIGGER update_service_addons_updated_at
+  BEFORE UPDATE ON public.service_addons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.service_addons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view add-ons of listed services"
+ON public.service_addons FOR SELECT
+USING (
+  is_active = true
+  AND EXISTS (SELECT 1 FROM public.services s WHERE s.id = service_id AND s.is_active = true)
+);
+
+CREATE POLICY "Service providers can view their own add-ons"
+ON public.service_addons FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.services s WHERE s.id = service_id AND s.provider_id = auth.uid()));
+
+CREATE POLICY "Admins can view all add-ons"
+ON public.service_addons FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 4. LISTING PRICE FOLLOWS THE PACKAGES
+-- Services without packages keep the price the provider set.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.sync_service_package_summary()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service_id uuid;
+BEGIN
+  v_service_id := COALESCE(NEW.service_id, OLD.service_id);
+
+  UPDATE public.services s
+  SET price = agg.min_price,
+      min_price = agg.min_price,
+      max_price = agg.max_price,
+      delivery_time = agg.min_days || CASE WHEN agg.min_days = 1 THEN ' day' ELSE ' days' END
+  FROM (
+    SELECT min(price) AS min_price, max(price) AS max_price, min(delivery_days) AS min_days
+    FROM public.service_packages
+    WHERE service_id = v_service_id
+  ) agg
+  WHERE s.id = v_service_id
+    AND agg.min_price IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_service_package_summary ON public.service_packages;
+CREATE TRIGGER sync_service_package_summary
+  AFTER INSERT OR UPDATE OR DELETE ON public.service_packages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_service_package_summary();
+
+-- ============================================
+-- 5. CHOSEN PACKAGE ON NEGOTIATIONS AND ORDERS
+-- Orders keep a copy of the package and add-ons so later catalogue edits
+-- don't change what was bought.
+-- ============================================
+ALTER TABLE public.negotiations
+  ADD COLUMN IF NOT EXISTS package_id uuid REFERENCES public.service_packages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS addon_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS package_id uuid REFERENCES public.service_packages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS package_tier text,
+  ADD COLUMN IF NOT EXISTS package_name text,
+  ADD COLUMN IF NOT EXISTS revisions_included integer,
+  ADD COLUMN IF NOT EXISTS delivery_days integer,
+  ADD COLUMN IF NOT EXISTS addons jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================
+-- 6. MODERATION
+-- Publishes or rejects a service waiting for review. Rejected services go
+-- back to the provider with the note; they can edit and resubmit.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_moderate_service(
+  p_service_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_service record;
+  v_status text;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_decision NOT IN ('publish', 'reject') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Decision must be publish or reject');
+  END IF;
+
+  IF p_decision = 'reject' AND COALESCE(trim(p_note), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Tell the provider why the service was rejected');
+  END IF;
+
+  SELECT * INTO v_service FROM public.services WHERE id = p_service_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Service not found');
+  END IF;
+
+  IF v_service.status <> 'pending_review' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Service is not waiting for review');
+  END IF;
+
+  v_status := CASE WHEN p_decision = 'publish' THEN 'published' ELSE 'rejected' END;
+
+  UPDATE public.services
+  SET status = v_status,
+      moderation_note = p_note,
+      published_at = CASE WHEN p_decision = 'publish' THEN now() ELSE published_at END
+  WHERE id = p_service_id;
+
+  INSERT INTO public.notifications (user_id, title, body, type, data)
+  VALUES (
+    v_service.provider_id,
+    CASE WHEN p_decision = 'publish' THEN 'Service published' ELSE 'Service needs changes' END,
+    CASE WHEN p_decision = 'publish'
+      THEN format('"%s" is now listed on the marketplace.', v_service.title)
+      ELSE format('"%s" was not published: %s', v_service.title, p_note)
+    END,
+    'system',
+    jsonb_build_object('service_id', p_service_id)
+  );
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'service_moderated',
+    'services',
+    p_service_id::text,
+    jsonb_build_object('status', v_service.status),
+    jsonb_build_object('status', v_status),
+    jsonb_build_object('note', p_note)
+  );
+
+  RETURN jsonb_build_object('success', true, 'status', v_status);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_moderate_service(uuid, text, text) TO authenticated;
+
+-- ============================================
+-- 7. END OF VACATION
+-- Resumes paused listings whose pause end date has passed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.resume_paused_services()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.services
+  SET paused_at = NULL,
+      paused_until = NULL,
+      pause_message = NULL
+  WHERE paused_at IS NOT NULL
+    AND paused_until IS NOT NULL
+    AND paused_until <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resume_paused_services() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.resume_paused_services() TO service_role;
+
+-- ============================================
+-- 8. CRON JOB
+-- To revert: SELECT cron.unschedule('resume-paused-services');
+-- ============================================
+SELECT cron.schedule(
+  'resume-paused-services',
+  '5 * * * *',
+  $$SELECT public.resume_paused_services()$$
+);
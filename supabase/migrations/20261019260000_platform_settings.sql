@@ -0,0 +1,198 @@
+-- ============================================
+-- PLATFORM SETTINGS
+-- Switches admins flip from /admin/settings. Each key has a fixed shape:
+--   maintenance_mode     boolean  non-admins see a maintenance page and edge
+--                                 functions refuse changes
+--   signup_enabled       boolean  new accounts can be created
+--   payment_test_mode    boolean  collections go to the Lenco sandbox
+--   ai_features_enabled  boolean  AI edge functions answer
+--   fee_overrides        object   { order_fee_percent, default_fee_percent },
+--                                 each a percentage or null for the built-in
+--                                 rate (3% on negotiated orders, 5% when no
+--                                 fee tier matches)
+--
+-- Anyone may read the settings, since the browser needs them before sign
+-- in. Changes go through admin_update_platform_setting, which validates the
+-- value and writes an audit entry.
+-- ============================================
+
+-- ============================================
+-- 1. TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.platform_settings (
+  key text PRIMARY KEY CHECK (key IN (
+    'maintenance_mode', 'signup_enabled', 'payment_test_mode', 'ai_features_enabled', 'fee_overrides'
+  )),
+  value jsonb NOT NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_platform_settings_updated_at
+  BEFORE UPDATE ON public.platform_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.platform_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read platform settings"
+ON public.platform_settings FOR SELECT
+USING (true);
+
+INSERT INTO public.platform_settings (key, value) VALUES
+  ('maintenance_mode', 'false'),
+  ('signup_enabled', 'true'),
+  ('payment_test_mode', 'false'),
+  ('ai_features_enabled', 'true'),
+  ('fee_overrides', '{"order_fee_percent": null, "default_fee_percent": null}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Reads a boolean setting; missing or malformed values count as `p_default`
+CREATE OR REPLACE FUNCTION public.platform_setting_enabled(p_key text, p_default boolean)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE WHEN jsonb_typeof(value) = 'boolean' THEN (value)::text::boolean END
+     FROM public.platform_settings WHERE key = p_key),
+    p_default
+  );
+$$;
+
+-- ============================================
+-- 2. ADMIN UPDATE
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_update_platform_setting(
+  p_key text,
+  p_value jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_before jsonb;
+  v_field text;
+  v_percent jsonb;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_key IN ('maintenance_mode', 'signup_enabled', 'payment_test_mode', 'ai_features_enabled') THEN
+    IF jsonb_typeof(p_value) IS DISTINCT FROM 'boolean' THEN
+      RETURN jsonb_build_object('success', false, 'error', format('%s must be true or false', p_key));
+    END IF;
+  ELSIF p_key = 'fee_overrides' THEN
+    IF jsonb_typeof(p_value) IS DISTINCT FROM 'object'
+       OR EXISTS (SELECT 1 FROM jsonb_object_keys(p_value) k WHERE k NOT IN ('order_fee_percent', 'default_fee_percent')) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Fee overrides take order_fee_percent and default_fee_percent');
+    END IF;
+    FOREACH v_field IN ARRAY ARRAY['order_fee_percent', 'default_fee_percent'] LOOP
+      v_percent := p_value -> v_field;
+      IF v_percent IS NOT NULL AND jsonb_typeof(v_percent) <> 'null'
+         AND (jsonb_typeof(v_percent) <> 'number' OR (v_percent)::text::numeric NOT BETWEEN 0 AND 50) THEN
+        RETURN jsonb_build_object('success', false, 'error', format('%s must be a percentage from 0 to 50', v_field));
+      END IF;
+    END LOOP;
+    p_value := jsonb_build_object(
+      'order_fee_percent', COALESCE(p_value -> 'order_fee_percent', 'null'::jsonb),
+      'default_fee_percent', COALESCE(p_value -> 'default_fee_percent', 'null'::jsonb)
+    );
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown setting');
+  END IF;
+
+  SELECT value INTO v_before FROM public.platform_settings WHERE key = p_key FOR UPDATE;
+
+  INSERT INTO public.platform_settings (key, value, updated_by)
+  VALUES (p_key, p_value, v_actor_id)
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'platform_setting_updated',
+    'platform_settings',
+    p_key,
+    jsonb_build_object('value', v_before),
+    jsonb_build_object('value', p_value),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true, 'value', p_value);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_update_platform_setting(text, jsonb) TO authenticated;
+
+-- ============================================
+-- 3. SIGNUP SWITCH
+-- Refuses new auth users while signups are off, whichever client calls
+-- the auth API.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.enforce_signup_enabled()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.platform_setting_enabled('signup_enabled', true) THEN
+    RAISE EXCEPTION 'New signups are currently closed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_signup_enabled ON auth.users;
+CREATE TRIGGER enforce_signup_enabled
+  BEFORE INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_signup_enabled();
+
+-- ============================================
+-- 4. DEFAULT FEE OVERRIDE
+-- calculate_platform_fee falls back to the default_fee_percent override
+-- before the built-in 5% when no tier matches.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.calculate_platform_fee(p_amount NUMERIC, p_currency TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_fee_percentage NUMERIC;
+BEGIN
+  SELECT fee_percentage INTO v_fee_percentage
+  FROM public.platform_fee_tiers
+  WHERE currency = p_currency
+    AND is_active = true
+    AND p_amount >= min_amount
+    AND (max_amount IS NULL OR p_amount <= max_amount)
+  LIMIT 1;
+
+  IF v_fee_percentage IS NULL THEN
+    SELECT CASE WHEN jsonb_typeof(value -> 'default_fee_percent') = 'number'
+                THEN (value ->> 'default_fee_percent')::numeric END
+    INTO v_fee_percentage
+    FROM public.platform_settings
+    WHERE key = 'fee_overrides';
+  END IF;
+
+  IF v_fee_percentage IS NULL THEN
+    v_fee_percentage := 5.00; -- Default 5%
+  END IF;
+
+  RETURN ROUND(p_amount * (v_fee_percentage / 100), 2);
+END;
+$$;
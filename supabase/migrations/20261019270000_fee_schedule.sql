@@ -0,0 +1,389 @@
+-- ============================================
+-- FEE SCHEDULE
+-- Platform fee tiers become an admin-managed schedule, edited in /admin/fees:
+--   * tiers apply to one transaction type (direct service purchases or
+--     negotiated orders) or to 'all', and can be scheduled with
+--     effective_from / effective_to
+--   * discounts take a percentage off the fee for one provider, or for every
+--     provider on a subscription plan
+--
+-- The calculation lives in supabase/functions/_shared/fee-schedule.ts, which
+-- the payment edge functions and the admin simulator share;
+-- calculate_platform_fee below mirrors it for SQL callers. Every change goes
+-- through an admin RPC that writes an audit entry.
+-- ============================================
+
+-- ============================================
+-- 1. TIERS
+-- ============================================
+ALTER TABLE public.platform_fee_tiers
+  ADD COLUMN IF NOT EXISTS transaction_type text NOT NULL DEFAULT 'all'
+    CHECK (transaction_type IN ('all', 'service_purchase', 'order')),
+  ADD COLUMN IF NOT EXISTS effective_from timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS effective_to timestamptz,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.platform_fee_tiers
+  ADD CONSTRAINT platform_fee_tiers_amount_range
+    CHECK (min_amount >= 0 AND (max_amount IS NULL OR max_amount >= min_amount)),
+  ADD CONSTRAINT platform_fee_tiers_percentage_range
+    CHECK (fee_percentage >= 0 AND fee_percentage <= 50),
+  ADD CONSTRAINT platform_fee_tiers_effective_range
+    CHECK (effective_to IS NULL OR effective_to > effective_from);
+
+-- The existing tiers only ever priced direct service purchases; negotiated
+-- orders keep the order fee until an order tier is added
+UPDATE public.platform_fee_tiers
+SET transaction_type = 'service_purchase',
+    effective_from = created_at;
+
+CREATE TRIGGER update_platform_fee_tiers_updated_at
+  BEFORE UPDATE ON public.platform_fee_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_platform_fee_tiers_lookup
+  ON public.platform_fee_tiers (currency, transaction_type, effective_from)
+  WHERE is_active = true;
+
+-- Scheduled and disabled tiers are only visible to admins
+CREATE POLICY "Admins can view all platform fee tiers"
+ON public.platform_fee_tiers FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 2. DISCOUNTS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.platform_fee_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('provider', 'plan')),
+  provider_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id uuid REFERENCES public.subscription_plans(id) ON DELETE CASCADE,
+  -- Percentage taken off the fee, not off the amount
+  discount_percent numeric NOT NULL CHECK (discount_percent > 0 AND discount_percent <= 100),
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  effective_to timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (
+    (scope = 'provider' AND provider_id IS NOT NULL AND plan_id IS NULL)
+    OR (scope = 'plan' AND plan_id IS NOT NULL AND provider_id IS NULL)
+  ),
+  CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+CREATE TRIGGER update_platform_fee_discounts_updated_at
+  BEFORE UPDATE ON public.platform_fee_discounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_platform_fee_discounts_provider
+  ON public.platform_fee_discounts (provider_id) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_platform_fee_discounts_plan
+  ON public.platform_fee_discounts (plan_id) WHERE is_active = true;
+
+ALTER TABLE public.platform_fee_discounts ENABLE ROW LEVEL SECURITY;
+
+-- Edge functions read discounts with the service role; changes go through
+-- admin_save_fee_discount
+CREATE POLICY "Admins can view fee discounts"
+ON public.platform_fee_discounts FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 3. ADMIN RPCs
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_save_fee_tier(
+  p_tier jsonb,
+  p_tier_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_before jsonb;
+  v_tier public.platform_fee_tiers;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_tier_id IS NULL THEN
+    INSERT INTO public.platform_fee_tiers (
+      currency, transaction_type, min_amount, max_amount, fee_percentage,
+      effective_from, effective_to, is_active, created_by
+    )
+    VALUES (
+      upper(COALESCE(p_tier->>'currency', 'ZMW')),
+      COALESCE(p_tier->>'transaction_type', 'all'),
+      COALESCE((p_tier->>'min_amount')::numeric, 0),
+      (p_tier->>'max_amount')::numeric,
+      (p_tier->>'fee_percentage')::numeric,
+      COALESCE((p_tier->>'effective_from')::timestamptz, now()),
+      (p_tier->>'effective_to')::timestamptz,
+      COALESCE((p_tier->>'is_active')::boolean, true),
+      v_actor_id
+    )
+    RETURNING * INTO v_tier;
+  ELSE
+    SELECT to_jsonb(t) INTO v_before FROM public.platform_fee_tiers t WHERE id = p_tier_id FOR UPDATE;
+    IF v_before IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Fee tier not found');
+    END IF;
+
+    -- Only keys present in p_tier are changed
+    UPDATE public.platform_fee_tiers
+    SET currency = CASE WHEN p_tier ? 'currency' THEN upper(p_tier->>'currency') ELSE currency END,
+        transaction_type = CASE WHEN p_tier ? 'transaction_type' THEN p_tier->>'transaction_type' ELSE transaction_type END,
+        min_amount = CASE WHEN p_tier ? 'min_amount' THEN (p_tier->>'min_amount')::numeric ELSE min_amount END,
+        max_amount = CASE WHEN p_tier ? 'max_amount' THEN (p_tier->>'max_amount')::numeric ELSE max_amount END,
+        fee_percentage = CASE WHEN p_tier ? 'fee_percentage' THEN (p_tier->>'fee_percentage')::numeric ELSE fee_percentage END,
+        effective_from = CASE WHEN p_tier ? 'effective_from' THEN (p_tier->>'effective_from')::timestamptz ELSE effective_from END,
+        effective_to = CASE WHEN p_tier ? 'effective_to' THEN (p_tier->>'effective_to')::timestamptz ELSE effective_to END,
+        is_active = CASE WHEN p_tier ? 'is_active' THEN (p_tier->>'is_active')::boolean ELSE is_active END
+    WHERE id = p_tier_id
+    RETURNING * INTO v_tier;
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    CASE WHEN p_tier_id IS NULL THEN 'fee_tier_created' ELSE 'fee_tier_updated' END,
+    'platform_fee_tiers',
+    v_tier.id::text,
+    v_before,
+    to_jsonb(v_tier),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true, 'tier', to_jsonb(v_tier));
+EXCEPTION
+  WHEN check_violation OR not_null_violation OR invalid_text_representation OR invalid_datetime_format THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid fee tier: ' || SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_save_fee_tier(jsonb, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_save_fee_discount(
+  p_discount jsonb,
+  p_discount_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_before jsonb;
+  v_discount public.platform_fee_discounts;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_discount_id IS NULL THEN
+    INSERT INTO public.platform_fee_discounts (
+      scope, provider_id, plan_id, discount_percent, effective_from, effective_to, is_active, note, created_by
+    )
+    VALUES (
+      p_discount->>'scope',
+      NULLIF(p_discount->>'provider_id', '')::uuid,
+      NULLIF(p_discount->>'plan_id', '')::uuid,
+      (p_discount->>'discount_percent')::numeric,
+      COALESCE((p_discount->>'effective_from')::timestamptz, now()),
+      (p_discount->>'effective_to')::timestamptz,
+      COALESCE((p_discount->>'is_active')::boolean, true),
+      NULLIF(p_discount->>'note', ''),
+      v_actor_id
+    )
+    RETURNING * INTO v_discount;
+  ELSE
+    SELECT to_jsonb(d) INTO v_before FROM public.platform_fee_discounts d WHERE id = p_discount_id FOR UPDATE;
+    IF v_before IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Fee discount not found');
+    END IF;
+
+    -- Who a discount is for is fixed; end it and add a new one instead
+    UPDATE public.platform_fee_discounts
+    SET discount_percent = CASE WHEN p_discount ? 'discount_percent' THEN (p_discount->>'discount_percent')::numeric ELSE discount_percent END,
+        effective_from = CASE WHEN p_discount ? 'effective_from' THEN (p_discount->>'effective_from')::timestamptz ELSE effective_from END,
+        effective_to = CASE WHEN p_discount ? 'effective_to' THEN (p_discount->>'effective_to')::timestamptz ELSE effective_to END,
+        is_active = CASE WHEN p_discount ? 'is_active' THEN (p_discount->>'is_active')::boolean ELSE is_active END,
+        note = CASE WHEN p_discount ? 'note' THEN NULLIF(p_discount->>'note', '') ELSE note END
+    WHERE id = p_discount_id
+    RETURNING * INTO v_discount;
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    CASE WHEN p_discount_id IS NULL THEN 'fee_discount_created' ELSE 'fee_discount_updated' END,
+    'platform_fee_discounts',
+    v_discount.id::text,
+    v_before,
+    to_jsonb(v_discount),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true, 'discount', to_jsonb(v_discount));
+EXCEPTION
+  WHEN check_violation OR not_null_violation OR foreign_key_violation
+    OR invalid_text_representation OR invalid_datetime_format THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid fee discount: ' || SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_save_fee_discount(jsonb, uuid) TO authenticated;
+
+-- Past fee-bearing payments for the /admin/fees simulator: paid orders
+-- (priced on the agreed price) and direct service purchases (priced on the
+-- amount before added tax), with the provider's plan at the time of asking
+CREATE OR REPLACE FUNCTION public.admin_fee_simulation_sample(
+  p_since timestamptz,
+  p_limit integer DEFAULT 500
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows jsonb;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  WITH sample AS (
+    SELECT o.id, 'order' AS transaction_type, o.agreed_price AS amount, o.currency,
+           o.platform_fee, o.provider_id, o.created_at
+    FROM public.orders o
+    WHERE o.created_at >= p_since
+      AND o.escrow_status <> 'unfunded'
+    UNION ALL
+    SELECT t.id, 'service_purchase', t.amount - COALESCE(t.tax_amount, 0), t.currency,
+           t.platform_fee, t.recipient_id, t.created_at
+    FROM public.transactions t
+    WHERE t.created_at >= p_since
+      AND t.transaction_type = 'service_purchase'
+      AND t.order_id IS NULL
+      AND t.status = 'successful'
+    ORDER BY created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 2000)
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'transaction_type', s.transaction_type,
+    'amount', s.amount,
+    'currency', s.currency,
+    'platform_fee', COALESCE(s.platform_fee, 0),
+    'provider_id', s.provider_id,
+    'provider_plan_id', (
+      SELECT sub.plan_id FROM public.subscriptions sub
+      WHERE sub.user_id = s.provider_id AND sub.status IN ('active', 'trialing')
+      ORDER BY sub.current_period_end DESC
+      LIMIT 1
+    ),
+    'created_at', s.created_at
+  ) ORDER BY s.created_at DESC), '[]'::jsonb)
+  INTO v_rows
+  FROM sample s;
+
+  RETURN jsonb_build_object('success', true, 'rows', v_rows);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_fee_simulation_sample(timestamptz, integer) TO authenticated;
+
+-- ============================================
+-- 4. FEE CALCULATION
+-- Mirrors calculatePlatformFee in _shared/fee-schedule.ts: a tier for the
+-- exact transaction type beats an 'all' tier, then the most recently
+-- effective one wins; without a tier the fee override, then the built-in
+-- rate (3% on orders, 5% otherwise), applies. The provider's best discount comes off the result.
+-- The two-argument version is dropped so existing calls resolve to this one.
+-- ============================================
+DROP FUNCTION IF EXISTS public.calculate_platform_fee(numeric, text);
+
+CREATE OR REPLACE FUNCTION public.calculate_platform_fee(
+  p_amount numeric,
+  p_currency text,
+  p_transaction_type text DEFAULT 'service_purchase',
+  p_provider_id uuid DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_fee_percentage numeric;
+  v_override_key text;
+  v_discount numeric;
+BEGIN
+  SELECT fee_percentage INTO v_fee_percentage
+  FROM public.platform_fee_tiers
+  WHERE currency = p_currency
+    AND is_active = true
+    AND transaction_type IN (p_transaction_type, 'all')
+    AND effective_from <= p_at
+    AND (effective_to IS NULL OR effective_to > p_at)
+    AND p_amount >= min_amount
+    AND (max_amount IS NULL OR p_amount <= max_amount)
+  ORDER BY (transaction_type = p_transaction_type) DESC, effective_from DESC, min_amount DESC
+  LIMIT 1;
+
+  -- Orders fall back to the order fee, everything else to the default fee
+  v_override_key := CASE WHEN p_transaction_type = 'order' THEN 'order_fee_percent' ELSE 'default_fee_percent' END;
+
+  IF v_fee_percentage IS NULL THEN
+    SELECT CASE WHEN jsonb_typeof(value -> v_override_key) = 'number'
+                THEN (value ->> v_override_key)::numeric END
+    INTO v_fee_percentage
+    FROM public.platform_settings
+    WHERE key = 'fee_overrides';
+  END IF;
+
+  IF v_fee_percentage IS NULL THEN
+    v_fee_percentage := CASE WHEN p_transaction_type = 'order' THEN 3.00 ELSE 5.00 END;
+  END IF;
+
+  IF p_provider_id IS NOT NULL THEN
+    SELECT max(d.discount_percent) INTO v_discount
+    FROM public.platform_fee_discounts d
+    WHERE d.is_active = true
+      AND d.effective_from <= p_at
+      AND (d.effective_to IS NULL OR d.effective_to > p_at)
+      AND (
+        d.provider_id = p_provider_id
+        OR d.plan_id IN (
+          SELECT sub.plan_id FROM public.subscriptions sub
+          WHERE sub.user_id = p_provider_id AND sub.status IN ('active', 'trialing')
+        )
+      );
+
+    IF v_discount IS NOT NULL THEN
+      v_fee_percentage := v_fee_percentage * (1 - v_discount / 100);
+    END IF;
+  END IF;
+
+  RETURN ROUND(p_amount * (v_fee_percentage / 100), 2);
+END;
+$$;
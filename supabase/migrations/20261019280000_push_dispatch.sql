@@ -0,0 +1,180 @@
+-- ============================================
+-- WEB PUSH DISPATCH
+-- Every new notifications row is pushed to its user's active webpush
+-- subscriptions by the push-dispatcher edge function, so negotiation
+-- updates and payment confirmations reach phones with the PWA closed.
+--
+-- Browsers register through register_push_subscription. push-dispatcher
+-- records each delivery on the subscription and deactivates it when the
+-- push service answers 404/410 (unsubscribed or expired).
+-- ============================================
+
+-- ============================================
+-- 1. SUBSCRIPTION DELIVERY STATE
+-- ============================================
+ALTER TABLE public.push_subscriptions
+  ADD COLUMN IF NOT EXISTS last_success_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_failure_at timestamptz,
+  ADD COLUMN IF NOT EXISTS failure_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_error text,
+  ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+-- One row per browser endpoint; keep the newest of any duplicates
+DELETE FROM public.push_subscriptions a
+USING public.push_subscriptions b
+WHERE a.endpoint = b.endpoint
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint
+  ON public.push_subscriptions (endpoint)
+  WHERE endpoint IS NOT NULL;
+
+-- Stores the browser's subscription for the caller. An endpoint moves to
+-- whoever signed in on the device last, so a shared phone doesn't keep
+-- receiving the previous user's notifications.
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_device_info jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_id uuid;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Authentication required');
+  END IF;
+
+  IF p_endpoint IS NULL OR p_endpoint !~ '^https://' OR p_p256dh IS NULL OR p_auth IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid push subscription');
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, provider, endpoint, p256dh, auth, device_info, is_active)
+  VALUES (v_user_id, 'webpush', p_endpoint, p_p256dh, p_auth, COALESCE(p_device_info, '{}'::jsonb), true)
+  ON CONFLICT (endpoint) WHERE endpoint IS NOT NULL DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      device_info = EXCLUDED.device_info,
+      is_active = true,
+      failure_count = 0,
+      last_error = NULL,
+      deactivated_at = NULL
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.register_push_subscription(text, text, text, jsonb) TO authenticated;
+
+-- ============================================
+-- 2. PUSH ON NEW NOTIFICATIONS
+-- pushed_at is stamped by push-dispatcher, so a retried call can't push the
+-- same notification twice.
+-- ============================================
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS pushed_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.dispatch_notification_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Skip the HTTP call for users without a device to push to
+  IF NOT EXISTS (
+    SELECT 1 FROM public.push_subscriptions
+    WHERE user_id = NEW.user_id AND is_active = true AND provider = 'webpush'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.invoke_edge_function(
+    'push-dispatcher',
+    jsonb_build_object('action', 'dispatch', 'notificationId', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- To revert: DROP TRIGGER dispatch_notification_push ON public.notifications;
+CREATE TRIGGER dispatch_notification_push
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.dispatch_notification_push();
+
+-- ============================================
+-- 3. PAYMENT CONFIRMATIONS
+-- A transaction can turn successful from the Lenco webhook, a verify or an
+-- OTP submission; notifying here covers every path exactly once.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.notify_transaction_successful()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount text;
+  v_what text;
+BEGIN
+  v_amount := CASE WHEN NEW.currency = 'ZMW' THEN 'K' ELSE NEW.currency || ' ' END
+    || to_char(NEW.amount, 'FM999,999,999,990.00');
+  v_what := COALESCE(NULLIF(NEW.description, ''), replace(NEW.transaction_type::text, '_', ' '));
+
+  INSERT INTO public.notifications (user_id, title, body, type, data)
+  VALUES (
+    NEW.user_id,
+    'Payment confirmed',
+    format('Your payment of %s for %s went through.', v_amount, v_what),
+    CASE WHEN NEW.transaction_type = 'service_purchase' THEN 'order' ELSE 'system' END,
+    jsonb_build_object(
+      'transaction_id', NEW.id,
+      'order_id', NEW.order_id,
+      'url', CASE WHEN NEW.order_id IS NOT NULL THEN '/orders' ELSE '/wallet' END
+    )
+  );
+
+  IF NEW.transaction_type = 'service_purchase' AND NEW.recipient_id IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, title, body, type, data)
+    VALUES (
+      NEW.recipient_id,
+      'Payment received',
+      CASE WHEN NEW.order_id IS NOT NULL
+        THEN format('A client paid %s for %s. It is held in escrow until they accept delivery.', v_amount, v_what)
+        ELSE format('A client paid %s for %s.', v_amount, v_what)
+      END,
+      'order',
+      jsonb_build_object(
+        'transaction_id', NEW.id,
+        'order_id', NEW.order_id,
+        'url', CASE WHEN NEW.order_id IS NOT NULL THEN '/orders' ELSE '/wallet' END
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+EXCEPTION
+  -- A missing profile must never hold up a payment
+  WHEN foreign_key_violation THEN
+    RAISE WARNING 'Payment notification for transaction % skipped: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_transaction_successful
+  AFTER UPDATE OF status ON public.transactions
+  FOR EACH ROW
+  WHEN (NEW.status = 'successful' AND OLD.status IS DISTINCT FROM 'successful')
+  EXECUTE FUNCTION public.notify_transaction_successful();
@@ -0,0 +1,67 @@
+-- ============================================
+-- NOTIFICATION ROUTER
+-- Edge functions hand typed events to _shared/notification-router.ts, which
+-- picks the channels (in-app, email, push) from the recipient's
+-- notification_preferences and writes one notification_logs row for each
+-- delivery, including the channels it skipped and why.
+-- ============================================
+
+-- ============================================
+-- 1. QUIET HOURS
+-- ============================================
+COMMENT ON COLUMN public.notification_preferences.quiet_hours IS
+  '{"enabled": bool, "start": "HH:MM", "end": "HH:MM", "timezone": IANA name}. Push and email are held between start and end in that timezone; the in-app inbox is not.';
+
+-- ============================================
+-- 2. DELIVERY LOG
+-- notification_type keeps the notifications.type; event is the router event
+-- kind, NULL for rows other code inserted into notifications directly.
+-- ============================================
+ALTER TABLE public.notification_logs
+  ADD COLUMN IF NOT EXISTS event text,
+  ADD COLUMN IF NOT EXISTS notification_id uuid REFERENCES public.notifications(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS channels text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS skipped jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS push_sent integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS email_message_id text;
+
+CREATE INDEX IF NOT EXISTS idx_notification_logs_user_created
+  ON public.notification_logs (user_id, created_at DESC);
+
+CREATE POLICY "Admins can view notification logs"
+  ON public.notification_logs FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 3. PUSH FOR DIRECT INSERTS ONLY
+-- The router pushes its own notifications and inserts them with pushed_at
+-- already set; rows inserted any other way still go to push-dispatcher,
+-- which applies the same preference checks.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.dispatch_notification_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pushed_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Skip the HTTP call for users without a device to push to
+  IF NOT EXISTS (
+    SELECT 1 FROM public.push_subscriptions
+    WHERE user_id = NEW.user_id AND is_active = true AND provider = 'webpush'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.invoke_edge_function(
+    'push-dispatcher',
+    jsonb_build_object('action', 'dispatch', 'notificationId', NEW.id)
+  );
+
+  RETURN NEW;
+END;
+$$;
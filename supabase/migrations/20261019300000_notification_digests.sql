@@ -0,0 +1,37 @@
+-- ============================================
+-- NOTIFICATION DIGESTS
+-- Users with a daily or weekly notification frequency get their emails
+-- batched into one digest by the notification-digests edge function (see
+-- _shared/notification-digest.ts). last_digest_at marks the end of the
+-- previous digest window and keeps a repeated run from sending twice.
+-- ============================================
+
+-- ============================================
+-- 1. DIGEST STATE
+-- ============================================
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS last_digest_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_digest
+  ON public.notification_preferences (frequency, last_digest_at)
+  WHERE frequency IN ('daily', 'weekly');
+
+-- Digest content lookups
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON public.notifications (user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sme_professional_matches_professional
+  ON public.sme_professional_matches (professional_id, created_at DESC);
+
+-- ============================================
+-- 2. CRON JOB
+-- Hourly, so users a run could not reach are picked up by the next one.
+-- Digests themselves go out from 06:00 UTC (08:00 in Lusaka).
+-- To revert: SELECT cron.unschedule('notification-digests');
+-- ============================================
+SELECT cron.schedule(
+  'notification-digests',
+  '15 * * * *',
+  $$SELECT public.invoke_edge_function('notification-digests')$$
+);
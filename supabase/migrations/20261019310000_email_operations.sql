@@ -0,0 +1,451 @@
+-- ============================================
+-- EMAIL OPERATIONS
+-- Backs the /admin/email console:
+--   * send volume and failure rates per template from email_send_log
+--   * the rate-limit backoff in email_send_state
+--   * inspecting, requeueing and purging the pgmq dead letter queues
+--     (<queue>_dlq, filled by move_to_dlq)
+--   * adding and removing suppressions
+--
+-- Admins read the log, state and suppressions directly; everything that
+-- changes something goes through an admin RPC that writes an audit entry.
+-- ============================================
+
+-- ============================================
+-- 1. STATUSES AND REASONS
+-- process-email-queue logs 'rate_limited' attempts, which the original
+-- check rejected. Suppressions added by an admin use reason 'manual' and,
+-- like bounces, stop essential emails too.
+-- ============================================
+ALTER TABLE public.email_send_log DROP CONSTRAINT IF EXISTS email_send_log_status_check;
+ALTER TABLE public.email_send_log ADD CONSTRAINT email_send_log_status_check
+  CHECK (status IN ('pending', 'sent', 'suppressed', 'failed', 'rate_limited', 'bounced', 'complained', 'dlq'));
+
+ALTER TABLE public.suppressed_emails DROP CONSTRAINT IF EXISTS suppressed_emails_reason_check;
+ALTER TABLE public.suppressed_emails ADD CONSTRAINT suppressed_emails_reason_check
+  CHECK (reason IN ('unsubscribe', 'bounce', 'complaint', 'manual'));
+
+CREATE INDEX IF NOT EXISTS idx_email_send_log_template_created
+  ON public.email_send_log (template_name, created_at DESC);
+
+-- ============================================
+-- 2. ADMIN READ ACCESS
+-- ============================================
+CREATE POLICY "Admins can view email send log"
+ON public.email_send_log FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view email send state"
+ON public.email_send_state FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view suppressed emails"
+ON public.suppressed_emails FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- ============================================
+-- 3. SEND STATISTICS
+-- Each message counts once, by its latest logged status: delivered
+-- ('sent'), failed for good ('dlq', 'bounced', 'complained'), suppressed, or
+-- still pending a retry. failure_rate is failed / (sent + failed).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_email_send_stats(p_since timestamptz)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_templates jsonb;
+  v_dlq jsonb := '{}'::jsonb;
+  v_queue text;
+  v_depth bigint;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  WITH latest AS (
+    SELECT DISTINCT ON (COALESCE(l.message_id, l.id::text))
+      l.template_name, l.status
+    FROM public.email_send_log l
+    WHERE l.created_at >= p_since
+    ORDER BY COALESCE(l.message_id, l.id::text), l.created_at DESC
+  ),
+  messages AS (
+    SELECT template_name,
+           count(*) AS messages,
+           count(*) FILTER (WHERE status = 'sent') AS sent,
+           count(*) FILTER (WHERE status IN ('dlq', 'bounced', 'complained')) AS failed,
+           count(*) FILTER (WHERE status = 'suppressed') AS suppressed,
+           count(*) FILTER (WHERE status IN ('pending', 'failed', 'rate_limited')) AS pending
+    FROM latest
+    GROUP BY template_name
+  ),
+  attempts AS (
+    SELECT template_name,
+           count(*) FILTER (WHERE status = 'failed') AS failed_attempts,
+           count(*) FILTER (WHERE status = 'rate_limited') AS rate_limited,
+           max(created_at) FILTER (WHERE status = 'sent') AS last_sent_at
+    FROM public.email_send_log
+    WHERE created_at >= p_since
+    GROUP BY template_name
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'template_name', m.template_name,
+    'messages', m.messages,
+    'sent', m.sent,
+    'failed', m.failed,
+    'suppressed', m.suppressed,
+    'pending', m.pending,
+    'failed_attempts', a.failed_attempts,
+    'rate_limited', a.rate_limited,
+    'failure_rate', CASE WHEN m.sent + m.failed > 0
+      THEN round(m.failed::numeric / (m.sent + m.failed), 4) ELSE 0 END,
+    'last_sent_at', a.last_sent_at
+  ) ORDER BY m.messages DESC, m.template_name), '[]'::jsonb)
+  INTO v_templates
+  FROM messages m
+  JOIN attempts a USING (template_name);
+
+  FOREACH v_queue IN ARRAY ARRAY['auth_emails', 'transactional_emails'] LOOP
+    BEGIN
+      EXECUTE format('SELECT count(*) FROM pgmq.%I', 'q_' || v_queue || '_dlq') INTO v_depth;
+    EXCEPTION WHEN undefined_table THEN
+      v_depth := 0;
+    END;
+    v_dlq := v_dlq || jsonb_build_object(v_queue, v_depth);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'templates', v_templates, 'dlq', v_dlq);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_email_send_stats(timestamptz) TO authenticated;
+
+-- ============================================
+-- 4. DEAD LETTER QUEUES
+-- p_queue is the source queue; its messages dead-letter to <p_queue>_dlq.
+-- Requeued messages get a new message_id and queued_at so the retry budget
+-- and TTL in process-email-queue start over; requeued_from keeps the old id.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_list_email_dlq(
+  p_queue text,
+  p_limit integer DEFAULT 50
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows jsonb;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_queue NOT IN ('auth_emails', 'transactional_emails') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown email queue');
+  END IF;
+
+  BEGIN
+    -- The HTML body is left out; the text alternative says the same
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(
+         ''msg_id'', q.msg_id,
+         ''read_ct'', q.read_ct,
+         ''enqueued_at'', q.enqueued_at,
+         ''message'', q.message - ''html'',
+         ''reason'', (
+           SELECT l.error_message FROM public.email_send_log l
+           WHERE l.message_id = q.message->>''message_id'' AND l.status = ''dlq''
+           ORDER BY l.created_at DESC
+           LIMIT 1
+         )
+       ) ORDER BY q.msg_id DESC), ''[]''::jsonb)
+       FROM (SELECT * FROM pgmq.%I ORDER BY msg_id DESC LIMIT $1) q',
+      'q_' || p_queue || '_dlq'
+    )
+    INTO v_rows
+    USING LEAST(GREATEST(p_limit, 1), 200);
+  EXCEPTION WHEN undefined_table THEN
+    v_rows := '[]'::jsonb;
+  END;
+
+  RETURN jsonb_build_object('success', true, 'messages', v_rows);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_email_dlq(text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_requeue_email_dlq(
+  p_queue text,
+  p_msg_ids bigint[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_dlq text;
+  v_msg record;
+  v_new_id text;
+  v_requeued jsonb := '[]'::jsonb;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_queue NOT IN ('auth_emails', 'transactional_emails') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown email queue');
+  END IF;
+
+  IF COALESCE(array_length(p_msg_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No messages selected');
+  END IF;
+
+  v_dlq := p_queue || '_dlq';
+
+  FOR v_msg IN EXECUTE format(
+    'SELECT msg_id, message FROM pgmq.%I WHERE msg_id = ANY($1) ORDER BY msg_id FOR UPDATE',
+    'q_' || v_dlq
+  ) USING p_msg_ids
+  LOOP
+    v_new_id := gen_random_uuid()::text;
+
+    PERFORM public.enqueue_email(p_queue, v_msg.message || jsonb_build_object(
+      'message_id', v_new_id,
+      'queued_at', now(),
+      'requeued_from', v_msg.message->>'message_id'
+    ));
+    PERFORM pgmq.delete(v_dlq, v_msg.msg_id);
+
+    v_requeued := v_requeued || jsonb_build_object(
+      'dlq_msg_id', v_msg.msg_id,
+      'message_id', v_msg.message->>'message_id',
+      'new_message_id', v_new_id,
+      'template', v_msg.message->>'label',
+      'to', v_msg.message->>'to'
+    );
+  END LOOP;
+
+  IF jsonb_array_length(v_requeued) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Messages not found in the dead letter queue');
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'email_dlq_requeued',
+    'email_dlq',
+    v_dlq,
+    NULL,
+    jsonb_build_object('messages', v_requeued),
+    jsonb_build_object('count', jsonb_array_length(v_requeued))
+  );
+
+  RETURN jsonb_build_object('success', true, 'requeued', jsonb_array_length(v_requeued));
+EXCEPTION
+  WHEN undefined_table THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Messages not found in the dead letter queue');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_requeue_email_dlq(text, bigint[]) TO authenticated;
+
+-- Deletes the given messages, or the whole dead letter queue when p_msg_ids
+-- is NULL. The audit entry keeps who each purged message was for.
+CREATE OR REPLACE FUNCTION public.admin_purge_email_dlq(
+  p_queue text,
+  p_msg_ids bigint[] DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_dlq text;
+  v_before jsonb;
+  v_count bigint;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  IF p_queue NOT IN ('auth_emails', 'transactional_emails') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown email queue');
+  END IF;
+
+  IF p_msg_ids IS NOT NULL AND COALESCE(array_length(p_msg_ids, 1), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No messages selected');
+  END IF;
+
+  v_dlq := p_queue || '_dlq';
+
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(jsonb_build_object(
+       ''dlq_msg_id'', msg_id,
+       ''message_id'', message->>''message_id'',
+       ''template'', message->>''label'',
+       ''to'', message->>''to'',
+       ''subject'', message->>''subject''
+     ) ORDER BY msg_id), ''[]''::jsonb)
+     FROM pgmq.%I
+     WHERE $1 IS NULL OR msg_id = ANY($1)',
+    'q_' || v_dlq
+  )
+  INTO v_before
+  USING p_msg_ids;
+
+  IF jsonb_array_length(v_before) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Messages not found in the dead letter queue');
+  END IF;
+
+  IF p_msg_ids IS NULL THEN
+    v_count := pgmq.purge_queue(v_dlq);
+  ELSE
+    SELECT count(*) INTO v_count FROM pgmq.delete(v_dlq, p_msg_ids);
+  END IF;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'email_dlq_purged',
+    'email_dlq',
+    v_dlq,
+    jsonb_build_object('messages', v_before),
+    NULL,
+    jsonb_build_object('count', v_count, 'all', p_msg_ids IS NULL)
+  );
+
+  RETURN jsonb_build_object('success', true, 'purged', v_count);
+EXCEPTION
+  WHEN undefined_table THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Messages not found in the dead letter queue');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_purge_email_dlq(text, bigint[]) TO authenticated;
+
+-- ============================================
+-- 5. SUPPRESSIONS
+-- Removing a suppression also clears the address's used unsubscribe token,
+-- so notification emails resume rather than being skipped as unsubscribed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.admin_add_email_suppression(
+  p_email text,
+  p_reason text DEFAULT 'manual',
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_email text;
+  v_suppression public.suppressed_emails;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  v_email := lower(trim(COALESCE(p_email, '')));
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter a valid email address');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.suppressed_emails WHERE email = v_email) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This address is already suppressed');
+  END IF;
+
+  INSERT INTO public.suppressed_emails (email, reason, metadata)
+  VALUES (
+    v_email,
+    COALESCE(p_reason, 'manual'),
+    jsonb_build_object('source', 'admin', 'note', NULLIF(trim(p_note), ''), 'added_by', v_actor_id)
+  )
+  RETURNING * INTO v_suppression;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'email_suppression_added',
+    'suppressed_emails',
+    v_suppression.id::text,
+    NULL,
+    to_jsonb(v_suppression),
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true, 'suppression', to_jsonb(v_suppression));
+EXCEPTION
+  WHEN check_violation THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid suppression: ' || SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_add_email_suppression(text, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.admin_remove_email_suppression(p_suppression_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id uuid;
+  v_suppression public.suppressed_emails;
+BEGIN
+  v_actor_id := auth.uid();
+
+  IF NOT public.has_role(v_actor_id, 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unauthorized: Admin access required');
+  END IF;
+
+  DELETE FROM public.suppressed_emails
+  WHERE id = p_suppression_id
+  RETURNING * INTO v_suppression;
+
+  IF v_suppression.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Suppression not found');
+  END IF;
+
+  UPDATE public.email_unsubscribe_tokens
+  SET used_at = NULL
+  WHERE email = v_suppression.email
+    AND used_at IS NOT NULL;
+
+  INSERT INTO public.audit_logs (actor_id, action, entity, entity_id, before, after, metadata)
+  VALUES (
+    v_actor_id,
+    'email_suppression_removed',
+    'suppressed_emails',
+    v_suppression.id::text,
+    to_jsonb(v_suppression),
+    NULL,
+    '{}'::jsonb
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.admin_remove_email_suppression(uuid) TO authenticated;
@@ -0,0 +1,139 @@
+-- ============================================
+-- ESCROW FUNDING IN THE ORDER CURRENCY
+-- An order priced outside ZMW is collected in kwacha at a quoted rate
+-- (20261019160000_fx_rates.sql): the transaction amount is the converted
+-- ZMW figure and original_amount/original_currency hold the order-currency
+-- price. Escrow, and every settlement paid out of it, is in the order
+-- currency, so fund it from whichever side of the transaction is in that
+-- currency and refuse a payment that does not cover exactly the order or
+-- milestone total.
+-- ============================================
+
+-- The amount of `p_tx` in `p_currency`, or NULL when neither side of the
+-- transaction is in that currency
+CREATE OR REPLACE FUNCTION public.transaction_amount_in(
+  p_tx public.transactions,
+  p_currency text
+)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_tx.currency = p_currency THEN p_tx.amount
+    WHEN p_tx.original_currency = p_currency THEN p_tx.original_amount
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fund_order_escrow(
+  p_order_id uuid,
+  p_transaction_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order record;
+  v_tx public.transactions;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF v_order.escrow_status <> 'unfunded' THEN
+    RETURN jsonb_build_object('success', true, 'idempotent', true, 'status', v_order.status);
+  END IF;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'successful' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction is not successful');
+  END IF;
+
+  IF v_tx.user_id <> v_order.client_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not belong to the client');
+  END IF;
+
+  v_amount := public.transaction_amount_in(v_tx, v_order.currency);
+  IF v_amount IS NULL OR abs(v_amount - v_order.total_amount) > 0.01 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not match the order total');
+  END IF;
+
+  UPDATE public.orders
+  SET status = 'funded',
+      payment_status = 'paid',
+      escrow_status = 'held',
+      escrow_amount = v_amount,
+      funding_transaction_id = v_tx.id,
+      funded_at = now()
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true, 'status', 'funded', 'escrow_amount', v_amount);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fund_milestone_escrow(
+  p_milestone_id uuid,
+  p_transaction_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone record;
+  v_order record;
+  v_tx public.transactions;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_milestone FROM public.order_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone not found');
+  END IF;
+
+  IF v_milestone.escrow_status <> 'unfunded' THEN
+    RETURN jsonb_build_object('success', true, 'idempotent', true, 'status', v_milestone.status);
+  END IF;
+
+  IF v_milestone.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone is no longer awaiting funding');
+  END IF;
+
+  SELECT client_id, currency INTO v_order FROM public.orders WHERE id = v_milestone.order_id;
+
+  SELECT * INTO v_tx FROM public.transactions WHERE id = p_transaction_id;
+  IF NOT FOUND OR v_tx.status <> 'successful' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction is not successful');
+  END IF;
+
+  IF v_tx.user_id <> v_order.client_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not belong to the client');
+  END IF;
+
+  -- What lenco-payments charges for a milestone
+  v_amount := public.transaction_amount_in(v_tx, v_order.currency);
+  IF v_amount IS NULL
+     OR abs(v_amount - (v_milestone.amount + v_milestone.platform_fee + v_milestone.tax_amount)) > 0.01 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Funding transaction does not match the milestone total');
+  END IF;
+
+  UPDATE public.order_milestones
+  SET status = 'funded',
+      escrow_status = 'held',
+      escrow_amount = v_amount,
+      funding_transaction_id = v_tx.id,
+      funded_at = now()
+  WHERE id = p_milestone_id;
+
+  PERFORM public.sync_order_milestone_status(v_milestone.order_id);
+
+  RETURN jsonb_build_object('success', true, 'status', 'funded', 'escrow_amount', v_amount);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transaction_amount_in(public.transactions, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transaction_amount_in(public.transactions, text) TO service_role;
@@ -0,0 +1,86 @@
+-- ============================================
+-- OPENING A DISPUTE
+-- Moving the order to 'disputed' freezes its escrow, and the dispute row is
+-- what an admin resolves it through. Both happen here in one transaction, so
+-- a failed insert cannot leave an order frozen with no dispute to resolve.
+-- Called by the order-manager edge function on behalf of `p_opened_by`.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.open_order_dispute(
+  p_order_id uuid,
+  p_opened_by uuid,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_dispute public.disputes;
+BEGIN
+  -- Disputing stops the auto-accept clock; funds stay held in escrow
+  UPDATE public.orders
+  SET status = 'disputed',
+      auto_accept_at = NULL
+  WHERE id = p_order_id
+    AND p_opened_by IN (client_id, provider_id)
+    AND status IN ('in_progress', 'delivered')
+  RETURNING * INTO v_order;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order must be in_progress or delivered for this action');
+  END IF;
+
+  INSERT INTO public.disputes (order_id, transaction_id, opened_by, reason)
+  VALUES (v_order.id, v_order.funding_transaction_id, p_opened_by, p_reason)
+  RETURNING * INTO v_dispute;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order), 'dispute', to_jsonb(v_dispute));
+END;
+$$;
+
+-- The same for one milestone of a milestone order; the order's own status
+-- follows its milestones (sync_order_milestone_status)
+CREATE OR REPLACE FUNCTION public.open_milestone_dispute(
+  p_milestone_id uuid,
+  p_opened_by uuid,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_milestone public.order_milestones;
+  v_dispute public.disputes;
+BEGIN
+  UPDATE public.order_milestones m
+  SET status = 'disputed',
+      auto_accept_at = NULL
+  FROM public.orders o
+  WHERE m.id = p_milestone_id
+    AND o.id = m.order_id
+    AND p_opened_by IN (o.client_id, o.provider_id)
+    AND m.status IN ('funded', 'delivered')
+  RETURNING m.* INTO v_milestone;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Milestone must be funded or delivered for this action');
+  END IF;
+
+  PERFORM public.sync_order_milestone_status(v_milestone.order_id);
+
+  INSERT INTO public.disputes (order_id, milestone_id, transaction_id, opened_by, reason)
+  VALUES (v_milestone.order_id, v_milestone.id, v_milestone.funding_transaction_id, p_opened_by, p_reason)
+  RETURNING * INTO v_dispute;
+
+  RETURN jsonb_build_object('success', true, 'milestone', to_jsonb(v_milestone), 'dispute', to_jsonb(v_dispute));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_order_dispute(uuid, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.open_order_dispute(uuid, uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.open_milestone_dispute(uuid, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.open_milestone_dispute(uuid, uuid, text) TO service_role;
@@ -0,0 +1,19 @@
+// Edge-function modules read their configuration from Deno.env. Tests that
+// import them never reach those reads; this only lets them type-check.
+// Listed in the `types` of tsconfig.test.json and jest.config.cjs only, so
+// the browser app never sees a Deno global.
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// Deno loads pdf-lib from esm.sh for transaction-documents.ts. Tests that
+// reach that module mock it, so the names it imports only need to resolve.
+declare module 'https://esm.sh/pdf-lib@1.17.1' {
+  export const PDFDocument: any;
+  export const StandardFonts: any;
+  export const rgb: any;
+  export type PDFFont = any;
+  export type PDFPage = any;
+}